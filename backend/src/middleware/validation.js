@@ -6,14 +6,19 @@ const baseSolidityCompilationSchema = Joi.object({
   code: Joi.string().required().min(1).max(50000),
   optimization: Joi.boolean().default(true),
   version: Joi.string().default('latest'),
-  contractName: Joi.string().default('Contract')
+  contractName: Joi.string().default('Contract'),
+  // Build the implementation of a proxy, with `initialize` in place of the constructor
+  upgradeable: Joi.boolean().default(false)
 });
 
 const baseRustCompilationSchema = Joi.object({
   code: Joi.string().required().min(1).max(50000),
   optimization: Joi.boolean().default(true),
   target: Joi.string().valid('stylus').default('stylus'),
-  contractName: Joi.string().default('Contract')
+  version: Joi.string().default('latest'),
+  contractName: Joi.string().default('Contract'),
+  // Crate generated by the SDK, keyed by path (Cargo.toml, src/lib.rs, ...)
+  files: Joi.object().pattern(Joi.string().max(200), Joi.string().max(200000))
 });
 
 const baseVyperCompilationSchema = Joi.object({
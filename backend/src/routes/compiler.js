@@ -162,12 +162,12 @@ router.post('/vyper', validateVyperCompilation, async (req, res) => {
  */
 router.post('/solidity', validateSolidityCompilation, async (req, res) => {
   const sessionId = uuidv4();
-  const { code, optimization = true, version = '0.8.19' } = req.body;
+  const { code, optimization = true, version = '0.8.19', upgradeable = false } = req.body;
   
   try {
     logger.info(`Starting Solidity compilation session: ${sessionId}`);
     
-    const cacheKey = `solidity_compile_${Buffer.from(code).toString('base64').slice(0, 32)}`;
+    const cacheKey = `solidity_compile_${upgradeable ? 'upgradeable_' : ''}${Buffer.from(code).toString('base64').slice(0, 32)}`;
     const cachedResult = await cacheManager.get(cacheKey);
     
     if (cachedResult) {
@@ -184,6 +184,7 @@ router.post('/solidity', validateSolidityCompilation, async (req, res) => {
     const result = await compiler.compile(code, 'Contract', {
       optimization,
       version,
+      upgradeable,
       onProgress: (progress) => {
         io.to(`compilation-${sessionId}`).emit('compilation-progress', progress);
       }
@@ -285,7 +286,7 @@ router.post('/solidity', validateSolidityCompilation, async (req, res) => {
  */
 router.post('/rust', validateRustCompilation, async (req, res) => {
   const sessionId = uuidv4();
-  const { code, optimization = true } = req.body;
+  const { code, optimization = true, contractName, files } = req.body;
   
   try {
     logger.info(`Starting Rust compilation session: ${sessionId}`);
@@ -308,7 +309,8 @@ router.post('/rust', validateRustCompilation, async (req, res) => {
       code,
       optimization,
       target: 'stylus',
-      contractName: 'Contract',
+      contractName,
+      files,
       onProgress: (progress) => {
         io.to(`compilation-${sessionId}`).emit('compilation-progress', progress);
       }
@@ -331,6 +333,7 @@ router.post('/rust', validateRustCompilation, async (req, res) => {
       success: result.success,
       sessionId,
       output: result.rustCode || result.output || '', // Use rustCode as output
+      files: result.files,
       abi: result.abi || [],
       bytecode: result.wasmBytecode || result.wasm || result.bytecode || '', // Use WASM bytecode for Stylus
       errors: result.error ? [result.error] : (result.errors || []),
@@ -150,7 +150,8 @@ router.post('/function', [
         logger.error(`Read function execution failed: ${error.message}`);
         return res.status(400).json({
           success: false,
-          message: `Function execution failed: ${error.message}`
+          message: `Function execution failed: ${error.message}`,
+          revertData: getRevertData(error)
         });
       }
 
@@ -204,6 +205,7 @@ router.post('/function', [
         return res.status(400).json({
           success: false,
           message: `Transaction failed: ${error.message}`,
+          revertData: getRevertData(error),
           txHash
         });
       }
@@ -273,7 +275,8 @@ router.post('/simulate', [
     } catch (error) {
       res.status(400).json({
         success: false,
-        message: `Simulation failed: ${error.message}`
+        message: `Simulation failed: ${error.message}`,
+        revertData: getRevertData(error)
       });
     }
 
@@ -304,6 +307,12 @@ function getProvider(network) {
   return new ethers.JsonRpcProvider(rpcUrl);
 }
 
+// Raw revert data of a failed call, which the client decodes with its ABI
+function getRevertData(error) {
+  const candidates = [error.data, error.info?.error?.data, error.error?.data];
+  return candidates.find(data => typeof data === 'string' && /^0x[0-9a-fA-F]{8}/.test(data));
+}
+
 function getExplorerUrl(network, txHash) {
   const explorers = {
     mainnet: `https://etherscan.io/tx/${txHash}`,
@@ -22,15 +22,16 @@ export class RustCompiler {
     code,
     optimization = true,
     target = 'stylus',
-    contractName = 'Contract'
+    contractName = 'Contract',
+    files
   }) {
     const startTime = Date.now();
 
     try {
       logger.info('Starting Rust/Stylus compilation...');
 
-      // For now, return a mock Rust/Stylus output since actual compilation is complex
-      const rustCode = this.generateMockRustCode(code, contractName);
+      // The SDK generates the crate; older clients only send Python code
+      const rustCode = files?.['src/lib.rs'] ?? this.generateMockRustCode(code, contractName);
       
       const compilationTime = Date.now() - startTime;
 
@@ -38,6 +39,7 @@ export class RustCompiler {
         success: true,
         output: rustCode,
         rustCode,
+        files,
         wasmBytecode: this.generateMockWasm(),
         abi: this.generateMockAbi(contractName),
         target,
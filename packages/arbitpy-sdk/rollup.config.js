@@ -1,5 +1,6 @@
 import resolve from '@rollup/plugin-node-resolve';
 import commonjs from '@rollup/plugin-commonjs';
+import json from '@rollup/plugin-json';
 import typescript from '@rollup/plugin-typescript';
 import dts from 'rollup-plugin-dts';
 import { readFileSync } from 'fs';
@@ -25,14 +26,16 @@ export default [
     plugins: [
       resolve(),
       commonjs(),
+      // The OpenZeppelin proxy artifacts
+      json(),
       typescript({ tsconfig: './tsconfig.json' }),
     ],
-    external: ['ethers', 'axios', 'eventemitter3'],
+    external: ['ethers', 'axios', 'eventemitter3', /^@ethereumjs\//],
   },
   {
     input: 'src/index.ts',
     output: [{ file: 'dist/index.d.ts', format: 'esm' }],
     plugins: [dts()],
-    external: [/\.css$/, 'ethers', 'axios', 'eventemitter3'],
+    external: [/\.css$/, 'ethers', 'axios', 'eventemitter3', /^@ethereumjs\//],
   },
 ];
\ No newline at end of file
@@ -0,0 +1,76 @@
+#!/usr/bin/env node
+// Generate typed contract bindings from compilation output
+//
+// Usage: node scripts/generate-bindings.js [--out dir] [--sdk module] <files...>
+//
+// Each file is a JSON ABI, a JSON compilation result with an `abi` field
+// (optionally named by `contractName`), or ArbitPy source, which is
+// transpiled locally. Requires a build of the SDK (`npm run build`).
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, extname, join } from 'path';
+import { generateBindings, transpileToSolidity } from '../dist/index.esm.js';
+
+function parseArgs(argv) {
+  const options = { out: 'bindings', sdk: undefined, files: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--out') options.out = argv[++i];
+    else if (arg === '--sdk') options.sdk = argv[++i];
+    else options.files.push(arg);
+  }
+  return options;
+}
+
+function fileName(file) {
+  return basename(file, extname(file));
+}
+
+// Read the contract name and ABI from a compilation output or source file
+function loadContract(file) {
+  const text = readFileSync(file, 'utf-8');
+
+  if (extname(file) === '.py') {
+    const result = transpileToSolidity(text, { contractName: fileName(file) });
+    if (!result.success) {
+      const messages = result.errors.map(
+        (error) => `  ${file}:${error.line ?? '?'}: ${error.message}`
+      );
+      throw new Error(`Compilation failed\n${messages.join('\n')}`);
+    }
+    return { name: result.model.name, abi: result.abi };
+  }
+
+  const json = JSON.parse(text);
+  const abi = Array.isArray(json) ? json : json.abi;
+  if (!Array.isArray(abi)) {
+    throw new Error(`${file} has no ABI`);
+  }
+  return { name: json.contractName || fileName(file), abi };
+}
+
+const options = parseArgs(process.argv.slice(2));
+if (options.files.length === 0) {
+  console.error(
+    'Usage: node scripts/generate-bindings.js [--out dir] [--sdk module] <files...>'
+  );
+  process.exit(1);
+}
+
+mkdirSync(options.out, { recursive: true });
+let failed = false;
+for (const file of options.files) {
+  try {
+    const { name, abi } = loadContract(file);
+    const output = join(options.out, `${name}.ts`);
+    writeFileSync(
+      output,
+      generateBindings(abi, { contractName: name, sdkImport: options.sdk })
+    );
+    console.log(`✅ ${file} -> ${output}`);
+  } catch (error) {
+    failed = true;
+    console.error(`❌ ${file}: ${error.message}`);
+  }
+}
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,314 @@
+// ABI generation tests
+import {
+  transpileToRust,
+  transpileToSolidity,
+  typeCheck,
+} from '../codegen/index.js';
+
+const VAULT = `
+struct Position:
+    owner: address
+    size: uint256
+    tags: DynArray[uint256, 8]
+
+event Opened:
+    owner: indexed(address)
+    size: uint256
+
+error InsufficientBalance:
+    available: uint256
+    required: uint256
+
+positions: public(HashMap[address, Position])
+owner: public(address)
+
+@external
+@payable
+def __init__():
+    self.owner = msg.sender
+
+@external
+def open(size: uint256, lock: bool = False):
+    if size > 100:
+        raise InsufficientBalance(100, size)
+    log Opened(msg.sender, size)
+
+@external
+@view
+def quote(p: Position) -> (uint256, bool):
+    return p.size, True
+`;
+
+describe('generateAbi', () => {
+  it('should describe the Solidity contract like solc', () => {
+    const { abi } = transpileToSolidity(VAULT, { contractName: 'Vault' });
+
+    expect(abi?.map((item) => item.type)).toEqual([
+      'constructor',
+      'error',
+      'event',
+      'function',
+      'function',
+      'function',
+      'function',
+      'function',
+    ]);
+    expect(abi?.[0]).toEqual({
+      type: 'constructor',
+      inputs: [],
+      stateMutability: 'payable',
+    });
+    expect(abi).toContainEqual({
+      type: 'error',
+      name: 'InsufficientBalance',
+      inputs: [
+        { name: 'available', type: 'uint256', internalType: 'uint256' },
+        { name: 'required', type: 'uint256', internalType: 'uint256' },
+      ],
+    });
+    expect(abi).toContainEqual({
+      type: 'event',
+      name: 'Opened',
+      inputs: [
+        {
+          name: 'owner',
+          type: 'address',
+          internalType: 'address',
+          indexed: true,
+        },
+        {
+          name: 'size',
+          type: 'uint256',
+          internalType: 'uint256',
+          indexed: false,
+        },
+      ],
+      anonymous: false,
+    });
+  });
+
+  it('should expose getters, overloads and struct tuples', () => {
+    const abi = transpileToSolidity(VAULT, { contractName: 'Vault' }).abi!;
+    const signatures = abi.map((item) =>
+      'name' in item
+        ? `${item.name}(${item.inputs.map((input) => input.type).join(',')})`
+        : item.type
+    );
+
+    expect(signatures).toEqual([
+      'constructor',
+      'InsufficientBalance(uint256,uint256)',
+      'Opened(address,uint256)',
+      'open(uint256)',
+      'open(uint256,bool)',
+      'owner()',
+      'positions(address)',
+      'quote(tuple)',
+    ]);
+    // Struct getters leave out array members
+    expect(
+      abi.find((item) => 'name' in item && item.name === 'positions')
+    ).toMatchObject({
+      outputs: [
+        { name: 'owner', type: 'address' },
+        { name: 'size', type: 'uint256' },
+      ],
+      stateMutability: 'view',
+    });
+    expect(
+      abi.find((item) => 'name' in item && item.name === 'quote')
+    ).toMatchObject({
+      inputs: [
+        {
+          name: 'p',
+          type: 'tuple',
+          internalType: 'struct Vault.Position',
+          components: [
+            { name: 'owner', type: 'address' },
+            { name: 'size', type: 'uint256' },
+            { name: 'tags', type: 'uint256[]' },
+          ],
+        },
+      ],
+      outputs: [
+        { name: '', type: 'uint256' },
+        { name: '', type: 'bool' },
+      ],
+      stateMutability: 'view',
+    });
+  });
+
+  it('should follow Solidity renames', () => {
+    const { abi } = transpileToSolidity(`
+balance: public(uint256)
+
+@external
+@view
+def balance() -> uint256:
+    return self.balance
+`);
+
+    expect(abi?.map((item) => 'name' in item && item.name)).toEqual([
+      'balance',
+      'balance_',
+    ]);
+  });
+
+  it('should describe the Stylus init method instead of a constructor', () => {
+    const { abi } = transpileToRust(`
+owner: public(address)
+
+@external
+def __init__():
+    self.owner = msg.sender
+`);
+
+    expect(abi).toEqual([
+      {
+        type: 'function',
+        name: 'init',
+        inputs: [],
+        outputs: [],
+        stateMutability: 'nonpayable',
+      },
+      {
+        type: 'function',
+        name: 'owner',
+        inputs: [],
+        outputs: [{ name: '', type: 'address', internalType: 'address' }],
+        stateMutability: 'view',
+      },
+    ]);
+  });
+});
+
+describe('custom errors', () => {
+  it('should declare and revert with custom errors', () => {
+    const solidity = transpileToSolidity(VAULT).output;
+    const rust = transpileToRust(`
+error Unauthorized:
+    pass
+
+owner: address
+
+@external
+def guard():
+    if msg.sender != self.owner:
+        raise Unauthorized
+`).output;
+
+    expect(solidity).toContain(
+      'error InsufficientBalance(uint256 available, uint256 required);'
+    );
+    expect(solidity).toContain('revert InsufficientBalance(100, size);');
+    expect(rust).toContain('error Unauthorized();');
+    expect(rust).toContain('return Err(Unauthorized {}.abi_encode());');
+    expect(rust).toContain('alloy_sol_types::{SolError, sol},');
+  });
+
+  it('should check the arguments of raised errors', () => {
+    const messages = typeCheck(`
+error TooLarge:
+    limit: uint256
+
+@external
+def run(flag: bool):
+    raise TooLarge(flag)
+
+@external
+def stop():
+    raise TooLarge(1, 2)
+`).errors.map((error) => error.message);
+
+    expect(messages).toEqual([
+      'Expected uint256, got bool',
+      "Error 'TooLarge' expects 1 argument, got 2",
+    ]);
+  });
+});
+
+describe('upgradeable builds', () => {
+  const VAULT_V1 = `
+owner: public(address)
+fee: public(uint256) = 30
+
+@external
+@payable
+def __init__(owner: address):
+    self.owner = owner
+
+@external
+def initialize():
+    self.fee = 1
+`;
+
+  it('should turn __init__ into a once-only initialize', () => {
+    const { output, abi, storageLayout, warnings } = transpileToSolidity(
+      VAULT_V1,
+      { contractName: 'Vault', upgradeable: true }
+    );
+
+    expect(output).toContain('uint256 public fee;');
+    expect(output).toContain(
+      [
+        '    function initialize(address owner_) public payable initializer {',
+        '        fee = 30;',
+        '        owner = owner_;',
+        '    }',
+      ].join('\n')
+    );
+    expect(output).toContain(
+      'require(initialized == 0, "Already initialized");'
+    );
+    expect(output).toContain('function initialize_() public {');
+    expect(warnings[0].message).toBe(
+      "Function 'initialize' is renamed to 'initialize_' in Solidity"
+    );
+    expect(abi?.[0]).toEqual({
+      type: 'constructor',
+      inputs: [],
+      stateMutability: 'nonpayable',
+    });
+    expect(abi).toContainEqual({
+      type: 'function',
+      name: 'initialize',
+      inputs: [{ name: 'owner_', type: 'address', internalType: 'address' }],
+      outputs: [],
+      stateMutability: 'payable',
+    });
+    expect(storageLayout).toEqual(
+      transpileToSolidity(VAULT_V1, { contractName: 'Vault' }).storageLayout
+    );
+  });
+
+  it('should add an initialize without __init__', () => {
+    const { output, abi } = transpileToSolidity('count: uint256 = 1\n', {
+      contractName: 'Counter',
+      upgradeable: true,
+    });
+
+    expect(output).toContain('function initialize() public initializer {');
+    expect(output).toContain('count = 1;');
+    expect(abi).toContainEqual(
+      expect.objectContaining({ name: 'initialize', inputs: [] })
+    );
+  });
+
+  it('should reject immutables', () => {
+    const { success, errors } = transpileToSolidity(
+      `
+owner: immutable(address)
+
+@external
+def __init__():
+    owner = msg.sender
+`,
+      { contractName: 'Vault', upgradeable: true }
+    );
+
+    expect(success).toBe(false);
+    expect(errors[0].message).toBe(
+      "Immutable 'owner' is set by the constructor, which never runs behind a proxy"
+    );
+  });
+});
@@ -0,0 +1,254 @@
+// Multi-network deployment tests
+import { ArbitPyDeployment } from '../deployment/index.js';
+import {
+  mergeManifests,
+  runDeploymentPlan,
+  type ManifestEntry,
+} from '../deployment/batch.js';
+import { getDevnet } from '../devnet/index.js';
+import type { AbiItem } from '../codegen/abi.js';
+import {
+  ArbitPyNetworkError,
+  InsufficientFundsError,
+  TransactionDroppedError,
+  TransactionPendingError,
+} from '../errors.js';
+import type { DeploymentResult } from '../types.js';
+import { TransportError } from '../utils/transport.js';
+
+// Stores its constructor argument and returns it from any call
+const runtime = '0x60005460005260206000f3';
+const bytecode =
+  '0x' +
+  '60206024600039' + // memory[0:32] = argument
+  '600051600055' + // storage[0] = memory[0:32]
+  '600b6019600039600b6000f3' + // return runtime
+  runtime.slice(2);
+const abi: AbiItem[] = [
+  {
+    type: 'constructor',
+    inputs: [{ name: 'seed', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+  },
+];
+
+const deployed = (contractAddress: string): DeploymentResult => ({
+  success: true,
+  transactionHash: '0x01',
+  contractAddress,
+  blockNumber: 1,
+  gasUsed: '21000',
+  status: 'confirmed',
+});
+
+describe('runDeploymentPlan', () => {
+  it('should retry failures that may pass and record attempts', async () => {
+    let calls = 0;
+    const updates: ManifestEntry[] = [];
+    const manifest = await runDeploymentPlan(
+      { bytecode, abi, targets: ['flaky', 'broke'], retryDelay: 1 },
+      async ({ network }) => {
+        if (network === 'broke') throw new InsufficientFundsError('No funds');
+        if (++calls < 2) throw new Error('Connection reset');
+        return deployed('0x' + '11'.repeat(20));
+      },
+      { onUpdate: (entry) => updates.push(entry) }
+    );
+
+    expect(manifest.deployments.flaky).toMatchObject({
+      status: 'deployed',
+      address: '0x' + '11'.repeat(20),
+      attempts: 2,
+    });
+    expect(manifest.deployments.broke).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      error: 'No funds',
+    });
+    expect(updates.map(({ status }) => status)).toContain('deploying');
+  });
+
+  it('should give up after the configured retries', async () => {
+    const manifest = await runDeploymentPlan(
+      { bytecode, abi, targets: ['down'], retries: 1, retryDelay: 1 },
+      async () => {
+        throw new Error('Timed out');
+      }
+    );
+
+    expect(manifest.deployments.down).toMatchObject({
+      status: 'failed',
+      attempts: 2,
+    });
+  });
+
+  it('should not send a deployment again once it was sent', async () => {
+    const hash = '0x' + 'ab'.repeat(32);
+    let calls = 0;
+    const manifest = await runDeploymentPlan(
+      { bytecode, abi, targets: ['slow', 'dropped'], retryDelay: 1 },
+      async ({ network }) => {
+        calls++;
+        if (network === 'dropped') {
+          throw new TransactionDroppedError('Transaction was dropped', {
+            transactionHash: hash,
+          });
+        }
+        throw new TransactionPendingError('Receipt timed out', {
+          transactionHash: hash,
+          cause: new ArbitPyNetworkError('Timed out', { code: 'TIMEOUT' }),
+        });
+      }
+    );
+
+    expect(calls).toBe(2);
+    expect(manifest.deployments.slow).toMatchObject({
+      status: 'pending',
+      transactionHash: hash,
+      attempts: 1,
+    });
+    expect(manifest.deployments.dropped).toMatchObject({
+      status: 'failed',
+      transactionHash: hash,
+      attempts: 1,
+    });
+  });
+
+  it('should reject plans that target a network twice', async () => {
+    await expect(
+      runDeploymentPlan({ bytecode, abi, targets: ['a', 'a'] }, async () =>
+        deployed('0x')
+      )
+    ).rejects.toMatchObject({ code: 'DUPLICATE_NETWORK' });
+  });
+});
+
+describe('mergeManifests', () => {
+  it('should replace the networks deployed again', () => {
+    const entry = (network: string, status: ManifestEntry['status']) => ({
+      network,
+      status,
+      attempts: 1,
+    });
+    const previous = {
+      codeHash: '0x',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      deployments: { a: entry('a', 'deployed'), b: entry('b', 'failed') },
+    };
+    const next = {
+      codeHash: '0x',
+      createdAt: '2026-01-02T00:00:00.000Z',
+      deployments: { b: entry('b', 'deployed') },
+    };
+
+    expect(mergeManifests(previous, next)).toEqual({
+      ...next,
+      deployments: { a: entry('a', 'deployed'), b: entry('b', 'deployed') },
+    });
+  });
+});
+
+describe('ArbitPyDeployment.deployMany', () => {
+  const deployment = new ArbitPyDeployment();
+  const provider = getDevnet().getProvider();
+
+  afterAll(() => provider.destroy());
+
+  it('should deploy to each network and record it in the manifest', async () => {
+    const manifest = await deployment.deployMany({
+      name: 'Seed',
+      bytecode,
+      abi,
+      constructorParams: [1],
+      targets: [{ network: 'local', constructorParams: [42] }, 'nowhere'],
+    });
+
+    const local = manifest.deployments.local;
+    expect(manifest.name).toBe('Seed');
+    expect(local).toMatchObject({
+      chainId: 31337,
+      status: 'deployed',
+      attempts: 1,
+    });
+    expect(BigInt(await provider.call({ to: local.address }))).toBe(42n);
+    expect(manifest.deployments.nowhere).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      error: 'Unsupported network: nowhere',
+    });
+  });
+
+  it('should deploy to the same address with a salt', async () => {
+    const manifest = await deployment.deployMany({
+      bytecode,
+      abi,
+      constructorParams: [7],
+      salt: 'seed-v1',
+      targets: ['local'],
+    });
+
+    expect(manifest.deployments.local.address).toBe(
+      deployment.predictAddress(bytecode, 'seed-v1', [7], abi)
+    );
+  });
+
+  it('should record networks that already have the contract', async () => {
+    const plan = { bytecode, abi, salt: 'seed-v3', targets: ['local'] };
+    const first = await deployment.deployMany(plan);
+
+    const { local } = (await deployment.deployMany(plan)).deployments;
+
+    expect(local).toMatchObject({
+      status: 'deployed',
+      address: first.deployments.local.address,
+      alreadyDeployed: true,
+      attempts: 1,
+    });
+    expect(local.transactionHash).toBeUndefined();
+    expect(local.blockNumber).toBeUndefined();
+  });
+
+  it('should not deploy again through an API that did not answer', async () => {
+    let requests = 0;
+    const manifest = await new ArbitPyDeployment({
+      retry: false,
+      transport: {
+        async request() {
+          requests++;
+          throw new TransportError('Request timeout', 'timeout');
+        },
+      },
+    }).deployMany({
+      bytecode,
+      abi,
+      targets: ['arbitrum-sepolia'],
+      retryDelay: 1,
+    });
+
+    expect(requests).toBe(1);
+    expect(manifest.deployments['arbitrum-sepolia']).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      error:
+        'Request timeout. Please check your connection. The deployment may have been sent; check for it before deploying again',
+    });
+  });
+
+  it('should stop a salted deployment cancelled while it starts', async () => {
+    const controller = new AbortController();
+    const manifest = await deployment.deployMany(
+      { bytecode, abi, salt: 'seed-v2', targets: ['local'] },
+      undefined,
+      {
+        signal: controller.signal,
+        // Aborts once the deployment has started
+        onUpdate: () => void Promise.resolve().then(() => controller.abort()),
+      }
+    );
+
+    expect(manifest.deployments.local).toMatchObject({
+      status: 'failed',
+      error: 'Deployment cancelled',
+    });
+  });
+});
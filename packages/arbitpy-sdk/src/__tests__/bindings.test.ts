@@ -0,0 +1,120 @@
+// Typed bindings generation tests
+import ts from 'typescript';
+import {
+  AbiItem,
+  generateBindings,
+  transpileToSolidity,
+} from '../codegen/index.js';
+
+const VAULT = `
+struct Position:
+    owner: address
+    size: uint256
+
+event Opened:
+    owner: indexed(address)
+    note: indexed(String[32])
+    size: uint256
+
+owner: public(address)
+
+@external
+def open(size: uint256, lock: bool = False):
+    log Opened(msg.sender, "open", size)
+
+@external
+@view
+def quote(p: Position) -> (uint256, bool):
+    return p.size, True
+
+@external
+@view
+def positions_of(owner: address) -> DynArray[Position, 4]:
+    return []
+`;
+
+function vaultBindings(): string {
+  const { abi, errors } = transpileToSolidity(VAULT, { contractName: 'Vault' });
+  expect(errors).toEqual([]);
+  return generateBindings(abi!, { contractName: 'Vault' });
+}
+
+describe('generateBindings', () => {
+  it('should emit a syntactically valid module', () => {
+    const { diagnostics } = ts.transpileModule(vaultBindings(), {
+      reportDiagnostics: true,
+      compilerOptions: { target: ts.ScriptTarget.ES2020 },
+    });
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('should map Solidity types and structs to TypeScript', () => {
+    const bindings = vaultBindings();
+
+    expect(bindings).toContain(
+      'export interface Position {\n  owner: string;\n  size: bigint;\n}'
+    );
+    expect(bindings).toContain(
+      '  quote(\n    p: Position,\n    options?: ContractInteractionOptions\n  ): Promise<[bigint, boolean]> {'
+    );
+    expect(bindings).toContain('): Promise<Position[]> {');
+    expect(bindings).toContain(
+      "  owner(options?: ContractInteractionOptions): Promise<string> {\n    return this.contract.call('owner', [], options);"
+    );
+  });
+
+  it('should call overloads by signature', () => {
+    const bindings = vaultBindings();
+
+    expect(bindings).toContain(
+      "  'open(uint256,bool)'(\n    size: bigint,\n    lock: boolean,"
+    );
+    expect(bindings).toContain(
+      "return this.contract.send('open(uint256,bool)', [size, lock], options);"
+    );
+  });
+
+  it('should type event arguments and filters', () => {
+    const bindings = vaultBindings();
+
+    expect(bindings).toContain(
+      'export interface OpenedEventArgs {\n  owner: string;\n  note: { hash: string };\n  size: bigint;\n}'
+    );
+    expect(bindings).toContain(
+      'export interface OpenedEventFilter {\n  owner?: string | null;\n  note?: string | null;\n}'
+    );
+    expect(bindings).toContain(
+      '        owner: filter.owner ?? null,\n        note: filter.note ?? null,'
+    );
+    expect(bindings).toContain(
+      '  onOpened(callback: (event: TypedContractEvent<OpenedEventArgs>) => void)'
+    );
+  });
+
+  it('should rename parameters that are not valid identifiers', () => {
+    const abi: AbiItem[] = [
+      {
+        type: 'function',
+        name: 'contract',
+        inputs: [
+          { name: 'new', type: 'uint8' },
+          { name: '', type: 'bytes32[2]' },
+        ],
+        outputs: [],
+        stateMutability: 'nonpayable',
+      },
+    ];
+
+    const bindings = generateBindings(abi, {
+      contractName: 'registry',
+      sdkImport: '../sdk',
+    });
+
+    expect(bindings).toContain("} from '../sdk';");
+    expect(bindings).toContain('export class Registry {');
+    expect(bindings).toContain(
+      "  'contract(uint8,bytes32[2])'(\n    new_: bigint,\n    arg1: string[],"
+    );
+  });
+});
@@ -0,0 +1,103 @@
+// Type checker tests
+import { transpileToSolidity, typeCheck } from '../codegen/index.js';
+
+const messages = (source: string) =>
+  typeCheck(source).errors.map((error) => error.message);
+
+describe('typeCheck', () => {
+  it('should accept a well-typed contract', () => {
+    const result = typeCheck(`
+total: public(uint256)
+
+@external
+def add(amount: uint256) -> uint256:
+    self.total += amount
+    return self.total
+`);
+
+    expect(result.success).toBe(true);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should report integer mismatches with their span', () => {
+    const result = typeCheck(`
+total: uint256
+
+@external
+def set(delta: int128):
+    self.total = delta
+`);
+
+    expect(result.errors).toEqual([
+      {
+        message: 'Cannot implicitly convert int128 to uint256; use convert()',
+        line: 6,
+        column: 18,
+        endLine: 6,
+        endColumn: 23,
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('should reject state changes in view functions', () => {
+    expect(
+      messages(`
+count: uint256
+
+@external
+@view
+def bump() -> uint256:
+    self.count += 1
+    return self.count
+`)
+    ).toEqual(['Cannot modify contract state in a @view function']);
+  });
+
+  it('should report undefined functions and wrong arity', () => {
+    expect(
+      messages(`
+@internal
+def double(x: uint256) -> uint256:
+    return x * 2
+
+@external
+def run() -> uint256:
+    self.triple(1)
+    return self.double(1, 2)
+`)
+    ).toEqual([
+      "Undefined function 'self.triple'",
+      "Function 'double' expects 1 argument, got 2",
+    ]);
+  });
+
+  it('should report undeclared state in class-style contracts', () => {
+    expect(
+      messages(`
+@contract
+class Vault:
+    def __init__(self):
+        self.owner = msg.sender
+
+    @public
+    def claim(self):
+        self.claimed = True
+`)
+    ).toEqual(["'self.claimed' is not declared; assign it in __init__"]);
+  });
+
+  it('should stop transpilation on type errors', () => {
+    const result = transpileToSolidity(`
+@external
+def f() -> uint8:
+    return 256
+`);
+
+    expect(result.success).toBe(false);
+    expect(result.output).toBeUndefined();
+    expect(result.errors[0].message).toBe(
+      'Literal 256 is out of range for uint8'
+    );
+  });
+});
@@ -0,0 +1,133 @@
+// Local compilation tests
+import { ArbitPyCompiler } from '../compiler/index.js';
+
+const VYPER_TOKEN = `
+event Transfer:
+    sender: indexed(address)
+    receiver: indexed(address)
+    value: uint256
+
+name: public(String[64])
+balanceOf: public(HashMap[address, uint256])
+
+@external
+def __init__(_name: String[64], _supply: uint256):
+    self.name = _name
+    self.balanceOf[msg.sender] = _supply
+
+@external
+def transfer(_to: address, _value: uint256) -> bool:
+    assert self.balanceOf[msg.sender] >= _value, "Insufficient balance"
+    self.balanceOf[msg.sender] -= _value
+    self.balanceOf[_to] += _value
+    log Transfer(msg.sender, _to, _value)
+    return True
+
+@external
+@view
+def doubled(_value: uint256) -> uint256:
+    return _value * 2
+`;
+
+const CLASS_TOKEN = `
+@contract
+class Counter:
+    def __init__(self):
+        self.count = 0
+        self.owner = msg.sender
+        self.seen = {}
+
+    @public
+    def increment(self, by: uint256 = 1):
+        self.count += by
+        self.seen[msg.sender] = True
+
+    @view
+    def has_seen(self, account: address) -> bool:
+        return self.seen.get(account, False)
+`;
+
+describe('ArbitPyCompiler.compileLocal', () => {
+  let compiler: ArbitPyCompiler;
+
+  beforeEach(() => {
+    compiler = new ArbitPyCompiler();
+  });
+
+  it('should transpile module-style contracts to Solidity', () => {
+    const result = compiler.compileLocal(VYPER_TOKEN, {
+      contractName: 'Token',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.sessionId).toMatch(/^local_/);
+    expect(result.errors).toEqual([]);
+    expect(result.output).toContain('pragma solidity');
+    expect(result.output).toContain('contract Token {');
+    expect(result.output).toContain(
+      'event Transfer(address indexed sender, address indexed receiver, uint256 value);'
+    );
+    expect(result.output).toContain(
+      'mapping(address => uint256) public balanceOf;'
+    );
+    expect(result.output).toContain(
+      'require(balanceOf[msg.sender] >= _value, "Insufficient balance");'
+    );
+    expect(result.output).toContain(
+      'function doubled(uint256 _value) public view returns (uint256) {'
+    );
+  });
+
+  it('should infer state from class-style constructors', () => {
+    const result = compiler.compileLocal(CLASS_TOKEN);
+
+    expect(result.success).toBe(true);
+    expect(result.output).toContain('contract Counter {');
+    expect(result.output).toContain('uint256 public count;');
+    expect(result.output).toContain('address public owner;');
+    expect(result.output).toContain('mapping(address => bool) public seen;');
+    expect(result.output).toContain('return seen[account];');
+    // Default arguments become an overload
+    expect(result.output).toContain('function increment() public {');
+    expect(result.output).toContain('increment(1);');
+    expect(result.storageLayout?.map(({ name, slot }) => [name, slot])).toEqual(
+      [
+        ['count', 0],
+        ['owner', 1],
+        ['seen', 2],
+      ]
+    );
+  });
+
+  it('should report syntax errors with their position', () => {
+    const result = compiler.compileLocal('@external\ndef broken(:\n    pass\n');
+
+    expect(result.success).toBe(false);
+    expect(result.output).toBeUndefined();
+    expect(result.errors?.[0]).toMatchObject({ line: 2, severity: 'error' });
+  });
+
+  it('should report unsupported constructs', () => {
+    const result = compiler.compileLocal(`
+@external
+def f(x: uint256) -> uint256:
+    return x + None
+`);
+
+    expect(result.success).toBe(false);
+    expect(result.errors?.[0]).toMatchObject({ line: 4, column: 16 });
+  });
+
+  it('should emit compilation events', () => {
+    const completed = jest.fn();
+    const failed = jest.fn();
+    compiler.on('compilation:completed', completed);
+    compiler.on('compilation:failed', failed);
+
+    compiler.compileLocal(VYPER_TOKEN);
+    compiler.compileLocal('def (');
+
+    expect(completed).toHaveBeenCalledTimes(1);
+    expect(failed).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,73 @@
+// Deterministic deployment tests
+import { ethers } from 'ethers';
+import { ArbitPyDeployment } from '../deployment/index.js';
+import { normalizeSalt, predictAddress } from '../deployment/create2.js';
+import { getDevnet } from '../devnet/index.js';
+
+// Returns a contract whose code returns 42
+const runtime = '0x602a60005260206000f3';
+const bytecode = '0x600a600c600039600a6000f3' + runtime.slice(2);
+const abi = ['constructor(uint256 seed)'];
+
+describe('normalizeSalt', () => {
+  it('should pad hex salts and hash other strings', () => {
+    expect(normalizeSalt('0x01')).toBe(ethers.zeroPadValue('0x01', 32));
+    expect(normalizeSalt('token-v1')).toBe(ethers.id('token-v1'));
+  });
+});
+
+describe('predictAddress', () => {
+  it('should depend on the salt and constructor arguments', () => {
+    const address = predictAddress(bytecode, 'a');
+
+    expect(predictAddress(bytecode, 'a')).toBe(address);
+    expect(predictAddress(bytecode, 'b')).not.toBe(address);
+    expect(predictAddress(bytecode, 'a', [1], abi)).not.toBe(address);
+  });
+});
+
+describe('ArbitPyDeployment.deployDeterministic', () => {
+  const deployment = new ArbitPyDeployment();
+  const provider = getDevnet().getProvider();
+
+  afterAll(() => provider.destroy());
+
+  it('should deploy at the predicted address', async () => {
+    const predicted = deployment.predictAddress(bytecode, 'counter', [7], abi);
+
+    const result = await deployment.deployDeterministic({
+      network: 'local',
+      bytecode,
+      abi,
+      constructorParams: [7],
+      salt: 'counter',
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      contractAddress: predicted,
+    });
+    expect(await provider.getCode(predicted)).toBe(runtime);
+  });
+
+  it('should return the existing contract instead of deploying again', async () => {
+    const request = { network: 'local', bytecode, abi: [], salt: '0x02' };
+    const first = await deployment.deployDeterministic(request);
+    const nonce = await provider.getTransactionCount(
+      getDevnet().accounts[0].address
+    );
+
+    expect(await deployment.deployDeterministic(request)).toEqual({
+      success: true,
+      transactionHash: '',
+      contractAddress: first.contractAddress,
+      blockNumber: 0,
+      gasUsed: '0',
+      status: 'confirmed',
+      alreadyDeployed: true,
+    });
+    expect(
+      await provider.getTransactionCount(getDevnet().accounts[0].address)
+    ).toBe(nonce);
+  });
+});
@@ -0,0 +1,198 @@
+// Local devnet mining, snapshot and time travel tests
+import { ethers } from 'ethers';
+import { Devnet, getDevnet } from '../devnet/index.js';
+import { ArbitPyDeployment } from '../deployment/index.js';
+import { createContract } from '../contract/index.js';
+
+const abi = [
+  'function count() view returns (uint256)',
+  'function increment()',
+  'function now() view returns (uint256)',
+  'function fail()',
+  'event Incremented(uint256 count)',
+  'error Failed()',
+];
+const iface = new ethers.Interface(abi);
+const selector = (name: string) =>
+  '63' + iface.getFunction(name)!.selector.slice(2);
+
+// Assemble EVM code; `@label` marks a jump destination and `:label`
+// pushes its offset
+function assemble(code: string[]): string {
+  const offsets = new Map<string, number>();
+  let size = 0;
+  for (const part of code) {
+    if (part.startsWith('@')) offsets.set(part.slice(1), size);
+    size += part.startsWith('@')
+      ? 1
+      : part.startsWith(':')
+        ? 2
+        : part.length / 2;
+  }
+  return code
+    .map((part) => {
+      if (part.startsWith('@')) return '5b';
+      if (!part.startsWith(':')) return part;
+      return '60' + offsets.get(part.slice(1))!.toString(16).padStart(2, '0');
+    })
+    .join('');
+}
+
+// A counter that logs each increment
+const runtime = assemble([
+  '6000356' + '0e01c', // selector = calldata[0:4]
+  '80',
+  selector('count'),
+  '14',
+  ':count',
+  '57',
+  '80',
+  selector('increment'),
+  '14',
+  ':increment',
+  '57',
+  '80',
+  selector('now'),
+  '14',
+  ':now',
+  '57',
+  '80',
+  selector('fail'),
+  '14',
+  ':fail',
+  '57',
+  '60008' + '0fd', // revert()
+  '@count',
+  '600054',
+  '600052',
+  '60206000f3',
+  '@increment',
+  '600054',
+  '600101',
+  '80',
+  '600055',
+  '600052',
+  '7f' + iface.getEvent('Incremented')!.topicHash.slice(2),
+  '60206000a1',
+  '00',
+  '@now',
+  '42',
+  '600052',
+  '60206000f3',
+  '@fail',
+  '63' + iface.getError('Failed')!.selector.slice(2),
+  '60e01b',
+  '600052',
+  '60046000fd',
+]);
+const bytecode =
+  '0x60' +
+  (runtime.length / 2).toString(16).padStart(2, '0') +
+  '80600b6000396000f3' +
+  runtime;
+
+async function deployCounter(devnet: Devnet) {
+  const factory = new ethers.ContractFactory(abi, bytecode, devnet.getSigner());
+  const contract = await factory.deploy();
+  await contract.waitForDeployment();
+  return contract as ethers.Contract;
+}
+
+describe('Devnet', () => {
+  const devnets: Devnet[] = [];
+  const create = () => {
+    const devnet = new Devnet();
+    devnets.push(devnet);
+    return devnet;
+  };
+
+  afterAll(() => {
+    for (const devnet of [...devnets, getDevnet()]) {
+      devnet.getProvider().destroy();
+    }
+  });
+
+  it('should fund the default accounts and mine transactions instantly', async () => {
+    const devnet = create();
+    const provider = devnet.getProvider();
+
+    expect(devnet.accounts[0].address).toBe(
+      '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'
+    );
+    await expect(provider.getBalance(devnet.accounts[1].address)).resolves.toBe(
+      ethers.parseEther('10000')
+    );
+
+    const counter = await deployCounter(devnet);
+    const receipt = await (await counter.increment()).wait();
+
+    expect(receipt!.blockNumber).toBe(2);
+    expect(await counter.count()).toBe(1n);
+    expect(counter.interface.parseLog(receipt!.logs[0])!.args.count).toBe(1n);
+    const events = await counter.queryFilter('Incremented', 0);
+    expect(events.map(({ transactionHash }) => transactionHash)).toEqual([
+      receipt!.hash,
+    ]);
+  });
+
+  it('should revert to a snapshot', async () => {
+    const devnet = create();
+    const counter = await deployCounter(devnet);
+
+    const snapshot = await devnet.snapshot();
+    await (await counter.increment()).wait();
+    await (await counter.increment()).wait();
+    expect(await counter.count()).toBe(2n);
+
+    await expect(devnet.revert(snapshot)).resolves.toBe(true);
+    expect(await counter.count()).toBe(0n);
+    await expect(devnet.getProvider().getBlockNumber()).resolves.toBe(1);
+    await expect(devnet.revert(snapshot)).resolves.toBe(false);
+  });
+
+  it('should move block time forward', async () => {
+    const devnet = create();
+    const provider = devnet.getProvider();
+    const counter = await deployCounter(devnet);
+    const start = Math.floor(Date.now() / 1000);
+
+    await expect(devnet.increaseTime(3600)).resolves.toBe(3600);
+    expect(Number(await counter.now())).toBeGreaterThanOrEqual(start + 3600);
+    await devnet.mine();
+    const block = await provider.getBlock('latest');
+    expect(block!.timestamp).toBeGreaterThanOrEqual(start + 3600);
+
+    await devnet.setNextBlockTimestamp(start + 86400);
+    await devnet.mine();
+    const next = await provider.getBlock('latest');
+    expect(next!.timestamp).toBe(start + 86400);
+  });
+
+  it('should return revert data to ethers', async () => {
+    const devnet = create();
+    const counter = await deployCounter(devnet);
+
+    const failure = await counter.fail.staticCall().catch((error) => error);
+    expect(failure).toMatchObject({
+      code: 'CALL_EXCEPTION',
+      revert: { name: 'Failed' },
+    });
+    await expect(counter.fail()).rejects.toMatchObject({
+      code: 'CALL_EXCEPTION',
+    });
+  });
+
+  it('should back the local network of the SDK', async () => {
+    const deployment = await new ArbitPyDeployment().deploy({
+      bytecode,
+      abi,
+      network: 'local',
+    });
+    expect(deployment).toMatchObject({ success: true, status: 'confirmed' });
+
+    const counter = createContract(deployment.contractAddress, abi, 'local');
+    await counter.connect();
+    await counter.send('increment');
+    await expect(counter.call('count')).resolves.toBe(1n);
+  });
+});
@@ -0,0 +1,229 @@
+// Typed SDK error tests
+import { ethers } from 'ethers';
+import ArbitPySDK from '../index.js';
+import {
+  ArbitPyError,
+  ArbitPyNetworkError,
+  CompilationFailedError,
+  ContractRevertedError,
+  DeploymentRevertedError,
+  InsufficientFundsError,
+  RateLimitError,
+  UserRejectedError,
+  toArbitPyError,
+} from '../errors.js';
+import { HttpClient } from '../utils/http-client.js';
+import {
+  HttpRequest,
+  HttpResponse,
+  HttpTransport,
+  TransportError,
+} from '../utils/transport.js';
+
+// Answers every request with `reply`
+function transportReplying(
+  reply: Partial<HttpResponse> | TransportError
+): HttpTransport {
+  return {
+    async request<T>(_request: HttpRequest): Promise<HttpResponse<T>> {
+      if (reply instanceof TransportError) throw reply;
+      return {
+        status: 200,
+        headers: {},
+        ...reply,
+        data: (reply.data ?? {}) as T,
+      };
+    },
+  };
+}
+
+describe('HttpClient errors', () => {
+  const get = (reply: Partial<HttpResponse> | TransportError) =>
+    new HttpClient({
+      apiUrl: 'https://api.test/v1',
+      transport: transportReplying(reply),
+      retry: false,
+    }).get('/ai/status');
+
+  it('should throw RateLimitError with the requested delay', async () => {
+    const error = await get({
+      status: 429,
+      headers: { 'retry-after': '30' },
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).toBeInstanceOf(ArbitPyNetworkError);
+    expect(error).toMatchObject({
+      code: 'RATE_LIMITED',
+      status: 429,
+      retryAfter: 30000,
+      method: 'GET',
+      url: 'https://api.test/v1/ai/status',
+    });
+  });
+
+  it('should carry the status and body of failed responses', async () => {
+    await expect(get({ status: 401 })).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+      status: 401,
+    });
+    await expect(
+      get({ status: 500, data: { message: 'Compiler crashed' } })
+    ).rejects.toMatchObject({
+      message: 'Compiler crashed',
+      code: 'HTTP_ERROR',
+      responseData: { message: 'Compiler crashed' },
+    });
+  });
+
+  it('should report timeouts', async () => {
+    await expect(
+      get(new TransportError('Request timeout', 'timeout'))
+    ).rejects.toMatchObject({ name: 'ArbitPyNetworkError', code: 'TIMEOUT' });
+  });
+});
+
+describe('toArbitPyError', () => {
+  it('should map wallet rejections and missing funds', () => {
+    const rejected = ethers.makeError(
+      'user rejected action',
+      'ACTION_REJECTED',
+      {
+        action: 'sendTransaction',
+        reason: 'rejected',
+      }
+    );
+    const poor = ethers.makeError('insufficient funds', 'INSUFFICIENT_FUNDS', {
+      transaction: { from: '0x00000000000000000000000000000000000000aa' },
+    });
+
+    expect(toArbitPyError(rejected)).toBeInstanceOf(UserRejectedError);
+    expect(toArbitPyError(poor)).toMatchObject({
+      code: 'INSUFFICIENT_FUNDS',
+      address: '0x00000000000000000000000000000000000000aa',
+    });
+  });
+
+  it('should keep the revert reason and decoded custom error', () => {
+    const reverted = ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+      action: 'call',
+      data: '0xcf479181',
+      reason: null,
+      transaction: { to: null, data: '0x' },
+      invocation: null,
+      revert: {
+        name: 'InsufficientBalance',
+        signature: 'InsufficientBalance(uint256,uint256)',
+        args: [5n, 10n],
+      },
+    });
+
+    const error = toArbitPyError(reverted);
+    expect(error).toBeInstanceOf(ContractRevertedError);
+    expect(error).toMatchObject({
+      message: 'Reverted: InsufficientBalance(5, 10)',
+      data: '0xcf479181',
+      customError: {
+        name: 'InsufficientBalance',
+        signature: 'InsufficientBalance(uint256,uint256)',
+        args: [5n, 10n],
+      },
+    });
+    expect(toArbitPyError(reverted, { deploying: true })).toBeInstanceOf(
+      DeploymentRevertedError
+    );
+  });
+
+  it('should wrap unknown errors and pass ArbitPyErrors through', () => {
+    const typed = new ArbitPyError('typed');
+
+    expect(toArbitPyError(typed)).toBe(typed);
+    expect(toArbitPyError('boom')).toMatchObject({
+      message: 'boom',
+      code: 'UNKNOWN',
+    });
+  });
+});
+
+describe('SDK modules', () => {
+  const sdkReplying = (reply: Partial<HttpResponse>) =>
+    new ArbitPySDK({ transport: transportReplying(reply), retry: false });
+
+  it('should map deployment API failures and emit them', async () => {
+    const sdk = sdkReplying({
+      status: 422,
+      data: { message: 'execution reverted: Ownable: caller is not the owner' },
+    });
+    const emitted: ArbitPyError[] = [];
+    sdk.on('error', (error) => emitted.push(error));
+
+    const error = await sdk.deployment
+      .deploy({ bytecode: '0x00', abi: [], network: 'arbitrum-sepolia' })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(DeploymentRevertedError);
+    expect(error.reason).toBe('Ownable: caller is not the owner');
+    expect(emitted).toEqual([error]);
+
+    await expect(
+      sdkReplying({
+        status: 402,
+        data: { message: 'Insufficient funds' },
+      }).deployment.deploy({
+        bytecode: '0x00',
+        abi: [],
+        network: 'arbitrum-sepolia',
+      })
+    ).rejects.toBeInstanceOf(InsufficientFundsError);
+  });
+
+  it('should throw typed errors for unsuccessful deployments from createAndDeploy', async () => {
+    const deployFailing = (message: string) =>
+      new ArbitPySDK({
+        retry: false,
+        transport: {
+          async request<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+            const data = request.url.includes('/deploy/')
+              ? { success: false, message }
+              : { success: true, bytecode: '0x00', abi: [] };
+            return { status: 200, headers: {}, data: data as T };
+          },
+        },
+      }).createAndDeploy('x: uint256\n');
+
+    await expect(
+      deployFailing('Insufficient funds for deployment')
+    ).rejects.toBeInstanceOf(InsufficientFundsError);
+    await expect(
+      deployFailing('RPC endpoint unreachable')
+    ).rejects.toBeInstanceOf(ArbitPyNetworkError);
+    await expect(
+      deployFailing('Invalid bytecode format')
+    ).rejects.toMatchObject({ code: 'INVALID_DEPLOYMENT' });
+    await expect(
+      deployFailing('Transaction reverted: out of range')
+    ).rejects.toMatchObject({
+      code: 'DEPLOYMENT_REVERTED',
+      reason: 'out of range',
+    });
+  });
+
+  it('should throw CompilationFailedError from createAndDeploy', async () => {
+    const sdk = sdkReplying({
+      data: {
+        success: false,
+        sessionId: 'compile_1',
+        errors: [{ message: "Unknown type 'adress'", line: 3 }],
+      },
+    });
+
+    const error = await sdk.createAndDeploy('x: adress\n').catch((e) => e);
+
+    expect(error).toBeInstanceOf(CompilationFailedError);
+    expect(error).toMatchObject({
+      target: 'vyper',
+      sessionId: 'compile_1',
+      errors: [{ message: "Unknown type 'adress'", line: 3 }],
+    });
+  });
+});
@@ -0,0 +1,199 @@
+// Event sync pagination, cursor and reorg tests
+import { ethers } from 'ethers';
+import {
+  EventSync,
+  MemoryCursorStore,
+  SyncedEvent,
+  WebStorageCursorStore,
+} from '../contract/event-sync.js';
+
+const MASTER = '0x0000000000000000000000000000000000000abc';
+const abi = [
+  'event ArbitrageExecuted(address indexed user, uint256 profit)',
+  'event LiquidityAdded(address indexed user, uint256 indexed poolId, uint256 amount)',
+];
+const master = new ethers.Interface(abi);
+const USER = ethers.getAddress('0x00000000000000000000000000000000000000aa');
+
+// A chain of `height` blocks where `logsAt` blocks hold one event each.
+// getLogs rejects ranges wider than `maxRange` blocks.
+function mockChain(height: number, logsAt: number[], maxRange = 1000) {
+  const chain = {
+    height,
+    fork: 0,
+    ranges: [] as Array<[number, number]>,
+  };
+  const hashOf = (number: number) =>
+    ethers.id(`${number <= chain.height - 3 ? 0 : chain.fork}:${number}`);
+  const logAt = (number: number) => {
+    const { data, topics } = master.encodeEventLog('ArbitrageExecuted', [
+      USER,
+      BigInt(number + chain.fork * 1000),
+    ]);
+    return {
+      address: MASTER,
+      blockNumber: number,
+      blockHash: hashOf(number),
+      transactionHash: ethers.id(`tx:${chain.fork}:${number}`),
+      index: 0,
+      data,
+      topics,
+    };
+  };
+
+  const provider = {
+    async getBlockNumber() {
+      return chain.height;
+    },
+    async getBlock(number: number) {
+      return number <= chain.height ? { hash: hashOf(number) } : null;
+    },
+    async getLogs({
+      fromBlock,
+      toBlock,
+    }: {
+      fromBlock: number;
+      toBlock: number;
+    }) {
+      chain.ranges.push([fromBlock, toBlock]);
+      if (toBlock - fromBlock + 1 > maxRange) {
+        throw new Error('query exceeds max block range 1000');
+      }
+      return logsAt
+        .filter((n) => n >= fromBlock && n <= toBlock && n <= chain.height)
+        .map(logAt);
+    },
+  };
+  return { chain, provider: provider as unknown as ethers.Provider };
+}
+
+function collect(sync: EventSync) {
+  const events: SyncedEvent[] = [];
+  sync.on('event', (event) => events.push(event));
+  return events;
+}
+
+describe('EventSync', () => {
+  it('should halve rejected block ranges and grow them again', async () => {
+    const { chain, provider } = mockChain(5000, [10, 2500, 4999]);
+    const sync = new EventSync({
+      provider,
+      address: MASTER,
+      abi,
+      batchSize: 4000,
+      maxBatchSize: 4000,
+    });
+    const events = collect(sync);
+
+    await expect(sync.sync()).resolves.toBe(5000);
+
+    expect(chain.ranges.slice(0, 4)).toEqual([
+      [0, 3999],
+      [0, 1999],
+      [0, 999],
+      [1000, 2999],
+    ]);
+    expect(events.map(({ blockNumber }) => blockNumber)).toEqual([
+      10, 2500, 4999,
+    ]);
+    expect(events[0]).toMatchObject({
+      name: 'ArbitrageExecuted',
+      signature: 'ArbitrageExecuted(address,uint256)',
+    });
+    expect(events[0].args.user).toBe(USER);
+    expect(events[0].args.profit).toBe(10n);
+  });
+
+  it('should not shrink the range on other errors', async () => {
+    const { chain, provider } = mockChain(5000, []);
+    jest.spyOn(provider, 'getLogs').mockImplementation(async () => {
+      chain.ranges.push([0, 0]);
+      throw new Error('429 Too Many Requests');
+    });
+    const sync = new EventSync({ provider, address: MASTER, abi });
+
+    await expect(sync.sync()).rejects.toThrow('429 Too Many Requests');
+    expect(chain.ranges).toHaveLength(1);
+  });
+
+  it('should resume from the stored cursor', async () => {
+    const { chain, provider } = mockChain(100, [50, 150]);
+    const store = new MemoryCursorStore();
+    const options = { provider, address: MASTER, abi, store };
+
+    const first = new EventSync(options);
+    const firstEvents = collect(first);
+    await first.sync();
+
+    chain.height = 200;
+    const second = new EventSync(options);
+    const secondEvents = collect(second);
+    await second.sync();
+
+    expect(firstEvents.map(({ blockNumber }) => blockNumber)).toEqual([50]);
+    expect(secondEvents.map(({ blockNumber }) => blockNumber)).toEqual([150]);
+    expect(chain.ranges[chain.ranges.length - 1]).toEqual([101, 200]);
+    expect((await second.getCursor())?.blockNumber).toBe(200);
+  });
+
+  it('should rewind and redeliver events replaced by a reorg', async () => {
+    const { chain, provider } = mockChain(97, [99]);
+    const sync = new EventSync({ provider, address: MASTER, abi });
+    const events = collect(sync);
+    const reorgs: number[] = [];
+    sync.on('reorg', ({ blockNumber }) => reorgs.push(blockNumber));
+    await sync.sync();
+    chain.height = 100;
+    await sync.sync();
+
+    // The last three blocks are replaced
+    chain.fork = 1;
+    await sync.sync();
+
+    expect(reorgs).toEqual([98]);
+    expect(
+      events.map(({ blockNumber, args }) => [blockNumber, args.profit])
+    ).toEqual([
+      [99, 99n],
+      [99, 1099n],
+    ]);
+  });
+
+  it('should only sync the requested events', async () => {
+    const { provider } = mockChain(10, [5]);
+
+    const sync = new EventSync({
+      provider,
+      address: MASTER,
+      abi,
+      events: ['LiquidityAdded'],
+    });
+
+    const logs = jest.spyOn(provider, 'getLogs');
+    await sync.sync();
+    expect(logs.mock.calls[0][0].topics).toEqual([
+      [master.getEvent('LiquidityAdded')!.topicHash],
+    ]);
+    expect(
+      () => new EventSync({ provider, address: MASTER, abi, events: ['Swap'] })
+    ).toThrow('Event Swap not found in contract ABI');
+  });
+});
+
+describe('WebStorageCursorStore', () => {
+  it('should store cursors as JSON under a prefix', async () => {
+    const items = new Map<string, string>();
+    const store = new WebStorageCursorStore({
+      getItem: (key) => items.get(key) ?? null,
+      setItem: (key, value) => void items.set(key, value),
+    });
+
+    await store.save('master', { blockNumber: 7, blocks: [] });
+
+    expect([...items.keys()]).toEqual(['arbitpy:event-sync:master']);
+    await expect(store.load('master')).resolves.toEqual({
+      blockNumber: 7,
+      blocks: [],
+    });
+  });
+});
@@ -0,0 +1,114 @@
+// Fee preset and L1/L2 cost estimation tests
+import { ethers } from 'ethers';
+import {
+  estimateFees,
+  getFeePresets,
+  NODE_INTERFACE_ADDRESS,
+} from '../deployment/fees.js';
+
+const gwei = (value: number) => ethers.parseUnits(String(value), 'gwei');
+const nodeInterface = new ethers.Interface([
+  'function gasEstimateComponents(address to, bool contractCreation, bytes data) payable returns (uint64 gasEstimate, uint64 gasEstimateForL1, uint256 baseFee, uint256 l1BaseFeeEstimate)',
+]);
+
+// A node on `chainId` whose last three blocks paid the given rewards
+function mockProvider(chainId: number) {
+  const calls: ethers.TransactionRequest[] = [];
+  const provider = {
+    async send(method: string, params: unknown[]) {
+      expect(method).toBe('eth_feeHistory');
+      expect(params).toEqual(['0x14', 'latest', [10, 50, 90]]);
+      return {
+        baseFeePerGas: [gwei(9), gwei(9), gwei(10), gwei(10)].map(
+          ethers.toQuantity
+        ),
+        reward: [
+          [gwei(1), gwei(2), gwei(5)],
+          [gwei(1), gwei(3), gwei(4)],
+          [0n, gwei(2), gwei(6)],
+        ].map((rewards) => rewards.map(ethers.toQuantity)),
+      };
+    },
+    async getNetwork() {
+      return { chainId: BigInt(chainId) };
+    },
+    async estimateGas() {
+      return 50000n;
+    },
+    async call(transaction: ethers.TransactionRequest) {
+      calls.push(transaction);
+      return nodeInterface.encodeFunctionResult('gasEstimateComponents', [
+        300000n,
+        120000n,
+        gwei(10),
+        gwei(30),
+      ]);
+    },
+  };
+  return { calls, provider: provider as unknown as ethers.JsonRpcProvider };
+}
+
+describe('getFeePresets', () => {
+  it('should take the median reward at each percentile', async () => {
+    const { provider } = mockProvider(1);
+
+    const presets = await getFeePresets(provider);
+
+    expect(presets.baseFeePerGas).toBe(gwei(10));
+    expect(presets.slow).toEqual({
+      maxPriorityFeePerGas: gwei(1),
+      maxFeePerGas: gwei(21),
+    });
+    expect(presets.normal.maxPriorityFeePerGas).toBe(gwei(2));
+    expect(presets.fast).toEqual({
+      maxPriorityFeePerGas: gwei(5),
+      maxFeePerGas: gwei(25),
+    });
+  });
+});
+
+describe('estimateFees', () => {
+  it('should split L1 data cost from L2 execution on Arbitrum', async () => {
+    const { calls, provider } = mockProvider(421614);
+
+    const estimate = await estimateFees(provider, { data: '0x6080' });
+
+    expect(calls[0].to).toBe(NODE_INTERFACE_ADDRESS);
+    const [to, contractCreation, data] = nodeInterface.decodeFunctionData(
+      'gasEstimateComponents',
+      calls[0].data!
+    );
+    expect([to, contractCreation, data]).toEqual([
+      ethers.ZeroAddress,
+      true,
+      '0x6080',
+    ]);
+    expect(estimate).toMatchObject({
+      gasLimit: 300000n,
+      l2Gas: 180000n,
+      l1Gas: 120000n,
+      l1BaseFeeEstimate: gwei(30),
+    });
+    expect(estimate.costs.normal).toEqual({
+      l2Cost: 180000n * gwei(12),
+      l1Cost: 120000n * gwei(12),
+      total: 300000n * gwei(12),
+    });
+  });
+
+  it('should count all gas as execution on other chains', async () => {
+    const { calls, provider } = mockProvider(1);
+
+    const estimate = await estimateFees(provider, {
+      to: '0x0000000000000000000000000000000000000abc',
+    });
+
+    expect(calls).toEqual([]);
+    expect(estimate).toMatchObject({ gasLimit: 50000n, l1Gas: 0n });
+    expect(estimate.costs.fast).toEqual({
+      l2Cost: 50000n * gwei(15),
+      l1Cost: 0n,
+      total: 50000n * gwei(15),
+    });
+  });
+});
@@ -0,0 +1,151 @@
+// Invariant fuzzing tests
+import { ethers } from 'ethers';
+import { Devnet } from '../devnet/index.js';
+import { deployFixtures, fuzzInvariants } from '../testing/index.js';
+
+const abi = [
+  'function count() view returns (uint256)',
+  'function increment()',
+  'function add(uint256 amount)',
+  'function fail()',
+];
+const iface = new ethers.Interface(abi);
+const selector = (name: string) =>
+  '63' + iface.getFunction(name)!.selector.slice(2);
+
+// Assemble EVM code; `@label` marks a jump destination and `:label`
+// pushes its offset
+function assemble(code: string[]): string {
+  const offsets = new Map<string, number>();
+  let size = 0;
+  for (const part of code) {
+    if (part.startsWith('@')) offsets.set(part.slice(1), size);
+    size += part.startsWith('@')
+      ? 1
+      : part.startsWith(':')
+        ? 2
+        : part.length / 2;
+  }
+  return code
+    .map((part) => {
+      if (part.startsWith('@')) return '5b';
+      if (!part.startsWith(':')) return part;
+      return '60' + offsets.get(part.slice(1))!.toString(16).padStart(2, '0');
+    })
+    .join('');
+}
+
+// A counter that can also be bumped by any amount
+const runtime = assemble([
+  '6000356' + '0e01c', // selector = calldata[0:4]
+  '80',
+  selector('count'),
+  '14',
+  ':count',
+  '57',
+  '80',
+  selector('increment'),
+  '14',
+  ':increment',
+  '57',
+  '80',
+  selector('add'),
+  '14',
+  ':add',
+  '57',
+  '60008' + '0fd', // revert(), also for fail()
+  '@count',
+  '600054',
+  '600052',
+  '60206000f3',
+  '@increment',
+  '600054',
+  '600101',
+  '600055',
+  '00',
+  '@add',
+  '600435', // amount = calldata[4:36]
+  '600054',
+  '01',
+  '600055',
+  '00',
+]);
+const bytecode =
+  '0x60' +
+  (runtime.length / 2).toString(16).padStart(2, '0') +
+  '80600b6000396000f3' +
+  runtime;
+
+const artifacts = { Counter: { abi, bytecode } };
+
+const source = `from counter import Counter
+
+def counter():
+    return Counter.deploy()
+
+@invariant
+def below_limit(counter):
+    assert counter.count() < 1000
+`;
+
+describe('fuzzInvariants', () => {
+  const devnet = new Devnet();
+
+  afterAll(() => devnet.getProvider().destroy());
+
+  it('should shrink a violation to a minimal call sequence', async () => {
+    const report = await fuzzInvariants(source, {
+      path: 'tests/test_counter.py',
+      artifacts,
+      devnet,
+      runs: 10,
+      depth: 8,
+      seed: 7,
+    });
+
+    expect(report.errors).toEqual([]);
+    expect(report).toMatchObject({ seed: 7, invariants: ['below_limit'] });
+    const [violation] = report.violations;
+    expect(violation).toMatchObject({
+      invariant: 'below_limit',
+      message: 'AssertionError: assert 1000 < 1000',
+      line: 8,
+    });
+    expect(violation.originalLength).toBeGreaterThan(1);
+    expect(violation.sequence).toEqual([
+      expect.objectContaining({
+        target: 'counter',
+        contract: 'Counter',
+        function: 'add(uint256)',
+        args: [1000n],
+        value: 0n,
+        reverted: false,
+      }),
+    ]);
+  });
+
+  it('should report fixtures that fail', async () => {
+    const report = await fuzzInvariants(
+      source.replace('Counter.deploy()', 'Counter.deploy(1)'),
+      { artifacts, devnet, runs: 1 }
+    );
+
+    expect(report.violations).toEqual([]);
+    expect(report.errors).toEqual([
+      expect.objectContaining({ line: 4, file: 'test_contract.py' }),
+    ]);
+  });
+});
+
+describe('deployFixtures', () => {
+  it('should leave the fixtures deployed', async () => {
+    const devnet = new Devnet();
+    try {
+      const { counter } = await deployFixtures(source, { artifacts, devnet });
+
+      expect(await devnet.getProvider().getCode(counter)).toBe('0x' + runtime);
+    } finally {
+      devnet.getProvider().destroy();
+    }
+  });
+});
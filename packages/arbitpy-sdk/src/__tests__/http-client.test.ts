@@ -0,0 +1,222 @@
+// HttpClient retry, idempotency and transport tests
+import { ArbitPyCompiler } from '../compiler/index.js';
+import { HttpClient, parseRetryAfter } from '../utils/http-client.js';
+import {
+  FetchTransport,
+  HttpRequest,
+  HttpResponse,
+  HttpTransport,
+  TransportError,
+} from '../utils/transport.js';
+
+type Reply = Partial<HttpResponse> | TransportError;
+
+// Answers requests with `replies` in order and records them
+function mockTransport(...replies: Reply[]) {
+  const requests: HttpRequest[] = [];
+  const transport: HttpTransport = {
+    async request<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+      requests.push(request);
+      const reply = replies.shift() ?? { status: 200 };
+      if (reply instanceof TransportError) throw reply;
+      return {
+        status: 200,
+        headers: {},
+        ...reply,
+        data: (reply.data ?? {}) as T,
+      };
+    },
+  };
+  return { transport, requests };
+}
+
+function client(transport: HttpTransport) {
+  return new HttpClient({
+    apiUrl: 'https://api.test/v1',
+    transport,
+    retry: { minDelay: 1, jitter: false },
+  });
+}
+
+describe('HttpClient', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should retry retryable statuses until the request succeeds', async () => {
+    const { transport, requests } = mockTransport(
+      { status: 503 },
+      { status: 502 },
+      { status: 200, data: { ok: true } }
+    );
+
+    const response = await client(transport).get('/compile/status/1');
+
+    expect(response.data).toEqual({ ok: true });
+    expect(requests).toHaveLength(3);
+    expect(requests[0].url).toBe('https://api.test/v1/compile/status/1');
+  });
+
+  it('should wait for the delay asked for by Retry-After', async () => {
+    jest.useFakeTimers();
+    const { transport, requests } = mockTransport(
+      { status: 429, headers: { 'retry-after': '2' } },
+      { status: 200 }
+    );
+
+    const pending = client(transport).get('/ai/status');
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(requests).toHaveLength(1);
+    await jest.advanceTimersByTimeAsync(1);
+    await pending;
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should not retry a POST without an idempotency key', async () => {
+    const { transport, requests } = mockTransport(
+      new TransportError('socket hang up', 'network'),
+      { status: 200 }
+    );
+
+    await expect(
+      client(transport).post('/deploy/contract', { bytecode: '0x' })
+    ).rejects.toThrow('socket hang up');
+    expect(requests).toHaveLength(1);
+    expect(requests[0].headers).not.toHaveProperty('Idempotency-Key');
+  });
+
+  it('should retry a rate-limited POST without an idempotency key', async () => {
+    const { transport, requests } = mockTransport(
+      { status: 429, headers: { 'retry-after': '0' } },
+      { status: 200 }
+    );
+
+    await client(transport).post('/deploy/contract', { bytecode: '0x' });
+
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should retry compiles with one idempotency key', async () => {
+    const { transport, requests } = mockTransport(
+      { status: 429, headers: { 'retry-after': '0' } },
+      new TransportError('socket hang up', 'network'),
+      { status: 200, data: { success: true, sessionId: 'compile-1' } }
+    );
+
+    const result = await new ArbitPyCompiler({
+      transport,
+      retry: { minDelay: 1, jitter: false },
+    }).compile({ code: 'x = 1', target: 'solidity' });
+
+    const keys = requests.map(({ headers }) => headers['Idempotency-Key']);
+    expect(result.sessionId).toBe('compile-1');
+    expect(keys).toHaveLength(3);
+    expect(new Set(keys).size).toBe(1);
+    expect(keys[0]).toBeDefined();
+  });
+
+  it('should reuse one idempotency key across POST retries', async () => {
+    const { transport, requests } = mockTransport(
+      new TransportError('socket hang up', 'network'),
+      { status: 200 }
+    );
+
+    await client(transport).post(
+      '/compile/solidity',
+      { code: '' },
+      { idempotencyKey: 'compile-1' }
+    );
+
+    const keys = requests.map(({ headers }) => headers['Idempotency-Key']);
+    expect(keys).toEqual(['compile-1', 'compile-1']);
+  });
+
+  it('should not retry non-idempotent requests after a server error', async () => {
+    const { transport, requests } = mockTransport({ status: 503 });
+
+    await expect(
+      client(transport).patch('/contracts/1', {}, { retry: { retries: 2 } })
+    ).rejects.toThrow('Request failed with status code 503');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should give up after the configured retries', async () => {
+    const { transport, requests } = mockTransport(
+      { status: 429 },
+      { status: 429 },
+      { status: 429 }
+    );
+
+    await expect(
+      client(transport).get('/ai/status', { retry: { retries: 2 } })
+    ).rejects.toThrow('Rate limit exceeded');
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should stop retrying when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const { transport, requests } = mockTransport({ status: 503 });
+
+    const pending = new HttpClient({
+      transport,
+      retry: { minDelay: 60000 },
+    }).get('/ai/status', { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should pass the signal of SDK methods to the transport', async () => {
+    const controller = new AbortController();
+    const { transport, requests } = mockTransport({
+      status: 200,
+      data: { versions: ['0.1.0'] },
+    });
+
+    await new ArbitPyCompiler({ transport }).getSupportedVersions('solidity', {
+      signal: controller.signal,
+    });
+
+    expect(requests[0].signal).toBe(controller.signal);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should read delays in seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
+
+describe('FetchTransport', () => {
+  it('should send query params and parse JSON responses', async () => {
+    const fetchMock = jest.fn(
+      async (_url: string | URL | Request, _init?: RequestInit) =>
+        new Response(JSON.stringify({ verified: true }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json', 'X-Trace': 'abc' },
+        })
+    );
+    const transport = new FetchTransport(fetchMock as typeof fetch);
+
+    const response = await transport.request({
+      method: 'GET',
+      url: 'https://api.test/v1/contracts/0x1/verification',
+      headers: {},
+      params: { network: 'arbitrum-sepolia', page: undefined },
+    });
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://api.test/v1/contracts/0x1/verification?network=arbitrum-sepolia'
+    );
+    expect(response).toMatchObject({
+      status: 200,
+      headers: { 'x-trace': 'abc' },
+      data: { verified: true },
+    });
+  });
+});
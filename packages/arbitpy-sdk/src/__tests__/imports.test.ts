@@ -0,0 +1,156 @@
+// Multi-file import resolution tests
+import { transpileToSolidity, typeCheck } from '../codegen/index.js';
+import { parse } from '../parser/index.js';
+
+const FILES = {
+  'interfaces.py': `
+interface IERC20:
+    def transfer(to: address, amount: uint256) -> bool: nonpayable
+    def balanceOf(owner: address) -> uint256: view
+
+struct Payment:
+    to: address
+    amount: uint256
+`,
+  'lib/math.py': `
+PRECISION: constant(uint256) = 10 ** 18
+
+@internal
+@pure
+def scale(amount: uint256) -> uint256:
+    return amount * PRECISION
+
+@external
+def exposed():
+    pass
+`,
+};
+
+const PAYOUT = `
+from interfaces import IERC20, Payment
+from lib.math import scale
+
+token: IERC20
+
+@external
+def pay(payment: Payment) -> bool:
+    return self.token.transfer(payment.to, self.scale(payment.amount))
+`;
+
+describe('parse imports', () => {
+  it('should parse from-imports with aliases and relative levels', () => {
+    const module = parse(`
+from interfaces import IERC20 as Token, Payment
+from ..shared.types import (Order,)
+`);
+
+    expect(module.body).toMatchObject([
+      {
+        kind: 'ImportFrom',
+        module: 'interfaces',
+        level: 0,
+        names: [
+          { kind: 'ImportAlias', name: 'IERC20', asName: 'Token' },
+          { kind: 'ImportAlias', name: 'Payment' },
+        ],
+      },
+      { kind: 'ImportFrom', module: 'shared.types', level: 2 },
+    ]);
+  });
+
+  it('should reject plain and wildcard imports', () => {
+    expect(() => parse('import interfaces\n')).toThrow(
+      "Only 'from module import Name' imports are supported"
+    );
+    expect(() => parse('from interfaces import *\n')).toThrow(
+      'Wildcard imports are not supported'
+    );
+  });
+});
+
+describe('resolve imports', () => {
+  it('should compile declarations imported from project files', () => {
+    const result = transpileToSolidity(PAYOUT, { files: FILES });
+
+    expect(result.errors).toEqual([]);
+    expect(result.output).toContain('interface IERC20 {');
+    expect(result.output).toContain('struct Payment {');
+    // Helpers bring along the constants they use
+    expect(result.output).toContain('uint256 constant PRECISION = 10 ** 18;');
+    expect(result.output).toContain('function scale(uint256 amount)');
+  });
+
+  it('should resolve relative imports from the importing folder', () => {
+    const result = typeCheck(
+      `
+from .types import Payment
+
+@external
+def amount(payment: Payment) -> uint256:
+    return payment.amount
+`,
+      {
+        path: 'contracts/payout.py',
+        files: { 'contracts/types.py': FILES['interfaces.py'] },
+      }
+    );
+
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should report missing modules and names at the import', () => {
+    const { errors } = typeCheck(
+      `
+from tokens import IERC20
+from interfaces import IERC721
+from lib.math import exposed
+`,
+      { files: FILES }
+    );
+
+    expect(errors.map(({ message, line }) => ({ message, line }))).toEqual([
+      { message: "Cannot find module 'tokens'", line: 2 },
+      {
+        message: "Module 'interfaces' has no declaration 'IERC721'",
+        line: 3,
+      },
+      {
+        message:
+          "'exposed' cannot be imported; only interfaces, structs, events, " +
+          'errors, enums, constants and @internal functions can',
+        line: 4,
+      },
+    ]);
+  });
+
+  it('should attribute errors in imported files to that file', () => {
+    const { errors } = typeCheck('from broken import Thing\n', {
+      files: {
+        'broken.py': `
+struct Thing:
+    owner: adress
+`,
+      },
+    });
+
+    expect(errors).toEqual([
+      expect.objectContaining({ file: 'broken.py', line: 3 }),
+    ]);
+  });
+
+  it('should detect circular imports', () => {
+    const { errors } = typeCheck('from a import X\n', {
+      files: {
+        'a.py': 'from b import Y\n\nstruct X:\n    v: uint256\n',
+        'b.py': 'from a import X\n\nstruct Y:\n    v: uint256\n',
+      },
+    });
+
+    expect(errors).toEqual([
+      expect.objectContaining({
+        message: "Circular import of 'a'",
+        file: 'b.py',
+      }),
+    ]);
+  });
+});
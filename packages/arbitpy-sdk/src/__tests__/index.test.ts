@@ -1,5 +1,5 @@
 // Basic test suite for ArbitPy SDK
-import ArbitPySDK from '../index.js';
+import ArbitPySDK, { ArbitPyError } from '../index.js';
 
 describe('ArbitPySDK', () => {
   let sdk: ArbitPySDK;
@@ -73,13 +73,13 @@ describe('ArbitPySDK', () => {
 
   describe('Event Forwarding', () => {
     it('should forward events from modules', (done) => {
-      sdk.on('error', (error: Error) => {
-        expect(error).toBeInstanceOf(Error);
+      sdk.on('error', (error: ArbitPyError) => {
+        expect(error).toBeInstanceOf(ArbitPyError);
         done();
       });
 
       // Trigger error event from compiler
-      sdk.compiler.emit('error', new Error('Test error'));
+      sdk.compiler.emit('error', new ArbitPyError('Test error'));
     });
   });
 
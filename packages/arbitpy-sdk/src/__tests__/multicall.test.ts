@@ -0,0 +1,154 @@
+// Multicall3 batching tests
+import { ethers } from 'ethers';
+import { ArbitPyContract } from '../contract/index.js';
+import { MULTICALL3_ADDRESS, multicall } from '../contract/multicall.js';
+
+const POOL = '0x0000000000000000000000000000000000000abc';
+const abi = [
+  'error PoolNotFound(uint256 poolId)',
+  'function getPlatformStats() view returns (uint256 tvl, uint256 volume)',
+  'function getPoolInfo(uint256 poolId) view returns (uint256 totalSupply)',
+];
+const pool = new ethers.Interface(abi);
+const multicall3 = new ethers.Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+]);
+
+// Answers calls of the pool contract like a node would
+function execute(data: string): { success: boolean; returnData: string } {
+  const call = pool.parseTransaction({ data })!;
+  if (call.name === 'getPlatformStats') {
+    return {
+      success: true,
+      returnData: pool.encodeFunctionResult(call.fragment, [1000n, 50n]),
+    };
+  }
+  const poolId = call.args[0] as bigint;
+  if (poolId >= 3n) {
+    return {
+      success: false,
+      returnData: pool.encodeErrorResult('PoolNotFound', [poolId]),
+    };
+  }
+  return {
+    success: true,
+    returnData: pool.encodeFunctionResult(call.fragment, [poolId * 10n]),
+  };
+}
+
+// A provider with or without Multicall3 that records every eth_call
+function mockProvider(withMulticall: boolean) {
+  const requests: string[] = [];
+  const provider = {
+    async getCode(address: string) {
+      return withMulticall && address === MULTICALL3_ADDRESS ? '0x6080' : '0x';
+    },
+    async call({ to, data }: { to: string; data: string }) {
+      requests.push(to);
+      if (to === MULTICALL3_ADDRESS) {
+        const [calls] = multicall3.decodeFunctionData('aggregate3', data);
+        const results = calls.map(({ callData }: { callData: string }) =>
+          execute(callData)
+        );
+        return multicall3.encodeFunctionResult('aggregate3', [results]);
+      }
+      const { success, returnData } = execute(data);
+      if (!success) {
+        throw ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+          action: 'call',
+          data: returnData,
+          reason: null,
+          transaction: { to, data },
+          invocation: null,
+          revert: null,
+        });
+      }
+      return returnData;
+    },
+  };
+  return { provider: provider as unknown as ethers.Provider, requests };
+}
+
+const calls = [
+  { method: 'getPlatformStats' },
+  ...[0, 1, 2, 3].map((poolId) => ({
+    method: 'getPoolInfo',
+    params: [poolId],
+  })),
+];
+
+describe('multicall', () => {
+  it('should aggregate calls through Multicall3 in chunks', async () => {
+    const { provider, requests } = mockProvider(true);
+
+    const results = await multicall<ethers.Result>(provider, POOL, abi, calls, {
+      chunkSize: 2,
+    });
+
+    expect(requests).toEqual([
+      MULTICALL3_ADDRESS,
+      MULTICALL3_ADDRESS,
+      MULTICALL3_ADDRESS,
+    ]);
+    expect(results.map(({ success }) => success)).toEqual([
+      true,
+      true,
+      true,
+      true,
+      false,
+    ]);
+    expect(results[0].value?.tvl).toBe(1000n);
+    expect(results[2].value).toBe(10n);
+  });
+
+  it('should decode why a call failed without failing the batch', async () => {
+    const { provider } = mockProvider(true);
+
+    const [failed] = await multicall(provider, POOL, abi, [
+      { method: 'getPoolInfo', params: [7] },
+    ]);
+
+    expect(failed).toMatchObject({
+      success: false,
+      revert: {
+        kind: 'custom',
+        name: 'PoolNotFound',
+        namedArgs: { poolId: 7n },
+      },
+    });
+  });
+
+  it('should fall back to parallel calls without Multicall3', async () => {
+    const { provider, requests } = mockProvider(false);
+
+    const results = await multicall(provider, POOL, abi, calls);
+
+    expect(requests).toEqual([POOL, POOL, POOL, POOL, POOL]);
+    expect(results.map(({ value }) => value?.toString())).toEqual([
+      '1000,50',
+      '0',
+      '10',
+      '20',
+      undefined,
+    ]);
+    expect(results[4].revert).toMatchObject({ name: 'PoolNotFound' });
+  });
+});
+
+describe('ArbitPyContract.multicall', () => {
+  it('should batch calls with the ABI of the contract', async () => {
+    const { provider } = mockProvider(true);
+    const contract = new ArbitPyContract(POOL, abi, 'arbitrum-sepolia');
+    await contract.connect({
+      ...provider,
+      getBlockNumber: async () => 1,
+    } as unknown as ethers.Provider);
+
+    const results = await contract.multicall(calls.slice(0, 2));
+
+    expect(results.map(({ value }) => value?.toString())).toEqual([
+      '1000,50',
+      '0',
+    ]);
+  });
+});
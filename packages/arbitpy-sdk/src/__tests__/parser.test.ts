@@ -0,0 +1,133 @@
+// Parser and AST walker tests
+import { parse, walk, ParseError, ast } from '../parser/index.js';
+
+const VAULT = `
+struct Deposit:
+    amount: uint256
+    unlock: uint256
+
+event Deposited:
+    owner: indexed(address)
+    amount: uint256
+
+deposits: public(HashMap[address, Deposit])
+total: uint256
+
+@external
+@payable
+def deposit(lock: uint256):
+    assert msg.value > 0, "Nothing to deposit"
+    self.deposits[msg.sender] = Deposit({amount: msg.value, unlock: lock})
+    for i in range(10):
+        self.total += i
+    log Deposited(msg.sender, msg.value)
+
+@external
+def withdraw(to: address):
+    raw_call(to, b"", value=self.deposits[msg.sender].amount)
+`;
+
+describe('parse', () => {
+  it('should return a typed module AST', () => {
+    const module = parse(VAULT);
+
+    expect(module.body.map((member) => member.kind)).toEqual([
+      'StructDef',
+      'EventDef',
+      'StateVariableDecl',
+      'StateVariableDecl',
+      'FunctionDef',
+      'FunctionDef',
+    ]);
+
+    const deposit = module.body[4] as ast.FunctionDef;
+    expect(deposit.decorators.map((d) => d.name)).toEqual([
+      'external',
+      'payable',
+    ]);
+    expect(deposit.body.map((statement) => statement.kind)).toEqual([
+      'Assert',
+      'Assign',
+      'For',
+      'Emit',
+    ]);
+
+    const loop = deposit.body[2] as ast.For;
+    expect(loop.target.id).toBe('i');
+    expect(loop.iter).toMatchObject({
+      kind: 'Call',
+      callee: { kind: 'Name', id: 'range' },
+    });
+  });
+
+  it('should record exact start and end positions', () => {
+    const module = parse(VAULT);
+    const deposits = module.body[2] as ast.StateVariableDecl;
+
+    expect(deposits).toMatchObject({
+      line: 10,
+      column: 1,
+      endLine: 10,
+      endColumn: 44,
+    });
+    expect(deposits.annotation).toMatchObject({ column: 11, endColumn: 44 });
+
+    // Compound statements end at the last token of their body
+    const deposit = module.body[4] as ast.FunctionDef;
+    expect(deposit).toMatchObject({
+      line: 13,
+      column: 1,
+      endLine: 20,
+      endColumn: 41,
+    });
+  });
+
+  it('should throw a ParseError with the offending span', () => {
+    expect.assertions(2);
+    try {
+      parse('x: uint256\ndef f(:\n    pass\n');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ParseError);
+      expect(error).toMatchObject({
+        line: 2,
+        column: 7,
+        endLine: 2,
+        endColumn: 8,
+      });
+    }
+  });
+});
+
+describe('walk', () => {
+  it('should visit nodes by kind in source order', () => {
+    const calls: string[] = [];
+
+    walk(parse(VAULT), {
+      Call(node) {
+        if (node.callee.kind === 'Name') calls.push(node.callee.id);
+      },
+    });
+
+    expect(calls).toEqual([
+      'indexed',
+      'public',
+      'Deposit',
+      'range',
+      'raw_call',
+    ]);
+  });
+
+  it('should skip children when enter returns false', () => {
+    const names = new Set<string>();
+
+    walk(parse(VAULT), {
+      enter: (node) => node.kind !== 'FunctionDef',
+      Name(node) {
+        names.add(node.id);
+      },
+    });
+
+    expect(names.has('HashMap')).toBe(true);
+    expect(names.has('msg')).toBe(false);
+  });
+});
@@ -0,0 +1,208 @@
+// Gas profiler tests
+import { ethers } from 'ethers';
+import {
+  diffGasReports,
+  profileGas,
+  type GasReport,
+} from '../profiler/index.js';
+
+const abi = [
+  'function count() view returns (uint256)',
+  'function increment()',
+  'function now() view returns (uint256)',
+  'function fail()',
+  'event Incremented(uint256 count)',
+  'error Failed()',
+];
+const iface = new ethers.Interface(abi);
+const selector = (name: string) =>
+  '63' + iface.getFunction(name)!.selector.slice(2);
+
+// Assemble EVM code; `@label` marks a jump destination and `:label`
+// pushes its offset
+function assemble(code: string[]): string {
+  const offsets = new Map<string, number>();
+  let size = 0;
+  for (const part of code) {
+    if (part.startsWith('@')) offsets.set(part.slice(1), size);
+    size += part.startsWith('@')
+      ? 1
+      : part.startsWith(':')
+        ? 2
+        : part.length / 2;
+  }
+  return code
+    .map((part) => {
+      if (part.startsWith('@')) return '5b';
+      if (!part.startsWith(':')) return part;
+      return '60' + offsets.get(part.slice(1))!.toString(16).padStart(2, '0');
+    })
+    .join('');
+}
+
+// A counter that logs each increment
+const runtime = assemble([
+  '6000356' + '0e01c', // selector = calldata[0:4]
+  '80',
+  selector('count'),
+  '14',
+  ':count',
+  '57',
+  '80',
+  selector('increment'),
+  '14',
+  ':increment',
+  '57',
+  '80',
+  selector('now'),
+  '14',
+  ':now',
+  '57',
+  '80',
+  selector('fail'),
+  '14',
+  ':fail',
+  '57',
+  '60008' + '0fd', // revert()
+  '@count',
+  '600054',
+  '600052',
+  '60206000f3',
+  '@increment',
+  '600054',
+  '600101',
+  '80',
+  '600055',
+  '600052',
+  '7f' + iface.getEvent('Incremented')!.topicHash.slice(2),
+  '60206000a1',
+  '00',
+  '@now',
+  '42',
+  '600052',
+  '60206000f3',
+  '@fail',
+  '63' + iface.getError('Failed')!.selector.slice(2),
+  '60e01b',
+  '600052',
+  '60046000fd',
+]);
+const bytecode =
+  '0x60' +
+  (runtime.length / 2).toString(16).padStart(2, '0') +
+  '80600b6000396000f3' +
+  runtime;
+
+// Number of instructions in `code` and the index of the first JUMPDEST
+function countInstructions(code: string) {
+  const bytes = ethers.getBytes('0x' + code);
+  let count = 0;
+  let firstJumpdest = -1;
+  for (let pc = 0; pc < bytes.length; count++) {
+    if (bytes[pc] === 0x5b && firstJumpdest < 0) firstJumpdest = count;
+    pc += bytes[pc] >= 0x60 && bytes[pc] <= 0x7f ? bytes[pc] - 0x5e : 1;
+  }
+  return { count, firstJumpdest };
+}
+
+// Solidity whose line 2 stands for the dispatcher and line 3 for the
+// function bodies, generated from Python lines 3 and 5
+const solidity = 'contract Counter {\n  dispatch;\n  body;\n}\n';
+const { count, firstJumpdest } = countInstructions(runtime);
+const runtimeSourceMap =
+  `${solidity.indexOf('dispatch')}:8:0` +
+  ';'.repeat(firstJumpdest) +
+  `${solidity.indexOf('body')}:4:0` +
+  ';'.repeat(count - firstJumpdest - 1);
+const sourceMap = {
+  mappings: [
+    [3, 2],
+    [5, 3],
+  ] as Array<[number, number]>,
+};
+
+describe('profileGas', () => {
+  it('should charge opcode gas to Python lines', async () => {
+    const report = await profileGas(
+      { abi, bytecode },
+      { solidity, runtimeSourceMap, sourceMap }
+    );
+    const [countGas, incrementGas, , failGas] = report.functions;
+
+    expect(report.codeSize).toBe(runtime.length / 2);
+    expect(report.deploymentGas).toBeGreaterThan(0n);
+    expect(report.functions.map(({ signature }) => signature)).toEqual([
+      'count()',
+      'increment()',
+      'now()',
+      'fail()',
+    ]);
+
+    expect(countGas.lines.map(({ line }) => line)).toEqual([3, 5]);
+    expect(countGas.unmappedGas).toBe(0n);
+    // The storage write of the first increment dominates
+    const [, incrementBody] = incrementGas.lines;
+    expect(incrementBody.gas).toBeGreaterThan(20000n);
+    expect(incrementGas.gasUsed).toBeGreaterThan(21000n + incrementBody.gas);
+    expect(incrementGas.reverted).toBe(false);
+
+    expect(failGas).toMatchObject({
+      reverted: true,
+      revert: { kind: 'custom', name: 'Failed' },
+    });
+    const bodyTotal = report.functions.reduce(
+      (total, fn) => total + fn.lines[1].gas,
+      0n
+    );
+    expect(report.lines[1]).toEqual({ line: 5, gas: bodyTotal });
+  });
+
+  it('should report unmapped gas without source maps', async () => {
+    const report = await profileGas({ abi, bytecode });
+
+    expect(report.lines).toEqual([]);
+    expect(report.functions[0].unmappedGas).toBeGreaterThan(0n);
+  });
+});
+
+describe('diffGasReports', () => {
+  const report = (functions: Record<string, bigint>, deploymentGas: bigint) =>
+    ({
+      deploymentGas,
+      codeSize: 0,
+      lines: [],
+      functions: Object.entries(functions).map(([signature, gasUsed]) => ({
+        name: signature.split('(')[0],
+        signature,
+        stateMutability: 'nonpayable',
+        args: [],
+        gasUsed,
+        reverted: false,
+        lines: [],
+        unmappedGas: 0n,
+      })),
+    }) as GasReport;
+
+  it('should compare functions by signature', () => {
+    const diff = diffGasReports(
+      report({ 'increment()': 43000n, 'reset()': 26000n }, 100000n),
+      report({ 'increment()': 41000n, 'count()': 23000n }, 98000n)
+    );
+
+    expect(diff.deployment).toEqual({
+      before: 100000n,
+      after: 98000n,
+      delta: -2000n,
+    });
+    expect(diff.functions).toEqual([
+      {
+        signature: 'increment()',
+        before: 43000n,
+        after: 41000n,
+        delta: -2000n,
+      },
+      { signature: 'count()', after: 23000n, delta: 0n },
+      { signature: 'reset()', before: 26000n, delta: 0n },
+    ]);
+  });
+});
@@ -0,0 +1,334 @@
+// Upgradeable deployment tests
+import { ethers } from 'ethers';
+import { ArbitPyDeployment } from '../deployment/index.js';
+import { getProxyArtifact, IMPLEMENTATION_SLOT } from '../deployment/proxy.js';
+import { getDevnet } from '../devnet/index.js';
+import { transpileToSolidity } from '../codegen/index.js';
+import type { StorageEntry } from '../codegen/index.js';
+import type { DeploymentRequest } from '../types.js';
+
+const abi = [
+  'function count() view returns (uint256)',
+  'function add(uint256 amount)',
+];
+const uupsAbi = [...abi, 'function upgradeTo(address newImplementation)'];
+const iface = new ethers.Interface(uupsAbi);
+const selector = (name: string) =>
+  '63' + iface.getFunction(name)!.selector.slice(2);
+
+// Assemble EVM code; `@label` marks a jump destination and `:label`
+// pushes its offset
+function assemble(code: string[]): string {
+  const offsets = new Map<string, number>();
+  let size = 0;
+  for (const part of code) {
+    if (part.startsWith('@')) offsets.set(part.slice(1), size);
+    size += part.startsWith('@')
+      ? 1
+      : part.startsWith(':')
+        ? 2
+        : part.length / 2;
+  }
+  return code
+    .map((part) => {
+      if (part.startsWith('@')) return '5b';
+      if (!part.startsWith(':')) return part;
+      return '60' + offsets.get(part.slice(1))!.toString(16).padStart(2, '0');
+    })
+    .join('');
+}
+
+// A counter with an unguarded upgradeTo, enough to act as a UUPS
+// implementation; `upgrade` is the code run by upgradeTo
+const counter = (
+  upgrade = ['600435', '7f' + IMPLEMENTATION_SLOT.slice(2), '55', '00']
+) => {
+  const runtime = assemble([
+    '6000356' + '0e01c', // selector = calldata[0:4]
+    '80',
+    selector('count'),
+    '14',
+    ':count',
+    '57',
+    '80',
+    selector('add'),
+    '14',
+    ':add',
+    '57',
+    '80',
+    selector('upgradeTo'),
+    '14',
+    ':upgrade',
+    '57',
+    '60008' + '0fd',
+    '@count',
+    '600054',
+    '600052',
+    '60206000f3',
+    '@add',
+    '600435', // amount = calldata[4:36]
+    '600054',
+    '01',
+    '600055',
+    '00',
+    '@upgrade',
+    ...upgrade,
+  ]);
+  return (
+    '0x60' +
+    (runtime.length / 2).toString(16).padStart(2, '0') +
+    '80600b6000396000f3' +
+    runtime
+  );
+};
+const bytecode = counter();
+
+const entry = (name: string, slot: number): StorageEntry => ({
+  name,
+  type: 'uint256',
+  slot,
+  offset: 0,
+  bytes: 32,
+  generated: false,
+});
+
+describe('ArbitPyDeployment upgradeable deployments', () => {
+  const deployment = new ArbitPyDeployment();
+  const devnet = getDevnet();
+  // The deployer is the admin of transparent proxies, so calls go
+  // through another account
+  const counterAt = (address: string) =>
+    new ethers.Contract(address, uupsAbi, devnet.getSigner(1));
+
+  afterAll(() => devnet.getProvider().destroy());
+
+  it('should deploy a transparent proxy and run the initializer', async () => {
+    const result = await deployment.deployUpgradeable({
+      network: 'local',
+      abi,
+      bytecode,
+      kind: 'transparent',
+      initializer: 'add',
+      initializerArgs: [5],
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      kind: 'transparent',
+      contractAddress: result.proxyAddress,
+      admin: devnet.accounts[0].address,
+    });
+    expect(await counterAt(result.proxyAddress).count()).toBe(5n);
+    expect(await deployment.getProxyInfo(result.proxyAddress, 'local')).toEqual(
+      {
+        implementation: result.implementationAddress,
+        admin: devnet.accounts[0].address,
+      }
+    );
+    await expect(
+      new ethers.Contract(result.proxyAddress, abi, devnet.getSigner()).count()
+    ).rejects.toThrow('admin cannot fallback to proxy target');
+  });
+
+  it('should keep state across upgrades', async () => {
+    const { proxyAddress, implementationAddress } =
+      await deployment.deployUpgradeable({
+        network: 'local',
+        abi,
+        bytecode,
+        kind: 'transparent',
+        initializer: 'add',
+        initializerArgs: [7],
+      });
+
+    const upgrade = await deployment.upgrade({
+      network: 'local',
+      proxyAddress,
+      kind: 'transparent',
+      abi,
+      bytecode,
+      previousLayout: [entry('count', 0)],
+      storageLayout: [entry('count', 0), entry('total', 1)],
+      call: { function: 'add', args: [1] },
+    });
+
+    expect(upgrade.previousImplementation).toBe(implementationAddress);
+    expect(upgrade.implementationAddress).not.toBe(implementationAddress);
+    expect(upgrade.storage).toMatchObject({ compatible: true });
+    expect(
+      (await deployment.getProxyInfo(proxyAddress, 'local')).implementation
+    ).toBe(upgrade.implementationAddress);
+    expect(await counterAt(proxyAddress).count()).toBe(8n);
+  });
+
+  it('should refuse upgrades that break the storage layout', async () => {
+    const { proxyAddress, implementationAddress } =
+      await deployment.deployUpgradeable({
+        network: 'local',
+        abi,
+        bytecode,
+        kind: 'transparent',
+      });
+
+    await expect(
+      deployment.upgrade({
+        network: 'local',
+        proxyAddress,
+        kind: 'transparent',
+        abi,
+        bytecode,
+        previousLayout: [entry('count', 0)],
+        storageLayout: [entry('total', 0), entry('count', 1)],
+      })
+    ).rejects.toMatchObject({ code: 'STORAGE_INCOMPATIBLE' });
+    expect(
+      (await deployment.getProxyInfo(proxyAddress, 'local')).implementation
+    ).toBe(implementationAddress);
+  });
+
+  it('should refuse upgrades without both storage layouts', async () => {
+    const { proxyAddress } = await deployment.deployUpgradeable({
+      network: 'local',
+      abi,
+      bytecode,
+      kind: 'transparent',
+    });
+
+    await expect(
+      deployment.upgrade({
+        network: 'local',
+        proxyAddress,
+        kind: 'transparent',
+        abi,
+        bytecode,
+        previousLayout: undefined as unknown as StorageEntry[],
+        storageLayout: [entry('count', 0)],
+      })
+    ).rejects.toMatchObject({ code: 'STORAGE_LAYOUT_MISSING' });
+  });
+
+  it('should upgrade UUPS proxies through the implementation', async () => {
+    await expect(
+      deployment.deployUpgradeable({
+        network: 'local',
+        abi,
+        bytecode,
+        kind: 'uups',
+      })
+    ).rejects.toMatchObject({ code: 'NOT_UPGRADEABLE' });
+
+    const { proxyAddress, admin } = await deployment.deployUpgradeable({
+      network: 'local',
+      abi: uupsAbi,
+      bytecode,
+      kind: 'uups',
+      initializer: 'add',
+      initializerArgs: [3],
+    });
+    const upgrade = await deployment.upgrade({
+      network: 'local',
+      proxyAddress,
+      kind: 'uups',
+      abi: uupsAbi,
+      bytecode,
+      previousLayout: [entry('count', 0)],
+      storageLayout: [entry('count', 0)],
+    });
+
+    expect(admin).toBeUndefined();
+    expect(
+      (await deployment.getProxyInfo(proxyAddress, 'local')).implementation
+    ).toBe(upgrade.implementationAddress);
+    expect(await counterAt(proxyAddress).count()).toBe(3n);
+  });
+
+  it('should fail when upgradeTo does not write the implementation slot', async () => {
+    const { proxyAddress, implementationAddress } =
+      await deployment.deployUpgradeable({
+        network: 'local',
+        abi: uupsAbi,
+        // Pushes the slot without writing it
+        bytecode: counter(['7f' + IMPLEMENTATION_SLOT.slice(2), '50', '00']),
+        kind: 'uups',
+      });
+
+    await expect(
+      deployment.upgrade({
+        network: 'local',
+        proxyAddress,
+        kind: 'uups',
+        abi: uupsAbi,
+        bytecode,
+        previousLayout: [entry('count', 0)],
+        storageLayout: [entry('count', 0)],
+      })
+    ).rejects.toMatchObject({ code: 'UPGRADE_NOT_APPLIED' });
+    expect(
+      (await deployment.getProxyInfo(proxyAddress, 'local')).implementation
+    ).toBe(implementationAddress);
+  });
+
+  it('should refuse UUPS proxies for transpiled contracts', async () => {
+    const { abi: transpiled } = transpileToSolidity(
+      `
+implementation: address
+
+@external
+def upgradeTo(new_implementation: address):
+    self.implementation = new_implementation
+`,
+      { contractName: 'Counter', upgradeable: true }
+    );
+    const nonce = await devnet
+      .getProvider()
+      .getTransactionCount(devnet.accounts[0].address);
+
+    // The compiled code stores the address in slot 0, like this counter
+    await expect(
+      deployment.deployUpgradeable({
+        network: 'local',
+        abi: transpiled!,
+        bytecode: counter(['600435', '600055', '00']),
+        kind: 'uups',
+      })
+    ).rejects.toMatchObject({ code: 'NOT_UPGRADEABLE' });
+    expect(
+      await devnet.getProvider().getTransactionCount(devnet.accounts[0].address)
+    ).toBe(nonce);
+  });
+
+  it('should deploy and upgrade through the given deployer and signer', async () => {
+    const requests: string[] = [];
+    const deploy = (request: DeploymentRequest) => {
+      requests.push(request.bytecode);
+      return deployment.deploy(request);
+    };
+    const signer = devnet.getSigner(2);
+
+    const { proxyAddress, admin } = await deployment.deployUpgradeable(
+      { network: 'local', abi, bytecode, kind: 'transparent' },
+      undefined,
+      { deploy, signer }
+    );
+    await deployment.upgrade(
+      {
+        network: 'local',
+        proxyAddress,
+        kind: 'transparent',
+        abi,
+        bytecode,
+        previousLayout: [entry('count', 0)],
+        storageLayout: [entry('count', 0)],
+      },
+      undefined,
+      { deploy, signer }
+    );
+
+    expect(admin).toBe(devnet.accounts[2].address);
+    expect(requests).toEqual([
+      bytecode,
+      getProxyArtifact('transparent').bytecode,
+      bytecode,
+    ]);
+  });
+});
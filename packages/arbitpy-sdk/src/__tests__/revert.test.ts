@@ -0,0 +1,144 @@
+// Revert data decoding tests
+import { ethers } from 'ethers';
+import { ArbitPyContract } from '../contract/index.js';
+import {
+  decodeRevert,
+  findRevertData,
+  formatRevert,
+} from '../contract/revert.js';
+import { ContractRevertedError, toArbitPyError } from '../errors.js';
+
+const abi = [
+  'error InsufficientBalance(uint256 needed, uint256 available)',
+  'error Unauthorized(address)',
+  'function withdraw(uint256 amount)',
+];
+const contractInterface = new ethers.Interface(abi);
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+const insufficientBalance = contractInterface.encodeErrorResult(
+  'InsufficientBalance',
+  [100n, 40n]
+);
+const errorString = ethers.concat([
+  '0x08c379a0',
+  coder.encode(['string'], ['Not the owner']),
+]);
+const overflow = ethers.concat([
+  '0x4e487b71',
+  coder.encode(['uint256'], [0x11]),
+]);
+
+describe('decodeRevert', () => {
+  it('should decode Error(string) reasons', () => {
+    expect(decodeRevert(errorString)).toEqual({
+      kind: 'error',
+      reason: 'Not the owner',
+    });
+  });
+
+  it('should describe panic codes', () => {
+    const panic = decodeRevert(overflow);
+
+    expect(panic).toEqual({
+      kind: 'panic',
+      code: 0x11,
+      description: 'arithmetic overflow or underflow',
+    });
+    expect(formatRevert(panic!)).toBe(
+      'Panic(0x11): arithmetic overflow or underflow'
+    );
+  });
+
+  it('should decode custom errors declared in the ABI', () => {
+    const decoded = decodeRevert(insufficientBalance, abi);
+
+    expect(decoded).toEqual({
+      kind: 'custom',
+      name: 'InsufficientBalance',
+      signature: 'InsufficientBalance(uint256,uint256)',
+      args: [100n, 40n],
+      namedArgs: { needed: 100n, available: 40n },
+    });
+    expect(formatRevert(decoded!)).toBe(
+      'InsufficientBalance(needed=100, available=40)'
+    );
+  });
+
+  it('should leave out names of unnamed parameters', () => {
+    const owner = ethers.getAddress(
+      '0x00000000000000000000000000000000000000aa'
+    );
+    const data = contractInterface.encodeErrorResult('Unauthorized', [owner]);
+
+    expect(formatRevert(decodeRevert(data, abi)!)).toBe(
+      `Unauthorized(${owner})`
+    );
+  });
+
+  it('should return undefined for unknown or empty data', () => {
+    expect(decodeRevert(insufficientBalance)).toBeUndefined();
+    expect(decodeRevert('0x')).toBeUndefined();
+    expect(decodeRevert(undefined, abi)).toBeUndefined();
+  });
+});
+
+describe('findRevertData', () => {
+  it('should find data nested in JSON-RPC errors', () => {
+    const error = {
+      message: 'could not coalesce error',
+      info: { error: { code: 3, data: insufficientBalance } },
+    };
+
+    expect(findRevertData(error)).toBe(insufficientBalance);
+    expect(findRevertData(new Error('timeout'))).toBeUndefined();
+  });
+});
+
+describe('reverted contract calls', () => {
+  it('should map RPC errors carrying revert data to ContractRevertedError', () => {
+    const error = toArbitPyError(
+      { error: { message: 'execution reverted', data: overflow } },
+      { abi }
+    );
+
+    expect(error).toBeInstanceOf(ContractRevertedError);
+    expect(error).toMatchObject({
+      message: 'Reverted: Panic(0x11): arithmetic overflow or underflow',
+      panic: { code: 0x11 },
+    });
+  });
+
+  it('should decode custom errors with the ABI of the contract', async () => {
+    const contract = new ArbitPyContract(
+      '0x0000000000000000000000000000000000000001',
+      abi,
+      'arbitrum-sepolia'
+    );
+    const signer = {
+      provider: null,
+      sendTransaction: async () => {
+        throw ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+          action: 'estimateGas',
+          data: insufficientBalance,
+          reason: null,
+          transaction: { to: null, data: '0x' },
+          invocation: null,
+          revert: null,
+        });
+      },
+    };
+    await contract.connect(signer as unknown as ethers.Signer);
+
+    const error = await contract.send('withdraw', [100n]).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ContractRevertedError);
+    expect(error.message).toBe(
+      'Reverted: InsufficientBalance(needed=100, available=40)'
+    );
+    expect(error.customError.namedArgs).toEqual({
+      needed: 100n,
+      available: 40n,
+    });
+  });
+});
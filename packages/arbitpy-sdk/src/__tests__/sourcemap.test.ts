@@ -0,0 +1,103 @@
+// Source map tests
+import {
+  generatedLinesFor,
+  mapToSource,
+  sourceLineFor,
+  transpileToRust,
+  transpileToSolidity,
+} from '../codegen/index.js';
+import { ArbitPyCompiler } from '../compiler/index.js';
+import { SourceMap } from '../types.js';
+
+const COUNTER = `
+count: public(uint256)
+
+@external
+@view
+def get() -> uint256:
+    return self.count
+
+@external
+def add(amount: uint256):
+    assert amount > 0, "Zero amount"
+    self.count += amount
+`;
+
+/** Trimmed generated lines for a Python line */
+function linesFor(
+  result: { output?: string; sourceMap?: SourceMap },
+  python: number
+): string[] {
+  const lines = result.output!.split('\n');
+  return generatedLinesFor(result.sourceMap!, python).map((line) =>
+    lines[line - 1].trim()
+  );
+}
+
+describe('source maps', () => {
+  it('should map Python lines to the generated Solidity', () => {
+    const result = transpileToSolidity(COUNTER);
+
+    expect(linesFor(result, 2)).toEqual(['uint256 public count;']);
+    expect(linesFor(result, 7)).toEqual(['return count;']);
+    expect(linesFor(result, 11)).toEqual([
+      'require(amount > 0, "Zero amount");',
+    ]);
+  });
+
+  it('should attribute function headers to decorators and signature', () => {
+    const result = transpileToSolidity(COUNTER);
+    const header =
+      result
+        .output!.split('\n')
+        .findIndex((line) => line.includes('function add(')) + 1;
+
+    expect(linesFor(result, 9)).toContain(
+      'function add(uint256 amount) public {'
+    );
+    expect(linesFor(result, 10)).toContain(
+      'function add(uint256 amount) public {'
+    );
+    // Errors on the header belong to the `def` line
+    expect(sourceLineFor(result.sourceMap!, header)).toBe(10);
+  });
+
+  it('should map Python lines to the generated Rust', () => {
+    const result = transpileToRust(COUNTER);
+
+    expect(linesFor(result, 7)).toEqual(['Ok(self.count.get())']);
+    expect(linesFor(result, 11)).toEqual(
+      expect.arrayContaining(['return Err(revert_message("Zero amount"));'])
+    );
+  });
+
+  it('should leave generated scaffolding unmapped', () => {
+    const { sourceMap } = transpileToSolidity(COUNTER);
+
+    expect(sourceLineFor(sourceMap!, 1)).toBeUndefined();
+  });
+
+  it('should move diagnostics onto Python lines', () => {
+    const { sourceMap } = transpileToSolidity(COUNTER);
+    const generated = generatedLinesFor(sourceMap!, 7)[0];
+
+    expect(
+      mapToSource(
+        [
+          { message: 'Unreachable code', line: generated, column: 9 },
+          { message: 'Unknown', line: 1, column: 1 },
+        ],
+        sourceMap!
+      )
+    ).toEqual([
+      { message: 'Unreachable code', line: 7 },
+      { message: 'Unknown', line: 1, column: 1 },
+    ]);
+  });
+
+  it('should be included in local compilation results', () => {
+    const result = new ArbitPyCompiler().compileLocal(COUNTER);
+
+    expect(result.sourceMap?.mappings.length).toBeGreaterThan(0);
+  });
+});
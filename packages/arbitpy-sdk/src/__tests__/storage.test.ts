@@ -0,0 +1,134 @@
+// Storage layout and upgrade-safety diff tests
+import { diffStorageLayouts, transpileToSolidity } from '../codegen/index.js';
+
+const VAULT = `
+struct Position:
+    owner: address
+    open: bool
+    size: uint256
+
+owner: public(address)
+paused: bool
+fee: uint16
+total: uint256
+position: Position
+balances: HashMap[address, uint256]
+history: uint8[40]
+flag: bool
+MAX_FEE: constant(uint16) = 500
+
+@external
+@nonreentrant
+def withdraw():
+    self.total = 0
+`;
+
+const layoutOf = (source: string) =>
+  transpileToSolidity(source, { contractName: 'Vault' }).storageLayout!;
+
+describe('storageLayout', () => {
+  it('should pack state variables like solc', () => {
+    const layout = layoutOf(VAULT);
+
+    expect(
+      layout.map(({ name, type, slot, offset, bytes }) => [
+        name,
+        type,
+        slot,
+        offset,
+        bytes,
+      ])
+    ).toEqual([
+      ['owner', 'address', 0, 0, 20],
+      ['paused', 'bool', 0, 20, 1],
+      ['fee', 'uint16', 0, 21, 2],
+      ['total', 'uint256', 1, 0, 32],
+      ['position', 'Position', 2, 0, 64],
+      ['balances', 'mapping(address => uint256)', 4, 0, 32],
+      ['history', 'uint8[40]', 5, 0, 64],
+      ['flag', 'bool', 7, 0, 1],
+      ['_reentrancyLock', 'uint256', 8, 0, 32],
+    ]);
+    expect(layout[0]).toMatchObject({ generated: false, line: 7 });
+    expect(layout[8].generated).toBe(true);
+  });
+});
+
+describe('diffStorageLayouts', () => {
+  const previous = layoutOf(VAULT);
+
+  it('should accept variables appended after the previous layout', () => {
+    const unguarded = VAULT.replace('@nonreentrant\n', '');
+    const diff = diffStorageLayouts(
+      layoutOf(unguarded),
+      layoutOf(unguarded.replace('MAX_FEE', 'version: uint256\nMAX_FEE'))
+    );
+
+    expect(diff).toEqual({
+      compatible: true,
+      changes: [
+        expect.objectContaining({
+          kind: 'added',
+          name: 'version',
+          message: 'version was appended at slot 8',
+        }),
+      ],
+    });
+  });
+
+  it('should flag variables moving compiler-generated storage', () => {
+    const diff = diffStorageLayouts(
+      previous,
+      layoutOf(VAULT.replace('MAX_FEE', 'version: uint256\nMAX_FEE'))
+    );
+
+    expect(diff.compatible).toBe(false);
+    expect(
+      diff.changes.map(({ kind, name, breaking }) => [kind, name, breaking])
+    ).toEqual([
+      ['reordered', '_reentrancyLock', true],
+      ['added', 'version', true],
+    ]);
+  });
+
+  it('should flag reordered, retyped and removed variables', () => {
+    const diff = diffStorageLayouts(
+      previous,
+      layoutOf(
+        VAULT.replace('paused: bool\nfee: uint16', 'fee: uint16\npaused: bool')
+          .replace('total: uint256', 'total: uint128')
+          .replace('flag: bool\n', '')
+      )
+    );
+
+    expect(diff.compatible).toBe(false);
+    expect(diff.changes.map(({ kind, name }) => [kind, name])).toEqual([
+      ['reordered', 'paused'],
+      ['reordered', 'fee'],
+      ['retyped', 'total'],
+      ['reordered', '_reentrancyLock'],
+      ['removed', 'flag'],
+    ]);
+    expect(diff.changes[2].message).toBe(
+      'total changed type from uint256 to uint128'
+    );
+  });
+
+  it('should treat a variable renamed in place as compatible', () => {
+    const diff = diffStorageLayouts(
+      previous,
+      layoutOf(VAULT.replace(/\bflag\b/, 'frozen'))
+    );
+
+    expect(diff).toEqual({
+      compatible: true,
+      changes: [
+        expect.objectContaining({
+          kind: 'renamed',
+          name: 'frozen',
+          message: 'flag was renamed to frozen',
+        }),
+      ],
+    });
+  });
+});
@@ -0,0 +1,123 @@
+// Stylus code generation tests
+import { transpileToRust } from '../codegen/index.js';
+import { ArbitPyCompiler } from '../compiler/index.js';
+
+const TOKEN = `
+event Transfer:
+    sender: indexed(address)
+    receiver: indexed(address)
+    value: uint256
+
+name: public(String[64])
+balanceOf: public(HashMap[address, uint256])
+
+@external
+def __init__(_name: String[64], _supply: uint256):
+    self.name = _name
+    self.balanceOf[msg.sender] = _supply
+
+@external
+def transfer(_to: address, _value: uint256) -> bool:
+    assert self.balanceOf[msg.sender] >= _value, "Insufficient balance"
+    self.balanceOf[msg.sender] -= _value
+    self.balanceOf[_to] += _value
+    log Transfer(msg.sender, _to, _value)
+    return True
+
+@external
+@view
+def doubled(_value: uint256) -> uint256:
+    return _value * 2
+`;
+
+describe('transpileToRust', () => {
+  it('should generate a stylus-sdk crate', () => {
+    const result = transpileToRust(TOKEN, { contractName: 'Token' });
+
+    expect(result.success).toBe(true);
+    expect(Object.keys(result.files ?? {}).sort()).toEqual([
+      'Cargo.toml',
+      'rust-toolchain.toml',
+      'src/lib.rs',
+      'src/main.rs',
+    ]);
+    expect(result.files?.['Cargo.toml']).toContain('name = "token"');
+    expect(result.files?.['Cargo.toml']).toContain('stylus-sdk = "0.6.0"');
+    expect(result.files?.['src/main.rs']).toContain('token::print_abi(');
+    expect(result.output).toBe(result.files?.['src/lib.rs']);
+  });
+
+  it('should map state, events and functions to Stylus', () => {
+    const output = transpileToRust(TOKEN, { contractName: 'Token' }).output;
+
+    expect(output).toContain('sol_storage! {');
+    expect(output).toContain('#[entrypoint]\n    pub struct Token {');
+    expect(output).toContain('mapping(address => uint256) balanceOf;');
+    expect(output).toContain(
+      'event Transfer(address indexed sender, address indexed receiver, uint256 value);'
+    );
+    expect(output).toContain('#[public]\nimpl Token {');
+    expect(output).toContain(
+      'pub fn transfer(&mut self, _to: Address, _value: U256) -> Result<bool, Vec<u8>> {'
+    );
+    expect(output).toContain(
+      'pub fn doubled(&self, _value: U256) -> Result<U256, Vec<u8>> {'
+    );
+    expect(output).toContain(
+      'return Err(revert_message("Insufficient balance"));'
+    );
+    expect(output).toContain(
+      'evm::log(Transfer { sender: msg::sender(), receiver: _to, value: _value });'
+    );
+    // Public state gets explicit getters
+    expect(output).toContain(
+      'pub fn balanceOf(&self, arg0: Address) -> Result<U256, Vec<u8>> {'
+    );
+  });
+
+  it('should turn the constructor into a one-time init method', () => {
+    const output = transpileToRust(TOKEN).output;
+
+    expect(output).toContain(
+      'pub fn init(&mut self, _name: String, _supply: U256) -> Result<(), Vec<u8>> {'
+    );
+    expect(output).toContain('if self.initialized.get() {');
+    expect(output).toContain('bool initialized;');
+  });
+
+  it('should use checked arithmetic with Solidity panic codes', () => {
+    const output = transpileToRust(TOKEN).output;
+
+    expect(output).toContain(
+      'Ok(checked(_value.checked_mul(uint!(2_U256)), 0x11)?)'
+    );
+    expect(output).toContain('fn panic_code(code: u8) -> Vec<u8> {');
+  });
+
+  it('should report constructs without a Stylus equivalent', () => {
+    const result = transpileToRust(`
+@external
+def hash(x: bytes32) -> bytes32:
+    return sha256(x)
+`);
+
+    expect(result.success).toBe(false);
+    expect(result.files).toBeUndefined();
+    expect(result.errors[0]).toMatchObject({
+      message: 'sha256() is not supported by the Stylus backend',
+      line: 4,
+    });
+  });
+});
+
+describe('ArbitPyCompiler.compileLocal', () => {
+  it('should generate Rust for the rust target', () => {
+    const result = new ArbitPyCompiler().compileLocal(TOKEN, {
+      target: 'rust',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toContain('use stylus_sdk::{');
+    expect(result.files?.['Cargo.toml']).toContain('[package]');
+  });
+});
@@ -0,0 +1,225 @@
+// Python-dialect contract test runner tests
+import { ethers } from 'ethers';
+import { Devnet } from '../devnet/index.js';
+import {
+  discoverTests,
+  isTestFile,
+  runTests,
+  type TestRunOptions,
+} from '../testing/index.js';
+
+const abi = [
+  'function count() view returns (uint256)',
+  'function increment()',
+  'function now() view returns (uint256)',
+  'function fail()',
+  'event Incremented(uint256 count)',
+  'error Failed()',
+];
+const iface = new ethers.Interface(abi);
+const selector = (name: string) =>
+  '63' + iface.getFunction(name)!.selector.slice(2);
+
+// Assemble EVM code; `@label` marks a jump destination and `:label`
+// pushes its offset
+function assemble(code: string[]): string {
+  const offsets = new Map<string, number>();
+  let size = 0;
+  for (const part of code) {
+    if (part.startsWith('@')) offsets.set(part.slice(1), size);
+    size += part.startsWith('@')
+      ? 1
+      : part.startsWith(':')
+        ? 2
+        : part.length / 2;
+  }
+  return code
+    .map((part) => {
+      if (part.startsWith('@')) return '5b';
+      if (!part.startsWith(':')) return part;
+      return '60' + offsets.get(part.slice(1))!.toString(16).padStart(2, '0');
+    })
+    .join('');
+}
+
+// A counter that logs each increment
+const runtime = assemble([
+  '6000356' + '0e01c', // selector = calldata[0:4]
+  '80',
+  selector('count'),
+  '14',
+  ':count',
+  '57',
+  '80',
+  selector('increment'),
+  '14',
+  ':increment',
+  '57',
+  '80',
+  selector('now'),
+  '14',
+  ':now',
+  '57',
+  '80',
+  selector('fail'),
+  '14',
+  ':fail',
+  '57',
+  '60008' + '0fd', // revert()
+  '@count',
+  '600054',
+  '600052',
+  '60206000f3',
+  '@increment',
+  '600054',
+  '600101',
+  '80',
+  '600055',
+  '600052',
+  '7f' + iface.getEvent('Incremented')!.topicHash.slice(2),
+  '60206000a1',
+  '00',
+  '@now',
+  '42',
+  '600052',
+  '60206000f3',
+  '@fail',
+  '63' + iface.getError('Failed')!.selector.slice(2),
+  '60e01b',
+  '600052',
+  '60046000fd',
+]);
+const bytecode =
+  '0x60' +
+  (runtime.length / 2).toString(16).padStart(2, '0') +
+  '80600b6000396000f3' +
+  runtime;
+
+const artifacts = { Counter: { abi, bytecode } };
+
+const source = `from counter import Counter
+
+def counter():
+    return Counter.deploy()
+
+def bump(counter, times):
+    for i in range(times):
+        counter.increment(sender=accounts[1])
+
+def test_starts_at_zero(counter):
+    assert counter.count() == 0
+
+def test_increment(counter):
+    bump(counter, 2)
+    assert counter.count() == 2
+    assert_emitted(counter, "Incremented", 2)
+
+def test_fail_reverts(counter):
+    expect_revert("Failed")
+    counter.fail()
+
+def test_wrong_count(counter):
+    bump(counter, 1)
+    check(counter, 5)
+
+def check(counter, expected):
+    assert counter.count() == expected
+
+def test_unexpected_revert(counter):
+    counter.fail()
+
+def test_missing_revert(counter):
+    expect_revert()
+    counter.increment()
+`;
+
+describe('runTests', () => {
+  const devnet = new Devnet();
+  const run = (options: Partial<TestRunOptions> = {}) =>
+    runTests(source, {
+      path: 'tests/test_counter.py',
+      artifacts,
+      devnet,
+      ...options,
+    });
+
+  afterAll(() => devnet.getProvider().destroy());
+
+  it('should run each test from the same state', async () => {
+    const report = await run({
+      only: ['test_starts_at_zero', 'test_increment', 'test_fail_reverts'],
+    });
+
+    expect(report.errors).toEqual([]);
+    expect(report).toMatchObject({ passed: 3, failed: 0 });
+    const [deployOnly, increment] = report.results;
+    expect(deployOnly.gasUsed).toBeGreaterThan(0n);
+    expect(increment.gasUsed).toBeGreaterThan(deployOnly.gasUsed);
+  });
+
+  it('should trace failures to the test source', async () => {
+    const report = await run({
+      only: [
+        'test_wrong_count',
+        'test_unexpected_revert',
+        'test_missing_revert',
+      ],
+    });
+    const [wrongCount, unexpected, missing] = report.results;
+
+    expect(report).toMatchObject({ passed: 0, failed: 3 });
+    expect(wrongCount.failure).toMatchObject({
+      message: 'AssertionError: assert 1 == 5',
+      line: 27,
+    });
+    expect(
+      wrongCount.failure!.trace.map(({ function: name, line, source }) => [
+        name,
+        line,
+        source,
+      ])
+    ).toEqual([
+      ['test_wrong_count', 24, 'check(counter, 5)'],
+      ['check', 27, 'assert counter.count() == expected'],
+    ]);
+    expect(unexpected.failure).toMatchObject({
+      message: 'Counter.fail() failed. Reverted: Failed()',
+      line: 30,
+      revert: { kind: 'custom', name: 'Failed' },
+    });
+    expect(missing.failure!.message).toBe(
+      'Expected Counter.increment() to revert, but it succeeded'
+    );
+  });
+
+  it('should report imports without a compiled contract', async () => {
+    const report = await run({ artifacts: {} });
+
+    expect(report.results).toEqual([]);
+    expect(report.errors).toEqual([
+      expect.objectContaining({
+        message: "No compiled contract named 'Counter'",
+        line: 1,
+        file: 'tests/test_counter.py',
+      }),
+    ]);
+  });
+});
+
+describe('discoverTests', () => {
+  it('should list test functions and imported contracts', () => {
+    const { tests, contracts } = discoverTests(source);
+
+    expect(contracts).toEqual(['Counter']);
+    expect(tests.map(({ name }) => name)).toEqual([
+      'test_starts_at_zero',
+      'test_increment',
+      'test_fail_reverts',
+      'test_wrong_count',
+      'test_unexpected_revert',
+      'test_missing_revert',
+    ]);
+    expect(isTestFile('tests/test_counter.py')).toBe(true);
+    expect(isTestFile('counter.py')).toBe(false);
+  });
+});
@@ -0,0 +1,199 @@
+// Transaction manager nonce, replacement and drop tests
+import { ethers } from 'ethers';
+import { TransactionManager } from '../deployment/transactions.js';
+import {
+  TransactionDroppedError,
+  TransactionReplacedError,
+} from '../errors.js';
+
+const SENDER = ethers.getAddress('0x00000000000000000000000000000000000000aa');
+const TARGET = '0x0000000000000000000000000000000000000abc';
+
+// A node with a mempool, and a signer that sends to it
+function mockNetwork(nonce = 0) {
+  const node = {
+    mined: nonce,
+    mempool: new Set<string>(),
+    receipts: new Map<string, unknown>(),
+    sent: [] as ethers.TransactionRequest[],
+  };
+
+  const provider = {
+    async getTransactionCount(_address: string, blockTag: string) {
+      return blockTag === 'pending'
+        ? node.mined + node.mempool.size
+        : node.mined;
+    },
+    async getFeeData() {
+      return { gasPrice: 1n, maxFeePerGas: 1n, maxPriorityFeePerGas: 1n };
+    },
+    async getTransactionReceipt(hash: string) {
+      return node.receipts.get(hash) ?? null;
+    },
+    async getTransaction(hash: string) {
+      return node.mempool.has(hash) ? { hash } : null;
+    },
+  };
+
+  const signer = {
+    async getAddress() {
+      return SENDER;
+    },
+    async sendTransaction(request: ethers.TransactionRequest) {
+      node.sent.push(request);
+      const hash = ethers.id(`tx:${node.sent.length}`);
+      node.mempool.add(hash);
+      return {
+        hash,
+        from: SENDER,
+        to: request.to ?? null,
+        nonce: request.nonce,
+        data: request.data ?? '0x',
+        value: BigInt(request.value ?? 0),
+        gasLimit: BigInt(request.gasLimit ?? 50000),
+        chainId: 421614n,
+        maxFeePerGas: BigInt(request.maxFeePerGas ?? 1000),
+        maxPriorityFeePerGas: BigInt(request.maxPriorityFeePerGas ?? 100),
+        gasPrice: 1000n,
+      };
+    },
+  };
+
+  // Include a transaction in the next block
+  const mine = (hash: string, status = 1) => {
+    node.mempool.clear();
+    node.mined += 1;
+    node.receipts.set(hash, {
+      hash,
+      status,
+      blockNumber: 42,
+      confirmations: async () => 1,
+    });
+  };
+
+  return {
+    node,
+    mine,
+    provider: provider as unknown as ethers.Provider,
+    signer: signer as unknown as ethers.Signer,
+  };
+}
+
+describe('TransactionManager', () => {
+  it('should allocate consecutive nonces to concurrent sends', async () => {
+    const { provider, signer } = mockNetwork(5);
+    const manager = new TransactionManager(provider, { pollInterval: 1 });
+
+    const sent = await Promise.all(
+      [1, 2, 3].map((value) => manager.send(signer, { to: TARGET, value }))
+    );
+
+    expect(sent.map(({ nonce }) => nonce)).toEqual([5, 6, 7]);
+    await expect(manager.nextNonce(SENDER)).resolves.toBe(8);
+
+    manager.stop();
+    await expect(manager.wait(sent[0].hash)).rejects.toMatchObject({
+      code: 'TRANSACTION_NOT_CONFIRMED',
+    });
+  });
+
+  it('should speed up a transaction with bumped fees', async () => {
+    const { node, mine, provider, signer } = mockNetwork();
+    const manager = new TransactionManager(provider, { pollInterval: 1 });
+    const replaced = jest.fn();
+    const confirmed = jest.fn();
+    manager.on('transaction:replaced', replaced);
+    manager.on('transaction:confirmed', confirmed);
+
+    const original = await manager.send(signer, { to: TARGET, data: '0x1234' });
+    const faster = await manager.speedUp(original.hash);
+    mine(faster.hash);
+
+    expect(node.sent[1]).toMatchObject({
+      to: TARGET,
+      data: '0x1234',
+      nonce: 0,
+      maxFeePerGas: 1150n,
+      maxPriorityFeePerGas: 115n,
+    });
+    await expect(manager.wait(original.hash)).resolves.toMatchObject({
+      hash: faster.hash,
+    });
+    expect(replaced).toHaveBeenCalledWith({
+      hash: original.hash,
+      nonce: 0,
+      replacement: faster.hash,
+      cancelled: false,
+    });
+    expect(confirmed).toHaveBeenCalledWith({
+      hash: faster.hash,
+      blockNumber: 42,
+    });
+    expect(manager.getTransaction(original.hash)).toMatchObject({
+      status: 'replaced',
+      replacedBy: faster.hash,
+    });
+  });
+
+  it('should reject waiting for a cancelled transaction', async () => {
+    const { node, mine, provider, signer } = mockNetwork();
+    const manager = new TransactionManager(provider, { pollInterval: 1 });
+
+    const original = await manager.send(signer, { to: TARGET, value: 5n });
+    const cancellation = await manager.cancel(original.hash);
+    mine(cancellation.hash);
+
+    expect(node.sent[1]).toMatchObject({ to: SENDER, value: 0n, nonce: 0 });
+    expect(cancellation.cancellation).toBe(true);
+    const failure = await manager.wait(original.hash).catch((error) => error);
+    expect(failure).toBeInstanceOf(TransactionReplacedError);
+    expect(failure).toMatchObject({
+      code: 'TRANSACTION_REPLACED',
+      replacement: cancellation.hash,
+      cancelled: true,
+    });
+    await expect(manager.speedUp(original.hash)).rejects.toMatchObject({
+      code: 'TRANSACTION_NOT_PENDING',
+    });
+  });
+
+  it('should report a nonce used by an unknown transaction', async () => {
+    const { node, provider, signer } = mockNetwork();
+    const manager = new TransactionManager(provider, { pollInterval: 1 });
+    const replaced = jest.fn();
+    manager.on('transaction:replaced', replaced);
+
+    const original = await manager.send(signer, { to: TARGET });
+    node.mempool.clear();
+    node.mined = 1;
+
+    await expect(manager.wait(original.hash)).rejects.toBeInstanceOf(
+      TransactionReplacedError
+    );
+    expect(replaced).toHaveBeenCalledWith({
+      hash: original.hash,
+      nonce: 0,
+      replacement: undefined,
+      cancelled: false,
+    });
+  });
+
+  it('should detect dropped transactions and reuse their nonce', async () => {
+    const { node, provider, signer } = mockNetwork(3);
+    const manager = new TransactionManager(provider, {
+      pollInterval: 1,
+      dropTimeout: 0,
+    });
+    const dropped = jest.fn();
+    manager.on('transaction:dropped', dropped);
+
+    const original = await manager.send(signer, { to: TARGET });
+    node.mempool.clear();
+
+    await expect(manager.wait(original.hash)).rejects.toBeInstanceOf(
+      TransactionDroppedError
+    );
+    expect(dropped).toHaveBeenCalledWith({ hash: original.hash, nonce: 3 });
+    await expect(manager.nextNonce(SENDER)).resolves.toBe(3);
+  });
+});
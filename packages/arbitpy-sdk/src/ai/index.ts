@@ -1,11 +1,13 @@
 // ArbitPy AI Integration Client
 import { EventEmitter } from 'eventemitter3';
 import { HttpClient } from '../utils/http-client';
+import { ArbitPyError, toArbitPyError } from '../errors';
 import {
   AIRequest,
   AIResponse,
   ArbitPyConfig,
   ArbitPyEvents,
+  CallOptions,
 } from '../types';
 
 export interface AICodeReviewOptions {
@@ -46,6 +48,13 @@ export interface AISessionContext {
   };
 }
 
+// What a method resolves to, the shape of the API response it returns
+type Resolved<K extends keyof ArbitPyAI> = ArbitPyAI[K] extends (
+  ...args: never[]
+) => Promise<infer R>
+  ? R
+  : never;
+
 export class ArbitPyAI extends EventEmitter<ArbitPyEvents> {
   private httpClient: HttpClient;
   private sessions: Map<string, AISessionContext>;
@@ -82,13 +91,15 @@ export class ArbitPyAI extends EventEmitter<ArbitPyEvents> {
       sessionId?: string;
       context?: string;
       streaming?: boolean;
-    } = {}
+    } & CallOptions = {}
   ): Promise<AIResponse> {
     const sessionId = options.sessionId || this.defaultSessionId;
     const session = this.sessions.get(sessionId);
 
     if (!session) {
-      throw new Error(`Session ${sessionId} not found`);
+      throw new ArbitPyError(`Session ${sessionId} not found`, {
+        code: 'SESSION_NOT_FOUND',
+      });
     }
 
     // Add user message to history
@@ -111,7 +122,8 @@ export class ArbitPyAI extends EventEmitter<ArbitPyEvents> {
           ...request,
           sessionId,
           conversationHistory: session.conversationHistory,
-        }
+        },
+        { signal: options.signal }
       );
 
       const result = response.data;
@@ -127,8 +139,9 @@ export class ArbitPyAI extends EventEmitter<ArbitPyEvents> {
 
       return result;
     } catch (error) {
-      this.emit('error', error instanceof Error ? error : new Error(String(error)));
-      throw error;
+      const failure = toArbitPyError(error);
+      this.emit('error', failure);
+      throw failure;
     }
   }
 
@@ -137,7 +150,7 @@ export class ArbitPyAI extends EventEmitter<ArbitPyEvents> {
    */
   async reviewCode(
     code: string,
-    options: AICodeReviewOptions = {}
+    options: AICodeReviewOptions & CallOptions = {}
   ): Promise<AIResponse & {
     issues: Array<{
       line?: number;
@@ -171,7 +184,13 @@ export class ArbitPyAI extends EventEmitter<ArbitPyEvents> {
       },
     };
 
-    const response = await this.httpClient.post('/ai/code-review', request);
+    const response = await this.httpClient.post<Resolved<'reviewCode'>>(
+      '/ai/code-review',
+      request,
+      {
+        signal: options.signal,
+      }
+    );
     return response.data;
   }
 
@@ -180,7 +199,7 @@ export class ArbitPyAI extends EventEmitter<ArbitPyEvents> {
    */
   async generateContract(
     description: string,
-    options: AICodeGenerationOptions = {}
+    options: AICodeGenerationOptions & CallOptions = {}
   ): Promise<AIResponse & {
     contracts: Array<{
       name: string;
@@ -207,7 +226,11 @@ export class ArbitPyAI extends EventEmitter<ArbitPyEvents> {
       },
     };
 
-    const response = await this.httpClient.post('/ai/generate-contract', request);
+    const response = await this.httpClient.post<Resolved<'generateContract'>>(
+      '/ai/generate-contract',
+      request,
+      { signal: options.signal }
+    );
     return response.data;
   }
 
@@ -216,7 +239,7 @@ export class ArbitPyAI extends EventEmitter<ArbitPyEvents> {
    */
   async optimizeCode(
     code: string,
-    options: AIOptimizationOptions = {}
+    options: AIOptimizationOptions & CallOptions = {}
   ): Promise<AIResponse & {
     optimizedCode: string;
     optimizations: Array<{
@@ -242,7 +265,13 @@ export class ArbitPyAI extends EventEmitter<ArbitPyEvents> {
       },
     };
 
-    const response = await this.httpClient.post('/ai/optimize', request);
+    const response = await this.httpClient.post<Resolved<'optimizeCode'>>(
+      '/ai/optimize',
+      request,
+      {
+        signal: options.signal,
+      }
+    );
     return response.data;
   }
 
@@ -251,7 +280,7 @@ export class ArbitPyAI extends EventEmitter<ArbitPyEvents> {
    */
   async explainCode(
     code: string,
-    options: AIExplanationOptions = {}
+    options: AIExplanationOptions & CallOptions = {}
   ): Promise<AIResponse & {
     explanation: {
       overview: string;
@@ -291,7 +320,13 @@ export class ArbitPyAI extends EventEmitter<ArbitPyEvents> {
       },
     };
 
-    const response = await this.httpClient.post('/ai/explain', request);
+    const response = await this.httpClient.post<Resolved<'explainCode'>>(
+      '/ai/explain',
+      request,
+      {
+        signal: options.signal,
+      }
+    );
     return response.data;
   }
 
@@ -301,7 +336,7 @@ export class ArbitPyAI extends EventEmitter<ArbitPyEvents> {
   async debugCode(
     code: string,
     errorMessage?: string,
-    options: { context?: string } = {}
+    options: { context?: string } & CallOptions = {}
   ): Promise<AIResponse & {
     bugs: Array<{
       line?: number;
@@ -328,7 +363,13 @@ export class ArbitPyAI extends EventEmitter<ArbitPyEvents> {
       context: options.context,
     };
 
-    const response = await this.httpClient.post('/ai/debug', request);
+    const response = await this.httpClient.post<Resolved<'debugCode'>>(
+      '/ai/debug',
+      request,
+      {
+        signal: options.signal,
+      }
+    );
     return response.data;
   }
 
@@ -336,7 +377,8 @@ export class ArbitPyAI extends EventEmitter<ArbitPyEvents> {
    * Get smart contract templates and patterns
    */
   async getTemplates(
-    category: string = 'all'
+    category: string = 'all',
+    { signal }: CallOptions = {}
   ): Promise<{
     templates: Array<{
       id: string;
@@ -357,9 +399,13 @@ export class ArbitPyAI extends EventEmitter<ArbitPyEvents> {
       gasImpact: 'positive' | 'neutral' | 'negative';
     }>;
   }> {
-    const response = await this.httpClient.get('/ai/templates', {
-      params: { category },
-    });
+    const response = await this.httpClient.get<Resolved<'getTemplates'>>(
+      '/ai/templates',
+      {
+        params: { category },
+        signal,
+      }
+    );
     return response.data;
   }
 
@@ -410,7 +456,7 @@ export class ArbitPyAI extends EventEmitter<ArbitPyEvents> {
   /**
    * Get AI model status and capabilities
    */
-  async getModelStatus(): Promise<{
+  async getModelStatus({ signal }: CallOptions = {}): Promise<{
     available: boolean;
     model: string;
     version: string;
@@ -421,7 +467,10 @@ export class ArbitPyAI extends EventEmitter<ArbitPyEvents> {
       recommended: number;
     };
   }> {
-    const response = await this.httpClient.get('/ai/status');
+    const response = await this.httpClient.get<Resolved<'getModelStatus'>>(
+      '/ai/status',
+      { signal }
+    );
     return response.data;
   }
 }
\ No newline at end of file
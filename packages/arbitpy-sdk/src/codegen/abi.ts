@@ -0,0 +1,334 @@
+// JSON ABI generation from the contract model
+import {
+  ContractModel,
+  FieldModel,
+  FunctionModel,
+  StateMutability,
+  StateVariable,
+} from '../semantic/model';
+import { ContractType, isArrayType } from '../semantic/types';
+import { planLocals } from './locals';
+import {
+  SOLIDITY_RESERVED,
+  SolidityOptions,
+  solidityMemberNames,
+} from './solidity';
+import { stylusNeedsInit } from './stylus';
+
+export interface AbiParameter {
+  name: string;
+  type: string;
+  internalType?: string;
+  components?: AbiParameter[];
+  /** Event parameters only */
+  indexed?: boolean;
+}
+
+export type AbiItem =
+  | {
+      type: 'function';
+      name: string;
+      inputs: AbiParameter[];
+      outputs: AbiParameter[];
+      stateMutability: StateMutability;
+    }
+  | {
+      type: 'constructor';
+      inputs: AbiParameter[];
+      stateMutability: 'nonpayable' | 'payable';
+    }
+  | { type: 'fallback'; stateMutability: 'nonpayable' | 'payable' }
+  | {
+      type: 'event';
+      name: string;
+      inputs: AbiParameter[];
+      anonymous: boolean;
+    }
+  | { type: 'error'; name: string; inputs: AbiParameter[] };
+
+export type AbiTarget = 'solidity' | 'rust';
+
+/**
+ * Derive the JSON ABI that the generated contract exposes. Names follow the
+ * target: Solidity renames members that clash, and Stylus replaces the
+ * constructor with an `init` method, as do upgradeable Solidity builds with
+ * `initialize`. Entries are sorted like solc's output.
+ */
+export function generateAbi(
+  model: ContractModel,
+  target: AbiTarget = 'solidity',
+  options: SolidityOptions = {}
+): AbiItem[] {
+  return new AbiGenerator(model, target, options).generate();
+}
+
+const TYPE_ORDER: AbiItem['type'][] = [
+  'constructor',
+  'error',
+  'event',
+  'fallback',
+  'function',
+];
+
+class AbiGenerator {
+  private readonly items: AbiItem[] = [];
+  private readonly memberNames = new Map<string, string>();
+  private readonly takenNames = new Set<string>();
+
+  constructor(
+    private readonly model: ContractModel,
+    private readonly target: AbiTarget,
+    private readonly options: SolidityOptions
+  ) {}
+
+  generate(): AbiItem[] {
+    const { model } = this;
+    if (this.target === 'solidity') {
+      const { names, taken } = solidityMemberNames(
+        model,
+        undefined,
+        this.options
+      );
+      for (const [key, name] of names) this.memberNames.set(key, name);
+      for (const name of taken) this.takenNames.add(name);
+    }
+
+    if (this.target === 'solidity' && this.options.upgradeable) {
+      this.items.push(
+        { type: 'constructor', inputs: [], stateMutability: 'nonpayable' },
+        {
+          type: 'function',
+          name: 'initialize',
+          inputs: model.init ? this.inputs(model.init) : [],
+          outputs: [],
+          stateMutability:
+            model.init?.mutability === 'payable' ? 'payable' : 'nonpayable',
+        }
+      );
+    } else if (model.init && this.target === 'solidity') {
+      this.items.push({
+        type: 'constructor',
+        inputs: this.inputs(model.init),
+        stateMutability:
+          model.init.mutability === 'payable' ? 'payable' : 'nonpayable',
+      });
+    } else if (this.target === 'rust' && stylusNeedsInit(model)) {
+      this.items.push({
+        type: 'function',
+        name: 'init',
+        inputs: model.init ? this.inputs(model.init) : [],
+        outputs: [],
+        stateMutability:
+          model.init?.mutability === 'payable' ? 'payable' : 'nonpayable',
+      });
+    }
+
+    for (const error of model.customErrors.values()) {
+      this.items.push({
+        type: 'error',
+        name: error.name,
+        inputs: error.fields.map((field) => this.field(field)),
+      });
+    }
+
+    for (const event of model.events.values()) {
+      this.items.push({
+        type: 'event',
+        name: event.name,
+        inputs: event.fields.map((field) => ({
+          ...this.field(field),
+          indexed: field.indexed,
+        })),
+        anonymous: false,
+      });
+    }
+
+    for (const variable of model.stateVariables.values()) {
+      if (this.hasGetter(variable)) this.getter(variable);
+    }
+
+    for (const fn of model.functions.values()) {
+      if (fn.visibility !== 'public') continue;
+      if (fn.isFallback) {
+        this.items.push({
+          type: 'fallback',
+          stateMutability:
+            fn.mutability === 'payable' ? 'payable' : 'nonpayable',
+        });
+        continue;
+      }
+      this.function(fn);
+    }
+
+    return this.items.sort(compareItems);
+  }
+
+  private hasGetter(variable: StateVariable): boolean {
+    if (!variable.public) return false;
+    // Stylus getters are spelled out and skip constants and name clashes
+    return (
+      this.target === 'solidity' ||
+      (!variable.constant && !this.model.functions.has(variable.name))
+    );
+  }
+
+  /** Public state getters take mapping keys and array indexes */
+  private getter(variable: StateVariable): void {
+    const inputs: AbiParameter[] = [];
+    let type = variable.type;
+    while (type.kind === 'hashmap' || isArrayType(type)) {
+      if (type.kind === 'hashmap') {
+        inputs.push(this.parameter('', type.key));
+        type = type.value;
+      } else {
+        inputs.push(this.parameter('', { kind: 'uint', bits: 256 }));
+        type = type.element;
+      }
+    }
+
+    let outputs: AbiParameter[];
+    const struct =
+      type.kind === 'struct' ? this.model.structs.get(type.name) : undefined;
+    if (struct) {
+      // Struct getters return the members, leaving out arrays
+      outputs = struct.fields
+        .filter((field) => !isArrayType(field.type))
+        .map((field) => this.field(field));
+    } else {
+      outputs = [this.parameter('', type)];
+    }
+
+    this.items.push({
+      type: 'function',
+      name:
+        this.target === 'solidity'
+          ? (this.memberNames.get(`var:${variable.name}`) ?? variable.name)
+          : variable.name,
+      inputs,
+      outputs,
+      stateMutability: 'view',
+    });
+  }
+
+  /** A public function plus one overload per omitted default argument */
+  private function(fn: FunctionModel): void {
+    const name =
+      this.target === 'solidity'
+        ? (this.memberNames.get(`fn:${fn.name}`) ?? fn.name)
+        : fn.name;
+    const inputs = this.inputs(fn);
+    const outputs = this.outputs(fn.returns);
+    const firstDefault = fn.params.findIndex((param) => param.default);
+    const counts = [fn.params.length];
+    if (firstDefault >= 0) {
+      for (let count = firstDefault; count < fn.params.length; count++) {
+        counts.push(count);
+      }
+    }
+    for (const count of counts) {
+      this.items.push({
+        type: 'function',
+        name,
+        inputs: inputs.slice(0, count),
+        outputs,
+        stateMutability: fn.mutability,
+      });
+    }
+  }
+
+  private inputs(fn: FunctionModel): AbiParameter[] {
+    const names =
+      this.target === 'solidity'
+        ? planLocals(this.model, fn, SOLIDITY_RESERVED, this.takenNames).names
+        : undefined;
+    return fn.params.map((param) =>
+      this.parameter(names?.get(param.name) ?? param.name, param.type)
+    );
+  }
+
+  private outputs(returns: ContractType | undefined): AbiParameter[] {
+    if (!returns) return [];
+    const types = returns.kind === 'tuple' ? returns.elements : [returns];
+    return types.map((type) => this.parameter('', type));
+  }
+
+  private field(field: FieldModel): AbiParameter {
+    return this.parameter(field.name, field.type);
+  }
+
+  private parameter(name: string, type: ContractType): AbiParameter {
+    const { abiType, internalType, components } = this.describe(type);
+    return {
+      name,
+      type: abiType,
+      internalType,
+      ...(components ? { components } : {}),
+    };
+  }
+
+  private describe(type: ContractType): {
+    abiType: string;
+    internalType: string;
+    components?: AbiParameter[];
+  } {
+    const { model } = this;
+    switch (type.kind) {
+      case 'uint':
+        return simple(`uint${type.bits}`);
+      case 'int':
+        return simple(`int${type.bits}`);
+      case 'address':
+      case 'bool':
+        return simple(type.kind);
+      case 'fixedBytes':
+        return simple(`bytes${type.size}`);
+      case 'bytes':
+      case 'string':
+        return simple(type.kind);
+      case 'enum':
+        return {
+          abiType: 'uint8',
+          internalType: `enum ${model.name}.${type.name}`,
+        };
+      case 'interface':
+        return { abiType: 'address', internalType: `contract ${type.name}` };
+      case 'struct': {
+        const struct = model.structs.get(type.name);
+        return {
+          abiType: 'tuple',
+          internalType: `struct ${model.name}.${type.name}`,
+          components: struct?.fields.map((field) => this.field(field)) ?? [],
+        };
+      }
+      case 'dynArray':
+      case 'array': {
+        const suffix = type.kind === 'array' ? `[${type.length}]` : '[]';
+        const element = this.describe(type.element);
+        return {
+          abiType: element.abiType + suffix,
+          internalType: element.internalType + suffix,
+          components: element.components,
+        };
+      }
+      default:
+        // Mappings and tuples never reach the ABI; unknown types are
+        // reported by type checking
+        return simple('uint256');
+    }
+  }
+}
+
+function simple(type: string): { abiType: string; internalType: string } {
+  return { abiType: type, internalType: type };
+}
+
+function compareItems(a: AbiItem, b: AbiItem): number {
+  const byType = TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type);
+  if (byType !== 0) return byType;
+  const nameA = 'name' in a ? a.name : '';
+  const nameB = 'name' in b ? b.name : '';
+  if (nameA !== nameB) return nameA < nameB ? -1 : 1;
+  const inputsA = 'inputs' in a ? a.inputs.length : 0;
+  const inputsB = 'inputs' in b ? b.inputs.length : 0;
+  return inputsA - inputsB;
+}
@@ -0,0 +1,395 @@
+// Typed TypeScript bindings generation from a JSON ABI
+import { AbiItem, AbiParameter } from './abi';
+
+export interface BindingsOptions {
+  /** Name of the generated class */
+  contractName: string;
+  /** Module the bindings import the SDK from */
+  sdkImport?: string;
+}
+
+type FunctionItem = Extract<AbiItem, { type: 'function' }>;
+type EventItem = Extract<AbiItem, { type: 'event' }>;
+
+// Words that cannot name a parameter
+const RESERVED = new Set([
+  'arguments',
+  'await',
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'debugger',
+  'default',
+  'delete',
+  'do',
+  'else',
+  'enum',
+  'eval',
+  'export',
+  'extends',
+  'false',
+  'finally',
+  'for',
+  'function',
+  'if',
+  'implements',
+  'import',
+  'in',
+  'instanceof',
+  'interface',
+  'let',
+  'new',
+  'null',
+  'options',
+  'package',
+  'private',
+  'protected',
+  'public',
+  'return',
+  'static',
+  'super',
+  'switch',
+  'this',
+  'throw',
+  'true',
+  'try',
+  'typeof',
+  'var',
+  'void',
+  'while',
+  'with',
+  'yield',
+]);
+
+// Members of the generated class that functions must not shadow
+const CLASS_MEMBERS = new Set(['contract', 'constructor', 'abi']);
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Generate a TypeScript module with a typed wrapper class around
+ * ArbitPyContract: one method per ABI function, with Solidity types mapped
+ * to TypeScript (`uint256` to `bigint`, tuples to interfaces), and typed
+ * `query<Event>` / `on<Event>` methods for every event.
+ */
+export function generateBindings(
+  abi: readonly AbiItem[],
+  options: BindingsOptions
+): string {
+  return new BindingsGenerator(abi, options).generate();
+}
+
+function pascalCase(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+}
+
+function parameterName(param: AbiParameter, index: number): string {
+  if (!param.name || !IDENTIFIER.test(param.name)) return `arg${index}`;
+  return RESERVED.has(param.name) ? `${param.name}_` : param.name;
+}
+
+function formatParams(params: AbiParameter[]): string {
+  return params
+    .map(
+      (param) => `${canonicalType(param)}${param.name ? ` ${param.name}` : ''}`
+    )
+    .join(', ');
+}
+
+function canonicalType(param: AbiParameter): string {
+  if (!param.type.startsWith('tuple')) return param.type;
+  const components = (param.components ?? []).map(canonicalType).join(',');
+  return `(${components})${param.type.slice('tuple'.length)}`;
+}
+
+function signatureOf(item: { name: string; inputs: AbiParameter[] }): string {
+  return `${item.name}(${item.inputs.map(canonicalType).join(',')})`;
+}
+
+// Event arguments whose value is replaced by its hash in the topics
+function isHashedTopic(param: AbiParameter): boolean {
+  return (
+    param.type === 'string' ||
+    param.type === 'bytes' ||
+    param.type.startsWith('tuple') ||
+    param.type.endsWith(']')
+  );
+}
+
+class BindingsGenerator {
+  private readonly lines: string[] = [];
+  private readonly structs = new Map<string, string>();
+  private readonly structLines: string[] = [];
+  private readonly className: string;
+  private readonly sdkImport: string;
+
+  constructor(
+    private readonly abi: readonly AbiItem[],
+    options: BindingsOptions
+  ) {
+    this.className = pascalCase(options.contractName) || 'Contract';
+    this.sdkImport = options.sdkImport ?? '@arbitpy/sdk';
+  }
+
+  generate(): string {
+    const functions = this.abi.filter(
+      (item): item is FunctionItem => item.type === 'function'
+    );
+    const events = this.abi.filter(
+      (item): item is EventItem => item.type === 'event'
+    );
+
+    const body: string[] = [];
+    const eventTypes: string[] = [];
+    const memberNames = this.functionMemberNames(functions);
+    for (const fn of functions) {
+      body.push(...this.functionMethod(fn, memberNames.get(fn)!));
+    }
+    const eventNames = this.eventNames(events);
+    for (const event of events) {
+      const name = eventNames.get(event)!;
+      eventTypes.push(...this.eventTypes(event, name));
+      body.push(...this.eventMethods(event, name));
+    }
+
+    const { className } = this;
+    const abiName = `${className}Abi`;
+    this.lines.push(
+      `// Generated by ArbitPy from the ${className} ABI. Do not edit.`,
+      'import {',
+      '  ArbitPyContract,',
+      '  type ArbitPyConfig,',
+      '  type ContractEvent,',
+      '  type ContractInteractionOptions,',
+      '  type ContractTransaction,',
+      `} from '${this.sdkImport}';`,
+      '',
+      '/** An event with its arguments decoded */',
+      "export type TypedContractEvent<T> = Omit<ContractEvent, 'args'> & {",
+      '  args: T;',
+      '};',
+      '',
+      ...this.structLines,
+      ...eventTypes,
+      `export const ${abiName} = ${JSON.stringify(this.abi, null, 2)};`,
+      '',
+      `export class ${className} {`,
+      `  readonly abi = ${abiName};`,
+      '',
+      '  constructor(readonly contract: ArbitPyContract) {}',
+      '',
+      `  /** Bind to the ${className} deployed at \`address\` */`,
+      '  static connect(',
+      '    address: string,',
+      '    network: string,',
+      '    config?: ArbitPyConfig',
+      `  ): ${className} {`,
+      `    return new ${className}(`,
+      `      new ArbitPyContract(address, ${abiName}, network, config)`,
+      '    );',
+      '  }',
+      ...body,
+      '}',
+      ''
+    );
+    return this.lines.join('\n');
+  }
+
+  // Overloads and names that clash with class members are called by signature
+  private functionMemberNames(
+    functions: FunctionItem[]
+  ): Map<FunctionItem, string> {
+    const names = new Map<FunctionItem, string>();
+    for (const fn of functions) {
+      const overloaded = functions.some(
+        (other) => other !== fn && other.name === fn.name
+      );
+      const name =
+        overloaded || CLASS_MEMBERS.has(fn.name) || !IDENTIFIER.test(fn.name)
+          ? `'${signatureOf(fn)}'`
+          : fn.name;
+      names.set(fn, name);
+    }
+    return names;
+  }
+
+  // Overloaded events are numbered in ABI order
+  private eventNames(events: EventItem[]): Map<EventItem, string> {
+    const names = new Map<EventItem, string>();
+    const counts = new Map<string, number>();
+    for (const event of events) {
+      const count = (counts.get(event.name) ?? 0) + 1;
+      counts.set(event.name, count);
+      const base = pascalCase(event.name);
+      names.set(event, count === 1 ? base : `${base}${count}`);
+    }
+    return names;
+  }
+
+  private functionMethod(fn: FunctionItem, memberName: string): string[] {
+    const params = fn.inputs.map((input, index) => ({
+      name: parameterName(input, index),
+      type: this.tsType(input, `${fn.name}_${input.name || index}`),
+    }));
+    const args = params.map(({ name }) => name);
+    const readOnly =
+      fn.stateMutability === 'view' || fn.stateMutability === 'pure';
+    const returns = fn.outputs.length
+      ? ` returns (${formatParams(fn.outputs)})`
+      : '';
+    const result = readOnly ? this.returnType(fn) : 'ContractTransaction';
+    const method = memberName.startsWith("'")
+      ? `'${signatureOf(fn)}'`
+      : `'${fn.name}'`;
+
+    return [
+      '',
+      `  /** \`${fn.name}(${formatParams(fn.inputs)}) ${fn.stateMutability}${returns}\` */`,
+      ...(params.length
+        ? [
+            `  ${memberName}(`,
+            ...params.map(({ name, type }) => `    ${name}: ${type},`),
+            '    options?: ContractInteractionOptions',
+            `  ): Promise<${result}> {`,
+          ]
+        : [
+            `  ${memberName}(options?: ContractInteractionOptions): Promise<${result}> {`,
+          ]),
+      `    return this.contract.${readOnly ? 'call' : 'send'}(${method}, [${args.join(', ')}], options);`,
+      '  }',
+    ];
+  }
+
+  private returnType(fn: FunctionItem): string {
+    const types = fn.outputs.map((output, index) =>
+      this.tsType(output, `${fn.name}_${output.name || `output${index}`}`)
+    );
+    if (types.length === 0) return 'void';
+    if (types.length === 1) return types[0];
+    const labelled = fn.outputs.every(
+      (output) => output.name && IDENTIFIER.test(output.name)
+    );
+    const elements = types.map((type, index) =>
+      labelled ? `${fn.outputs[index].name}: ${type}` : type
+    );
+    return `[${elements.join(', ')}]`;
+  }
+
+  private eventTypes(event: EventItem, name: string): string[] {
+    const fields = event.inputs.map((input, index) => {
+      const type =
+        input.indexed && isHashedTopic(input)
+          ? '{ hash: string }'
+          : this.tsType(input, `${event.name}_${input.name || index}`);
+      return `  ${parameterName(input, index)}: ${type};`;
+    });
+    const filters = event.inputs
+      .map((input, index) => ({ input, index }))
+      .filter(({ input }) => input.indexed)
+      .map(
+        ({ input, index }) =>
+          `  ${parameterName(input, index)}?: ${this.tsType(input, `${event.name}_${input.name || index}`)} | null;`
+      );
+    return [
+      `/** Arguments of \`${event.name}(${formatParams(event.inputs)})\` */`,
+      `export interface ${name}EventArgs {`,
+      ...fields,
+      '}',
+      '',
+      `/** Indexed arguments to filter \`${event.name}\` events by; null matches any */`,
+      `export interface ${name}EventFilter {`,
+      ...filters,
+      '}',
+      '',
+    ];
+  }
+
+  private eventMethods(event: EventItem, name: string): string[] {
+    const eventName = signatureOf(event);
+    // Every indexed argument in order, so the filter lines up with the topics
+    const topics = event.inputs
+      .map((input, index) => ({ input, index }))
+      .filter(({ input }) => input.indexed)
+      .map(({ input, index }) => {
+        const key = parameterName(input, index);
+        return `        ${key}: filter.${key} ?? null,`;
+      });
+    const typedEvent = `TypedContractEvent<${name}EventArgs>`;
+
+    return [
+      '',
+      `  /** Past \`${event.name}\` events matching \`filter\` */`,
+      `  async query${name}(`,
+      `    filter: ${name}EventFilter = {},`,
+      '    fromBlock = 0,',
+      "    toBlock: number | 'latest' = 'latest'",
+      `  ): Promise<${typedEvent}[]> {`,
+      '    const events = await this.contract.getPastEvents(',
+      `      '${eventName}',`,
+      '      fromBlock,',
+      '      toBlock,',
+      '      {',
+      ...topics,
+      '      }',
+      '    );',
+      `    return events as ${typedEvent}[];`,
+      '  }',
+      '',
+      `  /** Call \`callback\` for every new \`${event.name}\` event */`,
+      `  on${name}(callback: (event: ${typedEvent}) => void): Promise<void> {`,
+      `    return this.contract.addEventListener('${eventName}', (event) =>`,
+      `      callback(event as ${typedEvent})`,
+      '    );',
+      '  }',
+    ];
+  }
+
+  private tsType(param: AbiParameter, context: string): string {
+    const array = /^(.*)\[(\d*)\]$/.exec(param.type);
+    if (array) {
+      const inner = this.tsType({ ...param, type: array[1] }, context);
+      return `${inner}[]`;
+    }
+    if (param.type === 'tuple') return this.structType(param, context);
+    if (/^u?int\d*$/.test(param.type)) return 'bigint';
+    if (param.type === 'bool') return 'boolean';
+    if (
+      param.type === 'address' ||
+      param.type === 'string' ||
+      param.type === 'function' ||
+      /^bytes\d*$/.test(param.type)
+    ) {
+      return 'string';
+    }
+    return 'unknown';
+  }
+
+  // Tuples become interfaces named after their Solidity struct
+  private structType(param: AbiParameter, context: string): string {
+    const struct = /^struct\s+(?:[\w$]+\.)?([\w$]+)/.exec(
+      param.internalType ?? ''
+    );
+    const base = pascalCase(struct ? struct[1] : `${context}_struct`);
+    const fields = (param.components ?? []).map(
+      (component, index) =>
+        `  ${parameterName(component, index)}: ${this.tsType(component, `${base}_${component.name || index}`)};`
+    );
+    const shape = fields.join('\n');
+
+    let name = base;
+    for (let n = 2; this.structs.has(name); n++) {
+      if (this.structs.get(name) === shape) return name;
+      name = `${base}${n}`;
+    }
+    this.structs.set(name, shape);
+    this.structLines.push(`export interface ${name} {`, ...fields, '}', '');
+    return name;
+  }
+}
@@ -0,0 +1,163 @@
+// ArbitPy Code Generation
+import { CompilationError, CompilationWarning, SourceMap } from '../types';
+import { parseModule } from '../parser/parser';
+import { ParseError } from '../parser/errors';
+import { buildContractModel, ContractModel } from '../semantic/model';
+import { checkContract } from '../semantic/checker';
+import { ImportOptions, resolveImports } from '../semantic/imports';
+import { generateSolidity } from './solidity';
+import { generateStylus } from './stylus';
+import { AbiItem, generateAbi } from './abi';
+import { StorageEntry } from './storage';
+
+export interface TranspileOptions extends ImportOptions {
+  /** Contract name for module-style sources; defaults to the class name */
+  contractName?: string;
+  /**
+   * Solidity only: build the implementation of an ERC-1967 proxy, with a
+   * once-only `initialize` in place of the constructor
+   */
+  upgradeable?: boolean;
+}
+
+export interface TranspileResult {
+  success: boolean;
+  /** Generated source, present when there are no errors */
+  output?: string;
+  /** Every file of a generated Rust crate, keyed by path */
+  files?: Record<string, string>;
+  /** JSON ABI of the generated contract, present when there are no errors */
+  abi?: AbiItem[];
+  /** Line mapping between the source and `output` */
+  sourceMap?: SourceMap;
+  /** Slot and offset of each state variable of the generated Solidity */
+  storageLayout?: StorageEntry[];
+  model?: ContractModel;
+  errors: CompilationError[];
+  warnings: CompilationWarning[];
+}
+
+export interface TypeCheckResult {
+  success: boolean;
+  model?: ContractModel;
+  errors: CompilationError[];
+  warnings: CompilationWarning[];
+}
+
+/**
+ * Parse, model and type-check contract source without generating code.
+ * Diagnostics carry the line/column span of the offending node, and the
+ * `file` it is in when that is an imported project file.
+ */
+export function typeCheck(
+  source: string,
+  options: TranspileOptions = {}
+): TypeCheckResult {
+  let model: ContractModel;
+  try {
+    const resolved = resolveImports(parseModule(source), options);
+    model = buildContractModel(resolved.module, options);
+    model.errors.push(...resolved.errors);
+  } catch (error) {
+    if (error instanceof ParseError) {
+      return {
+        success: false,
+        errors: [error.toCompilationError()],
+        warnings: [],
+      };
+    }
+    throw error;
+  }
+
+  if (model.errors.length === 0) checkContract(model);
+
+  return {
+    success: model.errors.length === 0,
+    model,
+    errors: sortByPosition(model.errors),
+    warnings: sortByPosition(model.warnings),
+  };
+}
+
+/**
+ * Transpile Python-like contract source to Solidity without a backend.
+ */
+export function transpileToSolidity(
+  source: string,
+  options: TranspileOptions = {}
+): TranspileResult {
+  const checked = typeCheck(source, options);
+  const { model } = checked;
+  if (!checked.success || !model) return checked;
+
+  // Code generation reports constructs it cannot translate on the model
+  const { upgradeable } = options;
+  const generated = generateSolidity(model, { upgradeable });
+  const success = model.errors.length === 0;
+
+  return {
+    success,
+    output: success ? generated.code : undefined,
+    sourceMap: success ? generated.sourceMap : undefined,
+    storageLayout: success ? generated.storageLayout : undefined,
+    abi: success ? generateAbi(model, 'solidity', { upgradeable }) : undefined,
+    model,
+    errors: sortByPosition(model.errors),
+    warnings: sortByPosition(model.warnings),
+  };
+}
+
+/**
+ * Transpile Python-like contract source to a Stylus Rust crate. `output`
+ * is `src/lib.rs`; `files` also holds Cargo.toml and the ABI exporter.
+ */
+export function transpileToRust(
+  source: string,
+  options: TranspileOptions = {}
+): TranspileResult {
+  const checked = typeCheck(source, options);
+  const { model } = checked;
+  if (!checked.success || !model) return checked;
+
+  const crate = generateStylus(model);
+  const success = model.errors.length === 0;
+
+  return {
+    success,
+    output: success ? crate.files['src/lib.rs'] : undefined,
+    files: success ? crate.files : undefined,
+    sourceMap: success ? crate.sourceMap : undefined,
+    abi: success ? generateAbi(model, 'rust') : undefined,
+    model,
+    errors: sortByPosition(model.errors),
+    warnings: sortByPosition(model.warnings),
+  };
+}
+
+/** Diagnostics of the compiled file first, then those of imported files */
+function sortByPosition<
+  T extends { file?: string; line?: number; column?: number },
+>(diagnostics: T[]): T[] {
+  return [...diagnostics].sort(
+    (a, b) =>
+      (a.file ?? '').localeCompare(b.file ?? '') ||
+      (a.line ?? 0) - (b.line ?? 0) ||
+      (a.column ?? 0) - (b.column ?? 0)
+  );
+}
+
+export { generateSolidity, SOLIDITY_VERSION } from './solidity';
+export type { GeneratedSolidity, SolidityOptions } from './solidity';
+export { diffStorageLayouts } from './storage';
+export type { StorageChange, StorageEntry, StorageLayoutDiff } from './storage';
+export { generateStylus, STYLUS_SDK_VERSION } from './stylus';
+export type { StylusCrate } from './stylus';
+export { generateAbi } from './abi';
+export { generateBindings } from './bindings';
+export type { BindingsOptions } from './bindings';
+export { generatedLinesFor, sourceLineFor, mapToSource } from './sourcemap';
+export type { GeneratedSource } from './sourcemap';
+export type { SourceMap } from '../types';
+export { resolveImports } from '../semantic/imports';
+export type { ImportOptions, ResolvedModule } from '../semantic/imports';
+export type { AbiItem, AbiParameter, AbiTarget } from './abi';
@@ -0,0 +1,179 @@
+// Local variable placement shared by the code generators
+import * as ast from '../parser/ast';
+import {
+  ContractModel,
+  FunctionModel,
+  forEachExpression,
+  forEachStatement,
+  walkFunction,
+} from '../semantic/model';
+import { TypeEnvironment } from '../semantic/infer';
+
+export interface LocalPlan {
+  env: TypeEnvironment;
+  /** Dialect name -> target identifier for parameters and locals */
+  names: Map<string, string>;
+  /** Locals to declare immediately before a statement */
+  declareBefore: Map<ast.Statement, string[]>;
+  /** Statements that declare their (single) target inline */
+  declareInline: Set<ast.Statement>;
+}
+
+/**
+ * Python locals are function-scoped while Solidity and Rust locals are
+ * block-scoped. Each local is declared in the innermost block that
+ * contains every use, right before the first statement that uses it.
+ * Names that are reserved or already taken get a trailing underscore.
+ */
+export function planLocals(
+  model: ContractModel,
+  fn: FunctionModel,
+  reserved: ReadonlySet<string>,
+  taken: ReadonlySet<string>
+): LocalPlan {
+  const names = new Map<string, string>();
+  const used = new Set(taken);
+
+  const declareName = (name: string) => {
+    if (names.has(name)) return names.get(name)!;
+    let targetName = name;
+    while (reserved.has(targetName) || used.has(targetName)) {
+      targetName += '_';
+    }
+    used.add(targetName);
+    names.set(name, targetName);
+    return targetName;
+  };
+
+  for (const param of fn.params) declareName(param.name);
+
+  let env: TypeEnvironment = { model, locals: new Map() };
+  walkFunction(model, fn, (_statement, current) => {
+    env = current;
+  });
+  if (fn.node.body.length === 0) {
+    env = { model, locals: new Map(fn.params.map((p) => [p.name, p.type])) };
+  }
+
+  type Site = Array<{ block: ast.Statement[]; statement: ast.Statement }>;
+  const sites = new Map<string, Site[]>();
+  const params = new Set(fn.params.map((p) => p.name));
+  const loopTargets = new Set<string>();
+  const assigned = new Set<string>();
+  forEachStatement(fn.node.body, (statement) => {
+    for (const name of assignedNames(statement)) assigned.add(name);
+  });
+
+  const record = (name: string, chain: Site) => {
+    if (params.has(name) || !assigned.has(name) || !env.locals.has(name)) {
+      return;
+    }
+    if (!sites.has(name)) sites.set(name, []);
+    sites.get(name)!.push(chain);
+  };
+
+  const visitIf = (statement: ast.If, here: Site) => {
+    visit(statement.body, here);
+    const [elif] = statement.orelse;
+    // An elif shares the position of its parent `if` in the output
+    if (statement.orelse.length === 1 && elif.kind === 'If') {
+      for (const name of referencedNames(elif)) record(name, here);
+      visitIf(elif, here);
+    } else {
+      visit(statement.orelse, here);
+    }
+  };
+
+  const visit = (block: ast.Statement[], chain: Site) => {
+    for (const statement of block) {
+      const here = [...chain, { block, statement }];
+      for (const name of referencedNames(statement)) record(name, here);
+      switch (statement.kind) {
+        case 'If':
+          visitIf(statement, here);
+          break;
+        case 'For':
+          loopTargets.add(statement.target.id);
+          visit(statement.body, here);
+          break;
+        case 'While':
+          visit(statement.body, here);
+          break;
+      }
+    }
+  };
+  visit(fn.node.body, []);
+
+  const declareBefore = new Map<ast.Statement, string[]>();
+  const declareInline = new Set<ast.Statement>();
+
+  for (const [name, chains] of sites) {
+    declareName(name);
+    // Longest common prefix of the block chains
+    let depth = 0;
+    const first = chains[0];
+    while (
+      depth < first.length &&
+      chains.every((chain) => chain[depth]?.block === first[depth].block)
+    ) {
+      depth++;
+    }
+    const anchor = first[depth - 1];
+    if (!anchor) continue;
+
+    const declaring = anchor.statement;
+    const inlineTarget = simpleAssignmentTarget(declaring);
+    if (
+      first.length === depth &&
+      inlineTarget === name &&
+      !declareInline.has(declaring)
+    ) {
+      declareInline.add(declaring);
+      continue;
+    }
+    if (!declareBefore.has(declaring)) declareBefore.set(declaring, []);
+    declareBefore.get(declaring)!.push(name);
+  }
+
+  // Loop targets that never escape their loop are declared in the header
+  for (const name of loopTargets) declareName(name);
+
+  return { env, names, declareBefore, declareInline };
+}
+
+/** Name assigned by a plain `x = ...` or `x: T = ...` statement */
+function simpleAssignmentTarget(statement: ast.Statement): string | undefined {
+  if (statement.kind === 'Assign' && statement.target.kind === 'Name') {
+    return statement.target.id;
+  }
+  if (statement.kind === 'AnnAssign') return statement.target.id;
+  return undefined;
+}
+
+/** Local names assigned by a statement, excluding nested blocks */
+export function assignedNames(statement: ast.Statement): string[] {
+  switch (statement.kind) {
+    case 'Assign':
+      if (statement.target.kind === 'Name') return [statement.target.id];
+      if (statement.target.kind === 'TupleExpr') {
+        return statement.target.elements
+          .filter((element): element is ast.Name => element.kind === 'Name')
+          .map((element) => element.id);
+      }
+      return [];
+    case 'AnnAssign':
+      return [statement.target.id];
+    default:
+      return [];
+  }
+}
+
+/** Local names read or written by a statement, excluding nested blocks */
+function referencedNames(statement: ast.Statement): Set<string> {
+  const names = new Set<string>();
+  if (statement.kind === 'AnnAssign') names.add(statement.target.id);
+  forEachExpression([statement], (expression) => {
+    if (expression.kind === 'Name') names.add(expression.id);
+  });
+  return names;
+}
@@ -0,0 +1,2431 @@
+// Solidity code generation from the contract model
+import * as ast from '../parser/ast';
+import {
+  ContractModel,
+  FunctionModel,
+  StateVariable,
+  forEachExpression,
+  forEachStatement,
+  isStateAccess,
+  isStateRooted,
+  loopVariableType,
+  raisedError,
+  reportError,
+  reportWarning,
+} from '../semantic/model';
+import {
+  TypeEnvironment,
+  inferType,
+  isIntegerLiteral,
+} from '../semantic/infer';
+import {
+  BOOL,
+  ContractType,
+  UINT256,
+  UNKNOWN,
+  formatType,
+  isInteger,
+  isReferenceType,
+  primitiveType,
+  resolveTypeAnnotation,
+} from '../semantic/types';
+import { LocalPlan, planLocals } from './locals';
+import { StorageEntry, StorageVariable, layoutStorage } from './storage';
+import {
+  GeneratedSource,
+  headerRange,
+  joinLines,
+  OutputLine,
+  SourceRange,
+} from './sourcemap';
+
+export const SOLIDITY_VERSION = '^0.8.19';
+
+const INDENT = '    ';
+
+/** Solidity keywords, reserved words and globals that cannot be identifiers */
+export const SOLIDITY_RESERVED = new Set([
+  'abstract',
+  'address',
+  'after',
+  'alias',
+  'anonymous',
+  'apply',
+  'as',
+  'assembly',
+  'auto',
+  'block',
+  'bool',
+  'break',
+  'byte',
+  'bytes',
+  'calldata',
+  'case',
+  'catch',
+  'constant',
+  'constructor',
+  'continue',
+  'contract',
+  'copyof',
+  'days',
+  'default',
+  'define',
+  'delete',
+  'do',
+  'else',
+  'emit',
+  'enum',
+  'error',
+  'ether',
+  'event',
+  'external',
+  'fallback',
+  'false',
+  'final',
+  'for',
+  'function',
+  'gwei',
+  'hours',
+  'if',
+  'immutable',
+  'implements',
+  'import',
+  'in',
+  'indexed',
+  'inline',
+  'int',
+  'interface',
+  'internal',
+  'is',
+  'let',
+  'library',
+  'macro',
+  'mapping',
+  'match',
+  'memory',
+  'minutes',
+  'modifier',
+  'msg',
+  'mutable',
+  'new',
+  'null',
+  'of',
+  'override',
+  'partial',
+  'payable',
+  'pragma',
+  'private',
+  'promise',
+  'public',
+  'pure',
+  'receive',
+  'reference',
+  'relocatable',
+  'return',
+  'returns',
+  'revert',
+  'sealed',
+  'seconds',
+  'selfdestruct',
+  'sizeof',
+  'static',
+  'storage',
+  'string',
+  'struct',
+  'super',
+  'supports',
+  'switch',
+  'this',
+  'true',
+  'try',
+  'tx',
+  'type',
+  'typedef',
+  'typeof',
+  'uint',
+  'unchecked',
+  'using',
+  'var',
+  'view',
+  'virtual',
+  'weeks',
+  'wei',
+  'while',
+  'years',
+  'abi',
+  'now',
+]);
+
+/** Operator precedence, higher binds tighter */
+const enum Precedence {
+  Ternary = 3,
+  Or = 4,
+  And = 5,
+  Equality = 6,
+  Relational = 7,
+  BitOr = 8,
+  BitXor = 9,
+  BitAnd = 10,
+  Shift = 11,
+  Additive = 12,
+  Multiplicative = 13,
+  Exponent = 14,
+  Unary = 15,
+  Postfix = 16,
+}
+
+const BINARY_OPERATORS: Record<ast.BinaryOperator, [string, Precedence]> = {
+  '+': ['+', Precedence.Additive],
+  '-': ['-', Precedence.Additive],
+  '*': ['*', Precedence.Multiplicative],
+  '/': ['/', Precedence.Multiplicative],
+  '//': ['/', Precedence.Multiplicative],
+  '%': ['%', Precedence.Multiplicative],
+  '**': ['**', Precedence.Exponent],
+  '&': ['&', Precedence.BitAnd],
+  '|': ['|', Precedence.BitOr],
+  '^': ['^', Precedence.BitXor],
+  '<<': ['<<', Precedence.Shift],
+  '>>': ['>>', Precedence.Shift],
+};
+
+const COMPARE_OPERATORS: Partial<
+  Record<ast.CompareOperator, [string, Precedence]>
+> = {
+  '==': ['==', Precedence.Equality],
+  '!=': ['!=', Precedence.Equality],
+  is: ['==', Precedence.Equality],
+  'is not': ['!=', Precedence.Equality],
+  '<': ['<', Precedence.Relational],
+  '<=': ['<=', Precedence.Relational],
+  '>': ['>', Precedence.Relational],
+  '>=': ['>=', Precedence.Relational],
+};
+
+const ENVIRONMENT_ALIASES: Record<string, string> = {
+  'chain.id': 'block.chainid',
+};
+
+const WEI_UNITS: Record<string, string> = {
+  wei: 'wei',
+  gwei: 'gwei',
+  ether: 'ether',
+};
+
+interface Code {
+  code: string;
+  prec: number;
+}
+
+interface FunctionScope extends LocalPlan {
+  /** Undefined while generating state variable initialisers */
+  fn?: FunctionModel;
+}
+
+/** Generated Solidity with the storage layout of the contract */
+export interface GeneratedSolidity extends GeneratedSource {
+  storageLayout: StorageEntry[];
+}
+
+export interface SolidityOptions {
+  /**
+   * Build an implementation for an ERC-1967 proxy. The proxy never runs
+   * the constructor, so `__init__` and initialised state become an
+   * `initialize` function that can only be called once.
+   */
+  upgradeable?: boolean;
+}
+
+/** Members generated for upgradeable builds */
+const UPGRADEABLE_MEMBERS = ['initialize', 'initializer', '_INITIALIZED_SLOT'];
+
+/**
+ * Generate Solidity source for a contract model, with a line mapping back
+ * to the Python source. Constructs that have no Solidity equivalent are
+ * reported on the model and skipped.
+ */
+export function generateSolidity(
+  model: ContractModel,
+  options: SolidityOptions = {}
+): GeneratedSolidity {
+  return new SolidityGenerator(model, options).generate();
+}
+
+/**
+ * Contract members share one namespace in Solidity, so a state variable
+ * cannot share its name with a function the way it can in Python. Returns
+ * the Solidity identifier of every function (`fn:name`) and state variable
+ * (`var:name`), plus every name in use at contract level.
+ */
+export function solidityMemberNames(
+  model: ContractModel,
+  onRename?: (node: ast.Node, message: string) => void,
+  { upgradeable = false }: SolidityOptions = {}
+): { names: Map<string, string>; taken: Set<string> } {
+  const names = new Map<string, string>();
+  const taken = new Set<string>([
+    ...model.interfaces.keys(),
+    ...model.structs.keys(),
+    ...model.enums.keys(),
+    ...model.events.keys(),
+    ...model.customErrors.keys(),
+    model.name,
+    ...(upgradeable ? UPGRADEABLE_MEMBERS : []),
+  ]);
+  const reserve = (name: string, node: ast.Node, what: string) => {
+    let solidityName = name;
+    while (SOLIDITY_RESERVED.has(solidityName) || taken.has(solidityName)) {
+      solidityName += '_';
+    }
+    if (solidityName !== name) {
+      onRename?.(
+        node,
+        `${what} '${name}' is renamed to '${solidityName}' in Solidity`
+      );
+    }
+    taken.add(solidityName);
+    return solidityName;
+  };
+
+  for (const fn of model.functions.values()) {
+    names.set(`fn:${fn.name}`, reserve(fn.name, fn.node, 'Function'));
+  }
+  for (const variable of model.stateVariables.values()) {
+    names.set(
+      `var:${variable.name}`,
+      reserve(variable.name, variable.node, 'State variable')
+    );
+  }
+  return { names, taken };
+}
+
+class SolidityGenerator {
+  private lines: OutputLine[] = [];
+  private depth = 0;
+  /** Python lines of the construct being translated */
+  private origin?: SourceRange;
+  private helpers = new Map<string, string[]>();
+  private usesReentrancyGuard = false;
+  private scope?: FunctionScope;
+  /** State HashMaps that are iterated or membership-tested */
+  private readonly trackedMaps = new Set<string>();
+
+  /** Dialect name -> Solidity identifier for contract members */
+  private readonly memberNames = new Map<string, string>();
+  private readonly takenNames = new Set<string>();
+
+  constructor(
+    private readonly model: ContractModel,
+    private readonly options: SolidityOptions
+  ) {}
+
+  generate(): GeneratedSolidity {
+    const { model } = this;
+    this.reserveMemberNames();
+    this.findTrackedMaps();
+
+    this.line('// SPDX-License-Identifier: MIT');
+    this.line(`pragma solidity ${SOLIDITY_VERSION};`);
+
+    for (const iface of model.interfaces.values()) {
+      this.line();
+      this.emitInterface(iface.name);
+    }
+
+    this.line();
+    this.docstring(model.docstring);
+    this.line(`contract ${model.name} {`);
+    this.depth++;
+
+    const body = this.captureContractBody();
+
+    this.depth--;
+    this.lines.push(...body);
+    this.trimTrailingBlank();
+    this.line('}');
+    return {
+      ...joinLines(this.lines),
+      storageLayout: layoutStorage(model, this.storageVariables()),
+    };
+  }
+
+  /**
+   * Variables taking storage, in the order they are declared above:
+   * the contract's own, then the key lists of tracked maps and the
+   * reentrancy lock
+   */
+  private storageVariables(): StorageVariable[] {
+    const { model } = this;
+    const variables: StorageVariable[] = [];
+    for (const variable of model.stateVariables.values()) {
+      if (variable.constant || variable.immutable) continue;
+      variables.push({
+        name: variable.name,
+        type: variable.type,
+        solidityType: this.typeName(variable.type),
+        generated: false,
+        node: variable.node,
+      });
+    }
+    for (const name of this.trackedMaps) {
+      const type = model.stateVariables.get(name)!.type;
+      if (type.kind !== 'hashmap') continue;
+      const key = this.typeName(type.key);
+      const solidityName = this.stateName(name);
+      variables.push(
+        {
+          name: `_${solidityName}Keys`,
+          type: { kind: 'dynArray', element: type.key },
+          solidityType: `${key}[]`,
+          generated: true,
+        },
+        {
+          name: `_${solidityName}Contains`,
+          type: { kind: 'hashmap', key: type.key, value: BOOL },
+          solidityType: `mapping(${key} => bool)`,
+          generated: true,
+        }
+      );
+    }
+    if (this.usesReentrancyGuard) {
+      variables.push({
+        name: '_reentrancyLock',
+        type: UINT256,
+        solidityType: 'uint256',
+        generated: true,
+      });
+    }
+    return variables;
+  }
+
+  // -------------------------------------------------------------------------
+  // Declarations
+  // -------------------------------------------------------------------------
+
+  private reserveMemberNames(): void {
+    const { model } = this;
+    const { names, taken } = solidityMemberNames(
+      model,
+      (node, message) => reportWarning(model, node, message),
+      this.options
+    );
+    for (const [key, name] of names) this.memberNames.set(key, name);
+    for (const name of taken) this.takenNames.add(name);
+  }
+
+  /**
+   * Mappings cannot be iterated or tested for membership in Solidity.
+   * HashMaps used that way get a key list and a membership mapping that
+   * are kept up to date on every write.
+   */
+  private findTrackedMaps(): void {
+    const { model } = this;
+    const functions = [...model.functions.values()];
+    if (model.init) functions.push(model.init);
+
+    const track = (expression: ast.Expression) => {
+      if (!isStateAccess(expression)) return;
+      const variable = model.stateVariables.get(expression.attr);
+      if (variable?.type.kind !== 'hashmap') return;
+      if (variable.type.value.kind === 'hashmap') {
+        reportError(
+          model,
+          expression,
+          'Only single-key HashMaps can be iterated or tested for membership'
+        );
+        return;
+      }
+      this.trackedMaps.add(expression.attr);
+    };
+
+    for (const fn of functions) {
+      forEachStatement(fn.node.body, (statement) => {
+        if (statement.kind === 'For') track(statement.iter);
+        forEachExpression([statement], (expression) => {
+          if (
+            expression.kind === 'Compare' &&
+            (expression.op === 'in' || expression.op === 'not in')
+          ) {
+            track(expression.right);
+          }
+        });
+      });
+    }
+  }
+
+  /** Record the key of a write into a tracked HashMap */
+  private trackWrite(target: ast.Expression): void {
+    let current = target;
+    while (current.kind === 'Subscript' || current.kind === 'Attribute') {
+      if (
+        current.kind === 'Subscript' &&
+        isStateAccess(current.object) &&
+        this.trackedMaps.has(current.object.attr)
+      ) {
+        const name = this.stateName(current.object.attr);
+        this.line(`_track_${name}(${this.expression(current.index).code});`);
+        return;
+      }
+      current = current.object;
+    }
+  }
+
+  private stateName(name: string): string {
+    return this.memberNames.get(`var:${name}`) ?? name;
+  }
+
+  private functionName(name: string): string {
+    return this.memberNames.get(`fn:${name}`) ?? name;
+  }
+
+  private captureContractBody(): OutputLine[] {
+    const { model } = this;
+    const outer = this.lines;
+    this.lines = [];
+
+    for (const item of model.enums.values()) {
+      this.at(item.node, () => {
+        this.line(`enum ${item.name} {`);
+        this.depth++;
+        item.members.forEach((member, index) =>
+          this.line(member + (index < item.members.length - 1 ? ',' : ''))
+        );
+        this.depth--;
+        this.line('}');
+      });
+      this.line();
+    }
+
+    for (const struct of model.structs.values()) {
+      this.at(struct.node, () => {
+        this.line(`struct ${struct.name} {`);
+        this.depth++;
+        for (const field of struct.fields) {
+          this.at(field.node ?? struct.node, () =>
+            this.line(`${this.typeName(field.type, field.node)} ${field.name};`)
+          );
+        }
+        this.depth--;
+        this.line('}');
+      });
+      this.line();
+    }
+
+    if (model.events.size > 0) {
+      for (const event of model.events.values()) {
+        const fields = event.fields.map(
+          (field) =>
+            `${this.typeName(field.type, event.node)}${field.indexed ? ' indexed' : ''} ${field.name}`
+        );
+        this.at(event.node, () =>
+          this.line(`event ${event.name}(${fields.join(', ')});`)
+        );
+      }
+      this.line();
+    }
+
+    if (model.customErrors.size > 0) {
+      for (const error of model.customErrors.values()) {
+        const fields = error.fields.map(
+          (field) => `${this.typeName(field.type, error.node)} ${field.name}`
+        );
+        this.at(error.node, () =>
+          this.line(`error ${error.name}(${fields.join(', ')});`)
+        );
+      }
+      this.line();
+    }
+
+    const variables = [...model.stateVariables.values()];
+    if (variables.length > 0) {
+      for (const variable of variables) this.emitStateVariable(variable);
+      this.line();
+    }
+
+    for (const name of this.trackedMaps) {
+      const type = model.stateVariables.get(name)!.type;
+      if (type.kind !== 'hashmap') continue;
+      const key = this.typeName(type.key);
+      const solidityName = this.stateName(name);
+      this.line(`${key}[] private _${solidityName}Keys;`);
+      this.line(`mapping(${key} => bool) private _${solidityName}Contains;`);
+      this.addHelper(`_track_${solidityName}`, [
+        `function _track_${solidityName}(${key} key) private {`,
+        `${INDENT}if (!_${solidityName}Contains[key]) {`,
+        `${INDENT}${INDENT}_${solidityName}Contains[key] = true;`,
+        `${INDENT}${INDENT}_${solidityName}Keys.push(key);`,
+        `${INDENT}}`,
+        '}',
+      ]);
+      this.line();
+    }
+
+    const functions = [...model.functions.values()];
+    const bodies: OutputLine[] = [];
+    const functionLines = this.lines;
+
+    // Generate functions first so that guards and helpers are known
+    this.lines = [];
+    if (this.options.upgradeable) {
+      this.emitInitializer();
+      this.line();
+    } else if (model.init) {
+      this.emitFunction(model.init);
+      this.line();
+    }
+    for (const fn of functions) {
+      this.emitFunction(fn);
+      this.line();
+    }
+    bodies.push(...this.lines);
+
+    this.lines = functionLines;
+    if (this.options.upgradeable) this.emitInitializerGuard();
+    if (this.usesReentrancyGuard) {
+      this.line('uint256 private _reentrancyLock;');
+      this.line();
+      this.line('modifier nonReentrant() {');
+      this.depth++;
+      this.line('require(_reentrancyLock == 0, "Reentrant call");');
+      this.line('_reentrancyLock = 1;');
+      this.line('_;');
+      this.line('_reentrancyLock = 0;');
+      this.depth--;
+      this.line('}');
+      this.line();
+    }
+    this.lines.push(...bodies);
+
+    for (const helper of this.helpers.values()) {
+      for (const text of helper) this.line(text);
+      this.line();
+    }
+
+    const body = this.lines;
+    this.lines = outer;
+    return body;
+  }
+
+  private emitInterface(name: string): void {
+    const iface = this.model.interfaces.get(name)!;
+    this.line(`interface ${name} {`);
+    this.depth++;
+    for (const fn of iface.functions.values()) {
+      const params = fn.params.map((param) =>
+        this.parameter(this.typeName(param.type), param.name, 'calldata')
+      );
+      const mutability =
+        fn.mutability === 'nonpayable' ? '' : ` ${fn.mutability}`;
+      const returns = fn.returns
+        ? ` returns (${this.returnList(fn.returns)})`
+        : '';
+      this.line(
+        `function ${fn.name}(${params.join(', ')}) external${mutability}${returns};`
+      );
+    }
+    this.depth--;
+    this.line('}');
+  }
+
+  private emitStateVariable(variable: StateVariable): void {
+    this.at(variable.node, () => this.stateVariable(variable));
+  }
+
+  private stateVariable(variable: StateVariable): void {
+    const type = this.typeName(variable.type, variable.node);
+    const parts = [type];
+    if (variable.public) parts.push('public');
+    if (variable.constant) parts.push('constant');
+    if (variable.immutable) parts.push('immutable');
+    parts.push(this.stateName(variable.name));
+
+    let declaration = parts.join(' ');
+    // Upgradeable builds set state in `initialize`
+    if (
+      variable.value &&
+      !variable.inferred &&
+      (variable.constant || !this.options.upgradeable)
+    ) {
+      declaration += ` = ${this.withoutScope(() =>
+        this.expressionFor(variable.value!, variable.type)
+      )}`;
+    }
+    this.line(`${declaration};`);
+  }
+
+  private withoutScope<T>(callback: () => T): T {
+    const scope = this.scope;
+    this.scope = {
+      env: { model: this.model, locals: new Map() },
+      names: new Map(),
+      declareBefore: new Map(),
+      declareInline: new Set(),
+    };
+    try {
+      return callback();
+    } finally {
+      this.scope = scope;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Functions
+  // -------------------------------------------------------------------------
+
+  private emitFunction(fn: FunctionModel): void {
+    this.at(headerRange(fn.node), () => this.function(fn));
+  }
+
+  private function(fn: FunctionModel): void {
+    const scope = this.planFunction(fn);
+    this.scope = scope;
+
+    this.docstring(fn.node.docstring);
+    const params = fn.params.map((param) =>
+      this.parameter(
+        this.typeName(param.type, param.node),
+        scope.names.get(param.name)!,
+        'memory'
+      )
+    );
+    const mutability = fn.mutability === 'nonpayable' ? [] : [fn.mutability];
+    const modifiers = fn.nonReentrant ? ['nonReentrant'] : [];
+    if (fn.nonReentrant) this.usesReentrancyGuard = true;
+
+    let header: string;
+    if (fn.isConstructor && this.options.upgradeable) {
+      header = [
+        `function initialize(${params.join(', ')}) public`,
+        ...(fn.mutability === 'payable' ? ['payable'] : []),
+        'initializer',
+        ...modifiers,
+      ].join(' ');
+    } else if (fn.isConstructor) {
+      header = [
+        'constructor(' + params.join(', ') + ')',
+        ...(fn.mutability === 'payable' ? ['payable'] : []),
+        ...modifiers,
+      ].join(' ');
+    } else if (fn.isFallback) {
+      header = [
+        'fallback() external',
+        ...(fn.mutability === 'payable' ? ['payable'] : []),
+        ...modifiers,
+      ].join(' ');
+    } else {
+      const returns = fn.returns
+        ? [`returns (${this.returnList(fn.returns)})`]
+        : [];
+      header = [
+        `function ${this.functionName(fn.name)}(${params.join(', ')})`,
+        fn.visibility,
+        ...mutability,
+        ...modifiers,
+        ...returns,
+      ].join(' ');
+    }
+
+    this.line(`${header} {`);
+    const start = this.lines.length;
+    this.depth++;
+    if (fn.isConstructor && this.options.upgradeable) {
+      this.emitStateInitializers();
+    }
+    this.block(fn.node.body);
+    this.depth--;
+    if (this.lines.length === start) {
+      this.lines[start - 1].text += '}';
+    } else {
+      this.line('}');
+    }
+
+    this.emitDefaultOverloads(fn, scope);
+    this.scope = undefined;
+  }
+
+  /**
+   * The constructor only runs for the implementation's own storage, never
+   * for the proxy's. Upgradeable builds turn `__init__` into `initialize`,
+   * emitted even without one so that initialised state is set.
+   */
+  private emitInitializer(): void {
+    const { model } = this;
+    for (const variable of model.stateVariables.values()) {
+      if (variable.immutable) {
+        reportError(
+          model,
+          variable.node,
+          `Immutable '${variable.name}' is set by the constructor, which never runs behind a proxy`
+        );
+      }
+    }
+    if (model.init) {
+      this.emitFunction(model.init);
+      return;
+    }
+    this.line('function initialize() public initializer {');
+    const start = this.lines.length;
+    this.depth++;
+    this.emitStateInitializers();
+    this.depth--;
+    if (this.lines.length === start) {
+      this.lines[start - 1].text += '}';
+    } else {
+      this.line('}');
+    }
+  }
+
+  /** State declared with a value, assigned where upgradeable builds start */
+  private emitStateInitializers(): void {
+    for (const variable of this.model.stateVariables.values()) {
+      if (variable.constant || !variable.value || variable.inferred) continue;
+      this.at(variable.node, () => {
+        const value = this.withoutScope(() =>
+          this.expressionFor(variable.value!, variable.type)
+        );
+        this.line(`${this.stateName(variable.name)} = ${value};`);
+      });
+    }
+  }
+
+  /**
+   * The initialized flag lives in a slot of its own, so the storage layout
+   * is the same as the plain build's. The constructor sets it, so the
+   * implementation itself can never be initialized.
+   */
+  private emitInitializerGuard(): void {
+    this.line(
+      'bytes32 private constant _INITIALIZED_SLOT = keccak256("arbitpy.initialized");'
+    );
+    this.line();
+    this.line('modifier initializer() {');
+    this.depth++;
+    this.line('bytes32 slot = _INITIALIZED_SLOT;');
+    this.line('uint256 initialized;');
+    this.line('assembly {');
+    this.line(`${INDENT}initialized := sload(slot)`);
+    this.line('}');
+    this.line('require(initialized == 0, "Already initialized");');
+    this.line('assembly {');
+    this.line(`${INDENT}sstore(slot, 1)`);
+    this.line('}');
+    this.line('_;');
+    this.depth--;
+    this.line('}');
+    this.line();
+    this.line('constructor() {');
+    this.depth++;
+    this.line('bytes32 slot = _INITIALIZED_SLOT;');
+    this.line('assembly {');
+    this.line(`${INDENT}sstore(slot, 1)`);
+    this.line('}');
+    this.depth--;
+    this.line('}');
+    this.line();
+  }
+
+  /**
+   * Public functions with default arguments get one overload per omitted
+   * trailing argument, mirroring how Vyper exposes them in the ABI.
+   */
+  private emitDefaultOverloads(fn: FunctionModel, scope: FunctionScope): void {
+    if (fn.visibility !== 'public' || fn.isConstructor || fn.isFallback) return;
+    const firstDefault = fn.params.findIndex((param) => param.default);
+    if (firstDefault < 0) return;
+
+    for (let count = fn.params.length - 1; count >= firstDefault; count--) {
+      const kept = fn.params.slice(0, count);
+      const params = kept.map((param) =>
+        this.parameter(
+          this.typeName(param.type, param.node),
+          scope.names.get(param.name)!,
+          'memory'
+        )
+      );
+      const args = fn.params.map((param, index) =>
+        index < count
+          ? scope.names.get(param.name)!
+          : this.expressionFor(param.default!, param.type)
+      );
+      const mutability = fn.mutability === 'nonpayable' ? [] : [fn.mutability];
+      const returns = fn.returns
+        ? [`returns (${this.returnList(fn.returns)})`]
+        : [];
+      const call = `${this.functionName(fn.name)}(${args.join(', ')})`;
+
+      this.line();
+      this.line(
+        [
+          `function ${this.functionName(fn.name)}(${params.join(', ')})`,
+          'public',
+          ...mutability,
+          ...returns,
+        ].join(' ') + ' {'
+      );
+      this.depth++;
+      this.line(fn.returns ? `return ${call};` : `${call};`);
+      this.depth--;
+      this.line('}');
+    }
+  }
+
+  private planFunction(fn: FunctionModel): FunctionScope {
+    return {
+      fn,
+      ...planLocals(this.model, fn, SOLIDITY_RESERVED, this.takenNames),
+    };
+  }
+
+  private block(statements: ast.Statement[]): void {
+    for (const statement of statements) {
+      this.at(statement, () => this.statement(statement));
+    }
+  }
+
+  private statement(statement: ast.Statement): void {
+    const scope = this.scope!;
+    for (const name of scope.declareBefore.get(statement) ?? []) {
+      this.declareLocal(name, statement);
+    }
+
+    switch (statement.kind) {
+      case 'ExpressionStatement':
+        this.expressionStatement(statement);
+        break;
+      case 'Assign':
+        this.trackWrite(statement.target);
+        this.assign(statement);
+        break;
+      case 'AnnAssign':
+        this.annAssign(statement);
+        break;
+      case 'AugAssign':
+        this.trackWrite(statement.target);
+        this.augAssign(statement);
+        break;
+      case 'Return':
+        if (statement.value) {
+          const returns = scope.fn?.returns;
+          this.line(
+            `return ${this.expressionFor(statement.value, returns ?? UNKNOWN)};`
+          );
+        } else {
+          this.line('return;');
+        }
+        break;
+      case 'If':
+        this.ifStatement(statement, 'if');
+        break;
+      case 'For':
+        this.forStatement(statement);
+        break;
+      case 'While':
+        this.line(`while (${this.condition(statement.test)}) {`);
+        this.nested(statement.body);
+        this.line('}');
+        break;
+      case 'Assert':
+        this.line(
+          `require(${this.requireArguments(statement.test, statement.message)});`
+        );
+        break;
+      case 'Raise':
+        this.raise(statement);
+        break;
+      case 'Emit':
+        this.emitStatement(statement);
+        break;
+      case 'Pass':
+        break;
+      case 'Break':
+        this.line('break;');
+        break;
+      case 'Continue':
+        this.line('continue;');
+        break;
+    }
+  }
+
+  private nested(statements: ast.Statement[]): void {
+    this.depth++;
+    this.block(statements);
+    this.depth--;
+  }
+
+  private declareLocal(name: string, node: ast.Node): void {
+    const scope = this.scope!;
+    const type = scope.env.locals.get(name) ?? UNKNOWN;
+    this.line(`${this.localType(type, node)} ${scope.names.get(name)};`);
+  }
+
+  private localType(type: ContractType, node: ast.Node): string {
+    const name = this.typeName(type, node);
+    return isReferenceType(type) ? `${name} memory` : name;
+  }
+
+  private expressionStatement(statement: ast.ExpressionStatement): void {
+    const { expression } = statement;
+    // Bare string literals are docstrings or comments
+    if (expression.kind === 'StringLiteral') return;
+
+    if (
+      expression.kind === 'Call' &&
+      expression.callee.kind === 'Name' &&
+      (expression.callee.id === 'require' || expression.callee.id === 'assert')
+    ) {
+      this.line(
+        `require(${this.requireArguments(expression.args[0], expression.args[1])});`
+      );
+      return;
+    }
+
+    this.line(`${this.expression(expression).code};`);
+  }
+
+  private requireArguments(
+    test: ast.Expression | undefined,
+    message: ast.Expression | undefined
+  ): string {
+    if (!test) return 'false';
+    const condition = this.condition(test);
+    // Vyper's `assert x, UNREACHABLE` has no message
+    if (message && message.kind !== 'Name') {
+      return `${condition}, ${this.expression(message).code}`;
+    }
+    return condition;
+  }
+
+  private raise(statement: ast.Raise): void {
+    const error = raisedError(this.model, statement);
+    if (error) {
+      const call =
+        statement.exception?.kind === 'Call' ? statement.exception : undefined;
+      const args = this.orderArguments(
+        call ?? statement,
+        error.fields,
+        call?.args ?? [],
+        call?.keywords ?? [],
+        `Error '${error.name}'`
+      );
+      if (args) this.line(`revert ${error.name}(${args.join(', ')});`);
+      return;
+    }
+    let message = statement.exception;
+    if (message?.kind === 'Call' && message.args.length > 0) {
+      message = message.args[0];
+    }
+    if (message && message.kind === 'StringLiteral') {
+      this.line(`revert(${this.expression(message).code});`);
+    } else {
+      this.line('revert();');
+    }
+  }
+
+  private emitStatement(statement: ast.Emit): void {
+    const event = this.model.events.get(statement.event);
+    if (!event) {
+      reportError(this.model, statement, `Unknown event '${statement.event}'`);
+      return;
+    }
+    const args = this.orderArguments(
+      statement,
+      event.fields.map((field) => ({ name: field.name, type: field.type })),
+      statement.args,
+      statement.keywords,
+      `Event '${event.name}'`
+    );
+    if (!args) return;
+    this.line(`emit ${event.name}(${args.join(', ')});`);
+  }
+
+  private orderArguments(
+    node: ast.Node,
+    params: Array<{
+      name: string;
+      type: ContractType;
+      default?: ast.Expression;
+    }>,
+    args: ast.Expression[],
+    keywords: ast.Keyword[],
+    what: string
+  ): string[] | undefined {
+    const values: Array<ast.Expression | undefined> = params.map(
+      (_, index) => args[index]
+    );
+    for (const keyword of keywords) {
+      const index = params.findIndex((param) => param.name === keyword.name);
+      if (index < 0) {
+        reportError(
+          this.model,
+          keyword,
+          `${what} has no parameter '${keyword.name}'`
+        );
+        return undefined;
+      }
+      values[index] = keyword.value;
+    }
+    if (args.length > params.length) {
+      reportError(
+        this.model,
+        node,
+        `${what} expects ${params.length} argument${params.length === 1 ? '' : 's'}, got ${args.length}`
+      );
+      return undefined;
+    }
+
+    const result: string[] = [];
+    for (let index = 0; index < params.length; index++) {
+      const value = values[index] ?? params[index].default;
+      if (!value) {
+        reportError(
+          this.model,
+          node,
+          `${what} is missing argument '${params[index].name}'`
+        );
+        return undefined;
+      }
+      result.push(this.expressionFor(value, params[index].type));
+    }
+    return result;
+  }
+
+  private ifStatement(statement: ast.If, keyword: 'if' | '} else if'): void {
+    this.line(`${keyword} (${this.condition(statement.test)}) {`);
+    this.nested(statement.body);
+    const [elif] = statement.orelse;
+    if (statement.orelse.length === 1 && elif.kind === 'If') {
+      this.ifStatement(elif, '} else if');
+      return;
+    }
+    if (statement.orelse.length > 0) {
+      this.line('} else {');
+      this.nested(statement.orelse);
+    }
+    this.line('}');
+  }
+
+  private forStatement(statement: ast.For): void {
+    const scope = this.scope!;
+    const name = scope.names.get(statement.target.id) ?? statement.target.id;
+    const { iter } = statement;
+    const loopType = loopVariableType(statement, scope.env);
+    const previous = scope.env.locals.get(statement.target.id);
+    scope.env.locals.set(statement.target.id, loopType);
+
+    if (
+      iter.kind === 'Call' &&
+      iter.callee.kind === 'Name' &&
+      iter.callee.id === 'range'
+    ) {
+      const type = this.typeName(loopType, statement);
+      const [first, second] = iter.args;
+      const start = second ? this.expressionFor(first, loopType) : '0';
+      const end = this.expressionFor(second ?? first, loopType);
+      this.line(
+        `for (${type} ${name} = ${start}; ${name} < ${end}; ${name}++) {`
+      );
+      this.nested(statement.body);
+      this.line('}');
+    } else {
+      const iterType = inferType(iter, scope.env);
+      if (
+        iterType.kind === 'hashmap' &&
+        isStateAccess(iter) &&
+        this.trackedMaps.has(iter.attr)
+      ) {
+        const keys = `_${this.stateName(iter.attr)}Keys`;
+        const index = `_${name}Index`;
+        this.line(
+          `for (uint256 ${index} = 0; ${index} < ${keys}.length; ${index}++) {`
+        );
+        this.depth++;
+        this.line(
+          `${this.localType(loopType, statement)} ${name} = ${keys}[${index}];`
+        );
+        this.block(statement.body);
+        this.depth--;
+        this.line('}');
+      } else if (iterType.kind === 'hashmap') {
+        reportError(
+          this.model,
+          iter,
+          'Only HashMaps stored in contract state can be iterated'
+        );
+      } else if (iterType.kind !== 'dynArray' && iterType.kind !== 'array') {
+        reportError(
+          this.model,
+          iter,
+          `Cannot iterate over ${formatType(iterType)}`
+        );
+      } else {
+        const index = `_${name}Index`;
+        const array = this.expression(iter);
+        this.line(
+          `for (uint256 ${index} = 0; ${index} < ${this.wrap(array, Precedence.Postfix)}.length; ${index}++) {`
+        );
+        this.depth++;
+        this.line(
+          `${this.localType(loopType, statement)} ${name} = ${this.wrap(array, Precedence.Postfix)}[${index}];`
+        );
+        this.block(statement.body);
+        this.depth--;
+        this.line('}');
+      }
+    }
+
+    if (previous) scope.env.locals.set(statement.target.id, previous);
+  }
+
+  // -------------------------------------------------------------------------
+  // Assignments
+  // -------------------------------------------------------------------------
+
+  private assign(statement: ast.Assign): void {
+    const { target, value } = statement;
+    const scope = this.scope!;
+
+    if (target.kind === 'TupleExpr') {
+      const names = target.elements.map(
+        (element) => this.expression(element).code
+      );
+      this.line(`(${names.join(', ')}) = ${this.expression(value).code};`);
+      return;
+    }
+
+    const targetType = inferType(target, scope.env);
+
+    if (isStateAccess(target)) {
+      const variable = this.model.stateVariables.get(target.attr);
+      // `self.x = DynArray[...]` only declares the variable
+      if (isTypeExpression(value)) return;
+      // Unused `self.x = {}` was dropped from the model with a warning
+      if (!variable && value.kind === 'DictExpr' && value.entries.length === 0)
+        return;
+      if (variable && this.assignStateCollection(target, value, targetType))
+        return;
+    }
+
+    if (target.kind === 'Name' && scope.declareInline.has(statement)) {
+      this.declareWithValue(target.id, value, statement);
+      return;
+    }
+
+    if (
+      value.kind === 'ListExpr' &&
+      targetType.kind === 'dynArray' &&
+      !isStateRooted(target)
+    ) {
+      this.assignMemoryArray(this.expression(target).code, targetType, value);
+      return;
+    }
+
+    this.line(
+      `${this.expression(target).code} = ${this.expressionFor(value, targetType)};`
+    );
+  }
+
+  /** Dict and list literals assigned to storage collections */
+  private assignStateCollection(
+    target: ast.Attribute,
+    value: ast.Expression,
+    type: ContractType
+  ): boolean {
+    const name = this.stateName(target.attr);
+    if (value.kind === 'DictExpr' && type.kind === 'hashmap') {
+      for (const entry of value.entries) {
+        if (this.trackedMaps.has(target.attr)) {
+          this.line(`_track_${name}(${this.expression(entry.key).code});`);
+        }
+        this.line(
+          `${name}${this.mappingIndex(entry.key, type)} = ${this.expressionFor(entry.value, mappingValue(type, entry.key))};`
+        );
+      }
+      return true;
+    }
+    if (value.kind === 'ListExpr' && type.kind === 'dynArray') {
+      this.line(`delete ${name};`);
+      for (const element of value.elements) {
+        this.line(
+          `${name}.push(${this.expressionFor(element, type.element)});`
+        );
+      }
+      return true;
+    }
+    return false;
+  }
+
+  private declareWithValue(
+    name: string,
+    value: ast.Expression,
+    node: ast.Node
+  ): void {
+    const scope = this.scope!;
+    const type = scope.env.locals.get(name) ?? UNKNOWN;
+    const solidityName = scope.names.get(name)!;
+    if (value.kind === 'ListExpr' && type.kind === 'dynArray') {
+      this.line(`${this.localType(type, node)} ${solidityName};`);
+      this.assignMemoryArray(solidityName, type, value);
+      return;
+    }
+    this.line(
+      `${this.localType(type, node)} ${solidityName} = ${this.expressionFor(value, type)};`
+    );
+  }
+
+  /**
+   * Memory arrays cannot grow in Solidity. A DynArray local gets its full
+   * capacity up front and a length of zero, and `append` writes past the
+   * current length (see `_push`).
+   */
+  private assignMemoryArray(
+    target: string,
+    type: Extract<ContractType, { kind: 'dynArray' }>,
+    value: ast.ListExpr
+  ): void {
+    if (value.elements.length > 0) {
+      this.line(`${target} = ${this.arrayLiteral(value, type)};`);
+      return;
+    }
+    const capacity = type.maxLength ?? 0;
+    this.line(
+      `${target} = new ${this.typeName(type.element, value)}[](${capacity});`
+    );
+    if (capacity > 0) {
+      this.line(`assembly { mstore(${target}, 0) }`);
+    }
+  }
+
+  private annAssign(statement: ast.AnnAssign): void {
+    const scope = this.scope!;
+    const name = statement.target.id;
+    if (scope.declareInline.has(statement)) {
+      if (statement.value) {
+        this.declareWithValue(name, statement.value, statement);
+      } else {
+        this.declareLocal(name, statement);
+      }
+      return;
+    }
+    if (statement.value) {
+      this.assign({
+        kind: 'Assign',
+        target: statement.target,
+        value: statement.value,
+        line: statement.line,
+        column: statement.column,
+        endLine: statement.endLine,
+        endColumn: statement.endColumn,
+      });
+    }
+  }
+
+  private augAssign(statement: ast.AugAssign): void {
+    const type = inferType(statement.target, this.scope!.env);
+    const target = this.expression(statement.target).code;
+    const value = this.expressionFor(statement.value, type);
+    if (statement.op === '**') {
+      this.line(`${target} = ${target} ** ${value};`);
+      return;
+    }
+    const [op] = BINARY_OPERATORS[statement.op];
+    this.line(`${target} ${op}= ${value};`);
+  }
+
+  // -------------------------------------------------------------------------
+  // Expressions
+  // -------------------------------------------------------------------------
+
+  /** Generate an expression that will be used as a value of `type` */
+  private expressionFor(
+    expression: ast.Expression,
+    type: ContractType
+  ): string {
+    if (
+      expression.kind === 'ListExpr' &&
+      (type.kind === 'dynArray' || type.kind === 'array')
+    ) {
+      return this.arrayLiteral(expression, type);
+    }
+    if (expression.kind === 'DictExpr' && type.kind === 'struct') {
+      return this.structLiteral(type.name, expression, []);
+    }
+    return this.expression(expression).code;
+  }
+
+  private condition(expression: ast.Expression): string {
+    return this.truthy(expression).code;
+  }
+
+  /** Python truthiness for non-boolean conditions */
+  private truthy(expression: ast.Expression): Code {
+    const type = inferType(expression, this.scope!.env);
+    const code = this.expression(expression);
+    switch (type.kind) {
+      case 'uint':
+      case 'int':
+        return {
+          code: `${this.wrap(code, Precedence.Equality)} != 0`,
+          prec: Precedence.Equality,
+        };
+      case 'address':
+        return {
+          code: `${this.wrap(code, Precedence.Equality)} != address(0)`,
+          prec: Precedence.Equality,
+        };
+      case 'string':
+      case 'bytes':
+        return {
+          code: `bytes(${code.code}).length != 0`,
+          prec: Precedence.Equality,
+        };
+      case 'dynArray':
+        return {
+          code: `${this.wrap(code, Precedence.Postfix)}.length != 0`,
+          prec: Precedence.Equality,
+        };
+      default:
+        return code;
+    }
+  }
+
+  private wrap(code: Code, min: number): string {
+    return code.prec < min ? `(${code.code})` : code.code;
+  }
+
+  private expression(expression: ast.Expression): Code {
+    const atom = (code: string): Code => ({ code, prec: Precedence.Postfix });
+    const scope = this.scope!;
+
+    switch (expression.kind) {
+      case 'NumberLiteral':
+        if (!expression.isInteger) {
+          reportError(
+            this.model,
+            expression,
+            'Decimal literals are not supported'
+          );
+          return atom('0');
+        }
+        return atom(
+          /^0[xX]/.test(expression.raw)
+            ? expression.raw.replace(/_/g, '')
+            : expression.value
+        );
+
+      case 'StringLiteral':
+        return atom(stringLiteral(expression.value));
+
+      case 'BooleanLiteral':
+        return atom(expression.value ? 'true' : 'false');
+
+      case 'NoneLiteral':
+        reportError(
+          this.model,
+          expression,
+          'None has no Solidity equivalent; use empty(T)'
+        );
+        return atom('0');
+
+      case 'Name':
+        return atom(this.name(expression));
+
+      case 'Attribute':
+        return this.attribute(expression);
+
+      case 'Subscript': {
+        const objectType = inferType(expression.object, scope.env);
+        const object = this.wrap(
+          this.expression(expression.object),
+          Precedence.Postfix
+        );
+        if (objectType.kind === 'hashmap') {
+          return atom(
+            `${object}${this.mappingIndex(expression.index, objectType)}`
+          );
+        }
+        return atom(`${object}[${this.expression(expression.index).code}]`);
+      }
+
+      case 'Call':
+        return this.call(expression);
+
+      case 'BinaryOp': {
+        const leftType = inferType(expression.left, scope.env);
+        if (
+          expression.op === '+' &&
+          (leftType.kind === 'string' || leftType.kind === 'bytes')
+        ) {
+          const kind = leftType.kind === 'string' ? 'string' : 'bytes';
+          return atom(
+            `${kind}.concat(${this.expression(expression.left).code}, ${this.expression(expression.right).code})`
+          );
+        }
+        const [op, prec] = BINARY_OPERATORS[expression.op];
+        // `**` is right-associative; parenthesize both sides to be explicit
+        const leftMin = prec === Precedence.Exponent ? prec + 1 : prec;
+        const left = this.wrap(this.expression(expression.left), leftMin);
+        const right = this.wrap(this.expression(expression.right), prec + 1);
+        return { code: `${left} ${op} ${right}`, prec };
+      }
+
+      case 'BoolOp': {
+        const prec = expression.op === 'and' ? Precedence.And : Precedence.Or;
+        const op = expression.op === 'and' ? '&&' : '||';
+        const left = this.wrap(this.truthy(expression.left), prec);
+        const right = this.wrap(this.truthy(expression.right), prec + 1);
+        return { code: `${left} ${op} ${right}`, prec };
+      }
+
+      case 'Compare':
+        return this.compare(expression);
+
+      case 'UnaryOp': {
+        const operand =
+          expression.op === 'not'
+            ? this.truthy(expression.operand)
+            : this.expression(expression.operand);
+        const op = expression.op === 'not' ? '!' : expression.op;
+        if (op === '+') return operand;
+        // Always parenthesize binary operands: `-x ** 2` differs between languages
+        const inner =
+          expression.operand.kind === 'BinaryOp' ||
+          operand.prec < Precedence.Unary
+            ? `(${operand.code})`
+            : operand.code;
+        return { code: `${op}${inner}`, prec: Precedence.Unary };
+      }
+
+      case 'IfExp': {
+        const test = this.wrap(
+          this.truthy(expression.test),
+          Precedence.Ternary + 1
+        );
+        const body = this.wrap(
+          this.expression(expression.body),
+          Precedence.Ternary + 1
+        );
+        const orelse = this.wrap(
+          this.expression(expression.orelse),
+          Precedence.Ternary
+        );
+        return {
+          code: `${test} ? ${body} : ${orelse}`,
+          prec: Precedence.Ternary,
+        };
+      }
+
+      case 'ListExpr': {
+        const type = inferType(expression, scope.env);
+        return atom(this.arrayLiteral(expression, type));
+      }
+
+      case 'TupleExpr':
+        return atom(
+          `(${expression.elements.map((e) => this.expression(e).code).join(', ')})`
+        );
+
+      case 'DictExpr':
+        reportError(
+          this.model,
+          expression,
+          'Dict literals can only initialise a HashMap or a struct'
+        );
+        return atom('0');
+    }
+  }
+
+  private name(expression: ast.Name): string {
+    const scope = this.scope!;
+    const local = scope.names.get(expression.id);
+    if (local) return local;
+
+    switch (expression.id) {
+      case 'self':
+        return 'address(this)';
+      case 'ZERO_ADDRESS':
+      case 'EMPTY_ADDRESS':
+        return 'address(0)';
+      case 'EMPTY_BYTES32':
+        return 'bytes32(0)';
+      case 'ZERO_WEI':
+        return '0';
+      case 'MAX_UINT256':
+        return 'type(uint256).max';
+      case 'MAX_INT128':
+        return 'type(int128).max';
+      case 'MIN_INT128':
+        return 'type(int128).min';
+    }
+
+    if (this.model.stateVariables.get(expression.id)?.constant) {
+      return this.stateName(expression.id);
+    }
+    if (this.model.functions.has(expression.id)) {
+      return this.functionName(expression.id);
+    }
+    return expression.id;
+  }
+
+  private attribute(expression: ast.Attribute): Code {
+    const atom = (code: string): Code => ({ code, prec: Precedence.Postfix });
+    const { object, attr } = expression;
+    const scope = this.scope!;
+
+    if (object.kind === 'Name' && !scope.names.has(object.id)) {
+      if (object.id === 'self') {
+        if (attr === 'balance' && !this.model.stateVariables.has('balance')) {
+          return atom('address(this).balance');
+        }
+        if (!this.model.stateVariables.has(attr)) {
+          reportError(
+            this.model,
+            expression,
+            `'self.${attr}' is not a state variable`
+          );
+        }
+        return atom(this.stateName(attr));
+      }
+      const alias = ENVIRONMENT_ALIASES[`${object.id}.${attr}`];
+      if (alias) return atom(alias);
+      if (['msg', 'block', 'tx'].includes(object.id)) {
+        return atom(`${object.id}.${attr}`);
+      }
+      if (this.model.enums.has(object.id)) {
+        return atom(`${object.id}.${attr}`);
+      }
+    }
+
+    const objectType = inferType(object, scope.env);
+    const target = this.wrap(this.expression(object), Precedence.Postfix);
+    if (objectType.kind === 'address') {
+      switch (attr) {
+        case 'codesize':
+          return atom(`${target}.code.length`);
+        case 'is_contract':
+          return {
+            code: `${target}.code.length > 0`,
+            prec: Precedence.Relational,
+          };
+      }
+    }
+    return atom(`${target}.${attr}`);
+  }
+
+  /** `[k]` or `[a][b]` for tuple keys into nested mappings */
+  private mappingIndex(index: ast.Expression, type: ContractType): string {
+    if (index.kind === 'TupleExpr') {
+      return index.elements
+        .map((element) => `[${this.expression(element).code}]`)
+        .join('');
+    }
+    const keyType = type.kind === 'hashmap' ? type.key : UNKNOWN;
+    return `[${this.expressionFor(index, keyType)}]`;
+  }
+
+  private compare(expression: ast.Compare): Code {
+    const scope = this.scope!;
+    if (expression.op === 'in' || expression.op === 'not in') {
+      const containerType = inferType(expression.right, scope.env);
+      if (containerType.kind === 'hashmap') {
+        const map = expression.right;
+        if (!isStateAccess(map) || !this.trackedMaps.has(map.attr)) {
+          reportError(
+            this.model,
+            expression,
+            'Only HashMaps stored in contract state can be tested for membership'
+          );
+          return { code: 'false', prec: Precedence.Postfix };
+        }
+        const lookup = `_${this.stateName(map.attr)}Contains[${this.expressionFor(expression.left, containerType.key)}]`;
+        return expression.op === 'in'
+          ? { code: lookup, prec: Precedence.Postfix }
+          : { code: `!${lookup}`, prec: Precedence.Unary };
+      }
+      if (containerType.kind !== 'dynArray' && containerType.kind !== 'array') {
+        reportError(
+          this.model,
+          expression,
+          `Cannot test membership in ${formatType(containerType)}`
+        );
+        return { code: 'false', prec: Precedence.Postfix };
+      }
+      const helper = this.containsHelper(containerType, expression);
+      const call = `${helper}(${this.expression(expression.right).code}, ${this.expressionFor(expression.left, containerType.element)})`;
+      return expression.op === 'in'
+        ? { code: call, prec: Precedence.Postfix }
+        : { code: `!${call}`, prec: Precedence.Unary };
+    }
+
+    const [op, prec] = COMPARE_OPERATORS[expression.op]!;
+    const leftType = inferType(expression.left, scope.env);
+    if (
+      (op === '==' || op === '!=') &&
+      (leftType.kind === 'string' || leftType.kind === 'bytes')
+    ) {
+      const hash = (e: ast.Expression) =>
+        `keccak256(${leftType.kind === 'string' ? `bytes(${this.expression(e).code})` : this.expression(e).code})`;
+      return {
+        code: `${hash(expression.left)} ${op} ${hash(expression.right)}`,
+        prec,
+      };
+    }
+    const left = this.wrap(this.expression(expression.left), prec);
+    const right = this.wrap(this.expression(expression.right), prec + 1);
+    return { code: `${left} ${op} ${right}`, prec };
+  }
+
+  private call(call: ast.Call): Code {
+    const atom = (code: string): Code => ({ code, prec: Precedence.Postfix });
+    const { callee } = call;
+    const scope = this.scope!;
+    const args = () => call.args.map((arg) => this.expression(arg).code);
+
+    if (callee.kind === 'Name' && !scope.names.has(callee.id)) {
+      const builtin = this.builtinCall(callee.id, call);
+      if (builtin) return builtin;
+
+      const struct = this.model.structs.get(callee.id);
+      if (struct) {
+        const literal = call.args[0];
+        return atom(
+          this.structLiteral(
+            callee.id,
+            literal?.kind === 'DictExpr' ? literal : undefined,
+            call.keywords
+          )
+        );
+      }
+
+      const primitive = primitiveType(callee.id);
+      if (primitive) {
+        return atom(this.convert(call.args[0], primitive, call));
+      }
+
+      if (this.model.interfaces.has(callee.id) || /^I[A-Z]/.test(callee.id)) {
+        return atom(`${callee.id}(${args().join(', ')})`);
+      }
+
+      const fn = this.model.functions.get(callee.id);
+      if (fn) return atom(this.internalCall(fn, call));
+      return atom(`${callee.id}(${args().join(', ')})`);
+    }
+
+    if (callee.kind === 'Attribute') {
+      const { object, attr } = callee;
+
+      if (
+        object.kind === 'Name' &&
+        object.id === 'self' &&
+        !scope.names.has('self')
+      ) {
+        const fn = this.model.functions.get(attr);
+        if (!fn) {
+          reportError(this.model, call, `Undefined function 'self.${attr}'`);
+          return atom(`${attr}(${args().join(', ')})`);
+        }
+        return atom(this.internalCall(fn, call));
+      }
+
+      const objectType = inferType(object, scope.env);
+      const target = this.wrap(this.expression(object), Precedence.Postfix);
+
+      if (objectType.kind === 'hashmap' && attr === 'get') {
+        const value = call.args[1];
+        if (value && !isZeroValue(value)) {
+          reportWarning(
+            this.model,
+            value,
+            'Mappings return zero for missing keys; the default value is ignored'
+          );
+        }
+        return atom(`${target}${this.mappingIndex(call.args[0], objectType)}`);
+      }
+
+      if (objectType.kind === 'dynArray') {
+        if (attr === 'append') {
+          const element = this.expressionFor(call.args[0], objectType.element);
+          if (isStateRooted(object)) return atom(`${target}.push(${element})`);
+          return atom(
+            `${this.pushHelper(objectType, call)}(${target}, ${element})`
+          );
+        }
+        if (attr === 'pop') {
+          if (!isStateRooted(object)) {
+            reportError(
+              this.model,
+              call,
+              'pop() is only supported on storage arrays'
+            );
+          }
+          return atom(`${target}.pop()`);
+        }
+      }
+
+      if (objectType.kind === 'interface') {
+        const iface = this.model.interfaces.get(objectType.name);
+        const fn = iface?.functions.get(attr);
+        let options = '';
+        const keywords = call.keywords.filter((keyword) => {
+          if (keyword.name === 'value' || keyword.name === 'gas') {
+            options += `${options ? ', ' : ''}${keyword.name}: ${this.expression(keyword.value).code}`;
+            return false;
+          }
+          return true;
+        });
+        const ordered = fn
+          ? this.orderArguments(
+              call,
+              fn.params,
+              call.args,
+              keywords,
+              `'${objectType.name}.${attr}'`
+            )
+          : args();
+        return atom(
+          `${target}.${attr}${options ? `{${options}}` : ''}(${(ordered ?? []).join(', ')})`
+        );
+      }
+
+      return atom(`${target}.${attr}(${args().join(', ')})`);
+    }
+
+    return atom(
+      `${this.wrap(this.expression(callee), Precedence.Postfix)}(${args().join(', ')})`
+    );
+  }
+
+  private internalCall(fn: FunctionModel, call: ast.Call): string {
+    const args = this.orderArguments(
+      call,
+      fn.params,
+      call.args,
+      call.keywords,
+      `Function '${fn.name}'`
+    );
+    return `${this.functionName(fn.name)}(${(args ?? []).join(', ')})`;
+  }
+
+  private builtinCall(name: string, call: ast.Call): Code | undefined {
+    const atom = (code: string): Code => ({ code, prec: Precedence.Postfix });
+    const scope = this.scope!;
+    const [first, second] = call.args;
+    const arg = (index: number) =>
+      call.args[index] ? this.expression(call.args[index]).code : '';
+    const all = () => call.args.map((a) => this.expression(a).code).join(', ');
+    const typeOf = (expression: ast.Expression | undefined) =>
+      expression ? inferType(expression, scope.env) : UNKNOWN;
+    const typeArg = (expression: ast.Expression | undefined) => {
+      if (!expression) return UNKNOWN;
+      try {
+        return resolveTypeAnnotation(expression, this.model);
+      } catch {
+        reportError(this.model, expression, 'Expected a type');
+        return UNKNOWN;
+      }
+    };
+
+    switch (name) {
+      case 'len': {
+        const type = typeOf(first);
+        const value = this.wrap(this.expression(first), Precedence.Postfix);
+        return atom(
+          type.kind === 'string' ? `bytes(${value}).length` : `${value}.length`
+        );
+      }
+      case 'min':
+      case 'max': {
+        const type = this.numericType(call);
+        const helper = this.minMaxHelper(name, type, call);
+        return atom(
+          `${helper}(${this.expressionFor(first, type)}, ${this.expressionFor(second, type)})`
+        );
+      }
+      case 'abs':
+        return atom(`${this.absHelper()}(${arg(0)})`);
+      case 'sqrt':
+      case 'isqrt':
+        return atom(`${this.sqrtHelper()}(${arg(0)})`);
+      case 'uint256_addmod':
+        return atom(`addmod(${arg(0)}, ${arg(1)}, ${arg(2)})`);
+      case 'uint256_mulmod':
+        return atom(`mulmod(${arg(0)}, ${arg(1)}, ${arg(2)})`);
+      case 'pow_mod256':
+      case 'unsafe_add':
+      case 'unsafe_sub':
+      case 'unsafe_mul':
+      case 'unsafe_div': {
+        const type = name === 'pow_mod256' ? UINT256 : this.numericType(call);
+        return atom(
+          `${this.uncheckedHelper(name, type, call)}(${arg(0)}, ${arg(1)})`
+        );
+      }
+      case 'convert':
+        return atom(this.convert(first, typeArg(second), call));
+      case 'empty':
+        return atom(this.zeroValue(typeArg(first), call));
+      case 'max_value':
+      case 'min_value': {
+        const type = typeArg(first);
+        return atom(
+          `type(${this.typeName(type, call)}).${name === 'max_value' ? 'max' : 'min'}`
+        );
+      }
+      case 'keccak256':
+      case 'sha256': {
+        const type = typeOf(first);
+        let value = arg(0);
+        if (type.kind === 'string') value = `bytes(${value})`;
+        else if (type.kind !== 'bytes') value = `abi.encodePacked(${value})`;
+        return atom(`${name}(${value})`);
+      }
+      case 'concat': {
+        const kind = typeOf(first).kind === 'string' ? 'string' : 'bytes';
+        return atom(`${kind}.concat(${all()})`);
+      }
+      case 'ecrecover':
+        return atom(`ecrecover(${all()})`);
+      case 'blockhash':
+      case 'block_hash':
+        return atom(`blockhash(${arg(0)})`);
+      case 'method_id':
+        return atom(`bytes4(keccak256(${arg(0)}))`);
+      case 'as_wei_value': {
+        const unit =
+          second?.kind === 'StringLiteral'
+            ? WEI_UNITS[second.value]
+            : undefined;
+        if (!unit) {
+          reportError(
+            this.model,
+            call,
+            'as_wei_value() expects "wei", "gwei" or "ether"'
+          );
+          return atom(arg(0));
+        }
+        return {
+          code: `${this.wrap(this.expression(first), Precedence.Multiplicative)} * 1 ${unit}`,
+          prec: Precedence.Multiplicative,
+        };
+      }
+      case 'send':
+        return atom(`payable(${arg(0)}).transfer(${arg(1)})`);
+      case 'selfdestruct':
+        return atom(`selfdestruct(payable(${arg(0)}))`);
+      case 'raw_call':
+        return atom(this.rawCall(call));
+      case 'uint2str':
+      case 'str':
+        return atom(`${this.toStringHelper()}(${arg(0)})`);
+      case 'require':
+      case 'assert':
+        return atom(`require(${this.requireArguments(first, second)})`);
+      case 'range':
+        reportError(this.model, call, 'range() can only be used in a for loop');
+        return atom('0');
+      case 'slice':
+      case 'extract32':
+        reportError(
+          this.model,
+          call,
+          `${name}() is not supported by the Solidity backend`
+        );
+        return atom('0');
+    }
+    return undefined;
+  }
+
+  private numericType(call: ast.Call): ContractType {
+    const scope = this.scope!;
+    for (const arg of call.args) {
+      if (isIntegerLiteral(arg)) continue;
+      const type = inferType(arg, scope.env);
+      if (isInteger(type)) return type;
+    }
+    return UINT256;
+  }
+
+  private convert(
+    value: ast.Expression | undefined,
+    type: ContractType,
+    node: ast.Node
+  ): string {
+    if (!value) {
+      reportError(this.model, node, 'convert() expects a value and a type');
+      return '0';
+    }
+    const from = inferType(value, this.scope!.env);
+    const code = this.expression(value).code;
+    const target = this.typeName(type, node);
+
+    if (from.kind === 'bool' && isInteger(type))
+      return `(${code} ? ${target}(1) : ${target}(0))`;
+    if (from.kind === 'address' && isInteger(type))
+      return `${target}(uint160(${code}))`;
+    if (isInteger(from) && type.kind === 'address')
+      return `address(uint160(${code}))`;
+    if (from.kind === 'fixedBytes' && type.kind === 'address')
+      return `address(uint160(uint256(${code})))`;
+    if (from.kind === 'address' && type.kind === 'fixedBytes')
+      return `${target}(uint256(uint160(${code})))`;
+    if (type.kind === 'string' && from.kind === 'bytes')
+      return `string(${code})`;
+    if (type.kind === 'bytes' && from.kind === 'string')
+      return `bytes(${code})`;
+    return `${target}(${code})`;
+  }
+
+  /** Vyper's `raw_call` as an internal helper around a low-level call */
+  private rawCall(call: ast.Call): string {
+    const keyword = (name: string) =>
+      call.keywords.find((k) => k.name === name)?.value;
+    const [target, data] = call.args;
+    if (!target || !data) {
+      reportError(this.model, call, 'raw_call() expects a target and calldata');
+      return 'false';
+    }
+    const value = keyword('value');
+    const revertOnFailure = keyword('revert_on_failure');
+    const returnsBool =
+      revertOnFailure?.kind === 'BooleanLiteral' && !revertOnFailure.value;
+    const valueCode = value ? this.expression(value).code : '0';
+    const args = `${this.expression(target).code}, ${this.expression(data).code}, ${valueCode}`;
+
+    if (returnsBool) {
+      this.addHelper('_rawCall', [
+        'function _rawCall(address target, bytes memory data, uint256 value) private returns (bool success) {',
+        `${INDENT}(success, ) = target.call{value: value}(data);`,
+        '}',
+      ]);
+      return `_rawCall(${args})`;
+    }
+    this.addHelper('_rawCallOrRevert', [
+      'function _rawCallOrRevert(address target, bytes memory data, uint256 value) private returns (bytes memory result) {',
+      `${INDENT}bool success;`,
+      `${INDENT}(success, result) = target.call{value: value}(data);`,
+      `${INDENT}require(success, "raw_call failed");`,
+      '}',
+    ]);
+    return `_rawCallOrRevert(${args})`;
+  }
+
+  private structLiteral(
+    name: string,
+    dict: ast.DictExpr | undefined,
+    keywords: ast.Keyword[]
+  ): string {
+    const struct = this.model.structs.get(name)!;
+    const values = new Map<string, ast.Expression>();
+    for (const entry of dict?.entries ?? []) {
+      if (entry.key.kind !== 'Name' && entry.key.kind !== 'StringLiteral') {
+        reportError(this.model, entry.key, 'Struct fields must be named');
+        continue;
+      }
+      values.set(
+        entry.key.kind === 'Name' ? entry.key.id : entry.key.value,
+        entry.value
+      );
+    }
+    for (const keyword of keywords) values.set(keyword.name, keyword.value);
+
+    for (const [field, value] of values) {
+      if (!struct.fields.some((f) => f.name === field)) {
+        reportError(
+          this.model,
+          value,
+          `Struct '${name}' has no field '${field}'`
+        );
+      }
+    }
+
+    const fields = struct.fields.map((field) => {
+      const value = values.get(field.name);
+      const code = value
+        ? this.expressionFor(value, field.type)
+        : this.zeroValue(field.type, struct.node);
+      return `${field.name}: ${code}`;
+    });
+    return `${name}({${fields.join(', ')}})`;
+  }
+
+  private arrayLiteral(list: ast.ListExpr, type: ContractType): string {
+    const element =
+      type.kind === 'dynArray' || type.kind === 'array'
+        ? type.element
+        : UNKNOWN;
+    const values = list.elements.map((e) => this.expressionFor(e, element));
+
+    if (type.kind === 'array') {
+      // Inline arrays take the type of their first element
+      if (values.length > 0) {
+        values[0] = `${this.typeName(element, list)}(${values[0]})`;
+      }
+      return `[${values.join(', ')}]`;
+    }
+    if (values.length === 0) {
+      return `new ${this.typeName(element, list)}[](0)`;
+    }
+    return `${this.arrayHelper(element, values.length, list)}(${values.join(', ')})`;
+  }
+
+  private zeroValue(type: ContractType, node: ast.Node): string {
+    switch (type.kind) {
+      case 'uint':
+      case 'int':
+        return '0';
+      case 'bool':
+        return 'false';
+      case 'address':
+        return 'address(0)';
+      case 'fixedBytes':
+        return `${this.typeName(type, node)}(0)`;
+      case 'string':
+        return '""';
+      case 'bytes':
+        return '""';
+      case 'dynArray':
+        return `new ${this.typeName(type.element, node)}[](0)`;
+      case 'enum':
+        return `${type.name}(0)`;
+      case 'interface':
+        return `${type.name}(address(0))`;
+      case 'struct': {
+        const struct = this.model.structs.get(type.name);
+        const fields = (struct?.fields ?? []).map(
+          (field) => `${field.name}: ${this.zeroValue(field.type, node)}`
+        );
+        return `${type.name}({${fields.join(', ')}})`;
+      }
+      default:
+        reportError(
+          this.model,
+          node,
+          `Cannot create an empty value of type ${formatType(type)}`
+        );
+        return '0';
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Helpers
+  // -------------------------------------------------------------------------
+
+  private addHelper(name: string, lines: string[]): string {
+    if (!this.helpers.has(name)) this.helpers.set(name, lines);
+    return name;
+  }
+
+  private minMaxHelper(
+    name: 'min' | 'max',
+    type: ContractType,
+    node: ast.Node
+  ): string {
+    const t = this.typeName(type, node);
+    const helper = t === 'uint256' ? `_${name}` : `_${name}_${t}`;
+    const op = name === 'min' ? '<' : '>';
+    return this.addHelper(helper, [
+      `function ${helper}(${t} a, ${t} b) private pure returns (${t}) {`,
+      `${INDENT}return a ${op} b ? a : b;`,
+      '}',
+    ]);
+  }
+
+  private absHelper(): string {
+    return this.addHelper('_abs', [
+      'function _abs(int256 x) private pure returns (int256) {',
+      `${INDENT}return x >= 0 ? x : -x;`,
+      '}',
+    ]);
+  }
+
+  private sqrtHelper(): string {
+    return this.addHelper('_isqrt', [
+      'function _isqrt(uint256 x) private pure returns (uint256 y) {',
+      `${INDENT}uint256 z = (x + 1) / 2;`,
+      `${INDENT}y = x;`,
+      `${INDENT}while (z < y) {`,
+      `${INDENT}${INDENT}y = z;`,
+      `${INDENT}${INDENT}z = (x / z + z) / 2;`,
+      `${INDENT}}`,
+      '}',
+    ]);
+  }
+
+  private uncheckedHelper(
+    name: string,
+    type: ContractType,
+    node: ast.Node
+  ): string {
+    const t = this.typeName(type, node);
+    const op: Record<string, string> = {
+      unsafe_add: '+',
+      unsafe_sub: '-',
+      unsafe_mul: '*',
+      unsafe_div: '/',
+      pow_mod256: '**',
+    };
+    const helper = t === 'uint256' ? `_${name}` : `_${name}_${t}`;
+    return this.addHelper(helper, [
+      `function ${helper}(${t} a, ${t} b) private pure returns (${t}) {`,
+      `${INDENT}unchecked {`,
+      `${INDENT}${INDENT}return a ${op[name]} b;`,
+      `${INDENT}}`,
+      '}',
+    ]);
+  }
+
+  private toStringHelper(): string {
+    return this.addHelper('_toString', [
+      'function _toString(uint256 value) private pure returns (string memory) {',
+      `${INDENT}if (value == 0) return "0";`,
+      `${INDENT}uint256 digits;`,
+      `${INDENT}for (uint256 temp = value; temp != 0; temp /= 10) digits++;`,
+      `${INDENT}bytes memory buffer = new bytes(digits);`,
+      `${INDENT}while (value != 0) {`,
+      `${INDENT}${INDENT}digits--;`,
+      `${INDENT}${INDENT}buffer[digits] = bytes1(uint8(48 + (value % 10)));`,
+      `${INDENT}${INDENT}value /= 10;`,
+      `${INDENT}}`,
+      `${INDENT}return string(buffer);`,
+      '}',
+    ]);
+  }
+
+  private pushHelper(
+    type: Extract<ContractType, { kind: 'dynArray' }>,
+    node: ast.Node
+  ): string {
+    const t = this.typeName(type.element, node);
+    const helper = `_push_${identifierFor(t)}`;
+    const element = isReferenceType(type.element) ? `${t} memory` : t;
+    return this.addHelper(helper, [
+      `/// @dev Appends to a memory array allocated with spare capacity`,
+      `function ${helper}(${t}[] memory array, ${element} value) private pure {`,
+      `${INDENT}assembly {`,
+      `${INDENT}${INDENT}let length := mload(array)`,
+      `${INDENT}${INDENT}mstore(add(array, mul(add(length, 1), 0x20)), value)`,
+      `${INDENT}${INDENT}mstore(array, add(length, 1))`,
+      `${INDENT}}`,
+      '}',
+    ]);
+  }
+
+  private containsHelper(
+    type: Extract<ContractType, { kind: 'dynArray' | 'array' }>,
+    node: ast.Node
+  ): string {
+    const t = this.typeName(type.element, node);
+    const array = type.kind === 'array' ? `${t}[${type.length}]` : `${t}[]`;
+    const helper = `_contains_${identifierFor(array)}`;
+    const element = isReferenceType(type.element) ? `${t} memory` : t;
+    return this.addHelper(helper, [
+      `function ${helper}(${array} memory array, ${element} value) private pure returns (bool) {`,
+      `${INDENT}for (uint256 i = 0; i < array.length; i++) {`,
+      `${INDENT}${INDENT}if (array[i] == value) return true;`,
+      `${INDENT}}`,
+      `${INDENT}return false;`,
+      '}',
+    ]);
+  }
+
+  private arrayHelper(
+    element: ContractType,
+    length: number,
+    node: ast.Node
+  ): string {
+    const t = this.typeName(element, node);
+    const helper = `_${identifierFor(t)}Array${length}`;
+    const param = isReferenceType(element) ? `${t} memory` : t;
+    const params = Array.from({ length }, (_, i) => `${param} v${i}`);
+    const body = Array.from(
+      { length },
+      (_, i) => `${INDENT}array[${i}] = v${i};`
+    );
+    return this.addHelper(helper, [
+      `function ${helper}(${params.join(', ')}) private pure returns (${t}[] memory array) {`,
+      `${INDENT}array = new ${t}[](${length});`,
+      ...body,
+      '}',
+    ]);
+  }
+
+  // -------------------------------------------------------------------------
+  // Types and formatting
+  // -------------------------------------------------------------------------
+
+  private typeName(type: ContractType, node?: ast.Node): string {
+    switch (type.kind) {
+      case 'uint':
+        return `uint${type.bits}`;
+      case 'int':
+        return `int${type.bits}`;
+      case 'address':
+      case 'bool':
+        return type.kind;
+      case 'fixedBytes':
+        return `bytes${type.size}`;
+      case 'bytes':
+        return 'bytes';
+      case 'string':
+        return 'string';
+      case 'hashmap':
+        return `mapping(${this.typeName(type.key, node)} => ${this.typeName(type.value, node)})`;
+      case 'dynArray':
+        return `${this.typeName(type.element, node)}[]`;
+      case 'array':
+        return `${this.typeName(type.element, node)}[${type.length}]`;
+      case 'struct':
+      case 'enum':
+      case 'interface':
+        return type.name;
+      case 'tuple':
+        return type.elements
+          .map((element) => this.typeName(element, node))
+          .join(', ');
+      case 'unknown':
+        if (node) {
+          reportError(
+            this.model,
+            node,
+            'Cannot infer a type here; add a type annotation'
+          );
+        }
+        return 'uint256';
+    }
+  }
+
+  private returnList(type: ContractType): string {
+    const types = type.kind === 'tuple' ? type.elements : [type];
+    return types
+      .map((t) =>
+        isReferenceType(t) ? `${this.typeName(t)} memory` : this.typeName(t)
+      )
+      .join(', ');
+  }
+
+  private parameter(
+    type: string,
+    name: string,
+    location: 'memory' | 'calldata'
+  ): string {
+    const isReference =
+      /\[\d*\]$/.test(type) ||
+      type === 'string' ||
+      type === 'bytes' ||
+      this.model.structs.has(type);
+    return isReference ? `${type} ${location} ${name}` : `${type} ${name}`;
+  }
+
+  private docstring(text: string | undefined): void {
+    if (!text) return;
+    const lines = text
+      .trim()
+      .split('\n')
+      .map((line) => line.trim());
+    lines.forEach((line, index) => {
+      this.line(index === 0 ? `/// @notice ${line}` : `/// ${line}`.trimEnd());
+    });
+  }
+
+  private line(text = ''): void {
+    this.lines.push({
+      text: text ? INDENT.repeat(this.depth) + text : '',
+      source: this.origin,
+    });
+  }
+
+  /** Attribute the lines emitted by `callback` to a node's Python line */
+  private at(node: ast.Node | SourceRange, callback: () => void): void {
+    const origin = this.origin;
+    if (node.file) {
+      // Imported declarations have no lines in this source
+      this.origin = undefined;
+    } else {
+      this.origin =
+        'kind' in node ? { line: node.line, endLine: node.line } : node;
+    }
+    try {
+      callback();
+    } finally {
+      this.origin = origin;
+    }
+  }
+
+  private trimTrailingBlank(): void {
+    while (this.lines.length && this.lines[this.lines.length - 1].text === '') {
+      this.lines.pop();
+    }
+  }
+}
+
+function isTypeExpression(expression: ast.Expression): boolean {
+  return (
+    expression.kind === 'Subscript' &&
+    expression.object.kind === 'Name' &&
+    ['DynArray', 'HashMap'].includes(expression.object.id)
+  );
+}
+
+function isZeroValue(expression: ast.Expression): boolean {
+  switch (expression.kind) {
+    case 'NumberLiteral':
+      return expression.isInteger && expression.value === '0';
+    case 'BooleanLiteral':
+      return !expression.value;
+    case 'StringLiteral':
+      return expression.value === '';
+    case 'Name':
+      return [
+        'ZERO_ADDRESS',
+        'EMPTY_ADDRESS',
+        'EMPTY_BYTES32',
+        'ZERO_WEI',
+      ].includes(expression.id);
+    case 'ListExpr':
+      return expression.elements.length === 0;
+    case 'Call': {
+      if (expression.callee.kind === 'Name' && expression.callee.id === 'empty')
+        return true;
+      const [dict] = expression.args;
+      return (
+        dict?.kind === 'DictExpr' &&
+        dict.entries.every((entry) => isZeroValue(entry.value)) &&
+        expression.keywords.every((keyword) => isZeroValue(keyword.value))
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+function mappingValue(type: ContractType, key: ast.Expression): ContractType {
+  let value = type;
+  const depth = key.kind === 'TupleExpr' ? key.elements.length : 1;
+  for (let i = 0; i < depth; i++) {
+    value = value.kind === 'hashmap' ? value.value : UNKNOWN;
+  }
+  return value;
+}
+
+function identifierFor(type: string): string {
+  return type.replace(/\[(\d*)\]/g, (_, n) => `Array${n}`).replace(/\W/g, '');
+}
+
+/** Quote a string as a Solidity literal */
+export function stringLiteral(value: string): string {
+  let unicode = false;
+  let body = '';
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    if (char === '"' || char === '\\') body += `\\${char}`;
+    else if (char === '\n') body += '\\n';
+    else if (char === '\r') body += '\\r';
+    else if (char === '\t') body += '\\t';
+    else if (code < 0x20 || code === 0x7f)
+      body += `\\x${code.toString(16).padStart(2, '0')}`;
+    else {
+      if (code > 0x7f) unicode = true;
+      body += char;
+    }
+  }
+  return `${unicode ? 'unicode' : ''}"${body}"`;
+}
@@ -0,0 +1,98 @@
+// Line mapping between Python source and generated code
+import * as ast from '../parser/ast';
+import { SourceMap } from '../types';
+
+/** Python lines `line` through `endLine`, inclusive */
+export interface SourceRange {
+  line: number;
+  endLine: number;
+  /** Set when the lines belong to an imported file */
+  file?: string;
+}
+
+/** A generated line and the Python lines it was translated from */
+export interface OutputLine {
+  text: string;
+  source?: SourceRange;
+}
+
+/** Generated code together with its source map */
+export interface GeneratedSource {
+  code: string;
+  sourceMap: SourceMap;
+}
+
+/** Join generated lines into code, recording where each line came from */
+export function joinLines(lines: OutputLine[]): GeneratedSource {
+  const mappings: Array<[number, number]> = [];
+  lines.forEach(({ text, source }, index) => {
+    if (!source || text === '') return;
+    for (let line = source.line; line <= source.endLine; line++) {
+      mappings.push([line, index + 1]);
+    }
+  });
+  return {
+    code: lines.map((line) => line.text).join('\n') + '\n',
+    sourceMap: { mappings },
+  };
+}
+
+/** Generated lines translated from a Python line, in ascending order */
+export function generatedLinesFor(
+  map: SourceMap,
+  sourceLine: number
+): number[] {
+  return map.mappings
+    .filter(([source]) => source === sourceLine)
+    .map(([, generated]) => generated);
+}
+
+/**
+ * The Python line a generated line was translated from. Function headers
+ * span the decorators and the signature; the last of those lines is used.
+ */
+export function sourceLineFor(
+  map: SourceMap,
+  generatedLine: number
+): number | undefined {
+  let line: number | undefined;
+  for (const [source, generated] of map.mappings) {
+    if (generated === generatedLine) line = source;
+  }
+  return line;
+}
+
+/** Python lines of a function's decorators and signature */
+export function headerRange(def: ast.FunctionDef): SourceRange {
+  const decorator = def.decorators[def.decorators.length - 1];
+  let endLine = decorator ? decorator.endLine + 1 : def.line;
+  for (const node of [...def.params, ...(def.returns ? [def.returns] : [])]) {
+    endLine = Math.max(endLine, node.endLine);
+  }
+  return { line: def.line, endLine, file: def.file };
+}
+
+/**
+ * Move diagnostics reported against generated code to the Python line they
+ * came from. Columns refer to the generated code, so they are dropped;
+ * diagnostics on unmapped lines are kept as they are.
+ */
+export function mapToSource<T extends { line?: number; column?: number }>(
+  diagnostics: T[],
+  map: SourceMap
+): T[] {
+  return diagnostics.map((diagnostic) => {
+    const line =
+      diagnostic.line === undefined
+        ? undefined
+        : sourceLineFor(map, diagnostic.line);
+    if (line === undefined) return diagnostic;
+    return {
+      ...diagnostic,
+      line,
+      column: undefined,
+      endLine: undefined,
+      endColumn: undefined,
+    };
+  });
+}
@@ -0,0 +1,244 @@
+// Storage layout of the generated Solidity contract, following solc's packing
+import * as ast from '../parser/ast';
+import { ContractModel } from '../semantic/model';
+import { ContractType } from '../semantic/types';
+
+/** Where one state variable lives in contract storage */
+export interface StorageEntry {
+  /** Python name; names of compiler-generated variables start with `_` */
+  name: string;
+  /** Solidity type */
+  type: string;
+  slot: number;
+  /** Byte offset in the slot, counted from the least significant byte */
+  offset: number;
+  /** Bytes taken; whole slots for mappings, arrays, structs and strings */
+  bytes: number;
+  /** Added by the compiler, such as the reentrancy lock */
+  generated: boolean;
+  line?: number;
+  /** Set when the variable is declared in an imported file */
+  file?: string;
+}
+
+/** A state variable in declaration order, as the generator emits it */
+export interface StorageVariable {
+  name: string;
+  type: ContractType;
+  solidityType: string;
+  generated: boolean;
+  node?: ast.Node;
+}
+
+export interface StorageChange {
+  kind: 'removed' | 'reordered' | 'retyped' | 'renamed' | 'added';
+  name: string;
+  /** True when proxied state would be read through the wrong variable */
+  breaking: boolean;
+  message: string;
+  before?: StorageEntry;
+  after?: StorageEntry;
+}
+
+export interface StorageLayoutDiff {
+  /** No breaking changes; the new version can be upgraded to */
+  compatible: boolean;
+  changes: StorageChange[];
+}
+
+const SLOT_BYTES = 32;
+
+/**
+ * Assign slots in declaration order. Value types are packed into a slot
+ * while they fit; mappings, arrays, structs, strings and bytes start a new
+ * slot, and so does whatever follows a struct or a static array.
+ */
+export function layoutStorage(
+  model: ContractModel,
+  variables: StorageVariable[]
+): StorageEntry[] {
+  let slot = 0;
+  let offset = 0;
+  return variables.map((variable) => {
+    const { bytes, packed } = storageSize(variable.type, model);
+    if (offset > 0 && (!packed || offset + bytes > SLOT_BYTES)) {
+      slot++;
+      offset = 0;
+    }
+    const entry: StorageEntry = {
+      name: variable.name,
+      type: variable.solidityType,
+      slot,
+      offset,
+      bytes,
+      generated: variable.generated,
+      ...(variable.node ? { line: variable.node.line } : {}),
+      ...(variable.node?.file ? { file: variable.node.file } : {}),
+    };
+    if (packed) {
+      offset += bytes;
+    } else {
+      slot += bytes / SLOT_BYTES;
+    }
+    return entry;
+  });
+}
+
+/**
+ * Compare the layout of a deployed version with a new one. Proxies keep
+ * their storage across upgrades, so every variable of `previous` must stay
+ * at its slot and offset with the same type, and new variables may only
+ * use storage `previous` left free.
+ */
+export function diffStorageLayouts(
+  previous: StorageEntry[],
+  current: StorageEntry[]
+): StorageLayoutDiff {
+  const changes: StorageChange[] = [];
+  const removed: StorageEntry[] = [];
+  const byName = new Map(current.map((entry) => [entry.name, entry]));
+
+  for (const before of previous) {
+    const after = byName.get(before.name);
+    if (!after) {
+      removed.push(before);
+      continue;
+    }
+    if (after.slot !== before.slot || after.offset !== before.offset) {
+      changes.push({
+        kind: 'reordered',
+        name: before.name,
+        breaking: true,
+        message: `${before.name} moved from ${position(before)} to ${position(after)}`,
+        before,
+        after,
+      });
+    }
+    if (after.type !== before.type) {
+      changes.push({
+        kind: 'retyped',
+        name: before.name,
+        breaking: true,
+        message: `${before.name} changed type from ${before.type} to ${after.type}`,
+        before,
+        after,
+      });
+    }
+  }
+
+  const previousNames = new Set(previous.map(({ name }) => name));
+  const added = current.filter(({ name }) => !previousNames.has(name));
+  const end = Math.max(0, ...previous.map(storageEnd));
+
+  for (const before of removed) {
+    // A variable renamed in place keeps its value
+    const index = added.findIndex(
+      (after) =>
+        after.slot === before.slot &&
+        after.offset === before.offset &&
+        after.type === before.type
+    );
+    if (index >= 0) {
+      const [after] = added.splice(index, 1);
+      changes.push({
+        kind: 'renamed',
+        name: after.name,
+        breaking: false,
+        message: `${before.name} was renamed to ${after.name}`,
+        before,
+        after,
+      });
+      continue;
+    }
+    changes.push({
+      kind: 'removed',
+      name: before.name,
+      breaking: true,
+      message: `${before.name} was removed from ${position(before)}; later versions must keep its storage`,
+      before,
+    });
+  }
+
+  for (const after of added) {
+    const overlaps = storageStart(after) < end;
+    changes.push({
+      kind: 'added',
+      name: after.name,
+      breaking: overlaps,
+      message: overlaps
+        ? `${after.name} at ${position(after)} overlaps storage of the previous version`
+        : `${after.name} was appended at ${position(after)}`,
+      after,
+    });
+  }
+
+  return {
+    compatible: changes.every(({ breaking }) => !breaking),
+    changes,
+  };
+}
+
+/**
+ * Bytes a type takes in storage; `packed` value types can share a slot,
+ * everything else is a number of whole slots
+ */
+function storageSize(
+  type: ContractType,
+  model: ContractModel
+): { bytes: number; packed: boolean } {
+  switch (type.kind) {
+    case 'uint':
+    case 'int':
+      return { bytes: type.bits / 8, packed: true };
+    case 'address':
+    case 'interface':
+      return { bytes: 20, packed: true };
+    case 'bool':
+      return { bytes: 1, packed: true };
+    case 'fixedBytes':
+      return { bytes: type.size, packed: true };
+    case 'enum': {
+      const members = model.enums.get(type.name)?.members.length ?? 0;
+      return { bytes: members > 256 ? 2 : 1, packed: true };
+    }
+    case 'array': {
+      const element = storageSize(type.element, model);
+      const slots = element.packed
+        ? Math.ceil(type.length / Math.floor(SLOT_BYTES / element.bytes))
+        : (type.length * element.bytes) / SLOT_BYTES;
+      return { bytes: slots * SLOT_BYTES, packed: false };
+    }
+    case 'struct': {
+      const fields = model.structs.get(type.name)?.fields ?? [];
+      let slot = 0;
+      let offset = 0;
+      for (const field of fields) {
+        const size = storageSize(field.type, model);
+        if (offset > 0 && (!size.packed || offset + size.bytes > SLOT_BYTES)) {
+          slot++;
+          offset = 0;
+        }
+        if (size.packed) offset += size.bytes;
+        else slot += size.bytes / SLOT_BYTES;
+      }
+      const slots = Math.max(1, slot + (offset > 0 ? 1 : 0));
+      return { bytes: slots * SLOT_BYTES, packed: false };
+    }
+    default:
+      return { bytes: SLOT_BYTES, packed: false };
+  }
+}
+
+function storageStart(entry: StorageEntry): number {
+  return entry.slot * SLOT_BYTES + entry.offset;
+}
+
+function storageEnd(entry: StorageEntry): number {
+  return storageStart(entry) + entry.bytes;
+}
+
+function position(entry: StorageEntry): string {
+  return entry.offset > 0
+    ? `slot ${entry.slot}, offset ${entry.offset}`
+    : `slot ${entry.slot}`;
+}
@@ -0,0 +1,3682 @@
+// Stylus (Rust) code generation from the contract model
+import * as ast from '../parser/ast';
+import {
+  ContractModel,
+  FunctionModel,
+  StateVariable,
+  StructModel,
+  forEachExpression,
+  forEachStatement,
+  isStateAccess,
+  isStateRooted,
+  loopVariableType,
+  raisedError,
+  reportError,
+  reportWarning,
+} from '../semantic/model';
+import { inferType, isIntegerLiteral } from '../semantic/infer';
+import {
+  ADDRESS,
+  ContractType,
+  UINT256,
+  UNKNOWN,
+  formatType,
+  isArrayType,
+  isInteger,
+  primitiveType,
+  resolveTypeAnnotation,
+} from '../semantic/types';
+import { LocalPlan, assignedNames, planLocals } from './locals';
+import { headerRange, joinLines, OutputLine, SourceRange } from './sourcemap';
+import { SourceMap } from '../types';
+
+/** stylus-sdk release the generated crates are written against */
+export const STYLUS_SDK_VERSION = '0.6.0';
+const ALLOY_VERSION = '0.7.6';
+
+const INDENT = '    ';
+
+/** Rust keywords and the generated helper functions */
+const RUST_RESERVED = new Set([
+  'abstract',
+  'as',
+  'async',
+  'await',
+  'become',
+  'box',
+  'break',
+  'const',
+  'continue',
+  'crate',
+  'do',
+  'dyn',
+  'else',
+  'enum',
+  'extern',
+  'false',
+  'final',
+  'fn',
+  'for',
+  'if',
+  'impl',
+  'in',
+  'let',
+  'loop',
+  'macro',
+  'match',
+  'mod',
+  'move',
+  'mut',
+  'override',
+  'priv',
+  'pub',
+  'ref',
+  'return',
+  'self',
+  'static',
+  'struct',
+  'super',
+  'trait',
+  'true',
+  'try',
+  'type',
+  'typeof',
+  'union',
+  'unsafe',
+  'unsized',
+  'use',
+  'virtual',
+  'where',
+  'while',
+  'yield',
+  'checked',
+  'panic_code',
+  'revert_message',
+]);
+
+/** Operator precedence, higher binds tighter */
+const enum Precedence {
+  Lowest = 0,
+  Or = 3,
+  And = 4,
+  Compare = 5,
+  BitOr = 6,
+  BitXor = 7,
+  BitAnd = 8,
+  Shift = 9,
+  Unary = 13,
+  Postfix = 14,
+}
+
+/** Checked arithmetic and the Solidity panic code raised on failure */
+const CHECKED_OPERATORS: Partial<Record<ast.BinaryOperator, [string, string]>> =
+  {
+    '+': ['checked_add', '0x11'],
+    '-': ['checked_sub', '0x11'],
+    '*': ['checked_mul', '0x11'],
+    '**': ['checked_pow', '0x11'],
+    '/': ['checked_div', '0x12'],
+    '//': ['checked_div', '0x12'],
+    '%': ['checked_rem', '0x12'],
+  };
+
+const BITWISE_OPERATORS: Partial<
+  Record<ast.BinaryOperator, [string, Precedence]>
+> = {
+  '&': ['&', Precedence.BitAnd],
+  '|': ['|', Precedence.BitOr],
+  '^': ['^', Precedence.BitXor],
+  '<<': ['<<', Precedence.Shift],
+  '>>': ['>>', Precedence.Shift],
+};
+
+const COMPARE_OPERATORS: Partial<Record<ast.CompareOperator, string>> = {
+  '==': '==',
+  '!=': '!=',
+  is: '==',
+  'is not': '!=',
+  '<': '<',
+  '<=': '<=',
+  '>': '>',
+  '>=': '>=',
+};
+
+const NEGATED_COMPARISONS: Record<string, string> = {
+  '==': '!=',
+  '!=': '==',
+  '<': '>=',
+  '<=': '>',
+  '>': '<=',
+  '>=': '<',
+};
+
+/** Environment members and the stylus-sdk calls that read them */
+const ENVIRONMENT: Record<string, { code: string; uses: string[] }> = {
+  'msg.sender': { code: 'msg::sender()', uses: ['msg'] },
+  'msg.value': { code: 'msg::value()', uses: ['msg'] },
+  'msg.gas': { code: 'U256::from(evm::gas_left())', uses: ['evm'] },
+  'block.timestamp': {
+    code: 'U256::from(block::timestamp())',
+    uses: ['block'],
+  },
+  'block.number': { code: 'U256::from(block::number())', uses: ['block'] },
+  'block.chainid': { code: 'U256::from(block::chainid())', uses: ['block'] },
+  'chain.id': { code: 'U256::from(block::chainid())', uses: ['block'] },
+  'block.basefee': { code: 'block::basefee()', uses: ['block'] },
+  'block.gaslimit': { code: 'U256::from(block::gas_limit())', uses: ['block'] },
+  'block.coinbase': { code: 'block::coinbase()', uses: ['block'] },
+  'tx.origin': { code: 'tx::origin()', uses: ['tx'] },
+  'tx.gasprice': { code: 'tx::gas_price()', uses: ['tx'] },
+};
+
+const WEI_DECIMALS: Record<string, number> = {
+  wei: 0,
+  gwei: 9,
+  ether: 18,
+};
+
+interface Code {
+  code: string;
+  prec: number;
+}
+
+interface FunctionScope extends LocalPlan {
+  /** Undefined while generating state variable initialisers */
+  fn?: FunctionModel;
+  /** Parameters and locals that are reassigned or mutated in place */
+  mutable: Set<string>;
+  /** `Ok(...)` value for a bare `return` */
+  unit: string;
+}
+
+/** One step from a state variable to the storage slot being accessed */
+type StorageStep =
+  | { kind: 'key'; code: string }
+  | { kind: 'index'; code: string }
+  | { kind: 'field'; name: string };
+
+/** A storage location such as `self.deposits[owner].amount` */
+interface StoragePlace {
+  field: string;
+  steps: StorageStep[];
+  type: ContractType;
+}
+
+export interface StylusCrate {
+  /** Cargo package name, the contract name in kebab-case */
+  name: string;
+  /** Crate files keyed by path relative to the crate root */
+  files: Record<string, string>;
+  /** Line mapping between the Python source and `src/lib.rs` */
+  sourceMap: SourceMap;
+}
+
+/**
+ * Generate a `stylus-sdk` crate for a contract model. Constructs that have
+ * no Stylus equivalent are reported on the model and skipped.
+ */
+export function generateStylus(model: ContractModel): StylusCrate {
+  return new StylusGenerator(model).generate();
+}
+
+/**
+ * Stylus programs have no constructor; `__init__` and initialised state
+ * become a one-time `init` method.
+ */
+export function stylusNeedsInit(model: ContractModel): boolean {
+  return (
+    model.init !== undefined ||
+    [...model.stateVariables.values()].some(
+      (variable) => !variable.constant && variable.value && !variable.inferred
+    )
+  );
+}
+
+class StylusGenerator {
+  private lines: OutputLine[] = [];
+  private depth = 0;
+  /** Python lines of the construct being translated */
+  private origin?: SourceRange;
+  private scope?: FunctionScope;
+  private readonly uses = new Set<string>(['prelude::*']);
+  private readonly helpers = new Map<string, string[]>();
+  /** State HashMaps that are iterated or membership-tested */
+  private readonly trackedMaps = new Set<string>();
+  /** Structs that are stored in contract state */
+  private readonly storedStructs = new Set<string>();
+  /** Set while generating an expression that borrows `self` mutably */
+  private borrowsSelfMutably = false;
+
+  /** Dialect name -> Rust identifier for fields (`var:`) and methods (`fn:`) */
+  private readonly memberNames = new Map<string, string>();
+  private readonly takenFields = new Set<string>();
+  private readonly takenMethods = new Set<string>();
+  private initializedFlag = 'initialized';
+
+  constructor(private readonly model: ContractModel) {}
+
+  generate(): StylusCrate {
+    const { model } = this;
+    this.findTrackedMaps();
+    this.findStoredStructs();
+    this.reserveMemberNames();
+
+    const body = this.captureBody();
+    const crate = snakeCase(model.name);
+
+    this.lines = [];
+    this.docstring(model.docstring, '//!');
+    if (!model.docstring) this.line(`//! ${model.name}, compiled by ArbitPy`);
+    this.line('#![cfg_attr(not(any(test, feature = "export-abi")), no_main)]');
+    // Solidity-style names such as `balanceOf` keep their ABI spelling
+    if (this.usesCamelCase()) this.line('#![allow(non_snake_case)]');
+    this.line('extern crate alloc;');
+    this.line();
+    this.emitUses();
+    this.line();
+    this.lines.push(...body);
+    this.trimTrailingBlank();
+
+    const name = crate.replace(/_/g, '-');
+    const lib = joinLines(this.lines);
+    return {
+      name,
+      files: {
+        'Cargo.toml': cargoToml(name),
+        'rust-toolchain.toml': '[toolchain]\nchannel = "1.81.0"\n',
+        'src/lib.rs': lib.code,
+        'src/main.rs': mainRs(crate),
+      },
+      sourceMap: lib.sourceMap,
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Declarations
+  // -------------------------------------------------------------------------
+
+  /**
+   * Mappings cannot be iterated or tested for membership in Stylus either.
+   * HashMaps used that way get a key list and a membership mapping that
+   * are kept up to date on every write.
+   */
+  private findTrackedMaps(): void {
+    const { model } = this;
+    const track = (expression: ast.Expression) => {
+      if (!isStateAccess(expression)) return;
+      const variable = model.stateVariables.get(expression.attr);
+      if (variable?.type.kind !== 'hashmap') return;
+      if (variable.type.value.kind === 'hashmap') {
+        reportError(
+          model,
+          expression,
+          'Only single-key HashMaps can be iterated or tested for membership'
+        );
+        return;
+      }
+      this.trackedMaps.add(expression.attr);
+    };
+
+    for (const fn of this.allFunctions()) {
+      forEachStatement(fn.node.body, (statement) => {
+        if (statement.kind === 'For') track(statement.iter);
+        forEachExpression([statement], (expression) => {
+          if (
+            expression.kind === 'Compare' &&
+            (expression.op === 'in' || expression.op === 'not in')
+          ) {
+            track(expression.right);
+          }
+        });
+      });
+    }
+  }
+
+  private findStoredStructs(): void {
+    const visit = (type: ContractType) => {
+      switch (type.kind) {
+        case 'struct': {
+          if (this.storedStructs.has(type.name)) return;
+          this.storedStructs.add(type.name);
+          for (const field of this.model.structs.get(type.name)?.fields ?? []) {
+            visit(field.type);
+          }
+          return;
+        }
+        case 'hashmap':
+          visit(type.value);
+          return;
+        case 'dynArray':
+        case 'array':
+          visit(type.element);
+          return;
+      }
+    };
+    for (const variable of this.model.stateVariables.values()) {
+      if (!variable.constant) visit(variable.type);
+    }
+  }
+
+  /**
+   * Storage fields and methods live in separate namespaces in Rust, so a
+   * public state variable keeps its name for both the field and its getter.
+   */
+  private reserveMemberNames(): void {
+    const { model } = this;
+    const reserve = (
+      name: string,
+      taken: Set<string>,
+      node: ast.Node | undefined,
+      what: string
+    ) => {
+      let rustName = name;
+      while (RUST_RESERVED.has(rustName) || taken.has(rustName)) {
+        rustName += '_';
+      }
+      if (rustName !== name && node) {
+        reportWarning(
+          model,
+          node,
+          `${what} '${name}' is renamed to '${rustName}' in Rust`
+        );
+      }
+      taken.add(rustName);
+      return rustName;
+    };
+
+    for (const fn of model.functions.values()) {
+      if (fn.isFallback) continue;
+      this.memberNames.set(
+        `fn:${fn.name}`,
+        reserve(fn.name, this.takenMethods, fn.node, 'Function')
+      );
+    }
+    for (const variable of model.stateVariables.values()) {
+      if (variable.constant) continue;
+      this.memberNames.set(
+        `var:${variable.name}`,
+        reserve(
+          variable.name,
+          this.takenFields,
+          variable.node,
+          'State variable'
+        )
+      );
+    }
+    for (const variable of model.stateVariables.values()) {
+      if (!variable.public || variable.constant) continue;
+      if (model.functions.has(variable.name)) {
+        reportWarning(
+          model,
+          variable.node,
+          `No getter is generated for '${variable.name}' because a function has the same name`
+        );
+        continue;
+      }
+      this.memberNames.set(
+        `get:${variable.name}`,
+        reserve(variable.name, this.takenMethods, undefined, 'Getter')
+      );
+    }
+    for (const name of this.trackedMaps) {
+      const field = this.fieldName(name);
+      reserve(`${field}_keys`, this.takenFields, undefined, '');
+      reserve(`${field}_tracked`, this.takenFields, undefined, '');
+      this.memberNames.set(
+        `track:${name}`,
+        reserve(`track_${field}`, this.takenMethods, undefined, '')
+      );
+    }
+    if (this.needsInit()) {
+      this.initializedFlag = reserve(
+        'initialized',
+        this.takenFields,
+        undefined,
+        ''
+      );
+      this.memberNames.set(
+        'fn:__init__',
+        reserve('init', this.takenMethods, model.init?.node, 'Function')
+      );
+    }
+  }
+
+  private usesCamelCase(): boolean {
+    const { model } = this;
+    const names = [
+      ...model.stateVariables.keys(),
+      ...[...model.structs.values()].flatMap((struct) =>
+        struct.fields.map((field) => field.name)
+      ),
+      ...this.allFunctions().flatMap((fn) => [
+        fn.name,
+        ...fn.params.map((param) => param.name),
+        ...planLocals(model, fn, RUST_RESERVED, new Set()).names.keys(),
+      ]),
+    ];
+    return names.some(
+      (name) => /[A-Z]/.test(name) && !/^[A-Z0-9_]+$/.test(name)
+    );
+  }
+
+  private needsInit(): boolean {
+    return stylusNeedsInit(this.model);
+  }
+
+  private allFunctions(): FunctionModel[] {
+    const functions = [...this.model.functions.values()];
+    if (this.model.init) functions.push(this.model.init);
+    return functions;
+  }
+
+  private fieldName(name: string): string {
+    return this.memberNames.get(`var:${name}`) ?? name;
+  }
+
+  private methodName(name: string): string {
+    return this.memberNames.get(`fn:${name}`) ?? name;
+  }
+
+  private captureBody(): OutputLine[] {
+    const { model } = this;
+    const outer = this.lines;
+    this.lines = [];
+
+    // Functions first so that imports and helpers are known
+    const publicLines = this.captureLines(() => this.emitPublicFunctions());
+    const internalLines = this.captureLines(() => {
+      for (const fn of model.functions.values()) {
+        if (fn.visibility !== 'internal') continue;
+        this.at(headerRange(fn.node), () => this.emitFunction(fn));
+        this.line();
+      }
+      for (const name of this.trackedMaps) this.emitTrackHelper(name);
+    });
+
+    const constants = [...model.stateVariables.values()].filter(
+      (variable) => variable.constant
+    );
+    for (const constant of constants) {
+      this.at(constant.node, () => this.emitConstant(constant));
+    }
+    if (constants.length > 0) this.line();
+
+    if (model.interfaces.size > 0) {
+      this.line('sol_interface! {');
+      this.depth++;
+      for (const iface of model.interfaces.values()) {
+        this.line(`interface ${iface.name} {`);
+        this.depth++;
+        for (const fn of iface.functions.values()) {
+          const params = fn.params.map(
+            (param) => `${this.solidityType(param.type)} ${param.name}`
+          );
+          const mutability =
+            fn.mutability === 'nonpayable' ? '' : ` ${fn.mutability}`;
+          const returns = fn.returns
+            ? ` returns (${this.solidityReturns(fn.returns)})`
+            : '';
+          this.line(
+            `function ${fn.name}(${params.join(', ')}) external${mutability}${returns};`
+          );
+        }
+        this.depth--;
+        this.line('}');
+      }
+      this.depth--;
+      this.line('}');
+      this.line();
+    }
+
+    if (model.events.size > 0 || model.customErrors.size > 0) {
+      this.use('alloy_sol_types::sol');
+      this.line('sol! {');
+      this.depth++;
+      for (const event of model.events.values()) {
+        const fields = event.fields.map(
+          (field) =>
+            `${this.solidityType(field.type, event.node)}${field.indexed ? ' indexed' : ''} ${field.name}`
+        );
+        this.at(event.node, () =>
+          this.line(`event ${event.name}(${fields.join(', ')});`)
+        );
+      }
+      for (const error of model.customErrors.values()) {
+        const fields = error.fields.map(
+          (field) =>
+            `${this.solidityType(field.type, error.node)} ${field.name}`
+        );
+        this.at(error.node, () =>
+          this.line(`error ${error.name}(${fields.join(', ')});`)
+        );
+      }
+      this.depth--;
+      this.line('}');
+      this.line();
+    }
+
+    for (const struct of model.structs.values()) {
+      this.at(struct.node, () => {
+        this.line('#[derive(Clone, PartialEq)]');
+        this.line(`pub struct ${struct.name} {`);
+        this.depth++;
+        for (const field of struct.fields) {
+          this.at(field.node ?? struct.node, () =>
+            this.line(
+              `pub ${field.name}: ${this.typeName(field.type, field.node)},`
+            )
+          );
+        }
+        this.depth--;
+        this.line('}');
+      });
+      this.line();
+    }
+
+    this.line('sol_storage! {');
+    this.depth++;
+    for (const struct of model.structs.values()) {
+      if (!this.storedStructs.has(struct.name)) continue;
+      this.line(`pub struct ${storageStructName(struct.name)} {`);
+      this.depth++;
+      for (const field of struct.fields) {
+        this.line(`${this.storageType(field.type, field.node)} ${field.name};`);
+      }
+      this.depth--;
+      this.line('}');
+      this.line();
+    }
+    this.line('#[entrypoint]');
+    this.line(`pub struct ${model.name} {`);
+    this.depth++;
+    for (const variable of model.stateVariables.values()) {
+      if (variable.constant) continue;
+      this.at(variable.node, () =>
+        this.line(
+          `${this.storageType(variable.type, variable.node)} ${this.fieldName(variable.name)};`
+        )
+      );
+    }
+    for (const name of this.trackedMaps) {
+      const type = model.stateVariables.get(name)!.type;
+      if (type.kind !== 'hashmap') continue;
+      const key = this.storageType(type.key);
+      const field = this.fieldName(name);
+      this.line(`${key}[] ${field}_keys;`);
+      this.line(`mapping(${key} => bool) ${field}_tracked;`);
+    }
+    if (this.needsInit()) this.line(`bool ${this.initializedFlag};`);
+    this.depth--;
+    this.line('}');
+    this.depth--;
+    this.line('}');
+    this.line();
+
+    for (const struct of model.structs.values()) {
+      if (this.storedStructs.has(struct.name)) this.emitStructAccessors(struct);
+    }
+
+    this.line('#[public]');
+    this.line(`impl ${model.name} {`);
+    this.lines.push(...publicLines);
+    this.trimTrailingBlank();
+    this.line('}');
+    this.line();
+
+    if (internalLines.length > 0) {
+      this.line(`impl ${model.name} {`);
+      this.lines.push(...internalLines);
+      this.trimTrailingBlank();
+      this.line('}');
+      this.line();
+    }
+
+    for (const helper of this.helpers.values()) {
+      for (const text of helper) this.line(text);
+      this.line();
+    }
+
+    const body = this.lines;
+    this.lines = outer;
+    return body;
+  }
+
+  private captureLines(callback: () => void): OutputLine[] {
+    const outer = this.lines;
+    this.lines = [];
+    this.depth++;
+    callback();
+    this.depth--;
+    const captured = this.lines;
+    this.lines = outer;
+    return captured;
+  }
+
+  private emitUses(): void {
+    const groups = new Map<string, string[]>();
+    const modules: string[] = [];
+    for (const path of this.uses) {
+      const split = path.lastIndexOf('::');
+      if (split < 0 || path.endsWith('::*')) {
+        modules.push(path);
+        continue;
+      }
+      const prefix = path.slice(0, split);
+      if (!groups.has(prefix)) groups.set(prefix, []);
+      groups.get(prefix)!.push(path.slice(split + 2));
+    }
+    const items = [
+      ...[...groups].map(([prefix, names]) =>
+        names.length === 1
+          ? `${prefix}::${names[0]}`
+          : `${prefix}::{${names.sort(compareIdentifiers).join(', ')}}`
+      ),
+      ...modules,
+    ].sort(compareIdentifiers);
+
+    this.line('use stylus_sdk::{');
+    this.depth++;
+    for (const item of items) this.line(`${item},`);
+    this.depth--;
+    this.line('};');
+  }
+
+  private emitConstant(variable: StateVariable): void {
+    const { type } = variable;
+    const value = variable.value;
+    let code: string | undefined;
+    if (value) {
+      const folded = this.foldInteger(value);
+      if (folded !== undefined && isInteger(type)) {
+        code = this.integerLiteral(folded, type, value);
+      } else if (value.kind === 'BooleanLiteral' && type.kind === 'bool') {
+        code = value.value ? 'true' : 'false';
+      } else if (value.kind === 'StringLiteral' && type.kind === 'string') {
+        this.line(`const ${variable.name}: &str = ${rustString(value.value)};`);
+        return;
+      } else if (
+        value.kind === 'NumberLiteral' &&
+        (type.kind === 'address' || type.kind === 'fixedBytes')
+      ) {
+        code = this.hexLiteral(value, type);
+      } else if (
+        value.kind === 'Name' &&
+        this.builtinConstant(value.id) !== undefined
+      ) {
+        code = this.builtinConstant(value.id);
+      }
+    }
+    if (code === undefined) {
+      reportError(
+        this.model,
+        variable.node,
+        `Constant '${variable.name}' must be a literal for the Stylus backend`
+      );
+      code = this.zeroValue(type, variable.node);
+    }
+    this.line(
+      `const ${variable.name}: ${this.typeName(type, variable.node)} = ${code};`
+    );
+  }
+
+  /**
+   * Stored structs get a `load`/`store` pair that copies them to and from
+   * the plain struct used for values.
+   */
+  private emitStructAccessors(struct: StructModel): void {
+    this.line(`impl ${storageStructName(struct.name)} {`);
+    this.depth++;
+    this.line(`fn load(&self) -> ${struct.name} {`);
+    this.depth++;
+    this.line(`${struct.name} {`);
+    this.depth++;
+    for (const field of struct.fields) {
+      const place: StoragePlace = {
+        field: field.name,
+        steps: [],
+        type: field.type,
+      };
+      this.line(
+        `${field.name}: ${this.readPlace(place, field.node ?? struct.node)},`
+      );
+    }
+    this.depth--;
+    this.line('}');
+    this.depth--;
+    this.line('}');
+    this.line();
+    this.line(`fn store(&mut self, value: ${struct.name}) {`);
+    this.depth++;
+    for (const field of struct.fields) {
+      const place: StoragePlace = {
+        field: field.name,
+        steps: [],
+        type: field.type,
+      };
+      for (const text of this.writePlace(
+        place,
+        `value.${field.name}`,
+        field.node ?? struct.node
+      )) {
+        this.line(text);
+      }
+    }
+    this.depth--;
+    this.line('}');
+    this.depth--;
+    this.line('}');
+    this.line();
+  }
+
+  private emitTrackHelper(name: string): void {
+    const type = this.model.stateVariables.get(name)!.type;
+    if (type.kind !== 'hashmap') return;
+    const field = this.fieldName(name);
+    this.line(
+      `fn ${this.memberNames.get(`track:${name}`)}(&mut self, key: ${this.typeName(type.key)}) {`
+    );
+    this.depth++;
+    this.line(`if !self.${field}_tracked.get(key) {`);
+    this.depth++;
+    this.line(`self.${field}_tracked.insert(key, true);`);
+    this.line(`self.${field}_keys.push(key);`);
+    this.depth--;
+    this.line('}');
+    this.depth--;
+    this.line('}');
+    this.line();
+  }
+
+  /** Record the key of a write into a tracked HashMap */
+  private trackWrite(target: ast.Expression): void {
+    let current = target;
+    while (current.kind === 'Subscript' || current.kind === 'Attribute') {
+      if (
+        current.kind === 'Subscript' &&
+        isStateAccess(current.object) &&
+        this.trackedMaps.has(current.object.attr)
+      ) {
+        const type = this.model.stateVariables.get(current.object.attr)!.type;
+        const key = this.expressionFor(
+          current.index,
+          type.kind === 'hashmap' ? type.key : UNKNOWN
+        );
+        this.line(
+          `self.${this.memberNames.get(`track:${current.object.attr}`)}(${key});`
+        );
+        return;
+      }
+      current = current.object;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Functions
+  // -------------------------------------------------------------------------
+
+  private emitPublicFunctions(): void {
+    const { model } = this;
+    if (this.needsInit()) {
+      if (model.init) {
+        this.at(headerRange(model.init.node), () => this.emitInit());
+      } else {
+        this.emitInit();
+      }
+      this.line();
+    }
+    for (const variable of model.stateVariables.values()) {
+      if (this.memberNames.has(`get:${variable.name}`)) {
+        this.at(variable.node, () => this.emitGetter(variable));
+        this.line();
+      }
+    }
+    for (const fn of model.functions.values()) {
+      if (fn.visibility !== 'public') continue;
+      this.at(headerRange(fn.node), () => this.emitFunction(fn));
+      this.line();
+    }
+  }
+
+  /**
+   * Stylus programs have no constructor. `__init__` becomes an `init`
+   * method that can only be called once.
+   */
+  private emitInit(): void {
+    const { model } = this;
+    const init = model.init;
+    const scope = init
+      ? this.planFunction(init)
+      : this.emptyScope({ unit: 'Ok(())' });
+    this.scope = scope;
+
+    if (init?.node.docstring) this.docstring(init.node.docstring);
+    this.line('/// Initializes the contract; can only be called once');
+    const name = this.methodName('__init__');
+    if (name !== 'init') this.line('#[selector(name = "init")]');
+    if (init?.mutability === 'payable') this.line('#[payable]');
+    const params = init ? this.parameters(init, scope) : [];
+    this.line(
+      `pub fn ${name}(${['&mut self', ...params].join(', ')}) -> Result<(), Vec<u8>> {`
+    );
+    this.depth++;
+    this.line(`if self.${this.initializedFlag}.get() {`);
+    this.depth++;
+    this.line(`return Err(${this.revertMessage('"Already initialized"')});`);
+    this.depth--;
+    this.line('}');
+    this.line(`self.${this.initializedFlag}.set(true);`);
+
+    for (const variable of model.stateVariables.values()) {
+      if (variable.constant || !variable.value || variable.inferred) continue;
+      const target: ast.Attribute = {
+        kind: 'Attribute',
+        object: { ...variable.value, kind: 'Name', id: 'self' },
+        attr: variable.name,
+        line: variable.value.line,
+        column: variable.value.column,
+        endLine: variable.value.endLine,
+        endColumn: variable.value.endColumn,
+      };
+      this.at(variable.node, () =>
+        this.assignStorage(target, variable.value!, variable.node)
+      );
+    }
+    if (init) this.block(init.node.body, true);
+    if (!endsWithExit(init?.node.body ?? [])) this.line('Ok(())');
+    this.depth--;
+    this.line('}');
+    this.scope = undefined;
+  }
+
+  /** Solidity generates getters for public state; Stylus needs them spelled out */
+  private emitGetter(variable: StateVariable): void {
+    this.scope = this.emptyScope({ unit: 'Ok(())' });
+    const name = this.memberNames.get(`get:${variable.name}`)!;
+    const params: string[] = [];
+    const steps: StorageStep[] = [];
+    let type = variable.type;
+    while (
+      type.kind === 'hashmap' ||
+      type.kind === 'dynArray' ||
+      type.kind === 'array'
+    ) {
+      const param = `arg${params.length}`;
+      if (type.kind === 'hashmap') {
+        params.push(`${param}: ${this.typeName(type.key, variable.node)}`);
+        steps.push({ kind: 'key', code: param });
+        type = type.value;
+      } else {
+        params.push(`${param}: U256`);
+        this.use('alloy_primitives::U256');
+        steps.push({ kind: 'index', code: param });
+        type = type.element;
+      }
+    }
+
+    const place: StoragePlace = {
+      field: this.fieldName(variable.name),
+      steps,
+      type,
+    };
+    let value = `self.${this.accessPlace(place, 'read')}`;
+    let returns: string;
+    if (type.kind === 'struct') {
+      // Like Solidity, struct getters return the fields as a tuple and
+      // leave out arrays
+      const struct = this.model.structs.get(type.name)!;
+      const fields = struct.fields
+        .filter((field) => !isArrayType(field.type))
+        .map((field) => ({ name: field.name, type: field.type }));
+      returns = `(${fields.map((field) => this.typeName(field.type)).join(', ')})`;
+      const base = value;
+      this.line(
+        `pub fn ${name}(${['&self', ...params].join(', ')}) -> Result<${returns}, Vec<u8>> {`
+      );
+      this.depth++;
+      this.line(`let value = ${base};`);
+      value = `(${fields
+        .map((field) =>
+          this.readPlace(
+            { field: `value.${field.name}`, steps: [], type: field.type },
+            variable.node,
+            ''
+          )
+        )
+        .join(', ')})`;
+      this.line(`Ok(${value})`);
+      this.depth--;
+      this.line('}');
+      this.scope = undefined;
+      return;
+    }
+
+    returns = this.typeName(type, variable.node);
+    value = this.readPlace(place, variable.node);
+    if (lowerCamelCase(name) !== variable.name) {
+      this.line(`#[selector(name = "${variable.name}")]`);
+    }
+    this.line(
+      `pub fn ${name}(${['&self', ...params].join(', ')}) -> Result<${returns}, Vec<u8>> {`
+    );
+    this.depth++;
+    // Out-of-range indexes already return the panic as the error
+    this.line(value.endsWith('?') ? value.slice(0, -1) : `Ok(${value})`);
+    this.depth--;
+    this.line('}');
+    this.scope = undefined;
+  }
+
+  private emitFunction(fn: FunctionModel): void {
+    const scope = this.planFunction(fn);
+    this.scope = scope;
+    const isPublic = fn.visibility === 'public';
+
+    for (const param of fn.params) {
+      if (isPublic && containsStruct(param.type, this.model)) {
+        reportError(
+          this.model,
+          param.node,
+          'Struct parameters of public functions are not supported by the Stylus backend'
+        );
+      }
+    }
+    if (isPublic && fn.returns && containsStruct(fn.returns, this.model)) {
+      reportError(
+        this.model,
+        fn.node,
+        'Returning structs from public functions is not supported by the Stylus backend'
+      );
+    }
+
+    this.docstring(fn.node.docstring);
+    const receiver =
+      fn.mutability === 'view' || fn.mutability === 'pure'
+        ? '&self'
+        : '&mut self';
+    const params = this.parameters(fn, scope);
+
+    let header: string;
+    if (fn.isFallback) {
+      this.line('#[fallback]');
+      if (fn.mutability === 'payable') this.line('#[payable]');
+      header = `pub fn fallback(&mut self, _calldata: &[u8]) -> Result<Vec<u8>, Vec<u8>>`;
+    } else {
+      const name = this.methodName(fn.name);
+      if (isPublic) {
+        if (lowerCamelCase(name) !== fn.name) {
+          this.line(`#[selector(name = "${fn.name}")]`);
+        }
+        if (fn.mutability === 'payable') this.line('#[payable]');
+      }
+      header = `${isPublic ? 'pub ' : ''}fn ${name}(${[receiver, ...params].join(', ')}) -> ${this.resultType(fn)}`;
+    }
+
+    this.line(`${header} {`);
+    this.depth++;
+    this.block(fn.node.body, true);
+    if (!endsWithExit(fn.node.body)) {
+      this.line(
+        fn.returns ? `Ok(${this.zeroValue(fn.returns, fn.node)})` : scope.unit
+      );
+    }
+    this.depth--;
+    this.line('}');
+
+    if (isPublic && !fn.isFallback) this.emitDefaultOverloads(fn, scope);
+    this.scope = undefined;
+  }
+
+  /**
+   * Public functions with default arguments get one overload per omitted
+   * trailing argument, all sharing the function's ABI name.
+   */
+  private emitDefaultOverloads(fn: FunctionModel, scope: FunctionScope): void {
+    const firstDefault = fn.params.findIndex((param) => param.default);
+    if (firstDefault < 0) return;
+    const name = this.methodName(fn.name);
+    const receiver =
+      fn.mutability === 'view' || fn.mutability === 'pure'
+        ? '&self'
+        : '&mut self';
+
+    for (let count = fn.params.length - 1; count >= firstDefault; count--) {
+      const kept = fn.params.slice(0, count);
+      const params = kept.map(
+        (param) =>
+          `${scope.names.get(param.name)!}: ${this.typeName(param.type, param.node)}`
+      );
+      const args = fn.params.map((param, index) =>
+        index < count
+          ? scope.names.get(param.name)!
+          : this.expressionFor(param.default!, param.type)
+      );
+      const overload = this.uniqueMethod(`${name}_${count}`);
+
+      this.line();
+      this.line(`#[selector(name = "${fn.name}")]`);
+      if (fn.mutability === 'payable') this.line('#[payable]');
+      this.line(
+        `pub fn ${overload}(${[receiver, ...params].join(', ')}) -> ${this.resultType(fn)} {`
+      );
+      this.depth++;
+      this.line(`self.${name}(${args.join(', ')})`);
+      this.depth--;
+      this.line('}');
+    }
+  }
+
+  private uniqueMethod(name: string): string {
+    let rustName = name;
+    while (this.takenMethods.has(rustName)) rustName += '_';
+    this.takenMethods.add(rustName);
+    return rustName;
+  }
+
+  private resultType(fn: FunctionModel): string {
+    const returns = fn.returns ? this.typeName(fn.returns, fn.node) : '()';
+    return `Result<${returns}, Vec<u8>>`;
+  }
+
+  private parameters(fn: FunctionModel, scope: FunctionScope): string[] {
+    return fn.params.map((param) => {
+      const name = scope.names.get(param.name)!;
+      const mut = scope.mutable.has(param.name) ? 'mut ' : '';
+      return `${mut}${name}: ${this.typeName(param.type, param.node)}`;
+    });
+  }
+
+  private planFunction(fn: FunctionModel): FunctionScope {
+    const constants = [...this.model.stateVariables.values()]
+      .filter((variable) => variable.constant)
+      .map((variable) => variable.name);
+    const plan = planLocals(this.model, fn, RUST_RESERVED, new Set(constants));
+    return {
+      fn,
+      ...plan,
+      mutable: mutatedNames(fn, plan),
+      unit: fn.isFallback ? 'Ok(Vec::new())' : 'Ok(())',
+    };
+  }
+
+  private emptyScope(options: { unit: string }): FunctionScope {
+    return {
+      env: { model: this.model, locals: new Map() },
+      names: new Map(),
+      declareBefore: new Map(),
+      declareInline: new Set(),
+      mutable: new Set(),
+      unit: options.unit,
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Statements
+  // -------------------------------------------------------------------------
+
+  /** `tail` marks a function body, whose final `return` becomes its value */
+  private block(statements: ast.Statement[], tail = false): void {
+    statements.forEach((statement, index) => {
+      this.at(statement, () =>
+        this.statement(statement, tail && index === statements.length - 1)
+      );
+    });
+  }
+
+  private statement(statement: ast.Statement, tail = false): void {
+    const scope = this.scope!;
+    this.borrowsSelfMutably = false;
+    for (const name of scope.declareBefore.get(statement) ?? []) {
+      this.declareLocal(name, statement);
+    }
+
+    switch (statement.kind) {
+      case 'ExpressionStatement':
+        this.expressionStatement(statement);
+        break;
+      case 'Assign':
+        this.trackWrite(statement.target);
+        this.assign(statement);
+        break;
+      case 'AnnAssign':
+        this.annAssign(statement);
+        break;
+      case 'AugAssign':
+        this.trackWrite(statement.target);
+        this.augAssign(statement);
+        break;
+      case 'Return': {
+        const value = statement.value
+          ? `Ok(${this.expressionFor(statement.value, scope.fn?.returns ?? UNKNOWN)})`
+          : scope.unit;
+        this.line(tail ? value : `return ${value};`);
+        break;
+      }
+      case 'If':
+        this.ifStatement(statement, 'if');
+        break;
+      case 'For':
+        this.forStatement(statement);
+        break;
+      case 'While':
+        this.line(`while ${this.condition(statement.test)} {`);
+        this.nested(statement.body);
+        this.line('}');
+        break;
+      case 'Assert':
+        this.require(statement.test, statement.message);
+        break;
+      case 'Raise':
+        this.raise(statement);
+        break;
+      case 'Emit':
+        this.emitStatement(statement);
+        break;
+      case 'Pass':
+        break;
+      case 'Break':
+        this.line('break;');
+        break;
+      case 'Continue':
+        this.line('continue;');
+        break;
+    }
+  }
+
+  private nested(statements: ast.Statement[]): void {
+    this.depth++;
+    this.block(statements);
+    this.depth--;
+  }
+
+  private declareLocal(name: string, node: ast.Node): void {
+    const scope = this.scope!;
+    const type = scope.env.locals.get(name) ?? UNKNOWN;
+    const annotation =
+      type.kind === 'dynArray' ? `: ${this.typeName(type, node)}` : '';
+    this.line(
+      `let mut ${scope.names.get(name)}${annotation} = ${this.zeroValue(type, node)};`
+    );
+  }
+
+  private expressionStatement(statement: ast.ExpressionStatement): void {
+    const { expression } = statement;
+    // Bare string literals are docstrings or comments
+    if (expression.kind === 'StringLiteral') return;
+
+    if (
+      expression.kind === 'Call' &&
+      expression.callee.kind === 'Name' &&
+      (expression.callee.id === 'require' || expression.callee.id === 'assert')
+    ) {
+      this.require(expression.args[0], expression.args[1]);
+      return;
+    }
+
+    this.line(`${this.expression(expression).code};`);
+  }
+
+  /** `assert` and `require` return the revert data instead of panicking */
+  private require(
+    test: ast.Expression | undefined,
+    message: ast.Expression | undefined
+  ): void {
+    const error = this.errorData(message);
+    if (!test) {
+      this.line(`return Err(${error});`);
+      return;
+    }
+    this.line(`if ${this.negatedCondition(test)} {`);
+    this.depth++;
+    this.line(`return Err(${error});`);
+    this.depth--;
+    this.line('}');
+  }
+
+  private raise(statement: ast.Raise): void {
+    const error = raisedError(this.model, statement);
+    if (error) {
+      const call =
+        statement.exception?.kind === 'Call' ? statement.exception : undefined;
+      const args = this.orderArguments(
+        call ?? statement,
+        error.fields,
+        call?.args ?? [],
+        call?.keywords ?? [],
+        `Error '${error.name}'`
+      );
+      if (!args) return;
+      this.use('alloy_sol_types::SolError');
+      const fields = error.fields.map((field, index) =>
+        fieldInit(
+          field.name,
+          this.toSolidityValue(args[index], field.type, statement)
+        )
+      );
+      const value =
+        fields.length > 0
+          ? `${error.name} { ${fields.join(', ')} }`
+          : `${error.name} {}`;
+      this.line(`return Err(${value}.abi_encode());`);
+      return;
+    }
+    let message = statement.exception;
+    if (message?.kind === 'Call' && message.args.length > 0) {
+      message = message.args[0];
+    }
+    this.line(
+      `return Err(${this.errorData(message?.kind === 'StringLiteral' ? message : undefined)});`
+    );
+  }
+
+  /** Revert data for an optional message, encoded as Solidity's Error(string) */
+  private errorData(message: ast.Expression | undefined): string {
+    // Vyper's `assert x, UNREACHABLE` has no message
+    if (!message || message.kind === 'Name') return 'Vec::new()';
+    if (message.kind === 'StringLiteral') {
+      return this.revertMessage(rustString(message.value));
+    }
+    return this.revertMessage(`&${this.expression(message).code}`);
+  }
+
+  private emitStatement(statement: ast.Emit): void {
+    const event = this.model.events.get(statement.event);
+    if (!event) {
+      reportError(this.model, statement, `Unknown event '${statement.event}'`);
+      return;
+    }
+    const args = this.orderArguments(
+      statement,
+      event.fields.map((field) => ({ name: field.name, type: field.type })),
+      statement.args,
+      statement.keywords,
+      `Event '${event.name}'`
+    );
+    if (!args) return;
+    this.use('evm');
+    const fields = event.fields.map((field, index) =>
+      fieldInit(
+        field.name,
+        this.toSolidityValue(args[index], field.type, statement)
+      )
+    );
+    this.line(`evm::log(${event.name} { ${fields.join(', ')} });`);
+  }
+
+  private orderArguments(
+    node: ast.Node,
+    params: Array<{
+      name: string;
+      type: ContractType;
+      default?: ast.Expression;
+    }>,
+    args: ast.Expression[],
+    keywords: ast.Keyword[],
+    what: string
+  ): string[] | undefined {
+    const values: Array<ast.Expression | undefined> = params.map(
+      (_, index) => args[index]
+    );
+    for (const keyword of keywords) {
+      const index = params.findIndex((param) => param.name === keyword.name);
+      if (index < 0) {
+        reportError(
+          this.model,
+          keyword,
+          `${what} has no parameter '${keyword.name}'`
+        );
+        return undefined;
+      }
+      values[index] = keyword.value;
+    }
+    if (args.length > params.length) {
+      reportError(
+        this.model,
+        node,
+        `${what} expects ${params.length} argument${params.length === 1 ? '' : 's'}, got ${args.length}`
+      );
+      return undefined;
+    }
+
+    const result: string[] = [];
+    for (let index = 0; index < params.length; index++) {
+      const value = values[index] ?? params[index].default;
+      if (!value) {
+        reportError(
+          this.model,
+          node,
+          `${what} is missing argument '${params[index].name}'`
+        );
+        return undefined;
+      }
+      result.push(this.expressionFor(value, params[index].type));
+    }
+    return result;
+  }
+
+  private ifStatement(statement: ast.If, keyword: 'if' | '} else if'): void {
+    this.line(`${keyword} ${this.condition(statement.test)} {`);
+    this.nested(statement.body);
+    const [elif] = statement.orelse;
+    if (statement.orelse.length === 1 && elif.kind === 'If') {
+      this.ifStatement(elif, '} else if');
+      return;
+    }
+    if (statement.orelse.length > 0) {
+      this.line('} else {');
+      this.nested(statement.orelse);
+    }
+    this.line('}');
+  }
+
+  private forStatement(statement: ast.For): void {
+    const scope = this.scope!;
+    const name = scope.names.get(statement.target.id) ?? statement.target.id;
+    const { iter } = statement;
+    const loopType = loopVariableType(statement, scope.env);
+    const previous = scope.env.locals.get(statement.target.id);
+    scope.env.locals.set(statement.target.id, loopType);
+
+    if (
+      iter.kind === 'Call' &&
+      iter.callee.kind === 'Name' &&
+      iter.callee.id === 'range'
+    ) {
+      this.rangeLoop(statement, name, loopType);
+    } else {
+      const iterType = inferType(iter, scope.env);
+      const place = this.storagePlace(iter);
+      if (
+        iterType.kind === 'hashmap' &&
+        isStateAccess(iter) &&
+        this.trackedMaps.has(iter.attr)
+      ) {
+        const keys = `self.${this.fieldName(iter.attr)}_keys`;
+        this.line(`for ${name}_index in 0..${keys}.len() {`);
+        this.depth++;
+        this.line(`let ${name} = ${keys}.get(${name}_index).unwrap();`);
+        this.block(statement.body);
+        this.depth--;
+        this.line('}');
+      } else if (iterType.kind === 'hashmap') {
+        reportError(
+          this.model,
+          iter,
+          'Only HashMaps stored in contract state can be iterated'
+        );
+      } else if (iterType.kind !== 'dynArray' && iterType.kind !== 'array') {
+        reportError(
+          this.model,
+          iter,
+          `Cannot iterate over ${formatType(iterType)}`
+        );
+      } else if (place) {
+        // Index storage arrays so the body is free to write to `self`
+        const index = `${name}_index`;
+        const length = `self.${this.accessPlace(place, 'read')}.len()`;
+        this.line(`for ${index} in 0..${length} {`);
+        this.depth++;
+        const element: StoragePlace = {
+          ...place,
+          steps: [...place.steps, { kind: 'index', code: index }],
+          type: loopType,
+        };
+        this.line(`let ${name} = ${this.readPlace(element, statement)};`);
+        this.block(statement.body);
+        this.depth--;
+        this.line('}');
+      } else {
+        this.line(`for ${name} in ${this.expressionFor(iter, iterType)} {`);
+        this.nested(statement.body);
+        this.line('}');
+      }
+    }
+
+    if (previous) scope.env.locals.set(statement.target.id, previous);
+  }
+
+  /** `range()` loops count in u64 and convert, since U256 is not iterable */
+  private rangeLoop(
+    statement: ast.For,
+    name: string,
+    loopType: ContractType
+  ): void {
+    const iter = statement.iter as ast.Call;
+    if (loopType.kind !== 'uint') {
+      reportError(
+        this.model,
+        iter,
+        `range() over ${formatType(loopType)} is not supported by the Stylus backend`
+      );
+      return;
+    }
+    const [first, second] = iter.args;
+    const bound = (expression: ast.Expression | undefined) => {
+      if (!expression) return '0';
+      const folded = this.foldInteger(expression);
+      if (folded !== undefined) return folded.toString();
+      return `${this.wrap(this.expression(expression), Precedence.Postfix)}.to::<u64>()`;
+    };
+    const start = second ? bound(first) : '0';
+    const end = bound(second ?? first);
+    const type = this.typeName(loopType, statement);
+    this.line(`for ${name} in (${start}..${end}).map(${type}::from) {`);
+    this.nested(statement.body);
+    this.line('}');
+  }
+
+  // -------------------------------------------------------------------------
+  // Assignments
+  // -------------------------------------------------------------------------
+
+  private assign(statement: ast.Assign): void {
+    const { target, value } = statement;
+    const scope = this.scope!;
+
+    if (target.kind === 'TupleExpr') {
+      if (target.elements.some((element) => element.kind !== 'Name')) {
+        reportError(
+          this.model,
+          target,
+          'Only local variables can be assigned from a tuple in the Stylus backend'
+        );
+        return;
+      }
+      const names = target.elements.map(
+        (element) => this.expression(element).code
+      );
+      this.line(`(${names.join(', ')}) = ${this.expression(value).code};`);
+      return;
+    }
+
+    if (isStateRooted(target)) {
+      this.assignStorage(target, value, statement);
+      return;
+    }
+
+    const targetType = inferType(target, scope.env);
+    if (target.kind === 'Name' && scope.declareInline.has(statement)) {
+      this.declareWithValue(target.id, value, statement);
+      return;
+    }
+    this.line(
+      `${this.localTarget(target)} = ${this.expressionFor(value, targetType)};`
+    );
+  }
+
+  private assignStorage(
+    target: ast.Expression,
+    value: ast.Expression,
+    node: ast.Node
+  ): void {
+    // `self.x = DynArray[...]` only declares the variable
+    if (isTypeExpression(value)) return;
+    if (isStateAccess(target) && !this.model.stateVariables.has(target.attr)) {
+      // Unused `self.x = {}` was dropped from the model with a warning
+      if (value.kind === 'DictExpr' && value.entries.length === 0) return;
+    }
+
+    const place = this.storagePlace(target);
+    if (!place) {
+      reportError(this.model, target, 'Invalid assignment target');
+      return;
+    }
+    if (value.kind === 'DictExpr' && place.type.kind === 'hashmap') {
+      const valueType = place.type.value;
+      for (const entry of value.entries) {
+        if (isStateAccess(target) && this.trackedMaps.has(target.attr)) {
+          this.line(
+            `self.${this.memberNames.get(`track:${target.attr}`)}(${this.expression(entry.key).code});`
+          );
+        }
+        const entryPlace: StoragePlace = {
+          ...place,
+          steps: [
+            ...place.steps,
+            {
+              kind: 'key',
+              code: this.expressionFor(entry.key, place.type.key),
+            },
+          ],
+          type: valueType,
+        };
+        this.writeStatement(
+          entryPlace,
+          this.expressionFor(entry.value, valueType),
+          node
+        );
+      }
+      return;
+    }
+    if (place.type.kind === 'dynArray' && value.kind === 'ListExpr') {
+      const element = place.type.element;
+      const array = `self.${this.accessPlace(place, 'write')}`;
+      this.use('storage::Erase');
+      this.line(`${array}.erase();`);
+      for (const item of value.elements) {
+        this.line(
+          `${this.pushPlace(array, element, this.expressionFor(item, element), node)};`
+        );
+      }
+      return;
+    }
+    if (place.type.kind === 'hashmap') {
+      reportError(
+        this.model,
+        value,
+        'Only dict literals can be assigned to a HashMap'
+      );
+      return;
+    }
+    this.writeStatement(place, this.expressionFor(value, place.type), node);
+  }
+
+  /**
+   * Write `value` to a storage place. Writes go through a mutable storage
+   * guard, so values that read `self` are computed first.
+   */
+  private writeStatement(
+    place: StoragePlace,
+    value: string,
+    node: ast.Node
+  ): void {
+    const mentionsSelf = (code: string) => /\bself\b/.test(code);
+    const keys = place.steps.filter(
+      (step): step is Extract<StorageStep, { code: string }> =>
+        step.kind !== 'field'
+    );
+    const hoistKeys = keys.slice(1).some((step) => mentionsSelf(step.code));
+    const hoistValue =
+      this.borrowsSelfMutably ||
+      (place.steps.length > 0 && mentionsSelf(value));
+    this.borrowsSelfMutably = false;
+
+    if (!hoistKeys && !hoistValue) {
+      for (const text of this.writePlace(place, value, node)) {
+        this.line(text);
+      }
+      return;
+    }
+
+    this.line('{');
+    this.depth++;
+    const steps = place.steps.map((step, index) => {
+      if (step.kind === 'field' || !hoistKeys) return step;
+      this.line(`let key${index} = ${step.code};`);
+      return { ...step, code: `key${index}` };
+    });
+    this.line(`let value = ${value};`);
+    for (const text of this.writePlace({ ...place, steps }, 'value', node)) {
+      this.line(text);
+    }
+    this.depth--;
+    this.line('}');
+  }
+
+  private declareWithValue(
+    name: string,
+    value: ast.Expression,
+    node: ast.Node
+  ): void {
+    const scope = this.scope!;
+    const type = scope.env.locals.get(name) ?? UNKNOWN;
+    const rustName = scope.names.get(name)!;
+    const mut = scope.mutable.has(name) ? 'mut ' : '';
+    const annotation =
+      type.kind === 'dynArray' && value.kind === 'ListExpr'
+        ? `: ${this.typeName(type, node)}`
+        : '';
+    this.line(
+      `let ${mut}${rustName}${annotation} = ${this.expressionFor(value, type)};`
+    );
+  }
+
+  private annAssign(statement: ast.AnnAssign): void {
+    const scope = this.scope!;
+    const name = statement.target.id;
+    if (scope.declareInline.has(statement)) {
+      if (statement.value) {
+        this.declareWithValue(name, statement.value, statement);
+      } else {
+        this.declareLocal(name, statement);
+      }
+      return;
+    }
+    if (statement.value) {
+      this.assign({
+        kind: 'Assign',
+        target: statement.target,
+        value: statement.value,
+        line: statement.line,
+        column: statement.column,
+        endLine: statement.endLine,
+        endColumn: statement.endColumn,
+      });
+    }
+  }
+
+  private augAssign(statement: ast.AugAssign): void {
+    const scope = this.scope!;
+    const type = inferType(statement.target, scope.env);
+    const place = isStateRooted(statement.target)
+      ? this.storagePlace(statement.target)
+      : undefined;
+    const current = place
+      ? { code: this.readPlace(place, statement), prec: Precedence.Postfix }
+      : this.expression(statement.target);
+    const result = this.arithmetic(
+      statement.op,
+      current,
+      statement.value,
+      type,
+      statement
+    );
+
+    if (place) {
+      this.writeStatement(place, result.code, statement);
+      return;
+    }
+    this.line(`${this.localTarget(statement.target)} = ${result.code};`);
+  }
+
+  /** Assignable Rust expression for a local, a local's field or element */
+  private localTarget(target: ast.Expression): string {
+    if (target.kind === 'Subscript') {
+      const object = this.localTarget(target.object);
+      return `${object}[${this.usizeIndex(target.index)}]`;
+    }
+    if (target.kind === 'Attribute') {
+      return `${this.localTarget(target.object)}.${target.attr}`;
+    }
+    if (target.kind === 'Name') {
+      return this.scope!.names.get(target.id) ?? target.id;
+    }
+    reportError(this.model, target, 'Invalid assignment target');
+    return '_';
+  }
+
+  // -------------------------------------------------------------------------
+  // Storage access
+  // -------------------------------------------------------------------------
+
+  /**
+   * Resolve `self.x`, `self.m[k][j]`, `self.a[i].field`, ... to a storage
+   * place. Returns undefined for expressions that are not rooted in state.
+   */
+  private storagePlace(expression: ast.Expression): StoragePlace | undefined {
+    if (expression.kind === 'Subscript') {
+      const base = this.storagePlace(expression.object);
+      if (!base) return undefined;
+      const { type } = base;
+      if (type.kind === 'hashmap') {
+        const keys =
+          expression.index.kind === 'TupleExpr'
+            ? expression.index.elements
+            : [expression.index];
+        const steps = [...base.steps];
+        let current: ContractType = type;
+        for (const key of keys) {
+          const keyType = current.kind === 'hashmap' ? current.key : UNKNOWN;
+          steps.push({ kind: 'key', code: this.expressionFor(key, keyType) });
+          current = current.kind === 'hashmap' ? current.value : UNKNOWN;
+        }
+        return { field: base.field, steps, type: current };
+      }
+      if (type.kind === 'dynArray' || type.kind === 'array') {
+        return {
+          field: base.field,
+          steps: [
+            ...base.steps,
+            {
+              kind: 'index',
+              code: this.expressionFor(expression.index, UINT256),
+            },
+          ],
+          type: type.element,
+        };
+      }
+      return undefined;
+    }
+    if (expression.kind === 'Attribute') {
+      const attribute: ast.Attribute = expression;
+      if (isStateAccess(expression)) {
+        const variable = this.model.stateVariables.get(expression.attr);
+        if (!variable || variable.constant) return undefined;
+        return {
+          field: this.fieldName(variable.name),
+          steps: [],
+          type: variable.type,
+        };
+      }
+      // isStateAccess() narrows `expression` away in this branch
+      const base = this.storagePlace(attribute.object);
+      if (base?.type.kind !== 'struct') return undefined;
+      const field = this.model.structs
+        .get(base.type.name)
+        ?.fields.find((f) => f.name === attribute.attr);
+      if (!field) return undefined;
+      return {
+        field: base.field,
+        steps: [...base.steps, { kind: 'field', name: field.name }],
+        type: field.type,
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * The accessor chain up to, but excluding, the final read or write.
+   * Primitive map values are read with `get(key)` directly.
+   */
+  private accessPlace(
+    place: StoragePlace,
+    mode: 'read' | 'write',
+    directLeaf = false
+  ): string {
+    let code = place.field;
+    place.steps.forEach((step, index) => {
+      const last = index === place.steps.length - 1;
+      switch (step.kind) {
+        case 'field':
+          code += `.${step.name}`;
+          break;
+        case 'key':
+          code +=
+            last && directLeaf
+              ? `.get(${step.code})`
+              : `.${mode === 'read' ? 'getter' : 'setter'}(${step.code})`;
+          break;
+        case 'index':
+          code += `.${last && directLeaf ? 'get' : mode === 'read' ? 'getter' : 'setter'}(${step.code}).ok_or_else(|| ${this.panicCode('0x32')})?`;
+          break;
+      }
+    });
+    return code;
+  }
+
+  /** Rust expression that reads a storage place as a value */
+  private readPlace(
+    place: StoragePlace,
+    node: ast.Node,
+    receiver = 'self.'
+  ): string {
+    const { type } = place;
+    const lastStep = place.steps[place.steps.length - 1];
+    if (isPrimitive(type) && lastStep && lastStep.kind !== 'field') {
+      return `${receiver}${this.accessPlace(place, 'read', true)}`;
+    }
+    return this.readValue(
+      `${receiver}${this.accessPlace(place, 'read')}`,
+      type,
+      node
+    );
+  }
+
+  /** Read the value behind a storage accessor */
+  private readValue(
+    access: string,
+    type: ContractType,
+    node: ast.Node
+  ): string {
+    switch (type.kind) {
+      case 'string':
+        return `${access}.get_string()`;
+      case 'bytes':
+        this.use('abi::Bytes');
+        return `Bytes::from(${access}.get_bytes())`;
+      case 'struct':
+        return `${access}.load()`;
+      case 'dynArray':
+      case 'array': {
+        // Indexes below `len()` always exist
+        const element = isPrimitive(type.element)
+          ? 'array.get(index).unwrap()'
+          : this.readValue('array.getter(index).unwrap()', type.element, node);
+        return `{ let array = &${access}; (0..array.len()).map(|index| ${element}).collect::<Vec<_>>() }`;
+      }
+      case 'hashmap':
+        reportError(
+          this.model,
+          node,
+          'A HashMap cannot be used as a value; index it instead'
+        );
+        return 'Default::default()';
+      default:
+        return `${access}.get()`;
+    }
+  }
+
+  /**
+   * Lines that write a storage place. Arrays are rewritten element by
+   * element once the new value has been computed.
+   */
+  private writePlace(
+    place: StoragePlace,
+    value: string,
+    node: ast.Node
+  ): string[] {
+    const { type } = place;
+    const access = `self.${this.accessPlace(place, 'write')}`;
+    switch (type.kind) {
+      case 'dynArray':
+        this.use('storage::Erase');
+        return [
+          '{',
+          `${INDENT}let values = ${value};`,
+          `${INDENT}${access}.erase();`,
+          `${INDENT}for value in values {`,
+          `${INDENT}${INDENT}${this.pushPlace(access, type.element, 'value', node)};`,
+          `${INDENT}}`,
+          '}',
+        ];
+      case 'array':
+        // Indexes are in range by construction
+        return [
+          `for (index, value) in ${value}.into_iter().enumerate() {`,
+          `${INDENT}${this.storeValue(`${access}.setter(index).unwrap()`, type.element, 'value', node)};`,
+          '}',
+        ];
+      case 'hashmap':
+        reportError(
+          this.model,
+          node,
+          `Cannot assign ${formatType(type)} to this storage location in the Stylus backend`
+        );
+        return [];
+      default:
+        return [`${this.storeValue(access, type, value, node)};`];
+    }
+  }
+
+  /** Store a value through a storage accessor of a non-collection type */
+  private storeValue(
+    access: string,
+    type: ContractType,
+    value: string,
+    node: ast.Node
+  ): string {
+    switch (type.kind) {
+      case 'string':
+        return `${access}.set_str(${value})`;
+      case 'bytes':
+        return `${access}.set_bytes(${value})`;
+      case 'struct':
+        return `${access}.store(${value})`;
+      case 'dynArray':
+      case 'array':
+      case 'hashmap':
+        reportError(
+          this.model,
+          node,
+          'Nested storage arrays cannot be assigned in the Stylus backend'
+        );
+        return access;
+      default:
+        return `${access}.set(${value})`;
+    }
+  }
+
+  private pushPlace(
+    array: string,
+    element: ContractType,
+    value: string,
+    node: ast.Node
+  ): string {
+    if (isPrimitive(element)) return `${array}.push(${value})`;
+    return this.storeValue(`${array}.grow()`, element, value, node);
+  }
+
+  // -------------------------------------------------------------------------
+  // Expressions
+  // -------------------------------------------------------------------------
+
+  /** Generate an expression that will be used as an owned value of `type` */
+  private expressionFor(
+    expression: ast.Expression,
+    type: ContractType
+  ): string {
+    const folded = isInteger(type) ? this.foldInteger(expression) : undefined;
+    if (folded !== undefined) {
+      return this.integerLiteral(folded, type, expression);
+    }
+    if (expression.kind === 'NumberLiteral') {
+      if (type.kind === 'address' || type.kind === 'fixedBytes') {
+        return this.hexLiteral(expression, type);
+      }
+    }
+    if (
+      expression.kind === 'ListExpr' &&
+      (type.kind === 'dynArray' || type.kind === 'array')
+    ) {
+      const values = expression.elements.map((element) =>
+        this.expressionFor(element, type.element)
+      );
+      return type.kind === 'array'
+        ? `[${values.join(', ')}]`
+        : `vec![${values.join(', ')}]`;
+    }
+    if (expression.kind === 'DictExpr' && type.kind === 'struct') {
+      return this.structLiteral(type.name, expression, [], expression);
+    }
+    if (expression.kind === 'StringLiteral' && type.kind === 'bytes') {
+      return this.bytesLiteral(expression.value);
+    }
+
+    const code = this.expression(expression).code;
+    const actual = inferType(expression, this.scope!.env);
+    if (!isCopyType(actual) && isLocalPlace(expression, this.scope!)) {
+      return `${code}.clone()`;
+    }
+    return code;
+  }
+
+  private condition(expression: ast.Expression): string {
+    return this.truthy(expression).code;
+  }
+
+  /** The condition under which `assert expression` fails */
+  private negatedCondition(expression: ast.Expression): string {
+    if (expression.kind === 'UnaryOp' && expression.op === 'not') {
+      return this.condition(expression.operand);
+    }
+    if (expression.kind === 'Compare') {
+      const op = COMPARE_OPERATORS[expression.op];
+      const comparison = this.compare(expression);
+      if (op && comparison.prec === Precedence.Compare) {
+        const negated = NEGATED_COMPARISONS[op];
+        return comparison.code.replace(` ${op} `, ` ${negated} `);
+      }
+    }
+    const code = this.truthy(expression);
+    return `!${this.wrap(code, Precedence.Unary)}`;
+  }
+
+  /** Python truthiness for non-boolean conditions */
+  private truthy(expression: ast.Expression): Code {
+    const type = inferType(expression, this.scope!.env);
+    const code = this.expression(expression);
+    switch (type.kind) {
+      case 'uint':
+      case 'int':
+        return {
+          code: `!${this.wrap(code, Precedence.Postfix)}.is_zero()`,
+          prec: Precedence.Unary,
+        };
+      case 'address':
+        this.use('alloy_primitives::Address');
+        return {
+          code: `${this.wrap(code, Precedence.Compare + 1)} != Address::ZERO`,
+          prec: Precedence.Compare,
+        };
+      case 'string':
+      case 'bytes':
+      case 'dynArray':
+        return {
+          code: `!${this.wrap(code, Precedence.Postfix)}.is_empty()`,
+          prec: Precedence.Unary,
+        };
+      default:
+        return code;
+    }
+  }
+
+  private wrap(code: Code, min: number): string {
+    return code.prec < min ? `(${code.code})` : code.code;
+  }
+
+  private expression(expression: ast.Expression): Code {
+    const atom = (code: string): Code => ({ code, prec: Precedence.Postfix });
+    const scope = this.scope!;
+
+    switch (expression.kind) {
+      case 'NumberLiteral':
+        if (!expression.isInteger) {
+          reportError(
+            this.model,
+            expression,
+            'Decimal literals are not supported'
+          );
+          return atom('U256::ZERO');
+        }
+        return atom(
+          this.expressionFor(expression, inferType(expression, scope.env))
+        );
+
+      case 'StringLiteral':
+        if (expression.isBytes)
+          return atom(this.bytesLiteral(expression.value));
+        return atom(`String::from(${rustString(expression.value)})`);
+
+      case 'BooleanLiteral':
+        return atom(expression.value ? 'true' : 'false');
+
+      case 'NoneLiteral':
+        reportError(
+          this.model,
+          expression,
+          'None has no Rust equivalent; use empty(T)'
+        );
+        return atom('Default::default()');
+
+      case 'Name':
+        return atom(this.name(expression));
+
+      case 'Attribute':
+        return this.attribute(expression);
+
+      case 'Subscript': {
+        const place = isStateRooted(expression)
+          ? this.storagePlace(expression)
+          : undefined;
+        if (place) return atom(this.readPlace(place, expression));
+        const objectType = inferType(expression.object, scope.env);
+        const object = this.wrap(
+          this.expression(expression.object),
+          Precedence.Postfix
+        );
+        if (objectType.kind === 'hashmap') {
+          reportError(
+            this.model,
+            expression,
+            'Only HashMaps stored in contract state can be indexed'
+          );
+          return atom(object);
+        }
+        if (objectType.kind === 'tuple') {
+          return atom(`${object}.${this.foldInteger(expression.index) ?? 0}`);
+        }
+        return atom(`${object}[${this.usizeIndex(expression.index)}]`);
+      }
+
+      case 'Call':
+        return this.call(expression);
+
+      case 'BinaryOp': {
+        const type = inferType(expression, scope.env);
+        const folded = isInteger(type)
+          ? this.foldInteger(expression)
+          : undefined;
+        if (folded !== undefined) {
+          return atom(this.integerLiteral(folded, type, expression));
+        }
+        if (expression.op === '+' && type.kind === 'string') {
+          return atom(this.formatStrings([expression.left, expression.right]));
+        }
+        const left = isIntegerLiteral(expression.left)
+          ? atom(this.expressionFor(expression.left, type))
+          : this.expression(expression.left);
+        return this.arithmetic(
+          expression.op,
+          left,
+          expression.right,
+          type,
+          expression
+        );
+      }
+
+      case 'BoolOp': {
+        const prec = expression.op === 'and' ? Precedence.And : Precedence.Or;
+        const op = expression.op === 'and' ? '&&' : '||';
+        const left = this.wrap(this.truthy(expression.left), prec);
+        const right = this.wrap(this.truthy(expression.right), prec + 1);
+        return { code: `${left} ${op} ${right}`, prec };
+      }
+
+      case 'Compare':
+        return this.compare(expression);
+
+      case 'UnaryOp': {
+        if (expression.op === '+') return this.expression(expression.operand);
+        if (expression.op === 'not') {
+          const operand = this.truthy(expression.operand);
+          return {
+            code: `!${this.wrap(operand, Precedence.Unary)}`,
+            prec: Precedence.Unary,
+          };
+        }
+        const type = inferType(expression, scope.env);
+        const folded = isInteger(type)
+          ? this.foldInteger(expression)
+          : undefined;
+        if (folded !== undefined) {
+          return atom(this.integerLiteral(folded, type, expression));
+        }
+        // Rust spells bitwise not `!`
+        const op = expression.op === '~' ? '!' : '-';
+        const operand = this.expression(expression.operand);
+        return {
+          code: `${op}${this.wrap(operand, Precedence.Unary)}`,
+          prec: Precedence.Unary,
+        };
+      }
+
+      case 'IfExp': {
+        const type = inferType(expression, scope.env);
+        return {
+          code: `if ${this.condition(expression.test)} { ${this.expressionFor(expression.body, type)} } else { ${this.expressionFor(expression.orelse, type)} }`,
+          prec: Precedence.Lowest,
+        };
+      }
+
+      case 'ListExpr': {
+        const type = inferType(expression, scope.env);
+        return atom(this.expressionFor(expression, type));
+      }
+
+      case 'TupleExpr':
+        return atom(
+          `(${expression.elements.map((e) => this.expressionFor(e, inferType(e, scope.env))).join(', ')})`
+        );
+
+      case 'DictExpr':
+        reportError(
+          this.model,
+          expression,
+          'Dict literals can only initialise a HashMap or a struct'
+        );
+        return atom('Default::default()');
+    }
+  }
+
+  /** Checked arithmetic reverts with Solidity's panic codes on failure */
+  private arithmetic(
+    op: ast.BinaryOperator,
+    left: Code,
+    rightExpression: ast.Expression,
+    type: ContractType,
+    node: ast.Node
+  ): Code {
+    const bitwise = BITWISE_OPERATORS[op];
+    if (bitwise) {
+      const [symbol, prec] = bitwise;
+      const right =
+        op === '<<' || op === '>>'
+          ? this.shiftAmount(rightExpression)
+          : this.wrap(
+              { code: this.expressionFor(rightExpression, type), prec: 0 },
+              prec + 1
+            );
+      return { code: `${this.wrap(left, prec)} ${symbol} ${right}`, prec };
+    }
+
+    const [method, panic] = CHECKED_OPERATORS[op]!;
+    if (!isInteger(type)) {
+      reportError(
+        this.model,
+        node,
+        `Cannot apply '${op}' to ${formatType(type)}`
+      );
+    }
+    const right = this.expressionFor(rightExpression, type);
+    return {
+      code: `${this.checked()}(${this.wrap(left, Precedence.Postfix)}.${method}(${right}), ${panic})?`,
+      prec: Precedence.Postfix,
+    };
+  }
+
+  private shiftAmount(expression: ast.Expression): string {
+    const folded = this.foldInteger(expression);
+    if (folded !== undefined) return `${folded}_usize`;
+    return `${this.wrap(this.expression(expression), Precedence.Postfix)}.to::<usize>()`;
+  }
+
+  private usizeIndex(expression: ast.Expression): string {
+    const folded = this.foldInteger(expression);
+    if (folded !== undefined) return folded.toString();
+    return `${this.wrap(this.expression(expression), Precedence.Postfix)}.to::<usize>()`;
+  }
+
+  private name(expression: ast.Name): string {
+    const scope = this.scope!;
+    const local = scope.names.get(expression.id);
+    if (local) return local;
+
+    if (expression.id === 'self') {
+      this.use('contract');
+      return 'contract::address()';
+    }
+    const builtin = this.builtinConstant(expression.id);
+    if (builtin) return builtin;
+
+    const constant = this.model.stateVariables.get(expression.id);
+    if (constant?.constant) {
+      return constant.type.kind === 'string'
+        ? `String::from(${expression.id})`
+        : expression.id;
+    }
+    return expression.id;
+  }
+
+  private builtinConstant(name: string): string | undefined {
+    switch (name) {
+      case 'ZERO_ADDRESS':
+      case 'EMPTY_ADDRESS':
+        this.use('alloy_primitives::Address');
+        return 'Address::ZERO';
+      case 'EMPTY_BYTES32':
+        this.use('alloy_primitives::FixedBytes');
+        return 'FixedBytes::<32>::ZERO';
+      case 'ZERO_WEI':
+        this.use('alloy_primitives::U256');
+        return 'U256::ZERO';
+      case 'MAX_UINT256':
+        this.use('alloy_primitives::U256');
+        return 'U256::MAX';
+      case 'MAX_INT128':
+        this.use('alloy_primitives::I128');
+        return 'I128::MAX';
+      case 'MIN_INT128':
+        this.use('alloy_primitives::I128');
+        return 'I128::MIN';
+    }
+    return undefined;
+  }
+
+  private attribute(expression: ast.Attribute): Code {
+    const atom = (code: string): Code => ({ code, prec: Precedence.Postfix });
+    const { object, attr } = expression;
+    const scope = this.scope!;
+
+    if (object.kind === 'Name' && !scope.names.has(object.id)) {
+      if (object.id === 'self') {
+        if (attr === 'balance' && !this.model.stateVariables.has('balance')) {
+          this.use('contract');
+          return atom('contract::balance()');
+        }
+        const place = this.storagePlace(expression);
+        if (!place) {
+          reportError(
+            this.model,
+            expression,
+            `'self.${attr}' is not a state variable`
+          );
+          return atom(`self.${attr}`);
+        }
+        return atom(this.readPlace(place, expression));
+      }
+      const environment = ENVIRONMENT[`${object.id}.${attr}`];
+      if (environment) {
+        for (const path of environment.uses) this.use(path);
+        if (environment.code.includes('U256')) {
+          this.use('alloy_primitives::U256');
+        }
+        return atom(environment.code);
+      }
+      if (['msg', 'block', 'tx', 'chain'].includes(object.id)) {
+        reportError(
+          this.model,
+          expression,
+          `${object.id}.${attr} is not supported by the Stylus backend`
+        );
+        return atom('Default::default()');
+      }
+      const enumeration = this.model.enums.get(object.id);
+      if (enumeration) {
+        const index = enumeration.members.indexOf(attr);
+        return atom(
+          this.integerLiteral(
+            BigInt(Math.max(index, 0)),
+            { kind: 'uint', bits: 8 },
+            expression
+          )
+        );
+      }
+    }
+
+    const place = isStateRooted(expression)
+      ? this.storagePlace(expression)
+      : undefined;
+    if (place) return atom(this.readPlace(place, expression));
+
+    const objectType = inferType(object, scope.env);
+    const target = this.wrap(this.expression(object), Precedence.Postfix);
+    if (objectType.kind === 'address') {
+      this.use('types::AddressVM');
+      switch (attr) {
+        case 'balance':
+          return atom(`${target}.balance()`);
+        case 'codesize':
+          this.use('alloy_primitives::U256');
+          return atom(`U256::from(${target}.code_size())`);
+        case 'is_contract':
+          return atom(`${target}.has_code()`);
+        case 'codehash':
+          return atom(`${target}.code_hash()`);
+      }
+    }
+    return atom(`${target}.${attr}`);
+  }
+
+  private compare(expression: ast.Compare): Code {
+    const scope = this.scope!;
+    if (expression.op === 'in' || expression.op === 'not in') {
+      const membership = this.membership(expression);
+      return expression.op === 'in'
+        ? membership
+        : {
+            code: `!${this.wrap(membership, Precedence.Unary)}`,
+            prec: Precedence.Unary,
+          };
+    }
+
+    const op = COMPARE_OPERATORS[expression.op]!;
+    const leftType = inferType(expression.left, scope.env);
+    const rightType = inferType(expression.right, scope.env);
+    // Integer literals take the type of the other side
+    const type = isIntegerLiteral(expression.left) ? rightType : leftType;
+    const operand = (side: ast.Expression) =>
+      isIntegerLiteral(side) || side.kind === 'StringLiteral'
+        ? { code: this.expressionFor(side, type), prec: Precedence.Postfix }
+        : this.expression(side);
+    const left = this.wrap(operand(expression.left), Precedence.Compare + 1);
+    const right = this.wrap(operand(expression.right), Precedence.Compare + 1);
+    return { code: `${left} ${op} ${right}`, prec: Precedence.Compare };
+  }
+
+  private membership(expression: ast.Compare): Code {
+    const atom = (code: string): Code => ({ code, prec: Precedence.Postfix });
+    const containerType = inferType(expression.right, this.scope!.env);
+    const container = expression.right;
+
+    if (containerType.kind === 'hashmap') {
+      if (!isStateAccess(container) || !this.trackedMaps.has(container.attr)) {
+        reportError(
+          this.model,
+          expression,
+          'Only HashMaps stored in contract state can be tested for membership'
+        );
+        return atom('false');
+      }
+      const key = this.expressionFor(expression.left, containerType.key);
+      return atom(`self.${this.fieldName(container.attr)}_tracked.get(${key})`);
+    }
+    if (containerType.kind !== 'dynArray' && containerType.kind !== 'array') {
+      reportError(
+        this.model,
+        expression,
+        `Cannot test membership in ${formatType(containerType)}`
+      );
+      return atom('false');
+    }
+    const value = this.expressionFor(expression.left, containerType.element);
+    const place = isStateRooted(container)
+      ? this.storagePlace(container)
+      : undefined;
+    if (place) {
+      const array = `self.${this.accessPlace(place, 'read')}`;
+      return atom(
+        `(0..${array}.len()).any(|index| ${array}.get(index) == Some(${value}))`
+      );
+    }
+    return atom(
+      `${this.wrap(this.expression(container), Precedence.Postfix)}.contains(&${value})`
+    );
+  }
+
+  private call(call: ast.Call): Code {
+    const atom = (code: string): Code => ({ code, prec: Precedence.Postfix });
+    const { callee } = call;
+    const scope = this.scope!;
+    const args = () => call.args.map((arg) => this.expression(arg).code);
+
+    if (callee.kind === 'Name' && !scope.names.has(callee.id)) {
+      const builtin = this.builtinCall(callee.id, call);
+      if (builtin) return builtin;
+
+      if (this.model.structs.has(callee.id)) {
+        const literal = call.args[0];
+        return atom(
+          this.structLiteral(
+            callee.id,
+            literal?.kind === 'DictExpr' ? literal : undefined,
+            call.keywords,
+            call
+          )
+        );
+      }
+
+      const primitive = primitiveType(callee.id);
+      if (primitive) {
+        return atom(this.convert(call.args[0], primitive, call));
+      }
+
+      // Interface values are plain addresses
+      if (this.model.interfaces.has(callee.id) || /^I[A-Z]/.test(callee.id)) {
+        return atom(this.expressionFor(call.args[0], ADDRESS));
+      }
+
+      const fn = this.model.functions.get(callee.id);
+      if (fn) return atom(this.internalCall(fn, call));
+      return atom(`${callee.id}(${args().join(', ')})`);
+    }
+
+    if (callee.kind === 'Attribute') {
+      const { object, attr } = callee;
+
+      if (
+        object.kind === 'Name' &&
+        object.id === 'self' &&
+        !scope.names.has('self')
+      ) {
+        const fn = this.model.functions.get(attr);
+        if (!fn) {
+          reportError(this.model, call, `Undefined function 'self.${attr}'`);
+          return atom(`self.${attr}(${args().join(', ')})`);
+        }
+        return atom(this.internalCall(fn, call));
+      }
+
+      const objectType = inferType(object, scope.env);
+      const place = isStateRooted(object)
+        ? this.storagePlace(object)
+        : undefined;
+
+      if (objectType.kind === 'hashmap' && attr === 'get') {
+        const value = call.args[1];
+        if (value && !isZeroValue(value)) {
+          reportWarning(
+            this.model,
+            value,
+            'Mappings return zero for missing keys; the default value is ignored'
+          );
+        }
+        if (!place) {
+          reportError(
+            this.model,
+            call,
+            'Only HashMaps stored in contract state can be indexed'
+          );
+          return atom('Default::default()');
+        }
+        const entry: StoragePlace = {
+          ...place,
+          steps: [
+            ...place.steps,
+            {
+              kind: 'key',
+              code: this.expressionFor(call.args[0], objectType.key),
+            },
+          ],
+          type: objectType.value,
+        };
+        return atom(this.readPlace(entry, call));
+      }
+
+      if (objectType.kind === 'dynArray') {
+        if (attr === 'append') {
+          const element = this.expressionFor(call.args[0], objectType.element);
+          if (place) {
+            const array = `self.${this.accessPlace(place, 'write')}`;
+            return atom(
+              this.pushPlace(array, objectType.element, element, call)
+            );
+          }
+          return atom(`${this.localTarget(object)}.push(${element})`);
+        }
+        if (attr === 'pop') {
+          const array = place
+            ? `self.${this.accessPlace(place, 'write')}`
+            : this.localTarget(object);
+          if (place && !isPrimitive(objectType.element)) {
+            reportError(
+              this.model,
+              call,
+              'pop() is only supported on storage arrays of value types'
+            );
+          }
+          return atom(
+            `${array}.pop().ok_or_else(|| ${this.panicCode('0x31')})?`
+          );
+        }
+      }
+
+      if (objectType.kind === 'interface') {
+        return atom(this.interfaceCall(call, object, attr, objectType.name));
+      }
+
+      return atom(
+        `${this.wrap(this.expression(object), Precedence.Postfix)}.${attr}(${args().join(', ')})`
+      );
+    }
+
+    return atom(
+      `${this.wrap(this.expression(callee), Precedence.Postfix)}(${args().join(', ')})`
+    );
+  }
+
+  private internalCall(fn: FunctionModel, call: ast.Call): string {
+    const args = this.orderArguments(
+      call,
+      fn.params,
+      call.args,
+      call.keywords,
+      `Function '${fn.name}'`
+    );
+    if (fn.mutability === 'nonpayable' || fn.mutability === 'payable') {
+      this.borrowsSelfMutably = true;
+    }
+    return `self.${this.methodName(fn.name)}(${(args ?? []).join(', ')})?`;
+  }
+
+  /**
+   * Calls through `sol_interface!`. State-changing calls borrow `self` for
+   * the call context, so arguments that read `self` are evaluated first.
+   */
+  private interfaceCall(
+    call: ast.Call,
+    object: ast.Expression,
+    attr: string,
+    name: string
+  ): string {
+    const fn = this.model.interfaces.get(name)?.functions.get(attr);
+    const mutating = fn?.mutability !== 'view' && fn?.mutability !== 'pure';
+    this.use('call::Call');
+
+    let context = mutating ? 'Call::new_in(self)' : 'Call::new()';
+    const keywords = call.keywords.filter((keyword) => {
+      if (keyword.name === 'value') {
+        context += `.value(${this.expressionFor(keyword.value, UINT256)})`;
+        return false;
+      }
+      if (keyword.name === 'gas') {
+        context += `.gas(${this.wrap(this.expression(keyword.value), Precedence.Postfix)}.to::<u64>())`;
+        return false;
+      }
+      return true;
+    });
+
+    const params = fn?.params ?? [];
+    const ordered = fn
+      ? this.orderArguments(
+          call,
+          params,
+          call.args,
+          keywords,
+          `'${name}.${attr}'`
+        )
+      : call.args.map((arg) => this.expression(arg).code);
+    const args = (ordered ?? []).map((arg, index) =>
+      params[index] ? this.toSolidityValue(arg, params[index].type, call) : arg
+    );
+    const target = `${name}::new(${this.expressionFor(object, ADDRESS)})`;
+    const method = snakeCase(attr);
+    const returns = fn?.returns;
+    const result = (values: string[]) => {
+      const code = `${target}.${method}(${[context, ...values].join(', ')})?`;
+      return returns ? this.fromSolidityValue(code, returns) : code;
+    };
+
+    if (!mutating) return result(args);
+    this.borrowsSelfMutably = true;
+    if (!args.some((arg) => /\bself\b/.test(arg))) return result(args);
+    const names = args.map((_, index) => `arg${index}`);
+    return `{ let (${names.join(', ')}) = (${args.join(', ')}); ${result(names)} }`;
+  }
+
+  private builtinCall(name: string, call: ast.Call): Code | undefined {
+    const atom = (code: string): Code => ({ code, prec: Precedence.Postfix });
+    const scope = this.scope!;
+    const [first, second] = call.args;
+    const arg = (index: number) =>
+      call.args[index]
+        ? this.wrap(this.expression(call.args[index]), Precedence.Postfix)
+        : '';
+    const typeOf = (expression: ast.Expression | undefined) =>
+      expression ? inferType(expression, scope.env) : UNKNOWN;
+    const typeArg = (expression: ast.Expression | undefined) => {
+      if (!expression) return UNKNOWN;
+      try {
+        return resolveTypeAnnotation(expression, this.model);
+      } catch {
+        reportError(this.model, expression, 'Expected a type');
+        return UNKNOWN;
+      }
+    };
+    const unsupported = () => {
+      reportError(
+        this.model,
+        call,
+        `${name}() is not supported by the Stylus backend`
+      );
+      return atom('Default::default()');
+    };
+
+    switch (name) {
+      case 'len': {
+        this.use('alloy_primitives::U256');
+        const place =
+          first && isStateRooted(first) ? this.storagePlace(first) : undefined;
+        const value = place
+          ? `self.${this.accessPlace(place, 'read')}`
+          : arg(0);
+        return atom(`U256::from(${value}.len())`);
+      }
+      case 'min':
+      case 'max': {
+        const type = this.numericType(call);
+        const left = this.expressionFor(first, type);
+        return atom(
+          `${isIntegerLiteral(first) ? left : arg(0)}.${name}(${this.expressionFor(second, type)})`
+        );
+      }
+      case 'abs':
+        return atom(`${arg(0)}.abs()`);
+      case 'sqrt':
+      case 'isqrt':
+        return atom(`${arg(0)}.root(2)`);
+      case 'uint256_addmod':
+      case 'uint256_mulmod': {
+        const method = name === 'uint256_addmod' ? 'add_mod' : 'mul_mod';
+        const [a, b, m] = call.args.map((value) =>
+          this.expressionFor(value, UINT256)
+        );
+        return atom(`${a}.${method}(${b}, ${m})`);
+      }
+      case 'unsafe_add':
+      case 'unsafe_sub':
+      case 'unsafe_mul':
+      case 'unsafe_div':
+      case 'pow_mod256': {
+        const type = name === 'pow_mod256' ? UINT256 : this.numericType(call);
+        const method: Record<string, string> = {
+          unsafe_add: 'wrapping_add',
+          unsafe_sub: 'wrapping_sub',
+          unsafe_mul: 'wrapping_mul',
+          unsafe_div: 'wrapping_div',
+          pow_mod256: 'wrapping_pow',
+        };
+        const left = this.expressionFor(first, type);
+        return atom(
+          `${isIntegerLiteral(first) ? left : arg(0)}.${method[name]}(${this.expressionFor(second, type)})`
+        );
+      }
+      case 'convert':
+        return atom(this.convert(first, typeArg(second), call));
+      case 'empty':
+        return atom(this.zeroValue(typeArg(first), call));
+      case 'max_value':
+      case 'min_value': {
+        const type = typeArg(first);
+        const bound = name === 'max_value' ? 'MAX' : 'MIN';
+        return atom(
+          `${this.typeName(type, call)}::${type.kind === 'uint' && bound === 'MIN' ? 'ZERO' : bound}`
+        );
+      }
+      case 'keccak256':
+        this.use('alloy_primitives::keccak256');
+        return atom(`keccak256(${this.bytesOf(first, call)})`);
+      case 'concat': {
+        if (typeOf(first).kind !== 'string') return unsupported();
+        return atom(this.formatStrings(call.args));
+      }
+      case 'method_id': {
+        this.use('alloy_primitives::keccak256');
+        this.use('alloy_primitives::FixedBytes');
+        const signature =
+          first?.kind === 'StringLiteral'
+            ? rustString(first.value)
+            : `${arg(0)}.as_bytes()`;
+        return atom(
+          `FixedBytes::<4>::from_slice(&keccak256(${signature})[..4])`
+        );
+      }
+      case 'as_wei_value': {
+        const decimals =
+          second?.kind === 'StringLiteral'
+            ? WEI_DECIMALS[second.value]
+            : undefined;
+        if (decimals === undefined) {
+          reportError(
+            this.model,
+            call,
+            'as_wei_value() expects "wei", "gwei" or "ether"'
+          );
+          return atom(arg(0));
+        }
+        const value = this.expressionFor(first, UINT256);
+        if (decimals === 0) return atom(value);
+        const unit = this.integerLiteral(
+          10n ** BigInt(decimals),
+          UINT256,
+          call
+        );
+        const folded = this.foldInteger(first);
+        if (folded !== undefined) {
+          return atom(
+            this.integerLiteral(folded * 10n ** BigInt(decimals), UINT256, call)
+          );
+        }
+        return atom(`${this.checked()}(${arg(0)}.checked_mul(${unit}), 0x11)?`);
+      }
+      case 'send':
+        this.use('call::transfer_eth');
+        return atom(
+          `transfer_eth(${this.expressionFor(first, ADDRESS)}, ${this.expressionFor(second, UINT256)})?`
+        );
+      case 'raw_call':
+        return atom(this.rawCall(call));
+      case 'uint2str':
+      case 'str':
+        return atom(`${arg(0)}.to_string()`);
+      case 'require':
+      case 'assert':
+        reportError(
+          this.model,
+          call,
+          `${name}() can only be used as a statement`
+        );
+        return atom('()');
+      case 'range':
+        reportError(this.model, call, 'range() can only be used in a for loop');
+        return atom('0');
+      case 'sha256':
+      case 'ecrecover':
+      case 'blockhash':
+      case 'block_hash':
+      case 'selfdestruct':
+      case 'slice':
+      case 'extract32':
+      case 'shift':
+        return unsupported();
+    }
+    return undefined;
+  }
+
+  private numericType(call: ast.Call): ContractType {
+    const scope = this.scope!;
+    for (const arg of call.args) {
+      if (isIntegerLiteral(arg)) continue;
+      const type = inferType(arg, scope.env);
+      if (isInteger(type)) return type;
+    }
+    return UINT256;
+  }
+
+  /** The argument of `keccak256()`, as its ABI-packed bytes */
+  private bytesOf(value: ast.Expression | undefined, node: ast.Node): string {
+    if (!value) {
+      reportError(this.model, node, 'keccak256() expects a value');
+      return '[]';
+    }
+    if (value.kind === 'StringLiteral') return rustString(value.value);
+    const type = inferType(value, this.scope!.env);
+    const code = this.wrap(this.expression(value), Precedence.Postfix);
+    switch (type.kind) {
+      case 'string':
+        return `${code}.as_bytes()`;
+      case 'bytes':
+        return `${code}.as_slice()`;
+      case 'uint':
+      case 'int':
+        return `${code}.to_be_bytes::<${type.bits / 8}>()`;
+      case 'address':
+      case 'fixedBytes':
+        return code;
+      default:
+        reportError(
+          this.model,
+          value,
+          `Cannot hash ${formatType(type)} in the Stylus backend`
+        );
+        return code;
+    }
+  }
+
+  private convert(
+    value: ast.Expression | undefined,
+    type: ContractType,
+    node: ast.Node
+  ): string {
+    if (!value) {
+      reportError(this.model, node, 'convert() expects a value and a type');
+      return 'Default::default()';
+    }
+    const from = inferType(value, this.scope!.env);
+    if (
+      isIntegerLiteral(value) ||
+      (isInteger(type) && isInteger(from)
+        ? this.foldInteger(value) !== undefined
+        : false)
+    ) {
+      return this.expressionFor(value, type);
+    }
+    const code = this.wrap(this.expression(value), Precedence.Postfix);
+    const target = this.typeName(type, node);
+
+    if (isInteger(from) && isInteger(type)) {
+      if (from.kind === type.kind) return `${target}::from(${code})`;
+      return `${target}::try_from(${code}).map_err(|_| ${this.panicCode('0x11')})?`;
+    }
+    if (from.kind === 'bool' && isInteger(type)) {
+      return `${target}::from(${code} as u8)`;
+    }
+    if (from.kind === 'address' && type.kind === 'uint') {
+      return `${target}::from_be_slice(${code}.as_slice())`;
+    }
+    if (from.kind === 'uint' && type.kind === 'address') {
+      this.use('alloy_primitives::Address');
+      return `Address::from_slice(&${code}.to_be_bytes::<32>()[12..])`;
+    }
+    if (from.kind === 'fixedBytes' && from.size === 32) {
+      if (type.kind === 'address') {
+        this.use('alloy_primitives::Address');
+        return `Address::from_word(${code})`;
+      }
+      if (type.kind === 'uint' && type.bits === 256) {
+        return `U256::from_be_bytes(${code}.0)`;
+      }
+    }
+    if (type.kind === 'fixedBytes' && type.size === 32) {
+      this.use('alloy_primitives::FixedBytes');
+      if (from.kind === 'address') return `${code}.into_word()`;
+      if (from.kind === 'uint' && from.bits === 256) {
+        return `FixedBytes::<32>::from(${code})`;
+      }
+    }
+    if (from.kind === 'string' && type.kind === 'bytes') {
+      this.use('abi::Bytes');
+      return `Bytes::from(${code}.into_bytes())`;
+    }
+    if (from.kind === 'bytes' && type.kind === 'string') {
+      return `String::from_utf8(${code}.to_vec()).map_err(|_| ${this.revertMessage('"Invalid UTF-8"')})?`;
+    }
+    if (from.kind === type.kind && formatType(from) === formatType(type)) {
+      return code;
+    }
+    reportError(
+      this.model,
+      node,
+      `Converting ${formatType(from)} to ${formatType(type)} is not supported by the Stylus backend`
+    );
+    return code;
+  }
+
+  /** Vyper's `raw_call` as a `RawCall` */
+  private rawCall(call: ast.Call): string {
+    const keyword = (name: string) =>
+      call.keywords.find((k) => k.name === name)?.value;
+    const [target, data] = call.args;
+    if (!target || !data) {
+      reportError(this.model, call, 'raw_call() expects a target and calldata');
+      return 'false';
+    }
+    this.use('call::RawCall');
+    const value = keyword('value');
+    const revertOnFailure = keyword('revert_on_failure');
+    const returnsBool =
+      revertOnFailure?.kind === 'BooleanLiteral' && !revertOnFailure.value;
+    const raw = value
+      ? `RawCall::new_with_value(${this.expressionFor(value, UINT256)})`
+      : 'RawCall::new()';
+    const calldata =
+      data.kind === 'StringLiteral'
+        ? `${rustBytes(data.value)}`
+        : `&${this.wrap(this.expression(data), Precedence.Postfix)}`;
+    const invocation = `unsafe { ${raw}.call(${this.expressionFor(target, ADDRESS)}, ${calldata}) }`;
+
+    if (returnsBool) return `${invocation}.is_ok()`;
+    this.use('abi::Bytes');
+    return `Bytes::from(${invocation}?)`;
+  }
+
+  private structLiteral(
+    name: string,
+    dict: ast.DictExpr | undefined,
+    keywords: ast.Keyword[],
+    node: ast.Node
+  ): string {
+    const struct = this.model.structs.get(name)!;
+    const values = new Map<string, ast.Expression>();
+    for (const entry of dict?.entries ?? []) {
+      if (entry.key.kind !== 'Name' && entry.key.kind !== 'StringLiteral') {
+        reportError(this.model, entry.key, 'Struct fields must be named');
+        continue;
+      }
+      values.set(
+        entry.key.kind === 'Name' ? entry.key.id : entry.key.value,
+        entry.value
+      );
+    }
+    for (const keyword of keywords) values.set(keyword.name, keyword.value);
+
+    for (const [field, value] of values) {
+      if (!struct.fields.some((f) => f.name === field)) {
+        reportError(
+          this.model,
+          value,
+          `Struct '${name}' has no field '${field}'`
+        );
+      }
+    }
+
+    const fields = struct.fields.map((field) => {
+      const value = values.get(field.name);
+      const code = value
+        ? this.expressionFor(value, field.type)
+        : this.zeroValue(field.type, node);
+      return fieldInit(field.name, code);
+    });
+    return `${name} { ${fields.join(', ')} }`;
+  }
+
+  /** `format!` for string concatenation, with literals inlined */
+  private formatStrings(parts: ast.Expression[]): string {
+    let template = '';
+    const args: string[] = [];
+    for (const part of parts) {
+      if (part.kind === 'StringLiteral') {
+        template += part.value.replace(/[{}]/g, (brace) => brace + brace);
+        continue;
+      }
+      const constant =
+        part.kind === 'Name' &&
+        this.model.stateVariables.get(part.id)?.constant &&
+        !this.scope!.names.has(part.id);
+      template += '{}';
+      args.push(constant ? part.id : this.expression(part).code);
+    }
+    return `format!(${[rustString(template), ...args].join(', ')})`;
+  }
+
+  private zeroValue(type: ContractType, node: ast.Node): string {
+    switch (type.kind) {
+      case 'uint':
+      case 'int':
+      case 'enum':
+      case 'address':
+      case 'interface':
+      case 'fixedBytes':
+        return `${this.typeName(type, node)}::ZERO`;
+      case 'bool':
+        return 'false';
+      case 'string':
+        return 'String::new()';
+      case 'bytes':
+        this.use('abi::Bytes');
+        return 'Bytes::from(Vec::new())';
+      case 'dynArray':
+        return 'Vec::new()';
+      case 'array':
+        return `[${this.zeroValue(type.element, node)}; ${type.length}]`;
+      case 'struct': {
+        const struct = this.model.structs.get(type.name);
+        const fields = (struct?.fields ?? []).map(
+          (field) => `${field.name}: ${this.zeroValue(field.type, node)}`
+        );
+        return `${type.name} { ${fields.join(', ')} }`;
+      }
+      case 'tuple':
+        return `(${type.elements.map((element) => this.zeroValue(element, node)).join(', ')})`;
+      default:
+        reportError(
+          this.model,
+          node,
+          `Cannot create an empty value of type ${formatType(type)}`
+        );
+        return 'Default::default()';
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Literals
+  // -------------------------------------------------------------------------
+
+  /** Evaluate integer literal arithmetic, including module constants */
+  private foldInteger(
+    expression: ast.Expression,
+    depth = 0
+  ): bigint | undefined {
+    if (depth > 32) return undefined;
+    const fold = (e: ast.Expression) => this.foldInteger(e, depth + 1);
+    switch (expression.kind) {
+      case 'NumberLiteral':
+        return expression.isInteger ? BigInt(expression.value) : undefined;
+      case 'Name': {
+        if (this.scope?.names.has(expression.id)) return undefined;
+        const constant = this.model.stateVariables.get(expression.id);
+        if (!constant?.constant || !constant.value) return undefined;
+        return isInteger(constant.type) ? fold(constant.value) : undefined;
+      }
+      case 'UnaryOp': {
+        const operand = fold(expression.operand);
+        if (operand === undefined) return undefined;
+        if (expression.op === '-') return -operand;
+        if (expression.op === '+') return operand;
+        return undefined;
+      }
+      case 'BinaryOp': {
+        const left = fold(expression.left);
+        const right = fold(expression.right);
+        if (left === undefined || right === undefined) return undefined;
+        switch (expression.op) {
+          case '+':
+            return left + right;
+          case '-':
+            return left - right;
+          case '*':
+            return left * right;
+          case '/':
+          case '//':
+            return right === 0n ? undefined : left / right;
+          case '%':
+            return right === 0n ? undefined : left % right;
+          case '**':
+            return right < 0n || right > 1024n ? undefined : left ** right;
+          case '<<':
+            return right > 1024n ? undefined : left << right;
+          case '>>':
+            return left >> right;
+          case '&':
+            return left & right;
+          case '|':
+            return left | right;
+          case '^':
+            return left ^ right;
+        }
+        return undefined;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  private integerLiteral(
+    value: bigint,
+    type: ContractType,
+    node: ast.Node
+  ): string {
+    const target: ContractType = isInteger(type)
+      ? type
+      : type.kind === 'enum'
+        ? { kind: 'uint', bits: 8 }
+        : UINT256;
+    const name = this.typeName(target, node);
+    if (value === 0n) return `${name}::ZERO`;
+    if (target.kind === 'uint') {
+      if (value < 0n) {
+        reportError(
+          this.model,
+          node,
+          `Literal ${value} is out of range for ${formatType(target)}`
+        );
+        return `${name}::ZERO`;
+      }
+      this.use('alloy_primitives::uint');
+      return `uint!(${value}_${name})`;
+    }
+    return `${name}::unchecked_from(${value}_i128)`;
+  }
+
+  private hexLiteral(
+    literal: ast.NumberLiteral,
+    type: Extract<ContractType, { kind: 'address' | 'fixedBytes' }>
+  ): string {
+    const size = type.kind === 'address' ? 20 : type.size;
+    let digits = BigInt(literal.value).toString(16);
+    if (/^0[xX]/.test(literal.raw)) {
+      digits = literal.raw.slice(2).replace(/_/g, '');
+    }
+    if (BigInt(literal.value) === 0n) {
+      return `${this.typeName(type, literal)}::ZERO`;
+    }
+    if (digits.length > size * 2) {
+      reportError(
+        this.model,
+        literal,
+        `Literal does not fit in ${formatType(type)}`
+      );
+    }
+    digits = digits.padStart(size * 2, '0');
+    if (type.kind === 'address') {
+      this.use('alloy_primitives::address');
+      return `address!("${digits}")`;
+    }
+    this.use('alloy_primitives::fixed_bytes');
+    return `fixed_bytes!("${digits}")`;
+  }
+
+  private bytesLiteral(value: string): string {
+    this.use('abi::Bytes');
+    return `Bytes::from(${rustBytes(value)}.to_vec())`;
+  }
+
+  // -------------------------------------------------------------------------
+  // Helpers
+  // -------------------------------------------------------------------------
+
+  private addHelper(name: string, lines: string[]): string {
+    if (!this.helpers.has(name)) this.helpers.set(name, lines);
+    return name;
+  }
+
+  private checked(): string {
+    this.panicCode('0x11');
+    return this.addHelper('checked', [
+      '/// Unwraps checked arithmetic, reverting with a Solidity panic code',
+      'fn checked<T>(value: Option<T>, code: u8) -> Result<T, Vec<u8>> {',
+      `${INDENT}value.ok_or_else(|| panic_code(code))`,
+      '}',
+    ]);
+  }
+
+  /** Revert data for Solidity's `Panic(uint256)` */
+  private panicCode(code: string): string {
+    this.addHelper('panic_code', [
+      '/// ABI-encoded `Panic(uint256)`, as raised by Solidity',
+      'fn panic_code(code: u8) -> Vec<u8> {',
+      `${INDENT}let mut data = vec![0x4e, 0x48, 0x7b, 0x71];`,
+      `${INDENT}data.extend_from_slice(&[0u8; 31]);`,
+      `${INDENT}data.push(code);`,
+      `${INDENT}data`,
+      '}',
+    ]);
+    return `panic_code(${code})`;
+  }
+
+  /** Revert data for Solidity's `Error(string)` */
+  private revertMessage(message: string): string {
+    this.use('alloy_primitives::U256');
+    this.addHelper('revert_message', [
+      '/// ABI-encoded `Error(string)`, as raised by `require` in Solidity',
+      'fn revert_message(message: &str) -> Vec<u8> {',
+      `${INDENT}let mut data = vec![0x08, 0xc3, 0x79, 0xa0];`,
+      `${INDENT}data.extend_from_slice(&U256::from(32).to_be_bytes::<32>());`,
+      `${INDENT}data.extend_from_slice(&U256::from(message.len()).to_be_bytes::<32>());`,
+      `${INDENT}data.extend_from_slice(message.as_bytes());`,
+      `${INDENT}data.resize(data.len().div_ceil(32) * 32, 0);`,
+      `${INDENT}data`,
+      '}',
+    ]);
+    return `revert_message(${message})`;
+  }
+
+  private use(path: string): void {
+    this.uses.add(path);
+  }
+
+  // -------------------------------------------------------------------------
+  // Types and formatting
+  // -------------------------------------------------------------------------
+
+  /** Rust type used for values */
+  private typeName(type: ContractType, node?: ast.Node): string {
+    switch (type.kind) {
+      case 'uint':
+      case 'int': {
+        const name = `${type.kind === 'uint' ? 'U' : 'I'}${type.bits}`;
+        this.use(`alloy_primitives::${name}`);
+        return name;
+      }
+      case 'enum':
+        this.use('alloy_primitives::U8');
+        return 'U8';
+      case 'address':
+      case 'interface':
+        this.use('alloy_primitives::Address');
+        return 'Address';
+      case 'bool':
+        return 'bool';
+      case 'fixedBytes':
+        this.use('alloy_primitives::FixedBytes');
+        return `FixedBytes<${type.size}>`;
+      case 'string':
+        return 'String';
+      case 'bytes':
+        this.use('abi::Bytes');
+        return 'Bytes';
+      case 'dynArray':
+        return `Vec<${this.typeName(type.element, node)}>`;
+      case 'array':
+        return `[${this.typeName(type.element, node)}; ${type.length}]`;
+      case 'struct':
+        return type.name;
+      case 'tuple':
+        return `(${type.elements.map((element) => this.typeName(element, node)).join(', ')})`;
+      case 'hashmap':
+        if (node) {
+          reportError(
+            this.model,
+            node,
+            'HashMaps can only be stored in contract state'
+          );
+        }
+        return '()';
+      case 'unknown':
+        if (node) {
+          reportError(
+            this.model,
+            node,
+            'Cannot infer a type here; add a type annotation'
+          );
+        }
+        this.use('alloy_primitives::U256');
+        return 'U256';
+    }
+  }
+
+  /** Solidity type inside `sol_storage!`, which maps it to a storage type */
+  private storageType(type: ContractType, node?: ast.Node): string {
+    switch (type.kind) {
+      case 'hashmap':
+        return `mapping(${this.storageType(type.key, node)} => ${this.storageType(type.value, node)})`;
+      case 'dynArray':
+        return `${this.storageType(type.element, node)}[]`;
+      case 'array':
+        return `${this.storageType(type.element, node)}[${type.length}]`;
+      case 'struct':
+        return storageStructName(type.name);
+      default:
+        return this.solidityType(type, node);
+    }
+  }
+
+  /** Solidity type inside `sol!` and `sol_interface!` */
+  private solidityType(type: ContractType, node?: ast.Node): string {
+    switch (type.kind) {
+      case 'uint':
+        return `uint${type.bits}`;
+      case 'int':
+        return `int${type.bits}`;
+      case 'enum':
+        return 'uint8';
+      case 'address':
+      case 'interface':
+        return 'address';
+      case 'bool':
+        return 'bool';
+      case 'fixedBytes':
+        return `bytes${type.size}`;
+      case 'string':
+        return 'string';
+      case 'bytes':
+        return 'bytes';
+      case 'dynArray':
+        return `${this.solidityType(type.element, node)}[]`;
+      case 'array':
+        return `${this.solidityType(type.element, node)}[${type.length}]`;
+      default:
+        if (node) {
+          reportError(
+            this.model,
+            node,
+            `${formatType(type)} cannot be used in events or interfaces by the Stylus backend`
+          );
+        }
+        return 'uint256';
+    }
+  }
+
+  private solidityReturns(type: ContractType): string {
+    const types = type.kind === 'tuple' ? type.elements : [type];
+    return types.map((t) => this.solidityType(t)).join(', ');
+  }
+
+  /**
+   * `sol!` maps integers of up to 128 bits to Rust primitives, so values
+   * crossing into events and interface calls are narrowed.
+   */
+  private toSolidityValue(
+    code: string,
+    type: ContractType,
+    node: ast.Node
+  ): string {
+    const value = { code, prec: Precedence.Lowest };
+    if (type.kind === 'uint' && type.bits <= 128) {
+      return `${this.wrap(value, Precedence.Postfix)}.to::<u${primitiveBits(type.bits)}>()`;
+    }
+    if (type.kind === 'enum') {
+      return `${this.wrap(value, Precedence.Postfix)}.to::<u8>()`;
+    }
+    if (type.kind === 'int' && type.bits <= 128) {
+      return `${this.wrap(value, Precedence.Postfix)}.as_i${primitiveBits(type.bits)}()`;
+    }
+    if (type.kind === 'bytes') {
+      return `${this.wrap(value, Precedence.Postfix)}.0.into()`;
+    }
+    if (
+      (type.kind === 'dynArray' || type.kind === 'array') &&
+      (isInteger(type.element) || type.element.kind === 'bytes')
+    ) {
+      const element = type.element;
+      if (element.kind === 'bytes' || element.bits <= 128) {
+        reportError(
+          this.model,
+          node,
+          `${formatType(type)} cannot be used in events or interfaces by the Stylus backend`
+        );
+      }
+    }
+    return code;
+  }
+
+  private fromSolidityValue(code: string, type: ContractType): string {
+    if (type.kind === 'uint' && type.bits <= 128) {
+      return `${this.typeName(type)}::from(${code})`;
+    }
+    if (type.kind === 'int' && type.bits <= 128) {
+      return `${this.typeName(type)}::unchecked_from(${code})`;
+    }
+    if (type.kind === 'bytes') {
+      this.use('abi::Bytes');
+      return `Bytes::from(${code}.to_vec())`;
+    }
+    return code;
+  }
+
+  private docstring(text: string | undefined, prefix = '///'): void {
+    if (!text) return;
+    const lines = text
+      .trim()
+      .split('\n')
+      .map((line) => line.trim());
+    for (const line of lines) this.line(`${prefix} ${line}`.trimEnd());
+  }
+
+  private line(text = ''): void {
+    this.lines.push({
+      text: text ? INDENT.repeat(this.depth) + text : '',
+      source: this.origin,
+    });
+  }
+
+  /** Attribute the lines emitted by `callback` to a node's Python line */
+  private at(node: ast.Node | SourceRange, callback: () => void): void {
+    const origin = this.origin;
+    if (node.file) {
+      // Imported declarations have no lines in this source
+      this.origin = undefined;
+    } else {
+      this.origin =
+        'kind' in node ? { line: node.line, endLine: node.line } : node;
+    }
+    try {
+      callback();
+    } finally {
+      this.origin = origin;
+    }
+  }
+
+  private trimTrailingBlank(): void {
+    while (this.lines.length && this.lines[this.lines.length - 1].text === '') {
+      this.lines.pop();
+    }
+  }
+}
+
+function cargoToml(name: string): string {
+  return [
+    '[package]',
+    `name = "${name}"`,
+    'version = "0.1.0"',
+    'edition = "2021"',
+    '',
+    '[dependencies]',
+    `alloy-primitives = "=${ALLOY_VERSION}"`,
+    `alloy-sol-types = "=${ALLOY_VERSION}"`,
+    `stylus-sdk = "${STYLUS_SDK_VERSION}"`,
+    '',
+    '[features]',
+    'export-abi = ["stylus-sdk/export-abi"]',
+    'debug = ["stylus-sdk/debug"]',
+    '',
+    '[lib]',
+    'crate-type = ["lib", "cdylib"]',
+    '',
+    '[profile.release]',
+    'codegen-units = 1',
+    'strip = true',
+    'lto = true',
+    'panic = "abort"',
+    'opt-level = "s"',
+    '',
+  ].join('\n');
+}
+
+/** `cargo stylus export-abi` runs the binary with the export-abi feature */
+function mainRs(crate: string): string {
+  return [
+    '#![cfg_attr(not(any(test, feature = "export-abi")), no_main)]',
+    '',
+    '#[cfg(not(any(test, feature = "export-abi")))]',
+    '#[no_mangle]',
+    'pub extern "C" fn main() {}',
+    '',
+    '#[cfg(feature = "export-abi")]',
+    'fn main() {',
+    `${INDENT}${crate}::print_abi("MIT", "pragma solidity ^0.8.23;");`,
+    '}',
+    '',
+  ].join('\n');
+}
+
+/** Struct field initialiser, using the shorthand when names match */
+function fieldInit(name: string, code: string): string {
+  return code === name ? name : `${name}: ${code}`;
+}
+
+function storageStructName(name: string): string {
+  return `Storage${name}`;
+}
+
+/** Types whose Rust representation is `Copy` */
+function isCopyType(type: ContractType): boolean {
+  switch (type.kind) {
+    case 'string':
+    case 'bytes':
+    case 'dynArray':
+    case 'struct':
+    case 'hashmap':
+      return false;
+    case 'array':
+      return isCopyType(type.element);
+    case 'tuple':
+      return type.elements.every(isCopyType);
+    default:
+      return true;
+  }
+}
+
+/** Types read from storage with a plain `get()` */
+function isPrimitive(type: ContractType): boolean {
+  switch (type.kind) {
+    case 'uint':
+    case 'int':
+    case 'enum':
+    case 'address':
+    case 'interface':
+    case 'bool':
+    case 'fixedBytes':
+      return true;
+    default:
+      return false;
+  }
+}
+
+function containsStruct(type: ContractType, model: ContractModel): boolean {
+  switch (type.kind) {
+    case 'struct':
+      return model.structs.has(type.name);
+    case 'dynArray':
+    case 'array':
+      return containsStruct(type.element, model);
+    case 'tuple':
+      return type.elements.some((element) => containsStruct(element, model));
+    default:
+      return false;
+  }
+}
+
+/** A local, or a field or element of one, which must be cloned to move */
+function isLocalPlace(expression: ast.Expression, scope: LocalPlan): boolean {
+  let current = expression;
+  while (current.kind === 'Subscript' || current.kind === 'Attribute') {
+    current = current.object;
+  }
+  return current.kind === 'Name' && scope.names.has(current.id);
+}
+
+function isTypeExpression(expression: ast.Expression): boolean {
+  return (
+    expression.kind === 'Subscript' &&
+    expression.object.kind === 'Name' &&
+    ['DynArray', 'HashMap'].includes(expression.object.id)
+  );
+}
+
+function isZeroValue(expression: ast.Expression): boolean {
+  switch (expression.kind) {
+    case 'NumberLiteral':
+      return expression.isInteger && expression.value === '0';
+    case 'BooleanLiteral':
+      return !expression.value;
+    case 'StringLiteral':
+      return expression.value === '';
+    case 'Name':
+      return [
+        'ZERO_ADDRESS',
+        'EMPTY_ADDRESS',
+        'EMPTY_BYTES32',
+        'ZERO_WEI',
+      ].includes(expression.id);
+    case 'ListExpr':
+      return expression.elements.length === 0;
+    case 'Call': {
+      if (expression.callee.kind === 'Name' && expression.callee.id === 'empty')
+        return true;
+      const [dict] = expression.args;
+      return (
+        dict?.kind === 'DictExpr' &&
+        dict.entries.every((entry) => isZeroValue(entry.value)) &&
+        expression.keywords.every((keyword) => isZeroValue(keyword.value))
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+/** Whether a block always returns or reverts at its end */
+function endsWithExit(body: ast.Statement[]): boolean {
+  const last = body[body.length - 1];
+  if (last?.kind === 'If') {
+    return (
+      last.orelse.length > 0 &&
+      endsWithExit(last.body) &&
+      endsWithExit(last.orelse)
+    );
+  }
+  return last?.kind === 'Return' || last?.kind === 'Raise';
+}
+
+/**
+ * Parameters and locals that need `mut`: assigned more than once, or
+ * modified through an augmented assignment, element, field or method.
+ */
+function mutatedNames(fn: FunctionModel, plan: LocalPlan): Set<string> {
+  const assignments = new Map<string, number>();
+  const mutable = new Set<string>();
+  const root = (expression: ast.Expression): string | undefined => {
+    let current = expression;
+    while (current.kind === 'Subscript' || current.kind === 'Attribute') {
+      current = current.object;
+    }
+    return current.kind === 'Name' ? current.id : undefined;
+  };
+
+  for (const param of fn.params) assignments.set(param.name, 1);
+  forEachStatement(fn.node.body, (statement) => {
+    for (const name of assignedNames(statement)) {
+      assignments.set(name, (assignments.get(name) ?? 0) + 1);
+    }
+    if (statement.kind === 'AugAssign' || statement.kind === 'Assign') {
+      if (statement.target.kind !== 'Name') {
+        const name = root(statement.target);
+        if (name) mutable.add(name);
+      } else if (statement.kind === 'AugAssign') {
+        mutable.add(statement.target.id);
+      }
+    }
+    forEachExpression([statement], (expression) => {
+      if (
+        expression.kind === 'Call' &&
+        expression.callee.kind === 'Attribute' &&
+        ['append', 'pop'].includes(expression.callee.attr)
+      ) {
+        const name = root(expression.callee.object);
+        if (name) mutable.add(name);
+      }
+    });
+  });
+
+  for (const [name, count] of assignments) {
+    if (count > 1) mutable.add(name);
+  }
+  // Locals declared ahead of their first assignment start at zero
+  for (const names of plan.declareBefore.values()) {
+    for (const name of names) mutable.add(name);
+  }
+  return mutable;
+}
+
+/** Bits of the Rust primitive that `sol!` uses for a small integer */
+function primitiveBits(bits: number): number {
+  return [8, 16, 32, 64, 128].find((size) => size >= bits) ?? 256;
+}
+
+/** Split an identifier into words the way `heck` does */
+function words(name: string): string[] {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .flatMap((part) =>
+      part.split(/(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/)
+    )
+    .filter(Boolean);
+}
+
+/** stylus-sdk derives ABI names from Rust names in lowerCamelCase */
+function lowerCamelCase(name: string): string {
+  return words(name)
+    .map((word, index) =>
+      index === 0
+        ? word.toLowerCase()
+        : word[0].toUpperCase() + word.slice(1).toLowerCase()
+    )
+    .join('');
+}
+
+/** `sol_interface!` exposes interface methods in snake_case */
+function snakeCase(name: string): string {
+  return words(name)
+    .map((word) => word.toLowerCase())
+    .join('_');
+}
+
+function compareIdentifiers(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Quote a string as a Rust literal */
+function rustString(value: string): string {
+  let body = '';
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    if (char === '"' || char === '\\') body += `\\${char}`;
+    else if (char === '\n') body += '\\n';
+    else if (char === '\r') body += '\\r';
+    else if (char === '\t') body += '\\t';
+    else if (code < 0x20 || code === 0x7f) body += `\\u{${code.toString(16)}}`;
+    else body += char;
+  }
+  return `"${body}"`;
+}
+
+/** Quote a string as a Rust byte string literal */
+function rustBytes(value: string): string {
+  let body = '';
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    if (char === '"' || char === '\\') body += `\\${char}`;
+    else if (code >= 0x20 && code < 0x7f) body += char;
+    else body += `\\x${(code & 0xff).toString(16).padStart(2, '0')}`;
+  }
+  return `b"${body}"`;
+}
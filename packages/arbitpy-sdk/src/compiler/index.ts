@@ -1,13 +1,28 @@
 // ArbitPy Compiler Client
 import { EventEmitter } from 'eventemitter3';
 import { HttpClient } from '../utils/http-client';
+import { ArbitPyError, toArbitPyError } from '../errors';
+import {
+  mapToSource,
+  transpileToRust,
+  transpileToSolidity,
+  TranspileOptions,
+} from '../codegen';
 import {
   CompilationRequest,
   CompilationResult,
   ArbitPyConfig,
   ArbitPyEvents,
+  CallOptions,
 } from '../types';
 
+// What a method resolves to, the shape of the API response it returns
+type Resolved<K extends keyof ArbitPyCompiler> = ArbitPyCompiler[K] extends (
+  ...args: never[]
+) => Promise<infer R>
+  ? R
+  : never;
+
 export class ArbitPyCompiler extends EventEmitter<ArbitPyEvents> {
   private httpClient: HttpClient;
 
@@ -45,17 +60,39 @@ export class ArbitPyCompiler extends EventEmitter<ArbitPyEvents> {
   }
 
   /**
-   * Compile Python-like code to Rust (Stylus)
+   * Compile Python-like code to Rust (Stylus). The crate is generated
+   * locally and sent to the backend to be built to WASM; build errors in
+   * `src/lib.rs` are reported against the Python source.
    */
   async compileRust(
     code: string,
     options: Omit<CompilationRequest, 'code' | 'target'> = {}
   ): Promise<CompilationResult> {
-    return this.compile({
+    const crate = this.compileLocal(code, {
+      contractName: options.options?.contractName,
+      target: 'rust',
+    });
+    if (!crate.success) return crate;
+
+    const result = await this.compile({
       code,
       target: 'rust',
       ...options,
+      options: { ...options.options, files: crate.files },
     });
+    const sourceMap = crate.sourceMap!;
+    return {
+      ...result,
+      output: result.output ?? crate.output,
+      files: result.files ?? crate.files,
+      abi: crate.abi,
+      sourceMap,
+      errors: result.errors && mapToSource(result.errors, sourceMap),
+      warnings: [
+        ...(crate.warnings ?? []),
+        ...mapToSource(result.warnings ?? [], sourceMap),
+      ],
+    };
   }
 
   /**
@@ -78,7 +115,9 @@ export class ArbitPyCompiler extends EventEmitter<ArbitPyEvents> {
           optimization: request.optimization ?? true,
           version: request.version ?? 'latest',
           ...request.options,
-        }
+        },
+        // Compiling has no side effects, so failed attempts can be resent
+        { signal: request.signal, idempotencyKey: sessionId }
       );
 
       const result = response.data;
@@ -95,21 +134,64 @@ export class ArbitPyCompiler extends EventEmitter<ArbitPyEvents> {
 
       return result;
     } catch (error) {
+      const failure = toArbitPyError(error);
       const sessionId = this.generateSessionId();
+      this.emit('compilation:failed', { sessionId, error: failure.message });
+      this.emit('error', failure);
+      throw failure;
+    }
+  }
+
+  /**
+   * Transpile Python-like code to Solidity, or to a Stylus crate with
+   * `target: 'rust'`, in-process without the backend
+   */
+  compileLocal(
+    code: string,
+    options: TranspileOptions & { target?: 'solidity' | 'rust' } = {}
+  ): CompilationResult {
+    const sessionId = this.generateSessionId('local');
+    this.emit('compilation:started', { sessionId });
+
+    const { target = 'solidity', ...transpileOptions } = options;
+    const transpiled =
+      target === 'rust'
+        ? transpileToRust(code, transpileOptions)
+        : transpileToSolidity(code, transpileOptions);
+    const result: CompilationResult = {
+      success: transpiled.success,
+      sessionId,
+      output: transpiled.output,
+      files: transpiled.files,
+      abi: transpiled.abi,
+      sourceMap: transpiled.sourceMap,
+      storageLayout: transpiled.storageLayout,
+      warnings: transpiled.warnings,
+      errors: transpiled.errors,
+    };
+
+    if (result.success) {
+      this.emit('compilation:completed', result);
+    } else {
       this.emit('compilation:failed', {
         sessionId,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: result.errors?.[0]?.message || 'Compilation failed',
       });
-      throw error;
     }
+
+    return result;
   }
 
   /**
    * Get compilation status by session ID
    */
-  async getCompilationStatus(sessionId: string): Promise<CompilationResult> {
+  async getCompilationStatus(
+    sessionId: string,
+    { signal }: CallOptions = {}
+  ): Promise<CompilationResult> {
     const response = await this.httpClient.get<CompilationResult>(
-      `/compile/status/${sessionId}`
+      `/compile/status/${sessionId}`,
+      { signal }
     );
     return response.data;
   }
@@ -117,19 +199,29 @@ export class ArbitPyCompiler extends EventEmitter<ArbitPyEvents> {
   /**
    * Get supported compiler versions
    */
-  async getSupportedVersions(target: 'vyper' | 'solidity' | 'rust'): Promise<{
+  async getSupportedVersions(
+    target: 'vyper' | 'solidity' | 'rust',
+    { signal }: CallOptions = {}
+  ): Promise<{
     versions: string[];
     latest: string;
     recommended: string;
   }> {
-    const response = await this.httpClient.get(`/compile/${target}/versions`);
+    const response = await this.httpClient.get<
+      Resolved<'getSupportedVersions'>
+    >(`/compile/${target}/versions`, {
+      signal,
+    });
     return response.data;
   }
 
   /**
    * Validate Python-like code syntax without compilation
    */
-  async validateCode(code: string): Promise<{
+  async validateCode(
+    code: string,
+    { signal }: CallOptions = {}
+  ): Promise<{
     valid: boolean;
     errors: Array<{
       line: number;
@@ -138,14 +230,21 @@ export class ArbitPyCompiler extends EventEmitter<ArbitPyEvents> {
       severity: 'error' | 'warning';
     }>;
   }> {
-    const response = await this.httpClient.post('/compile/validate', { code });
+    const response = await this.httpClient.post<Resolved<'validateCode'>>(
+      '/compile/validate',
+      { code },
+      { signal }
+    );
     return response.data;
   }
 
   /**
    * Get example contracts for different categories
    */
-  async getExamples(category?: string): Promise<{
+  async getExamples(
+    category?: string,
+    { signal }: CallOptions = {}
+  ): Promise<{
     contracts: Array<{
       id: string;
       name: string;
@@ -155,16 +254,23 @@ export class ArbitPyCompiler extends EventEmitter<ArbitPyEvents> {
       features: string[];
     }>;
   }> {
-    const response = await this.httpClient.get('/contracts', {
-      params: { category },
-    });
+    const response = await this.httpClient.get<Resolved<'getExamples'>>(
+      '/contracts',
+      {
+        params: { category },
+        signal,
+      }
+    );
     return response.data;
   }
 
   /**
    * Format Python-like code
    */
-  async formatCode(code: string): Promise<{
+  async formatCode(
+    code: string,
+    { signal }: CallOptions = {}
+  ): Promise<{
     formatted: string;
     changes: Array<{
       line: number;
@@ -172,17 +278,18 @@ export class ArbitPyCompiler extends EventEmitter<ArbitPyEvents> {
       description: string;
     }>;
   }> {
-    const response = await this.httpClient.post('/utils/format-code', {
-      code,
-      language: 'python',
-    });
+    const response = await this.httpClient.post<Resolved<'formatCode'>>(
+      '/utils/format-code',
+      { code, language: 'python' },
+      { signal }
+    );
     return response.data;
   }
 
   /**
    * Get compilation statistics and analytics
    */
-  async getCompilationStats(): Promise<{
+  async getCompilationStats({ signal }: CallOptions = {}): Promise<{
     totalCompilations: number;
     successRate: number;
     averageCompilationTime: number;
@@ -197,7 +304,12 @@ export class ArbitPyCompiler extends EventEmitter<ArbitPyEvents> {
       solutions: string[];
     }>;
   }> {
-    const response = await this.httpClient.get('/analytics/compilation');
+    const response = await this.httpClient.get<Resolved<'getCompilationStats'>>(
+      '/analytics/compilation',
+      {
+        signal,
+      }
+    );
     return response.data;
   }
 
@@ -210,11 +322,13 @@ export class ArbitPyCompiler extends EventEmitter<ArbitPyEvents> {
       case 'rust':
         return '/compile/rust';
       default:
-        throw new Error(`Unsupported compilation target: ${target}`);
+        throw new ArbitPyError(`Unsupported compilation target: ${target}`, {
+          code: 'UNSUPPORTED_TARGET',
+        });
     }
   }
 
-  private generateSessionId(): string {
-    return `compile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private generateSessionId(prefix = 'compile'): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,11 @@
 // Network configurations for ArbitPy SDK
 import { Network } from './types';
 
+export const LOCAL_NETWORK = 'local';
+export const LOCAL_CHAIN_ID = 31337;
+/** Placeholder URL of the local network; requests never leave the process */
+export const LOCAL_RPC_URL = 'memory://devnet';
+
 export const NETWORKS: Record<string, Network> = {
   // Arbitrum Networks
   'arbitrum-one': {
@@ -121,6 +126,19 @@ export const NETWORKS: Record<string, Network> = {
       decimals: 18,
     },
   },
+
+  // Local Devnet
+  [LOCAL_NETWORK]: {
+    name: 'Local Devnet',
+    chainId: LOCAL_CHAIN_ID,
+    rpcUrl: LOCAL_RPC_URL,
+    explorerUrl: '',
+    nativeCurrency: {
+      name: 'Ethereum',
+      symbol: 'ETH',
+      decimals: 18,
+    },
+  },
 };
 
 export const DEFAULT_NETWORK = 'arbitrum-sepolia';
@@ -153,6 +171,10 @@ export function isMainnet(networkName: string): boolean {
   return MAINNET_NETWORKS.includes(networkName);
 }
 
+export function isLocalNetwork(networkName: string): boolean {
+  return networkName === LOCAL_NETWORK;
+}
+
 export function getSupportedNetworks(): string[] {
   return Object.keys(NETWORKS);
 }
\ No newline at end of file
@@ -0,0 +1,333 @@
+// Historical log sync with adaptive pagination and reorg detection
+import { EventEmitter } from 'eventemitter3';
+import { ethers } from 'ethers';
+import { ArbitPyError, toArbitPyError } from '../errors';
+import type { ContractEvent } from './index';
+
+/** A block the sync has processed, used to notice reorgs */
+export interface SyncedBlock {
+  number: number;
+  hash: string;
+}
+
+/** Where the sync resumes from */
+export interface SyncCursor {
+  /** Last block whose logs were delivered */
+  blockNumber: number;
+  /** Recent processed blocks, oldest first */
+  blocks: SyncedBlock[];
+}
+
+/** Persists sync cursors, e.g. in localStorage or a database */
+export interface CursorStore {
+  load(key: string): Promise<SyncCursor | undefined>;
+  save(key: string, cursor: SyncCursor): Promise<void>;
+}
+
+/** Keeps cursors for the lifetime of the process */
+export class MemoryCursorStore implements CursorStore {
+  private cursors = new Map<string, SyncCursor>();
+
+  async load(key: string): Promise<SyncCursor | undefined> {
+    return this.cursors.get(key);
+  }
+
+  async save(key: string, cursor: SyncCursor): Promise<void> {
+    this.cursors.set(key, cursor);
+  }
+}
+
+/** Stores cursors as JSON in a Web Storage area such as localStorage */
+export class WebStorageCursorStore implements CursorStore {
+  constructor(
+    private storage: Pick<Storage, 'getItem' | 'setItem'>,
+    private prefix = 'arbitpy:event-sync:'
+  ) {}
+
+  async load(key: string): Promise<SyncCursor | undefined> {
+    const stored = this.storage.getItem(this.prefix + key);
+    return stored ? (JSON.parse(stored) as SyncCursor) : undefined;
+  }
+
+  async save(key: string, cursor: SyncCursor): Promise<void> {
+    this.storage.setItem(this.prefix + key, JSON.stringify(cursor));
+  }
+}
+
+/** A decoded log, with the hash of the block it was included in */
+export interface SyncedEvent<TArgs = Record<string, unknown>> extends Omit<
+  ContractEvent,
+  'args'
+> {
+  args: TArgs;
+  blockHash: string;
+}
+
+export interface EventSyncEvents {
+  /** A decoded log, delivered in chain order */
+  event: SyncedEvent;
+  /**
+   * Blocks from `blockNumber` on were replaced. Drop events indexed from
+   * them; the sync delivers the new chain's events again.
+   */
+  reorg: { blockNumber: number };
+  /** A block range was synced */
+  progress: { fromBlock: number; toBlock: number; headBlock: number };
+  error: ArbitPyError;
+}
+
+export interface EventSyncOptions {
+  provider: ethers.Provider;
+  address: string;
+  abi: ethers.InterfaceAbi;
+  /** Names or signatures of the events to sync; defaults to all */
+  events?: string[];
+  /** First block to sync when there is no stored cursor */
+  fromBlock?: number;
+  /** Blocks to stay behind the head */
+  confirmations?: number;
+  store?: CursorStore;
+  /** Key of the cursor in the store; defaults to the contract address */
+  key?: string;
+  /** Blocks asked for in the first getLogs request */
+  batchSize?: number;
+  /** Upper bound the batch size grows to after successful requests */
+  maxBatchSize?: number;
+  /** How many recent blocks are checked for reorgs */
+  reorgDepth?: number;
+  /** Milliseconds between syncs after `start()` */
+  pollInterval?: number;
+}
+
+// How providers reject ranges that are too wide or return too many logs
+const RANGE_ERRORS = [
+  /block range/i,
+  /range (is )?too (large|wide|big)/i,
+  /too many (results|logs|blocks)/i,
+  /returned more than \d+/i,
+  /response size/i,
+  /exceeds? (the )?max/i,
+];
+
+// Whether getLogs failed for the size of its range; the JSON-RPC error
+// is nested in what ethers throws
+function isRangeError(error: unknown): boolean {
+  const {
+    message,
+    error: rpc,
+    info,
+  } = (error ?? {}) as {
+    message?: string;
+    error?: { message?: string };
+    info?: { error?: { message?: string } };
+  };
+  return [message, rpc?.message, info?.error?.message].some(
+    (text) => text && RANGE_ERRORS.some((pattern) => pattern.test(text))
+  );
+}
+
+/**
+ * Syncs the logs of a contract into an off-chain index. Block ranges are
+ * halved when the RPC rejects them as too large and grow again after they
+ * succeed; other errors are thrown at once. The cursor is saved after
+ * every range, so events are delivered at least once across restarts;
+ * processed block hashes are compared on each sync to detect reorgs.
+ */
+export class EventSync extends EventEmitter<EventSyncEvents> {
+  private readonly provider: ethers.Provider;
+  private readonly address: string;
+  private readonly contract: ethers.Interface;
+  private readonly topics: string[];
+  private readonly store: CursorStore;
+  private readonly key: string;
+  private readonly options: Required<
+    Pick<
+      EventSyncOptions,
+      | 'fromBlock'
+      | 'confirmations'
+      | 'maxBatchSize'
+      | 'reorgDepth'
+      | 'pollInterval'
+    >
+  >;
+  private batchSize: number;
+  private syncing?: Promise<number>;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+
+  constructor(options: EventSyncOptions) {
+    super();
+    this.provider = options.provider;
+    this.address = options.address;
+    this.contract = new ethers.Interface(options.abi);
+    const events: ethers.EventFragment[] = [];
+    if (options.events) {
+      for (const name of options.events) {
+        const fragment = this.contract.getEvent(name);
+        if (!fragment) {
+          throw new ArbitPyError(`Event ${name} not found in contract ABI`, {
+            code: 'EVENT_NOT_FOUND',
+          });
+        }
+        events.push(fragment);
+      }
+    } else {
+      this.contract.forEachEvent((fragment) => events.push(fragment));
+    }
+    this.topics = events.map((fragment) => fragment.topicHash);
+    this.store = options.store ?? new MemoryCursorStore();
+    this.key = options.key ?? options.address.toLowerCase();
+    this.batchSize = options.batchSize ?? 2000;
+    this.options = {
+      fromBlock: options.fromBlock ?? 0,
+      confirmations: options.confirmations ?? 0,
+      maxBatchSize: options.maxBatchSize ?? 10000,
+      reorgDepth: options.reorgDepth ?? 64,
+      pollInterval: options.pollInterval ?? 4000,
+    };
+  }
+
+  /**
+   * Deliver every event up to the confirmed head and return the last
+   * synced block. Concurrent calls share one pass.
+   */
+  sync(): Promise<number> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = undefined;
+      });
+    }
+    return this.syncing;
+  }
+
+  /** Sync now and then every `pollInterval`; errors are emitted */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    const poll = async () => {
+      try {
+        await this.sync();
+      } catch {
+        // Emitted as 'error' by sync
+      }
+      if (this.running) {
+        this.timer = setTimeout(poll, this.options.pollInterval);
+      }
+    };
+    void poll();
+  }
+
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.timer);
+  }
+
+  getCursor(): Promise<SyncCursor | undefined> {
+    return this.store.load(this.key);
+  }
+
+  private async runSync(): Promise<number> {
+    try {
+      let cursor = await this.store.load(this.key);
+      if (cursor) cursor = await this.checkReorg(cursor);
+
+      const headBlock =
+        (await this.provider.getBlockNumber()) - this.options.confirmations;
+      let fromBlock = cursor ? cursor.blockNumber + 1 : this.options.fromBlock;
+      let blocks = cursor?.blocks ?? [];
+
+      while (fromBlock <= headBlock) {
+        const toBlock = Math.min(fromBlock + this.batchSize - 1, headBlock);
+        const logs = await this.getLogs(fromBlock, toBlock);
+        if (!logs) continue;
+
+        for (const log of logs) {
+          const event = this.decode(log);
+          if (event) this.emit('event', event);
+        }
+
+        // Remember the hashes of the range end and of blocks with logs
+        const last = await this.provider.getBlock(toBlock);
+        const seen = new Map(blocks.map((block) => [block.number, block.hash]));
+        for (const log of logs) seen.set(log.blockNumber, log.blockHash);
+        if (last?.hash) seen.set(toBlock, last.hash);
+        blocks = [...seen]
+          .map(([number, hash]) => ({ number, hash }))
+          .sort((a, b) => a.number - b.number)
+          .filter(({ number }) => number > toBlock - this.options.reorgDepth);
+
+        await this.store.save(this.key, { blockNumber: toBlock, blocks });
+        this.emit('progress', { fromBlock, toBlock, headBlock });
+        fromBlock = toBlock + 1;
+      }
+      return fromBlock - 1;
+    } catch (error) {
+      const failure = toArbitPyError(error);
+      this.emit('error', failure);
+      throw failure;
+    }
+  }
+
+  // Returns undefined after shrinking the batch, so the range is retried
+  private async getLogs(
+    fromBlock: number,
+    toBlock: number
+  ): Promise<ethers.Log[] | undefined> {
+    try {
+      const logs = await this.provider.getLogs({
+        address: this.address,
+        topics: [this.topics],
+        fromBlock,
+        toBlock,
+      });
+      this.batchSize = Math.min(this.batchSize * 2, this.options.maxBatchSize);
+      return logs;
+    } catch (error) {
+      if (toBlock === fromBlock || !isRangeError(error)) throw error;
+      this.batchSize = Math.max(1, Math.floor((toBlock - fromBlock + 1) / 2));
+      return undefined;
+    }
+  }
+
+  // Rewind to the newest processed block that is still on the chain
+  private async checkReorg(cursor: SyncCursor): Promise<SyncCursor> {
+    const blocks = [...cursor.blocks];
+    let replaced: number | undefined;
+    while (blocks.length) {
+      const latest = blocks[blocks.length - 1];
+      const block = await this.provider.getBlock(latest.number);
+      if (block?.hash === latest.hash) break;
+      replaced = latest.number;
+      blocks.pop();
+    }
+    if (replaced === undefined) return cursor;
+
+    // With no matching block left, resync the whole window
+    const ancestor = blocks.length
+      ? blocks[blocks.length - 1].number
+      : Math.max(
+          cursor.blockNumber - this.options.reorgDepth,
+          this.options.fromBlock - 1
+        );
+    const rewound = { blockNumber: ancestor, blocks };
+    await this.store.save(this.key, rewound);
+    this.emit('reorg', { blockNumber: ancestor + 1 });
+    return rewound;
+  }
+
+  private decode(log: ethers.Log): SyncedEvent | undefined {
+    const parsed = this.contract.parseLog(log);
+    if (!parsed) return undefined;
+    return {
+      name: parsed.name,
+      signature: parsed.signature,
+      topics: log.topics,
+      data: log.data,
+      args: parsed.args,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+    };
+  }
+}
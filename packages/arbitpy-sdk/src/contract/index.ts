@@ -2,10 +2,21 @@
 import { EventEmitter } from 'eventemitter3';
 import { ethers } from 'ethers';
 import { HttpClient } from '../utils/http-client';
-import { getNetwork } from '../config';
+import { createProvider } from '../utils/provider';
+import { getNetwork, isLocalNetwork } from '../config';
+import { getDevnet } from '../devnet';
+import { ArbitPyError, toArbitPyError } from '../errors';
+import {
+  MulticallCall,
+  MulticallOptions,
+  MulticallResult,
+  multicall,
+} from './multicall';
+import { EventSync, EventSyncOptions } from './event-sync';
 import {
   ArbitPyConfig,
   ArbitPyEvents,
+  CallOptions,
   ContractInteractionOptions,
 } from '../types';
 
@@ -44,15 +55,22 @@ export interface ContractTransaction {
   confirmations: number;
 }
 
+// What a method resolves to, the shape of the API response it returns
+type Resolved<K extends keyof ArbitPyContract> = ArbitPyContract[K] extends (
+  ...args: never[]
+) => Promise<infer R>
+  ? R
+  : never;
+
 export class ArbitPyContract extends EventEmitter<ArbitPyEvents> {
   private httpClient: HttpClient;
-  private providers: Map<string, ethers.JsonRpcProvider>;
+  private providers: Map<string, ethers.JsonRpcApiProvider>;
   private contracts: Map<string, ethers.Contract>;
   
   public readonly address: string;
   public readonly abi: any[];
   public readonly network: string;
-  private provider?: ethers.JsonRpcProvider;
+  private provider?: ethers.JsonRpcApiProvider;
   private signer?: ethers.Signer;
 
   constructor(
@@ -71,16 +89,20 @@ export class ArbitPyContract extends EventEmitter<ArbitPyEvents> {
   }
 
   /**
-   * Connect to the contract with a provider
+   * Connect to the contract with a provider. Without one, contracts on the
+   * local network sign with the first devnet account.
    */
   async connect(providerOrSigner?: ethers.Provider | ethers.Signer): Promise<void> {
     if (providerOrSigner) {
       if ('getBlockNumber' in providerOrSigner) {
-        this.provider = providerOrSigner as ethers.JsonRpcProvider;
+        this.provider = providerOrSigner as ethers.JsonRpcApiProvider;
       } else {
         this.signer = providerOrSigner as ethers.Signer;
-        this.provider = this.signer.provider as ethers.JsonRpcProvider;
+        this.provider = this.signer.provider as ethers.JsonRpcApiProvider;
       }
+    } else if (isLocalNetwork(this.network)) {
+      this.signer = getDevnet().getSigner();
+      this.provider = await this.getProvider(this.network);
     } else {
       this.provider = await this.getProvider(this.network);
     }
@@ -119,12 +141,7 @@ export class ArbitPyContract extends EventEmitter<ArbitPyEvents> {
     options: ContractInteractionOptions = {}
   ): Promise<T> {
     try {
-      const contract = await this.getContract();
-      const method = contract[methodName];
-      
-      if (!method) {
-        throw new Error(`Method ${methodName} not found in contract ABI`);
-      }
+      const method = await this.getMethod(methodName);
 
       const result = await method(...params, {
         gasLimit: options.gasLimit,
@@ -134,8 +151,30 @@ export class ArbitPyContract extends EventEmitter<ArbitPyEvents> {
 
       return result;
     } catch (error) {
-      this.emit('error', error instanceof Error ? error : new Error(String(error)));
-      throw error;
+      const failure = toArbitPyError(error, { abi: this.abi });
+      this.emit('error', failure);
+      throw failure;
+    }
+  }
+
+  /**
+   * Call several read-only functions in one batch through Multicall3,
+   * falling back to parallel calls where Multicall3 is not deployed.
+   * Results are in call order, with a success flag each.
+   */
+  async multicall<T = unknown>(
+    calls: MulticallCall[],
+    options: MulticallOptions = {}
+  ): Promise<MulticallResult<T>[]> {
+    try {
+      if (!this.provider) {
+        await this.connect();
+      }
+      return await multicall<T>(this.provider!, this.address, this.abi, calls, options);
+    } catch (error) {
+      const failure = toArbitPyError(error, { abi: this.abi });
+      this.emit('error', failure);
+      throw failure;
     }
   }
 
@@ -149,15 +188,12 @@ export class ArbitPyContract extends EventEmitter<ArbitPyEvents> {
   ): Promise<ContractTransaction> {
     try {
       if (!this.signer) {
-        throw new Error('Signer required for sending transactions');
+        throw new ArbitPyError('Signer required for sending transactions', {
+          code: 'SIGNER_REQUIRED',
+        });
       }
 
-      const contract = await this.getContract();
-      const method = contract[methodName];
-      
-      if (!method) {
-        throw new Error(`Method ${methodName} not found in contract ABI`);
-      }
+      const method = await this.getMethod(methodName);
 
       const tx = await method(...params, {
         gasLimit: options.gasLimit,
@@ -170,8 +206,9 @@ export class ArbitPyContract extends EventEmitter<ArbitPyEvents> {
         confirmations: 0,
       };
     } catch (error) {
-      this.emit('error', error instanceof Error ? error : new Error(String(error)));
-      throw error;
+      const failure = toArbitPyError(error, { abi: this.abi });
+      this.emit('error', failure);
+      throw failure;
     }
   }
 
@@ -183,19 +220,17 @@ export class ArbitPyContract extends EventEmitter<ArbitPyEvents> {
     params: any[] = [],
     options: ContractInteractionOptions = {}
   ): Promise<string> {
-    const contract = await this.getContract();
-    const method = contract[methodName];
-    
-    if (!method) {
-      throw new Error(`Method ${methodName} not found in contract ABI`);
-    }
-
-    const gasEstimate = await method.estimateGas(...params, {
-      from: options.from,
-      value: options.value,
-    });
+    const method = await this.getMethod(methodName);
 
-    return gasEstimate.toString();
+    try {
+      const gasEstimate = await method.estimateGas(...params, {
+        from: options.from,
+        value: options.value,
+      });
+      return gasEstimate.toString();
+    } catch (error) {
+      throw toArbitPyError(error, { abi: this.abi });
+    }
   }
 
   /**
@@ -265,6 +300,24 @@ export class ArbitPyContract extends EventEmitter<ArbitPyEvents> {
     });
   }
 
+  /**
+   * Create a resumable sync of this contract's logs, for indexing ranges
+   * too large for a single getPastEvents query
+   */
+  async createEventSync(
+    options: Omit<EventSyncOptions, 'provider' | 'address' | 'abi'> = {}
+  ): Promise<EventSync> {
+    if (!this.provider) {
+      await this.connect();
+    }
+    return new EventSync({
+      ...options,
+      provider: this.provider!,
+      address: this.address,
+      abi: this.abi,
+    });
+  }
+
   /**
    * Get all contract methods from ABI
    */
@@ -308,14 +361,15 @@ export class ArbitPyContract extends EventEmitter<ArbitPyEvents> {
   /**
    * Check if contract is verified
    */
-  async isVerified(): Promise<boolean> {
+  async isVerified({ signal }: CallOptions = {}): Promise<boolean> {
     try {
-      const response = await this.httpClient.get(
+      const response = await this.httpClient.get<{ verified: boolean }>(
         `/contracts/${this.address}/verification`,
-        { params: { network: this.network } }
+        { params: { network: this.network }, signal }
       );
       return response.data.verified;
-    } catch {
+    } catch (error) {
+      if (signal?.aborted) throw error;
       return false;
     }
   }
@@ -323,15 +377,15 @@ export class ArbitPyContract extends EventEmitter<ArbitPyEvents> {
   /**
    * Get contract source code (if verified)
    */
-  async getSourceCode(): Promise<{
+  async getSourceCode({ signal }: CallOptions = {}): Promise<{
     sourceCode: string;
     compiler: string;
     version: string;
     verified: boolean;
   }> {
-    const response = await this.httpClient.get(
+    const response = await this.httpClient.get<Resolved<'getSourceCode'>>(
       `/contracts/${this.address}/source`,
-      { params: { network: this.network } }
+      { params: { network: this.network }, signal }
     );
     return response.data;
   }
@@ -341,7 +395,8 @@ export class ArbitPyContract extends EventEmitter<ArbitPyEvents> {
    */
   async getTransactionHistory(
     limit: number = 20,
-    offset: number = 0
+    offset: number = 0,
+    { signal }: CallOptions = {}
   ): Promise<{
     transactions: Array<{
       hash: string;
@@ -357,30 +412,44 @@ export class ArbitPyContract extends EventEmitter<ArbitPyEvents> {
     }>;
     total: number;
   }> {
-    const response = await this.httpClient.get(
-      `/contracts/${this.address}/transactions`,
-      { 
-        params: { 
-          network: this.network,
-          limit,
-          offset 
-        } 
-      }
-    );
+    const response = await this.httpClient.get<
+      Resolved<'getTransactionHistory'>
+    >(`/contracts/${this.address}/transactions`, {
+      params: {
+        network: this.network,
+        limit,
+        offset,
+      },
+      signal,
+    });
     return response.data;
   }
 
-  private async getProvider(network: string): Promise<ethers.JsonRpcProvider> {
+  private async getMethod(methodName: string): Promise<ethers.BaseContractMethod> {
+    const contract = await this.getContract();
+    const method = contract[methodName];
+
+    if (!method) {
+      throw new ArbitPyError(`Method ${methodName} not found in contract ABI`, {
+        code: 'METHOD_NOT_FOUND',
+      });
+    }
+    return method;
+  }
+
+  private async getProvider(network: string): Promise<ethers.JsonRpcApiProvider> {
     if (this.providers.has(network)) {
       return this.providers.get(network)!;
     }
 
     const networkConfig = getNetwork(network);
     if (!networkConfig) {
-      throw new Error(`Unsupported network: ${network}`);
+      throw new ArbitPyError(`Unsupported network: ${network}`, {
+        code: 'UNSUPPORTED_NETWORK',
+      });
     }
 
-    const provider = new ethers.JsonRpcProvider(networkConfig.rpcUrl);
+    const provider = createProvider(networkConfig);
     this.providers.set(network, provider);
     return provider;
   }
@@ -0,0 +1,187 @@
+// Batched read calls through the Multicall3 contract
+import { ethers } from 'ethers';
+import { DecodedRevert, decodeRevert, findRevertData } from './revert';
+
+/** Multicall3 is deployed at this address on Arbitrum and most chains */
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+];
+const multicall3 = new ethers.Interface(MULTICALL3_ABI);
+
+export interface MulticallCall {
+  /** Function name, or its signature when overloaded */
+  method: string;
+  params?: unknown[];
+}
+
+export interface MulticallResult<T = unknown> {
+  success: boolean;
+  /** Decoded return value, like `ArbitPyContract.call` returns it */
+  value?: T;
+  /** Raw return data, or the revert data of a failed call */
+  returnData: string;
+  /** Why the call reverted, when the revert data could be decoded */
+  revert?: DecodedRevert;
+}
+
+export interface MulticallOptions {
+  /** Calls per aggregate3 request; larger batches are split */
+  chunkSize?: number;
+  /** Address of Multicall3 on the network */
+  multicallAddress?: string;
+  blockTag?: ethers.BlockTag;
+}
+
+export const DEFAULT_MULTICALL_CHUNK_SIZE = 100;
+
+// Whether Multicall3 is deployed, per provider and address
+const deployments = new WeakMap<
+  ethers.Provider,
+  Map<string, Promise<boolean>>
+>();
+
+function hasMulticall(
+  provider: ethers.Provider,
+  address: string
+): Promise<boolean> {
+  let known = deployments.get(provider);
+  if (!known) {
+    known = new Map();
+    deployments.set(provider, known);
+  }
+  let deployed = known.get(address);
+  if (!deployed) {
+    deployed = provider.getCode(address).then((code) => code !== '0x');
+    // Ask again next time when the lookup itself failed
+    deployed.catch(() => known!.delete(address));
+    known.set(address, deployed);
+  }
+  return deployed;
+}
+
+function decodeResult<T>(
+  contract: ethers.Interface,
+  method: string,
+  success: boolean,
+  returnData: string
+): MulticallResult<T> {
+  if (!success) {
+    return {
+      success,
+      returnData,
+      revert: decodeRevert(returnData, contract.fragments),
+    };
+  }
+  try {
+    const result = contract.decodeFunctionResult(method, returnData);
+    return {
+      success,
+      returnData,
+      value: (result.length === 1 ? result[0] : result) as T,
+    };
+  } catch {
+    // Returned data that does not match the ABI, e.g. from an EOA
+    return { success: false, returnData };
+  }
+}
+
+/**
+ * Call view functions of the contract at `address` in as few RPC requests
+ * as possible. Calls are aggregated through Multicall3 in chunks of
+ * `chunkSize`; on networks without Multicall3 they are sent in parallel.
+ * A failed call never fails the batch: its result has `success: false`.
+ * `T` is the type of the decoded values, unknown unless given.
+ */
+export async function multicall<T = unknown>(
+  provider: ethers.Provider,
+  address: string,
+  abi: ethers.InterfaceAbi,
+  calls: MulticallCall[],
+  options: MulticallOptions = {}
+): Promise<MulticallResult<T>[]> {
+  const contract = new ethers.Interface(abi);
+  const encoded = calls.map(({ method, params = [] }) =>
+    contract.encodeFunctionData(method, params)
+  );
+  const multicallAddress = options.multicallAddress ?? MULTICALL3_ADDRESS;
+  const chunkSize = Math.max(
+    1,
+    options.chunkSize ?? DEFAULT_MULTICALL_CHUNK_SIZE
+  );
+
+  const callOne = async (index: number): Promise<MulticallResult<T>> => {
+    try {
+      const returnData = await provider.call({
+        to: address,
+        data: encoded[index],
+        blockTag: options.blockTag,
+      });
+      return decodeResult<T>(contract, calls[index].method, true, returnData);
+    } catch (error) {
+      const revertData = findRevertData(error);
+      if (
+        revertData === undefined &&
+        !ethers.isError(error, 'CALL_EXCEPTION')
+      ) {
+        throw error;
+      }
+      return decodeResult(
+        contract,
+        calls[index].method,
+        false,
+        revertData ?? '0x'
+      );
+    }
+  };
+
+  if (!(await hasMulticall(provider, multicallAddress))) {
+    return Promise.all(calls.map((_, index) => callOne(index)));
+  }
+
+  const chunks: number[][] = [];
+  for (let start = 0; start < calls.length; start += chunkSize) {
+    chunks.push(
+      calls.slice(start, start + chunkSize).map((_, offset) => start + offset)
+    );
+  }
+
+  const results = await Promise.all(
+    chunks.map(async (indexes) => {
+      const data = multicall3.encodeFunctionData('aggregate3', [
+        indexes.map((index) => ({
+          target: address,
+          allowFailure: true,
+          callData: encoded[index],
+        })),
+      ]);
+      let response: string;
+      try {
+        response = await provider.call({
+          to: multicallAddress,
+          data,
+          blockTag: options.blockTag,
+        });
+      } catch (error) {
+        // The whole batch reverted, e.g. out of gas: retry the calls alone
+        if (!ethers.isError(error, 'CALL_EXCEPTION')) throw error;
+        return Promise.all(indexes.map(callOne));
+      }
+      const [returned] = multicall3.decodeFunctionResult(
+        'aggregate3',
+        response
+      );
+      return indexes.map((index, position) => {
+        const [success, returnData] = returned[position];
+        return decodeResult<T>(
+          contract,
+          calls[index].method,
+          success,
+          returnData
+        );
+      });
+    })
+  );
+  return results.flat();
+}
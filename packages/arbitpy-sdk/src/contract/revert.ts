@@ -0,0 +1,144 @@
+// Decoding of revert data into reasons, panics and custom errors
+import { ethers } from 'ethers';
+
+/** Selector of `Error(string)`, used by `require` and `revert('...')` */
+export const ERROR_SELECTOR = '0x08c379a0';
+/** Selector of `Panic(uint256)`, used by failed asserts and checked math */
+export const PANIC_SELECTOR = '0x4e487b71';
+
+/** Meaning of the Solidity panic codes */
+export const PANIC_CODES: Record<number, string> = {
+  0x00: 'generic compiler panic',
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'incorrectly encoded storage byte array',
+  0x31: 'pop() on an empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'too much memory allocated',
+  0x51: 'call to an uninitialized function',
+};
+
+export type DecodedRevert =
+  | { kind: 'error'; reason: string }
+  | { kind: 'panic'; code: number; description: string }
+  | {
+      kind: 'custom';
+      name: string;
+      signature: string;
+      args: unknown[];
+      /** Arguments by parameter name; unnamed parameters are left out */
+      namedArgs: Record<string, unknown>;
+    };
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+function isRevertData(value: unknown): value is string {
+  return typeof value === 'string' && /^0x[0-9a-f]{8}/i.test(value);
+}
+
+/**
+ * Find the revert data in an error thrown by ethers or returned by a
+ * JSON-RPC node, which nest it differently
+ */
+export function findRevertData(error: unknown): string | undefined {
+  const seen = new Set<unknown>();
+  let candidates: unknown[] = [error];
+  // The data sits at most a few levels down, e.g. error.info.error.data
+  for (let depth = 0; depth < 4 && candidates.length; depth++) {
+    const next: unknown[] = [];
+    for (const candidate of candidates) {
+      if (!candidate || typeof candidate !== 'object' || seen.has(candidate)) {
+        continue;
+      }
+      seen.add(candidate);
+      const {
+        data,
+        error: inner,
+        info,
+        cause,
+      } = candidate as Record<string, unknown>;
+      if (isRevertData(data)) return data;
+      next.push(data, inner, info, cause);
+    }
+    candidates = next;
+  }
+  return undefined;
+}
+
+/**
+ * Decode revert data. Custom errors are looked up in `abi`; returns
+ * undefined for empty data and errors the ABI does not declare.
+ */
+export function decodeRevert(
+  data: string | undefined,
+  abi: ethers.InterfaceAbi = []
+): DecodedRevert | undefined {
+  if (!isRevertData(data)) return undefined;
+  const selector = data.slice(0, 10).toLowerCase();
+  const payload = `0x${data.slice(10)}`;
+
+  try {
+    if (selector === ERROR_SELECTOR) {
+      const [reason] = coder.decode(['string'], payload);
+      return { kind: 'error', reason };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const code = Number(coder.decode(['uint256'], payload)[0]);
+      return {
+        kind: 'panic',
+        code,
+        description: PANIC_CODES[code] ?? 'unknown panic code',
+      };
+    }
+
+    const parsed = new ethers.Interface(abi).parseError(data);
+    if (!parsed) return undefined;
+    const args = parsed.args.toArray();
+    const namedArgs: Record<string, unknown> = {};
+    parsed.fragment.inputs.forEach((input, index) => {
+      if (input.name) namedArgs[input.name] = args[index];
+    });
+    return {
+      kind: 'custom',
+      name: parsed.name,
+      signature: parsed.signature,
+      args,
+      namedArgs,
+    };
+  } catch {
+    // Malformed payload for the selector
+    return undefined;
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`;
+  return String(value);
+}
+
+/**
+ * Human-readable form of a decoded revert, e.g.
+ * `InsufficientBalance(needed=5, available=3)` or
+ * `Panic(0x11): arithmetic overflow or underflow`
+ */
+export function formatRevert(revert: DecodedRevert): string {
+  switch (revert.kind) {
+    case 'error':
+      return revert.reason;
+    case 'panic':
+      return `Panic(0x${revert.code.toString(16).padStart(2, '0')}): ${
+        revert.description
+      }`;
+    case 'custom': {
+      const names = Object.keys(revert.namedArgs);
+      const args = revert.args.map((arg, index) =>
+        names.length === revert.args.length
+          ? `${names[index]}=${formatValue(arg)}`
+          : formatValue(arg)
+      );
+      return `${revert.name}(${args.join(', ')})`;
+    }
+  }
+}
@@ -0,0 +1,267 @@
+// Deploying one contract to several networks, recorded in a manifest
+import { ethers } from 'ethers';
+import { getNetwork } from '../config';
+import {
+  ArbitPyError,
+  ContractRevertedError,
+  InsufficientFundsError,
+  TransactionPendingError,
+  UserRejectedError,
+} from '../errors';
+import type { AbiItem } from '../codegen/abi';
+import type {
+  CallOptions,
+  DeploymentRequest,
+  DeploymentResult,
+} from '../types';
+
+/** A network to deploy to, with settings that override the plan's */
+export interface DeploymentTarget {
+  network: string;
+  /** Signs for this network instead of the default key */
+  privateKey?: string;
+  constructorParams?: unknown[];
+  gasLimit?: string;
+  gasPrice?: string;
+  value?: string;
+}
+
+export interface DeploymentPlan {
+  /** Contract name, recorded in the manifest */
+  name?: string;
+  bytecode: string;
+  abi: AbiItem[];
+  constructorParams?: unknown[];
+  /** Deploy through CREATE2 with this salt, for the same address everywhere */
+  salt?: string;
+  targets: (string | DeploymentTarget)[];
+  /** Retries of a failed deployment on each network, 2 by default */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled after each */
+  retryDelay?: number;
+}
+
+/** 'pending' also when the deployment was sent but is not confirmed yet */
+export type ManifestStatus = 'pending' | 'deploying' | 'deployed' | 'failed';
+
+export interface ManifestEntry {
+  network: string;
+  chainId?: number;
+  status: ManifestStatus;
+  address?: string;
+  transactionHash?: string;
+  blockNumber?: number;
+  gasUsed?: string;
+  explorerUrl?: string;
+  /** The contract was already at `address`; no transaction was sent */
+  alreadyDeployed?: boolean;
+  attempts: number;
+  error?: string;
+}
+
+/** Where a contract was deployed, by network; safe to store as JSON */
+export interface DeploymentManifest {
+  name?: string;
+  /** keccak256 of the deployed bytecode */
+  codeHash: string;
+  salt?: string;
+  createdAt: string;
+  deployments: Record<string, ManifestEntry>;
+}
+
+export interface DeploymentPlanOptions extends CallOptions {
+  /** Called whenever a network's entry changes */
+  onUpdate?: (entry: ManifestEntry, manifest: DeploymentManifest) => void;
+  /** Chain ID recorded for a network, from `NETWORKS` by default */
+  chainId?: (network: string) => number | undefined;
+}
+
+/** Sends one deployment of the plan; throws or resolves unsuccessful on failure */
+export type PlanDeployer = (
+  request: DeploymentRequest,
+  target: DeploymentTarget
+) => Promise<DeploymentResult>;
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 1000;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** The plan's targets with the plan's settings filled in */
+export function planTargets(plan: DeploymentPlan): DeploymentTarget[] {
+  const targets = plan.targets.map((target) =>
+    typeof target === 'string' ? { network: target } : target
+  );
+  const seen = new Set<string>();
+  for (const { network } of targets) {
+    if (seen.has(network)) {
+      throw new ArbitPyError(`${network} is targeted more than once`, {
+        code: 'DUPLICATE_NETWORK',
+      });
+    }
+    seen.add(network);
+  }
+  return targets.map((target) => ({
+    ...target,
+    constructorParams: target.constructorParams ?? plan.constructorParams,
+  }));
+}
+
+/** Hash of the transaction sent before `error` was thrown */
+function sentTransaction(error: unknown): string | undefined {
+  const hash =
+    error instanceof ArbitPyError &&
+    (error as { transactionHash?: unknown }).transactionHash;
+  return typeof hash === 'string' && hash ? hash : undefined;
+}
+
+/**
+ * Whether deploying again may succeed. Reverts, missing funds, rejected
+ * signatures and invalid requests fail the same way every time, and a
+ * deployment that was sent, or that the API may have sent, may still be
+ * mined, so it is never sent twice.
+ */
+export function isRetryable(error: unknown): boolean {
+  if (
+    sentTransaction(error) ||
+    error instanceof ContractRevertedError ||
+    error instanceof InsufficientFundsError ||
+    error instanceof UserRejectedError
+  ) {
+    return false;
+  }
+  return !(
+    error instanceof ArbitPyError &&
+    [
+      'UNSUPPORTED_NETWORK',
+      'SIGNER_REQUIRED',
+      'ALREADY_DEPLOYED',
+      'DEPLOYMENT_UNCONFIRMED',
+      'DETERMINISTIC_DEPLOYER_MISSING',
+      'ABORTED',
+    ].includes(error.code)
+  );
+}
+
+/**
+ * Deploy the plan to all its networks at once, retrying failures with
+ * backoff. Failures are recorded in the manifest instead of thrown.
+ */
+export async function runDeploymentPlan(
+  plan: DeploymentPlan,
+  deploy: PlanDeployer,
+  {
+    signal,
+    onUpdate,
+    chainId = (network) => getNetwork(network)?.chainId,
+  }: DeploymentPlanOptions = {}
+): Promise<DeploymentManifest> {
+  const targets = planTargets(plan);
+  const retries = plan.retries ?? DEFAULT_RETRIES;
+  const retryDelay = plan.retryDelay ?? DEFAULT_RETRY_DELAY;
+  const manifest: DeploymentManifest = {
+    ...(plan.name && { name: plan.name }),
+    codeHash: ethers.keccak256(plan.bytecode),
+    ...(plan.salt && { salt: plan.salt }),
+    createdAt: new Date().toISOString(),
+    deployments: {},
+  };
+  const update = (network: string, changes: Partial<ManifestEntry>) => {
+    const entry = { ...manifest.deployments[network], ...changes };
+    manifest.deployments[network] = entry;
+    onUpdate?.(entry, manifest);
+  };
+
+  for (const { network } of targets) {
+    manifest.deployments[network] = {
+      network,
+      ...(chainId(network) !== undefined && { chainId: chainId(network) }),
+      status: 'pending',
+      attempts: 0,
+    };
+  }
+
+  await Promise.all(
+    targets.map(async (target) => {
+      const { network, constructorParams, gasLimit, gasPrice, value } = target;
+      const request: DeploymentRequest = {
+        network,
+        bytecode: plan.bytecode,
+        abi: plan.abi,
+        ...(constructorParams && { constructorParams }),
+        ...(gasLimit && { gasLimit }),
+        ...(gasPrice && { gasPrice }),
+        ...(value && { value }),
+      };
+
+      for (let attempt = 1; ; attempt++) {
+        update(network, { status: 'deploying', attempts: attempt });
+        try {
+          if (signal?.aborted) {
+            throw new ArbitPyError('Deployment cancelled', { code: 'ABORTED' });
+          }
+          const result = await deploy(request, target);
+          if (!result.success || !result.contractAddress) {
+            const sent = result.transactionHash;
+            throw sent && result.status !== 'failed'
+              ? new TransactionPendingError(
+                  `Sent ${sent} to ${network}, but it has no contract address yet`,
+                  { transactionHash: sent }
+                )
+              : new ArbitPyError(`Deploying to ${network} failed`, {
+                  code: 'DEPLOYMENT_FAILED',
+                });
+          }
+          update(network, {
+            status: 'deployed',
+            address: result.contractAddress,
+            ...(result.alreadyDeployed
+              ? { alreadyDeployed: true }
+              : {
+                  transactionHash: result.transactionHash,
+                  blockNumber: result.blockNumber,
+                  gasUsed: result.gasUsed,
+                }),
+            ...(result.explorerUrl && { explorerUrl: result.explorerUrl }),
+            error: undefined,
+          });
+          return;
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          const transactionHash = sentTransaction(error);
+          if (error instanceof TransactionPendingError) {
+            update(network, {
+              status: 'pending',
+              transactionHash,
+              error: message,
+            });
+            return;
+          }
+          if (attempt > retries || !isRetryable(error)) {
+            update(network, {
+              status: 'failed',
+              ...(transactionHash && { transactionHash }),
+              error: message,
+            });
+            return;
+          }
+          update(network, { error: message });
+          await delay(retryDelay * 2 ** (attempt - 1));
+        }
+      }
+    })
+  );
+  return manifest;
+}
+
+/** `previous` with the networks deployed again taken from `next` */
+export function mergeManifests(
+  previous: DeploymentManifest,
+  next: DeploymentManifest
+): DeploymentManifest {
+  return {
+    ...next,
+    deployments: { ...previous.deployments, ...next.deployments },
+  };
+}
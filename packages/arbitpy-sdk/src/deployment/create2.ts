@@ -0,0 +1,67 @@
+// Deterministic CREATE2 deployments through the standard deployer
+import { ethers } from 'ethers';
+
+/**
+ * Arachnid's deterministic deployment proxy, at the same address on most
+ * EVM chains, including Arbitrum One, Arbitrum Sepolia and Base
+ */
+export const DETERMINISTIC_DEPLOYER =
+  '0x4e59b44847b379578588920cA78FbF26c0B4956C';
+
+/** Runtime code of the deployer: CREATE2 with `salt ++ initCode` as call data */
+export const DETERMINISTIC_DEPLOYER_CODE =
+  '0x7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe03601600081602082378035828234f58015156039578182fd5b8082525050506014600cf3';
+
+/**
+ * A 32-byte salt. Hex values are left-padded; other strings are hashed, so
+ * a name like 'token-v1' can be used as a salt.
+ */
+export function normalizeSalt(salt: string): string {
+  if (ethers.isHexString(salt) && ethers.dataLength(salt) <= 32) {
+    return ethers.zeroPadValue(salt, 32);
+  }
+  return ethers.id(salt);
+}
+
+/** Creation code with the ABI-encoded constructor arguments appended */
+export function encodeInitCode(
+  bytecode: string,
+  constructorArgs: unknown[] = [],
+  abi: ethers.InterfaceAbi = []
+): string {
+  if (constructorArgs.length === 0) return bytecode;
+  return ethers.concat([
+    bytecode,
+    new ethers.Interface(abi).encodeDeploy(constructorArgs),
+  ]);
+}
+
+/** Address the deployer will create the contract at, on any chain */
+export function predictAddress(
+  bytecode: string,
+  salt: string,
+  constructorArgs: unknown[] = [],
+  abi: ethers.InterfaceAbi = []
+): string {
+  return ethers.getCreate2Address(
+    DETERMINISTIC_DEPLOYER,
+    normalizeSalt(salt),
+    ethers.keccak256(encodeInitCode(bytecode, constructorArgs, abi))
+  );
+}
+
+/** Transaction that deploys the contract through the deployer */
+export function deterministicDeployTransaction(
+  bytecode: string,
+  salt: string,
+  constructorArgs: unknown[] = [],
+  abi: ethers.InterfaceAbi = []
+): { to: string; data: string } {
+  return {
+    to: DETERMINISTIC_DEPLOYER,
+    data: ethers.concat([
+      normalizeSalt(salt),
+      encodeInitCode(bytecode, constructorArgs, abi),
+    ]),
+  };
+}
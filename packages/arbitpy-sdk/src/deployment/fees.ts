@@ -0,0 +1,184 @@
+// EIP-1559 fee presets and Arbitrum L1/L2 cost estimation
+import { ethers } from 'ethers';
+
+/** Arbitrum precompile that splits gas estimates into L1 and L2 parts */
+export const NODE_INTERFACE_ADDRESS =
+  '0x00000000000000000000000000000000000000C8';
+
+/** Arbitrum One, Nova and Sepolia */
+export const ARBITRUM_CHAIN_IDS = [42161, 42170, 421614];
+
+const nodeInterface = new ethers.Interface([
+  'function gasEstimateComponents(address to, bool contractCreation, bytes data) payable returns (uint64 gasEstimate, uint64 gasEstimateForL1, uint256 baseFee, uint256 l1BaseFeeEstimate)',
+]);
+
+export type FeeSpeed = 'slow' | 'normal' | 'fast';
+
+export const FEE_SPEEDS: FeeSpeed[] = ['slow', 'normal', 'fast'];
+
+export interface FeePreset {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface FeePresets {
+  /** Base fee of the next block */
+  baseFeePerGas: bigint;
+  slow: FeePreset;
+  normal: FeePreset;
+  fast: FeePreset;
+}
+
+export interface FeeHistoryOptions {
+  /** Recent blocks to sample priority fees from */
+  blockCount?: number;
+  /** Reward percentile of each preset */
+  percentiles?: Record<FeeSpeed, number>;
+}
+
+/** Cost in wei at one preset */
+export interface FeeCost {
+  /** L2 execution */
+  l2Cost: bigint;
+  /** Posting the calldata to L1; zero outside Arbitrum */
+  l1Cost: bigint;
+  total: bigint;
+}
+
+export interface FeeEstimate {
+  /** Gas limit covering both components */
+  gasLimit: bigint;
+  /** Gas of the L2 execution */
+  l2Gas: bigint;
+  /** The L1 data cost expressed in L2 gas; zero outside Arbitrum */
+  l1Gas: bigint;
+  /** Estimated L1 base fee, on Arbitrum */
+  l1BaseFeeEstimate?: bigint;
+  presets: FeePresets;
+  costs: Record<FeeSpeed, FeeCost>;
+}
+
+export const DEFAULT_FEE_PERCENTILES: Record<FeeSpeed, number> = {
+  slow: 10,
+  normal: 50,
+  fast: 90,
+};
+
+interface FeeHistory {
+  baseFeePerGas: string[];
+  reward?: string[][];
+}
+
+function median(values: bigint[]): bigint {
+  if (values.length === 0) return 0n;
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Slow, normal and fast fees from `eth_feeHistory`: the priority fee is
+ * the median reward at each preset's percentile over recent blocks, and
+ * the max fee leaves room for the base fee to double.
+ */
+export async function getFeePresets(
+  provider: ethers.JsonRpcApiProvider,
+  options: FeeHistoryOptions = {}
+): Promise<FeePresets> {
+  const percentiles = options.percentiles ?? DEFAULT_FEE_PERCENTILES;
+  const history: FeeHistory = await provider.send('eth_feeHistory', [
+    ethers.toQuantity(options.blockCount ?? 20),
+    'latest',
+    FEE_SPEEDS.map((speed) => percentiles[speed]),
+  ]);
+
+  const baseFeePerGas = BigInt(
+    history.baseFeePerGas[history.baseFeePerGas.length - 1] ?? 0
+  );
+  const preset = (index: number): FeePreset => {
+    const maxPriorityFeePerGas = median(
+      (history.reward ?? []).map((rewards) => BigInt(rewards[index] ?? 0))
+    );
+    return {
+      maxPriorityFeePerGas,
+      maxFeePerGas: baseFeePerGas * 2n + maxPriorityFeePerGas,
+    };
+  };
+  return {
+    baseFeePerGas,
+    slow: preset(0),
+    normal: preset(1),
+    fast: preset(2),
+  };
+}
+
+/** Whether the provider is connected to an Arbitrum chain */
+export async function isArbitrum(provider: ethers.Provider): Promise<boolean> {
+  const { chainId } = await provider.getNetwork();
+  return ARBITRUM_CHAIN_IDS.includes(Number(chainId));
+}
+
+/**
+ * Estimate the gas and cost of a transaction at each fee preset. On
+ * Arbitrum the estimate comes from `NodeInterface.gasEstimateComponents`,
+ * which separates the L2 execution from the cost of posting the calldata
+ * to L1; elsewhere all gas is L2 execution.
+ */
+export async function estimateFees(
+  provider: ethers.JsonRpcApiProvider,
+  transaction: ethers.TransactionRequest,
+  options: FeeHistoryOptions = {}
+): Promise<FeeEstimate> {
+  const [presets, arbitrum] = await Promise.all([
+    getFeePresets(provider, options),
+    isArbitrum(provider),
+  ]);
+
+  let gasLimit: bigint;
+  let l1Gas = 0n;
+  let l1BaseFeeEstimate: bigint | undefined;
+  if (arbitrum) {
+    const data = nodeInterface.encodeFunctionData('gasEstimateComponents', [
+      transaction.to ?? ethers.ZeroAddress,
+      !transaction.to,
+      transaction.data ?? '0x',
+    ]);
+    const result = await provider.call({
+      from: transaction.from,
+      value: transaction.value,
+      to: NODE_INTERFACE_ADDRESS,
+      data,
+    });
+    const components = nodeInterface.decodeFunctionResult(
+      'gasEstimateComponents',
+      result
+    );
+    gasLimit = components.gasEstimate;
+    l1Gas = components.gasEstimateForL1;
+    l1BaseFeeEstimate = components.l1BaseFeeEstimate;
+  } else {
+    gasLimit = await provider.estimateGas(transaction);
+  }
+
+  const l2Gas = gasLimit - l1Gas;
+  const cost = ({ maxFeePerGas, maxPriorityFeePerGas }: FeePreset): FeeCost => {
+    const base = presets.baseFeePerGas + maxPriorityFeePerGas;
+    const price = base < maxFeePerGas ? base : maxFeePerGas;
+    return {
+      l2Cost: l2Gas * price,
+      l1Cost: l1Gas * price,
+      total: gasLimit * price,
+    };
+  };
+  return {
+    gasLimit,
+    l2Gas,
+    l1Gas,
+    l1BaseFeeEstimate,
+    presets,
+    costs: {
+      slow: cost(presets.slow),
+      normal: cost(presets.normal),
+      fast: cost(presets.fast),
+    },
+  };
+}
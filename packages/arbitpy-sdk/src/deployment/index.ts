@@ -2,24 +2,150 @@
 import { EventEmitter } from 'eventemitter3';
 import { ethers } from 'ethers';
 import { HttpClient } from '../utils/http-client';
-import { getNetwork, NETWORKS } from '../config';
+import { createProvider } from '../utils/provider';
+import { getNetwork, isLocalNetwork, NETWORKS } from '../config';
+import { getDevnet } from '../devnet';
+import {
+  ArbitPyError,
+  ArbitPyNetworkError,
+  ContractRevertedError,
+  DeploymentRevertedError,
+  InsufficientFundsError,
+  TransactionPendingError,
+  toArbitPyError,
+} from '../errors';
 import {
   DeploymentRequest,
   DeploymentResult,
   ArbitPyConfig,
   ArbitPyEvents,
+  CallOptions,
   ContractInteractionOptions,
   Network,
 } from '../types';
+import { TransactionManager, TransactionManagerOptions } from './transactions';
+import {
+  estimateFees,
+  FeeEstimate,
+  FeeHistoryOptions,
+  FeePresets,
+  getFeePresets,
+} from './fees';
+import {
+  assertUpgradeable,
+  checkStorageUpgrade,
+  encodeInitializer,
+  getImplementation,
+  getProxyAdmin,
+  getProxyArtifact,
+  proxyConstructorArgs,
+  ProxyKind,
+  UPGRADE_ABI,
+} from './proxy';
+import {
+  deterministicDeployTransaction,
+  DETERMINISTIC_DEPLOYER,
+  predictAddress,
+} from './create2';
+import {
+  DeploymentManifest,
+  DeploymentPlan,
+  DeploymentPlanOptions,
+  runDeploymentPlan,
+} from './batch';
+import type { StorageEntry, StorageLayoutDiff } from '../codegen/storage';
+
+export interface DeterministicDeploymentRequest extends DeploymentRequest {
+  /** 32-byte hex salt, or a string that is hashed into one */
+  salt: string;
+}
+
+export interface UpgradeableDeploymentRequest extends DeploymentRequest {
+  kind: ProxyKind;
+  /** Function called through the proxy in place of the constructor */
+  initializer?: string;
+  initializerArgs?: unknown[];
+  /**
+   * Only account allowed to upgrade a transparent proxy, and which cannot
+   * call the implementation through it; defaults to the deployer
+   */
+  admin?: string;
+}
+
+export interface UpgradeableDeploymentResult extends DeploymentResult {
+  kind: ProxyKind;
+  /** Same as `contractAddress`; users interact with the proxy */
+  proxyAddress: string;
+  implementationAddress: string;
+  admin?: string;
+}
+
+export interface UpgradeRequest {
+  network: string;
+  proxyAddress: string;
+  kind: ProxyKind;
+  /** The new implementation */
+  bytecode: string;
+  abi: DeploymentRequest['abi'];
+  constructorParams?: unknown[];
+  /** Layout of the deployed implementation, checked against `storageLayout` */
+  previousLayout: StorageEntry[];
+  storageLayout: StorageEntry[];
+  /** Function of the new implementation to call while upgrading */
+  call?: { function: string; args?: unknown[] };
+  gasLimit?: string;
+}
+
+export interface UpgradeResult {
+  success: boolean;
+  proxyAddress: string;
+  implementationAddress: string;
+  previousImplementation: string;
+  transactionHash: string;
+  storage: StorageLayoutDiff;
+}
+
+export interface ProxyDeploymentOptions extends CallOptions {
+  /**
+   * Deploys the implementation and the proxy in place of `deploy`, e.g.
+   * from a browser wallet
+   */
+  deploy?: (request: DeploymentRequest) => Promise<DeploymentResult>;
+  /** Sends the upgrade, and is the admin of new transparent proxies */
+  signer?: ethers.Signer;
+}
+
+/**
+ * Without an answer, or after a server error, the API may have sent the
+ * deployment anyway, so it must not be sent again
+ */
+function unconfirmedDeployment(error: unknown): unknown {
+  if (!(error instanceof ArbitPyNetworkError) || error.code === 'ABORTED') {
+    return error;
+  }
+  if (error.status !== undefined && error.status < 500) return error;
+  return new ArbitPyError(
+    `${error.message} The deployment may have been sent; check for it before deploying again`,
+    { code: 'DEPLOYMENT_UNCONFIRMED', cause: error }
+  );
+}
+
+// What a method resolves to, the shape of the API response it returns
+type Resolved<K extends keyof ArbitPyDeployment> =
+  ArbitPyDeployment[K] extends (...args: never[]) => Promise<infer R>
+    ? R
+    : never;
 
 export class ArbitPyDeployment extends EventEmitter<ArbitPyEvents> {
   private httpClient: HttpClient;
-  private providers: Map<string, ethers.JsonRpcProvider>;
+  private providers: Map<string, ethers.JsonRpcApiProvider>;
+  private transactionManagers: Map<string, TransactionManager>;
 
   constructor(config: ArbitPyConfig = {}) {
     super();
     this.httpClient = new HttpClient(config);
     this.providers = new Map();
+    this.transactionManagers = new Map();
   }
 
   /**
@@ -27,7 +153,8 @@ export class ArbitPyDeployment extends EventEmitter<ArbitPyEvents> {
    */
   async deploy(
     deployment: DeploymentRequest,
-    privateKey?: string
+    privateKey?: string,
+    { signal }: CallOptions = {}
   ): Promise<DeploymentResult> {
     try {
       // Emit deployment started event
@@ -37,17 +164,30 @@ export class ArbitPyDeployment extends EventEmitter<ArbitPyEvents> {
       // Validate network
       const network = getNetwork(deployment.network);
       if (!network) {
-        throw new Error(`Unsupported network: ${deployment.network}`);
+        throw new ArbitPyError(`Unsupported network: ${deployment.network}`, {
+          code: 'UNSUPPORTED_NETWORK',
+        });
+      }
+
+      if (isLocalNetwork(deployment.network)) {
+        const result = await this.deployLocal(deployment);
+        this.emit('deployment:completed', result);
+        return result;
       }
 
       // Deploy via API
-      const response = await this.httpClient.post<DeploymentResult>(
-        '/deploy/contract',
-        {
-          ...deployment,
-          ...(privateKey && { privateKey }),
-        }
-      );
+      const response = await this.httpClient
+        .post<DeploymentResult>(
+          '/deploy/contract',
+          {
+            ...deployment,
+            ...(privateKey && { privateKey }),
+          },
+          { signal }
+        )
+        .catch((error: unknown) => {
+          throw unconfirmedDeployment(error);
+        });
 
       const result = response.data;
 
@@ -60,12 +200,16 @@ export class ArbitPyDeployment extends EventEmitter<ArbitPyEvents> {
           this.waitForConfirmation(
             result.transactionHash,
             deployment.network
-          ).then((receipt) => {
-            this.emit('transaction:confirmed', {
-              hash: receipt.hash,
-              blockNumber: receipt.blockNumber,
-            });
-          });
+          )
+            .then((receipt) => {
+              this.emit('transaction:confirmed', {
+                hash: receipt.hash,
+                blockNumber: receipt.blockNumber,
+              });
+            })
+            .catch((error) =>
+              this.emit('error', toArbitPyError(error, { deploying: true }))
+            );
         }
       } else {
         this.emit('deployment:failed', {
@@ -76,15 +220,299 @@ export class ArbitPyDeployment extends EventEmitter<ArbitPyEvents> {
 
       return result;
     } catch (error) {
+      const failure = this.deploymentError(error);
       const sessionId = this.generateSessionId();
-      this.emit('deployment:failed', {
-        sessionId,
-        error: error instanceof Error ? error.message : 'Unknown error',
+      this.emit('deployment:failed', { sessionId, error: failure.message });
+      this.emit('error', failure);
+      throw failure;
+    }
+  }
+
+  /**
+   * Deploy the implementation, then an ERC-1967 proxy to it that runs the
+   * initializer. The result's `contractAddress` is the proxy's.
+   */
+  async deployUpgradeable(
+    deployment: UpgradeableDeploymentRequest,
+    privateKey?: string,
+    options: ProxyDeploymentOptions = {}
+  ): Promise<UpgradeableDeploymentResult> {
+    const { kind, initializer, initializerArgs, admin, ...request } =
+      deployment;
+    assertUpgradeable(kind, request.abi, request.bytecode);
+    const data = encodeInitializer(request.abi, initializer, initializerArgs);
+    const proxyAdmin =
+      kind === 'transparent'
+        ? (admin ??
+          (await options.signer?.getAddress()) ??
+          this.deployerAddress(deployment.network, privateKey))
+        : undefined;
+
+    const implementation = this.deployed(
+      await this.deployContract(request, privateKey, options),
+      'implementation'
+    );
+    const proxy = getProxyArtifact(kind);
+    const result = this.deployed(
+      await this.deployContract(
+        {
+          network: request.network,
+          abi: proxy.abi,
+          bytecode: proxy.bytecode,
+          constructorParams: proxyConstructorArgs(
+            kind,
+            implementation.contractAddress,
+            data,
+            proxyAdmin
+          ),
+          ...(request.gasLimit && { gasLimit: request.gasLimit }),
+          ...(request.gasPrice && { gasPrice: request.gasPrice }),
+          ...(request.value && { value: request.value }),
+        },
+        privateKey,
+        options
+      ),
+      'proxy'
+    );
+    return {
+      ...result,
+      kind,
+      proxyAddress: result.contractAddress,
+      implementationAddress: implementation.contractAddress,
+      ...(proxyAdmin && { admin: proxyAdmin }),
+    };
+  }
+
+  /**
+   * Deploy a new implementation and point the proxy at it. Throws before
+   * deploying anything when the storage layouts are missing or
+   * incompatible, and afterwards when the proxy still points elsewhere.
+   * Transparent proxies must be upgraded by their admin.
+   */
+  async upgrade(
+    upgrade: UpgradeRequest,
+    privateKey?: string,
+    options: ProxyDeploymentOptions = {}
+  ): Promise<UpgradeResult> {
+    const { network, proxyAddress, kind } = upgrade;
+    const storage = checkStorageUpgrade(
+      upgrade.previousLayout,
+      upgrade.storageLayout
+    );
+    assertUpgradeable(kind, upgrade.abi, upgrade.bytecode);
+
+    const provider = await this.getProvider(network);
+    const previousImplementation = await getImplementation(
+      provider,
+      proxyAddress
+    );
+    const signer =
+      options.signer ??
+      (await this.upgradeSigner(upgrade, provider, privateKey));
+
+    const implementation = this.deployed(
+      await this.deployContract(
+        {
+          network,
+          abi: upgrade.abi,
+          bytecode: upgrade.bytecode,
+          constructorParams: upgrade.constructorParams,
+          ...(upgrade.gasLimit && { gasLimit: upgrade.gasLimit }),
+        },
+        privateKey,
+        options
+      ),
+      'implementation'
+    );
+    const implementationAddress = implementation.contractAddress;
+
+    try {
+      const proxy = new ethers.Contract(proxyAddress, UPGRADE_ABI, signer);
+      const overrides = upgrade.gasLimit ? { gasLimit: upgrade.gasLimit } : {};
+      const tx = upgrade.call
+        ? await proxy.upgradeToAndCall(
+            implementationAddress,
+            encodeInitializer(
+              upgrade.abi,
+              upgrade.call.function,
+              upgrade.call.args
+            ),
+            overrides
+          )
+        : await proxy.upgradeTo(implementationAddress, overrides);
+      const receipt = await this.waitForConfirmation(tx.hash, network);
+      this.emit('transaction:confirmed', {
+        hash: receipt.hash,
+        blockNumber: receipt.blockNumber,
       });
-      throw error;
+      // An upgradeTo that does not write the ERC-1967 slot, as contracts
+      // compiled from Python cannot, succeeds without upgrading anything
+      const current = await getImplementation(provider, proxyAddress);
+      if (current !== ethers.getAddress(implementationAddress)) {
+        throw new ArbitPyError(
+          `The upgrade transaction ${receipt.hash} succeeded, but the proxy still points to ${current}`,
+          { code: 'UPGRADE_NOT_APPLIED' }
+        );
+      }
+      return {
+        success: true,
+        proxyAddress,
+        implementationAddress,
+        previousImplementation,
+        transactionHash: receipt.hash,
+        storage,
+      };
+    } catch (error) {
+      const failure = toArbitPyError(error, { abi: upgrade.abi });
+      this.emit('error', failure);
+      throw failure;
     }
   }
 
+  /**
+   * Address a CREATE2 deployment through the deterministic deployer gets;
+   * the same on every chain that has the deployer
+   */
+  predictAddress(
+    bytecode: string,
+    salt: string,
+    constructorArgs: unknown[] = [],
+    abi: ethers.InterfaceAbi = []
+  ): string {
+    return predictAddress(bytecode, salt, constructorArgs, abi);
+  }
+
+  /**
+   * Deploy with CREATE2 through the deterministic deployer, so the same
+   * bytecode, constructor arguments and salt give the same address on
+   * every network. Throws when the address already has code, and a
+   * TransactionPendingError when the receipt of the sent deployment could
+   * not be fetched. `signal` cancels it until the transaction is sent.
+   */
+  async deployDeterministic(
+    deployment: DeterministicDeploymentRequest,
+    privateKey?: string,
+    { signal }: CallOptions = {}
+  ): Promise<DeploymentResult> {
+    const sessionId = this.generateSessionId();
+    this.emit('deployment:started', { sessionId });
+    try {
+      const { network, bytecode, salt, abi } = deployment;
+      const args = deployment.constructorParams ?? [];
+      const provider = await this.getProvider(network);
+      if ((await provider.getCode(DETERMINISTIC_DEPLOYER)) === '0x') {
+        throw new ArbitPyError(
+          `The deterministic deployer ${DETERMINISTIC_DEPLOYER} is not deployed on ${network}`,
+          { code: 'DETERMINISTIC_DEPLOYER_MISSING' }
+        );
+      }
+      const contractAddress = predictAddress(bytecode, salt, args, abi);
+      // The same code, salt and arguments give the same contract
+      if ((await provider.getCode(contractAddress)) !== '0x') {
+        const result: DeploymentResult = {
+          success: true,
+          transactionHash: '',
+          contractAddress,
+          blockNumber: 0,
+          gasUsed: '0',
+          status: 'confirmed',
+          alreadyDeployed: true,
+        };
+        this.emit('deployment:completed', result);
+        return result;
+      }
+
+      const signer = isLocalNetwork(network)
+        ? getDevnet().getSigner()
+        : this.wallet(provider, privateKey, 'Deploying deterministically');
+      if (signal?.aborted) {
+        throw new ArbitPyError('Deployment cancelled', { code: 'ABORTED' });
+      }
+      const tx = await signer.sendTransaction({
+        ...deterministicDeployTransaction(bytecode, salt, args, abi),
+        ...(deployment.gasLimit && { gasLimit: deployment.gasLimit }),
+        ...(deployment.gasPrice && { gasPrice: deployment.gasPrice }),
+        ...(deployment.value && { value: deployment.value }),
+      });
+      let receipt: ethers.TransactionReceipt;
+      try {
+        receipt = await this.waitForConfirmation(tx.hash, network);
+      } catch (error) {
+        // Reverts, drops and replacements are final; when only fetching the
+        // receipt failed, the transaction may still be mined
+        const failure = toArbitPyError(error, { deploying: true, abi });
+        if (
+          failure instanceof ArbitPyNetworkError ||
+          failure.code === 'TRANSACTION_NOT_CONFIRMED'
+        ) {
+          throw new TransactionPendingError(
+            `Sent ${tx.hash} to ${network}, but its receipt could not be fetched`,
+            { transactionHash: tx.hash, cause: failure }
+          );
+        }
+        throw failure;
+      }
+      const result: DeploymentResult = {
+        success: true,
+        transactionHash: receipt.hash,
+        contractAddress,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed.toString(),
+        status: 'confirmed',
+      };
+      this.emit('deployment:completed', result);
+      return result;
+    } catch (error) {
+      const failure = toArbitPyError(error, {
+        deploying: true,
+        abi: deployment.abi,
+      });
+      this.emit('deployment:failed', { sessionId, error: failure.message });
+      this.emit('error', failure);
+      throw failure;
+    }
+  }
+
+  /**
+   * Deploy one contract to several networks at once, each with its own
+   * signer, fees and constructor arguments, retrying failed deployments.
+   * Resolves to a manifest of every network's outcome.
+   */
+  async deployMany(
+    plan: DeploymentPlan,
+    privateKey?: string,
+    options: Omit<DeploymentPlanOptions, 'chainId'> = {}
+  ): Promise<DeploymentManifest> {
+    return runDeploymentPlan(
+      plan,
+      (request, target) => {
+        const key = target.privateKey ?? privateKey;
+        return plan.salt
+          ? this.deployDeterministic({ ...request, salt: plan.salt }, key, {
+              signal: options.signal,
+            })
+          : this.deploy(request, key, { signal: options.signal });
+      },
+      options
+    );
+  }
+
+  /**
+   * Implementation and, for transparent proxies, admin stored in an
+   * ERC-1967 proxy
+   */
+  async getProxyInfo(
+    proxyAddress: string,
+    network: string
+  ): Promise<{ implementation: string; admin: string }> {
+    const provider = await this.getProvider(network);
+    const [implementation, admin] = await Promise.all([
+      getImplementation(provider, proxyAddress),
+      getProxyAdmin(provider, proxyAddress),
+    ]);
+    return { implementation, admin };
+  }
+
   /**
    * Estimate gas cost for deployment
    */
@@ -92,19 +520,21 @@ export class ArbitPyDeployment extends EventEmitter<ArbitPyEvents> {
     bytecode: string,
     abi: any[],
     network: string,
-    constructorParams: any[] = []
+    constructorParams: any[] = [],
+    { signal }: CallOptions = {}
   ): Promise<{
     gasLimit: string;
     gasPrice: string;
     estimatedCost: string;
     estimatedCostUSD?: string;
   }> {
-    const response = await this.httpClient.post('/deploy/estimate-gas', {
-      bytecode,
-      abi,
-      network,
-      constructorParams,
-    });
+    const response = await this.httpClient.post<
+      Resolved<'estimateDeploymentGas'>
+    >(
+      '/deploy/estimate-gas',
+      { bytecode, abi, network, constructorParams },
+      { signal }
+    );
     return response.data;
   }
 
@@ -121,28 +551,32 @@ export class ArbitPyDeployment extends EventEmitter<ArbitPyEvents> {
       compilerVersion?: string;
       optimizationUsed?: boolean;
       runs?: number;
-    } = {}
+    } & CallOptions = {}
   ): Promise<{
     success: boolean;
     verificationId?: string;
     explorerUrl?: string;
     message: string;
   }> {
-    const response = await this.httpClient.post('/deploy/verify', {
-      contractAddress,
-      sourceCode,
-      network,
-      ...options,
-    });
+    const { signal, ...verification } = options;
+    const response = await this.httpClient.post<Resolved<'verifyContract'>>(
+      '/deploy/verify',
+      { contractAddress, sourceCode, network, ...verification },
+      { signal }
+    );
     return response.data;
   }
 
   /**
    * Get deployment status by session ID
    */
-  async getDeploymentStatus(sessionId: string): Promise<DeploymentResult> {
+  async getDeploymentStatus(
+    sessionId: string,
+    { signal }: CallOptions = {}
+  ): Promise<DeploymentResult> {
     const response = await this.httpClient.get<DeploymentResult>(
-      `/deploy/status/${sessionId}`
+      `/deploy/status/${sessionId}`,
+      { signal }
     );
     return response.data;
   }
@@ -153,7 +587,8 @@ export class ArbitPyDeployment extends EventEmitter<ArbitPyEvents> {
   async getDeploymentHistory(
     userAddress?: string,
     network?: string,
-    limit: number = 20
+    limit: number = 20,
+    { signal }: CallOptions = {}
   ): Promise<{
     deployments: Array<{
       contractAddress: string;
@@ -166,8 +601,11 @@ export class ArbitPyDeployment extends EventEmitter<ArbitPyEvents> {
     }>;
     total: number;
   }> {
-    const response = await this.httpClient.get('/deploy/history', {
+    const response = await this.httpClient.get<
+      Resolved<'getDeploymentHistory'>
+    >('/deploy/history', {
       params: { userAddress, network, limit },
+      signal,
     });
     return response.data;
   }
@@ -177,7 +615,8 @@ export class ArbitPyDeployment extends EventEmitter<ArbitPyEvents> {
    */
   async getContractInfo(
     contractAddress: string,
-    network: string
+    network: string,
+    { signal }: CallOptions = {}
   ): Promise<{
     address: string;
     bytecode: string;
@@ -196,12 +635,13 @@ export class ArbitPyDeployment extends EventEmitter<ArbitPyEvents> {
   }> {
     // First try to get from our API
     try {
-      const response = await this.httpClient.get(
+      const response = await this.httpClient.get<Resolved<'getContractInfo'>>(
         `/contracts/info/${contractAddress}`,
-        { params: { network } }
+        { params: { network }, signal }
       );
       return response.data;
-    } catch {
+    } catch (error) {
+      if (signal?.aborted) throw error;
       // Fallback to direct blockchain query
       return this.getContractInfoFromChain(contractAddress, network);
     }
@@ -210,7 +650,10 @@ export class ArbitPyDeployment extends EventEmitter<ArbitPyEvents> {
   /**
    * Get network information and status
    */
-  async getNetworkInfo(networkName: string): Promise<{
+  async getNetworkInfo(
+    networkName: string,
+    { signal }: CallOptions = {}
+  ): Promise<{
     network: Network;
     status: 'active' | 'inactive' | 'maintenance';
     blockNumber: number;
@@ -218,7 +661,10 @@ export class ArbitPyDeployment extends EventEmitter<ArbitPyEvents> {
     chainId: number;
     nativeBalance?: string; // If wallet is connected
   }> {
-    const response = await this.httpClient.get(`/networks/${networkName}/info`);
+    const response = await this.httpClient.get<Resolved<'getNetworkInfo'>>(
+      `/networks/${networkName}/info`,
+      { signal }
+    );
     return response.data;
   }
 
@@ -237,13 +683,45 @@ export class ArbitPyDeployment extends EventEmitter<ArbitPyEvents> {
   }
 
   /**
-   * Wait for transaction confirmation
+   * Get the transaction manager of a network, which allocates nonces and
+   * tracks speed-ups, cancellations and dropped transactions
+   */
+  async getTransactionManager(
+    network: string,
+    options?: TransactionManagerOptions
+  ): Promise<TransactionManager> {
+    let manager = this.transactionManagers.get(network);
+    if (!manager) {
+      manager = new TransactionManager(await this.getProvider(network), options);
+      manager.on('transaction:confirmed', (data) =>
+        this.emit('transaction:confirmed', data)
+      );
+      manager.on('transaction:replaced', (data) =>
+        this.emit('transaction:replaced', data)
+      );
+      manager.on('transaction:dropped', (data) =>
+        this.emit('transaction:dropped', data)
+      );
+      manager.on('error', (error) => this.emit('error', error));
+      this.transactionManagers.set(network, manager);
+    }
+    return manager;
+  }
+
+  /**
+   * Wait for transaction confirmation. Transactions sent through the
+   * transaction manager also resolve when a speed-up of them is mined.
    */
   async waitForConfirmation(
     transactionHash: string,
     network: string,
     confirmations: number = 1
   ): Promise<ethers.TransactionReceipt> {
+    const manager = this.transactionManagers.get(network);
+    if (manager?.getTransaction(transactionHash)) {
+      return manager.wait(transactionHash);
+    }
+
     const provider = await this.getProvider(network);
     
     // Wait for the transaction to be mined
@@ -253,7 +731,14 @@ export class ArbitPyDeployment extends EventEmitter<ArbitPyEvents> {
     );
     
     if (!receipt) {
-      throw new Error('Transaction was not confirmed');
+      throw new ArbitPyError('Transaction was not confirmed', {
+        code: 'TRANSACTION_NOT_CONFIRMED',
+      });
+    }
+    if (receipt.status === 0) {
+      throw new ContractRevertedError('Transaction reverted', {
+        transactionHash: receipt.hash,
+      });
     }
     
     return receipt;
@@ -262,16 +747,25 @@ export class ArbitPyDeployment extends EventEmitter<ArbitPyEvents> {
   /**
    * Get current gas price for network
    */
-  async getGasPrice(network: string): Promise<{
+  async getGasPrice(
+    network: string,
+    { signal }: CallOptions = {}
+  ): Promise<{
     standard: string;
     fast: string;
     instant: string;
     unit: string;
   }> {
     try {
-      const response = await this.httpClient.get(`/networks/${network}/gas`);
+      const response = await this.httpClient.get<Resolved<'getGasPrice'>>(
+        `/networks/${network}/gas`,
+        {
+          signal,
+        }
+      );
       return response.data;
-    } catch {
+    } catch (error) {
+      if (signal?.aborted) throw error;
       // Fallback to provider gas price
       const provider = await this.getProvider(network);
       const gasPrice = await provider.getFeeData();
@@ -285,17 +779,144 @@ export class ArbitPyDeployment extends EventEmitter<ArbitPyEvents> {
     }
   }
 
-  private async getProvider(network: string): Promise<ethers.JsonRpcProvider> {
+  /**
+   * Get slow, normal and fast EIP-1559 fees from recent blocks
+   */
+  async getFeePresets(
+    network: string,
+    options?: FeeHistoryOptions
+  ): Promise<FeePresets> {
+    return getFeePresets(await this.getProvider(network), options);
+  }
+
+  /**
+   * Estimate gas and cost of a transaction at each fee preset, split into
+   * L2 execution and L1 data cost on Arbitrum
+   */
+  async estimateFees(
+    network: string,
+    transaction: ethers.TransactionRequest,
+    options?: FeeHistoryOptions
+  ): Promise<FeeEstimate> {
+    return estimateFees(await this.getProvider(network), transaction, options);
+  }
+
+  // Deploy straight to the devnet from its first account
+  private async deployLocal(
+    deployment: DeploymentRequest
+  ): Promise<DeploymentResult> {
+    const factory = new ethers.ContractFactory(
+      deployment.abi,
+      deployment.bytecode,
+      getDevnet().getSigner()
+    );
+    const contract = await factory.deploy(...(deployment.constructorParams ?? []), {
+      ...(deployment.gasLimit && { gasLimit: deployment.gasLimit }),
+      ...(deployment.gasPrice && { gasPrice: deployment.gasPrice }),
+      ...(deployment.value && { value: deployment.value }),
+    });
+    const receipt = await contract.deploymentTransaction()!.wait();
+    if (!receipt) {
+      throw new ArbitPyError('Transaction was not confirmed', {
+        code: 'TRANSACTION_NOT_CONFIRMED',
+      });
+    }
+    return {
+      success: true,
+      transactionHash: receipt.hash,
+      contractAddress: await contract.getAddress(),
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      status: 'confirmed',
+    };
+  }
+
+  // The proxy API deploys through `options.deploy` when given
+  private deployContract(
+    request: DeploymentRequest,
+    privateKey: string | undefined,
+    { deploy, signal }: ProxyDeploymentOptions
+  ): Promise<DeploymentResult> {
+    return deploy
+      ? deploy(request)
+      : this.deploy(request, privateKey, { signal });
+  }
+
+  // The API reports some failed deployments without throwing
+  private deployed(
+    result: DeploymentResult,
+    contract: 'implementation' | 'proxy'
+  ): DeploymentResult {
+    if (!result.success || !result.contractAddress) {
+      throw new ArbitPyError(`Deploying the ${contract} failed`, {
+        code: 'DEPLOYMENT_FAILED',
+      });
+    }
+    return result;
+  }
+
+  // Transactions the API does not send are signed here
+  private wallet(
+    provider: ethers.JsonRpcApiProvider,
+    privateKey: string | undefined,
+    action: string
+  ): ethers.Wallet {
+    if (!privateKey) {
+      throw new ArbitPyError(`${action} needs a private key`, {
+        code: 'SIGNER_REQUIRED',
+      });
+    }
+    return new ethers.Wallet(privateKey, provider);
+  }
+
+  // Account the deployment is sent from
+  private deployerAddress(network: string, privateKey?: string): string {
+    if (isLocalNetwork(network)) return getDevnet().accounts[0].address;
+    if (privateKey) return new ethers.Wallet(privateKey).address;
+    throw new ArbitPyError(
+      'Transparent proxies need an admin when deploying without a private key',
+      { code: 'ADMIN_REQUIRED' }
+    );
+  }
+
+  // Transparent proxies only take upgrades from their admin, which on the
+  // devnet is one of its accounts
+  private async upgradeSigner(
+    upgrade: UpgradeRequest,
+    provider: ethers.JsonRpcApiProvider,
+    privateKey?: string
+  ): Promise<ethers.Signer> {
+    if (!isLocalNetwork(upgrade.network)) {
+      return this.wallet(provider, privateKey, 'Upgrading a proxy');
+    }
+
+    const devnet = getDevnet();
+    if (upgrade.kind === 'uups') return devnet.getSigner();
+    const admin = await getProxyAdmin(provider, upgrade.proxyAddress);
+    const index = devnet.accounts.findIndex(
+      ({ address }) => address.toLowerCase() === admin.toLowerCase()
+    );
+    if (index < 0) {
+      throw new ArbitPyError(`Proxy admin ${admin} is not a devnet account`, {
+        code: 'SIGNER_REQUIRED',
+      });
+    }
+    return devnet.getSigner(index);
+  }
+
+  private async getProvider(network: string): Promise<ethers.JsonRpcApiProvider> {
     if (this.providers.has(network)) {
       return this.providers.get(network)!;
     }
 
     const networkConfig = getNetwork(network);
     if (!networkConfig) {
-      throw new Error(`Unsupported network: ${network}`);
+      throw new ArbitPyError(`Unsupported network: ${network}`, {
+        code: 'UNSUPPORTED_NETWORK',
+      });
     }
 
-    const provider = new ethers.JsonRpcProvider(networkConfig.rpcUrl);
+    const provider = createProvider(networkConfig);
     this.providers.set(network, provider);
     return provider;
   }
@@ -321,6 +942,25 @@ export class ArbitPyDeployment extends EventEmitter<ArbitPyEvents> {
     };
   }
 
+  // The API answers 402 when the deployer is short of funds and 422 when
+  // the constructor reverts
+  private deploymentError(error: unknown): ArbitPyError {
+    const failure = toArbitPyError(error, { deploying: true });
+    if (!(failure instanceof ArbitPyNetworkError)) return failure;
+
+    if (failure.status === 402) {
+      return new InsufficientFundsError(failure.message, { cause: failure });
+    }
+    if (failure.status === 422) {
+      const reason = /reverted:?\s*(.+)$/i.exec(failure.message)?.[1];
+      return new DeploymentRevertedError(failure.message, {
+        reason,
+        cause: failure,
+      });
+    }
+    return failure;
+  }
+
   private generateSessionId(): string {
     return `deploy_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
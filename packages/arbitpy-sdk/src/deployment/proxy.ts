@@ -0,0 +1,170 @@
+// ERC-1967 proxies for upgradeable deployments
+import ERC1967Proxy from '@openzeppelin/contracts/build/contracts/ERC1967Proxy.json';
+import TransparentUpgradeableProxy from '@openzeppelin/contracts/build/contracts/TransparentUpgradeableProxy.json';
+import { ethers } from 'ethers';
+import { ArbitPyError } from '../errors';
+import {
+  diffStorageLayouts,
+  StorageEntry,
+  StorageLayoutDiff,
+} from '../codegen/storage';
+
+/**
+ * `uups` proxies only delegate, and the implementation upgrades itself;
+ * `transparent` proxies upgrade when called by their admin
+ */
+export type ProxyKind = 'uups' | 'transparent';
+
+export const PROXY_KINDS: ProxyKind[] = ['transparent', 'uups'];
+
+/** bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1) */
+export const IMPLEMENTATION_SLOT =
+  '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+/** bytes32(uint256(keccak256('eip1967.proxy.admin')) - 1) */
+export const ADMIN_SLOT =
+  '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103';
+
+/** Functions that upgrade a proxy, on the proxy itself or a UUPS implementation */
+export const UPGRADE_ABI = [
+  'function upgradeTo(address newImplementation)',
+  'function upgradeToAndCall(address newImplementation, bytes data) payable',
+  'event Upgraded(address indexed implementation)',
+];
+
+export interface ProxyArtifact {
+  abi: ethers.JsonFragment[];
+  bytecode: string;
+}
+
+/**
+ * The compiled OpenZeppelin 4.9 proxies. Their transparent proxy is
+ * upgraded by an admin account, not through a ProxyAdmin contract.
+ */
+const ARTIFACTS: Record<ProxyKind, ProxyArtifact> = {
+  uups: ERC1967Proxy,
+  transparent: TransparentUpgradeableProxy,
+};
+
+/** ABI and creation code of the ERC-1967 proxy of a kind */
+export function getProxyArtifact(kind: ProxyKind): ProxyArtifact {
+  const { abi, bytecode } = ARTIFACTS[kind];
+  return { abi, bytecode };
+}
+
+/** Constructor arguments of the proxy, in the order of its ABI */
+export function proxyConstructorArgs(
+  kind: ProxyKind,
+  implementation: string,
+  data: string,
+  admin?: string
+): unknown[] {
+  if (kind === 'uups') return [implementation, data];
+  if (!admin) {
+    throw new ArbitPyError('Transparent proxies need an admin', {
+      code: 'ADMIN_REQUIRED',
+    });
+  }
+  return [implementation, admin, data];
+}
+
+/**
+ * Call data of the initializer, which runs through the proxy in place of
+ * the constructor; '0x' when there is none
+ */
+export function encodeInitializer(
+  abi: ethers.InterfaceAbi,
+  initializer?: string,
+  args: unknown[] = []
+): string {
+  if (!initializer) return '0x';
+  const contract = new ethers.Interface(abi);
+  const fragment = contract.getFunction(initializer);
+  if (!fragment) {
+    throw new ArbitPyError(`Initializer ${initializer} not found in ABI`, {
+      code: 'INITIALIZER_NOT_FOUND',
+    });
+  }
+  return contract.encodeFunctionData(fragment, args);
+}
+
+/**
+ * UUPS implementations carry the upgrade functions themselves, and their
+ * code pushes the implementation slot to write it. Contracts transpiled
+ * from Python never do, so they can only sit behind transparent proxies.
+ */
+export function assertUpgradeable(
+  kind: ProxyKind,
+  abi: ethers.InterfaceAbi,
+  bytecode: string
+): void {
+  if (kind !== 'uups') return;
+  const contract = new ethers.Interface(abi);
+  if (
+    !contract.getFunction('upgradeTo(address)') &&
+    !contract.getFunction('upgradeToAndCall(address,bytes)')
+  ) {
+    throw new ArbitPyError(
+      'UUPS implementations must define upgradeTo(address) or upgradeToAndCall(address,bytes)',
+      { code: 'NOT_UPGRADEABLE' }
+    );
+  }
+  // PUSH32 of the slot
+  if (!bytecode.toLowerCase().includes('7f' + IMPLEMENTATION_SLOT.slice(2))) {
+    throw new ArbitPyError(
+      'UUPS implementations must write the ERC-1967 implementation slot, which contracts transpiled from Python cannot; use a transparent proxy',
+      { code: 'NOT_UPGRADEABLE' }
+    );
+  }
+}
+
+/**
+ * Diff the storage layouts of the deployed and the new implementation and
+ * throw when the new one would read existing state through the wrong
+ * variables, or when either layout is missing
+ */
+export function checkStorageUpgrade(
+  previous: StorageEntry[] | undefined,
+  current: StorageEntry[] | undefined
+): StorageLayoutDiff {
+  if (!previous || !current) {
+    throw new ArbitPyError(
+      `The storage layout of the ${previous ? 'new' : 'deployed'} implementation is needed to check the upgrade`,
+      { code: 'STORAGE_LAYOUT_MISSING' }
+    );
+  }
+  const diff = diffStorageLayouts(previous, current);
+  if (!diff.compatible) {
+    const breaking = diff.changes.filter(({ breaking }) => breaking);
+    throw new ArbitPyError(
+      `Storage layout is not upgrade safe: ${breaking.map(({ message }) => message).join('; ')}`,
+      { code: 'STORAGE_INCOMPATIBLE' }
+    );
+  }
+  return diff;
+}
+
+/** Implementation address stored in a proxy */
+export async function getImplementation(
+  provider: ethers.Provider,
+  proxy: string
+): Promise<string> {
+  return readAddressSlot(provider, proxy, IMPLEMENTATION_SLOT);
+}
+
+/** Admin of a transparent proxy */
+export async function getProxyAdmin(
+  provider: ethers.Provider,
+  proxy: string
+): Promise<string> {
+  return readAddressSlot(provider, proxy, ADMIN_SLOT);
+}
+
+async function readAddressSlot(
+  provider: ethers.Provider,
+  address: string,
+  slot: string
+): Promise<string> {
+  const value = await provider.getStorage(address, slot);
+  return ethers.getAddress(ethers.dataSlice(value, 12));
+}
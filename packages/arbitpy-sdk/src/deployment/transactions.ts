@@ -0,0 +1,426 @@
+// Transaction lifecycle tracking with nonce allocation and replacement
+import { EventEmitter } from 'eventemitter3';
+import { ethers } from 'ethers';
+import {
+  ArbitPyError,
+  ContractRevertedError,
+  TransactionDroppedError,
+  TransactionReplacedError,
+  toArbitPyError,
+} from '../errors';
+import type { ArbitPyEvents } from '../types';
+
+export type TransactionStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'failed'
+  | 'replaced'
+  | 'dropped';
+
+export interface TrackedTransaction {
+  hash: string;
+  from: string;
+  nonce: number;
+  /** The request as sent, including nonce and fees */
+  request: ethers.TransactionRequest;
+  status: TransactionStatus;
+  /** Hash of the transaction this one speeds up or cancels */
+  replaces?: string;
+  /** Whether this is a zero-value transfer to self that cancels the nonce */
+  cancellation: boolean;
+  /** Hash of the transaction mined with this nonce instead, if known */
+  replacedBy?: string;
+  receipt?: ethers.TransactionReceipt;
+  submittedAt: number;
+}
+
+export interface TransactionManagerOptions {
+  /** Blocks a receipt needs before the transaction counts as confirmed */
+  confirmations?: number;
+  /** Milliseconds between status checks */
+  pollInterval?: number;
+  /** Milliseconds a transaction may be unknown to the node before it counts as dropped */
+  dropTimeout?: number;
+  /** Percent added to the fees of a speed-up or cancellation */
+  feeBumpPercent?: number;
+}
+
+export interface ReplacementOptions {
+  feeBumpPercent?: number;
+}
+
+// Every transaction sent with one nonce of one account
+interface NonceGroup {
+  from: string;
+  nonce: number;
+  signer: ethers.Signer;
+  attempts: TrackedTransaction[];
+  settled: Promise<void>;
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Sends transactions with locally allocated nonces and follows them until
+ * a transaction with their nonce is mined. Transactions can be sped up or
+ * cancelled by resending the nonce with higher EIP-1559 fees; the attempt
+ * that is not mined is reported with `transaction:replaced`, and one that
+ * disappears from the mempool with `transaction:dropped`.
+ */
+export class TransactionManager extends EventEmitter<ArbitPyEvents> {
+  private readonly options: Required<TransactionManagerOptions>;
+  private readonly nonces = new Map<string, number>();
+  private readonly locks = new Map<string, Promise<unknown>>();
+  private readonly transactions = new Map<string, TrackedTransaction>();
+  private readonly groups = new Map<string, NonceGroup>();
+  private stopped = false;
+
+  constructor(
+    private readonly provider: ethers.Provider,
+    options: TransactionManagerOptions = {}
+  ) {
+    super();
+    this.options = {
+      confirmations: options.confirmations ?? 1,
+      pollInterval: options.pollInterval ?? 4000,
+      dropTimeout: options.dropTimeout ?? 120000,
+      feeBumpPercent: options.feeBumpPercent ?? 15,
+    };
+  }
+
+  /**
+   * Send a transaction with the next nonce of the signer. Nonces are handed
+   * out one at a time per account, so concurrent sends never collide.
+   */
+  async send(
+    signer: ethers.Signer,
+    request: ethers.TransactionRequest
+  ): Promise<TrackedTransaction> {
+    try {
+      const from = await signer.getAddress();
+      return await this.exclusive(from, async () => {
+        const nonce = await this.nextNonce(from);
+        const response = await signer.sendTransaction({ ...request, nonce });
+        this.nonces.set(from.toLowerCase(), nonce + 1);
+        return this.track(signer, response);
+      });
+    } catch (error) {
+      const failure = toArbitPyError(error);
+      this.emit('error', failure);
+      throw failure;
+    }
+  }
+
+  /** The nonce the next transaction of `address` will be sent with */
+  async nextNonce(address: string): Promise<number> {
+    const pending = await this.provider.getTransactionCount(address, 'pending');
+    return Math.max(pending, this.nonces.get(address.toLowerCase()) ?? 0);
+  }
+
+  /**
+   * Resolve with the receipt once the transaction, or a speed-up of it, is
+   * mined. Throws when it reverted, was cancelled or replaced by another
+   * transaction, or was dropped.
+   */
+  async wait(hash: string): Promise<ethers.TransactionReceipt> {
+    const group = this.groupOf(hash);
+    await group.settled;
+
+    const transaction = this.transactions.get(hash)!;
+    if (transaction.status === 'pending') {
+      throw new ArbitPyError('Transaction was not confirmed', {
+        code: 'TRANSACTION_NOT_CONFIRMED',
+      });
+    }
+    const mined = group.attempts.find(
+      ({ status }) => status === 'confirmed' || status === 'failed'
+    );
+    if (transaction.status === 'dropped') {
+      throw new TransactionDroppedError('Transaction was dropped', {
+        transactionHash: hash,
+      });
+    }
+    if (!mined || (mined !== transaction && mined.cancellation)) {
+      throw new TransactionReplacedError(
+        mined ? 'Transaction was cancelled' : 'Transaction was replaced',
+        {
+          transactionHash: hash,
+          replacement: mined?.hash,
+          cancelled: mined?.cancellation,
+        }
+      );
+    }
+    if (mined.status === 'failed') {
+      throw new ContractRevertedError('Transaction reverted', {
+        transactionHash: mined.hash,
+      });
+    }
+    return mined.receipt!;
+  }
+
+  /** Resend the transaction with the same nonce and bumped fees */
+  speedUp(
+    hash: string,
+    options: ReplacementOptions = {}
+  ): Promise<TrackedTransaction> {
+    const { request } = this.transactions.get(hash) ?? {};
+    return this.replace(hash, options, (fees) => ({ ...request, ...fees }));
+  }
+
+  /** Replace the transaction with a zero-value transfer to its sender */
+  cancel(
+    hash: string,
+    options: ReplacementOptions = {}
+  ): Promise<TrackedTransaction> {
+    return this.replace(hash, options, (fees, group) => ({
+      to: group.from,
+      value: 0n,
+      data: '0x',
+      gasLimit: 21000n,
+      chainId: this.transactions.get(hash)?.request.chainId,
+      ...fees,
+    }));
+  }
+
+  /** Stop following pending transactions; waiting for them throws */
+  stop(): void {
+    this.stopped = true;
+  }
+
+  getTransaction(hash: string): TrackedTransaction | undefined {
+    return this.transactions.get(hash);
+  }
+
+  /** Every tracked transaction, oldest first */
+  getTransactions(): TrackedTransaction[] {
+    return [...this.transactions.values()];
+  }
+
+  private async replace(
+    hash: string,
+    { feeBumpPercent = this.options.feeBumpPercent }: ReplacementOptions,
+    build: (
+      fees: ethers.TransactionRequest,
+      group: NonceGroup
+    ) => ethers.TransactionRequest
+  ): Promise<TrackedTransaction> {
+    try {
+      const group = this.groupOf(hash);
+      if (group.attempts.every(({ status }) => status !== 'pending')) {
+        throw new ArbitPyError('Transaction is no longer pending', {
+          code: 'TRANSACTION_NOT_PENDING',
+        });
+      }
+      // The newest attempt pays the highest fees so far
+      const latest = group.attempts[group.attempts.length - 1];
+      const fees = await this.bumpedFees(latest.request, feeBumpPercent);
+      const response = await group.signer.sendTransaction({
+        ...build(fees, group),
+        nonce: group.nonce,
+      });
+      return this.track(group.signer, response, hash);
+    } catch (error) {
+      const failure = toArbitPyError(error);
+      this.emit('error', failure);
+      throw failure;
+    }
+  }
+
+  // Nodes only accept a replacement that raises both fees, usually by 10%
+  private async bumpedFees(
+    request: ethers.TransactionRequest,
+    percent: number
+  ): Promise<ethers.TransactionRequest> {
+    const network = await this.provider.getFeeData();
+    const factor = BigInt(Math.round((100 + percent) * 100));
+    const bump = (
+      fee: ethers.BigNumberish | null | undefined,
+      floor: bigint
+    ) => {
+      const bumped = (BigInt(fee ?? 0) * factor + 9999n) / 10000n;
+      return bumped > floor ? bumped : floor;
+    };
+    if (request.maxFeePerGas == null) {
+      return { gasPrice: bump(request.gasPrice, network.gasPrice ?? 0n) };
+    }
+    return {
+      maxFeePerGas: bump(request.maxFeePerGas, network.maxFeePerGas ?? 0n),
+      maxPriorityFeePerGas: bump(
+        request.maxPriorityFeePerGas,
+        network.maxPriorityFeePerGas ?? 0n
+      ),
+    };
+  }
+
+  private track(
+    signer: ethers.Signer,
+    response: ethers.TransactionResponse,
+    replaces?: string
+  ): TrackedTransaction {
+    const eip1559 = response.maxFeePerGas != null;
+    const transaction: TrackedTransaction = {
+      hash: response.hash,
+      from: response.from,
+      nonce: response.nonce,
+      request: {
+        to: response.to,
+        data: response.data,
+        value: response.value,
+        gasLimit: response.gasLimit,
+        chainId: response.chainId,
+        nonce: response.nonce,
+        ...(eip1559
+          ? {
+              maxFeePerGas: response.maxFeePerGas,
+              maxPriorityFeePerGas: response.maxPriorityFeePerGas,
+            }
+          : { gasPrice: response.gasPrice }),
+      },
+      status: 'pending',
+      replaces,
+      cancellation:
+        replaces !== undefined &&
+        response.to?.toLowerCase() === response.from.toLowerCase() &&
+        response.value === 0n &&
+        response.data === '0x',
+      submittedAt: Date.now(),
+    };
+    this.transactions.set(transaction.hash, transaction);
+
+    const key = `${transaction.from.toLowerCase()}:${transaction.nonce}`;
+    const group = this.groups.get(key);
+    if (group) {
+      group.attempts.push(transaction);
+    } else {
+      const created: NonceGroup = {
+        from: transaction.from,
+        nonce: transaction.nonce,
+        signer,
+        attempts: [transaction],
+        settled: Promise.resolve(),
+      };
+      created.settled = this.monitor(created);
+      this.groups.set(key, created);
+    }
+    return transaction;
+  }
+
+  private groupOf(hash: string): NonceGroup {
+    const transaction = this.transactions.get(hash);
+    if (!transaction) {
+      throw new ArbitPyError(`Transaction ${hash} is not tracked`, {
+        code: 'TRANSACTION_NOT_FOUND',
+      });
+    }
+    return this.groups.get(
+      `${transaction.from.toLowerCase()}:${transaction.nonce}`
+    )!;
+  }
+
+  // Poll until some transaction with the nonce is mined or all are gone
+  private async monitor(group: NonceGroup): Promise<void> {
+    let missingSince: number | undefined;
+    for (;;) {
+      await delay(this.options.pollInterval);
+      if (this.stopped) return;
+      try {
+        // Read the nonce before the receipts: a transaction mined in
+        // between then still shows up as ours rather than as a replacement
+        const mined = await this.provider.getTransactionCount(
+          group.from,
+          'latest'
+        );
+        const receipts = await Promise.all(
+          group.attempts.map(({ hash }) =>
+            this.provider.getTransactionReceipt(hash)
+          )
+        );
+        const index = receipts.findIndex((receipt) => receipt !== null);
+        if (index !== -1) {
+          const receipt = receipts[index]!;
+          if ((await receipt.confirmations()) < this.options.confirmations) {
+            continue;
+          }
+          return this.settle(group, group.attempts[index], receipt);
+        }
+        if (mined > group.nonce) return this.settle(group);
+
+        const known = await Promise.all(
+          group.attempts.map(({ hash }) => this.provider.getTransaction(hash))
+        );
+        if (known.some(Boolean)) {
+          missingSince = undefined;
+          continue;
+        }
+        missingSince ??= Date.now();
+        if (Date.now() - missingSince >= this.options.dropTimeout) {
+          return this.drop(group);
+        }
+      } catch {
+        // Retried on the next poll
+      }
+    }
+  }
+
+  private settle(
+    group: NonceGroup,
+    winner?: TrackedTransaction,
+    receipt?: ethers.TransactionReceipt
+  ): void {
+    for (const attempt of group.attempts) {
+      if (attempt === winner) {
+        attempt.receipt = receipt;
+        attempt.status = receipt!.status === 0 ? 'failed' : 'confirmed';
+      } else {
+        attempt.status = 'replaced';
+        attempt.replacedBy = winner?.hash;
+      }
+    }
+    for (const attempt of group.attempts) {
+      if (attempt !== winner) {
+        this.emit('transaction:replaced', {
+          hash: attempt.hash,
+          nonce: group.nonce,
+          replacement: winner?.hash,
+          cancelled: winner?.cancellation ?? false,
+        });
+      }
+    }
+    if (winner?.status === 'confirmed') {
+      this.emit('transaction:confirmed', {
+        hash: winner.hash,
+        blockNumber: receipt!.blockNumber,
+      });
+    } else if (winner) {
+      this.emit(
+        'error',
+        new ContractRevertedError('Transaction reverted', {
+          transactionHash: winner.hash,
+        })
+      );
+    }
+  }
+
+  private drop(group: NonceGroup): void {
+    for (const attempt of group.attempts) {
+      attempt.status = 'dropped';
+    }
+    // The nonce is free again; ask the node for the next one
+    this.nonces.delete(group.from.toLowerCase());
+    for (const { hash } of group.attempts) {
+      this.emit('transaction:dropped', { hash, nonce: group.nonce });
+    }
+  }
+
+  // Run tasks for one account one after another
+  private exclusive<T>(account: string, task: () => Promise<T>): Promise<T> {
+    const key = account.toLowerCase();
+    const previous = this.locks.get(key) ?? Promise.resolve();
+    const run = previous.then(task);
+    this.locks.set(
+      key,
+      run.catch(() => undefined)
+    );
+    return run;
+  }
+}
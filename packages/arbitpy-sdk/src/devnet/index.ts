@@ -0,0 +1,846 @@
+// In-process EVM devnet with funded accounts, instant mining and time travel
+import { Block } from '@ethereumjs/block';
+import { Chain, Common, Hardfork } from '@ethereumjs/common';
+import { TransactionFactory, type TypedTransaction } from '@ethereumjs/tx';
+import {
+  Account,
+  Address,
+  bytesToHex,
+  hexToBytes,
+  setLengthLeft,
+  type PrefixedHexString,
+} from '@ethereumjs/util';
+import { VM, type RunTxResult } from '@ethereumjs/vm';
+import { ethers } from 'ethers';
+import { LOCAL_CHAIN_ID, LOCAL_NETWORK } from '../config';
+import {
+  DETERMINISTIC_DEPLOYER,
+  DETERMINISTIC_DEPLOYER_CODE,
+} from '../deployment/create2';
+
+export const DEVNET_MNEMONIC =
+  'test test test test test test test test test test test junk';
+
+export interface DevnetAccount {
+  address: string;
+  privateKey: string;
+}
+
+export interface DevnetOptions {
+  chainId?: number;
+  mnemonic?: string;
+  /** Number of funded accounts */
+  accounts?: number;
+  /** Starting balance of each account in wei */
+  balance?: bigint;
+  blockGasLimit?: bigint;
+  /** Base fee of the genesis block */
+  baseFeePerGas?: bigint;
+}
+
+interface RpcTransaction {
+  from?: PrefixedHexString;
+  to?: PrefixedHexString | null;
+  gas?: PrefixedHexString;
+  gasPrice?: PrefixedHexString;
+  maxFeePerGas?: PrefixedHexString;
+  maxPriorityFeePerGas?: PrefixedHexString;
+  value?: PrefixedHexString;
+  data?: PrefixedHexString;
+  input?: PrefixedHexString;
+  nonce?: PrefixedHexString;
+}
+
+/** One executed opcode, as `debug_traceCall` reports it */
+export interface StructLog {
+  pc: number;
+  op: string;
+  /** Gas left before the opcode */
+  gas: number;
+  gasCost: number;
+  /** 1 for the called contract, 2 for contracts it calls, ... */
+  depth: number;
+}
+
+export interface CallTrace {
+  /** Gas used, including the intrinsic cost of the transaction */
+  gas: number;
+  failed: boolean;
+  returnValue: string;
+  structLogs: StructLog[];
+}
+
+interface RpcFilter {
+  fromBlock?: string;
+  toBlock?: string;
+  blockHash?: string;
+  address?: string | string[];
+  topics?: (string | string[] | null)[];
+}
+
+interface MinedTransaction {
+  tx: TypedTransaction;
+  hash: string;
+  from: string;
+  block: Block;
+  index: number;
+  result: RunTxResult;
+  /** Index of the first log within the block */
+  logIndex: number;
+}
+
+interface Snapshot {
+  stateRoot: Uint8Array;
+  blockCount: number;
+  timeOffset: number;
+  nextTimestamp?: number;
+}
+
+// An EIP-1193 error as wallets report it
+function rpcError(code: number, message: string, data?: string): Error {
+  return Object.assign(new Error(message), { code, data });
+}
+
+const quantity = (value: bigint | number) => ethers.toQuantity(value);
+const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+/**
+ * A single-node chain running in an in-process EVM. It speaks EIP-1193, so
+ * `new ethers.BrowserProvider(devnet)` (or `getProvider()`) gives a provider
+ * whose transactions are mined instantly, each in its own block.
+ */
+export class Devnet implements ethers.Eip1193Provider {
+  readonly chainId: number;
+  readonly accounts: DevnetAccount[];
+
+  private readonly common: Common;
+  private readonly blockGasLimit: bigint;
+  private readonly ready: Promise<VM>;
+  private queue: Promise<unknown> = Promise.resolve();
+  private blocks: Block[] = [];
+  private transactions = new Map<string, MinedTransaction>();
+  private snapshots = new Map<string, Snapshot>();
+  private nextSnapshot = 1;
+  private timeOffset = 0;
+  private nextTimestamp?: number;
+  private provider?: ethers.BrowserProvider;
+
+  constructor(options: DevnetOptions = {}) {
+    this.chainId = options.chainId ?? LOCAL_CHAIN_ID;
+    this.blockGasLimit = options.blockGasLimit ?? 30_000_000n;
+    this.common = Common.custom(
+      { chainId: this.chainId, networkId: this.chainId, name: LOCAL_NETWORK },
+      { baseChain: Chain.Mainnet, hardfork: Hardfork.Cancun }
+    );
+
+    const root = ethers.HDNodeWallet.fromPhrase(
+      options.mnemonic ?? DEVNET_MNEMONIC,
+      undefined,
+      "m/44'/60'/0'/0"
+    );
+    this.accounts = Array.from({ length: options.accounts ?? 10 }, (_, i) => {
+      const { address, privateKey } = root.deriveChild(i);
+      return { address, privateKey };
+    });
+
+    this.ready = this.init(
+      options.balance ?? ethers.parseEther('10000'),
+      options.baseFeePerGas ?? ethers.parseUnits('1', 'gwei')
+    );
+  }
+
+  /** Handle a JSON-RPC request; requests run one at a time */
+  async request<T = unknown>({
+    method,
+    params,
+  }: {
+    method: string;
+    params?: unknown[] | Record<string, unknown>;
+  }): Promise<T> {
+    const run = this.queue.then(async () => {
+      const vm = await this.ready;
+      return this.handle(vm, method, Array.isArray(params) ? params : []);
+    });
+    this.queue = run.catch(() => undefined);
+    return run as Promise<T>;
+  }
+
+  /**
+   * An ethers provider over this devnet. Its request cache is off, since
+   * every transaction changes the chain as soon as it is sent.
+   */
+  getProvider(): ethers.BrowserProvider {
+    this.provider ??= new ethers.BrowserProvider(
+      this,
+      { chainId: this.chainId, name: LOCAL_NETWORK },
+      { pollingInterval: 100, cacheTimeout: -1 }
+    );
+    return this.provider;
+  }
+
+  /** A signer for one of the funded accounts */
+  getSigner(index = 0): ethers.Wallet {
+    const account = this.accounts[index];
+    if (!account) throw new Error(`Devnet has no account ${index}`);
+    return new ethers.Wallet(account.privateKey, this.getProvider());
+  }
+
+  /** Record the chain state; returns an id for `revert` */
+  snapshot(): Promise<string> {
+    return this.request<string>({ method: 'evm_snapshot' });
+  }
+
+  /** Roll the chain back to a snapshot, discarding it and any later ones */
+  revert(id: string): Promise<boolean> {
+    return this.request<boolean>({ method: 'evm_revert', params: [id] });
+  }
+
+  /** Move the clock forward; returns the total offset in seconds */
+  increaseTime(seconds: number): Promise<number> {
+    return this.request<number>({
+      method: 'evm_increaseTime',
+      params: [seconds],
+    });
+  }
+
+  async setNextBlockTimestamp(timestamp: number): Promise<void> {
+    await this.request({
+      method: 'evm_setNextBlockTimestamp',
+      params: [timestamp],
+    });
+  }
+
+  /** Mine empty blocks */
+  async mine(blocks = 1): Promise<void> {
+    for (let i = 0; i < blocks; i++) {
+      await this.request({ method: 'evm_mine' });
+    }
+  }
+
+  async setBalance(address: string, balance: bigint): Promise<void> {
+    await this.request({
+      method: 'hardhat_setBalance',
+      params: [address, quantity(balance)],
+    });
+  }
+
+  private async init(balance: bigint, baseFeePerGas: bigint): Promise<VM> {
+    const vm = await VM.create({ common: this.common });
+    for (const { address } of this.accounts) {
+      await vm.stateManager.putAccount(
+        Address.fromString(address),
+        new Account(0n, balance)
+      );
+    }
+    // Preinstalled like on public chains, so CREATE2 addresses match theirs
+    await vm.stateManager.putContractCode(
+      Address.fromString(DETERMINISTIC_DEPLOYER),
+      hexToBytes(DETERMINISTIC_DEPLOYER_CODE)
+    );
+    const genesis = Block.fromBlockData(
+      {
+        header: {
+          number: 0n,
+          gasLimit: this.blockGasLimit,
+          baseFeePerGas,
+          timestamp: BigInt(this.now()),
+        },
+      },
+      { common: this.common }
+    );
+    this.blocks = [genesis];
+    return vm;
+  }
+
+  private async handle(
+    vm: VM,
+    method: string,
+    params: unknown[]
+  ): Promise<unknown> {
+    // Parameters are hex strings or block tags unless cast otherwise
+    const [first, second] = params as string[];
+    switch (method) {
+      case 'eth_chainId':
+        return quantity(this.chainId);
+      case 'net_version':
+        return String(this.chainId);
+      case 'web3_clientVersion':
+        return 'ArbitPy Devnet';
+      case 'eth_accounts':
+      case 'eth_requestAccounts':
+        return this.accounts.map(({ address }) => address);
+      case 'eth_blockNumber':
+        return quantity(this.head().header.number);
+      case 'eth_gasPrice':
+        return quantity(this.head().header.calcNextBaseFee());
+      case 'eth_maxPriorityFeePerGas':
+        return '0x0';
+      case 'eth_feeHistory':
+        return this.feeHistory(
+          Number(first),
+          second,
+          params[2] as number[] | undefined
+        );
+
+      case 'eth_getBalance':
+        return quantity((await this.account(vm, first)).balance);
+      case 'eth_getTransactionCount':
+        return quantity((await this.account(vm, first)).nonce);
+      case 'eth_getCode':
+        return bytesToHex(
+          await vm.stateManager.getContractCode(Address.fromString(first))
+        );
+      case 'eth_getStorageAt': {
+        const value = await vm.stateManager.getContractStorage(
+          Address.fromString(first),
+          setLengthLeft(hexToBytes(ethers.toBeHex(second)), 32)
+        );
+        return bytesToHex(setLengthLeft(value, 32));
+      }
+
+      case 'eth_getBlockByNumber': {
+        const block = this.blocks[this.blockNumber(first)];
+        return block ? this.formatBlock(block, Boolean(params[1])) : null;
+      }
+      case 'eth_getBlockByHash': {
+        const block = this.blocks.find((b) => bytesToHex(b.hash()) === first);
+        return block ? this.formatBlock(block, Boolean(params[1])) : null;
+      }
+      case 'eth_getTransactionByHash': {
+        const mined = this.transactions.get(first);
+        return mined ? this.formatTransaction(mined) : null;
+      }
+      case 'eth_getTransactionReceipt': {
+        const mined = this.transactions.get(first);
+        return mined ? this.formatReceipt(mined) : null;
+      }
+      case 'eth_getLogs':
+        return this.getLogs((params[0] as RpcFilter | undefined) ?? {});
+
+      case 'eth_call': {
+        const { execResult } = await this.call(vm, params[0] as RpcTransaction);
+        const error = execResult.exceptionError;
+        if (error?.error === 'revert') {
+          throw rpcError(
+            3,
+            'execution reverted',
+            bytesToHex(execResult.returnValue)
+          );
+        }
+        if (error) throw rpcError(-32000, error.error);
+        return bytesToHex(execResult.returnValue);
+      }
+      case 'eth_estimateGas':
+        return quantity(
+          await this.estimateGas(vm, params[0] as RpcTransaction)
+        );
+      case 'debug_traceCall':
+        return this.traceCall(vm, params[0] as RpcTransaction);
+      case 'eth_sendTransaction':
+        return this.sendTransaction(vm, params[0] as RpcTransaction);
+      case 'eth_sendRawTransaction':
+        return this.mineTransaction(
+          vm,
+          TransactionFactory.fromSerializedData(hexToBytes(first), {
+            common: this.common,
+          })
+        );
+
+      case 'personal_sign':
+        return this.wallet(second).signMessage(ethers.getBytes(first));
+      case 'eth_signTypedData_v4': {
+        const { domain, types, message } = JSON.parse(second);
+        delete types.EIP712Domain;
+        return this.wallet(first).signTypedData(domain, types, message);
+      }
+
+      case 'evm_snapshot': {
+        const id = quantity(this.nextSnapshot++);
+        this.snapshots.set(id, {
+          stateRoot: await vm.stateManager.getStateRoot(),
+          blockCount: this.blocks.length,
+          timeOffset: this.timeOffset,
+          nextTimestamp: this.nextTimestamp,
+        });
+        return id;
+      }
+      case 'evm_revert':
+        return this.revertTo(vm, quantity(BigInt(first)));
+      case 'evm_increaseTime':
+        this.timeOffset += Number(first);
+        return this.timeOffset;
+      case 'evm_setNextBlockTimestamp': {
+        const timestamp = Number(first);
+        if (timestamp <= Number(this.head().header.timestamp)) {
+          throw rpcError(
+            -32000,
+            `Timestamp ${timestamp} is not after the latest block`
+          );
+        }
+        this.nextTimestamp = timestamp;
+        return null;
+      }
+      case 'evm_mine':
+        if (first !== undefined) this.nextTimestamp = Number(first);
+        await this.mineBlock(vm, []);
+        return '0x0';
+      case 'hardhat_setBalance': {
+        const address = Address.fromString(first);
+        const account =
+          (await vm.stateManager.getAccount(address)) ?? new Account();
+        account.balance = BigInt(second);
+        await vm.stateManager.putAccount(address, account);
+        return true;
+      }
+
+      default:
+        throw rpcError(4200, `Devnet does not support ${method}`);
+    }
+  }
+
+  private head(): Block {
+    return this.blocks[this.blocks.length - 1];
+  }
+
+  private now(): number {
+    return Math.floor(Date.now() / 1000) + this.timeOffset;
+  }
+
+  private nextBlockTimestamp(parent: Block): bigint {
+    const timestamp = BigInt(this.nextTimestamp ?? this.now());
+    const earliest = parent.header.timestamp + 1n;
+    return timestamp > earliest ? timestamp : earliest;
+  }
+
+  private blockNumber(tag: string = 'latest'): number {
+    if (tag === 'earliest') return 0;
+    if (['latest', 'pending', 'safe', 'finalized'].includes(tag)) {
+      return this.blocks.length - 1;
+    }
+    return Number(tag);
+  }
+
+  private async account(vm: VM, address: string): Promise<Account> {
+    return (
+      (await vm.stateManager.getAccount(Address.fromString(address))) ??
+      new Account()
+    );
+  }
+
+  private wallet(address: string): ethers.Wallet {
+    const account = this.accounts.find((a) => sameAddress(a.address, address));
+    if (!account) throw rpcError(4100, `Unknown account ${address}`);
+    return new ethers.Wallet(account.privateKey);
+  }
+
+  // Execute a call against the next block without keeping its changes
+  private async call(vm: VM, call: RpcTransaction) {
+    const parent = this.head();
+    const block = Block.fromBlockData(
+      {
+        header: {
+          number: parent.header.number + 1n,
+          timestamp: this.nextBlockTimestamp(parent),
+          gasLimit: this.blockGasLimit,
+          baseFeePerGas: parent.header.calcNextBaseFee(),
+        },
+      },
+      { common: this.common }
+    );
+
+    await vm.stateManager.checkpoint();
+    try {
+      return await vm.evm.runCall({
+        block,
+        caller: call.from ? Address.fromString(call.from) : Address.zero(),
+        origin: call.from ? Address.fromString(call.from) : Address.zero(),
+        to: call.to ? Address.fromString(call.to) : undefined,
+        data: hexToBytes(call.data ?? call.input ?? '0x'),
+        value: BigInt(call.value ?? 0),
+        gasLimit: BigInt(call.gas ?? this.blockGasLimit),
+        skipBalance: true,
+      });
+    } finally {
+      await vm.stateManager.revert();
+    }
+  }
+
+  // Intrinsic gas plus execution gas, with headroom for gas-dependent code
+  private async estimateGas(vm: VM, call: RpcTransaction): Promise<bigint> {
+    const { execResult } = await this.call(vm, { ...call, gas: undefined });
+    const error = execResult.exceptionError;
+    if (error?.error === 'revert') {
+      throw rpcError(
+        3,
+        'execution reverted',
+        bytesToHex(execResult.returnValue)
+      );
+    }
+    if (error) throw rpcError(-32000, error.error);
+
+    const estimate =
+      ((this.intrinsicGas(call) + execResult.executionGasUsed) * 12n) / 10n;
+    return estimate < this.blockGasLimit ? estimate : this.blockGasLimit;
+  }
+
+  /**
+   * A geth-style struct log of a call. The cost of a call opcode includes
+   * the gas the callee spent.
+   */
+  private async traceCall(vm: VM, call: RpcTransaction): Promise<CallTrace> {
+    const steps: Array<StructLog & { fee: bigint }> = [];
+    const onStep = (step: {
+      pc: number;
+      depth: number;
+      gasLeft: bigint;
+      opcode: { name: string; fee: number; dynamicFee?: bigint };
+    }) => {
+      steps.push({
+        pc: step.pc,
+        op: step.opcode.name,
+        gas: Number(step.gasLeft),
+        gasCost: 0,
+        depth: step.depth + 1,
+        fee: BigInt(step.opcode.fee) + (step.opcode.dynamicFee ?? 0n),
+      });
+    };
+
+    const events = vm.evm.events!;
+    events.on('step', onStep);
+    let execResult;
+    try {
+      ({ execResult } = await this.call(vm, call));
+    } finally {
+      events.removeListener('step', onStep);
+    }
+
+    // The gas between a step and the next one in the same frame is its cost
+    steps.forEach((step, index) => {
+      const next = steps
+        .slice(index + 1)
+        .find((later) => later.depth <= step.depth);
+      step.gasCost =
+        next?.depth === step.depth ? step.gas - next.gas : Number(step.fee);
+    });
+
+    return {
+      gas: Number(this.intrinsicGas(call) + execResult.executionGasUsed),
+      failed: execResult.exceptionError !== undefined,
+      returnValue: bytesToHex(execResult.returnValue),
+      structLogs: steps.map(({ fee: _fee, ...log }) => log),
+    };
+  }
+
+  private intrinsicGas(call: RpcTransaction): bigint {
+    return TransactionFactory.fromTxData(
+      {
+        to: call.to ?? undefined,
+        data: call.data ?? call.input,
+        gasLimit: this.blockGasLimit,
+      },
+      { common: this.common }
+    ).getBaseFee();
+  }
+
+  private async sendTransaction(vm: VM, request: RpcTransaction) {
+    const from =
+      request.from ?? (this.accounts[0].address as PrefixedHexString);
+    const { privateKey } = this.wallet(from);
+    const txData = {
+      to: request.to ?? undefined,
+      value: BigInt(request.value ?? 0),
+      data: request.data ?? request.input,
+      nonce: BigInt(request.nonce ?? (await this.account(vm, from)).nonce),
+      gasLimit: BigInt(
+        request.gas ?? (await this.estimateGas(vm, { ...request, from }))
+      ),
+    };
+
+    let tx: TypedTransaction;
+    if (request.gasPrice !== undefined) {
+      tx = TransactionFactory.fromTxData(
+        { ...txData, gasPrice: BigInt(request.gasPrice) },
+        { common: this.common }
+      );
+    } else {
+      const priorityFee = BigInt(request.maxPriorityFeePerGas ?? 0);
+      const maxFee =
+        request.maxFeePerGas !== undefined
+          ? BigInt(request.maxFeePerGas)
+          : this.head().header.calcNextBaseFee() * 2n + priorityFee;
+      tx = TransactionFactory.fromTxData(
+        {
+          ...txData,
+          type: 2,
+          chainId: BigInt(this.chainId),
+          maxFeePerGas: maxFee,
+          maxPriorityFeePerGas: priorityFee,
+        },
+        { common: this.common }
+      );
+    }
+    return this.mineTransaction(vm, tx.sign(hexToBytes(privateKey)));
+  }
+
+  private async mineTransaction(vm: VM, tx: TypedTransaction): Promise<string> {
+    await this.mineBlock(vm, [tx]);
+    return bytesToHex(tx.hash());
+  }
+
+  private async mineBlock(vm: VM, txs: TypedTransaction[]): Promise<Block> {
+    const parent = this.head();
+    const timestamp = this.nextBlockTimestamp(parent);
+    this.nextTimestamp = undefined;
+
+    const builder = await vm.buildBlock({
+      parentBlock: parent,
+      headerData: {
+        timestamp,
+        gasLimit: this.blockGasLimit,
+      },
+      blockOpts: { putBlockIntoBlockchain: false },
+    });
+    const results: RunTxResult[] = [];
+    try {
+      for (const tx of txs) results.push(await builder.addTransaction(tx));
+    } catch (error) {
+      await builder.revert();
+      throw rpcError(
+        -32000,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+    const block = await builder.build();
+    this.blocks.push(block);
+
+    let logIndex = 0;
+    block.transactions.forEach((tx, index) => {
+      const hash = bytesToHex(tx.hash());
+      const result = results[index];
+      this.transactions.set(hash, {
+        tx,
+        hash,
+        from: tx.getSenderAddress().toString(),
+        block,
+        index,
+        result,
+        logIndex,
+      });
+      logIndex += result.receipt.logs.length;
+    });
+    return block;
+  }
+
+  private async revertTo(vm: VM, id: string): Promise<boolean> {
+    const snapshot = this.snapshots.get(id);
+    if (!snapshot) return false;
+
+    await vm.stateManager.setStateRoot(snapshot.stateRoot);
+    for (const block of this.blocks.splice(snapshot.blockCount)) {
+      for (const tx of block.transactions) {
+        this.transactions.delete(bytesToHex(tx.hash()));
+      }
+    }
+    this.timeOffset = snapshot.timeOffset;
+    this.nextTimestamp = snapshot.nextTimestamp;
+    for (const key of [...this.snapshots.keys()]) {
+      if (BigInt(key) >= BigInt(id)) this.snapshots.delete(key);
+    }
+    return true;
+  }
+
+  private feeHistory(
+    blockCount: number,
+    newest: string,
+    percentiles?: number[]
+  ) {
+    const last = this.blockNumber(newest);
+    const oldest = Math.max(0, last - blockCount + 1);
+    const blocks = this.blocks.slice(oldest, last + 1);
+    const next = this.blocks[last + 1]?.header.baseFeePerGas;
+
+    return {
+      oldestBlock: quantity(oldest),
+      baseFeePerGas: [
+        ...blocks.map((block) => block.header.baseFeePerGas ?? 0n),
+        next ?? this.blocks[last].header.calcNextBaseFee(),
+      ].map(quantity),
+      gasUsedRatio: blocks.map(
+        ({ header }) => Number(header.gasUsed) / Number(header.gasLimit)
+      ),
+      ...(percentiles && {
+        reward: blocks.map((block) => {
+          const tips = block.transactions
+            .map((tx) =>
+              tx.getEffectivePriorityFee(block.header.baseFeePerGas ?? 0n)
+            )
+            .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+          return percentiles.map((percentile) =>
+            quantity(
+              tips[
+                Math.min(
+                  tips.length - 1,
+                  Math.floor((tips.length * percentile) / 100)
+                )
+              ] ?? 0n
+            )
+          );
+        }),
+      }),
+    };
+  }
+
+  private getLogs(filter: RpcFilter) {
+    const addresses =
+      filter.address === undefined ? undefined : [filter.address].flat();
+    const topics = filter.topics ?? [];
+
+    let blocks: Block[];
+    if (filter.blockHash) {
+      blocks = this.blocks.filter(
+        (b) => bytesToHex(b.hash()) === filter.blockHash
+      );
+    } else {
+      blocks = this.blocks.slice(
+        this.blockNumber(filter.fromBlock),
+        this.blockNumber(filter.toBlock) + 1
+      );
+    }
+
+    return blocks
+      .flatMap((block) =>
+        block.transactions.flatMap((tx) =>
+          this.formatLogs(this.transactions.get(bytesToHex(tx.hash()))!)
+        )
+      )
+      .filter(
+        (log) =>
+          (!addresses || addresses.some((a) => sameAddress(a, log.address))) &&
+          topics.every((topic, i) => {
+            if (topic === null) return true;
+            return [topic].flat().some((t) => t === log.topics[i]);
+          })
+      );
+  }
+
+  private formatBlock(block: Block, full: boolean) {
+    const { header } = block;
+    return {
+      number: quantity(header.number),
+      hash: bytesToHex(block.hash()),
+      parentHash: bytesToHex(header.parentHash),
+      nonce: bytesToHex(header.nonce),
+      sha3Uncles: bytesToHex(header.uncleHash),
+      logsBloom: bytesToHex(header.logsBloom),
+      transactionsRoot: bytesToHex(header.transactionsTrie),
+      stateRoot: bytesToHex(header.stateRoot),
+      receiptsRoot: bytesToHex(header.receiptTrie),
+      miner: header.coinbase.toString(),
+      difficulty: quantity(header.difficulty),
+      totalDifficulty: '0x0',
+      extraData: bytesToHex(header.extraData),
+      size: quantity(block.serialize().length),
+      gasLimit: quantity(header.gasLimit),
+      gasUsed: quantity(header.gasUsed),
+      timestamp: quantity(header.timestamp),
+      baseFeePerGas: quantity(header.baseFeePerGas ?? 0n),
+      mixHash: bytesToHex(header.mixHash),
+      uncles: [],
+      transactions: block.transactions.map((tx) => {
+        const hash = bytesToHex(tx.hash());
+        return full
+          ? this.formatTransaction(this.transactions.get(hash)!)
+          : hash;
+      }),
+    };
+  }
+
+  private formatTransaction({
+    tx,
+    hash,
+    from,
+    block,
+    index,
+  }: MinedTransaction) {
+    const fees =
+      'maxFeePerGas' in tx
+        ? {
+            maxFeePerGas: quantity(tx.maxFeePerGas),
+            maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas),
+            gasPrice: quantity(this.effectiveGasPrice(tx, block)),
+          }
+        : { gasPrice: quantity(tx.gasPrice) };
+    return {
+      hash,
+      blockHash: bytesToHex(block.hash()),
+      blockNumber: quantity(block.header.number),
+      transactionIndex: quantity(index),
+      from,
+      to: tx.to?.toString() ?? null,
+      nonce: quantity(tx.nonce),
+      gas: quantity(tx.gasLimit),
+      value: quantity(tx.value),
+      input: bytesToHex(tx.data),
+      type: quantity(tx.type),
+      chainId: quantity(this.chainId),
+      v: quantity(tx.v ?? 0n),
+      r: quantity(tx.r ?? 0n),
+      s: quantity(tx.s ?? 0n),
+      ...fees,
+    };
+  }
+
+  private formatReceipt(mined: MinedTransaction) {
+    const { tx, hash, from, block, index, result } = mined;
+    return {
+      transactionHash: hash,
+      transactionIndex: quantity(index),
+      blockHash: bytesToHex(block.hash()),
+      blockNumber: quantity(block.header.number),
+      from,
+      to: tx.to?.toString() ?? null,
+      contractAddress: result.createdAddress?.toString() ?? null,
+      cumulativeGasUsed: quantity(result.receipt.cumulativeBlockGasUsed),
+      gasUsed: quantity(result.totalGasSpent),
+      effectiveGasPrice: quantity(this.effectiveGasPrice(tx, block)),
+      logs: this.formatLogs(mined),
+      logsBloom: bytesToHex(result.bloom.bitvector),
+      status: result.execResult.exceptionError ? '0x0' : '0x1',
+      type: quantity(tx.type),
+    };
+  }
+
+  private formatLogs({
+    hash,
+    block,
+    index,
+    result,
+    logIndex,
+  }: MinedTransaction) {
+    return result.receipt.logs.map(([address, topics, data], i) => ({
+      address: ethers.getAddress(bytesToHex(address)),
+      topics: topics.map((topic) => bytesToHex(topic)),
+      data: bytesToHex(data),
+      blockHash: bytesToHex(block.hash()),
+      blockNumber: quantity(block.header.number),
+      transactionHash: hash,
+      transactionIndex: quantity(index),
+      logIndex: quantity(logIndex + i),
+      removed: false,
+    }));
+  }
+
+  private effectiveGasPrice(tx: TypedTransaction, block: Block): bigint {
+    const baseFee = block.header.baseFeePerGas ?? 0n;
+    return baseFee + tx.getEffectivePriorityFee(baseFee);
+  }
+}
+
+let devnet: Devnet | undefined;
+
+/** The devnet behind the `local` network, shared by the whole process */
+export function getDevnet(): Devnet {
+  devnet ??= new Devnet();
+  return devnet;
+}
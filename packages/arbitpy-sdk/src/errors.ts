@@ -0,0 +1,334 @@
+// Typed errors thrown by the ArbitPy SDK
+import { ethers } from 'ethers';
+import type { CompilationError } from './types';
+import { decodeRevert, findRevertData, formatRevert } from './contract/revert';
+
+export interface ArbitPyErrorOptions {
+  /** Machine-readable error kind, e.g. 'RATE_LIMITED' */
+  code?: string;
+  /** Underlying error, e.g. from ethers or the transport */
+  cause?: unknown;
+}
+
+/** Base class of every error thrown by the SDK */
+export class ArbitPyError extends Error {
+  public readonly code: string;
+  public readonly cause?: unknown;
+
+  constructor(message: string, options: ArbitPyErrorOptions = {}) {
+    super(message);
+    this.name = 'ArbitPyError';
+    this.code = options.code ?? 'UNKNOWN';
+    this.cause = options.cause;
+  }
+}
+
+export interface NetworkErrorOptions extends ArbitPyErrorOptions {
+  /** HTTP status, when a response was received */
+  status?: number;
+  method?: string;
+  url?: string;
+  /** Parsed response body */
+  responseData?: unknown;
+}
+
+/**
+ * A request to the ArbitPy API or an RPC node failed. `code` is
+ * 'TIMEOUT', 'ABORTED', 'NETWORK_ERROR', 'UNAUTHORIZED' or 'HTTP_ERROR'.
+ */
+export class ArbitPyNetworkError extends ArbitPyError {
+  public readonly status?: number;
+  public readonly method?: string;
+  public readonly url?: string;
+  public readonly responseData?: unknown;
+
+  constructor(message: string, options: NetworkErrorOptions = {}) {
+    super(message, { code: 'NETWORK_ERROR', ...options });
+    this.name = 'ArbitPyNetworkError';
+    this.status = options.status;
+    this.method = options.method;
+    this.url = options.url;
+    this.responseData = options.responseData;
+  }
+}
+
+/** The API answered 429 and retries were exhausted */
+export class RateLimitError extends ArbitPyNetworkError {
+  /** Milliseconds the server asked to wait, from Retry-After */
+  public readonly retryAfter?: number;
+
+  constructor(
+    message: string,
+    options: NetworkErrorOptions & { retryAfter?: number } = {}
+  ) {
+    super(message, { status: 429, ...options, code: 'RATE_LIMITED' });
+    this.name = 'RateLimitError';
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/** Source code did not compile */
+export class CompilationFailedError extends ArbitPyError {
+  public readonly target?: string;
+  public readonly sessionId?: string;
+  public readonly errors: CompilationError[];
+
+  constructor(
+    message: string,
+    options: ArbitPyErrorOptions & {
+      target?: string;
+      sessionId?: string;
+      errors?: CompilationError[];
+    } = {}
+  ) {
+    super(message, { code: 'COMPILATION_FAILED', ...options });
+    this.name = 'CompilationFailedError';
+    this.target = options.target;
+    this.sessionId = options.sessionId;
+    this.errors = options.errors ?? [];
+  }
+}
+
+/** A custom Solidity error decoded from revert data */
+export interface DecodedCustomError {
+  name: string;
+  signature: string;
+  args: unknown[];
+  /** Arguments by parameter name, when the error came from the ABI */
+  namedArgs?: Record<string, unknown>;
+}
+
+/** A `Panic(uint256)` raised by a failed assert, checked math and the like */
+export interface DecodedPanic {
+  code: number;
+  description: string;
+}
+
+export interface RevertErrorOptions extends ArbitPyErrorOptions {
+  /** Revert reason string, e.g. from `require(..., 'reason')` */
+  reason?: string;
+  customError?: DecodedCustomError;
+  panic?: DecodedPanic;
+  /** Raw revert data */
+  data?: string;
+  transactionHash?: string;
+}
+
+/** A contract call or transaction reverted */
+export class ContractRevertedError extends ArbitPyError {
+  public readonly reason?: string;
+  public readonly customError?: DecodedCustomError;
+  public readonly panic?: DecodedPanic;
+  public readonly data?: string;
+  public readonly transactionHash?: string;
+
+  constructor(message: string, options: RevertErrorOptions = {}) {
+    super(message, { code: 'CALL_REVERTED', ...options });
+    this.name = 'ContractRevertedError';
+    this.reason = options.reason;
+    this.customError = options.customError;
+    this.panic = options.panic;
+    this.data = options.data;
+    this.transactionHash = options.transactionHash;
+  }
+}
+
+/** The contract creation transaction reverted */
+export class DeploymentRevertedError extends ContractRevertedError {
+  constructor(message: string, options: RevertErrorOptions = {}) {
+    super(message, { ...options, code: 'DEPLOYMENT_REVERTED' });
+    this.name = 'DeploymentRevertedError';
+  }
+}
+
+/** The sending account cannot pay for value plus gas */
+export class InsufficientFundsError extends ArbitPyError {
+  public readonly address?: string;
+
+  constructor(
+    message: string,
+    options: ArbitPyErrorOptions & { address?: string } = {}
+  ) {
+    super(message, { ...options, code: 'INSUFFICIENT_FUNDS' });
+    this.name = 'InsufficientFundsError';
+    this.address = options.address;
+  }
+}
+
+/** The user declined the request in their wallet */
+export class UserRejectedError extends ArbitPyError {
+  constructor(
+    message = 'User rejected the request',
+    options: ArbitPyErrorOptions = {}
+  ) {
+    super(message, { ...options, code: 'USER_REJECTED' });
+    this.name = 'UserRejectedError';
+  }
+}
+
+/** Another transaction with the same nonce was mined instead */
+export class TransactionReplacedError extends ArbitPyError {
+  public readonly transactionHash: string;
+  /** Hash of the mined transaction, when it was sent through the SDK */
+  public readonly replacement?: string;
+  /** Whether the replacement was a cancellation */
+  public readonly cancelled: boolean;
+
+  constructor(
+    message: string,
+    options: ArbitPyErrorOptions & {
+      transactionHash: string;
+      replacement?: string;
+      cancelled?: boolean;
+    }
+  ) {
+    super(message, { ...options, code: 'TRANSACTION_REPLACED' });
+    this.name = 'TransactionReplacedError';
+    this.transactionHash = options.transactionHash;
+    this.replacement = options.replacement;
+    this.cancelled = options.cancelled ?? false;
+  }
+}
+
+/** The transaction left the mempool without being mined */
+export class TransactionDroppedError extends ArbitPyError {
+  public readonly transactionHash: string;
+
+  constructor(
+    message: string,
+    options: ArbitPyErrorOptions & { transactionHash: string }
+  ) {
+    super(message, { ...options, code: 'TRANSACTION_DROPPED' });
+    this.name = 'TransactionDroppedError';
+    this.transactionHash = options.transactionHash;
+  }
+}
+
+/** The transaction was sent, but waiting for its receipt failed */
+export class TransactionPendingError extends ArbitPyError {
+  public readonly transactionHash: string;
+
+  constructor(
+    message: string,
+    options: ArbitPyErrorOptions & { transactionHash: string }
+  ) {
+    super(message, { ...options, code: 'TRANSACTION_PENDING' });
+    this.name = 'TransactionPendingError';
+    this.transactionHash = options.transactionHash;
+  }
+}
+
+/**
+ * Convert anything thrown by ethers, the transport or user code into an
+ * ArbitPyError. ArbitPyErrors pass through unchanged; reverts during
+ * contract creation become DeploymentRevertedErrors when `deploying`.
+ * Revert data is decoded against `abi` to name custom errors.
+ */
+export function toArbitPyError(
+  error: unknown,
+  context: { deploying?: boolean; abi?: ethers.InterfaceAbi } = {}
+): ArbitPyError {
+  if (error instanceof ArbitPyError) return error;
+
+  if (ethers.isError(error, 'ACTION_REJECTED')) {
+    return new UserRejectedError(undefined, { cause: error });
+  }
+  if (ethers.isError(error, 'INSUFFICIENT_FUNDS')) {
+    return new InsufficientFundsError('Insufficient funds for gas and value', {
+      address:
+        typeof error.transaction?.from === 'string'
+          ? error.transaction.from
+          : undefined,
+      cause: error,
+    });
+  }
+  // Some nodes report reverts of sent transactions as plain RPC errors
+  const data = findRevertData(error);
+  const decoded = decodeRevert(data, context.abi);
+  const callException = ethers.isError(error, 'CALL_EXCEPTION')
+    ? error
+    : undefined;
+  if (callException || decoded) {
+    let customError: DecodedCustomError | undefined;
+    if (decoded?.kind === 'custom') {
+      const { name, signature, args, namedArgs } = decoded;
+      customError = { name, signature, args, namedArgs };
+    } else if (!decoded && callException?.revert) {
+      // Decoded by ethers from the interface of the contract
+      const { name, signature, args } = callException.revert;
+      customError = { name, signature, args: Array.from(args) };
+    }
+    const reason =
+      decoded?.kind === 'error'
+        ? decoded.reason
+        : (callException?.reason ?? undefined);
+    const detail = decoded
+      ? formatRevert(decoded)
+      : customError
+        ? `${customError.name}(${customError.args.map(String).join(', ')})`
+        : reason;
+    const RevertedError = context.deploying
+      ? DeploymentRevertedError
+      : ContractRevertedError;
+    return new RevertedError(
+      detail ? `Reverted: ${detail}` : 'Transaction reverted',
+      {
+        reason,
+        customError,
+        panic:
+          decoded?.kind === 'panic'
+            ? { code: decoded.code, description: decoded.description }
+            : undefined,
+        data: data ?? callException?.data ?? undefined,
+        transactionHash: callException?.receipt?.hash,
+        cause: error,
+      }
+    );
+  }
+  if (
+    ethers.isError(error, 'NETWORK_ERROR') ||
+    ethers.isError(error, 'SERVER_ERROR')
+  ) {
+    return new ArbitPyNetworkError(error.shortMessage, { cause: error });
+  }
+  if (ethers.isError(error, 'TIMEOUT')) {
+    return new ArbitPyNetworkError(error.shortMessage, {
+      code: 'TIMEOUT',
+      cause: error,
+    });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new ArbitPyError(message, { cause: error });
+}
+
+/**
+ * Typed error for a deployment the API reported as unsuccessful, told
+ * apart by its message the way the API picks a status for failures
+ */
+export function toDeploymentError(result: {
+  message?: string;
+  error?: string;
+  transactionHash?: string;
+}): ArbitPyError {
+  const message = result.message || result.error || 'Deployment failed';
+  if (/invalid|validation/i.test(message)) {
+    return new ArbitPyError(message, { code: 'INVALID_DEPLOYMENT' });
+  }
+  if (/insufficient funds|balance/i.test(message)) {
+    return new InsufficientFundsError(message);
+  }
+  if (/network|rpc|timeout/i.test(message)) {
+    return new ArbitPyNetworkError(message);
+  }
+  if (/revert/i.test(message)) {
+    return new DeploymentRevertedError(message, {
+      reason: /reverted:?\s*(.+)$/i.exec(message)?.[1],
+      transactionHash: result.transactionHash || undefined,
+    });
+  }
+  if (/gas/i.test(message)) {
+    return new ArbitPyError(message, { code: 'GAS_ESTIMATION_FAILED' });
+  }
+  return new ArbitPyError(message, { code: 'DEPLOYMENT_FAILED' });
+}
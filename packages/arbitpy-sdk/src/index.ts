@@ -1,15 +1,202 @@
 // ArbitPy SDK - Main Entry Point
 export * from './types';
 export * from './config';
+export * from './errors';
 
 // Core modules
 export { ArbitPyCompiler } from './compiler';
 export { ArbitPyDeployment } from './deployment';
+export type {
+  DeterministicDeploymentRequest,
+  ProxyDeploymentOptions,
+  UpgradeableDeploymentRequest,
+  UpgradeableDeploymentResult,
+  UpgradeRequest,
+  UpgradeResult,
+} from './deployment';
+export { TransactionManager } from './deployment/transactions';
+export {
+  estimateFees,
+  getFeePresets,
+  isArbitrum,
+  ARBITRUM_CHAIN_IDS,
+  DEFAULT_FEE_PERCENTILES,
+  FEE_SPEEDS,
+  NODE_INTERFACE_ADDRESS,
+} from './deployment/fees';
+export type {
+  FeeCost,
+  FeeEstimate,
+  FeeHistoryOptions,
+  FeePreset,
+  FeePresets,
+  FeeSpeed,
+} from './deployment/fees';
+export {
+  assertUpgradeable,
+  checkStorageUpgrade,
+  encodeInitializer,
+  getImplementation,
+  getProxyAdmin,
+  getProxyArtifact,
+  proxyConstructorArgs,
+  ADMIN_SLOT,
+  IMPLEMENTATION_SLOT,
+  PROXY_KINDS,
+  UPGRADE_ABI,
+} from './deployment/proxy';
+export type { ProxyArtifact, ProxyKind } from './deployment/proxy';
+export {
+  isRetryable,
+  mergeManifests,
+  planTargets,
+  runDeploymentPlan,
+} from './deployment/batch';
+export type {
+  DeploymentManifest,
+  DeploymentPlan,
+  DeploymentPlanOptions,
+  DeploymentTarget,
+  ManifestEntry,
+  ManifestStatus,
+  PlanDeployer,
+} from './deployment/batch';
+export {
+  deterministicDeployTransaction,
+  encodeInitCode,
+  normalizeSalt,
+  predictAddress,
+  DETERMINISTIC_DEPLOYER,
+  DETERMINISTIC_DEPLOYER_CODE,
+} from './deployment/create2';
+export type {
+  ReplacementOptions,
+  TrackedTransaction,
+  TransactionManagerOptions,
+  TransactionStatus,
+} from './deployment/transactions';
 export { ArbitPyContract, createContract } from './contract';
+export type {
+  ContractEvent,
+  ContractMethod,
+  ContractTransaction,
+} from './contract';
+export {
+  decodeRevert,
+  formatRevert,
+  findRevertData,
+  PANIC_CODES,
+} from './contract/revert';
+export type { DecodedRevert } from './contract/revert';
+export {
+  multicall,
+  MULTICALL3_ADDRESS,
+  DEFAULT_MULTICALL_CHUNK_SIZE,
+} from './contract/multicall';
+export type {
+  MulticallCall,
+  MulticallOptions,
+  MulticallResult,
+} from './contract/multicall';
+export {
+  EventSync,
+  MemoryCursorStore,
+  WebStorageCursorStore,
+} from './contract/event-sync';
+export type {
+  CursorStore,
+  EventSyncEvents,
+  EventSyncOptions,
+  SyncCursor,
+  SyncedBlock,
+  SyncedEvent,
+} from './contract/event-sync';
 export { ArbitPyAI } from './ai';
+export { Devnet, getDevnet, DEVNET_MNEMONIC } from './devnet';
+export type {
+  CallTrace,
+  DevnetAccount,
+  DevnetOptions,
+  StructLog,
+} from './devnet';
+export {
+  deployFixtures,
+  discoverTests,
+  fuzzInvariants,
+  isTestFile,
+  runTests,
+} from './testing';
+export type {
+  ContractArtifact,
+  FixtureOptions,
+  FuzzCall,
+  FuzzOptions,
+  FuzzReport,
+  InvariantViolation,
+  TestCase,
+  TestDiscovery,
+  TestFailure,
+  TestFrame,
+  TestReport,
+  TestResult,
+  TestRunOptions,
+} from './testing';
+export { diffGasReports, profileGas } from './profiler';
+export type {
+  FunctionGas,
+  FunctionGasChange,
+  GasChange,
+  GasProfileOptions,
+  GasReport,
+  GasReportDiff,
+  LineGas,
+} from './profiler';
+export { createProvider } from './utils/provider';
+
+// Local compilation
+export {
+  transpileToSolidity,
+  transpileToRust,
+  typeCheck,
+  generateAbi,
+  generateBindings,
+  generatedLinesFor,
+  sourceLineFor,
+  mapToSource,
+  resolveImports,
+  diffStorageLayouts,
+} from './codegen';
+export type {
+  AbiItem,
+  AbiParameter,
+  BindingsOptions,
+  ImportOptions,
+  StorageChange,
+  StorageEntry,
+  StorageLayoutDiff,
+  TranspileOptions,
+  TranspileResult,
+  TypeCheckResult,
+} from './codegen';
+
+// Parser
+export { parse, walk, children, ParseError, ast } from './parser';
+export type { Visitor, NodeVisitors } from './parser';
 
 // Utilities
-export { HttpClient } from './utils/http-client';
+export { HttpClient, DEFAULT_RETRY } from './utils/http-client';
+export type { RequestOptions } from './utils/http-client';
+export {
+  AxiosTransport,
+  FetchTransport,
+  TransportError,
+} from './utils/transport';
+export type {
+  HttpMethod,
+  HttpRequest,
+  HttpResponse,
+  HttpTransport,
+} from './utils/transport';
 
 // Main SDK class
 import { EventEmitter } from 'eventemitter3';
@@ -17,7 +204,12 @@ import { ArbitPyCompiler } from './compiler';
 import { ArbitPyDeployment } from './deployment';
 import { ArbitPyContract, createContract } from './contract';
 import { ArbitPyAI } from './ai';
-import { ArbitPyConfig, ArbitPyEvents } from './types';
+import { ArbitPyConfig, ArbitPyEvents, CallOptions } from './types';
+import {
+  ArbitPyError,
+  CompilationFailedError,
+  toDeploymentError,
+} from './errors';
 
 export class ArbitPySDK extends EventEmitter<ArbitPyEvents> {
   public readonly compiler: ArbitPyCompiler;
@@ -65,7 +257,7 @@ export class ArbitPySDK extends EventEmitter<ArbitPyEvents> {
       constructorParams?: any[];
       privateKey?: string;
       optimization?: boolean;
-    } = {}
+    } & CallOptions = {}
   ): Promise<{
     compilationResult: any;
     deploymentResult: any;
@@ -79,24 +271,38 @@ export class ArbitPySDK extends EventEmitter<ArbitPyEvents> {
       case 'vyper':
         compilationResult = await this.compiler.compileVyper(code, {
           optimization: options.optimization,
+          signal: options.signal,
         });
         break;
       case 'solidity':
         compilationResult = await this.compiler.compileSolidity(code, {
           optimization: options.optimization,
+          signal: options.signal,
         });
         break;
       case 'rust':
-        throw new Error('Rust compilation not yet implemented in this version');
+        compilationResult = await this.compiler.compileRust(code, {
+          optimization: options.optimization,
+          signal: options.signal,
+        });
         break;
       default:
-        throw new Error(`Unsupported target: ${target}`);
+        throw new ArbitPyError(`Unsupported target: ${target}`, {
+          code: 'UNSUPPORTED_TARGET',
+        });
     }
 
     if (!compilationResult.success) {
-      throw new Error(
-        `Compilation failed: ${compilationResult.errors?.[0]?.message || 'Unknown error'}`
+      const error = new CompilationFailedError(
+        `Compilation failed: ${compilationResult.errors?.[0]?.message || 'Unknown error'}`,
+        {
+          target,
+          sessionId: compilationResult.sessionId,
+          errors: compilationResult.errors,
+        }
       );
+      this.emit('error', error);
+      throw error;
     }
 
     // Step 2: Deploy the contract
@@ -105,10 +311,12 @@ export class ArbitPySDK extends EventEmitter<ArbitPyEvents> {
       abi: compilationResult.abi!,
       network: options.network || 'arbitrum-sepolia',
       constructorParams: options.constructorParams || [],
-    }, options.privateKey);
+    }, options.privateKey, { signal: options.signal });
 
     if (!deploymentResult.success) {
-      throw new Error('Deployment failed');
+      const error = toDeploymentError(deploymentResult);
+      this.emit('error', error);
+      throw error;
     }
 
     // Step 3: Create contract instance
@@ -211,6 +419,12 @@ export class ArbitPySDK extends EventEmitter<ArbitPyEvents> {
     this.deployment.on('transaction:confirmed', (data) => 
       this.emit('transaction:confirmed', data)
     );
+    this.deployment.on('transaction:replaced', (data) =>
+      this.emit('transaction:replaced', data)
+    );
+    this.deployment.on('transaction:dropped', (data) =>
+      this.emit('transaction:dropped', data)
+    );
 
     // Forward errors from all modules
     this.compiler.on('error', (error) => this.emit('error', error));
@@ -0,0 +1,427 @@
+// AST node definitions for the ArbitPy Python dialect
+
+/** Source range of a node; the end position is exclusive */
+export interface Span {
+  /** 1-based line of the first token of the node */
+  line: number;
+  /** 1-based column of the first token of the node */
+  column: number;
+  /** 1-based line of the last token of the node */
+  endLine: number;
+  /** 1-based column just past the last token of the node */
+  endColumn: number;
+}
+
+export interface BaseNode extends Span {
+  kind: string;
+  /** Project path of the file, set on nodes merged in by an import */
+  file?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Top level
+// ---------------------------------------------------------------------------
+
+export interface Module extends BaseNode {
+  kind: 'Module';
+  docstring?: string;
+  body: ModuleMember[];
+}
+
+export type ModuleMember = ContractDef | ContractMember | ImportFrom;
+
+/** `from interfaces import IERC20`; `level` counts leading dots */
+export interface ImportFrom extends BaseNode {
+  kind: 'ImportFrom';
+  /** Dotted module path; empty for `from . import Name` */
+  module: string;
+  level: number;
+  names: ImportAlias[];
+}
+
+/** `IERC20` or `IERC20 as Token` in an import */
+export interface ImportAlias extends BaseNode {
+  kind: 'ImportAlias';
+  name: string;
+  asName?: string;
+}
+
+/** `@contract class Name:` style contract */
+export interface ContractDef extends BaseNode {
+  kind: 'ContractDef';
+  name: string;
+  decorators: Decorator[];
+  docstring?: string;
+  body: ContractMember[];
+}
+
+export type ContractMember =
+  | StateVariableDecl
+  | FunctionDef
+  | StructDef
+  | EventDef
+  | ErrorDef
+  | EnumDef
+  | InterfaceDef;
+
+export interface Decorator extends BaseNode {
+  kind: 'Decorator';
+  name: string;
+  args: Expression[];
+}
+
+/** `name: public(HashMap[address, uint256])`, optionally with `= value` */
+export interface StateVariableDecl extends BaseNode {
+  kind: 'StateVariableDecl';
+  name: string;
+  annotation: Expression;
+  value?: Expression;
+}
+
+export interface FunctionDef extends BaseNode {
+  kind: 'FunctionDef';
+  name: string;
+  decorators: Decorator[];
+  params: Parameter[];
+  returns?: Expression;
+  docstring?: string;
+  body: Statement[];
+}
+
+export interface Parameter extends BaseNode {
+  kind: 'Parameter';
+  name: string;
+  annotation?: Expression;
+  default?: Expression;
+}
+
+export interface FieldDecl extends BaseNode {
+  kind: 'FieldDecl';
+  name: string;
+  annotation: Expression;
+}
+
+export interface StructDef extends BaseNode {
+  kind: 'StructDef';
+  name: string;
+  fields: FieldDecl[];
+}
+
+export interface EventDef extends BaseNode {
+  kind: 'EventDef';
+  name: string;
+  fields: FieldDecl[];
+}
+
+/** `error InsufficientBalance:` custom error, raised with `raise Name(...)` */
+export interface ErrorDef extends BaseNode {
+  kind: 'ErrorDef';
+  name: string;
+  fields: FieldDecl[];
+}
+
+export interface EnumMember extends BaseNode {
+  kind: 'EnumMember';
+  name: string;
+}
+
+export interface EnumDef extends BaseNode {
+  kind: 'EnumDef';
+  name: string;
+  members: EnumMember[];
+}
+
+/** Vyper-style `interface IERC20:` block of external function signatures */
+export interface InterfaceDef extends BaseNode {
+  kind: 'InterfaceDef';
+  name: string;
+  functions: InterfaceFunction[];
+}
+
+export interface InterfaceFunction extends BaseNode {
+  kind: 'InterfaceFunction';
+  name: string;
+  params: Parameter[];
+  returns?: Expression;
+  mutability: 'pure' | 'view' | 'nonpayable' | 'payable';
+}
+
+// ---------------------------------------------------------------------------
+// Statements
+// ---------------------------------------------------------------------------
+
+export type Statement =
+  | ExpressionStatement
+  | Assign
+  | AnnAssign
+  | AugAssign
+  | Return
+  | If
+  | For
+  | While
+  | Assert
+  | Raise
+  | Emit
+  | Pass
+  | Break
+  | Continue;
+
+export interface ExpressionStatement extends BaseNode {
+  kind: 'ExpressionStatement';
+  expression: Expression;
+}
+
+export interface Assign extends BaseNode {
+  kind: 'Assign';
+  target: Expression;
+  value: Expression;
+}
+
+/** `x: uint256 = 5` */
+export interface AnnAssign extends BaseNode {
+  kind: 'AnnAssign';
+  target: Name;
+  annotation: Expression;
+  value?: Expression;
+}
+
+export type AugmentedOperator =
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '//'
+  | '%'
+  | '**'
+  | '&'
+  | '|'
+  | '^'
+  | '<<'
+  | '>>';
+
+export interface AugAssign extends BaseNode {
+  kind: 'AugAssign';
+  target: Expression;
+  op: AugmentedOperator;
+  value: Expression;
+}
+
+export interface Return extends BaseNode {
+  kind: 'Return';
+  value?: Expression;
+}
+
+/** `elif` chains are represented as a nested If in `orelse` */
+export interface If extends BaseNode {
+  kind: 'If';
+  test: Expression;
+  body: Statement[];
+  orelse: Statement[];
+}
+
+export interface For extends BaseNode {
+  kind: 'For';
+  target: Name;
+  annotation?: Expression;
+  iter: Expression;
+  body: Statement[];
+}
+
+export interface While extends BaseNode {
+  kind: 'While';
+  test: Expression;
+  body: Statement[];
+}
+
+export interface Assert extends BaseNode {
+  kind: 'Assert';
+  test: Expression;
+  message?: Expression;
+}
+
+/** `raise "reason"` */
+export interface Raise extends BaseNode {
+  kind: 'Raise';
+  exception?: Expression;
+}
+
+/** `emit Transfer(...)` or Vyper's `log Transfer(...)` */
+export interface Emit extends BaseNode {
+  kind: 'Emit';
+  event: string;
+  args: Expression[];
+  keywords: Keyword[];
+}
+
+export interface Pass extends BaseNode {
+  kind: 'Pass';
+}
+
+export interface Break extends BaseNode {
+  kind: 'Break';
+}
+
+export interface Continue extends BaseNode {
+  kind: 'Continue';
+}
+
+// ---------------------------------------------------------------------------
+// Expressions
+// ---------------------------------------------------------------------------
+
+export type Expression =
+  | Name
+  | NumberLiteral
+  | StringLiteral
+  | BooleanLiteral
+  | NoneLiteral
+  | Attribute
+  | Subscript
+  | Call
+  | BinaryOp
+  | BoolOp
+  | Compare
+  | UnaryOp
+  | IfExp
+  | ListExpr
+  | TupleExpr
+  | DictExpr;
+
+export interface Name extends BaseNode {
+  kind: 'Name';
+  id: string;
+}
+
+export interface NumberLiteral extends BaseNode {
+  kind: 'NumberLiteral';
+  /** Source text, e.g. `1_000` or `0xff` */
+  raw: string;
+  /** Decimal string for integers, normalized source text for decimals */
+  value: string;
+  isInteger: boolean;
+}
+
+export interface StringLiteral extends BaseNode {
+  kind: 'StringLiteral';
+  value: string;
+  /** `b"..."` literal */
+  isBytes?: boolean;
+}
+
+export interface BooleanLiteral extends BaseNode {
+  kind: 'BooleanLiteral';
+  value: boolean;
+}
+
+export interface NoneLiteral extends BaseNode {
+  kind: 'NoneLiteral';
+}
+
+export interface Attribute extends BaseNode {
+  kind: 'Attribute';
+  object: Expression;
+  attr: string;
+}
+
+export interface Subscript extends BaseNode {
+  kind: 'Subscript';
+  object: Expression;
+  index: Expression;
+}
+
+export interface Keyword extends BaseNode {
+  kind: 'Keyword';
+  name: string;
+  value: Expression;
+}
+
+export interface Call extends BaseNode {
+  kind: 'Call';
+  callee: Expression;
+  args: Expression[];
+  keywords: Keyword[];
+}
+
+export type BinaryOperator = AugmentedOperator;
+
+export interface BinaryOp extends BaseNode {
+  kind: 'BinaryOp';
+  op: BinaryOperator;
+  left: Expression;
+  right: Expression;
+}
+
+export interface BoolOp extends BaseNode {
+  kind: 'BoolOp';
+  op: 'and' | 'or';
+  left: Expression;
+  right: Expression;
+}
+
+export type CompareOperator =
+  | '=='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | 'in'
+  | 'not in'
+  | 'is'
+  | 'is not';
+
+export interface Compare extends BaseNode {
+  kind: 'Compare';
+  op: CompareOperator;
+  left: Expression;
+  right: Expression;
+}
+
+export interface UnaryOp extends BaseNode {
+  kind: 'UnaryOp';
+  op: '-' | '+' | '~' | 'not';
+  operand: Expression;
+}
+
+/** `body if test else orelse` */
+export interface IfExp extends BaseNode {
+  kind: 'IfExp';
+  test: Expression;
+  body: Expression;
+  orelse: Expression;
+}
+
+export interface ListExpr extends BaseNode {
+  kind: 'ListExpr';
+  elements: Expression[];
+}
+
+export interface TupleExpr extends BaseNode {
+  kind: 'TupleExpr';
+  elements: Expression[];
+}
+
+export interface DictEntry {
+  key: Expression;
+  value: Expression;
+}
+
+export interface DictExpr extends BaseNode {
+  kind: 'DictExpr';
+  entries: DictEntry[];
+}
+
+export type Node =
+  | Module
+  | ContractDef
+  | ContractMember
+  | ImportFrom
+  | ImportAlias
+  | Decorator
+  | Parameter
+  | FieldDecl
+  | EnumMember
+  | InterfaceFunction
+  | Statement
+  | Expression
+  | Keyword;
@@ -0,0 +1,37 @@
+// Parse error type for the ArbitPy Python dialect
+import { CompilationError } from '../types';
+
+export class ParseError extends Error {
+  public readonly reason: string;
+  public readonly line: number;
+  public readonly column: number;
+  public readonly endLine?: number;
+  public readonly endColumn?: number;
+
+  constructor(
+    reason: string,
+    line: number,
+    column: number,
+    endLine?: number,
+    endColumn?: number
+  ) {
+    super(`${reason} (line ${line}, column ${column})`);
+    this.name = 'ParseError';
+    this.reason = reason;
+    this.line = line;
+    this.column = column;
+    this.endLine = endLine;
+    this.endColumn = endColumn;
+  }
+
+  toCompilationError(): CompilationError {
+    return {
+      message: this.reason,
+      line: this.line,
+      column: this.column,
+      endLine: this.endLine,
+      endColumn: this.endColumn,
+      severity: 'error',
+    };
+  }
+}
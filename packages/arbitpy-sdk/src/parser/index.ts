@@ -0,0 +1,8 @@
+// ArbitPy Parser
+export { parseModule, parseModule as parse } from './parser';
+export { tokenize } from './lexer';
+export type { Token, TokenKind } from './lexer';
+export { ParseError } from './errors';
+export { walk, children } from './walker';
+export type { Visitor, NodeVisitors } from './walker';
+export * as ast from './ast';
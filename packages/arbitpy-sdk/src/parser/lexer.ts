@@ -0,0 +1,315 @@
+// Tokenizer for the ArbitPy Python dialect
+import { ParseError } from './errors';
+
+export type TokenKind =
+  | 'name'
+  | 'number'
+  | 'string'
+  | 'op'
+  | 'newline'
+  | 'indent'
+  | 'dedent'
+  | 'eof';
+
+export interface Token {
+  kind: TokenKind;
+  value: string;
+  line: number;
+  column: number;
+  /** Line of the character just past the token */
+  endLine: number;
+  /** Column just past the token; layout tokens are zero-width */
+  endColumn: number;
+  /** Lowercased string prefix, e.g. `b` for `b"..."` */
+  prefix?: string;
+}
+
+const TAB_WIDTH = 4;
+
+// Longest operators first so that e.g. `//=` wins over `//` and `/`
+const OPERATORS = [
+  '**=',
+  '//=',
+  '<<=',
+  '>>=',
+  '->',
+  '**',
+  '//',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '<<',
+  '>>',
+  '+=',
+  '-=',
+  '*=',
+  '/=',
+  '%=',
+  '&=',
+  '|=',
+  '^=',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '<',
+  '>',
+  '=',
+  '(',
+  ')',
+  '[',
+  ']',
+  '{',
+  '}',
+  ',',
+  ':',
+  '.',
+  '@',
+  '&',
+  '|',
+  '^',
+  '~',
+];
+
+const OPENING = new Set(['(', '[', '{']);
+const CLOSING = new Set([')', ']', '}']);
+
+/**
+ * Split source code into tokens, emitting Python-style
+ * NEWLINE/INDENT/DEDENT tokens for block structure.
+ */
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const indents: number[] = [0];
+  const text = source.replace(/\r\n?/g, '\n');
+
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+  let depth = 0;
+  let atLineStart = true;
+
+  const column = () => pos - lineStart + 1;
+  const push = (
+    kind: TokenKind,
+    value: string,
+    l: number,
+    c: number,
+    endLine = l,
+    endColumn = c
+  ) => tokens.push({ kind, value, line: l, column: c, endLine, endColumn });
+
+  while (pos < text.length) {
+    if (atLineStart && depth === 0) {
+      // Measure indentation of the logical line
+      let width = 0;
+      let scan = pos;
+      while (
+        scan < text.length &&
+        (text[scan] === ' ' || text[scan] === '\t')
+      ) {
+        width += text[scan] === '\t' ? TAB_WIDTH : 1;
+        scan++;
+      }
+
+      const next = text[scan];
+      if (next === '\n' || next === '#' || next === undefined) {
+        // Blank or comment-only line: no effect on indentation
+        pos = scan;
+        while (pos < text.length && text[pos] !== '\n') pos++;
+        if (pos < text.length) {
+          pos++;
+          line++;
+          lineStart = pos;
+        }
+        continue;
+      }
+
+      pos = scan;
+      atLineStart = false;
+      const current = indents[indents.length - 1];
+      if (width > current) {
+        indents.push(width);
+        push('indent', '', line, 1);
+      } else if (width < current) {
+        while (width < indents[indents.length - 1]) {
+          indents.pop();
+          push('dedent', '', line, column());
+        }
+        if (width !== indents[indents.length - 1]) {
+          throw new ParseError(
+            'Unindent does not match any outer indentation level',
+            line,
+            column()
+          );
+        }
+      }
+      continue;
+    }
+
+    const ch = text[pos];
+
+    if (ch === '\n') {
+      if (depth === 0 && !atLineStart) {
+        push('newline', '', line, column());
+      }
+      pos++;
+      line++;
+      lineStart = pos;
+      // Newlines inside brackets are implicit line joins
+      atLineStart = depth === 0;
+      continue;
+    }
+
+    if (ch === ' ' || ch === '\t') {
+      pos++;
+      continue;
+    }
+
+    if (ch === '#') {
+      while (pos < text.length && text[pos] !== '\n') pos++;
+      continue;
+    }
+
+    if (ch === '\\' && text[pos + 1] === '\n') {
+      // Explicit line continuation
+      pos += 2;
+      line++;
+      lineStart = pos;
+      continue;
+    }
+
+    const startLine = line;
+    const startColumn = column();
+
+    const prefix = /^(?:[bB][rR]?|[rR][bB]?)(?=["'])/
+      .exec(text.slice(pos, pos + 3))?.[0]
+      .toLowerCase();
+
+    if (/[A-Za-z_]/.test(ch) && !prefix) {
+      let end = pos + 1;
+      while (end < text.length && /[A-Za-z0-9_]/.test(text[end])) end++;
+      push(
+        'name',
+        text.slice(pos, end),
+        startLine,
+        startColumn,
+        startLine,
+        startColumn + end - pos
+      );
+      pos = end;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(text[pos + 1] ?? ''))) {
+      const match =
+        /^(0[xX][0-9a-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|[0-9][0-9_]*(\.[0-9_]*)?([eE][+-]?[0-9]+)?|\.[0-9_]+)/.exec(
+          text.slice(pos)
+        );
+      const raw = match![0];
+      push(
+        'number',
+        raw,
+        startLine,
+        startColumn,
+        startLine,
+        startColumn + raw.length
+      );
+      pos += raw.length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'" || prefix) {
+      const raw = prefix?.includes('r') ?? false;
+      const start = pos + (prefix?.length ?? 0);
+      const q = text[start];
+      const triple = text.startsWith(q.repeat(3), start);
+      const quote = triple ? q.repeat(3) : q;
+      let end = start + quote.length;
+      let value = '';
+      for (;;) {
+        if (end >= text.length) {
+          throw new ParseError(
+            'Unterminated string literal',
+            startLine,
+            startColumn
+          );
+        }
+        if (text.startsWith(quote, end)) break;
+        const c = text[end];
+        if (c === '\n') {
+          if (!triple) {
+            throw new ParseError(
+              'Unterminated string literal',
+              startLine,
+              startColumn
+            );
+          }
+          line++;
+          lineStart = end + 1;
+        }
+        if (c === '\\' && end + 1 < text.length) {
+          value += raw ? text.slice(end, end + 2) : unescape(text[end + 1]);
+          end += 2;
+          continue;
+        }
+        value += c;
+        end++;
+      }
+      pos = end + quote.length;
+      push('string', value, startLine, startColumn, line, column());
+      if (prefix) tokens[tokens.length - 1].prefix = prefix;
+      continue;
+    }
+
+    const op = OPERATORS.find((candidate) => text.startsWith(candidate, pos));
+    if (op) {
+      if (OPENING.has(op)) depth++;
+      if (CLOSING.has(op)) depth = Math.max(0, depth - 1);
+      push(
+        'op',
+        op,
+        startLine,
+        startColumn,
+        startLine,
+        startColumn + op.length
+      );
+      pos += op.length;
+      continue;
+    }
+
+    throw new ParseError(
+      `Unexpected character '${ch}'`,
+      startLine,
+      startColumn
+    );
+  }
+
+  if (!atLineStart) {
+    push('newline', '', line, column());
+  }
+  while (indents.length > 1) {
+    indents.pop();
+    push('dedent', '', line, column());
+  }
+  push('eof', '', line, column());
+
+  return tokens;
+}
+
+function unescape(ch: string): string {
+  switch (ch) {
+    case 'n':
+      return '\n';
+    case 't':
+      return '\t';
+    case 'r':
+      return '\r';
+    case '0':
+      return '\0';
+    default:
+      return ch;
+  }
+}
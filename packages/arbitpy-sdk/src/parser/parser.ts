@@ -0,0 +1,1232 @@
+// Recursive descent parser for the ArbitPy Python dialect
+import { tokenize, Token } from './lexer';
+import { ParseError } from './errors';
+import * as ast from './ast';
+
+const AUGMENTED_OPERATORS = new Set([
+  '+=',
+  '-=',
+  '*=',
+  '/=',
+  '//=',
+  '%=',
+  '**=',
+  '&=',
+  '|=',
+  '^=',
+  '<<=',
+  '>>=',
+]);
+
+type ParseErrorLocation = Pick<ast.Span, 'line' | 'column'> & Partial<ast.Span>;
+
+const LAYOUT_TOKENS = new Set<Token['kind']>([
+  'newline',
+  'indent',
+  'dedent',
+  'eof',
+]);
+
+const COMPARE_OPERATORS = new Set(['==', '!=', '<', '<=', '>', '>=']);
+
+const INTERFACE_MUTABILITIES = new Set([
+  'pure',
+  'view',
+  'nonpayable',
+  'payable',
+]);
+
+/**
+ * Parse ArbitPy source code into a Module AST.
+ * Throws a ParseError carrying the line/column of the offending token.
+ */
+export function parseModule(source: string): ast.Module {
+  return new Parser(tokenize(source)).parseModule();
+}
+
+class Parser {
+  private pos = 0;
+  /** Last consumed token that is not NEWLINE/INDENT/DEDENT/EOF */
+  private last: Token;
+
+  constructor(private readonly tokens: Token[]) {
+    this.last = tokens[0];
+  }
+
+  parseModule(): ast.Module {
+    const first = this.peek();
+    const module: ast.Module = {
+      kind: 'Module',
+      ...this.span(first),
+      body: [],
+    };
+
+    module.docstring = this.parseDocstring();
+
+    while (!this.check('eof')) {
+      if (this.match('newline')) continue;
+      if (this.checkName('from') || this.checkName('import')) {
+        module.body.push(this.parseImport());
+        continue;
+      }
+      const decorators = this.parseDecorators();
+      if (this.checkName('class')) {
+        module.body.push(this.parseContract(decorators));
+      } else {
+        module.body.push(this.parseMember(decorators));
+      }
+    }
+
+    return this.finish(module);
+  }
+
+  // -------------------------------------------------------------------------
+  // Declarations
+  // -------------------------------------------------------------------------
+
+  private parseContract(decorators: ast.Decorator[]): ast.ContractDef {
+    const start = decorators[0] ?? this.peek();
+    this.expectName('class');
+    const name = this.expect('name').value;
+    if (this.matchOp('(')) {
+      // Base classes carry no meaning in the dialect
+      while (!this.checkOp(')')) this.advance();
+      this.expectOp(')');
+    }
+    this.expectOp(':');
+    this.expect('newline');
+    this.expect('indent');
+
+    const contract: ast.ContractDef = {
+      kind: 'ContractDef',
+      name,
+      decorators,
+      ...this.span(start),
+      body: [],
+    };
+    contract.docstring = this.parseDocstring();
+
+    while (!this.match('dedent')) {
+      if (this.match('newline')) continue;
+      if (this.check('string')) {
+        // Stray string statements inside a class body are comments
+        this.advance();
+        this.expect('newline');
+        continue;
+      }
+      if (this.checkName('pass')) {
+        this.advance();
+        this.expect('newline');
+        continue;
+      }
+      contract.body.push(this.parseMember(this.parseDecorators()));
+    }
+
+    return this.finish(contract);
+  }
+
+  private parseImport(): ast.ImportFrom {
+    const keyword = this.peek();
+    if (!this.matchName('from')) {
+      throw this.error(
+        "Only 'from module import Name' imports are supported",
+        keyword
+      );
+    }
+
+    let level = 0;
+    while (this.matchOp('.')) level++;
+    const path: string[] = [];
+    if (level === 0 || !this.checkName('import')) {
+      path.push(this.expect('name').value);
+      while (this.matchOp('.')) path.push(this.expect('name').value);
+    }
+    this.expectName('import');
+
+    if (this.checkOp('*')) {
+      throw this.error('Wildcard imports are not supported', this.peek());
+    }
+    const parenthesized = this.matchOp('(');
+    const names: ast.ImportAlias[] = [];
+    do {
+      if (parenthesized && this.checkOp(')')) break;
+      const nameToken = this.expect('name');
+      const alias: ast.ImportAlias = {
+        kind: 'ImportAlias',
+        name: nameToken.value,
+        ...this.span(nameToken),
+      };
+      if (this.matchName('as')) {
+        alias.asName = this.expect('name').value;
+      }
+      names.push(this.finish(alias));
+    } while (this.matchOp(','));
+    if (parenthesized) this.expectOp(')');
+
+    const node: ast.ImportFrom = {
+      kind: 'ImportFrom',
+      module: path.join('.'),
+      level,
+      names,
+      ...this.span(keyword),
+    };
+    this.expect('newline');
+    return node;
+  }
+
+  private parseMember(decorators: ast.Decorator[]): ast.ContractMember {
+    const token = this.peek();
+
+    if (this.checkName('def')) return this.parseFunction(decorators);
+
+    if (decorators.length > 0) {
+      throw this.error(
+        'Decorators are only allowed on functions and classes',
+        token
+      );
+    }
+
+    if (
+      token.kind === 'name' &&
+      this.peek(1).kind === 'name' &&
+      this.peekOp(2, ':')
+    ) {
+      switch (token.value) {
+        case 'struct':
+          return this.parseStruct();
+        case 'event':
+          return this.parseEvent();
+        case 'error':
+          return this.parseError();
+        case 'enum':
+        case 'flag':
+          return this.parseEnum();
+        case 'interface':
+          return this.parseInterface();
+      }
+    }
+
+    if (token.kind === 'name' && this.peekOp(1, ':')) {
+      return this.parseStateVariable();
+    }
+
+    throw this.error(`Unexpected ${describe(token)} at contract level`, token);
+  }
+
+  private parseDecorators(): ast.Decorator[] {
+    const decorators: ast.Decorator[] = [];
+    while (this.checkOp('@')) {
+      const at = this.advance();
+      const name = this.expect('name').value;
+      let args: ast.Expression[] = [];
+      if (this.checkOp('(')) {
+        args = this.parseCallArguments().args;
+      }
+      this.expect('newline');
+      decorators.push({
+        kind: 'Decorator',
+        name,
+        args,
+        ...this.span(at),
+      });
+    }
+    return decorators;
+  }
+
+  private parseStateVariable(): ast.StateVariableDecl {
+    const nameToken = this.expect('name');
+    this.expectOp(':');
+    const annotation = this.parseExpression();
+    let value: ast.Expression | undefined;
+    if (this.matchOp('=')) {
+      value = this.parseExpression();
+    }
+    this.expect('newline');
+    return {
+      kind: 'StateVariableDecl',
+      name: nameToken.value,
+      annotation,
+      value,
+      ...this.span(nameToken),
+    };
+  }
+
+  private parseFunction(decorators: ast.Decorator[]): ast.FunctionDef {
+    const def = this.expectName('def');
+    const start = decorators[0] ?? def;
+    const name = this.expect('name').value;
+    const params = this.parseParameters();
+    let returns: ast.Expression | undefined;
+    if (this.matchOp('->')) {
+      returns = this.parseExpression();
+    }
+    this.expectOp(':');
+
+    const fn: ast.FunctionDef = {
+      kind: 'FunctionDef',
+      name,
+      decorators,
+      params,
+      returns,
+      ...this.span(start),
+      body: [],
+    };
+
+    this.expect('newline');
+    this.expect('indent');
+    fn.docstring = this.parseDocstring();
+    fn.body = this.parseStatementsUntilDedent();
+    return this.finish(fn);
+  }
+
+  private parseParameters(): ast.Parameter[] {
+    this.expectOp('(');
+    const params: ast.Parameter[] = [];
+    while (!this.checkOp(')')) {
+      const nameToken = this.expect('name');
+      const param: ast.Parameter = {
+        kind: 'Parameter',
+        name: nameToken.value,
+        ...this.span(nameToken),
+      };
+      if (this.matchOp(':')) {
+        param.annotation = this.parseExpression();
+      }
+      if (this.matchOp('=')) {
+        param.default = this.parseExpression();
+      }
+      params.push(this.finish(param));
+      if (!this.matchOp(',')) break;
+    }
+    this.expectOp(')');
+    return params;
+  }
+
+  private parseStruct(): ast.StructDef {
+    const keyword = this.advance();
+    const name = this.expect('name').value;
+    this.expectOp(':');
+    return {
+      kind: 'StructDef',
+      name,
+      fields: this.parseFieldBlock(),
+      ...this.span(keyword),
+    };
+  }
+
+  private parseEvent(): ast.EventDef {
+    const keyword = this.advance();
+    const name = this.expect('name').value;
+    this.expectOp(':');
+    return {
+      kind: 'EventDef',
+      name,
+      fields: this.parseFieldBlock(),
+      ...this.span(keyword),
+    };
+  }
+
+  private parseError(): ast.ErrorDef {
+    const keyword = this.advance();
+    const name = this.expect('name').value;
+    this.expectOp(':');
+    return {
+      kind: 'ErrorDef',
+      name,
+      fields: this.parseFieldBlock(),
+      ...this.span(keyword),
+    };
+  }
+
+  private parseFieldBlock(): ast.FieldDecl[] {
+    const fields: ast.FieldDecl[] = [];
+    if (this.matchName('pass')) {
+      this.expect('newline');
+      return fields;
+    }
+    this.expect('newline');
+    this.expect('indent');
+    while (!this.match('dedent')) {
+      if (this.match('newline')) continue;
+      if (this.check('string') || this.checkName('pass')) {
+        this.advance();
+        this.expect('newline');
+        continue;
+      }
+      const nameToken = this.expect('name');
+      this.expectOp(':');
+      fields.push({
+        kind: 'FieldDecl',
+        name: nameToken.value,
+        annotation: this.parseExpression(),
+        ...this.span(nameToken),
+      });
+      this.expect('newline');
+    }
+    return fields;
+  }
+
+  private parseEnum(): ast.EnumDef {
+    const keyword = this.advance();
+    const name = this.expect('name').value;
+    this.expectOp(':');
+    this.expect('newline');
+    this.expect('indent');
+    const members: ast.EnumMember[] = [];
+    while (!this.match('dedent')) {
+      if (this.match('newline')) continue;
+      const member = this.expect('name');
+      members.push({
+        kind: 'EnumMember',
+        name: member.value,
+        ...this.span(member),
+      });
+      this.expect('newline');
+    }
+    return {
+      kind: 'EnumDef',
+      name,
+      members,
+      ...this.span(keyword),
+    };
+  }
+
+  private parseInterface(): ast.InterfaceDef {
+    const keyword = this.advance();
+    const name = this.expect('name').value;
+    this.expectOp(':');
+    this.expect('newline');
+    this.expect('indent');
+    const functions: ast.InterfaceFunction[] = [];
+    while (!this.match('dedent')) {
+      if (this.match('newline')) continue;
+      const def = this.expectName('def');
+      const fnName = this.expect('name').value;
+      const params = this.parseParameters();
+      let returns: ast.Expression | undefined;
+      if (this.matchOp('->')) {
+        returns = this.parseExpression();
+      }
+      this.expectOp(':');
+      const mutabilityToken = this.expect('name');
+      if (!INTERFACE_MUTABILITIES.has(mutabilityToken.value)) {
+        throw this.error(
+          `Expected interface function mutability, got '${mutabilityToken.value}'`,
+          mutabilityToken
+        );
+      }
+      this.expect('newline');
+      functions.push({
+        kind: 'InterfaceFunction',
+        name: fnName,
+        params,
+        returns,
+        mutability:
+          mutabilityToken.value as ast.InterfaceFunction['mutability'],
+        ...this.span(def),
+      });
+    }
+    return {
+      kind: 'InterfaceDef',
+      name,
+      functions,
+      ...this.span(keyword),
+    };
+  }
+
+  private parseDocstring(): string | undefined {
+    if (this.check('string') && this.peek(1).kind === 'newline') {
+      const doc = this.advance().value;
+      this.advance();
+      return doc.trim();
+    }
+    return undefined;
+  }
+
+  // -------------------------------------------------------------------------
+  // Statements
+  // -------------------------------------------------------------------------
+
+  private parseBlock(): ast.Statement[] {
+    this.expectOp(':');
+    if (!this.check('newline')) {
+      // Single-line suite: `if x: return`
+      return [this.parseSimpleStatement()];
+    }
+    this.expect('newline');
+    this.expect('indent');
+    return this.parseStatementsUntilDedent();
+  }
+
+  private parseStatementsUntilDedent(): ast.Statement[] {
+    const body: ast.Statement[] = [];
+    while (!this.match('dedent')) {
+      if (this.match('newline')) continue;
+      if (this.check('eof')) break;
+      body.push(this.parseStatement());
+    }
+    return body;
+  }
+
+  private parseStatement(): ast.Statement {
+    const token = this.peek();
+    if (token.kind === 'name') {
+      switch (token.value) {
+        case 'if':
+          return this.parseIf();
+        case 'for':
+          return this.parseFor();
+        case 'while':
+          return this.parseWhile();
+        case 'def':
+        case 'class':
+          throw this.error(`Nested '${token.value}' is not supported`, token);
+      }
+    }
+    return this.parseSimpleStatement();
+  }
+
+  private parseSimpleStatement(): ast.Statement {
+    const statement = this.parseSmallStatement();
+    if (!this.check('eof')) {
+      this.expect('newline');
+    }
+    return statement;
+  }
+
+  private parseSmallStatement(): ast.Statement {
+    const token = this.peek();
+
+    if (token.kind === 'name') {
+      switch (token.value) {
+        case 'pass':
+          this.advance();
+          return { kind: 'Pass', ...this.span(token) };
+        case 'break':
+          this.advance();
+          return { kind: 'Break', ...this.span(token) };
+        case 'continue':
+          this.advance();
+          return { kind: 'Continue', ...this.span(token) };
+        case 'return': {
+          this.advance();
+          if (this.check('newline') || this.check('eof')) {
+            return { kind: 'Return', ...this.span(token) };
+          }
+          return {
+            kind: 'Return',
+            value: this.parseExpressionList(),
+            ...this.span(token),
+          };
+        }
+        case 'assert': {
+          this.advance();
+          const test = this.parseExpression();
+          const message = this.matchOp(',')
+            ? this.parseExpression()
+            : undefined;
+          return { kind: 'Assert', test, message, ...this.span(token) };
+        }
+        case 'raise': {
+          this.advance();
+          if (this.check('newline') || this.check('eof')) {
+            return { kind: 'Raise', ...this.span(token) };
+          }
+          return {
+            kind: 'Raise',
+            exception: this.parseExpression(),
+            ...this.span(token),
+          };
+        }
+        case 'emit':
+        case 'log':
+          if (this.peek(1).kind === 'name') {
+            return this.parseEmit();
+          }
+          break;
+      }
+    }
+
+    if (token.kind === 'name' && this.peekOp(1, ':')) {
+      const target = this.parseAtom() as ast.Name;
+      this.expectOp(':');
+      const annotation = this.parseExpression();
+      const value = this.matchOp('=') ? this.parseExpression() : undefined;
+      return {
+        kind: 'AnnAssign',
+        target,
+        annotation,
+        value,
+        ...this.span(token),
+      };
+    }
+
+    const expression = this.parseExpressionList();
+
+    if (this.matchOp('=')) {
+      assertAssignable(expression, this);
+      return {
+        kind: 'Assign',
+        target: expression,
+        value: this.parseExpressionList(),
+        ...this.span(token),
+      };
+    }
+
+    const next = this.peek();
+    if (next.kind === 'op' && AUGMENTED_OPERATORS.has(next.value)) {
+      this.advance();
+      assertAssignable(expression, this);
+      return {
+        kind: 'AugAssign',
+        target: expression,
+        op: next.value.slice(0, -1) as ast.AugmentedOperator,
+        value: this.parseExpression(),
+        ...this.span(token),
+      };
+    }
+
+    return { kind: 'ExpressionStatement', expression, ...this.span(token) };
+  }
+
+  private parseEmit(): ast.Emit {
+    const keyword = this.advance();
+    const event = this.expect('name').value;
+    const { args, keywords } = this.parseCallArguments();
+    return {
+      kind: 'Emit',
+      event,
+      args,
+      keywords,
+      ...this.span(keyword),
+    };
+  }
+
+  private parseIf(): ast.If {
+    const keyword = this.advance();
+    const test = this.parseExpression();
+    const body = this.parseBlock();
+    let orelse: ast.Statement[] = [];
+    if (this.checkName('elif')) {
+      orelse = [this.parseIf()];
+    } else if (this.matchName('else')) {
+      orelse = this.parseBlock();
+    }
+    return {
+      kind: 'If',
+      test,
+      body,
+      orelse,
+      ...this.span(keyword),
+    };
+  }
+
+  private parseFor(): ast.For {
+    const keyword = this.advance();
+    const targetToken = this.expect('name');
+    const target: ast.Name = {
+      kind: 'Name',
+      id: targetToken.value,
+      ...this.span(targetToken),
+    };
+    const annotation = this.matchOp(':') ? this.parsePostfix() : undefined;
+    this.expectName('in');
+    const iter = this.parseExpression();
+    return {
+      kind: 'For',
+      target,
+      annotation,
+      iter,
+      body: this.parseBlock(),
+      ...this.span(keyword),
+    };
+  }
+
+  private parseWhile(): ast.While {
+    const keyword = this.advance();
+    const test = this.parseExpression();
+    return {
+      kind: 'While',
+      test,
+      body: this.parseBlock(),
+      ...this.span(keyword),
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Expressions
+  // -------------------------------------------------------------------------
+
+  /** Comma separated expressions form an implicit tuple (`return a, b`) */
+  private parseExpressionList(): ast.Expression {
+    const first = this.parseExpression();
+    if (!this.checkOp(',')) return first;
+    const elements = [first];
+    while (this.matchOp(',')) {
+      if (this.check('newline') || this.checkOp('=')) break;
+      elements.push(this.parseExpression());
+    }
+    return {
+      kind: 'TupleExpr',
+      elements,
+      ...this.span(first),
+    };
+  }
+
+  parseExpression(): ast.Expression {
+    const body = this.parseOr();
+    if (this.checkName('if')) {
+      this.advance();
+      const test = this.parseOr();
+      this.expectName('else');
+      const orelse = this.parseExpression();
+      return {
+        kind: 'IfExp',
+        test,
+        body,
+        orelse,
+        ...this.span(body),
+      };
+    }
+    return body;
+  }
+
+  private parseOr(): ast.Expression {
+    let left = this.parseAnd();
+    while (this.matchName('or')) {
+      const right = this.parseAnd();
+      left = {
+        kind: 'BoolOp',
+        op: 'or',
+        left,
+        right,
+        ...this.span(left),
+      };
+    }
+    return left;
+  }
+
+  private parseAnd(): ast.Expression {
+    let left = this.parseNot();
+    while (this.matchName('and')) {
+      const right = this.parseNot();
+      left = {
+        kind: 'BoolOp',
+        op: 'and',
+        left,
+        right,
+        ...this.span(left),
+      };
+    }
+    return left;
+  }
+
+  private parseNot(): ast.Expression {
+    if (this.checkName('not')) {
+      const token = this.advance();
+      return {
+        kind: 'UnaryOp',
+        op: 'not',
+        operand: this.parseNot(),
+        ...this.span(token),
+      };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ast.Expression {
+    const left = this.parseBitOr();
+    const op = this.parseCompareOperator();
+    if (!op) return left;
+
+    // Chained comparisons (a < b < c) become a conjunction
+    let right = this.parseBitOr();
+    let result: ast.Expression = {
+      kind: 'Compare',
+      op,
+      left,
+      right,
+      ...this.span(left),
+    };
+    let nextOp = this.parseCompareOperator();
+    while (nextOp) {
+      const nextRight = this.parseBitOr();
+      result = {
+        kind: 'BoolOp',
+        op: 'and',
+        left: result,
+        right: {
+          kind: 'Compare',
+          op: nextOp,
+          left: right,
+          right: nextRight,
+          ...this.span(right),
+        },
+        ...this.span(left),
+      };
+      right = nextRight;
+      nextOp = this.parseCompareOperator();
+    }
+    return result;
+  }
+
+  private parseCompareOperator(): ast.CompareOperator | undefined {
+    const token = this.peek();
+    if (token.kind === 'op' && COMPARE_OPERATORS.has(token.value)) {
+      this.advance();
+      return token.value as ast.CompareOperator;
+    }
+    if (this.checkName('in')) {
+      this.advance();
+      return 'in';
+    }
+    if (
+      this.checkName('not') &&
+      this.peek(1).kind === 'name' &&
+      this.peek(1).value === 'in'
+    ) {
+      this.advance();
+      this.advance();
+      return 'not in';
+    }
+    if (this.checkName('is')) {
+      this.advance();
+      return this.matchName('not') ? 'is not' : 'is';
+    }
+    return undefined;
+  }
+
+  private parseBinary(
+    operators: string[],
+    next: () => ast.Expression
+  ): ast.Expression {
+    let left = next();
+    for (;;) {
+      const token = this.peek();
+      if (token.kind !== 'op' || !operators.includes(token.value)) return left;
+      this.advance();
+      const right = next();
+      left = {
+        kind: 'BinaryOp',
+        op: token.value as ast.BinaryOperator,
+        left,
+        right,
+        ...this.span(left),
+      };
+    }
+  }
+
+  private parseBitOr(): ast.Expression {
+    return this.parseBinary(['|'], () => this.parseBitXor());
+  }
+
+  private parseBitXor(): ast.Expression {
+    return this.parseBinary(['^'], () => this.parseBitAnd());
+  }
+
+  private parseBitAnd(): ast.Expression {
+    return this.parseBinary(['&'], () => this.parseShift());
+  }
+
+  private parseShift(): ast.Expression {
+    return this.parseBinary(['<<', '>>'], () => this.parseArith());
+  }
+
+  private parseArith(): ast.Expression {
+    return this.parseBinary(['+', '-'], () => this.parseTerm());
+  }
+
+  private parseTerm(): ast.Expression {
+    return this.parseBinary(['*', '/', '//', '%'], () => this.parseFactor());
+  }
+
+  private parseFactor(): ast.Expression {
+    const token = this.peek();
+    if (
+      token.kind === 'op' &&
+      (token.value === '-' || token.value === '+' || token.value === '~')
+    ) {
+      this.advance();
+      return {
+        kind: 'UnaryOp',
+        op: token.value,
+        operand: this.parseFactor(),
+        ...this.span(token),
+      };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ast.Expression {
+    const base = this.parsePostfix();
+    if (this.matchOp('**')) {
+      // Right associative, binds tighter than unary minus on its left only
+      const exponent = this.parseFactor();
+      return {
+        kind: 'BinaryOp',
+        op: '**',
+        left: base,
+        right: exponent,
+        ...this.span(base),
+      };
+    }
+    return base;
+  }
+
+  private parsePostfix(): ast.Expression {
+    let expression = this.parseAtom();
+    for (;;) {
+      if (this.checkOp('(')) {
+        const { args, keywords } = this.parseCallArguments();
+        expression = {
+          kind: 'Call',
+          callee: expression,
+          args,
+          keywords,
+          ...this.span(expression),
+        };
+      } else if (this.matchOp('[')) {
+        const index = this.parseExpressionList();
+        this.expectOp(']');
+        expression = {
+          kind: 'Subscript',
+          object: expression,
+          index,
+          ...this.span(expression),
+        };
+      } else if (this.matchOp('.')) {
+        const attr = this.expect('name').value;
+        expression = {
+          kind: 'Attribute',
+          object: expression,
+          attr,
+          ...this.span(expression),
+        };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parseCallArguments(): {
+    args: ast.Expression[];
+    keywords: ast.Keyword[];
+  } {
+    this.expectOp('(');
+    const args: ast.Expression[] = [];
+    const keywords: ast.Keyword[] = [];
+    while (!this.checkOp(')')) {
+      const token = this.peek();
+      if (token.kind === 'name' && this.peekOp(1, '=')) {
+        this.advance();
+        this.advance();
+        keywords.push({
+          kind: 'Keyword',
+          name: token.value,
+          value: this.parseExpression(),
+          ...this.span(token),
+        });
+      } else {
+        if (keywords.length > 0) {
+          throw this.error(
+            'Positional argument follows keyword argument',
+            token
+          );
+        }
+        args.push(this.parseExpression());
+      }
+      if (!this.matchOp(',')) break;
+    }
+    this.expectOp(')');
+    return { args, keywords };
+  }
+
+  private parseAtom(): ast.Expression {
+    const token = this.peek();
+
+    switch (token.kind) {
+      case 'name': {
+        this.advance();
+        switch (token.value) {
+          case 'True':
+            return { kind: 'BooleanLiteral', value: true, ...this.span(token) };
+          case 'False':
+            return {
+              kind: 'BooleanLiteral',
+              value: false,
+              ...this.span(token),
+            };
+          case 'None':
+            return { kind: 'NoneLiteral', ...this.span(token) };
+        }
+        if (RESERVED.has(token.value)) {
+          throw this.error(`Unexpected keyword '${token.value}'`, token);
+        }
+        return { kind: 'Name', id: token.value, ...this.span(token) };
+      }
+
+      case 'number': {
+        this.advance();
+        return parseNumber(token);
+      }
+
+      case 'string': {
+        this.advance();
+        let value = token.value;
+        // Adjacent string literals are concatenated
+        while (this.check('string')) value += this.advance().value;
+        const literal: ast.StringLiteral = {
+          kind: 'StringLiteral',
+          value,
+          ...this.span(token),
+        };
+        if (token.prefix?.includes('b')) literal.isBytes = true;
+        return literal;
+      }
+
+      case 'op':
+        if (token.value === '(') {
+          this.advance();
+          if (this.matchOp(')')) {
+            return { kind: 'TupleExpr', elements: [], ...this.span(token) };
+          }
+          const inner = this.parseExpressionList();
+          this.expectOp(')');
+          return inner.kind === 'TupleExpr'
+            ? { ...inner, ...this.span(token) }
+            : inner;
+        }
+        if (token.value === '[') {
+          this.advance();
+          const elements: ast.Expression[] = [];
+          while (!this.checkOp(']')) {
+            elements.push(this.parseExpression());
+            if (!this.matchOp(',')) break;
+          }
+          this.expectOp(']');
+          return { kind: 'ListExpr', elements, ...this.span(token) };
+        }
+        if (token.value === '{') {
+          this.advance();
+          const entries: ast.DictEntry[] = [];
+          while (!this.checkOp('}')) {
+            const key = this.parseExpression();
+            this.expectOp(':');
+            entries.push({ key, value: this.parseExpression() });
+            if (!this.matchOp(',')) break;
+          }
+          this.expectOp('}');
+          return { kind: 'DictExpr', entries, ...this.span(token) };
+        }
+        break;
+    }
+
+    throw this.error(`Unexpected ${describe(token)}`, token);
+  }
+
+  // -------------------------------------------------------------------------
+  // Token helpers
+  // -------------------------------------------------------------------------
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.pos];
+    if (this.pos < this.tokens.length - 1) this.pos++;
+    if (!LAYOUT_TOKENS.has(token.kind)) this.last = token;
+    return token;
+  }
+
+  /** Span from `start` to the end of the last consumed token */
+  private span(start: { line: number; column: number }): ast.Span {
+    return {
+      line: start.line,
+      column: start.column,
+      endLine: this.last.endLine,
+      endColumn: this.last.endColumn,
+    };
+  }
+
+  /** Extend a node built before its body was parsed to the last token */
+  private finish<T extends ast.Span>(node: T): T {
+    node.endLine = this.last.endLine;
+    node.endColumn = this.last.endColumn;
+    return node;
+  }
+
+  private check(kind: Token['kind']): boolean {
+    return this.peek().kind === kind;
+  }
+
+  private checkOp(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'op' && token.value === value;
+  }
+
+  private peekOp(offset: number, value: string): boolean {
+    const token = this.peek(offset);
+    return token.kind === 'op' && token.value === value;
+  }
+
+  private checkName(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'name' && token.value === value;
+  }
+
+  private match(kind: Token['kind']): boolean {
+    if (!this.check(kind)) return false;
+    this.advance();
+    return true;
+  }
+
+  private matchOp(value: string): boolean {
+    if (!this.checkOp(value)) return false;
+    this.advance();
+    return true;
+  }
+
+  private matchName(value: string): boolean {
+    if (!this.checkName(value)) return false;
+    this.advance();
+    return true;
+  }
+
+  private expect(kind: Token['kind']): Token {
+    const token = this.peek();
+    if (token.kind !== kind) {
+      throw this.error(`Expected ${kind}, got ${describe(token)}`, token);
+    }
+    return this.advance();
+  }
+
+  private expectOp(value: string): Token {
+    const token = this.peek();
+    if (token.kind !== 'op' || token.value !== value) {
+      throw this.error(`Expected '${value}', got ${describe(token)}`, token);
+    }
+    return this.advance();
+  }
+
+  private expectName(value: string): Token {
+    const token = this.peek();
+    if (token.kind !== 'name' || token.value !== value) {
+      throw this.error(`Expected '${value}', got ${describe(token)}`, token);
+    }
+    return this.advance();
+  }
+
+  error(message: string, at: ParseErrorLocation): ParseError {
+    return new ParseError(
+      message,
+      at.line,
+      at.column,
+      at.endLine,
+      at.endColumn
+    );
+  }
+}
+
+const RESERVED = new Set([
+  'def',
+  'class',
+  'if',
+  'elif',
+  'else',
+  'for',
+  'while',
+  'return',
+  'pass',
+  'break',
+  'continue',
+  'and',
+  'or',
+  'not',
+  'in',
+  'is',
+  'assert',
+  'raise',
+  'import',
+  'from',
+  'lambda',
+  'yield',
+  'with',
+  'try',
+  'except',
+  'finally',
+]);
+
+function parseNumber(token: Token): ast.NumberLiteral {
+  const raw = token.value;
+  const clean = raw.replace(/_/g, '');
+  const at = {
+    line: token.line,
+    column: token.column,
+    endLine: token.endLine,
+    endColumn: token.endColumn,
+  };
+  const isInteger = !/[.eE]/.test(clean) || /^0[xX]/.test(clean);
+
+  if (isInteger) {
+    return {
+      kind: 'NumberLiteral',
+      raw,
+      value: BigInt(clean).toString(),
+      isInteger,
+      ...at,
+    };
+  }
+
+  // Scientific notation with an integral result (1e18) is still an integer
+  const scientific = /^([0-9]+)(?:\.([0-9]*))?[eE]\+?([0-9]+)$/.exec(clean);
+  if (scientific) {
+    const [, whole, fraction = '', exponent] = scientific;
+    const digits = whole + fraction;
+    const shift = Number(exponent) - fraction.length;
+    if (shift >= 0) {
+      return {
+        kind: 'NumberLiteral',
+        raw,
+        value: (BigInt(digits) * 10n ** BigInt(shift)).toString(),
+        isInteger: true,
+        ...at,
+      };
+    }
+  }
+
+  return { kind: 'NumberLiteral', raw, value: clean, isInteger: false, ...at };
+}
+
+function describe(token: Token): string {
+  switch (token.kind) {
+    case 'newline':
+      return 'end of line';
+    case 'indent':
+      return 'indent';
+    case 'dedent':
+      return 'dedent';
+    case 'eof':
+      return 'end of file';
+    case 'string':
+      return 'string literal';
+    default:
+      return `'${token.value}'`;
+  }
+}
+
+function assertAssignable(expression: ast.Expression, parser: Parser): void {
+  switch (expression.kind) {
+    case 'Name':
+    case 'Attribute':
+    case 'Subscript':
+      return;
+    case 'TupleExpr':
+      expression.elements.forEach((element) =>
+        assertAssignable(element, parser)
+      );
+      return;
+    default:
+      throw parser.error('Cannot assign to expression', expression);
+  }
+}
@@ -0,0 +1,145 @@
+// Generic AST traversal for the ArbitPy Python dialect
+import * as ast from './ast';
+
+type NodeOfKind<K extends ast.Node['kind']> = Extract<ast.Node, { kind: K }>;
+
+/** Per-kind callbacks, e.g. `{ Call(node) { ... } }` */
+export type NodeVisitors = {
+  [K in ast.Node['kind']]?: (
+    node: NodeOfKind<K>,
+    parent: ast.Node | undefined
+  ) => void;
+};
+
+export interface Visitor extends NodeVisitors {
+  /** Called before a node's children; return `false` to skip them */
+  enter?(node: ast.Node, parent: ast.Node | undefined): boolean | void;
+  /** Called after all of a node's children have been visited */
+  leave?(node: ast.Node, parent: ast.Node | undefined): void;
+}
+
+/**
+ * Depth-first traversal in source order. For each node, `enter` runs first,
+ * then the callback registered for its kind, then its children and `leave`.
+ */
+export function walk(
+  node: ast.Node,
+  visitor: Visitor,
+  parent?: ast.Node
+): void {
+  if (visitor.enter?.(node, parent) === false) return;
+  const callback = visitor[node.kind] as
+    | ((node: ast.Node, parent: ast.Node | undefined) => void)
+    | undefined;
+  callback?.(node, parent);
+  for (const child of children(node)) {
+    walk(child, visitor, node);
+  }
+  visitor.leave?.(node, parent);
+}
+
+/** Direct child nodes of `node`, in source order */
+export function children(node: ast.Node): ast.Node[] {
+  switch (node.kind) {
+    case 'Module':
+      return node.body;
+    case 'ContractDef':
+      return [...node.decorators, ...node.body];
+    case 'ImportFrom':
+      return node.names;
+    case 'Decorator':
+      return node.args;
+    case 'StateVariableDecl':
+      return compact(node.annotation, node.value);
+    case 'FunctionDef':
+      return [
+        ...node.decorators,
+        ...node.params,
+        ...compact(node.returns),
+        ...node.body,
+      ];
+    case 'Parameter':
+      return compact(node.annotation, node.default);
+    case 'FieldDecl':
+      return [node.annotation];
+    case 'StructDef':
+    case 'EventDef':
+    case 'ErrorDef':
+      return node.fields;
+    case 'EnumDef':
+      return node.members;
+    case 'InterfaceDef':
+      return node.functions;
+    case 'InterfaceFunction':
+      return [...node.params, ...compact(node.returns)];
+    case 'ExpressionStatement':
+      return [node.expression];
+    case 'Assign':
+    case 'AugAssign':
+      return [node.target, node.value];
+    case 'AnnAssign':
+      return compact(node.target, node.annotation, node.value);
+    case 'Return':
+      return compact(node.value);
+    case 'If':
+      return [node.test, ...node.body, ...node.orelse];
+    case 'For':
+      return [
+        node.target,
+        ...compact(node.annotation),
+        node.iter,
+        ...node.body,
+      ];
+    case 'While':
+      return [node.test, ...node.body];
+    case 'Assert':
+      return compact(node.test, node.message);
+    case 'Raise':
+      return compact(node.exception);
+    case 'Emit':
+      return [...node.args, ...node.keywords];
+    case 'Attribute':
+      return [node.object];
+    case 'Subscript':
+      return [node.object, node.index];
+    case 'Call':
+      return [node.callee, ...node.args, ...node.keywords];
+    case 'Keyword':
+      return [node.value];
+    case 'BinaryOp':
+    case 'BoolOp':
+    case 'Compare':
+      return [node.left, node.right];
+    case 'UnaryOp':
+      return [node.operand];
+    case 'IfExp':
+      // `body if test else orelse`
+      return [node.body, node.test, node.orelse];
+    case 'ListExpr':
+    case 'TupleExpr':
+      return node.elements;
+    case 'DictExpr':
+      return node.entries.flatMap((entry) => [entry.key, entry.value]);
+    case 'ImportAlias':
+    case 'EnumMember':
+    case 'Pass':
+    case 'Break':
+    case 'Continue':
+    case 'Name':
+    case 'NumberLiteral':
+    case 'StringLiteral':
+    case 'BooleanLiteral':
+    case 'NoneLiteral':
+      return [];
+    default:
+      return assertNever(node);
+  }
+}
+
+function compact(...nodes: (ast.Node | undefined)[]): ast.Node[] {
+  return nodes.filter((node): node is ast.Node => node !== undefined);
+}
+
+function assertNever(node: never): never {
+  throw new Error(`Unknown node kind: ${(node as ast.Node).kind}`);
+}
@@ -0,0 +1,295 @@
+// Gas profiling of contract functions on a local devnet, down to source lines
+import { ethers } from 'ethers';
+import { Devnet, type CallTrace } from '../devnet';
+import { sourceLineFor } from '../codegen/sourcemap';
+import { decodeRevert, type DecodedRevert } from '../contract/revert';
+import { toArbitPyError } from '../errors';
+import type { ContractArtifact } from '../testing';
+import type { SourceMap } from '../types';
+
+export interface GasProfileOptions {
+  /** The Solidity `runtimeSourceMap` refers to */
+  solidity?: string;
+  /** solc's source map of the deployed bytecode */
+  runtimeSourceMap?: string;
+  /** Python to Solidity line map, from `transpileToSolidity` */
+  sourceMap?: SourceMap;
+  /** Constructor arguments; sample values by default */
+  constructorArgs?: unknown[];
+  /** Arguments by function name or signature; sample values by default */
+  inputs?: Record<string, unknown[]>;
+  /** Devnet to deploy to; a fresh one is created by default */
+  devnet?: Devnet;
+}
+
+/** Gas spent on one Python line */
+export interface LineGas {
+  line: number;
+  gas: bigint;
+}
+
+export interface FunctionGas {
+  name: string;
+  signature: string;
+  stateMutability: string;
+  args: unknown[];
+  /** Gas of a transaction calling the function, including intrinsic gas */
+  gasUsed: bigint;
+  reverted: boolean;
+  revert?: DecodedRevert;
+  /** Execution gas by Python line, in line order */
+  lines: LineGas[];
+  /** Execution gas of code without a Python line, such as the dispatcher */
+  unmappedGas: bigint;
+}
+
+export interface GasReport {
+  deploymentGas: bigint;
+  /** Size of the deployed code in bytes */
+  codeSize: number;
+  functions: FunctionGas[];
+  /** Execution gas by Python line over all functions */
+  lines: LineGas[];
+}
+
+export interface GasChange {
+  before?: bigint;
+  after?: bigint;
+  /** `after - before`; 0 when the function was added or removed */
+  delta: bigint;
+}
+
+export interface FunctionGasChange extends GasChange {
+  signature: string;
+}
+
+export interface GasReportDiff {
+  deployment: GasChange;
+  /** Functions of either report, in the order of `current` */
+  functions: FunctionGasChange[];
+}
+
+interface SourceMapEntry {
+  start: number;
+  file: number;
+}
+
+/**
+ * Deploy a contract to a devnet and call each of its functions with sample
+ * inputs, tracing every opcode. With the runtime source map, the Solidity
+ * and the Python source map, the gas of each opcode is charged to the
+ * Python line it was generated from.
+ */
+export async function profileGas(
+  artifact: ContractArtifact,
+  options: GasProfileOptions = {}
+): Promise<GasReport> {
+  const devnet = options.devnet ?? new Devnet();
+  const provider = devnet.getProvider();
+  const signer = devnet.getSigner();
+  const samples = { address: devnet.accounts[1].address };
+  const iface = ethers.Interface.from(artifact.abi);
+
+  try {
+    let address: string;
+    let deploymentGas: bigint;
+    try {
+      const factory = new ethers.ContractFactory(
+        iface,
+        artifact.bytecode,
+        signer
+      );
+      const contract = await factory.deploy(
+        ...(options.constructorArgs ??
+          iface.deploy.inputs.map((input) => sampleValue(input, samples)))
+      );
+      const receipt = await contract.deploymentTransaction()!.wait();
+      address = await contract.getAddress();
+      deploymentGas = receipt!.gasUsed;
+    } catch (error) {
+      throw toArbitPyError(error, { deploying: true, abi: artifact.abi });
+    }
+
+    const code = await provider.getCode(address);
+    const lineOf = lineMapper(code, options);
+    const functions: FunctionGas[] = [];
+    const fragments = iface.fragments.filter(
+      (fragment): fragment is ethers.FunctionFragment =>
+        fragment.type === 'function'
+    );
+
+    for (const fragment of fragments) {
+      const signature = fragment.format();
+      const args =
+        options.inputs?.[signature] ??
+        options.inputs?.[fragment.name] ??
+        fragment.inputs.map((input) => sampleValue(input, samples));
+      const trace: CallTrace = await provider.send('debug_traceCall', [
+        {
+          from: signer.address,
+          to: address,
+          data: iface.encodeFunctionData(fragment, args),
+        },
+        'latest',
+      ]);
+
+      const lines = new Map<number, bigint>();
+      let unmappedGas = 0n;
+      for (const log of trace.structLogs) {
+        if (log.depth !== 1) continue;
+        const line = lineOf(log.pc);
+        if (line === undefined) unmappedGas += BigInt(log.gasCost);
+        else lines.set(line, (lines.get(line) ?? 0n) + BigInt(log.gasCost));
+      }
+
+      const revert = trace.failed
+        ? decodeRevert(trace.returnValue, artifact.abi)
+        : undefined;
+      functions.push({
+        name: fragment.name,
+        signature,
+        stateMutability: fragment.stateMutability,
+        args,
+        gasUsed: BigInt(trace.gas),
+        reverted: trace.failed,
+        ...(revert ? { revert } : {}),
+        lines: sortLines(lines),
+        unmappedGas,
+      });
+    }
+
+    const totals = new Map<number, bigint>();
+    for (const { lines } of functions) {
+      for (const { line, gas } of lines) {
+        totals.set(line, (totals.get(line) ?? 0n) + gas);
+      }
+    }
+    return {
+      deploymentGas,
+      codeSize: ethers.dataLength(code),
+      functions,
+      lines: sortLines(totals),
+    };
+  } finally {
+    if (!options.devnet) provider.destroy();
+  }
+}
+
+/** Gas changes between two reports of the same contract */
+export function diffGasReports(
+  previous: GasReport,
+  current: GasReport
+): GasReportDiff {
+  const before = new Map(
+    previous.functions.map((fn) => [fn.signature, fn.gasUsed])
+  );
+  const functions: FunctionGasChange[] = current.functions.map((fn) => ({
+    signature: fn.signature,
+    ...change(before.get(fn.signature), fn.gasUsed),
+  }));
+  for (const fn of previous.functions) {
+    if (
+      !current.functions.some(({ signature }) => signature === fn.signature)
+    ) {
+      functions.push({ signature: fn.signature, ...change(fn.gasUsed) });
+    }
+  }
+  return {
+    deployment: change(previous.deploymentGas, current.deploymentGas),
+    functions,
+  };
+}
+
+function change(before?: bigint, after?: bigint): GasChange {
+  return {
+    ...(before !== undefined ? { before } : {}),
+    ...(after !== undefined ? { after } : {}),
+    delta: before !== undefined && after !== undefined ? after - before : 0n,
+  };
+}
+
+/** The Python line of each program counter, when it can be told */
+function lineMapper(
+  code: string,
+  { solidity, runtimeSourceMap, sourceMap }: GasProfileOptions
+): (pc: number) => number | undefined {
+  if (!solidity || !runtimeSourceMap || !sourceMap) return () => undefined;
+
+  const instructions = instructionIndexes(code);
+  const entries = parseSourceMap(runtimeSourceMap);
+  const lineStarts = [0];
+  for (let i = 0; i < solidity.length; i++) {
+    if (solidity[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  return (pc) => {
+    const index = instructions.get(pc);
+    const entry = index === undefined ? undefined : entries[index];
+    if (!entry || entry.file < 0 || entry.start < 0) return undefined;
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (lineStarts[middle] <= entry.start) low = middle;
+      else high = middle - 1;
+    }
+    return sourceLineFor(sourceMap, low + 1);
+  };
+}
+
+/** Instruction index of each opcode offset, skipping PUSH data */
+function instructionIndexes(code: string): Map<number, number> {
+  const bytes = ethers.getBytes(code);
+  const indexes = new Map<number, number>();
+  for (let pc = 0, index = 0; pc < bytes.length; index++) {
+    indexes.set(pc, index);
+    const opcode = bytes[pc];
+    pc += opcode >= 0x60 && opcode <= 0x7f ? opcode - 0x5e : 1;
+  }
+  return indexes;
+}
+
+/**
+ * Decompress a solc source map: `s:l:f:j:m` entries separated by `;`,
+ * where empty fields repeat the previous entry
+ */
+function parseSourceMap(map: string): SourceMapEntry[] {
+  let start = -1;
+  let file = -1;
+  return map.split(';').map((entry) => {
+    const [s, , f] = entry.split(':');
+    if (s) start = Number(s);
+    if (f) file = Number(f);
+    return { start, file };
+  });
+}
+
+function sortLines(lines: Map<number, bigint>): LineGas[] {
+  return [...lines]
+    .sort(([a], [b]) => a - b)
+    .map(([line, gas]) => ({ line, gas }));
+}
+
+/** A plausible argument for a parameter */
+function sampleValue(
+  param: ethers.ParamType,
+  samples: { address: string }
+): unknown {
+  if (param.isArray()) {
+    const length = param.arrayLength < 0 ? 1 : param.arrayLength;
+    return Array.from({ length }, () =>
+      sampleValue(param.arrayChildren, samples)
+    );
+  }
+  if (param.isTuple()) {
+    return param.components.map((component) => sampleValue(component, samples));
+  }
+  if (param.baseType === 'address') return samples.address;
+  if (param.baseType === 'bool') return true;
+  if (param.baseType === 'string') return 'arbitpy';
+  if (param.baseType === 'bytes') return '0x01';
+  if (param.baseType.startsWith('bytes')) {
+    return ethers.zeroPadValue('0x01', Number(param.baseType.slice(5)));
+  }
+  return 1n;
+}
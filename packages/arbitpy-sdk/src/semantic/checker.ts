@@ -0,0 +1,726 @@
+// Type checking for the ArbitPy Python dialect
+import * as ast from '../parser/ast';
+import {
+  ContractType,
+  UNKNOWN,
+  formatType,
+  isInteger,
+  primitiveType,
+} from './types';
+import {
+  ADDRESS_MEMBERS,
+  BUILTIN_FUNCTIONS,
+  ENVIRONMENT_MEMBERS,
+  TypeEnvironment,
+  inferType,
+  isIntegerLiteral,
+} from './infer';
+import {
+  ContractModel,
+  FunctionModel,
+  StateMutability,
+  forEachExpression,
+  isStateAccess,
+  isStateRooted,
+  raisedError,
+  reportError,
+  walkFunction,
+} from './model';
+
+const MUTABILITY_ORDER: StateMutability[] = ['pure', 'view', 'nonpayable'];
+
+/** Calls that always modify state */
+const STATE_CHANGING_BUILTINS = new Set(['raw_call', 'send', 'selfdestruct']);
+
+interface CheckContext {
+  fn: FunctionModel;
+  env: TypeEnvironment;
+  /** Declared `@view`/`@pure` restriction of the function being checked */
+  readOnly?: 'view' | 'pure';
+  /** Expressions whose names need no further resolution */
+  exempt: Set<ast.Expression>;
+}
+
+interface Parameter {
+  name: string;
+  type: ContractType;
+  default?: ast.Expression;
+}
+
+/**
+ * Type-check every function body of a contract model. Diagnostics are
+ * appended to `model.errors`; code generation should only run when the
+ * checker reported no errors.
+ */
+export function checkContract(model: ContractModel): void {
+  new TypeChecker(model).check();
+}
+
+class TypeChecker {
+  constructor(private readonly model: ContractModel) {}
+
+  check(): void {
+    const functions = [...this.model.functions.values()];
+    if (this.model.init) functions.unshift(this.model.init);
+
+    for (const fn of functions) {
+      const readOnly = declaredReadOnly(fn);
+      walkFunction(this.model, fn, (statement, env) => {
+        const context: CheckContext = {
+          fn,
+          env,
+          readOnly,
+          exempt: new Set(),
+        };
+        this.statement(statement, context);
+        forEachExpression([statement], (expression) =>
+          this.expression(expression, context)
+        );
+      });
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Statements
+  // -------------------------------------------------------------------------
+
+  private statement(statement: ast.Statement, context: CheckContext): void {
+    const { fn, env } = context;
+
+    switch (statement.kind) {
+      case 'Assign':
+        this.checkStateWrite(statement.target, context);
+        if (
+          fn.isConstructor &&
+          this.model.style === 'class' &&
+          isStateAccess(statement.target)
+        ) {
+          // Class-style constructors declare state by assigning it
+          context.exempt.add(statement.target);
+        }
+        this.checkAssignment(statement.target, statement.value, env);
+        break;
+
+      case 'AugAssign':
+        this.checkStateWrite(statement.target, context);
+        this.checkOperands(
+          statement.op,
+          statement.target,
+          statement.value,
+          statement,
+          env
+        );
+        break;
+
+      case 'AnnAssign':
+        if (statement.value) {
+          this.checkAssignable(
+            statement.value,
+            env.locals.get(statement.target.id) ?? UNKNOWN,
+            env
+          );
+        }
+        break;
+
+      case 'Return':
+        if (!fn.returns) {
+          if (statement.value) {
+            reportError(
+              this.model,
+              statement.value,
+              `Function '${fn.name}' does not return a value`
+            );
+          }
+        } else if (!statement.value) {
+          reportError(
+            this.model,
+            statement,
+            `Function '${fn.name}' must return ${formatType(fn.returns)}`
+          );
+        } else {
+          this.checkAssignable(statement.value, fn.returns, env);
+        }
+        break;
+
+      case 'Emit': {
+        if (context.readOnly) {
+          reportError(
+            this.model,
+            statement,
+            `Cannot emit events in a @${context.readOnly} function`
+          );
+        }
+        const event = this.model.events.get(statement.event);
+        if (!event) {
+          reportError(
+            this.model,
+            statement,
+            `Unknown event '${statement.event}'`
+          );
+          break;
+        }
+        this.checkArguments(
+          statement,
+          event.fields,
+          statement.args,
+          statement.keywords,
+          `Event '${event.name}'`,
+          env
+        );
+        break;
+      }
+
+      case 'Raise': {
+        const exception = statement.exception;
+        const call = exception?.kind === 'Call' ? exception : undefined;
+        const error = raisedError(this.model, statement);
+        if (call) {
+          context.exempt.add(call.callee);
+        } else if (exception && error) {
+          context.exempt.add(exception);
+        }
+        // `raise Exception("reason")` only contributes its message
+        if (!error) break;
+        this.checkArguments(
+          call ?? statement,
+          error.fields,
+          call?.args ?? [],
+          call?.keywords ?? [],
+          `Error '${error.name}'`,
+          env
+        );
+        break;
+      }
+    }
+  }
+
+  private checkStateWrite(target: ast.Expression, context: CheckContext): void {
+    if (context.readOnly && isStateRooted(target)) {
+      reportError(
+        this.model,
+        target,
+        `Cannot modify contract state in a @${context.readOnly} function`
+      );
+    }
+  }
+
+  private checkAssignment(
+    target: ast.Expression,
+    value: ast.Expression,
+    env: TypeEnvironment
+  ): void {
+    if (target.kind === 'TupleExpr') {
+      if (value.kind !== 'TupleExpr') return;
+      target.elements.forEach((element, index) => {
+        const item = value.elements[index];
+        if (item) this.checkAssignment(element, item, env);
+      });
+      return;
+    }
+    this.checkAssignable(value, inferType(target, env), env);
+  }
+
+  // -------------------------------------------------------------------------
+  // Expressions
+  // -------------------------------------------------------------------------
+
+  private expression(expression: ast.Expression, context: CheckContext): void {
+    switch (expression.kind) {
+      case 'Attribute':
+        this.attribute(expression, context);
+        break;
+      case 'Call':
+        this.call(expression, context);
+        break;
+      case 'BinaryOp':
+        this.checkOperands(
+          expression.op,
+          expression.left,
+          expression.right,
+          expression,
+          context.env
+        );
+        break;
+      case 'Compare':
+        this.checkComparison(expression, context.env);
+        break;
+      case 'UnaryOp': {
+        if (expression.op !== '-' || isIntegerLiteral(expression.operand)) {
+          break;
+        }
+        const type = inferType(expression.operand, context.env);
+        if (type.kind === 'uint') {
+          reportError(
+            this.model,
+            expression,
+            `Cannot negate a value of unsigned type ${formatType(type)}`
+          );
+        }
+        break;
+      }
+    }
+  }
+
+  private attribute(expression: ast.Attribute, context: CheckContext): void {
+    const { object, attr } = expression;
+    if (object.kind !== 'Name' || context.env.locals.has(object.id)) return;
+
+    if (object.id === 'self') {
+      if (context.exempt.has(expression)) return;
+      if (this.model.functions.has(attr)) return;
+      if (context.readOnly === 'pure') {
+        reportError(
+          this.model,
+          expression,
+          'Cannot read contract state in a @pure function'
+        );
+      }
+      if (this.model.stateVariables.has(attr) || attr in ADDRESS_MEMBERS) {
+        return;
+      }
+      reportError(
+        this.model,
+        expression,
+        this.model.style === 'class'
+          ? `'self.${attr}' is not declared; assign it in __init__`
+          : `'self.${attr}' is not declared`
+      );
+      return;
+    }
+
+    const members = ENVIRONMENT_MEMBERS[object.id];
+    if (!members) return;
+    if (!(attr in members)) {
+      reportError(
+        this.model,
+        expression,
+        `'${object.id}.${attr}' is not defined`
+      );
+      return;
+    }
+    if (context.readOnly === 'pure') {
+      reportError(
+        this.model,
+        expression,
+        `Cannot read '${object.id}.${attr}' in a @pure function`
+      );
+    }
+    if (
+      object.id === 'msg' &&
+      attr === 'value' &&
+      context.fn.visibility === 'public' &&
+      context.fn.mutability !== 'payable'
+    ) {
+      reportError(
+        this.model,
+        expression,
+        'msg.value can only be used in @payable functions'
+      );
+    }
+  }
+
+  private call(call: ast.Call, context: CheckContext): void {
+    const { callee } = call;
+    const { env } = context;
+
+    if (callee.kind === 'Name') {
+      if (env.locals.has(callee.id) || context.exempt.has(callee)) return;
+      const name = callee.id;
+
+      const fn = this.model.functions.get(name);
+      if (fn) {
+        const what = `Function '${fn.name}'`;
+        this.checkCallable(call, what, fn.mutability, context);
+        this.checkArguments(
+          call,
+          fn.params,
+          call.args,
+          call.keywords,
+          what,
+          env
+        );
+        return;
+      }
+
+      if (STATE_CHANGING_BUILTINS.has(name)) {
+        this.checkCallable(call, `${name}()`, 'nonpayable', context);
+      }
+      if (
+        BUILTIN_FUNCTIONS[name] ||
+        primitiveType(name) ||
+        this.model.structs.has(name) ||
+        this.model.interfaces.has(name) ||
+        /^I[A-Z]/.test(name)
+      ) {
+        return;
+      }
+      reportError(this.model, callee, `Undefined function '${name}'`);
+      return;
+    }
+
+    if (callee.kind !== 'Attribute') return;
+    const { object, attr } = callee;
+
+    if (isSelfName(object, env)) {
+      context.exempt.add(callee);
+      const fn = this.model.functions.get(attr);
+      if (!fn) {
+        reportError(this.model, callee, `Undefined function 'self.${attr}'`);
+        return;
+      }
+      const what = `Function '${fn.name}'`;
+      this.checkCallable(call, what, fn.mutability, context);
+      this.checkArguments(call, fn.params, call.args, call.keywords, what, env);
+      return;
+    }
+
+    if (
+      (attr === 'append' || attr === 'pop') &&
+      isStateRooted(object) &&
+      context.readOnly
+    ) {
+      reportError(
+        this.model,
+        call,
+        `Cannot modify contract state in a @${context.readOnly} function`
+      );
+      return;
+    }
+
+    const objectType = inferType(object, env);
+    if (objectType.kind !== 'interface') return;
+    const iface = this.model.interfaces.get(objectType.name);
+    const fn = iface?.functions.get(attr);
+    if (!fn) {
+      // Inferred interfaces grow from call sites instead
+      if (iface && !iface.inferred) {
+        reportError(
+          this.model,
+          callee,
+          `Interface '${iface.name}' has no function '${attr}'`
+        );
+      }
+      return;
+    }
+    const what = `Function '${objectType.name}.${attr}'`;
+    this.checkCallable(call, what, fn.mutability, context);
+    this.checkArguments(
+      call,
+      fn.params,
+      call.args,
+      call.keywords.filter(
+        (keyword) => keyword.name !== 'value' && keyword.name !== 'gas'
+      ),
+      what,
+      env
+    );
+  }
+
+  /** Calls from `@view`/`@pure` functions must not need more access */
+  private checkCallable(
+    call: ast.Call,
+    what: string,
+    mutability: StateMutability,
+    context: CheckContext
+  ): void {
+    if (!context.readOnly) return;
+    const required = mutability === 'payable' ? 'nonpayable' : mutability;
+    if (rank(required) <= rank(context.readOnly)) return;
+    reportError(
+      this.model,
+      call,
+      required === 'nonpayable'
+        ? `${what} modifies state and cannot be called from a @${context.readOnly} function`
+        : `${what} reads state and cannot be called from a @pure function`
+    );
+  }
+
+  private checkArguments(
+    node: ast.Node,
+    params: Parameter[],
+    args: ast.Expression[],
+    keywords: ast.Keyword[],
+    what: string,
+    env: TypeEnvironment
+  ): void {
+    const values: Array<ast.Expression | undefined> = params.map(
+      (_, index) => args[index]
+    );
+    for (const keyword of keywords) {
+      const index = params.findIndex((param) => param.name === keyword.name);
+      if (index < 0) {
+        reportError(
+          this.model,
+          keyword,
+          `${what} has no parameter '${keyword.name}'`
+        );
+        return;
+      }
+      values[index] = keyword.value;
+    }
+    if (args.length > params.length) {
+      reportError(
+        this.model,
+        node,
+        `${what} expects ${params.length} argument${params.length === 1 ? '' : 's'}, got ${args.length}`
+      );
+      return;
+    }
+
+    params.forEach((param, index) => {
+      const value = values[index];
+      if (value) {
+        this.checkAssignable(value, param.type, env);
+      } else if (!param.default) {
+        reportError(
+          this.model,
+          node,
+          `${what} is missing argument '${param.name}'`
+        );
+      }
+    });
+  }
+
+  // -------------------------------------------------------------------------
+  // Type compatibility
+  // -------------------------------------------------------------------------
+
+  private checkAssignable(
+    value: ast.Expression,
+    target: ContractType,
+    env: TypeEnvironment
+  ): void {
+    const problem = this.assignmentProblem(value, target, env);
+    if (problem) reportError(this.model, value, problem);
+  }
+
+  private assignmentProblem(
+    value: ast.Expression,
+    target: ContractType,
+    env: TypeEnvironment
+  ): string | undefined {
+    if (target.kind === 'unknown') return undefined;
+
+    if (isIntegerLiteral(value) && isInteger(target)) {
+      const literal = literalValue(value);
+      if (literal !== undefined && !fitsInteger(literal, target)) {
+        return `Literal ${literal} is out of range for ${formatType(target)}`;
+      }
+      return undefined;
+    }
+
+    // Element-wise, so that literals adopt the element type
+    if (
+      (value.kind === 'ListExpr' &&
+        (target.kind === 'dynArray' || target.kind === 'array')) ||
+      (value.kind === 'TupleExpr' && target.kind === 'tuple')
+    ) {
+      const elements = value.elements;
+      for (let index = 0; index < elements.length; index++) {
+        const element =
+          target.kind === 'tuple'
+            ? (target.elements[index] ?? UNKNOWN)
+            : target.element;
+        const problem = this.assignmentProblem(elements[index], element, env);
+        if (problem) return problem;
+      }
+      return undefined;
+    }
+
+    const type = inferType(value, env);
+    if (type.kind === 'unknown') return undefined;
+
+    if (isInteger(type) && isInteger(target)) {
+      if (type.kind !== target.kind || type.bits > target.bits) {
+        return `Cannot implicitly convert ${formatType(type)} to ${formatType(target)}; use convert()`;
+      }
+      return undefined;
+    }
+
+    if (!compatible(type, target, value)) {
+      return `Expected ${formatType(target)}, got ${formatType(type)}`;
+    }
+    return undefined;
+  }
+
+  private checkOperands(
+    op: ast.BinaryOperator,
+    left: ast.Expression,
+    right: ast.Expression,
+    node: ast.Node,
+    env: TypeEnvironment
+  ): void {
+    const leftType = inferType(left, env);
+    const rightType = inferType(right, env);
+    if (leftType.kind === 'unknown' || rightType.kind === 'unknown') return;
+
+    if (isInteger(leftType) && isInteger(rightType)) {
+      // Exponents and shift amounts may have any integer type
+      if (op === '**' || op === '<<' || op === '>>') return;
+      if (isIntegerLiteral(left) || isIntegerLiteral(right)) return;
+      if (leftType.kind !== rightType.kind) {
+        reportError(
+          this.model,
+          node,
+          `Cannot mix ${formatType(leftType)} and ${formatType(rightType)} in '${op}'; use convert()`
+        );
+      }
+      return;
+    }
+
+    if (
+      op === '+' &&
+      leftType.kind === rightType.kind &&
+      (leftType.kind === 'string' || leftType.kind === 'bytes')
+    ) {
+      return;
+    }
+    if (isInteger(leftType) !== isInteger(rightType)) {
+      reportError(
+        this.model,
+        node,
+        `Unsupported operand types for '${op}': ${formatType(leftType)} and ${formatType(rightType)}`
+      );
+    }
+  }
+
+  private checkComparison(expression: ast.Compare, env: TypeEnvironment): void {
+    const { op, left, right } = expression;
+    if (op === 'in' || op === 'not in' || op === 'is' || op === 'is not') {
+      return;
+    }
+    const leftType = inferType(left, env);
+    const rightType = inferType(right, env);
+    if (leftType.kind === 'unknown' || rightType.kind === 'unknown') return;
+
+    if (isInteger(leftType) && isInteger(rightType)) {
+      if (isIntegerLiteral(left) || isIntegerLiteral(right)) return;
+      if (leftType.kind !== rightType.kind) {
+        reportError(
+          this.model,
+          expression,
+          `Cannot compare ${formatType(leftType)} with ${formatType(rightType)}; use convert()`
+        );
+      }
+      return;
+    }
+
+    if (
+      !compatible(leftType, rightType, left) &&
+      !compatible(rightType, leftType, right)
+    ) {
+      reportError(
+        this.model,
+        expression,
+        `Cannot compare ${formatType(leftType)} with ${formatType(rightType)}`
+      );
+    }
+  }
+}
+
+/** `@view`/`@pure` as written by the author; inferred helpers are exempt */
+function declaredReadOnly(fn: FunctionModel): 'view' | 'pure' | undefined {
+  for (const decorator of fn.node.decorators) {
+    if (decorator.name === 'view' || decorator.name === 'constant') {
+      return 'view';
+    }
+    if (decorator.name === 'pure') return 'pure';
+  }
+  return undefined;
+}
+
+function rank(mutability: StateMutability): number {
+  return MUTABILITY_ORDER.indexOf(mutability);
+}
+
+function isSelfName(expression: ast.Expression, env: TypeEnvironment): boolean {
+  return (
+    expression.kind === 'Name' &&
+    expression.id === 'self' &&
+    !env.locals.has('self')
+  );
+}
+
+/**
+ * Whether a value of type `from` may be used where `to` is expected.
+ * Integers are handled by the caller; literals get the usual leeway.
+ */
+function compatible(
+  from: ContractType,
+  to: ContractType,
+  value?: ast.Expression
+): boolean {
+  if (from.kind === 'unknown' || to.kind === 'unknown') return true;
+
+  switch (to.kind) {
+    case 'uint':
+    case 'int':
+      return isInteger(from);
+    case 'address':
+    case 'interface':
+      if (from.kind === 'address') return true;
+      if (from.kind !== 'interface') return false;
+      return to.kind === 'address' || from.name === to.name;
+    case 'bool':
+      return from.kind === 'bool';
+    case 'string':
+      return from.kind === 'string';
+    case 'bytes':
+      return from.kind === 'bytes' || value?.kind === 'StringLiteral';
+    case 'fixedBytes':
+      return (
+        (from.kind === 'fixedBytes' && from.size <= to.size) ||
+        value?.kind === 'StringLiteral' ||
+        value?.kind === 'NumberLiteral'
+      );
+    case 'hashmap':
+      return from.kind === 'hashmap';
+    case 'dynArray':
+    case 'array':
+      return (
+        (from.kind === 'dynArray' || from.kind === 'array') &&
+        (from.element.kind === 'unknown' ||
+          compatibleElement(from.element, to.element))
+      );
+    case 'struct':
+    case 'enum':
+      return from.kind === to.kind && from.name === to.name;
+    case 'tuple':
+      return (
+        from.kind === 'tuple' &&
+        from.elements.length === to.elements.length &&
+        from.elements.every((element, index) =>
+          compatibleElement(element, to.elements[index])
+        )
+      );
+  }
+}
+
+function compatibleElement(from: ContractType, to: ContractType): boolean {
+  if (isInteger(from) && isInteger(to)) {
+    return from.kind === to.kind && from.bits <= to.bits;
+  }
+  return compatible(from, to);
+}
+
+/** Value of a literal such as `5` or `-1`, if it is that simple */
+function literalValue(expression: ast.Expression): bigint | undefined {
+  if (expression.kind === 'NumberLiteral' && expression.isInteger) {
+    return BigInt(expression.value);
+  }
+  if (expression.kind === 'UnaryOp' && expression.op === '-') {
+    const operand = literalValue(expression.operand);
+    return operand === undefined ? undefined : -operand;
+  }
+  return undefined;
+}
+
+function fitsInteger(
+  value: bigint,
+  type: { kind: 'uint' | 'int'; bits: number }
+): boolean {
+  const bits = BigInt(type.bits);
+  if (type.kind === 'uint') return value >= 0n && value < 1n << bits;
+  const bound = 1n << (bits - 1n);
+  return value >= -bound && value < bound;
+}
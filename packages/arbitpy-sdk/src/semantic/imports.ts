@@ -0,0 +1,277 @@
+// Import resolution across the files of a project
+import * as ast from '../parser/ast';
+import { ParseError } from '../parser/errors';
+import { parseModule } from '../parser/parser';
+import { walk } from '../parser/walker';
+import { CompilationError } from '../types';
+
+export interface ImportOptions {
+  /** Project path of the source being compiled; defaults to `contract.py` */
+  path?: string;
+  /** Other project files keyed by path, e.g. `interfaces.py` */
+  files?: Record<string, string>;
+}
+
+export interface ResolvedModule {
+  module: ast.Module;
+  errors: CompilationError[];
+}
+
+export const DEFAULT_PATH = 'contract.py';
+
+/**
+ * Replace each `from module import Name` with the declarations it names.
+ * Modules resolve to `module.py` or `module/__init__.py`, looked up from the
+ * project root and then the importing file's folder; leading dots make the
+ * lookup relative. Helper functions bring along the declarations they use.
+ * Imported nodes carry the path of their file in `file`.
+ */
+export function resolveImports(
+  module: ast.Module,
+  options: ImportOptions = {}
+): ResolvedModule {
+  const files: Record<string, string> = {};
+  for (const [path, source] of Object.entries(options.files ?? {})) {
+    files[normalizePath(path)] = source;
+  }
+  const path = normalizePath(options.path ?? DEFAULT_PATH);
+  const resolver = new ImportResolver(files, path);
+  const body = resolver.resolveBody(module.body, path);
+  return { module: { ...module, body }, errors: resolver.errors };
+}
+
+class ImportResolver {
+  readonly errors: CompilationError[] = [];
+  /** Declarations a module exports, by path; undefined when it failed */
+  private readonly modules = new Map<
+    string,
+    ast.ContractMember[] | undefined
+  >();
+  /** Files whose imports are being resolved, to detect cycles */
+  private readonly loading: Set<string>;
+
+  constructor(
+    private readonly files: Record<string, string>,
+    entry: string
+  ) {
+    this.loading = new Set([entry]);
+  }
+
+  resolveBody<T extends ast.ModuleMember>(
+    body: T[],
+    path: string
+  ): Array<Exclude<T, ast.ImportFrom>> {
+    // Dependencies of imported helpers defer to local declarations
+    const local = new Set(
+      body.flatMap((member) => {
+        if (member.kind === 'ImportFrom') return [];
+        if (member.kind === 'ContractDef') {
+          return member.body.map((inner) => inner.name);
+        }
+        return [member.name];
+      })
+    );
+    const included = new Set<ast.ContractMember>();
+    const result: Array<Exclude<T, ast.ImportFrom>> = [];
+    for (const member of body) {
+      if (member.kind !== 'ImportFrom') {
+        result.push(member as Exclude<T, ast.ImportFrom>);
+        continue;
+      }
+      for (const declaration of this.importFrom(member, path, local)) {
+        if (included.has(declaration)) continue;
+        included.add(declaration);
+        result.push(declaration as Exclude<T, ast.ImportFrom>);
+      }
+    }
+    return result;
+  }
+
+  private importFrom(
+    node: ast.ImportFrom,
+    fromPath: string,
+    local: Set<string>
+  ): ast.ContractMember[] {
+    const name = '.'.repeat(node.level) + node.module;
+    const path = this.findModule(node, fromPath);
+    if (path === undefined) {
+      this.error(node, `Cannot find module '${name}'`);
+      return [];
+    }
+    if (this.loading.has(path)) {
+      this.error(node, `Circular import of '${name}'`);
+      return [];
+    }
+    const declarations = this.load(path);
+    if (!declarations) return [];
+
+    const imported: ast.ContractMember[] = [];
+    for (const alias of node.names) {
+      const declaration = declarations.find(
+        (member) => member.name === alias.name
+      );
+      if (!declaration) {
+        this.error(
+          alias,
+          `Module '${name}' has no declaration '${alias.name}'`
+        );
+        continue;
+      }
+      if (!isImportable(declaration)) {
+        this.error(
+          alias,
+          `'${alias.name}' cannot be imported; only interfaces, structs, ` +
+            'events, errors, enums, constants and @internal functions can'
+        );
+        continue;
+      }
+      imported.push(
+        alias.asName && alias.asName !== alias.name
+          ? { ...declaration, name: alias.asName }
+          : declaration
+      );
+      for (const dependency of dependencies(declaration, declarations)) {
+        if (!local.has(dependency.name)) imported.push(dependency);
+      }
+    }
+    return imported;
+  }
+
+  /** Parse a project file and resolve its own imports */
+  private load(path: string): ast.ContractMember[] | undefined {
+    if (this.modules.has(path)) return this.modules.get(path);
+
+    let module: ast.Module;
+    try {
+      module = parseModule(this.files[path]);
+    } catch (error) {
+      if (!(error instanceof ParseError)) throw error;
+      this.errors.push({ ...error.toCompilationError(), file: path });
+      this.modules.set(path, undefined);
+      return undefined;
+    }
+    walk(module, {
+      enter(node) {
+        node.file = path;
+      },
+    });
+
+    this.loading.add(path);
+    const declarations = this.resolveBody(
+      module.body.flatMap((member) =>
+        member.kind === 'ContractDef' ? member.body : [member]
+      ),
+      path
+    );
+    this.loading.delete(path);
+    this.modules.set(path, declarations);
+    return declarations;
+  }
+
+  private findModule(
+    node: ast.ImportFrom,
+    fromPath: string
+  ): string | undefined {
+    const parts = node.module ? node.module.split('.') : [];
+    let roots: string[];
+    if (node.level > 0) {
+      let root = dirname(fromPath);
+      for (let level = 1; level < node.level; level++) {
+        if (!root) return undefined;
+        root = dirname(root);
+      }
+      roots = [root];
+    } else {
+      roots = ['', dirname(fromPath)];
+    }
+
+    for (const root of roots) {
+      const base = [root, ...parts].filter(Boolean).join('/');
+      const candidates = parts.length
+        ? [`${base}.py`, `${base}/__init__.py`]
+        : [[base, '__init__.py'].filter(Boolean).join('/')];
+      const found = candidates.find((path) => path in this.files);
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  private error(node: ast.Node, message: string): void {
+    this.errors.push({
+      message,
+      line: node.line,
+      column: node.column,
+      endLine: node.endLine,
+      endColumn: node.endColumn,
+      severity: 'error',
+      ...(node.file ? { file: node.file } : {}),
+    });
+  }
+}
+
+function isImportable(declaration: ast.ContractMember): boolean {
+  switch (declaration.kind) {
+    case 'StateVariableDecl':
+      return isConstant(declaration);
+    case 'FunctionDef':
+      return declaration.decorators.some(
+        (decorator) =>
+          decorator.name === 'internal' || decorator.name === 'private'
+      );
+    default:
+      return true;
+  }
+}
+
+function isConstant(decl: ast.StateVariableDecl): boolean {
+  let annotation = decl.annotation;
+  while (annotation.kind === 'Call' && annotation.callee.kind === 'Name') {
+    if (annotation.callee.id === 'constant') return true;
+    annotation = annotation.args[0];
+    if (!annotation) return false;
+  }
+  return false;
+}
+
+/** Importable declarations `declaration` refers to, transitively */
+function dependencies(
+  declaration: ast.ContractMember,
+  declarations: ast.ContractMember[]
+): ast.ContractMember[] {
+  const found: ast.ContractMember[] = [];
+  const pending = [declaration];
+  while (pending.length > 0) {
+    const names = new Set<string>();
+    walk(pending.pop()!, {
+      Name(node) {
+        names.add(node.id);
+      },
+      Attribute(node) {
+        if (node.object.kind === 'Name' && node.object.id === 'self') {
+          names.add(node.attr);
+        }
+      },
+    });
+    for (const candidate of declarations) {
+      if (
+        names.has(candidate.name) &&
+        candidate !== declaration &&
+        !found.includes(candidate) &&
+        isImportable(candidate)
+      ) {
+        found.push(candidate);
+        pending.push(candidate);
+      }
+    }
+  }
+  return found;
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/^(\.\/|\/)+/, '');
+}
+
+function dirname(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash < 0 ? '' : path.slice(0, slash);
+}
@@ -0,0 +1,362 @@
+// Expression typing for the ArbitPy Python dialect
+import * as ast from '../parser/ast';
+import type { ContractModel } from './model';
+import {
+  ContractType,
+  ADDRESS,
+  BOOL,
+  BYTES,
+  BYTES32,
+  INT256,
+  STRING,
+  UINT256,
+  UNKNOWN,
+  isInteger,
+  primitiveType,
+  resolveTypeAnnotation,
+} from './types';
+
+export interface TypeEnvironment {
+  model: ContractModel;
+  /** Parameters and local variables in scope */
+  locals: Map<string, ContractType>;
+}
+
+/** Environment members available without declaration */
+export const ENVIRONMENT_MEMBERS: Record<
+  string,
+  Record<string, ContractType>
+> = {
+  msg: {
+    sender: ADDRESS,
+    value: UINT256,
+    data: BYTES,
+    gas: UINT256,
+  },
+  block: {
+    timestamp: UINT256,
+    number: UINT256,
+    chainid: UINT256,
+    basefee: UINT256,
+    gaslimit: UINT256,
+    prevrandao: UINT256,
+    difficulty: UINT256,
+    coinbase: ADDRESS,
+  },
+  tx: {
+    origin: ADDRESS,
+    gasprice: UINT256,
+  },
+  chain: {
+    id: UINT256,
+  },
+};
+
+export const ADDRESS_MEMBERS: Record<string, ContractType> = {
+  balance: UINT256,
+  codehash: BYTES32,
+  codesize: UINT256,
+  is_contract: BOOL,
+  code: BYTES,
+};
+
+export const BUILTIN_CONSTANTS: Record<string, ContractType> = {
+  ZERO_ADDRESS: ADDRESS,
+  EMPTY_ADDRESS: ADDRESS,
+  EMPTY_BYTES32: BYTES32,
+  ZERO_WEI: UINT256,
+  MAX_UINT256: UINT256,
+  MAX_INT128: { kind: 'int', bits: 128 },
+  MIN_INT128: { kind: 'int', bits: 128 },
+};
+
+/**
+ * Built-in functions and their return types. `undefined` means the call
+ * has no useful value (statements such as `require`).
+ */
+export const BUILTIN_FUNCTIONS: Record<
+  string,
+  (
+    args: ast.Expression[],
+    env: TypeEnvironment,
+    keywords: ast.Keyword[]
+  ) => ContractType | undefined
+> = {
+  require: () => undefined,
+  assert: () => undefined,
+  send: () => undefined,
+  selfdestruct: () => undefined,
+  range: () => UNKNOWN,
+  len: () => UINT256,
+  min: (args, env) => (args[0] ? inferType(args[0], env) : UNKNOWN),
+  max: (args, env) => (args[0] ? inferType(args[0], env) : UNKNOWN),
+  abs: (args, env) => (args[0] ? inferType(args[0], env) : UNKNOWN),
+  unsafe_add: (args, env) => (args[0] ? inferType(args[0], env) : UNKNOWN),
+  unsafe_sub: (args, env) => (args[0] ? inferType(args[0], env) : UNKNOWN),
+  unsafe_mul: (args, env) => (args[0] ? inferType(args[0], env) : UNKNOWN),
+  unsafe_div: (args, env) => (args[0] ? inferType(args[0], env) : UNKNOWN),
+  pow_mod256: () => UINT256,
+  isqrt: () => UINT256,
+  sqrt: () => UINT256,
+  uint256_addmod: () => UINT256,
+  uint256_mulmod: () => UINT256,
+  shift: () => UINT256,
+  convert: (args, env) => (args[1] ? typeArgument(args[1], env) : UNKNOWN),
+  empty: (args, env) => (args[0] ? typeArgument(args[0], env) : UNKNOWN),
+  max_value: (args, env) => (args[0] ? typeArgument(args[0], env) : UNKNOWN),
+  min_value: (args, env) => (args[0] ? typeArgument(args[0], env) : UNKNOWN),
+  keccak256: () => BYTES32,
+  sha256: () => BYTES32,
+  blockhash: () => BYTES32,
+  block_hash: () => BYTES32,
+  ecrecover: () => ADDRESS,
+  concat: (args, env) =>
+    args[0] && inferType(args[0], env).kind === 'string' ? STRING : BYTES,
+  slice: (args, env) => (args[0] ? inferType(args[0], env) : UNKNOWN),
+  extract32: () => BYTES32,
+  method_id: () => ({ kind: 'fixedBytes', size: 4 }),
+  as_wei_value: () => UINT256,
+  // `revert_on_failure=False` returns the success flag instead of the output
+  raw_call: (args, env, keywords) =>
+    keywords.some(
+      (k) =>
+        k.name === 'revert_on_failure' &&
+        k.value.kind === 'BooleanLiteral' &&
+        !k.value.value
+    )
+      ? BOOL
+      : BYTES,
+  uint2str: () => STRING,
+  str: () => STRING,
+};
+
+/**
+ * Infer the static type of an expression. Returns `unknown` rather than
+ * failing when the type cannot be determined; the checker decides whether
+ * that is an error.
+ */
+export function inferType(
+  expression: ast.Expression,
+  env: TypeEnvironment
+): ContractType {
+  const { model } = env;
+
+  switch (expression.kind) {
+    case 'NumberLiteral':
+      return expression.isInteger ? UINT256 : UNKNOWN;
+    case 'StringLiteral':
+      return STRING;
+    case 'BooleanLiteral':
+      return BOOL;
+    case 'NoneLiteral':
+      return UNKNOWN;
+
+    case 'Name': {
+      const local = env.locals.get(expression.id);
+      if (local) return local;
+      if (expression.id === 'self') return ADDRESS;
+      if (BUILTIN_CONSTANTS[expression.id]) {
+        return BUILTIN_CONSTANTS[expression.id];
+      }
+      // Module-style constants are referenced without `self.`
+      const constant = model.stateVariables.get(expression.id);
+      if (constant?.constant) return constant.type;
+      return UNKNOWN;
+    }
+
+    case 'Attribute': {
+      const { object, attr } = expression;
+      if (object.kind === 'Name') {
+        if (object.id === 'self') {
+          if (attr === 'balance') return UINT256;
+          return model.stateVariables.get(attr)?.type ?? UNKNOWN;
+        }
+        if (ENVIRONMENT_MEMBERS[object.id] && !env.locals.has(object.id)) {
+          return ENVIRONMENT_MEMBERS[object.id][attr] ?? UNKNOWN;
+        }
+        if (model.enums.has(object.id)) {
+          return { kind: 'enum', name: object.id };
+        }
+      }
+
+      const objectType = inferType(object, env);
+      if (objectType.kind === 'address') {
+        return ADDRESS_MEMBERS[attr] ?? UNKNOWN;
+      }
+      if (objectType.kind === 'struct') {
+        const field = model.structs
+          .get(objectType.name)
+          ?.fields.find((f) => f.name === attr);
+        return field?.type ?? UNKNOWN;
+      }
+      return UNKNOWN;
+    }
+
+    case 'Subscript': {
+      const objectType = inferType(expression.object, env);
+      switch (objectType.kind) {
+        case 'hashmap':
+          // Tuple keys index nested mappings
+          if (expression.index.kind === 'TupleExpr') {
+            let type: ContractType = objectType;
+            for (let i = 0; i < expression.index.elements.length; i++) {
+              type = type.kind === 'hashmap' ? type.value : UNKNOWN;
+            }
+            return type;
+          }
+          return objectType.value;
+        case 'dynArray':
+        case 'array':
+          return objectType.element;
+        case 'tuple':
+          if (
+            expression.index.kind === 'NumberLiteral' &&
+            expression.index.isInteger
+          ) {
+            return (
+              objectType.elements[Number(expression.index.value)] ?? UNKNOWN
+            );
+          }
+          return UNKNOWN;
+        case 'bytes':
+          return { kind: 'fixedBytes', size: 1 };
+        default:
+          return UNKNOWN;
+      }
+    }
+
+    case 'Call':
+      return inferCallType(expression, env) ?? UNKNOWN;
+
+    case 'BinaryOp': {
+      const left = inferType(expression.left, env);
+      const right = inferType(expression.right, env);
+      if (
+        expression.op === '+' &&
+        (left.kind === 'string' || left.kind === 'bytes')
+      ) {
+        return left;
+      }
+      // Integer literals adopt the type of the other operand
+      if (isIntegerLiteral(expression.left) && isInteger(right)) return right;
+      if (isIntegerLiteral(expression.right) && isInteger(left)) return left;
+      if (
+        expression.op === '**' ||
+        expression.op === '<<' ||
+        expression.op === '>>'
+      ) {
+        return left;
+      }
+      return left.kind !== 'unknown' ? left : right;
+    }
+
+    case 'BoolOp':
+    case 'Compare':
+      return BOOL;
+
+    case 'UnaryOp':
+      if (expression.op === 'not') return BOOL;
+      if (expression.op === '-' && isIntegerLiteral(expression.operand)) {
+        return INT256;
+      }
+      return inferType(expression.operand, env);
+
+    case 'IfExp': {
+      const body = inferType(expression.body, env);
+      return body.kind !== 'unknown' ? body : inferType(expression.orelse, env);
+    }
+
+    case 'ListExpr':
+      return {
+        kind: 'dynArray',
+        element: expression.elements.length
+          ? inferType(expression.elements[0], env)
+          : UNKNOWN,
+      };
+
+    case 'TupleExpr':
+      return {
+        kind: 'tuple',
+        elements: expression.elements.map((element) => inferType(element, env)),
+      };
+
+    case 'DictExpr':
+      return UNKNOWN;
+  }
+}
+
+function inferCallType(
+  call: ast.Call,
+  env: TypeEnvironment
+): ContractType | undefined {
+  const { model } = env;
+  const { callee } = call;
+
+  if (callee.kind === 'Name') {
+    const name = callee.id;
+    if (env.locals.has(name)) return UNKNOWN;
+
+    const builtin = BUILTIN_FUNCTIONS[name];
+    if (builtin) return builtin(call.args, env, call.keywords);
+
+    // Type casts: uint256(x), address(x), bytes32(x)
+    const primitive = primitiveType(name);
+    if (primitive) return primitive;
+
+    if (model.structs.has(name)) return { kind: 'struct', name };
+    if (model.interfaces.has(name) || /^I[A-Z]/.test(name)) {
+      return { kind: 'interface', name };
+    }
+
+    // Module-level helper called without `self.`
+    const fn = model.functions.get(name);
+    return fn ? fn.returns : UNKNOWN;
+  }
+
+  if (callee.kind !== 'Attribute') return UNKNOWN;
+  const { object, attr } = callee;
+
+  if (object.kind === 'Name' && object.id === 'self') {
+    const fn = model.functions.get(attr);
+    return fn ? fn.returns : UNKNOWN;
+  }
+
+  const objectType = inferType(object, env);
+  switch (objectType.kind) {
+    case 'hashmap':
+      return attr === 'get' ? objectType.value : UNKNOWN;
+    case 'dynArray':
+      return attr === 'pop' ? objectType.element : undefined;
+    case 'interface': {
+      const fn = model.interfaces.get(objectType.name)?.functions.get(attr);
+      return fn ? fn.returns : UNKNOWN;
+    }
+    default:
+      return UNKNOWN;
+  }
+}
+
+/** Resolve a type passed as a value, e.g. `convert(x, uint128)` */
+export function typeArgument(
+  expression: ast.Expression,
+  env: TypeEnvironment
+): ContractType {
+  try {
+    return resolveTypeAnnotation(expression, env.model);
+  } catch {
+    return UNKNOWN;
+  }
+}
+
+export function isIntegerLiteral(expression: ast.Expression): boolean {
+  if (expression.kind === 'NumberLiteral') return expression.isInteger;
+  if (expression.kind === 'UnaryOp' && expression.op === '-') {
+    return isIntegerLiteral(expression.operand);
+  }
+  if (expression.kind === 'BinaryOp') {
+    return (
+      isIntegerLiteral(expression.left) && isIntegerLiteral(expression.right)
+    );
+  }
+  return false;
+}
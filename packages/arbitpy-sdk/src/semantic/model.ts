@@ -0,0 +1,1305 @@
+// Contract model: symbol tables built from a parsed module
+import * as ast from '../parser/ast';
+import { CompilationError, CompilationWarning } from '../types';
+import {
+  ContractType,
+  TypeNames,
+  TypeResolutionError,
+  resolveTypeAnnotation,
+  UINT256,
+  UNKNOWN,
+} from './types';
+import { inferType, TypeEnvironment } from './infer';
+
+export type Visibility = 'public' | 'internal';
+export type StateMutability = 'pure' | 'view' | 'nonpayable' | 'payable';
+
+export interface StateVariable {
+  name: string;
+  type: ContractType;
+  public: boolean;
+  constant: boolean;
+  immutable: boolean;
+  /** Initial value of constants and annotated declarations */
+  value?: ast.Expression;
+  /** True when the type was inferred from an assignment in `__init__` */
+  inferred: boolean;
+  node: ast.Node;
+}
+
+export interface ParameterModel {
+  name: string;
+  type: ContractType;
+  default?: ast.Expression;
+  node: ast.Parameter;
+}
+
+export interface FunctionModel {
+  name: string;
+  params: ParameterModel[];
+  returns?: ContractType;
+  visibility: Visibility;
+  mutability: StateMutability;
+  isConstructor: boolean;
+  isFallback: boolean;
+  nonReentrant: boolean;
+  node: ast.FunctionDef;
+}
+
+export interface FieldModel {
+  name: string;
+  type: ContractType;
+  indexed: boolean;
+  node?: ast.Node;
+}
+
+export interface StructModel {
+  name: string;
+  fields: FieldModel[];
+  node: ast.StructDef;
+}
+
+export interface EventModel {
+  name: string;
+  fields: FieldModel[];
+  /** True when synthesized from `emit` call sites */
+  inferred: boolean;
+  node: ast.Node;
+}
+
+export interface ErrorModel {
+  name: string;
+  fields: FieldModel[];
+  node: ast.ErrorDef;
+}
+
+export interface EnumModel {
+  name: string;
+  members: string[];
+  node: ast.EnumDef;
+}
+
+export interface InterfaceFunctionModel {
+  name: string;
+  params: Array<{ name: string; type: ContractType }>;
+  returns?: ContractType;
+  mutability: StateMutability;
+}
+
+export interface InterfaceModel {
+  name: string;
+  functions: Map<string, InterfaceFunctionModel>;
+  /** True when synthesized from call sites or the built-in catalogue */
+  inferred: boolean;
+}
+
+export interface ContractModel {
+  name: string;
+  docstring?: string;
+  style: 'module' | 'class';
+  stateVariables: Map<string, StateVariable>;
+  functions: Map<string, FunctionModel>;
+  structs: Map<string, StructModel>;
+  events: Map<string, EventModel>;
+  /** Custom errors declared with `error Name:` */
+  customErrors: Map<string, ErrorModel>;
+  enums: Map<string, EnumModel>;
+  interfaces: Map<string, InterfaceModel>;
+  /** The `__init__` constructor, if declared */
+  init?: FunctionModel;
+  errors: CompilationError[];
+  warnings: CompilationWarning[];
+}
+
+const VISIBILITY_DECORATORS: Record<string, Visibility> = {
+  external: 'public',
+  public: 'public',
+  internal: 'internal',
+  private: 'internal',
+};
+
+const MUTABILITY_DECORATORS: Record<string, StateMutability> = {
+  view: 'view',
+  constant: 'view',
+  pure: 'pure',
+  payable: 'payable',
+  nonpayable: 'nonpayable',
+};
+
+const KNOWN_DECORATORS = new Set([
+  ...Object.keys(VISIBILITY_DECORATORS),
+  ...Object.keys(MUTABILITY_DECORATORS),
+  'deploy',
+  'nonreentrant',
+]);
+
+/** Built-in interfaces available without a declaration */
+const BUILTIN_INTERFACES: Record<string, InterfaceFunctionModel[]> = {
+  IERC20: [
+    { name: 'totalSupply', params: [], returns: UINT256, mutability: 'view' },
+    {
+      name: 'balanceOf',
+      params: [{ name: 'account', type: { kind: 'address' } }],
+      returns: UINT256,
+      mutability: 'view',
+    },
+    {
+      name: 'allowance',
+      params: [
+        { name: 'owner', type: { kind: 'address' } },
+        { name: 'spender', type: { kind: 'address' } },
+      ],
+      returns: UINT256,
+      mutability: 'view',
+    },
+    {
+      name: 'transfer',
+      params: [
+        { name: 'to', type: { kind: 'address' } },
+        { name: 'amount', type: UINT256 },
+      ],
+      returns: { kind: 'bool' },
+      mutability: 'nonpayable',
+    },
+    {
+      name: 'approve',
+      params: [
+        { name: 'spender', type: { kind: 'address' } },
+        { name: 'amount', type: UINT256 },
+      ],
+      returns: { kind: 'bool' },
+      mutability: 'nonpayable',
+    },
+    {
+      name: 'transferFrom',
+      params: [
+        { name: 'from', type: { kind: 'address' } },
+        { name: 'to', type: { kind: 'address' } },
+        { name: 'amount', type: UINT256 },
+      ],
+      returns: { kind: 'bool' },
+      mutability: 'nonpayable',
+    },
+  ],
+};
+
+/**
+ * Build the contract model for a parsed module. Problems that prevent a
+ * faithful model (unknown types, duplicate names) are collected as
+ * diagnostics rather than thrown.
+ */
+export function buildContractModel(
+  module: ast.Module,
+  options: { contractName?: string } = {}
+): ContractModel {
+  const contracts = module.body.filter(
+    (member): member is ast.ContractDef => member.kind === 'ContractDef'
+  );
+  const looseMembers = module.body.filter(
+    (member): member is ast.ContractMember =>
+      member.kind !== 'ContractDef' && member.kind !== 'ImportFrom'
+  );
+
+  const model: ContractModel = {
+    name: options.contractName ?? 'Contract',
+    docstring: module.docstring,
+    style: 'module',
+    stateVariables: new Map(),
+    functions: new Map(),
+    structs: new Map(),
+    events: new Map(),
+    customErrors: new Map(),
+    enums: new Map(),
+    interfaces: new Map(),
+    errors: [],
+    warnings: [],
+  };
+
+  // Imports are replaced by their declarations in resolveImports()
+  for (const member of module.body) {
+    if (member.kind === 'ImportFrom') {
+      reportError(
+        model,
+        member,
+        `Unresolved import from '${'.'.repeat(member.level)}${member.module}'`
+      );
+    }
+  }
+
+  let members: ast.ContractMember[] = looseMembers;
+  if (contracts.length > 0) {
+    const contract = contracts[0];
+    if (contracts.length > 1) {
+      reportError(
+        model,
+        contracts[1],
+        'Only one contract class per file is supported'
+      );
+    }
+    model.name = options.contractName ?? contract.name;
+    model.docstring = contract.docstring ?? module.docstring;
+    model.style = 'class';
+    // Interfaces, structs and events may still live at module level
+    members = [...looseMembers, ...contract.body];
+  }
+
+  new ModelBuilder(model).build(members);
+  return model;
+}
+
+class ModelBuilder {
+  /** Internal functions without a mutability decorator */
+  private readonly undecorated = new Set<FunctionModel>();
+
+  constructor(private readonly model: ContractModel) {}
+
+  build(members: ast.ContractMember[]): void {
+    const { model } = this;
+
+    // Pass 1: register type names so annotations can refer to them
+    for (const member of members) {
+      switch (member.kind) {
+        case 'StructDef':
+          this.declare(model.structs, member.name, member, {
+            name: member.name,
+            fields: [],
+            node: member,
+          });
+          break;
+        case 'EnumDef':
+          this.declare(model.enums, member.name, member, {
+            name: member.name,
+            members: member.members.map((m) => m.name),
+            node: member,
+          });
+          break;
+        case 'InterfaceDef':
+          this.declare(model.interfaces, member.name, member, {
+            name: member.name,
+            functions: new Map(),
+            inferred: false,
+          });
+          break;
+      }
+    }
+
+    // Pass 2: resolve member types
+    for (const member of members) {
+      switch (member.kind) {
+        case 'StructDef':
+          model.structs.get(member.name)!.fields = member.fields.map(
+            (field) => ({
+              name: field.name,
+              type: this.resolve(field.annotation),
+              indexed: false,
+              node: field,
+            })
+          );
+          break;
+        case 'EventDef':
+          this.declare(model.events, member.name, member, {
+            name: member.name,
+            fields: member.fields.map((field) => this.eventField(field)),
+            inferred: false,
+            node: member,
+          });
+          break;
+        case 'ErrorDef':
+          this.declare(model.customErrors, member.name, member, {
+            name: member.name,
+            fields: member.fields.map((field) => ({
+              name: field.name,
+              type: this.resolve(field.annotation),
+              indexed: false,
+              node: field,
+            })),
+            node: member,
+          });
+          break;
+        case 'InterfaceDef': {
+          const iface = model.interfaces.get(member.name)!;
+          for (const fn of member.functions) {
+            iface.functions.set(fn.name, {
+              name: fn.name,
+              params: fn.params.map((p) => ({
+                name: p.name,
+                type: p.annotation ? this.resolve(p.annotation) : UNKNOWN,
+              })),
+              returns: fn.returns ? this.resolve(fn.returns) : undefined,
+              mutability: fn.mutability,
+            });
+          }
+          break;
+        }
+        case 'StateVariableDecl':
+          this.declareStateVariable(member);
+          break;
+        case 'FunctionDef':
+          this.declareFunction(member);
+          break;
+      }
+    }
+
+    if (model.init && model.style === 'class') {
+      this.inferImplicitState(model.init);
+    }
+    this.inferInterfaces();
+    this.inferEvents();
+    this.inferInternalMutability();
+  }
+
+  private declare<T>(
+    table: Map<string, T>,
+    name: string,
+    node: ast.Node,
+    value: T
+  ): void {
+    if (table.has(name)) {
+      reportError(this.model, node, `'${name}' is already declared`);
+      return;
+    }
+    table.set(name, value);
+  }
+
+  resolve(annotation: ast.Expression): ContractType {
+    try {
+      return resolveTypeAnnotation(annotation, this.typeNames());
+    } catch (error) {
+      if (error instanceof TypeResolutionError) {
+        reportError(this.model, error.node, error.message);
+        return UNKNOWN;
+      }
+      throw error;
+    }
+  }
+
+  private typeNames(): TypeNames {
+    return {
+      structs: this.model.structs,
+      enums: this.model.enums,
+      interfaces: this.model.interfaces,
+    };
+  }
+
+  private eventField(field: ast.FieldDecl): FieldModel {
+    const annotation = field.annotation;
+    if (
+      annotation.kind === 'Call' &&
+      annotation.callee.kind === 'Name' &&
+      annotation.callee.id === 'indexed' &&
+      annotation.args.length === 1
+    ) {
+      return {
+        name: field.name,
+        type: this.resolve(annotation.args[0]),
+        indexed: true,
+        node: field,
+      };
+    }
+    return {
+      name: field.name,
+      type: this.resolve(annotation),
+      indexed: false,
+      node: field,
+    };
+  }
+
+  private declareStateVariable(decl: ast.StateVariableDecl): void {
+    let annotation = decl.annotation;
+    const flags = { public: false, constant: false, immutable: false };
+
+    // Unwrap public(...), constant(...), immutable(...) in any nesting order
+    while (
+      annotation.kind === 'Call' &&
+      annotation.callee.kind === 'Name' &&
+      annotation.args.length === 1 &&
+      ['public', 'constant', 'immutable'].includes(annotation.callee.id)
+    ) {
+      flags[annotation.callee.id as keyof typeof flags] = true;
+      annotation = annotation.args[0];
+    }
+
+    if (flags.constant && !decl.value) {
+      reportError(
+        this.model,
+        decl,
+        `Constant '${decl.name}' must be initialised`
+      );
+    }
+
+    this.declare(this.model.stateVariables, decl.name, decl, {
+      name: decl.name,
+      type: this.resolve(annotation),
+      // Class-style contracts expose every attribute, like Python objects
+      public:
+        flags.public ||
+        (this.model.style === 'class' && !decl.name.startsWith('_')),
+      constant: flags.constant,
+      immutable: flags.immutable,
+      value: decl.value,
+      inferred: false,
+      node: decl,
+    });
+  }
+
+  private declareFunction(def: ast.FunctionDef): void {
+    const decorators = def.decorators.map((d) => d.name);
+    for (const decorator of def.decorators) {
+      if (!KNOWN_DECORATORS.has(decorator.name)) {
+        reportWarning(
+          this.model,
+          decorator,
+          `Unknown decorator '@${decorator.name}' is ignored`
+        );
+      }
+    }
+
+    const isConstructor = def.name === '__init__';
+    const isFallback = def.name === '__default__';
+
+    let visibility: Visibility | undefined;
+    let mutability: StateMutability = 'nonpayable';
+    for (const name of decorators) {
+      if (VISIBILITY_DECORATORS[name]) visibility = VISIBILITY_DECORATORS[name];
+      if (MUTABILITY_DECORATORS[name]) mutability = MUTABILITY_DECORATORS[name];
+    }
+    if (!visibility) {
+      // Vyper defaults to internal; class-style follows Python's `_private` convention
+      visibility =
+        this.model.style === 'class' && !def.name.startsWith('_')
+          ? 'public'
+          : 'internal';
+    }
+
+    // A leading untyped `self` parameter is implicit in the dialect
+    const params = def.params.filter(
+      (param, index) =>
+        !(index === 0 && param.name === 'self' && !param.annotation)
+    );
+
+    const fn: FunctionModel = {
+      name: def.name,
+      params: params.map((param) => {
+        if (!param.annotation) {
+          reportError(
+            this.model,
+            param,
+            `Parameter '${param.name}' needs a type annotation`
+          );
+        }
+        return {
+          name: param.name,
+          type: param.annotation ? this.resolve(param.annotation) : UNKNOWN,
+          default: param.default,
+          node: param,
+        };
+      }),
+      returns: def.returns ? this.resolve(def.returns) : undefined,
+      visibility: isConstructor || isFallback ? 'public' : visibility,
+      mutability,
+      isConstructor,
+      isFallback,
+      nonReentrant: decorators.includes('nonreentrant'),
+      node: def,
+    };
+
+    if (
+      fn.visibility === 'internal' &&
+      !decorators.some((name) => MUTABILITY_DECORATORS[name])
+    ) {
+      this.undecorated.add(fn);
+    }
+
+    if (isConstructor) {
+      if (this.model.init) {
+        reportError(this.model, def, 'Contract already has a constructor');
+        return;
+      }
+      this.model.init = fn;
+      return;
+    }
+
+    this.declare(this.model.functions, def.name, def, fn);
+  }
+
+  /**
+   * Class-style contracts declare state by assigning `self.x` in `__init__`.
+   * Types come from the assigned value; empty dict literals become HashMaps
+   * whose key/value types are inferred from how the contract uses them.
+   */
+  private inferImplicitState(constructor: FunctionModel): void {
+    const env: TypeEnvironment = {
+      model: this.model,
+      locals: new Map(constructor.params.map((p) => [p.name, p.type])),
+    };
+
+    const pending: StateVariable[] = [];
+
+    const visit = (statements: ast.Statement[]) => {
+      for (const statement of statements) {
+        if (statement.kind === 'If') {
+          visit(statement.body);
+          visit(statement.orelse);
+          continue;
+        }
+        if (statement.kind === 'For' || statement.kind === 'While') {
+          visit(statement.body);
+          continue;
+        }
+
+        let target: ast.Expression | undefined;
+        let value: ast.Expression | undefined;
+        let annotation: ast.Expression | undefined;
+        if (statement.kind === 'Assign') {
+          target = statement.target;
+          value = statement.value;
+        } else if (statement.kind === 'AnnAssign') {
+          target = statement.target;
+          value = statement.value;
+          annotation = statement.annotation;
+        } else {
+          continue;
+        }
+
+        if (
+          target.kind !== 'Attribute' ||
+          target.object.kind !== 'Name' ||
+          target.object.id !== 'self'
+        ) {
+          if (target.kind === 'Name' && value) {
+            env.locals.set(
+              target.id,
+              annotation ? this.resolve(annotation) : inferType(value, env)
+            );
+          }
+          continue;
+        }
+
+        const name = target.attr;
+        if (this.model.stateVariables.has(name)) continue;
+
+        const type = value ? this.implicitStateType(value, env) : UNKNOWN;
+        const variable: StateVariable = {
+          name,
+          type,
+          public: !name.startsWith('_'),
+          constant: false,
+          immutable: false,
+          inferred: true,
+          node: statement,
+        };
+        this.model.stateVariables.set(name, variable);
+        if (
+          type.kind === 'unknown' ||
+          (type.kind === 'hashmap' && isPlaceholder(type))
+        ) {
+          pending.push(variable);
+        }
+      }
+    };
+
+    visit(constructor.node.body);
+
+    for (const variable of pending) {
+      const type = inferFromUsage(variable.name, this.model, variable.type);
+      if (type) {
+        variable.type = type;
+      } else {
+        reportWarning(
+          this.model,
+          variable.node,
+          `Cannot infer the type of 'self.${variable.name}' because it is never used; it will be omitted`
+        );
+        this.model.stateVariables.delete(variable.name);
+      }
+    }
+  }
+
+  private implicitStateType(
+    value: ast.Expression,
+    env: TypeEnvironment
+  ): ContractType {
+    // `self.queue = DynArray[address, 20]` declares an empty array
+    if (
+      value.kind === 'Subscript' &&
+      value.object.kind === 'Name' &&
+      ['DynArray', 'HashMap'].includes(value.object.id)
+    ) {
+      return this.resolve(value);
+    }
+    if (value.kind === 'DictExpr' && value.entries.length === 0) {
+      return { kind: 'hashmap', key: UNKNOWN, value: UNKNOWN };
+    }
+    if (value.kind === 'DictExpr') {
+      const [first] = value.entries;
+      return {
+        kind: 'hashmap',
+        key: inferType(first.key, env),
+        value: inferType(first.value, env),
+      };
+    }
+    if (value.kind === 'ListExpr') {
+      if (value.elements.length === 0) {
+        return { kind: 'dynArray', element: UNKNOWN };
+      }
+      return {
+        kind: 'array',
+        element: inferType(value.elements[0], env),
+        length: value.elements.length,
+      };
+    }
+    return inferType(value, env);
+  }
+
+  /**
+   * Calls on interface-typed values that have no declaration get an
+   * interface synthesized from the call sites.
+   */
+  private inferInterfaces(): void {
+    const { model } = this;
+    const used = new Set<string>();
+    for (const variable of model.stateVariables.values()) {
+      collectInterfaceNames(variable.type, used);
+    }
+
+    const functions = [...model.functions.values()];
+    if (model.init) functions.push(model.init);
+    for (const fn of functions) {
+      for (const param of fn.params) collectInterfaceNames(param.type, used);
+      forEachStatement(fn.node.body, (statement) =>
+        forEachExpression([statement], (expression) => {
+          if (
+            expression.kind === 'Call' &&
+            expression.callee.kind === 'Name' &&
+            /^I[A-Z]/.test(expression.callee.id) &&
+            !model.structs.has(expression.callee.id)
+          ) {
+            used.add(expression.callee.id);
+          }
+        })
+      );
+    }
+
+    for (const name of used) {
+      if (model.interfaces.has(name)) continue;
+      // `IERC20Votes` starts from the IERC20 catalogue
+      const base = Object.keys(BUILTIN_INTERFACES).find((builtin) =>
+        name.startsWith(builtin)
+      );
+      const builtin = base ? BUILTIN_INTERFACES[base] : [];
+      model.interfaces.set(name, {
+        name,
+        functions: new Map(builtin.map((fn) => [fn.name, fn])),
+        inferred: true,
+      });
+    }
+
+    // Functions missing from inferred interfaces are taken from call sites
+    for (const fn of functions) {
+      walkFunction(model, fn, (statement, env) => {
+        forEachExpression([statement], (expression) => {
+          if (
+            expression.kind !== 'Call' ||
+            expression.callee.kind !== 'Attribute'
+          ) {
+            return;
+          }
+          const objectType = inferType(expression.callee.object, env);
+          if (objectType.kind !== 'interface') return;
+          const iface = model.interfaces.get(objectType.name);
+          const name = expression.callee.attr;
+          if (!iface?.inferred || iface.functions.has(name)) return;
+
+          const usedAsValue = !(
+            statement.kind === 'ExpressionStatement' &&
+            statement.expression === expression
+          );
+          iface.functions.set(name, {
+            name,
+            params: expression.args.map((arg, index) => {
+              const type = inferType(arg, env);
+              return {
+                name: `arg${index}`,
+                type: type.kind === 'unknown' ? UINT256 : type,
+              };
+            }),
+            returns: usedAsValue ? UINT256 : undefined,
+            mutability: 'nonpayable',
+          });
+          reportWarning(
+            model,
+            expression,
+            `'${objectType.name}.${name}' is not declared; its signature was inferred from this call`
+          );
+        });
+      });
+    }
+  }
+
+  /**
+   * Class-style contracts often emit events without declaring them; the
+   * signature is taken from the first emit site.
+   */
+  private inferEvents(): void {
+    const { model } = this;
+    const functions = [...model.functions.values()];
+    if (model.init) functions.unshift(model.init);
+
+    for (const fn of functions) {
+      walkFunction(model, fn, (statement, env) => {
+        if (statement.kind !== 'Emit' || model.events.has(statement.event)) {
+          return;
+        }
+        const fields: FieldModel[] = [
+          ...statement.args.map((arg, index) => ({
+            name: fieldNameFor(arg, index),
+            type: inferType(arg, env),
+            indexed: false,
+          })),
+          ...statement.keywords.map((keyword) => ({
+            name: keyword.name,
+            type: inferType(keyword.value, env),
+            indexed: false,
+          })),
+        ];
+        const seen = new Set<string>();
+        fields.forEach((field, index) => {
+          if (field.type.kind === 'unknown') field.type = UINT256;
+          if (seen.has(field.name)) field.name = `arg${index}`;
+          seen.add(field.name);
+        });
+        model.events.set(statement.event, {
+          name: statement.event,
+          fields,
+          inferred: true,
+          node: statement,
+        });
+        reportWarning(
+          model,
+          statement,
+          `Event '${statement.event}' is not declared; its signature was inferred from this emit`
+        );
+      });
+    }
+  }
+
+  /**
+   * Internal helpers are often left undecorated even when they only read
+   * state. Their mutability is inferred so that view functions may call
+   * them.
+   */
+  private inferInternalMutability(): void {
+    const { model } = this;
+    for (const fn of this.undecorated) fn.mutability = 'pure';
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const fn of this.undecorated) {
+        const mutability = bodyMutability(model, fn);
+        if (mutability !== fn.mutability) {
+          fn.mutability = mutability;
+          changed = true;
+        }
+      }
+    }
+  }
+}
+
+function fieldNameFor(expression: ast.Expression, index: number): string {
+  if (expression.kind === 'Name' && !/^[A-Z0-9_]+$/.test(expression.id)) {
+    return expression.id;
+  }
+  if (expression.kind === 'Attribute') return expression.attr;
+  return `arg${index}`;
+}
+
+const MUTABILITY_ORDER: StateMutability[] = ['pure', 'view', 'nonpayable'];
+
+/** The least restrictive mutability required by a function body */
+function bodyMutability(
+  model: ContractModel,
+  fn: FunctionModel
+): StateMutability {
+  let level = 0;
+  const need = (mutability: StateMutability) => {
+    level = Math.max(level, MUTABILITY_ORDER.indexOf(mutability));
+  };
+
+  walkFunction(model, fn, (statement, env) => {
+    if (
+      (statement.kind === 'Assign' || statement.kind === 'AugAssign') &&
+      isStateRooted(statement.target)
+    ) {
+      need('nonpayable');
+    }
+    if (statement.kind === 'Emit') need('nonpayable');
+
+    forEachExpression([statement], (expression) => {
+      if (expression.kind === 'Name' && expression.id === 'self') {
+        need('view');
+      }
+      if (
+        expression.kind === 'Attribute' &&
+        expression.object.kind === 'Name' &&
+        ['msg', 'block', 'tx', 'chain'].includes(expression.object.id) &&
+        !env.locals.has(expression.object.id)
+      ) {
+        need(
+          expression.object.id === 'msg' && expression.attr === 'value'
+            ? 'nonpayable'
+            : 'view'
+        );
+      }
+      if (expression.kind !== 'Call') return;
+
+      const { callee } = expression;
+      if (callee.kind === 'Name') {
+        if (['raw_call', 'send', 'selfdestruct'].includes(callee.id)) {
+          need('nonpayable');
+        }
+        const helper = model.functions.get(callee.id);
+        if (helper) need(callMutability(helper.mutability));
+        return;
+      }
+      if (callee.kind !== 'Attribute') return;
+
+      if (isSelf(callee.object)) {
+        const method = model.functions.get(callee.attr);
+        need(method ? callMutability(method.mutability) : 'nonpayable');
+        return;
+      }
+      if (
+        ['append', 'pop'].includes(callee.attr) &&
+        isStateRooted(callee.object)
+      ) {
+        need('nonpayable');
+      }
+      const objectType = inferType(callee.object, env);
+      if (objectType.kind === 'interface') {
+        const target = model.interfaces
+          .get(objectType.name)
+          ?.functions.get(callee.attr);
+        need(target ? callMutability(target.mutability) : 'nonpayable');
+      }
+    });
+  });
+
+  return MUTABILITY_ORDER[level];
+}
+
+function callMutability(mutability: StateMutability): StateMutability {
+  return mutability === 'payable' ? 'nonpayable' : mutability;
+}
+
+function isSelf(expression: ast.Expression): boolean {
+  return expression.kind === 'Name' && expression.id === 'self';
+}
+
+/** `self.x` */
+export function isStateAccess(
+  expression: ast.Expression
+): expression is ast.Attribute {
+  return expression.kind === 'Attribute' && isSelf(expression.object);
+}
+
+/** True when an lvalue lives in storage (`self.x[...]...`) */
+export function isStateRooted(expression: ast.Expression): boolean {
+  if (expression.kind === 'Subscript' || expression.kind === 'Attribute') {
+    return isStateAccess(expression) || isStateRooted(expression.object);
+  }
+  return false;
+}
+
+/** The custom error thrown by `raise Name(...)` or a bare `raise Name` */
+export function raisedError(
+  model: ContractModel,
+  statement: ast.Raise
+): ErrorModel | undefined {
+  let exception = statement.exception;
+  if (exception?.kind === 'Call') exception = exception.callee;
+  return exception?.kind === 'Name'
+    ? model.customErrors.get(exception.id)
+    : undefined;
+}
+
+function isPlaceholder(type: ContractType): boolean {
+  if (type.kind === 'unknown') return true;
+  if (type.kind === 'hashmap')
+    return isPlaceholder(type.key) || isPlaceholder(type.value);
+  if (type.kind === 'dynArray') return isPlaceholder(type.element);
+  return false;
+}
+
+function collectInterfaceNames(type: ContractType, into: Set<string>): void {
+  switch (type.kind) {
+    case 'interface':
+      into.add(type.name);
+      break;
+    case 'hashmap':
+      collectInterfaceNames(type.key, into);
+      collectInterfaceNames(type.value, into);
+      break;
+    case 'dynArray':
+    case 'array':
+      collectInterfaceNames(type.element, into);
+      break;
+  }
+}
+
+/**
+ * Infer the type of an implicitly declared HashMap from the way the
+ * contract indexes it: `self.m[k] = v`, `self.m.get(k, d)`,
+ * `self.m[(a, b)]` (nested keys), `self.m[a][b] += v`.
+ */
+function inferFromUsage(
+  name: string,
+  model: ContractModel,
+  seed: ContractType
+): ContractType | undefined {
+  let found: ContractType | undefined;
+
+  const functions = [...model.functions.values()];
+  if (model.init) functions.unshift(model.init);
+
+  for (const fn of functions) {
+    if (found && !isPlaceholder(found)) break;
+
+    walkFunction(model, fn, (statement, env) => {
+      if (found && !isPlaceholder(found)) return;
+
+      const candidates: Array<{
+        expression: ast.Expression;
+        valueType?: ContractType;
+      }> = [];
+      if (statement.kind === 'Assign' || statement.kind === 'AugAssign') {
+        candidates.push({
+          expression: statement.target,
+          valueType: inferType(statement.value, env),
+        });
+      }
+      forEachExpression([statement], (expression) =>
+        candidates.push({ expression })
+      );
+
+      for (const { expression, valueType } of candidates) {
+        const shape = usageShape(expression, name, env, valueType);
+        if (shape) {
+          found = mergeTypes(found ?? seed, shape);
+        }
+      }
+    });
+  }
+
+  return found && !isPlaceholder(found) ? found : undefined;
+}
+
+/** Reconstruct the map type implied by one access expression */
+function usageShape(
+  expression: ast.Expression,
+  name: string,
+  env: TypeEnvironment,
+  valueType?: ContractType
+): ContractType | undefined {
+  // `self.m.get(k, default)`
+  if (
+    expression.kind === 'Call' &&
+    expression.callee.kind === 'Attribute' &&
+    expression.callee.attr === 'get' &&
+    expression.args.length >= 1
+  ) {
+    const keys = accessKeys(expression.callee.object, name, env);
+    if (keys) {
+      const last = inferType(expression.args[0], env);
+      const value = expression.args[1]
+        ? inferType(expression.args[1], env)
+        : UNKNOWN;
+      return nest([...keys, ...splitKey(expression.args[0], last, env)], value);
+    }
+  }
+
+  const keys = accessKeys(expression, name, env);
+  if (keys && keys.length > 0) {
+    return nest(keys, valueType ?? UNKNOWN);
+  }
+  return undefined;
+}
+
+function accessKeys(
+  expression: ast.Expression,
+  name: string,
+  env: TypeEnvironment
+): ContractType[] | undefined {
+  if (
+    expression.kind === 'Attribute' &&
+    expression.object.kind === 'Name' &&
+    expression.object.id === 'self' &&
+    expression.attr === name
+  ) {
+    return [];
+  }
+  if (expression.kind === 'Subscript') {
+    const keys = accessKeys(expression.object, name, env);
+    if (!keys) return undefined;
+    return [
+      ...keys,
+      ...splitKey(expression.index, inferType(expression.index, env), env),
+    ];
+  }
+  return undefined;
+}
+
+function splitKey(
+  index: ast.Expression,
+  type: ContractType,
+  env: TypeEnvironment
+): ContractType[] {
+  // Tuple keys model nested mappings: m[(a, b)] == m[a][b]
+  if (index.kind === 'TupleExpr') {
+    return index.elements.map((element) => inferType(element, env));
+  }
+  return [type];
+}
+
+function nest(keys: ContractType[], value: ContractType): ContractType {
+  return keys.reduceRight<ContractType>(
+    (inner, key) => ({ kind: 'hashmap', key, value: inner }),
+    value
+  );
+}
+
+function mergeTypes(a: ContractType, b: ContractType): ContractType {
+  if (a.kind === 'unknown') return b;
+  if (b.kind === 'unknown') return a;
+  if (a.kind === 'hashmap' && b.kind === 'hashmap') {
+    return {
+      kind: 'hashmap',
+      key: mergeTypes(a.key, b.key),
+      value: mergeTypes(a.value, b.value),
+    };
+  }
+  return a;
+}
+
+function safeResolve(
+  annotation: ast.Expression,
+  model: ContractModel
+): ContractType {
+  try {
+    return resolveTypeAnnotation(annotation, model);
+  } catch {
+    return UNKNOWN;
+  }
+}
+
+interface Located {
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+  file?: string;
+}
+
+export function reportError(
+  model: ContractModel,
+  node: Located,
+  message: string
+): void {
+  model.errors.push({
+    message,
+    line: node.line,
+    column: node.column,
+    endLine: node.endLine,
+    endColumn: node.endColumn,
+    severity: 'error',
+    ...(node.file ? { file: node.file } : {}),
+  });
+}
+
+export function reportWarning(
+  model: ContractModel,
+  node: Located,
+  message: string
+): void {
+  model.warnings.push({
+    message,
+    line: node.line,
+    column: node.column,
+    endLine: node.endLine,
+    endColumn: node.endColumn,
+    severity: 'warning',
+    ...(node.file ? { file: node.file } : {}),
+  });
+}
+
+/**
+ * Visit the statements of a function in source order while tracking the
+ * types of its parameters and local variables.
+ */
+export function walkFunction(
+  model: ContractModel,
+  fn: FunctionModel,
+  callback: (statement: ast.Statement, env: TypeEnvironment) => void
+): void {
+  const env: TypeEnvironment = {
+    model,
+    locals: new Map(fn.params.map((p) => [p.name, p.type])),
+  };
+
+  forEachStatement(fn.node.body, (statement) => {
+    if (statement.kind === 'Assign' && statement.target.kind === 'Name') {
+      if (!env.locals.has(statement.target.id)) {
+        env.locals.set(statement.target.id, inferType(statement.value, env));
+      }
+    } else if (
+      statement.kind === 'Assign' &&
+      statement.target.kind === 'TupleExpr'
+    ) {
+      const valueType = inferType(statement.value, env);
+      statement.target.elements.forEach((element, index) => {
+        if (element.kind === 'Name' && !env.locals.has(element.id)) {
+          env.locals.set(
+            element.id,
+            valueType.kind === 'tuple'
+              ? (valueType.elements[index] ?? UNKNOWN)
+              : UNKNOWN
+          );
+        }
+      });
+    } else if (statement.kind === 'AnnAssign') {
+      env.locals.set(
+        statement.target.id,
+        safeResolve(statement.annotation, model)
+      );
+    } else if (statement.kind === 'For') {
+      env.locals.set(statement.target.id, loopVariableType(statement, env));
+    }
+    callback(statement, env);
+  });
+}
+
+export function loopVariableType(
+  statement: ast.For,
+  env: TypeEnvironment
+): ContractType {
+  if (statement.annotation) {
+    return safeResolve(statement.annotation, env.model);
+  }
+  const iterType = inferType(statement.iter, env);
+  if (iterType.kind === 'dynArray' || iterType.kind === 'array') {
+    return iterType.element;
+  }
+  if (iterType.kind === 'hashmap') {
+    return iterType.key;
+  }
+  return UINT256;
+}
+
+/** Visit every statement, including nested blocks, in source order */
+export function forEachStatement(
+  statements: ast.Statement[],
+  callback: (statement: ast.Statement) => void
+): void {
+  for (const statement of statements) {
+    callback(statement);
+    switch (statement.kind) {
+      case 'If':
+        forEachStatement(statement.body, callback);
+        forEachStatement(statement.orelse, callback);
+        break;
+      case 'For':
+      case 'While':
+        forEachStatement(statement.body, callback);
+        break;
+    }
+  }
+}
+
+/** Visit every expression directly owned by the given statements */
+export function forEachExpression(
+  statements: ast.Statement[],
+  callback: (expression: ast.Expression) => void
+): void {
+  const visit = (expression: ast.Expression | undefined): void => {
+    if (!expression) return;
+    callback(expression);
+    switch (expression.kind) {
+      case 'Attribute':
+        visit(expression.object);
+        break;
+      case 'Subscript':
+        visit(expression.object);
+        visit(expression.index);
+        break;
+      case 'Call':
+        visit(expression.callee);
+        expression.args.forEach(visit);
+        expression.keywords.forEach((keyword) => visit(keyword.value));
+        break;
+      case 'BinaryOp':
+      case 'BoolOp':
+      case 'Compare':
+        visit(expression.left);
+        visit(expression.right);
+        break;
+      case 'UnaryOp':
+        visit(expression.operand);
+        break;
+      case 'IfExp':
+        visit(expression.test);
+        visit(expression.body);
+        visit(expression.orelse);
+        break;
+      case 'ListExpr':
+      case 'TupleExpr':
+        expression.elements.forEach(visit);
+        break;
+      case 'DictExpr':
+        expression.entries.forEach((entry) => {
+          visit(entry.key);
+          visit(entry.value);
+        });
+        break;
+    }
+  };
+
+  for (const statement of statements) {
+    switch (statement.kind) {
+      case 'ExpressionStatement':
+        visit(statement.expression);
+        break;
+      case 'Assign':
+        visit(statement.target);
+        visit(statement.value);
+        break;
+      case 'AnnAssign':
+        visit(statement.value);
+        break;
+      case 'AugAssign':
+        visit(statement.target);
+        visit(statement.value);
+        break;
+      case 'Return':
+        visit(statement.value);
+        break;
+      case 'If':
+      case 'While':
+        visit(statement.test);
+        break;
+      case 'For':
+        visit(statement.iter);
+        break;
+      case 'Assert':
+        visit(statement.test);
+        visit(statement.message);
+        break;
+      case 'Raise':
+        visit(statement.exception);
+        break;
+      case 'Emit':
+        statement.args.forEach(visit);
+        statement.keywords.forEach((keyword) => visit(keyword.value));
+        break;
+    }
+  }
+}
@@ -0,0 +1,261 @@
+// Type representation for the ArbitPy Python dialect
+import * as ast from '../parser/ast';
+
+export type ContractType =
+  | { kind: 'uint'; bits: number }
+  | { kind: 'int'; bits: number }
+  | { kind: 'address' }
+  | { kind: 'bool' }
+  | { kind: 'fixedBytes'; size: number }
+  | { kind: 'bytes'; maxLength?: number }
+  | { kind: 'string'; maxLength?: number }
+  | { kind: 'hashmap'; key: ContractType; value: ContractType }
+  | { kind: 'dynArray'; element: ContractType; maxLength?: number }
+  | { kind: 'array'; element: ContractType; length: number }
+  | { kind: 'struct'; name: string }
+  | { kind: 'enum'; name: string }
+  | { kind: 'interface'; name: string }
+  | { kind: 'tuple'; elements: ContractType[] }
+  | { kind: 'unknown' };
+
+export const UINT256: ContractType = { kind: 'uint', bits: 256 };
+export const INT256: ContractType = { kind: 'int', bits: 256 };
+export const ADDRESS: ContractType = { kind: 'address' };
+export const BOOL: ContractType = { kind: 'bool' };
+export const BYTES32: ContractType = { kind: 'fixedBytes', size: 32 };
+export const STRING: ContractType = { kind: 'string' };
+export const BYTES: ContractType = { kind: 'bytes' };
+export const UNKNOWN: ContractType = { kind: 'unknown' };
+
+/** Names of user-defined types visible while resolving annotations */
+export interface TypeNames {
+  structs: ReadonlySet<string> | ReadonlyMap<string, unknown>;
+  enums: ReadonlySet<string> | ReadonlyMap<string, unknown>;
+  interfaces: ReadonlySet<string> | ReadonlyMap<string, unknown>;
+}
+
+export class TypeResolutionError extends Error {
+  constructor(
+    message: string,
+    public readonly node: ast.Expression
+  ) {
+    super(message);
+    this.name = 'TypeResolutionError';
+  }
+}
+
+/**
+ * Parse a primitive type name such as `uint256`, `int128`, `bytes32`.
+ */
+export function primitiveType(name: string): ContractType | undefined {
+  if (name === 'address') return ADDRESS;
+  if (name === 'bool') return BOOL;
+  if (name === 'string') return STRING;
+  if (name === 'bytes') return BYTES;
+
+  const int = /^(u?)int(\d*)$/.exec(name);
+  if (int) {
+    const bits = int[2] ? Number(int[2]) : 256;
+    if (bits >= 8 && bits <= 256 && bits % 8 === 0) {
+      return { kind: int[1] ? 'uint' : 'int', bits };
+    }
+    return undefined;
+  }
+
+  const fixed = /^bytes(\d+)$/.exec(name);
+  if (fixed) {
+    const size = Number(fixed[1]);
+    if (size >= 1 && size <= 32) return { kind: 'fixedBytes', size };
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve a type annotation expression (`HashMap[address, uint256]`,
+ * `DynArray[uint256, 10]`, `String[64]`, ...) into a ContractType.
+ */
+export function resolveTypeAnnotation(
+  expression: ast.Expression,
+  names: TypeNames
+): ContractType {
+  switch (expression.kind) {
+    case 'Name': {
+      const primitive = primitiveType(expression.id);
+      if (primitive) return primitive;
+      if (names.structs.has(expression.id)) {
+        return { kind: 'struct', name: expression.id };
+      }
+      if (names.enums.has(expression.id)) {
+        return { kind: 'enum', name: expression.id };
+      }
+      if (
+        names.interfaces.has(expression.id) ||
+        /^I[A-Z]/.test(expression.id)
+      ) {
+        return { kind: 'interface', name: expression.id };
+      }
+      if (expression.id === 'decimal') {
+        throw new TypeResolutionError(
+          'The decimal type is not supported',
+          expression
+        );
+      }
+      throw new TypeResolutionError(
+        `Unknown type '${expression.id}'`,
+        expression
+      );
+    }
+
+    case 'Subscript': {
+      const base = expression.object;
+      const args =
+        expression.index.kind === 'TupleExpr'
+          ? expression.index.elements
+          : [expression.index];
+
+      if (base.kind === 'Name') {
+        switch (base.id) {
+          case 'HashMap': {
+            expectArity(expression, args, 2);
+            return {
+              kind: 'hashmap',
+              key: resolveTypeAnnotation(args[0], names),
+              value: resolveTypeAnnotation(args[1], names),
+            };
+          }
+          case 'DynArray': {
+            expectArity(expression, args, 2);
+            return {
+              kind: 'dynArray',
+              element: resolveTypeAnnotation(args[0], names),
+              maxLength: integerArgument(args[1]),
+            };
+          }
+          case 'String':
+            expectArity(expression, args, 1);
+            return { kind: 'string', maxLength: integerArgument(args[0]) };
+          case 'Bytes':
+            expectArity(expression, args, 1);
+            return { kind: 'bytes', maxLength: integerArgument(args[0]) };
+        }
+      }
+
+      // Fixed-size array: `uint256[10]`
+      expectArity(expression, args, 1);
+      return {
+        kind: 'array',
+        element: resolveTypeAnnotation(base, names),
+        length: integerArgument(args[0]),
+      };
+    }
+
+    case 'TupleExpr':
+      return {
+        kind: 'tuple',
+        elements: expression.elements.map((element) =>
+          resolveTypeAnnotation(element, names)
+        ),
+      };
+
+    default:
+      throw new TypeResolutionError('Invalid type annotation', expression);
+  }
+}
+
+function expectArity(
+  node: ast.Subscript,
+  args: ast.Expression[],
+  count: number
+): void {
+  if (args.length !== count) {
+    throw new TypeResolutionError(
+      `Type expects ${count} argument${count === 1 ? '' : 's'}, got ${args.length}`,
+      node
+    );
+  }
+}
+
+function integerArgument(expression: ast.Expression): number {
+  if (expression.kind === 'NumberLiteral' && expression.isInteger) {
+    return Number(expression.value);
+  }
+  throw new TypeResolutionError('Expected an integer literal', expression);
+}
+
+/**
+ * Render a type in dialect notation, used in diagnostics.
+ */
+export function formatType(type: ContractType): string {
+  switch (type.kind) {
+    case 'uint':
+      return `uint${type.bits}`;
+    case 'int':
+      return `int${type.bits}`;
+    case 'address':
+    case 'bool':
+      return type.kind;
+    case 'fixedBytes':
+      return `bytes${type.size}`;
+    case 'bytes':
+      return type.maxLength !== undefined
+        ? `Bytes[${type.maxLength}]`
+        : 'Bytes';
+    case 'string':
+      return type.maxLength !== undefined
+        ? `String[${type.maxLength}]`
+        : 'String';
+    case 'hashmap':
+      return `HashMap[${formatType(type.key)}, ${formatType(type.value)}]`;
+    case 'dynArray':
+      return type.maxLength !== undefined
+        ? `DynArray[${formatType(type.element)}, ${type.maxLength}]`
+        : `DynArray[${formatType(type.element)}]`;
+    case 'array':
+      return `${formatType(type.element)}[${type.length}]`;
+    case 'struct':
+    case 'enum':
+    case 'interface':
+      return type.name;
+    case 'tuple':
+      return `(${type.elements.map(formatType).join(', ')})`;
+    case 'unknown':
+      return 'unknown';
+  }
+}
+
+export function typesEqual(a: ContractType, b: ContractType): boolean {
+  return formatType(a) === formatType(b);
+}
+
+export function isInteger(
+  type: ContractType
+): type is { kind: 'uint' | 'int'; bits: number } {
+  return type.kind === 'uint' || type.kind === 'int';
+}
+
+/** Types stored by reference, which need a data location in Solidity */
+export function isReferenceType(type: ContractType): boolean {
+  switch (type.kind) {
+    case 'bytes':
+    case 'string':
+    case 'dynArray':
+    case 'array':
+    case 'struct':
+      return true;
+    default:
+      return false;
+  }
+}
+
+/** Fixed and dynamic arrays, which public getters index into */
+export function isArrayType(
+  type: ContractType
+): type is Extract<ContractType, { kind: 'array' | 'dynArray' }> {
+  return type.kind === 'array' || type.kind === 'dynArray';
+}
+
+/** Types that can only live in storage */
+export function containsMapping(type: ContractType): boolean {
+  return type.kind === 'hashmap';
+}
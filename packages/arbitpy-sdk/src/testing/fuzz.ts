@@ -0,0 +1,552 @@
+// Property-based fuzzing of contract functions against @invariant functions
+import { ethers } from 'ethers';
+import { Devnet } from '../devnet';
+import { ArbitPyError } from '../errors';
+import type { CompilationError } from '../types';
+import {
+  DeployedContract,
+  TestFailureError,
+  TestInterpreter,
+  type ContractArtifact,
+  type TestFrame,
+  type Value,
+} from './interpreter';
+import {
+  bindContracts,
+  diagnostic,
+  parseTests,
+  resolveFixtures,
+  type ParsedTests,
+} from './suite';
+
+export interface FuzzOptions {
+  /** Path of the test file, used in traces; defaults to 'test_contract.py' */
+  path?: string;
+  /** Compiled contracts by name; the test file imports them by that name */
+  artifacts: Record<string, ContractArtifact>;
+  /** Devnet to run on; a fresh one is created by default */
+  devnet?: Devnet;
+  /** Call sequences to run; defaults to 50 */
+  runs?: number;
+  /** Calls per sequence; defaults to 20 */
+  depth?: number;
+  /** Seed of the random inputs, to repeat a campaign; random by default */
+  seed?: number;
+  /** Number of devnet accounts calls are sent from; defaults to 3 */
+  senders?: number;
+}
+
+export interface FixtureOptions {
+  path?: string;
+  artifacts: Record<string, ContractArtifact>;
+  /** Devnet the fixtures deploy to; their state is left there */
+  devnet: Devnet;
+}
+
+/** One transaction of a fuzzed call sequence */
+export interface FuzzCall {
+  /** Fixture that returned the called contract */
+  target: string;
+  contract: string;
+  address: string;
+  /** Function signature, like `transfer(address,uint256)` */
+  function: string;
+  args: unknown[];
+  sender: string;
+  /** Wei sent along; only payable functions get any */
+  value: bigint;
+  reverted: boolean;
+}
+
+export interface InvariantViolation {
+  invariant: string;
+  message: string;
+  line: number;
+  column: number;
+  trace: TestFrame[];
+  /** Calls that break the invariant, starting from the fixtures' state */
+  sequence: FuzzCall[];
+  /** Length of the sequence before it was shrunk */
+  originalLength: number;
+}
+
+export interface FuzzReport {
+  path: string;
+  /** Pass it back as `seed` to run the same sequences again */
+  seed: number;
+  invariants: string[];
+  /** Sequences run, not counting replays while shrinking */
+  runs: number;
+  calls: number;
+  /** The first violation found of each invariant */
+  violations: InvariantViolation[];
+  /** Problems with the test file or its fixtures; fuzzing stops at them */
+  errors: CompilationError[];
+}
+
+/** A contract the fixtures deployed, with the functions to fuzz */
+interface Target {
+  fixture: string;
+  contract: DeployedContract;
+  functions: ethers.FunctionFragment[];
+}
+
+interface Campaign {
+  devnet: Devnet;
+  path: string;
+  source: string;
+  parsed: ParsedTests;
+  names: Record<string, Value>;
+}
+
+type Violation = Omit<InvariantViolation, 'sequence' | 'originalLength'>;
+
+interface Outcome {
+  calls: FuzzCall[];
+  violation?: Violation;
+}
+
+/** The next call of a sequence, or undefined to end it */
+type NextCall = (targets: Target[], step: number) => FuzzCall | undefined;
+
+// Replays spent shrinking one violation
+const MAX_SHRINK_RUNS = 200;
+
+const STRINGS = ['', 'a', 'arbitpy', 'ünïcödé', 'x'.repeat(64)];
+
+/**
+ * Call the state-changing functions of every contract the invariants'
+ * fixtures deploy with random arguments, senders and values, checking each
+ * `@invariant` function after every call. A violation's call sequence is
+ * shrunk by dropping calls and lowering integers while it still breaks the
+ * same invariant.
+ */
+export async function fuzzInvariants(
+  source: string,
+  options: FuzzOptions
+): Promise<FuzzReport> {
+  const path = options.path ?? 'test_contract.py';
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+  const parsed = parseTests(source);
+  const { names, errors: bindErrors } = bindContracts(
+    parsed.imports,
+    options.artifacts
+  );
+  const errors = [...parsed.errors, ...bindErrors];
+  const report: FuzzReport = {
+    path,
+    seed,
+    invariants: parsed.invariants.map(({ name }) => name),
+    runs: 0,
+    calls: 0,
+    violations: [],
+    errors: errors.map((error) => ({ ...error, file: path })),
+  };
+  if (errors.length > 0 || parsed.invariants.length === 0) return report;
+
+  const devnet = options.devnet ?? new Devnet();
+  const campaign: Campaign = { devnet, path, source, parsed, names };
+  const random = new Random(seed);
+  const depth = options.depth ?? 20;
+  const senders = devnet.accounts
+    .slice(0, options.senders ?? 3)
+    .map(({ address }) => address);
+
+  try {
+    for (let run = 0; run < (options.runs ?? 50); run++) {
+      if (report.violations.length === parsed.invariants.length) break;
+
+      const outcome = await runSequence(campaign, (targets, step) =>
+        step < depth ? randomCall(random, targets, senders) : undefined
+      );
+      report.runs++;
+      report.calls += outcome.calls.length;
+
+      const { violation } = outcome;
+      if (
+        !violation ||
+        report.violations.some(
+          ({ invariant }) => invariant === violation.invariant
+        )
+      ) {
+        continue;
+      }
+      const shrunk = await shrink(campaign, outcome.calls, violation);
+      report.violations.push({
+        ...shrunk.violation,
+        sequence: shrunk.calls,
+        originalLength: outcome.calls.length,
+      });
+    }
+  } catch (error) {
+    if (!(error instanceof TestFailureError)) throw error;
+    report.errors.push({
+      ...diagnostic(error.node, error.message),
+      file: path,
+    });
+  } finally {
+    if (!options.devnet) devnet.getProvider().destroy();
+  }
+  return report;
+}
+
+/**
+ * Run the fixtures the invariants take and leave their state on the
+ * devnet, so that a violation's sequence can be replayed by hand. Returns
+ * the address of each fixture that returned a contract.
+ */
+export async function deployFixtures(
+  source: string,
+  options: FixtureOptions
+): Promise<Record<string, string>> {
+  const path = options.path ?? 'test_contract.py';
+  const parsed = parseTests(source);
+  const { names, errors } = bindContracts(parsed.imports, options.artifacts);
+  const [error] = [...parsed.errors, ...errors];
+  if (error) {
+    throw new ArbitPyError(`${path}:${error.line}: ${error.message}`, {
+      code: 'INVALID_TEST_FILE',
+    });
+  }
+
+  const interpreter = new TestInterpreter(options.devnet, path, source, names, [
+    ...parsed.functions.values(),
+  ]);
+  const values = new Map<string, Value>();
+  try {
+    for (const invariant of parsed.invariants) {
+      await resolveFixtures(interpreter, invariant, parsed.functions, values);
+    }
+  } catch (error) {
+    if (!(error instanceof TestFailureError)) throw error;
+    throw new ArbitPyError(`${path}:${error.node.line}: ${error.message}`, {
+      code: 'FIXTURE_FAILED',
+      cause: error,
+    });
+  }
+
+  const addresses: Record<string, string> = {};
+  for (const [fixture, value] of values) {
+    if (value instanceof DeployedContract) addresses[fixture] = value.address;
+  }
+  return addresses;
+}
+
+/**
+ * Run the fixtures and then the calls `next` picks from a snapshot,
+ * checking the invariants after each call that went through. The devnet
+ * is rolled back afterwards, so every sequence deploys to the same
+ * addresses.
+ */
+async function runSequence(
+  campaign: Campaign,
+  next: NextCall
+): Promise<Outcome> {
+  const { devnet, parsed } = campaign;
+  const snapshot = await devnet.snapshot();
+  const interpreter = new TestInterpreter(
+    devnet,
+    campaign.path,
+    campaign.source,
+    campaign.names,
+    [...parsed.functions.values()]
+  );
+  const values = new Map<string, Value>();
+  try {
+    let violation = await checkInvariants(campaign, interpreter, values);
+    const targets = targetsOf(values);
+    const calls: FuzzCall[] = [];
+    for (let step = 0; !violation; step++) {
+      const call = next(targets, step);
+      if (!call) break;
+      const sent = await send(devnet, targets, call);
+      calls.push(sent);
+      if (!sent.reverted) {
+        violation = await checkInvariants(campaign, interpreter, values);
+      }
+    }
+    return { calls, ...(violation ? { violation } : {}) };
+  } finally {
+    await devnet.revert(snapshot);
+  }
+}
+
+/**
+ * The first invariant that fails or returns False. Fixtures are resolved
+ * on the first check; their failures are thrown.
+ */
+async function checkInvariants(
+  campaign: Campaign,
+  interpreter: TestInterpreter,
+  values: Map<string, Value>
+): Promise<Violation | undefined> {
+  const { parsed } = campaign;
+  for (const def of parsed.invariants) {
+    const scope = await resolveFixtures(
+      interpreter,
+      def,
+      parsed.functions,
+      values
+    );
+    try {
+      if ((await interpreter.call(def, scope)) !== false) continue;
+      const source = campaign.source.split('\n')[def.line - 1] ?? '';
+      return {
+        invariant: def.name,
+        message: `${def.name}() returned False`,
+        line: def.line,
+        column: def.column,
+        trace: [
+          {
+            function: def.name,
+            file: campaign.path,
+            line: def.line,
+            column: def.column,
+            source: source.trim(),
+          },
+        ],
+      };
+    } catch (error) {
+      if (!(error instanceof TestFailureError)) throw error;
+      return {
+        invariant: def.name,
+        message: error.message,
+        line: error.node.line,
+        column: error.node.column,
+        trace: error.trace,
+      };
+    }
+  }
+  return undefined;
+}
+
+/** Contracts returned by fixtures that have state-changing functions */
+function targetsOf(values: Map<string, Value>): Target[] {
+  const targets: Target[] = [];
+  for (const [fixture, value] of values) {
+    if (
+      !(value instanceof DeployedContract) ||
+      targets.some(({ contract }) => contract.address === value.address)
+    ) {
+      continue;
+    }
+    const functions = value.contract.interface.fragments.filter(
+      (fragment): fragment is ethers.FunctionFragment =>
+        fragment.type === 'function' &&
+        !(fragment as ethers.FunctionFragment).constant
+    );
+    if (functions.length > 0) {
+      targets.push({ fixture, contract: value, functions });
+    }
+  }
+  return targets;
+}
+
+/** Send a call; any failure to go through counts as a revert */
+async function send(
+  devnet: Devnet,
+  targets: Target[],
+  call: FuzzCall
+): Promise<FuzzCall> {
+  const target = targets.find(({ fixture }) => fixture === call.target);
+  if (!target) return { ...call, reverted: true };
+
+  const signer = devnet.getSigner(
+    devnet.accounts.findIndex(({ address }) => address === call.sender)
+  );
+  const method = (
+    target.contract.contract.connect(signer) as ethers.Contract
+  ).getFunction(call.function);
+  const sent = { ...call, address: target.contract.address };
+  try {
+    const tx = await method.send(
+      ...call.args,
+      call.value > 0n ? { value: call.value } : {}
+    );
+    await tx.wait();
+    return { ...sent, reverted: false };
+  } catch {
+    return { ...sent, reverted: true };
+  }
+}
+
+/**
+ * The shortest sequence found that still breaks the invariant: calls are
+ * dropped one at a time until none can go, then integer arguments and
+ * values are lowered by bisection
+ */
+async function shrink(
+  campaign: Campaign,
+  calls: FuzzCall[],
+  violation: Violation
+): Promise<{ calls: FuzzCall[]; violation: Violation }> {
+  let best = { calls, violation };
+  let replays = 0;
+  const reproduces = async (candidate: FuzzCall[]) => {
+    replays++;
+    const outcome = await runSequence(campaign, (_, step) => candidate[step]);
+    if (outcome.violation?.invariant !== violation.invariant) return false;
+    best = { calls: outcome.calls, violation: outcome.violation };
+    return true;
+  };
+
+  for (let removed = true; removed && replays < MAX_SHRINK_RUNS; ) {
+    removed = false;
+    for (let i = best.calls.length - 1; i >= 0; i--) {
+      if (i >= best.calls.length || replays >= MAX_SHRINK_RUNS) continue;
+      if (await reproduces(best.calls.filter((_, index) => index !== i))) {
+        removed = true;
+      }
+    }
+  }
+
+  for (let i = 0; i < best.calls.length; i++) {
+    const slots: Array<{
+      get: (call: FuzzCall) => unknown;
+      set: (call: FuzzCall, value: bigint) => FuzzCall;
+    }> = best.calls[i].args.map((_, position) => ({
+      get: (call) => call.args[position],
+      set: (call, value) => ({
+        ...call,
+        args: call.args.map((arg, index) => (index === position ? value : arg)),
+      }),
+    }));
+    slots.push({
+      get: (call) => call.value,
+      set: (call, value) => ({ ...call, value }),
+    });
+
+    for (const { get, set } of slots) {
+      if (i >= best.calls.length) break;
+      const current = get(best.calls[i]);
+      if (typeof current !== 'bigint' || current <= 0n) continue;
+
+      const tryValue = (value: bigint) =>
+        i < best.calls.length &&
+        reproduces(
+          best.calls.map((call, index) =>
+            index === i ? set(call, value) : call
+          )
+        );
+      if (await tryValue(0n)) continue;
+      let low = 1n;
+      let high = current;
+      while (low < high && replays < MAX_SHRINK_RUNS) {
+        const middle = (low + high) / 2n;
+        if (await tryValue(middle)) high = middle;
+        else low = middle + 1n;
+      }
+    }
+  }
+  return best;
+}
+
+/** A random call to one of the targets' functions */
+function randomCall(
+  random: Random,
+  targets: Target[],
+  senders: string[]
+): FuzzCall | undefined {
+  const choices = targets.flatMap((target) =>
+    target.functions.map((fragment) => ({ target, fragment }))
+  );
+  if (choices.length === 0) return undefined;
+
+  const { target, fragment } = random.pick(choices);
+  const addresses = [
+    ...senders,
+    ...targets.map(({ contract }) => contract.address),
+    ethers.ZeroAddress,
+  ];
+  return {
+    target: target.fixture,
+    contract: target.contract.name,
+    address: target.contract.address,
+    function: fragment.format(),
+    args: fragment.inputs.map((input) => randomValue(input, random, addresses)),
+    sender: random.pick(senders),
+    value: fragment.payable
+      ? random.pick([0n, 1n, BigInt(random.int(1000)) * 10n ** 15n])
+      : 0n,
+    reverted: false,
+  };
+}
+
+/** A random argument for a parameter, biased towards small and edge values */
+function randomValue(
+  param: ethers.ParamType,
+  random: Random,
+  addresses: string[]
+): unknown {
+  if (param.isArray()) {
+    const length = param.arrayLength < 0 ? random.int(4) : param.arrayLength;
+    return Array.from({ length }, () =>
+      randomValue(param.arrayChildren, random, addresses)
+    );
+  }
+  if (param.isTuple()) {
+    return param.components.map((component) =>
+      randomValue(component, random, addresses)
+    );
+  }
+  if (param.baseType === 'address') return random.pick(addresses);
+  if (param.baseType === 'bool') return random.int(2) === 1;
+  if (param.baseType === 'string') return random.pick(STRINGS);
+  if (param.baseType === 'bytes') return random.bytes(random.int(33));
+  if (param.baseType.startsWith('bytes')) {
+    return random.bytes(Number(param.baseType.slice(5)));
+  }
+
+  const signed = param.baseType.startsWith('int');
+  const bits = Number(param.baseType.replace(/^u?int/, '')) || 256;
+  const max = (1n << BigInt(signed ? bits - 1 : bits)) - 1n;
+  const roll = random.int(10);
+  const value =
+    roll < 5
+      ? BigInt(random.int(11))
+      : roll < 7
+        ? BigInt(random.int(1_000_000))
+        : roll < 8
+          ? max
+          : random.bits(bits) & max;
+  return signed && random.int(2) === 1 ? -value - 1n : value;
+}
+
+/** Seeded mulberry32 generator, so a campaign can be repeated */
+class Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** A float in [0, 1) */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  }
+
+  /** An integer in [0, n) */
+  int(n: number): number {
+    return Math.floor(this.next() * n);
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  bits(n: number): bigint {
+    let value = 0n;
+    for (let i = 0; i < n; i += 32) {
+      value = (value << 32n) | BigInt(this.int(2 ** 32));
+    }
+    return value & ((1n << BigInt(n)) - 1n);
+  }
+
+  bytes(length: number): string {
+    return ethers.hexlify(Uint8Array.from({ length }, () => this.int(256)));
+  }
+}
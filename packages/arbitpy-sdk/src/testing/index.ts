@@ -0,0 +1,172 @@
+// Contract unit tests written in the Python dialect, run on a local devnet
+import { Devnet } from '../devnet';
+import type { DecodedRevert } from '../contract/revert';
+import type { CompilationError } from '../types';
+import {
+  TestFailureError,
+  TestInterpreter,
+  type ContractArtifact,
+  type TestFrame,
+} from './interpreter';
+import {
+  bindContracts,
+  parseTests,
+  runWithFixtures,
+  type TestCase,
+} from './suite';
+
+export type { ContractArtifact, TestFrame } from './interpreter';
+export type { TestCase } from './suite';
+export {
+  deployFixtures,
+  fuzzInvariants,
+  type FixtureOptions,
+  type FuzzCall,
+  type FuzzOptions,
+  type FuzzReport,
+  type InvariantViolation,
+} from './fuzz';
+
+export interface TestRunOptions {
+  /** Path of the test file, used in traces; defaults to 'test_contract.py' */
+  path?: string;
+  /** Compiled contracts by name; the test file imports them by that name */
+  artifacts: Record<string, ContractArtifact>;
+  /** Devnet to run on; a fresh one is created by default */
+  devnet?: Devnet;
+  /** Run only the tests with these names */
+  only?: string[];
+  /** Called as each test finishes */
+  onResult?: (result: TestResult) => void;
+}
+
+export interface TestFailure {
+  message: string;
+  line: number;
+  column: number;
+  /** Calls from the test function down to the failing line */
+  trace: TestFrame[];
+  revert?: DecodedRevert;
+}
+
+export interface TestResult extends TestCase {
+  passed: boolean;
+  /** Gas of every transaction the test and its fixtures sent */
+  gasUsed: bigint;
+  /** Milliseconds */
+  duration: number;
+  failure?: TestFailure;
+}
+
+export interface TestReport {
+  path: string;
+  passed: number;
+  failed: number;
+  results: TestResult[];
+  /** Problems with the test file itself; no tests are run when present */
+  errors: CompilationError[];
+}
+
+export interface TestDiscovery {
+  tests: TestCase[];
+  /** `@invariant` functions, checked by `fuzzInvariants` */
+  invariants: TestCase[];
+  /** Names the test file imports, which must be compiled contracts */
+  contracts: string[];
+  errors: CompilationError[];
+}
+
+const TEST_FILE = /(^|\/)test_[^/]*\.py$/;
+
+/** Test files are named `test_*.py` */
+export function isTestFile(path: string): boolean {
+  return TEST_FILE.test(path);
+}
+
+/**
+ * The `test_*` and `@invariant` functions of a test file and the
+ * contracts it imports
+ */
+export function discoverTests(source: string): TestDiscovery {
+  const { tests, invariants, contracts, errors } = parseTests(source);
+  return {
+    tests,
+    invariants: invariants.map(({ name, line }) => ({ name, line })),
+    contracts,
+    errors,
+  };
+}
+
+/**
+ * Run the `test_*` functions of a test file. Each test starts from the
+ * same devnet state; parameters are filled by calling the top-level
+ * function of the same name, like pytest fixtures.
+ */
+export async function runTests(
+  source: string,
+  options: TestRunOptions
+): Promise<TestReport> {
+  const path = options.path ?? 'test_contract.py';
+  const parsed = parseTests(source);
+  const { names, errors: bindErrors } = bindContracts(
+    parsed.imports,
+    options.artifacts
+  );
+  const errors = [...parsed.errors, ...bindErrors];
+  const report: TestReport = {
+    path,
+    passed: 0,
+    failed: 0,
+    results: [],
+    errors: errors.map((error) => ({ ...error, file: path })),
+  };
+  if (errors.length > 0) return report;
+
+  const devnet = options.devnet ?? new Devnet();
+  try {
+    for (const test of parsed.tests) {
+      if (options.only && !options.only.includes(test.name)) continue;
+
+      const snapshot = await devnet.snapshot();
+      const started = Date.now();
+      const interpreter = new TestInterpreter(devnet, path, source, names, [
+        ...parsed.functions.values(),
+      ]);
+      const result: TestResult = {
+        ...test,
+        passed: true,
+        gasUsed: 0n,
+        duration: 0,
+      };
+      try {
+        await runWithFixtures(
+          interpreter,
+          parsed.functions.get(test.name)!,
+          parsed.functions,
+          new Map()
+        );
+      } catch (error) {
+        if (!(error instanceof TestFailureError)) throw error;
+        result.passed = false;
+        result.failure = {
+          message: error.message,
+          line: error.node.line,
+          column: error.node.column,
+          trace: error.trace,
+          ...(error.revert ? { revert: error.revert } : {}),
+        };
+      } finally {
+        await devnet.revert(snapshot);
+      }
+      result.gasUsed = interpreter.gasUsed;
+      result.duration = Date.now() - started;
+
+      report.results.push(result);
+      report[result.passed ? 'passed' : 'failed']++;
+      options.onResult?.(result);
+    }
+  } finally {
+    if (!options.devnet) devnet.getProvider().destroy();
+  }
+  return report;
+}
@@ -0,0 +1,955 @@
+// Interpreter for test files written in the ArbitPy Python dialect
+import { ethers } from 'ethers';
+import type { ast } from '../parser';
+import type { Devnet } from '../devnet';
+import {
+  decodeRevert,
+  findRevertData,
+  formatRevert,
+  type DecodedRevert,
+} from '../contract/revert';
+
+/** Compiled contract a test file can deploy */
+export interface ContractArtifact {
+  abi: ethers.InterfaceAbi;
+  bytecode: string;
+}
+
+/** One level of a failure trace; the innermost frame comes last */
+export interface TestFrame {
+  function: string;
+  file: string;
+  line: number;
+  column: number;
+  /** The source line, trimmed */
+  source: string;
+}
+
+export class ContractClass {
+  constructor(
+    readonly name: string,
+    readonly artifact: ContractArtifact
+  ) {}
+}
+
+export class DeployedContract {
+  constructor(
+    readonly name: string,
+    readonly address: string,
+    readonly contract: ethers.Contract
+  ) {}
+}
+
+export class Callable {
+  constructor(
+    readonly name: string,
+    readonly invoke: (
+      args: Value[],
+      keywords: Record<string, Value>,
+      node: ast.Call
+    ) => Promise<Value>
+  ) {}
+}
+
+export type Value =
+  | bigint
+  | string
+  | boolean
+  | null
+  | Value[]
+  | ContractClass
+  | DeployedContract
+  | Callable;
+
+/** A failed assertion, unexpected revert or runtime error in a test */
+export class TestFailureError extends Error {
+  constructor(
+    message: string,
+    readonly node: ast.Node,
+    readonly trace: TestFrame[],
+    readonly revert?: DecodedRevert
+  ) {
+    super(message);
+    this.name = 'TestFailureError';
+  }
+}
+
+// Control flow is unwound with these rather than errors, so that the
+// failure conversion in `execute` leaves them alone
+class ReturnSignal {
+  constructor(readonly value: Value) {}
+}
+class BreakSignal {}
+class ContinueSignal {}
+
+interface Frame {
+  name: string;
+  current?: ast.Node;
+}
+
+interface ExpectedRevert {
+  reason?: string;
+  node: ast.Node;
+}
+
+type Scope = Map<string, Value>;
+
+const UINT256_MAX = (1n << 256n) - 1n;
+
+const WEI_UNITS: Record<string, bigint> = {
+  wei: 1n,
+  gwei: 10n ** 9n,
+  ether: 10n ** 18n,
+};
+
+/**
+ * Runs test functions against contracts on a devnet. One interpreter is
+ * used per test; it records the gas of every transaction it sends.
+ */
+export class TestInterpreter {
+  gasUsed = 0n;
+  private readonly frames: Frame[] = [];
+  private readonly globals: Scope = new Map();
+  private lastReceipt?: ethers.TransactionReceipt;
+  private expectedRevert?: ExpectedRevert;
+
+  constructor(
+    private readonly devnet: Devnet,
+    private readonly file: string,
+    private readonly source: string,
+    names: Record<string, Value>,
+    functions: ast.FunctionDef[]
+  ) {
+    for (const [name, value] of Object.entries(this.builtins())) {
+      this.globals.set(name, value);
+    }
+    for (const [name, value] of Object.entries(names)) {
+      this.globals.set(name, value);
+    }
+    for (const def of functions) this.globals.set(def.name, this.define(def));
+  }
+
+  /** A callable running `def` with its parameters bound to the arguments */
+  private define(def: ast.FunctionDef): Callable {
+    return new Callable(def.name, async (args, keywords, node) => {
+      const scope: Scope = new Map();
+      def.params.forEach((param, index) => {
+        const value = index < args.length ? args[index] : keywords[param.name];
+        if (value === undefined) {
+          throw this.fail(
+            `${def.name}() missing argument '${param.name}'`,
+            node
+          );
+        }
+        scope.set(param.name, value);
+      });
+      return this.call(def, scope);
+    });
+  }
+
+  /** Run a function body in a new frame */
+  async call(def: ast.FunctionDef, scope: Scope): Promise<Value> {
+    this.frames.push({ name: def.name });
+    try {
+      await this.block(def.body, scope);
+      if (this.expectedRevert) {
+        throw this.fail(
+          'expect_revert() was not followed by a contract call',
+          this.expectedRevert.node
+        );
+      }
+      return null;
+    } catch (signal) {
+      if (signal instanceof ReturnSignal) return signal.value;
+      throw signal;
+    } finally {
+      this.frames.pop();
+    }
+  }
+
+  private async block(statements: ast.Statement[], scope: Scope) {
+    for (const statement of statements) {
+      await this.execute(statement, scope);
+    }
+  }
+
+  private async execute(statement: ast.Statement, scope: Scope) {
+    this.frames[this.frames.length - 1].current = statement;
+    try {
+      await this.statement(statement, scope);
+    } catch (error) {
+      if (error instanceof Error && !(error instanceof TestFailureError)) {
+        throw this.fail(error.message, statement);
+      }
+      throw error;
+    }
+  }
+
+  private async statement(node: ast.Statement, scope: Scope): Promise<void> {
+    switch (node.kind) {
+      case 'ExpressionStatement':
+        await this.evaluate(node.expression, scope);
+        return;
+      case 'Assign':
+        await this.assign(
+          node.target,
+          await this.evaluate(node.value, scope),
+          scope
+        );
+        return;
+      case 'AnnAssign':
+        scope.set(
+          node.target.id,
+          node.value ? await this.evaluate(node.value, scope) : null
+        );
+        return;
+      case 'AugAssign': {
+        const current = await this.evaluate(node.target, scope);
+        const value = await this.evaluate(node.value, scope);
+        await this.assign(
+          node.target,
+          this.binary(node.op, current, value, node),
+          scope
+        );
+        return;
+      }
+      case 'Return':
+        throw new ReturnSignal(
+          node.value ? await this.evaluate(node.value, scope) : null
+        );
+      case 'If':
+        if (truthy(await this.evaluate(node.test, scope))) {
+          await this.block(node.body, scope);
+        } else {
+          await this.block(node.orelse, scope);
+        }
+        return;
+      case 'For': {
+        const iterable = await this.evaluate(node.iter, scope);
+        const items = typeof iterable === 'string' ? [...iterable] : iterable;
+        if (!Array.isArray(items)) {
+          throw this.fail(`${typeName(iterable)} is not iterable`, node.iter);
+        }
+        for (const item of items) {
+          scope.set(node.target.id, item);
+          if (await this.loopBody(node.body, scope)) break;
+        }
+        return;
+      }
+      case 'While':
+        while (truthy(await this.evaluate(node.test, scope))) {
+          if (await this.loopBody(node.body, scope)) break;
+        }
+        return;
+      case 'Assert':
+        await this.assert(node, scope);
+        return;
+      case 'Raise': {
+        const value = node.exception
+          ? await this.evaluate(node.exception, scope)
+          : null;
+        throw this.fail(
+          typeof value === 'string' ? value : 'Exception raised',
+          node
+        );
+      }
+      case 'Emit':
+        throw this.fail('emit can only be used in contracts', node);
+      case 'Pass':
+        return;
+      case 'Break':
+        throw new BreakSignal();
+      case 'Continue':
+        throw new ContinueSignal();
+    }
+  }
+
+  /** Run a loop body; true when it breaks out of the loop */
+  private async loopBody(body: ast.Statement[], scope: Scope) {
+    try {
+      await this.block(body, scope);
+    } catch (signal) {
+      if (signal instanceof BreakSignal) return true;
+      if (!(signal instanceof ContinueSignal)) throw signal;
+    }
+    return false;
+  }
+
+  private async assert(node: ast.Assert, scope: Scope) {
+    let passed: boolean;
+    let description: string;
+    if (node.test.kind === 'Compare') {
+      const left = await this.evaluate(node.test.left, scope);
+      const right = await this.evaluate(node.test.right, scope);
+      passed = this.compare(node.test.op, left, right, node.test);
+      description = `${repr(left)} ${node.test.op} ${repr(right)}`;
+    } else {
+      const value = await this.evaluate(node.test, scope);
+      passed = truthy(value);
+      description = repr(value);
+    }
+    if (passed) return;
+
+    const message = node.message
+      ? await this.evaluate(node.message, scope)
+      : null;
+    throw this.fail(
+      message === null
+        ? `AssertionError: assert ${description}`
+        : `AssertionError: ${str(message)}`,
+      node
+    );
+  }
+
+  private async assign(target: ast.Expression, value: Value, scope: Scope) {
+    switch (target.kind) {
+      case 'Name':
+        scope.set(target.id, value);
+        return;
+      case 'TupleExpr':
+      case 'ListExpr': {
+        if (!Array.isArray(value) || value.length !== target.elements.length) {
+          throw this.fail(
+            `cannot unpack ${repr(value)} into ${target.elements.length} names`,
+            target
+          );
+        }
+        for (const [index, element] of target.elements.entries()) {
+          await this.assign(element, value[index], scope);
+        }
+        return;
+      }
+      case 'Subscript': {
+        const list = await this.evaluate(target.object, scope);
+        const index = await this.evaluate(target.index, scope);
+        if (!Array.isArray(list)) {
+          throw this.fail(
+            `${typeName(list)} does not support item assignment`,
+            target
+          );
+        }
+        list[this.index(list, index, target)] = value;
+        return;
+      }
+      default:
+        throw this.fail('cannot assign to this expression', target);
+    }
+  }
+
+  private async evaluate(node: ast.Expression, scope: Scope): Promise<Value> {
+    switch (node.kind) {
+      case 'Name': {
+        const value = scope.get(node.id) ?? this.globals.get(node.id);
+        if (value === undefined) {
+          throw this.fail(`name '${node.id}' is not defined`, node);
+        }
+        return value;
+      }
+      case 'NumberLiteral':
+        if (!node.isInteger) {
+          throw this.fail('only integer numbers are supported', node);
+        }
+        return BigInt(node.value);
+      case 'StringLiteral':
+        return node.value;
+      case 'BooleanLiteral':
+        return node.value;
+      case 'NoneLiteral':
+        return null;
+      case 'Attribute':
+        return this.attribute(await this.evaluate(node.object, scope), node);
+      case 'Subscript': {
+        const object = await this.evaluate(node.object, scope);
+        const index = await this.evaluate(node.index, scope);
+        if (typeof object !== 'string' && !Array.isArray(object)) {
+          throw this.fail(`${typeName(object)} is not subscriptable`, node);
+        }
+        return object[this.index(object, index, node)];
+      }
+      case 'Call': {
+        const callee = await this.evaluate(node.callee, scope);
+        if (!(callee instanceof Callable)) {
+          throw this.fail(`${typeName(callee)} is not callable`, node.callee);
+        }
+        const args: Value[] = [];
+        for (const arg of node.args) args.push(await this.evaluate(arg, scope));
+        const keywords: Record<string, Value> = {};
+        for (const keyword of node.keywords) {
+          keywords[keyword.name] = await this.evaluate(keyword.value, scope);
+        }
+        return callee.invoke(args, keywords, node);
+      }
+      case 'BinaryOp':
+        return this.binary(
+          node.op,
+          await this.evaluate(node.left, scope),
+          await this.evaluate(node.right, scope),
+          node
+        );
+      case 'BoolOp': {
+        const left = await this.evaluate(node.left, scope);
+        if (node.op === 'and' ? !truthy(left) : truthy(left)) return left;
+        return this.evaluate(node.right, scope);
+      }
+      case 'Compare':
+        return this.compare(
+          node.op,
+          await this.evaluate(node.left, scope),
+          await this.evaluate(node.right, scope),
+          node
+        );
+      case 'UnaryOp': {
+        const operand = await this.evaluate(node.operand, scope);
+        if (node.op === 'not') return !truthy(operand);
+        const value = this.integer(operand, node);
+        return node.op === '-' ? -value : node.op === '~' ? ~value : value;
+      }
+      case 'IfExp':
+        return truthy(await this.evaluate(node.test, scope))
+          ? this.evaluate(node.body, scope)
+          : this.evaluate(node.orelse, scope);
+      case 'ListExpr':
+      case 'TupleExpr': {
+        const elements: Value[] = [];
+        for (const element of node.elements) {
+          elements.push(await this.evaluate(element, scope));
+        }
+        return elements;
+      }
+      case 'DictExpr':
+        throw this.fail('dicts are not supported in tests', node);
+    }
+  }
+
+  private attribute(object: Value, node: ast.Attribute): Value {
+    if (object instanceof ContractClass && node.attr === 'deploy') {
+      return this.deployer(object);
+    }
+    if (object instanceof DeployedContract) {
+      if (node.attr === 'address') return object.address;
+      const fragment = object.contract.interface.getFunction(node.attr);
+      if (fragment) return this.method(object, fragment);
+    }
+    throw this.fail(
+      `${typeName(object)} has no attribute '${node.attr}'`,
+      node
+    );
+  }
+
+  /** `Token.deploy(*args, sender=, value=)` */
+  private deployer(target: ContractClass): Callable {
+    return new Callable(`${target.name}.deploy`, async (args, keywords, node) =>
+      this.transact(target.name, target.artifact.abi, node, async () => {
+        const { signer, overrides } = this.transactionOptions(keywords, node);
+        const factory = new ethers.ContractFactory(
+          target.artifact.abi,
+          target.artifact.bytecode,
+          signer
+        );
+        const contract = await factory.deploy(
+          ...args.map(toArgument),
+          overrides
+        );
+        this.record(await contract.deploymentTransaction()!.wait());
+        const address = await contract.getAddress();
+        return new DeployedContract(
+          target.name,
+          address,
+          new ethers.Contract(address, target.artifact.abi, signer)
+        );
+      })
+    );
+  }
+
+  /**
+   * `token.transfer(to, amount, sender=, value=)`; views return their
+   * result, other functions send a transaction and return None
+   */
+  private method(
+    target: DeployedContract,
+    fragment: ethers.FunctionFragment
+  ): Callable {
+    const name = `${target.name}.${fragment.name}`;
+    return new Callable(name, async (args, keywords, node) =>
+      this.transact(name, target.contract.interface, node, async () => {
+        const { signer, overrides } = this.transactionOptions(keywords, node);
+        const method = (
+          target.contract.connect(signer) as ethers.Contract
+        ).getFunction(fragment.format());
+        if (fragment.constant) {
+          const result = await method.staticCall(...args.map(toArgument));
+          if (fragment.outputs.length === 0) return null;
+          return toValue(fragment.outputs.length === 1 ? result : [...result]);
+        }
+        const tx = await method.send(...args.map(toArgument), overrides);
+        this.record(await tx.wait());
+        return null;
+      })
+    );
+  }
+
+  /** Run a contract interaction, honouring a pending `expect_revert` */
+  private async transact(
+    name: string,
+    abi: ethers.InterfaceAbi | ethers.Interface,
+    node: ast.Call,
+    action: () => Promise<Value>
+  ): Promise<Value> {
+    const expected = this.expectedRevert;
+    this.expectedRevert = undefined;
+
+    let result: Value;
+    try {
+      result = await action();
+    } catch (error) {
+      if (error instanceof TestFailureError) throw error;
+      const revert = decodeRevert(
+        findRevertData(error),
+        abi instanceof ethers.Interface ? abi.fragments : abi
+      );
+      const message = revert
+        ? `Reverted: ${formatRevert(revert)}`
+        : ((error as { shortMessage?: string }).shortMessage ??
+          (error instanceof Error ? error.message : String(error)));
+      if (!expected)
+        throw this.fail(`${name}() failed. ${message}`, node, revert);
+      if (
+        expected.reason !== undefined &&
+        !matchesRevert(revert, expected.reason)
+      ) {
+        throw this.fail(
+          `Expected ${name}() to revert with '${expected.reason}'. ${message}`,
+          node,
+          revert
+        );
+      }
+      return null;
+    }
+    if (expected) {
+      throw this.fail(`Expected ${name}() to revert, but it succeeded`, node);
+    }
+    return result;
+  }
+
+  private transactionOptions(keywords: Record<string, Value>, node: ast.Call) {
+    let signer = this.devnet.getSigner();
+    const overrides: ethers.Overrides & { value?: bigint } = {};
+    for (const [keyword, value] of Object.entries(keywords)) {
+      if (keyword === 'sender') {
+        const address =
+          value instanceof DeployedContract ? value.address : value;
+        const index = this.devnet.accounts.findIndex(
+          (account) =>
+            typeof address === 'string' &&
+            account.address.toLowerCase() === address.toLowerCase()
+        );
+        if (index < 0) {
+          throw this.fail(
+            `sender must be one of accounts, not ${repr(value)}`,
+            node
+          );
+        }
+        signer = this.devnet.getSigner(index);
+      } else if (keyword === 'value') {
+        overrides.value = this.integer(value, node);
+      } else {
+        throw this.fail(`unexpected keyword argument '${keyword}'`, node);
+      }
+    }
+    return { signer, overrides };
+  }
+
+  private record(receipt: ethers.TransactionReceipt | null) {
+    if (!receipt) return;
+    this.lastReceipt = receipt;
+    this.gasUsed += receipt.gasUsed;
+  }
+
+  /** `assert_emitted(token, "Transfer", sender, recipient, value=10)` */
+  private assertEmitted(
+    args: Value[],
+    keywords: Record<string, Value>,
+    node: ast.Call
+  ): Value {
+    const [target, event, ...expected] = args;
+    if (!(target instanceof DeployedContract) || typeof event !== 'string') {
+      throw this.fail(
+        'assert_emitted() expects a contract and an event name',
+        node
+      );
+    }
+    const fragment = target.contract.interface.getEvent(event);
+    if (!fragment) {
+      throw this.fail(`${target.name} has no event '${event}'`, node);
+    }
+    if (!this.lastReceipt) {
+      throw this.fail('assert_emitted() needs a transaction to check', node);
+    }
+
+    const emitted = this.lastReceipt.logs
+      .filter(
+        (log) => log.address.toLowerCase() === target.address.toLowerCase()
+      )
+      .map((log) => target.contract.interface.parseLog(log))
+      .filter((log): log is ethers.LogDescription => log !== null);
+    const matches = emitted.some(
+      (log) =>
+        log.name === fragment.name &&
+        expected.every((value, index) =>
+          equals(toValue(log.args[index]), value)
+        ) &&
+        Object.entries(keywords).every(([name, value]) =>
+          equals(toValue(log.args.getValue(name)), value)
+        )
+    );
+    if (matches) return null;
+
+    const wanted = [
+      ...expected.map(repr),
+      ...Object.entries(keywords).map(
+        ([name, value]) => `${name}=${repr(value)}`
+      ),
+    ];
+    const seen = emitted.map(
+      (log) =>
+        `${log.name}(${[...log.args].map((arg) => repr(toValue(arg))).join(', ')})`
+    );
+    throw this.fail(
+      `AssertionError: ${target.name} did not emit ${event}(${wanted.join(', ')}); ` +
+        `the last transaction emitted ${seen.length ? seen.join(', ') : 'no events'}`,
+      node
+    );
+  }
+
+  private builtins(): Record<string, Value> {
+    const builtin = (
+      name: string,
+      invoke: (
+        args: Value[],
+        keywords: Record<string, Value>,
+        node: ast.Call
+      ) => Value | Promise<Value>
+    ) =>
+      new Callable(name, async (args, keywords, node) =>
+        invoke(args, keywords, node)
+      );
+
+    return {
+      accounts: this.devnet.accounts.map(({ address }) => address),
+      ZERO_ADDRESS: ethers.ZeroAddress,
+      EMPTY_ADDRESS: ethers.ZeroAddress,
+      EMPTY_BYTES32: ethers.ZeroHash,
+      ZERO_WEI: 0n,
+      MAX_UINT256: UINT256_MAX,
+      len: builtin('len', ([value], _, node) => {
+        if (typeof value !== 'string' && !Array.isArray(value)) {
+          throw this.fail(`${typeName(value)} has no len()`, node);
+        }
+        return BigInt(value.length);
+      }),
+      range: builtin('range', (args, _, node) => {
+        const [start, stop, step = 1n] =
+          args.length === 1
+            ? [0n, this.integer(args[0], node)]
+            : args.map((arg) => this.integer(arg, node));
+        if (step === 0n) throw this.fail('range() step must not be zero', node);
+        const values: bigint[] = [];
+        for (let i = start; step > 0n ? i < stop : i > stop; i += step) {
+          values.push(i);
+        }
+        return values;
+      }),
+      str: builtin('str', ([value]) => str(value)),
+      int: builtin('int', ([value], _, node) =>
+        typeof value === 'string' ? BigInt(value) : this.integer(value, node)
+      ),
+      abs: builtin('abs', ([value], _, node) => {
+        const number = this.integer(value, node);
+        return number < 0n ? -number : number;
+      }),
+      min: builtin('min', (args, _, node) =>
+        args
+          .map((arg) => this.integer(arg, node))
+          .reduce((a, b) => (b < a ? b : a))
+      ),
+      max: builtin('max', (args, _, node) =>
+        args
+          .map((arg) => this.integer(arg, node))
+          .reduce((a, b) => (b > a ? b : a))
+      ),
+      as_wei_value: builtin('as_wei_value', ([value, unit], _, node) => {
+        const scale = typeof unit === 'string' ? WEI_UNITS[unit] : undefined;
+        if (scale === undefined) {
+          throw this.fail(
+            'as_wei_value() expects "wei", "gwei" or "ether"',
+            node
+          );
+        }
+        return this.integer(value, node) * scale;
+      }),
+      expect_revert: builtin('expect_revert', (args, _, node) => {
+        if (args.length > 0 && typeof args[0] !== 'string') {
+          throw this.fail('expect_revert() expects a reason string', node);
+        }
+        this.expectedRevert = { reason: args[0] as string | undefined, node };
+        return null;
+      }),
+      assert_emitted: builtin('assert_emitted', (args, keywords, node) =>
+        this.assertEmitted(args, keywords, node)
+      ),
+      balance: builtin('balance', async ([account], _, node) => {
+        const address =
+          account instanceof DeployedContract ? account.address : account;
+        if (typeof address !== 'string') {
+          throw this.fail('balance() expects an address', node);
+        }
+        return this.devnet.getProvider().getBalance(address);
+      }),
+      timestamp: builtin('timestamp', async () => {
+        const block = await this.devnet.getProvider().getBlock('latest');
+        return BigInt(block!.timestamp);
+      }),
+      advance_time: builtin('advance_time', async ([seconds], _, node) => {
+        await this.devnet.increaseTime(Number(this.integer(seconds, node)));
+        return null;
+      }),
+      mine: builtin('mine', async ([blocks = 1n], _, node) => {
+        await this.devnet.mine(Number(this.integer(blocks, node)));
+        return null;
+      }),
+    };
+  }
+
+  private binary(
+    op: ast.BinaryOperator,
+    left: Value,
+    right: Value,
+    node: ast.Node
+  ): Value {
+    if (op === '+' && typeof left === 'string' && typeof right === 'string') {
+      return left + right;
+    }
+    if (op === '+' && Array.isArray(left) && Array.isArray(right)) {
+      return [...left, ...right];
+    }
+    const a = this.integer(left, node);
+    const b = this.integer(right, node);
+    switch (op) {
+      case '+':
+        return a + b;
+      case '-':
+        return a - b;
+      case '*':
+        return a * b;
+      case '/':
+      case '//':
+      case '%': {
+        if (b === 0n)
+          throw this.fail('ZeroDivisionError: division by zero', node);
+        // Python rounds towards negative infinity
+        let quotient = a / b;
+        if (a % b !== 0n && a < 0n !== b < 0n) quotient -= 1n;
+        return op === '%' ? a - quotient * b : quotient;
+      }
+      case '**':
+        if (b < 0n)
+          throw this.fail('negative exponents are not supported', node);
+        return a ** b;
+      case '&':
+        return a & b;
+      case '|':
+        return a | b;
+      case '^':
+        return a ^ b;
+      case '<<':
+        return a << b;
+      case '>>':
+        return a >> b;
+    }
+  }
+
+  private compare(
+    op: ast.CompareOperator,
+    left: Value,
+    right: Value,
+    node: ast.Node
+  ): boolean {
+    switch (op) {
+      case '==':
+        return equals(left, right);
+      case '!=':
+        return !equals(left, right);
+      case 'is':
+        return left === right;
+      case 'is not':
+        return left !== right;
+      case 'in':
+      case 'not in': {
+        let found: boolean;
+        if (typeof right === 'string' && typeof left === 'string') {
+          found = right.includes(left);
+        } else if (Array.isArray(right)) {
+          found = right.some((item) => equals(item, left));
+        } else {
+          throw this.fail(`${typeName(right)} is not a container`, node);
+        }
+        return op === 'in' ? found : !found;
+      }
+    }
+    if (typeof left === 'string' && typeof right === 'string') {
+      return compareOrdered(op, left, right);
+    }
+    return compareOrdered(
+      op,
+      this.integer(left, node),
+      this.integer(right, node)
+    );
+  }
+
+  private integer(value: Value, node: ast.Node): bigint {
+    if (typeof value === 'bigint') return value;
+    if (typeof value === 'boolean') return value ? 1n : 0n;
+    throw this.fail(`expected an integer, got ${typeName(value)}`, node);
+  }
+
+  private index(sequence: ArrayLike<unknown>, index: Value, node: ast.Node) {
+    const position = Number(this.integer(index, node));
+    const resolved = position < 0 ? sequence.length + position : position;
+    if (resolved < 0 || resolved >= sequence.length) {
+      throw this.fail('IndexError: index out of range', node);
+    }
+    return resolved;
+  }
+
+  /** A failure at `node`, traced through the functions being run */
+  private fail(
+    message: string,
+    node: ast.Node,
+    revert?: DecodedRevert
+  ): TestFailureError {
+    const lines = this.source.split('\n');
+    const trace = this.frames.map((frame, index) => {
+      const at =
+        index === this.frames.length - 1 ? node : (frame.current ?? node);
+      return {
+        function: frame.name,
+        file: this.file,
+        line: at.line,
+        column: at.column,
+        source: (lines[at.line - 1] ?? '').trim(),
+      };
+    });
+    return new TestFailureError(message, node, trace, revert);
+  }
+}
+
+function matchesRevert(revert: DecodedRevert | undefined, reason: string) {
+  if (!revert) return false;
+  const names =
+    revert.kind === 'error'
+      ? [revert.reason]
+      : revert.kind === 'custom'
+        ? [revert.name, revert.signature]
+        : [revert.description];
+  return [...names, formatRevert(revert)].includes(reason);
+}
+
+function compareOrdered<T extends bigint | string>(op: string, a: T, b: T) {
+  switch (op) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
+
+/** Python-like equality; addresses compare case-insensitively */
+export function equals(left: Value, right: Value): boolean {
+  const a = left instanceof DeployedContract ? left.address : left;
+  const b = right instanceof DeployedContract ? right.address : right;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => equals(item, b[index]))
+    );
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return ethers.isAddress(a) && ethers.isAddress(b)
+      ? a.toLowerCase() === b.toLowerCase()
+      : a === b;
+  }
+  if (typeof a === 'boolean' && typeof b === 'bigint') return BigInt(a) === b;
+  if (typeof a === 'bigint' && typeof b === 'boolean') return a === BigInt(b);
+  return a === b;
+}
+
+function truthy(value: Value): boolean {
+  if (Array.isArray(value) || typeof value === 'string')
+    return value.length > 0;
+  if (typeof value === 'bigint') return value !== 0n;
+  return value !== null && value !== false;
+}
+
+/** Contract results as interpreter values */
+function toValue(value: unknown): Value {
+  if (Array.isArray(value)) return [...value].map(toValue);
+  if (typeof value === 'number') return BigInt(value);
+  if (
+    typeof value === 'bigint' ||
+    typeof value === 'string' ||
+    typeof value === 'boolean'
+  ) {
+    return value;
+  }
+  return value === null || value === undefined ? null : String(value);
+}
+
+/** Interpreter values as contract arguments */
+function toArgument(value: Value): unknown {
+  if (value instanceof DeployedContract) return value.address;
+  if (Array.isArray(value)) return value.map(toArgument);
+  if (value instanceof Callable || value instanceof ContractClass) {
+    throw new Error(`${typeName(value)} cannot be passed to a contract`);
+  }
+  return value;
+}
+
+function typeName(value: Value): string {
+  if (value === null) return 'None';
+  if (Array.isArray(value)) return 'list';
+  if (value instanceof ContractClass) return `contract ${value.name}`;
+  if (value instanceof DeployedContract) return value.name;
+  if (value instanceof Callable) return `${value.name}()`;
+  return typeof value === 'bigint'
+    ? 'int'
+    : typeof value === 'boolean'
+      ? 'bool'
+      : 'str';
+}
+
+/** Python `repr` of a value */
+export function repr(value: Value): string {
+  if (typeof value === 'string') return `'${value}'`;
+  if (Array.isArray(value)) return `[${value.map(repr).join(', ')}]`;
+  if (value instanceof DeployedContract) {
+    return `<${value.name} at ${value.address}>`;
+  }
+  return str(value);
+}
+
+function str(value: Value): string {
+  if (value === null) return 'None';
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value)) return repr(value);
+  if (value instanceof ContractClass) return `<contract ${value.name}>`;
+  if (value instanceof Callable) return `<function ${value.name}>`;
+  return repr(value);
+}
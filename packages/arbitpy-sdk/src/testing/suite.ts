@@ -0,0 +1,154 @@
+// Parsing test files and resolving the fixtures their functions take
+import { parseModule, ParseError, type ast } from '../parser';
+import type { CompilationError } from '../types';
+import {
+  ContractClass,
+  TestFailureError,
+  type ContractArtifact,
+  type TestInterpreter,
+  type Value,
+} from './interpreter';
+
+export interface TestCase {
+  name: string;
+  line: number;
+}
+
+export interface ParsedTests {
+  tests: TestCase[];
+  /** Functions decorated with `@invariant` */
+  invariants: ast.FunctionDef[];
+  /** Names the test file imports, which must be compiled contracts */
+  contracts: string[];
+  errors: CompilationError[];
+  functions: Map<string, ast.FunctionDef>;
+  imports: ast.ImportAlias[];
+}
+
+export function parseTests(source: string): ParsedTests {
+  const parsed: ParsedTests = {
+    tests: [],
+    invariants: [],
+    contracts: [],
+    errors: [],
+    functions: new Map(),
+    imports: [],
+  };
+  let module: ast.Module;
+  try {
+    module = parseModule(source);
+  } catch (error) {
+    if (!(error instanceof ParseError)) throw error;
+    parsed.errors.push(error.toCompilationError());
+    return parsed;
+  }
+
+  for (const member of module.body) {
+    if (member.kind === 'ImportFrom') {
+      parsed.imports.push(...member.names);
+      parsed.contracts.push(...member.names.map(({ name }) => name));
+    } else if (member.kind === 'FunctionDef') {
+      parsed.functions.set(member.name, member);
+      if (member.decorators.some(({ name }) => name === 'invariant')) {
+        parsed.invariants.push(member);
+      } else if (isTest(member.name)) {
+        parsed.tests.push({ name: member.name, line: member.line });
+      }
+    } else {
+      parsed.errors.push(
+        diagnostic(member, 'Test files may only contain imports and functions')
+      );
+    }
+  }
+  return parsed;
+}
+
+/** The imported contracts as deployable classes, by the name they are bound to */
+export function bindContracts(
+  imports: ast.ImportAlias[],
+  artifacts: Record<string, ContractArtifact>
+): { names: Record<string, Value>; errors: CompilationError[] } {
+  const names: Record<string, Value> = {};
+  const errors: CompilationError[] = [];
+  for (const alias of imports) {
+    const artifact = artifacts[alias.name];
+    if (artifact) {
+      names[alias.asName ?? alias.name] = new ContractClass(
+        alias.name,
+        artifact
+      );
+    } else {
+      errors.push(
+        diagnostic(alias, `No compiled contract named '${alias.name}'`)
+      );
+    }
+  }
+  return { names, errors };
+}
+
+/**
+ * Bind each parameter of `def` to the value of its fixture, calling
+ * fixtures not yet in `values`
+ */
+export async function resolveFixtures(
+  interpreter: TestInterpreter,
+  def: ast.FunctionDef,
+  functions: Map<string, ast.FunctionDef>,
+  values: Map<string, Value>,
+  resolving: string[] = []
+): Promise<Map<string, Value>> {
+  const scope = new Map<string, Value>();
+  for (const param of def.params) {
+    let value = values.get(param.name);
+    if (value === undefined) {
+      const fixture = functions.get(param.name);
+      if (!fixture || isTest(fixture.name) || resolving.includes(param.name)) {
+        throw new TestFailureError(
+          `No fixture named '${param.name}' for ${def.name}()`,
+          param,
+          []
+        );
+      }
+      value = await runWithFixtures(interpreter, fixture, functions, values, [
+        ...resolving,
+        def.name,
+      ]);
+      values.set(param.name, value);
+    }
+    scope.set(param.name, value);
+  }
+  return scope;
+}
+
+/** Call `def` with each parameter set to the value of its fixture */
+export async function runWithFixtures(
+  interpreter: TestInterpreter,
+  def: ast.FunctionDef,
+  functions: Map<string, ast.FunctionDef>,
+  values: Map<string, Value>,
+  resolving: string[] = []
+): Promise<Value> {
+  const scope = await resolveFixtures(
+    interpreter,
+    def,
+    functions,
+    values,
+    resolving
+  );
+  return interpreter.call(def, scope);
+}
+
+export function isTest(name: string): boolean {
+  return name.startsWith('test_');
+}
+
+export function diagnostic(node: ast.Node, message: string): CompilationError {
+  return {
+    message,
+    line: node.line,
+    column: node.column,
+    endLine: node.endLine,
+    endColumn: node.endColumn,
+    severity: 'error',
+  };
+}
@@ -1,9 +1,37 @@
 // Core types and interfaces for ArbitPy SDK
+import type { StorageEntry } from './codegen/storage';
+import type { ArbitPyError } from './errors';
+import type { HttpTransport } from './utils/transport';
 
 export interface ArbitPyConfig {
   apiUrl?: string;
   apiKey?: string;
   timeout?: number;
+  /** Sends the HTTP requests; defaults to an axios-based transport */
+  transport?: HttpTransport;
+  /** Retry policy for failed requests, or `false` to never retry */
+  retry?: Partial<RetryOptions> | false;
+}
+
+export interface RetryOptions {
+  /** Retries after the first attempt */
+  retries: number;
+  /** Delay before the first retry, in milliseconds */
+  minDelay: number;
+  /** Upper bound for any delay, including one asked for by Retry-After */
+  maxDelay: number;
+  /** Growth of the delay between consecutive retries */
+  factor: number;
+  /** Randomize each delay between 0 and its backoff value */
+  jitter: boolean;
+  /** Response statuses worth retrying */
+  statuses: number[];
+}
+
+/** Per-call options accepted by every SDK method that calls the API */
+export interface CallOptions {
+  /** Cancels the request, including any pending retries */
+  signal?: AbortSignal;
 }
 
 export interface Network {
@@ -18,7 +46,7 @@ export interface Network {
   };
 }
 
-export interface CompilationRequest {
+export interface CompilationRequest extends CallOptions {
   code: string;
   target: 'solidity' | 'vyper' | 'rust';
   optimization?: boolean;
@@ -29,19 +57,39 @@ export interface CompilationRequest {
 export interface CompilationResult {
   success: boolean;
   sessionId: string;
+  /** Generated target source (Solidity, Vyper or Rust) */
+  output?: string;
+  /** Generated crate files for Rust (Stylus) targets, keyed by path */
+  files?: Record<string, string>;
   bytecode?: string;
   abi?: any[];
-  sourceMap?: string;
+  /** Line mapping between the Python source and `output` */
+  sourceMap?: SourceMap;
+  /** Slot and offset of each state variable, for Solidity targets */
+  storageLayout?: StorageEntry[];
   metadata?: any;
   warnings?: CompilationWarning[];
   errors?: CompilationError[];
   gasEstimate?: GasEstimate;
 }
 
+/**
+ * Bidirectional line mapping between Python source and generated code.
+ * Lines are 1-based; generated lines without a source line are omitted.
+ */
+export interface SourceMap {
+  /** `[sourceLine, generatedLine]` pairs in generated line order */
+  mappings: Array<[number, number]>;
+}
+
 export interface CompilationWarning {
   message: string;
   line?: number;
   column?: number;
+  endLine?: number;
+  endColumn?: number;
+  /** Project file of the diagnostic when it is not the compiled file */
+  file?: string;
   severity: 'warning' | 'info';
 }
 
@@ -49,6 +97,10 @@ export interface CompilationError {
   message: string;
   line?: number;
   column?: number;
+  endLine?: number;
+  endColumn?: number;
+  /** Project file of the diagnostic when it is not the compiled file */
+  file?: string;
   severity: 'error' | 'fatal';
 }
 
@@ -76,6 +128,14 @@ export interface DeploymentResult {
   gasUsed: string;
   status: 'pending' | 'confirmed' | 'failed';
   explorerUrl?: string;
+  /**
+   * The contract was already at `contractAddress`, so nothing was sent;
+   * `transactionHash` is empty and `blockNumber` 0
+   */
+  alreadyDeployed?: boolean;
+  /** Why the API reported the deployment unsuccessful */
+  message?: string;
+  error?: string;
 }
 
 export interface ContractInteractionOptions {
@@ -128,5 +188,13 @@ export interface ArbitPyEvents {
   'deployment:completed': DeploymentResult;
   'deployment:failed': { sessionId: string; error: string };
   'transaction:confirmed': { hash: string; blockNumber: number };
-  'error': Error;
+  'transaction:replaced': {
+    hash: string;
+    nonce: number;
+    /** Hash of the mined transaction, when it was sent through the SDK */
+    replacement?: string;
+    cancelled: boolean;
+  };
+  'transaction:dropped': { hash: string; nonce: number };
+  'error': ArbitPyError;
 }
\ No newline at end of file
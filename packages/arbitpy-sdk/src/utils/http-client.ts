@@ -1,9 +1,80 @@
 // HTTP Client utility for ArbitPy SDK
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
-import { ArbitPyConfig } from '../types';
+import { ArbitPyConfig, RetryOptions } from '../types';
+import { ArbitPyNetworkError, RateLimitError } from '../errors';
+import {
+  AxiosTransport,
+  HttpMethod,
+  HttpResponse,
+  HttpTransport,
+  TransportError,
+} from './transport';
+
+export interface RequestOptions {
+  params?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  /** Overrides the configured timeout for each attempt */
+  timeout?: number;
+  /**
+   * Key sent as the `Idempotency-Key` header of a POST, and reused by its
+   * retries. POSTs are only retried with a key, since the server must
+   * recognize a repeated request to act on it once; 429s are retried
+   * without one.
+   */
+  idempotencyKey?: string;
+  /** Overrides the configured retry policy for this request */
+  retry?: Partial<RetryOptions> | false;
+}
+
+export const DEFAULT_RETRY: RetryOptions = {
+  retries: 3,
+  minDelay: 500,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: true,
+  statuses: [408, 425, 429, 500, 502, 503, 504],
+};
+
+// Methods that may be sent twice without changing the outcome
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE'];
+
+function joinUrl(base: string | undefined, url: string): string {
+  if (/^[a-z][a-z\d+.-]*:\/\//i.test(url) || !base) return url;
+  return `${base.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+}
+
+/** Delay asked for by a Retry-After header, in milliseconds */
+export function parseRetryAfter(
+  value: string | undefined,
+  now = Date.now()
+): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+(\.\d+)?$/.test(value.trim())) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Resolves to false when `signal` aborts before `ms` have passed
+function sleep(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
 
 export class HttpClient {
-  private client: AxiosInstance;
+  private transport: HttpTransport;
   private config: ArbitPyConfig;
 
   constructor(config: ArbitPyConfig) {
@@ -12,112 +83,210 @@ export class HttpClient {
       timeout: 30000,
       ...config,
     };
-
-    this.client = axios.create({
-      baseURL: this.config.apiUrl,
-      timeout: this.config.timeout,
-      headers: {
-        'Content-Type': 'application/json',
-        ...(this.config.apiKey && {
-          Authorization: `Bearer ${this.config.apiKey}`,
-        }),
-      },
-    });
-
-    this.setupInterceptors();
+    this.transport = this.config.transport ?? new AxiosTransport();
   }
 
-  private setupInterceptors() {
-    // Request interceptor
-    this.client.interceptors.request.use(
-      (config) => {
-        // Add timestamp to prevent caching
-        config.params = {
-          ...config.params,
-          _t: Date.now(),
-        };
-        return config;
-      },
-      (error) => {
-        return Promise.reject(error);
+  /**
+   * Send a request, retrying failures allowed by the retry policy. Only
+   * idempotent requests are retried: GET, PUT, DELETE and POSTs with an
+   * idempotency key, except for 429s, which are retried for every method.
+   */
+  async request<T = unknown>(
+    method: HttpMethod,
+    url: string,
+    data?: unknown,
+    options: RequestOptions = {}
+  ): Promise<HttpResponse<T>> {
+    const retry = this.retryOptions(options.retry);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...(this.config.apiKey && {
+        Authorization: `Bearer ${this.config.apiKey}`,
+      }),
+      ...options.headers,
+    };
+    if (method === 'POST' && options.idempotencyKey) {
+      headers['Idempotency-Key'] = options.idempotencyKey;
+    }
+    const idempotent =
+      IDEMPOTENT_METHODS.includes(method) || 'Idempotency-Key' in headers;
+    const target = { method, url: joinUrl(this.config.apiUrl, url) };
+
+    for (let attempt = 0; ; attempt++) {
+      let response: HttpResponse<T> | undefined;
+      let failure: TransportError | undefined;
+      try {
+        response = await this.transport.request<T>({
+          ...target,
+          headers,
+          // Timestamp to prevent caching
+          params: { ...options.params, _t: Date.now() },
+          data,
+          timeout: options.timeout ?? this.config.timeout,
+          signal: options.signal,
+        });
+      } catch (error) {
+        if (!(error instanceof TransportError)) throw error;
+        failure = error;
       }
-    );
 
-    // Response interceptor
-    this.client.interceptors.response.use(
-      (response) => response,
-      (error) => {
-        if (error.response?.status === 401) {
-          throw new Error('Unauthorized: Invalid API key or session expired');
-        }
-        if (error.response?.status === 429) {
-          throw new Error('Rate limit exceeded. Please try again later.');
-        }
-        if (error.code === 'ECONNABORTED') {
-          throw new Error('Request timeout. Please check your connection.');
-        }
-        throw new Error(
-          error.response?.data?.message || error.message || 'Request failed'
+      if (response && response.status >= 200 && response.status < 300) {
+        return response;
+      }
+
+      // A 429 was turned away before being processed, so any method may
+      // be sent again
+      const retryable = response
+        ? retry.statuses.includes(response.status) &&
+          (idempotent || response.status === 429)
+        : idempotent && failure!.code !== 'aborted';
+      if (!retryable || attempt >= retry.retries) {
+        throw this.toError(target, response, failure);
+      }
+
+      const waited = await sleep(
+        this.retryDelay(attempt, retry, response?.headers['retry-after']),
+        options.signal
+      );
+      if (!waited) {
+        throw this.toError(
+          target,
+          undefined,
+          new TransportError('Request aborted', 'aborted')
         );
       }
-    );
+    }
   }
 
-  async get<T = any>(
+  async get<T = unknown>(
     url: string,
-    config?: AxiosRequestConfig
-  ): Promise<AxiosResponse<T>> {
-    return this.client.get(url, config);
+    options?: RequestOptions
+  ): Promise<HttpResponse<T>> {
+    return this.request<T>('GET', url, undefined, options);
   }
 
-  async post<T = any>(
+  async post<T = unknown>(
     url: string,
-    data?: any,
-    config?: AxiosRequestConfig
-  ): Promise<AxiosResponse<T>> {
-    return this.client.post(url, data, config);
+    data?: unknown,
+    options?: RequestOptions
+  ): Promise<HttpResponse<T>> {
+    return this.request<T>('POST', url, data, options);
   }
 
-  async put<T = any>(
+  async put<T = unknown>(
     url: string,
-    data?: any,
-    config?: AxiosRequestConfig
-  ): Promise<AxiosResponse<T>> {
-    return this.client.put(url, data, config);
+    data?: unknown,
+    options?: RequestOptions
+  ): Promise<HttpResponse<T>> {
+    return this.request<T>('PUT', url, data, options);
   }
 
-  async delete<T = any>(
+  async delete<T = unknown>(
     url: string,
-    config?: AxiosRequestConfig
-  ): Promise<AxiosResponse<T>> {
-    return this.client.delete(url, config);
+    options?: RequestOptions
+  ): Promise<HttpResponse<T>> {
+    return this.request<T>('DELETE', url, undefined, options);
   }
 
-  async patch<T = any>(
+  async patch<T = unknown>(
     url: string,
-    data?: any,
-    config?: AxiosRequestConfig
-  ): Promise<AxiosResponse<T>> {
-    return this.client.patch(url, data, config);
+    data?: unknown,
+    options?: RequestOptions
+  ): Promise<HttpResponse<T>> {
+    return this.request<T>('PATCH', url, data, options);
   }
 
   // Utility methods
   setApiKey(apiKey: string) {
     this.config.apiKey = apiKey;
-    this.client.defaults.headers.common.Authorization = `Bearer ${apiKey}`;
   }
 
   setBaseURL(url: string) {
     this.config.apiUrl = url;
-    this.client.defaults.baseURL = url;
   }
 
   setTimeout(timeout: number) {
     this.config.timeout = timeout;
-    this.client.defaults.timeout = timeout;
   }
 
   getConfig(): ArbitPyConfig {
     return { ...this.config };
   }
-}
\ No newline at end of file
+
+  private retryOptions(
+    override: Partial<RetryOptions> | false | undefined
+  ): RetryOptions {
+    const configured = this.config.retry;
+    if (
+      override === false ||
+      (override === undefined && configured === false)
+    ) {
+      return { ...DEFAULT_RETRY, retries: 0 };
+    }
+    return { ...DEFAULT_RETRY, ...(configured || {}), ...override };
+  }
+
+  // Exponential backoff with full jitter; Retry-After takes precedence
+  private retryDelay(
+    attempt: number,
+    retry: RetryOptions,
+    retryAfter: string | undefined
+  ): number {
+    const requested = parseRetryAfter(retryAfter);
+    if (requested !== undefined) return Math.min(requested, retry.maxDelay);
+
+    const backoff = Math.min(
+      retry.minDelay * retry.factor ** attempt,
+      retry.maxDelay
+    );
+    return retry.jitter ? Math.random() * backoff : backoff;
+  }
+
+  private toError(
+    target: { method: HttpMethod; url: string },
+    response: HttpResponse | undefined,
+    failure: TransportError | undefined
+  ): ArbitPyNetworkError {
+    if (!response) {
+      const messages = {
+        timeout: 'Request timeout. Please check your connection.',
+        aborted: 'Request aborted',
+        network: `Network error: ${failure!.message}`,
+      };
+      return new ArbitPyNetworkError(messages[failure!.code], {
+        ...target,
+        code:
+          failure!.code === 'network'
+            ? 'NETWORK_ERROR'
+            : failure!.code.toUpperCase(),
+        cause: failure,
+      });
+    }
+
+    const details = {
+      ...target,
+      status: response.status,
+      responseData: response.data,
+    };
+    if (response.status === 429) {
+      return new RateLimitError(
+        'Rate limit exceeded. Please try again later.',
+        {
+          ...details,
+          retryAfter: parseRetryAfter(response.headers['retry-after']),
+        }
+      );
+    }
+    if (response.status === 401) {
+      return new ArbitPyNetworkError(
+        'Unauthorized: Invalid API key or session expired',
+        { ...details, code: 'UNAUTHORIZED' }
+      );
+    }
+    const data = response.data as { message?: string } | undefined;
+    return new ArbitPyNetworkError(
+      data?.message || `Request failed with status code ${response.status}`,
+      { ...details, code: 'HTTP_ERROR' }
+    );
+  }
+}
@@ -0,0 +1,11 @@
+// JSON-RPC providers for configured networks
+import { ethers } from 'ethers';
+import { LOCAL_RPC_URL } from '../config';
+import { getDevnet } from '../devnet';
+import { Network } from '../types';
+
+/** A provider for the network; the local network is served by the devnet */
+export function createProvider(network: Network): ethers.JsonRpcApiProvider {
+  if (network.rpcUrl === LOCAL_RPC_URL) return getDevnet().getProvider();
+  return new ethers.JsonRpcProvider(network.rpcUrl);
+}
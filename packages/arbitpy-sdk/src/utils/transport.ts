@@ -0,0 +1,162 @@
+// Pluggable HTTP transports for the ArbitPy SDK
+import axios, { AxiosInstance } from 'axios';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface HttpRequest {
+  method: HttpMethod;
+  /** Request URL, resolved against the configured API URL */
+  url: string;
+  headers: Record<string, string>;
+  params?: Record<string, unknown>;
+  data?: unknown;
+  /** Milliseconds before the attempt fails with a 'timeout' error */
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+export interface HttpResponse<T = unknown> {
+  status: number;
+  /** Response headers with lower-case names */
+  headers: Record<string, string>;
+  data: T;
+}
+
+/**
+ * Sends a single HTTP request. Transports resolve with every response,
+ * whatever its status, and reject only when no response was received.
+ */
+export interface HttpTransport {
+  request<T = unknown>(request: HttpRequest): Promise<HttpResponse<T>>;
+}
+
+/**
+ * A request that got no response. `aborted` means the caller's signal
+ * fired; `network` covers DNS, connection and other I/O failures.
+ */
+export class TransportError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'timeout' | 'aborted' | 'network'
+  ) {
+    super(message);
+    this.name = 'TransportError';
+  }
+}
+
+function lowerCaseHeaders(headers: object): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined && value !== null) {
+      result[name.toLowerCase()] = String(value);
+    }
+  }
+  return result;
+}
+
+/** Default transport, backed by axios */
+export class AxiosTransport implements HttpTransport {
+  private client: AxiosInstance;
+
+  constructor(client: AxiosInstance = axios.create()) {
+    this.client = client;
+  }
+
+  async request<T = unknown>(request: HttpRequest): Promise<HttpResponse<T>> {
+    try {
+      const response = await this.client.request<T>({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        params: request.params,
+        data: request.data,
+        timeout: request.timeout,
+        signal: request.signal,
+        // Statuses are handled by HttpClient
+        validateStatus: () => true,
+      });
+      return {
+        status: response.status,
+        headers: lowerCaseHeaders(response.headers ?? {}),
+        data: response.data,
+      };
+    } catch (error) {
+      if (axios.isCancel(error) || request.signal?.aborted) {
+        throw new TransportError('Request aborted', 'aborted');
+      }
+      const code = (error as { code?: string }).code;
+      if (code === 'ECONNABORTED' || code === 'ETIMEDOUT') {
+        throw new TransportError('Request timeout', 'timeout');
+      }
+      throw new TransportError(
+        error instanceof Error ? error.message : 'Network error',
+        'network'
+      );
+    }
+  }
+}
+
+/** Transport backed by the global `fetch`, for runtimes without axios */
+export class FetchTransport implements HttpTransport {
+  private fetch: typeof fetch;
+
+  constructor(fetchImpl: typeof fetch = globalThis.fetch) {
+    this.fetch = fetchImpl;
+  }
+
+  async request<T = unknown>(request: HttpRequest): Promise<HttpResponse<T>> {
+    const url = new URL(request.url);
+    for (const [name, value] of Object.entries(request.params ?? {})) {
+      if (value !== undefined && value !== null) {
+        url.searchParams.set(name, String(value));
+      }
+    }
+
+    // One controller for both the caller's signal and the timeout
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    request.signal?.addEventListener('abort', abort);
+    let timedOut = false;
+    const timer =
+      request.timeout !== undefined
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, request.timeout)
+        : undefined;
+
+    try {
+      if (request.signal?.aborted) abort();
+      const response = await this.fetch(url.toString(), {
+        method: request.method,
+        headers: request.headers,
+        body:
+          request.data === undefined ? undefined : JSON.stringify(request.data),
+        signal: controller.signal,
+      });
+      const text = await response.text();
+      let data: unknown = text;
+      if (response.headers.get('content-type')?.includes('json') && text) {
+        data = JSON.parse(text);
+      }
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        headers[name.toLowerCase()] = value;
+      });
+      return { status: response.status, headers, data: data as T };
+    } catch (error) {
+      if (timedOut) throw new TransportError('Request timeout', 'timeout');
+      if (controller.signal.aborted) {
+        throw new TransportError('Request aborted', 'aborted');
+      }
+      throw new TransportError(
+        error instanceof Error ? error.message : 'Network error',
+        'network'
+      );
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', abort);
+    }
+  }
+}
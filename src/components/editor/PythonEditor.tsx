@@ -1,20 +1,109 @@
-import Editor from '@monaco-editor/react';
+import Editor, { type Monaco, type OnMount } from '@monaco-editor/react';
 import { useAppStore } from '@/stores/appStore';
+import { lintCode } from '@/lib/api';
 import { Loader2 } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+
+type CodeEditor = Parameters<OnMount>[0];
+
+// Delay before re-checking the code after the last keystroke
+const LINT_DELAY_MS = 400;
+// Shades of the gas heatmap, from the coolest to the hottest line
+const GAS_HEAT_LEVELS = 5;
 
 export function PythonEditor() {
-  const { editorCode, setEditorCode, linterWarnings } = useAppStore();
+  const {
+    editorCode,
+    setEditorCode,
+    linterWarnings,
+    setLinterWarnings,
+    setEditorCursorLine,
+    files,
+    activeFile,
+    gasProfile,
+  } = useAppStore();
+  const editorRef = useRef<CodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const gasDecorationsRef = useRef<string[]>([]);
+  const [editorReady, setEditorReady] = useState(false);
+
+  // Type-check as the user types
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const result = await lintCode(editorCode, { path: activeFile, files });
+      if (!cancelled) setLinterWarnings(result.warnings);
+    }, LINT_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [editorCode, activeFile, files, setLinterWarnings]);
+
+  // Mirror diagnostics of the active file as Monaco markers
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!model || !monaco) return;
 
-  const handleEditorMount = (editor: unknown, monaco: unknown) => {
-    // Configure Python language features
-    const monacoInstance = monaco as {
-      languages: {
-        setMonarchTokensProvider: (lang: string, config: unknown) => void;
-      };
+    const severities = {
+      error: monaco.MarkerSeverity.Error,
+      warning: monaco.MarkerSeverity.Warning,
+      info: monaco.MarkerSeverity.Info,
     };
-    
+    monaco.editor.setModelMarkers(
+      model,
+      'arbitpy',
+      linterWarnings.filter((warning) => !warning.file).map((warning) => {
+        const line = Math.min(Math.max(warning.line, 1), model.getLineCount());
+        return {
+          severity: severities[warning.severity],
+          message: warning.message,
+          startLineNumber: line,
+          startColumn: warning.column,
+          endLineNumber: warning.endLine ?? line,
+          endColumn: warning.endColumn ?? model.getLineMaxColumn(line),
+        };
+      })
+    );
+  }, [linterWarnings, editorReady, activeFile]);
+
+  // Shade lines by the gas the last profile charged to them
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    const lines = gasProfile?.file === activeFile ? gasProfile.report.lines : [];
+    const hottest = lines.reduce((max, { gas }) => (gas > max ? gas : max), 0n);
+    gasDecorationsRef.current = editor.deltaDecorations(
+      gasDecorationsRef.current,
+      lines.map(({ line, gas }) => {
+        const level = Math.max(1, Math.ceil((Number(gas) / Number(hottest)) * GAS_HEAT_LEVELS));
+        return {
+          range: { startLineNumber: line, startColumn: 1, endLineNumber: line, endColumn: 1 },
+          options: {
+            isWholeLine: true,
+            className: `gas-heat-${level}`,
+            hoverMessage: { value: `**${gas.toLocaleString()} gas** over all profiled functions` },
+          },
+        };
+      })
+    );
+  }, [gasProfile, activeFile, editorReady]);
+
+  const handleEditorMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+    setEditorReady(true);
+
+    // Share the cursor line so the output panel can highlight generated code
+    setEditorCursorLine(editor.getPosition()?.lineNumber ?? null);
+    editor.onDidChangeCursorPosition((event) => {
+      setEditorCursorLine(event.position.lineNumber);
+    });
+
     // Add custom Python keywords for smart contracts
-    monacoInstance.languages.setMonarchTokensProvider('python', {
+    monaco.languages.setMonarchTokensProvider('python', {
       keywords: [
         'def', 'class', 'if', 'else', 'elif', 'for', 'while', 'return',
         'import', 'from', 'as', 'try', 'except', 'finally', 'with',
@@ -58,7 +147,7 @@ export function PythonEditor() {
           </div>
           <div className="h-4 w-px bg-border/50 mx-1" />
           <span className="text-sm font-semibold text-foreground/90 flex items-center gap-2">
-            🐍 contract.py
+            🐍 {activeFile}
           </span>
         </div>
         
@@ -83,6 +172,7 @@ export function PythonEditor() {
         <Editor
           height="100%"
           defaultLanguage="python"
+          path={activeFile}
           value={editorCode}
           onChange={(value) => setEditorCode(value || '')}
           onMount={handleEditorMount}
@@ -0,0 +1,253 @@
+import { useState, type KeyboardEvent } from 'react';
+import { cn } from '@/lib/utils';
+import { useAppStore } from '@/stores/appStore';
+import { toast } from '@/hooks/use-toast';
+import {
+  ChevronDown,
+  ChevronRight,
+  FileCode,
+  FilePlus,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  Pencil,
+  Trash2,
+} from 'lucide-react';
+
+interface TreeNode {
+  name: string;
+  path: string;
+  type: 'file' | 'folder';
+  children: TreeNode[];
+}
+
+// A name being typed for a new entry, or for renaming `path`
+type Draft =
+  | { kind: 'file' | 'folder'; parent: string }
+  | { kind: 'rename'; path: string; type: 'file' | 'folder' };
+
+function buildTree(files: string[], folders: string[]): TreeNode[] {
+  const root: TreeNode = { name: '', path: '', type: 'folder', children: [] };
+
+  const insert = (path: string, type: TreeNode['type']) => {
+    let parent = root;
+    const parts = path.split('/');
+    parts.forEach((name, index) => {
+      const isLeaf = index === parts.length - 1;
+      const nodePath = parts.slice(0, index + 1).join('/');
+      let node = parent.children.find((child) => child.name === name);
+      if (!node) {
+        node = { name, path: nodePath, type: isLeaf ? type : 'folder', children: [] };
+        parent.children.push(node);
+      }
+      parent = node;
+    });
+  };
+  folders.forEach((folder) => insert(folder, 'folder'));
+  files.forEach((file) => insert(file, 'file'));
+
+  const sort = (nodes: TreeNode[]): TreeNode[] =>
+    nodes
+      .sort((a, b) =>
+        a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1
+      )
+      .map((node) => ({ ...node, children: sort(node.children) }));
+  return sort(root.children);
+}
+
+function parentOf(path: string) {
+  const slash = path.lastIndexOf('/');
+  return slash < 0 ? '' : path.slice(0, slash);
+}
+
+export function FileTree() {
+  const {
+    files,
+    folders,
+    activeFile,
+    setActiveFile,
+    createFile,
+    createFolder,
+    renameEntry,
+    deleteEntry,
+    setActivePage,
+  } = useAppStore();
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const filePaths = Object.keys(files);
+  const tree = buildTree(filePaths, folders);
+
+  const exists = (path: string) =>
+    path in files ||
+    folders.includes(path) ||
+    filePaths.some((file) => file.startsWith(`${path}/`));
+
+  const toggle = (path: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const openFile = (path: string) => {
+    setActiveFile(path);
+    setActivePage('playground');
+  };
+
+  const commitDraft = (value: string) => {
+    if (!draft) return;
+    let name = value.trim();
+    if (!name) {
+      setDraft(null);
+      return;
+    }
+    if (name.includes('/') || name === '.' || name === '..') {
+      toast({ title: 'Invalid name', description: `"${name}" cannot be used as a name`, variant: 'destructive' });
+      return;
+    }
+
+    const type = draft.kind === 'rename' ? draft.type : draft.kind;
+    // Files are Python modules unless given another extension
+    if (type === 'file' && !name.includes('.')) name += '.py';
+    const parent = draft.kind === 'rename' ? parentOf(draft.path) : draft.parent;
+    const path = parent ? `${parent}/${name}` : name;
+
+    if (draft.kind === 'rename' && path === draft.path) {
+      setDraft(null);
+      return;
+    }
+    if (exists(path)) {
+      toast({ title: 'Name taken', description: `${path} already exists`, variant: 'destructive' });
+      return;
+    }
+
+    if (draft.kind === 'rename') renameEntry(draft.path, path);
+    else if (draft.kind === 'folder') createFolder(path);
+    else {
+      createFile(path);
+      setActivePage('playground');
+    }
+    if (parent) {
+      setCollapsed((current) => {
+        const next = new Set(current);
+        next.delete(parent);
+        return next;
+      });
+    }
+    setDraft(null);
+  };
+
+  const handleDelete = (node: TreeNode) => {
+    const isLastFile = filePaths.every(
+      (file) => file === node.path || file.startsWith(`${node.path}/`)
+    );
+    if (isLastFile) {
+      toast({ title: 'Cannot delete', description: 'A project needs at least one file', variant: 'destructive' });
+      return;
+    }
+    const what = node.type === 'folder' ? `the folder ${node.path} and its files` : node.path;
+    if (window.confirm(`Delete ${what}?`)) deleteEntry(node.path);
+  };
+
+  const renderDraftInput = (depth: number, initial = '') => (
+    <input
+      autoFocus
+      defaultValue={initial}
+      onKeyDown={(event: KeyboardEvent<HTMLInputElement>) => {
+        if (event.key === 'Enter') commitDraft(event.currentTarget.value);
+        if (event.key === 'Escape') setDraft(null);
+      }}
+      onBlur={() => setDraft(null)}
+      className="w-full px-2 py-1 rounded-md text-xs font-mono bg-slate-900 border border-blue-500/50 text-slate-200 focus:outline-none"
+      style={{ marginLeft: depth * 12 }}
+    />
+  );
+
+  const renderNode = (node: TreeNode, depth: number) => {
+    const isOpen = !collapsed.has(node.path);
+    const isRenaming = draft?.kind === 'rename' && draft.path === node.path;
+
+    return (
+      <div key={node.path}>
+        {isRenaming ? (
+          renderDraftInput(depth, node.name)
+        ) : (
+          <div
+            onClick={() => (node.type === 'folder' ? toggle(node.path) : openFile(node.path))}
+            className={cn(
+              'group flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-mono cursor-pointer transition-colors',
+              node.path === activeFile
+                ? 'bg-blue-600/30 text-white'
+                : 'text-slate-300 hover:bg-slate-700/60 hover:text-white'
+            )}
+            style={{ paddingLeft: 8 + depth * 12 }}
+          >
+            {node.type === 'folder' ? (
+              <>
+                {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                {isOpen ? (
+                  <FolderOpen className="w-3.5 h-3.5 text-amber-400" />
+                ) : (
+                  <Folder className="w-3.5 h-3.5 text-amber-400" />
+                )}
+              </>
+            ) : (
+              <FileCode className="w-3.5 h-3.5 ml-[18px] text-blue-400" />
+            )}
+            <span className="flex-1 truncate">{node.name}</span>
+
+            <div className="hidden group-hover:flex items-center gap-1" onClick={(event) => event.stopPropagation()}>
+              {node.type === 'folder' && (
+                <>
+                  <button title="New file" onClick={() => setDraft({ kind: 'file', parent: node.path })}>
+                    <FilePlus className="w-3 h-3 hover:text-white" />
+                  </button>
+                  <button title="New folder" onClick={() => setDraft({ kind: 'folder', parent: node.path })}>
+                    <FolderPlus className="w-3 h-3 hover:text-white" />
+                  </button>
+                </>
+              )}
+              <button title="Rename" onClick={() => setDraft({ kind: 'rename', path: node.path, type: node.type })}>
+                <Pencil className="w-3 h-3 hover:text-white" />
+              </button>
+              <button title="Delete" onClick={() => handleDelete(node)}>
+                <Trash2 className="w-3 h-3 hover:text-red-400" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {node.type === 'folder' && isOpen && (
+          <>
+            {draft && draft.kind !== 'rename' && draft.parent === node.path && renderDraftInput(depth + 1)}
+            {node.children.map((child) => renderNode(child, depth + 1))}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="relative flex-1 min-h-0 flex flex-col px-4 pb-4">
+      <div className="flex items-center justify-between px-2 py-2">
+        <span className="text-xs font-semibold uppercase tracking-wider text-slate-400">Files</span>
+        <div className="flex items-center gap-2 text-slate-400">
+          <button title="New file" onClick={() => setDraft({ kind: 'file', parent: '' })}>
+            <FilePlus className="w-4 h-4 hover:text-white transition-colors" />
+          </button>
+          <button title="New folder" onClick={() => setDraft({ kind: 'folder', parent: '' })}>
+            <FolderPlus className="w-4 h-4 hover:text-white transition-colors" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto scrollbar-thin space-y-0.5">
+        {draft && draft.kind !== 'rename' && draft.parent === '' && renderDraftInput(0)}
+        {tree.map((node) => renderNode(node, 0))}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useAppStore } from '@/stores/appStore';
+import { useAppStore, ARBITRUM_NETWORKS, type PlaygroundNetwork } from '@/stores/appStore';
 import { useMetaMask } from '@/hooks/useMetaMask';
 import { 
   Play, 
@@ -11,21 +11,26 @@ import {
   AlertTriangle,
   CheckCircle,
   Network,
-  RefreshCw
+  RefreshCw,
+  Share2
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { compileToSolidity, compileToStylus, lintCode, deployContract } from '@/lib/api';
+import { buildShareUrl } from '@/lib/shareLink';
 import { useState } from 'react';
 
 export function Header() {
   const {
     editorCode,
+    files,
+    activeFile,
     setCompiledSolidity,
     setCompiledRust,
     setAbiOutput,
     setLinterWarnings,
     addCompileLog,
     addDeployLog,
+    addDeployment,
     setActiveOutputTab,
     isCompiling,
     setIsCompiling,
@@ -36,6 +41,9 @@ export function Header() {
     setRustCompilationResult,
     solidityCompilationResult,
     rustCompilationResult,
+    activeOutputTab,
+    selectedNetwork,
+    setSelectedNetwork,
   } = useAppStore();
 
   const { 
@@ -58,7 +66,7 @@ export function Header() {
     
     try {
       // Run linting first
-      const lintResult = await lintCode(editorCode);
+      const lintResult = await lintCode(editorCode, { path: activeFile, files });
       setLinterWarnings(lintResult.warnings);
       
       if (lintResult.warnings.some(w => w.severity === 'error')) {
@@ -72,7 +80,7 @@ export function Header() {
         return;
       }
 
-      const result = await compileToSolidity(editorCode);
+      const result = await compileToSolidity(editorCode, { path: activeFile, files });
       
       if (result.success) {
         setCompiledSolidity(result.output);
@@ -81,6 +89,7 @@ export function Header() {
         // Store the complete compilation result for deployment
         setSolidityCompilationResult({
           ...result,
+          file: activeFile,
           timestamp: new Date()
         });
         
@@ -117,10 +126,11 @@ export function Header() {
     addCompileLog({ type: 'info', message: 'Starting Stylus/Rust compilation...' });
     
     try {
-      const result = await compileToStylus(editorCode);
+      const result = await compileToStylus(editorCode, { path: activeFile, files });
       
       if (result.success) {
         setCompiledRust(result.output);
+        if (result.abi) setAbiOutput(JSON.stringify(result.abi, null, 2));
         
         // Store the complete compilation result for deployment
         setRustCompilationResult({
@@ -151,7 +161,57 @@ export function Header() {
     }
   };
 
+  // The devnet signs with its own funded accounts, so no wallet is needed
+  const handleDeployLocal = async () => {
+    const bytecode = solidityCompilationResult?.bytecode;
+    if (!bytecode || !solidityCompilationResult?.abi) {
+      toast({
+        title: 'No Bytecode',
+        description: 'Please compile your contract to Solidity bytecode first',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsDeploying(true);
+    addDeployLog({ status: 'pending', message: 'Deploying contract to the local devnet...' });
+    try {
+      const result = await deployContract(bytecode, solidityCompilationResult.abi, '', 'local');
+      if (result.success && result.contractAddress) {
+        addDeployLog({
+          status: 'success',
+          message: `Contract deployed in block ${result.blockNumber}`,
+          txHash: result.txHash,
+          contractAddress: result.contractAddress,
+        });
+        addDeployment('local', {
+          address: result.contractAddress,
+          txHash: result.txHash,
+          target: 'solidity',
+          deployedAt: new Date().toISOString(),
+          file: solidityCompilationResult.file,
+          storageLayout: solidityCompilationResult.storageLayout,
+        });
+        toast({
+          title: 'Deployment Successful',
+          description: `Contract deployed at ${result.contractAddress.slice(0, 10)}...`,
+        });
+      } else {
+        addDeployLog({ status: 'failed', message: result.error || 'Deployment failed' });
+        toast({
+          title: 'Deployment Failed',
+          description: result.error,
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      setIsDeploying(false);
+    }
+  };
+
   const handleDeploy = async () => {
+    if (selectedNetwork === 'local') return handleDeployLocal();
+
     if (!connectedWallet) {
       toast({
         title: 'Wallet Not Connected',
@@ -183,6 +243,16 @@ export function Header() {
           txHash: result.txHash,
           contractAddress: result.contractAddress,
         });
+        if (result.contractAddress) {
+          addDeployment('arbitrum_sepolia', {
+            address: result.contractAddress,
+            txHash: result.txHash,
+            target: 'solidity',
+            deployedAt: new Date().toISOString(),
+            file: solidityCompilationResult?.file,
+            storageLayout: solidityCompilationResult?.storageLayout,
+          });
+        }
         toast({
           title: 'Deployment Successful',
           description: `Contract deployed at ${result.contractAddress?.slice(0, 10)}...`,
@@ -207,7 +277,25 @@ export function Header() {
 
   const [showRunPanel, setShowRunPanel] = useState(false);
 
-  const handleRunFunction = () => {
+  const handleShare = async () => {
+    const url = buildShareUrl({
+      code: editorCode,
+      target: activeOutputTab === 'rust' ? 'rust' : 'solidity',
+      network: selectedNetwork,
+    });
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: 'Share Link Copied',
+        description: `Anyone with the link can open ${activeFile} in the playground`,
+      });
+    } catch {
+      // Clipboard access can be denied; let the user copy it by hand
+      window.prompt('Copy the share link', url);
+    }
+  };
+
+    const handleRunFunction = () => {
     // Check if we have compilation results
     const compilationResult = solidityCompilationResult || rustCompilationResult;
     
@@ -319,15 +407,43 @@ export function Header() {
 
         <div className="w-px h-8 bg-gradient-to-b from-transparent via-slate-600 to-transparent mx-2" />
 
+        {/* Share & Network Section */}
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleShare}
+            title="Copy a link to this contract"
+            className="group relative flex items-center gap-2.5 px-4 py-2.5 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-xl transition-all duration-300 shadow-lg hover:shadow-xl border border-slate-600 hover:border-slate-500 transform hover:scale-[1.02] active:scale-[0.98]"
+          >
+            <Share2 className="w-4 h-4 group-hover:rotate-12 transition-transform" />
+            <span className="hidden sm:inline font-semibold">Share</span>
+          </button>
+
+          <select
+            value={selectedNetwork}
+            onChange={(e) => setSelectedNetwork(e.target.value as PlaygroundNetwork)}
+            title="Target network"
+            className="px-3 py-2.5 bg-slate-800/80 text-slate-200 text-sm rounded-xl border border-slate-600 hover:border-slate-500 focus:outline-none"
+          >
+            {Object.entries(ARBITRUM_NETWORKS).map(([key, config]) => (
+              <option key={key} value={key}>
+                {config.chainName}
+              </option>
+            ))}
+            <option value="local">Local Devnet</option>
+          </select>
+        </div>
+
+        <div className="w-px h-8 bg-gradient-to-b from-transparent via-slate-600 to-transparent mx-2" />
+
         {/* Wallet Section */}
         {isConnected && connectedWallet ? (
           <div className="flex items-center gap-2">
             {/* Network Status */}
-            {!isNetworkSupported() && (
+            {selectedNetwork !== 'local' && !isNetworkSupported() && (
               <button
-                onClick={() => switchToArbitrum('sepolia')}
+                onClick={() => switchToArbitrum(selectedNetwork)}
                 className="group relative flex items-center gap-2 px-3 py-2 bg-amber-500/20 hover:bg-amber-500/30 text-amber-300 rounded-lg transition-all duration-300 border border-amber-500/40"
-                title="Switch to Arbitrum Sepolia"
+                title={`Switch to ${ARBITRUM_NETWORKS[selectedNetwork].chainName}`}
               >
                 <AlertTriangle className="w-4 h-4" />
                 <span className="text-xs font-medium">Wrong Network</span>
@@ -409,7 +525,7 @@ export function Header() {
           </div>
         ) : (
           <button
-            onClick={() => connect('sepolia')}
+            onClick={() => connect(selectedNetwork === 'local' ? undefined : selectedNetwork)}
             disabled={isConnecting}
             className="group relative flex items-center gap-2.5 px-5 py-2.5 bg-gradient-to-r from-blue-600 to-blue-500 hover:from-blue-500 hover:to-blue-400 text-white rounded-xl transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-blue-500/25 hover:shadow-xl transform hover:scale-[1.02] active:scale-[0.98]"
           >
@@ -1,5 +1,7 @@
 import { cn } from '@/lib/utils';
 import { useAppStore } from '@/stores/appStore';
+import { FileTree } from './FileTree';
+import { WorkspaceMenu } from './WorkspaceMenu';
 import { 
   Code2, 
   BookOpen, 
@@ -52,7 +54,7 @@ export function Sidebar() {
       </div>
 
       {/* Navigation */}
-      <nav className="relative flex-1 p-4 space-y-2">
+      <nav className={cn('relative p-4 space-y-2', !sidebarOpen && 'flex-1')}>
         {menuItems.map((item, index) => (
           <button
             key={item.id}
@@ -110,6 +112,10 @@ export function Sidebar() {
         ))}
       </nav>
 
+      {/* Project files */}
+      {sidebarOpen && <WorkspaceMenu />}
+      {sidebarOpen && <FileTree />}
+
       {/* Collapse button */}
       <button
         onClick={() => setSidebarOpen(!sidebarOpen)}
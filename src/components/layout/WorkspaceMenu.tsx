@@ -0,0 +1,203 @@
+import { useRef, useState, type ChangeEvent } from 'react';
+import { useAppStore, type Workspace } from '@/stores/appStore';
+import { toast } from '@/hooks/use-toast';
+import { persistWorkspace } from '@/hooks/useWorkspacePersistence';
+import {
+  createWorkspace,
+  exportWorkspaceZip,
+  importWorkspaceZip,
+  snapshotWorkspace,
+  uniqueWorkspaceName,
+} from '@/lib/workspace';
+import {
+  deleteWorkspace,
+  listWorkspaces,
+  loadWorkspace,
+  saveCurrentWorkspaceName,
+  saveWorkspace,
+  type WorkspaceSummary,
+} from '@/lib/workspaceStorage';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Briefcase, ChevronDown, Download, Pencil, Plus, Save, Trash2, Upload } from 'lucide-react';
+
+const reportError = (title: string, error: unknown) =>
+  toast({
+    title,
+    description: error instanceof Error ? error.message : String(error),
+    variant: 'destructive',
+  });
+
+export function WorkspaceMenu() {
+  const { workspaceName, autoSave, loadWorkspace: openWorkspace, setWorkspaceName } = useAppStore();
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const importInput = useRef<HTMLInputElement>(null);
+
+  const refresh = () =>
+    listWorkspaces()
+      .then(setWorkspaces)
+      .catch((error) => reportError('Failed to list workspaces', error));
+
+  // Without autosave, leaving a workspace discards its unsaved changes
+  const leaveCurrent = async () => {
+    if (autoSave) {
+      await persistWorkspace();
+      return true;
+    }
+    return window.confirm(`Unsaved changes in "${workspaceName}" will be lost. Continue?`);
+  };
+
+  const open = async (workspace: Workspace) => {
+    openWorkspace(workspace);
+    await saveWorkspace(workspace);
+    await saveCurrentWorkspaceName(workspace.name);
+  };
+
+  const askForName = (message: string, initial = '') => {
+    const name = window.prompt(message, initial)?.trim();
+    if (!name) return undefined;
+    if (workspaces.some((workspace) => workspace.name === name)) {
+      toast({ title: 'Name taken', description: `A workspace named "${name}" already exists`, variant: 'destructive' });
+      return undefined;
+    }
+    return name;
+  };
+
+  const handleSwitch = async (name: string) => {
+    if (name === workspaceName) return;
+    try {
+      if (!(await leaveCurrent())) return;
+      const workspace = await loadWorkspace(name);
+      if (!workspace) throw new Error(`Workspace "${name}" could not be read`);
+      openWorkspace(workspace);
+      await saveCurrentWorkspaceName(name);
+    } catch (error) {
+      reportError('Failed to open workspace', error);
+    }
+  };
+
+  const handleNew = async () => {
+    const name = askForName('Name of the new workspace');
+    if (!name) return;
+    try {
+      if (!(await leaveCurrent())) return;
+      await open(createWorkspace(name));
+      toast({ title: 'Workspace created', description: name });
+    } catch (error) {
+      reportError('Failed to create workspace', error);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      await persistWorkspace();
+      toast({ title: 'Workspace saved', description: workspaceName });
+    } catch (error) {
+      reportError('Failed to save workspace', error);
+    }
+  };
+
+  const handleRename = async () => {
+    const name = askForName('Rename workspace', workspaceName);
+    if (!name) return;
+    try {
+      await saveWorkspace(snapshotWorkspace(name));
+      await deleteWorkspace(workspaceName);
+      await saveCurrentWorkspaceName(name);
+      setWorkspaceName(name);
+    } catch (error) {
+      reportError('Failed to rename workspace', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete the workspace "${workspaceName}"?`)) return;
+    try {
+      await deleteWorkspace(workspaceName);
+      const next = workspaces.find((workspace) => workspace.name !== workspaceName);
+      const workspace = next && (await loadWorkspace(next.name));
+      await open(workspace ?? createWorkspace(uniqueWorkspaceName('default', [workspaceName])));
+    } catch (error) {
+      reportError('Failed to delete workspace', error);
+    }
+  };
+
+  const handleExport = () => {
+    const data = exportWorkspaceZip(snapshotWorkspace());
+    const url = URL.createObjectURL(new Blob([data], { type: 'application/zip' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${workspaceName}.zip`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importWorkspaceZip(new Uint8Array(await file.arrayBuffer()));
+      if (!(await leaveCurrent())) return;
+      const taken = (await listWorkspaces()).map((workspace) => workspace.name);
+      const name = uniqueWorkspaceName(imported.name, taken);
+      await open({ ...imported, name });
+      toast({ title: 'Workspace imported', description: name });
+    } catch (error) {
+      reportError('Failed to import workspace', error);
+    }
+  };
+
+  return (
+    <div className="px-4 pt-2">
+      <DropdownMenu onOpenChange={(isOpen) => isOpen && refresh()}>
+        <DropdownMenuTrigger asChild>
+          <button className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-slate-200 bg-slate-800/60 border border-slate-700/50 hover:border-slate-600 transition-colors">
+            <Briefcase className="w-4 h-4 text-blue-400" />
+            <span className="flex-1 truncate text-left font-medium">{workspaceName}</span>
+            <ChevronDown className="w-4 h-4 text-slate-400" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          <DropdownMenuRadioGroup value={workspaceName} onValueChange={handleSwitch}>
+            {workspaces.map((workspace) => (
+              <DropdownMenuRadioItem key={workspace.name} value={workspace.name}>
+                <span className="truncate">{workspace.name}</span>
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={handleNew}>
+            <Plus className="w-4 h-4 mr-2" /> New workspace
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleSave}>
+            <Save className="w-4 h-4 mr-2" /> Save
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleRename}>
+            <Pencil className="w-4 h-4 mr-2" /> Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleDelete} className="text-red-400 focus:text-red-400">
+            <Trash2 className="w-4 h-4 mr-2" /> Delete
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={handleExport}>
+            <Download className="w-4 h-4 mr-2" /> Export as zip
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => importInput.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" /> Import zip
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input ref={importInput} type="file" accept=".zip,application/zip" className="hidden" onChange={handleImport} />
+    </div>
+  );
+}
@@ -4,11 +4,59 @@ import { Button } from '../ui/button';
 import { Alert, AlertDescription } from '../ui/alert';
 import { Badge } from '../ui/badge';
 import { Progress } from '../ui/progress';
-import { Loader2, CheckCircle, AlertCircle, ExternalLink, Copy, RefreshCw, Wallet } from 'lucide-react';
-import { deployContract, deployContractWithSigner, getDeploymentStatus, getTransactionDetails, estimateDeploymentGas } from '../../lib/api';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Loader2, CheckCircle, AlertCircle, ExternalLink, Copy, RefreshCw, Wallet, ArrowUpCircle, Network, Download } from 'lucide-react';
+import { Wallet as KeyWallet, formatEther, formatUnits } from 'ethers';
+import { diffStorageLayouts, type AbiItem } from '@arbitpy/sdk/codegen';
+import { FEE_SPEEDS, type FeeEstimate } from '@arbitpy/sdk/deployment/fees';
+import { predictAddress } from '@arbitpy/sdk/deployment/create2';
+import {
+  mergeManifests,
+  runDeploymentPlan,
+  type DeploymentManifest,
+  type ManifestStatus,
+  type PlanDeployer,
+} from '@arbitpy/sdk/deployment/batch';
+import { getDevnet } from '@arbitpy/sdk/devnet';
+import {
+  compileToSolidity,
+  deployContract,
+  deployContractDeterministic,
+  deployContractWithSigner,
+  getDeployedCode,
+  hasDeterministicDeployer,
+  getDeploymentStatus,
+  getNetworkProvider,
+  getTransactionDetails,
+  estimateDeploymentGas,
+  estimateDeploymentFees,
+} from '../../lib/api';
+import {
+  deployUpgradeable,
+  parseArguments,
+  upgradeProxy,
+  type ProxyDeployer,
+  type UpgradeableDeployResponse,
+} from '../../lib/upgrades';
+import { BATCH_NETWORKS, emptyBatchRow, toDeploymentResult, toDeploymentTarget, type BatchRow } from '../../lib/batch';
 import { useToast } from '../../hooks/use-toast';
 import { useAppStore } from '../../stores/appStore';
 import { useMetaMask } from '../../hooks/useMetaMask';
+import { LOCAL_NETWORK } from '../../lib/devnet';
+import DevnetControls from './DevnetControls';
+
+const formatEth = (wei: bigint) => Number(formatEther(wei)).toPrecision(4);
+const formatGwei = (wei: bigint) => Number(formatUnits(wei, 'gwei')).toPrecision(3);
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const manifestStatusColor: Record<ManifestStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  deploying: 'bg-blue-100 text-blue-700',
+  deployed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+const isConstructor = (item: AbiItem): item is Extract<AbiItem, { type: 'constructor' }> => item.type === 'constructor';
 
 interface DeploymentPanelProps {
   network?: string;
@@ -34,7 +82,17 @@ interface DeploymentState {
 const DeploymentPanel: React.FC<DeploymentPanelProps> = ({ 
   network = 'arbitrum_sepolia' 
 }) => {
-  const { activeOutputTab, solidityCompilationResult, rustCompilationResult, wallet } = useAppStore();
+  const {
+    activeOutputTab,
+    solidityCompilationResult,
+    rustCompilationResult,
+    wallet,
+    deployments,
+    addDeployment,
+    updateDeployment,
+    files,
+    activeFile,
+  } = useAppStore();
   const [deployment, setDeployment] = useState<DeploymentState>({
     status: 'idle',
     progress: 0,
@@ -43,15 +101,33 @@ const DeploymentPanel: React.FC<DeploymentPanelProps> = ({
   });
   
   const [gasEstimate, setGasEstimate] = useState<any>(null);
+  const [feeEstimate, setFeeEstimate] = useState<FeeEstimate | null>(null);
   const [isEstimatingGas, setIsEstimatingGas] = useState(false);
   const [usePrivateKey, setUsePrivateKey] = useState(false);
   const [privateKey, setPrivateKey] = useState('');
+  const [upgradeable, setUpgradeable] = useState(false);
+  const [initializerArgs, setInitializerArgs] = useState<string[]>([]);
+  const [proxyAdmin, setProxyAdmin] = useState('');
+  const [upgradeTarget, setUpgradeTarget] = useState('');
+  const [isUpgrading, setIsUpgrading] = useState(false);
+  const [deterministic, setDeterministic] = useState(false);
+  const [salt, setSalt] = useState('');
+  // Whether the predicted CREATE2 address already has code; null until known
+  const [predictedInUse, setPredictedInUse] = useState<boolean | null>(null);
+  const [deployerMissing, setDeployerMissing] = useState(false);
+  const [batchRows, setBatchRows] = useState<Record<string, BatchRow>>(() =>
+    Object.fromEntries(BATCH_NETWORKS.map(({ network: name }) => [name, emptyBatchRow(name === network)]))
+  );
+  const [manifest, setManifest] = useState<DeploymentManifest | null>(null);
+  const [isBatchDeploying, setIsBatchDeploying] = useState(false);
   const { toast } = useToast();
   const { connectWallet, isMetaMaskInstalled } = useMetaMask();
   
   // Check if wallet is connected and on correct network
   const isWalletReady = wallet.isConnected && wallet.provider && wallet.signer;
   const isCorrectNetwork = wallet.network === network || wallet.chainId === '0x66eee'; // Arbitrum Sepolia
+  // Devnet accounts sign on the local network, so no wallet is needed
+  const isLocal = network === LOCAL_NETWORK;
 
   // Get current compilation result based on active tab
   const getCurrentCompilationResult = () => {
@@ -69,6 +145,116 @@ const DeploymentPanel: React.FC<DeploymentPanelProps> = ({
   };
 
   const compilationResult = getCurrentCompilationResult();
+  const isSolidity = Boolean(compilationResult) && compilationResult !== rustCompilationResult;
+  // Upgradeable builds take the constructor's arguments in `initialize`
+  const initializerInputs = compilationResult?.abi?.find(isConstructor)?.inputs ?? [];
+
+  // Proxies on this network that the compiled contract could replace
+  const proxies = (deployments[network] ?? []).filter((contract) => contract.proxy);
+  const proxy = proxies.find((contract) => contract.address === upgradeTarget) ?? proxies[proxies.length - 1];
+  const storageCheck =
+    proxy?.storageLayout && compilationResult?.storageLayout
+      ? diffStorageLayouts(proxy.storageLayout, compilationResult.storageLayout)
+      : undefined;
+
+  // CREATE2 address of the compiled contract, the same on every network
+  const deployDeterministic = deterministic && isSolidity && !upgradeable;
+  const predictedAddress = (() => {
+    const bytecode = compilationResult?.bytecode;
+    if (!deployDeterministic || !salt.trim() || typeof bytecode !== 'string') return undefined;
+    try {
+      return predictAddress(bytecode, salt.trim(), [], compilationResult?.abi ?? []);
+    } catch {
+      return undefined;
+    }
+  })();
+
+  useEffect(() => {
+    setPredictedInUse(null);
+    setDeployerMissing(false);
+    if (!predictedAddress) return;
+    let current = true;
+    Promise.all([getDeployedCode(predictedAddress, network), hasDeterministicDeployer(network)])
+      .then(([code, hasDeployer]) => {
+        if (!current) return;
+        setPredictedInUse(code !== '0x');
+        setDeployerMissing(!hasDeployer);
+      })
+      .catch((error) => console.error('Failed to check the predicted address:', error));
+    return () => {
+      current = false;
+    };
+  }, [predictedAddress, network, deployments]);
+
+  // Deploys and upgrades go through the method picked below: devnet,
+  // private key or MetaMask
+  const deployer: ProxyDeployer = {
+    deploy: async (bytecode, abi, constructorParams = []) => {
+      if (isLocal || usePrivateKey) {
+        return deployContract(bytecode, abi, isLocal ? '' : privateKey, network, constructorParams);
+      }
+      if (!wallet.signer) throw new Error('MetaMask signer not available');
+      return deployContractWithSigner(bytecode, abi, wallet.signer, network, constructorParams);
+    },
+    signer: async () => (isLocal ? undefined : deterministicSigner()),
+  };
+
+  // CREATE2 deployments are sent from the browser, with the private key too
+  const deterministicSigner = async () => {
+    if (isLocal) return getDevnet().getSigner();
+    if (usePrivateKey) return new KeyWallet(privateKey, await getNetworkProvider(network));
+    if (!wallet.signer) throw new Error('MetaMask signer not available');
+    return wallet.signer;
+  };
+
+  // Each network of a multi-network plan signs with its row's key, then the
+  // Deploy tab's key, then MetaMask, which must be on that network's chain;
+  // the devnet signs for itself
+  const deployTarget: PlanDeployer = async (request, target) => {
+    const { network: targetNetwork, bytecode, abi, constructorParams = [], gasLimit, gasPrice } = request;
+    const key = target.privateKey ?? (usePrivateKey ? privateKey : '');
+    const overrides = { ...(gasLimit && { gasLimit }), ...(gasPrice && { gasPrice }) };
+    if (deployDeterministic) {
+      const signer =
+        targetNetwork === LOCAL_NETWORK
+          ? getDevnet().getSigner()
+          : key
+            ? new KeyWallet(key, await getNetworkProvider(targetNetwork))
+            : wallet.signer;
+      if (!signer) throw new Error('MetaMask signer not available');
+      return toDeploymentResult(
+        await deployContractDeterministic(bytecode, abi, salt.trim(), signer, targetNetwork, constructorParams, overrides)
+      );
+    }
+    if (targetNetwork === LOCAL_NETWORK || key) {
+      return toDeploymentResult(await deployContract(bytecode, abi, key, targetNetwork, constructorParams, overrides));
+    }
+    if (!wallet.signer) throw new Error('MetaMask signer not available');
+    return toDeploymentResult(await deployContractWithSigner(bytecode, abi, wallet.signer, targetNetwork, constructorParams, overrides));
+  };
+
+  // Proxies never run the constructor, so they get the build with a
+  // once-only initialize in its place
+  const compileUpgradeable = async () => {
+    const path = compilationResult?.file ?? activeFile;
+    if (!(path in files)) throw new Error(`${path} is no longer in the project`);
+    const build = await compileToSolidity(files[path], { path, files, upgradeable: true });
+    if (!build.success || typeof build.bytecode !== 'string' || !build.abi) {
+      throw new Error(build.errors?.[0] ?? 'Could not compile the upgradeable build');
+    }
+    return { ...build, bytecode: build.bytecode, abi: build.abi };
+  };
+
+  // Transparent proxies default to an admin that is not used for calls on
+  // the devnet, since the admin cannot reach the implementation
+  const defaultProxyAdmin = (): string | undefined => {
+    if (isLocal) {
+      const { accounts } = getDevnet();
+      return accounts[accounts.length - 1].address;
+    }
+    if (usePrivateKey) return new KeyWallet(privateKey).address;
+    return wallet.address ?? undefined;
+  };
 
   const stages = [
     { key: 'validation', label: 'Validation', progress: 10 },
@@ -165,6 +351,26 @@ const DeploymentPanel: React.FC<DeploymentPanelProps> = ({
     }
     
     setIsEstimatingGas(true);
+    try {
+      const fees = await estimateDeploymentFees(
+        bytecodeToUse,
+        compilationResult.abi,
+        network,
+        [],
+        wallet.connectedWallet ?? undefined
+      );
+      setFeeEstimate(fees);
+      setGasEstimate(null);
+      toast({
+        title: 'Gas Estimated',
+        description: `Estimated cost: ${formatEth(fees.costs.normal.total)} ETH`,
+      });
+      return;
+    } catch (error) {
+      // Fall back to the flat estimate of the API
+      console.warn('Fee estimation failed:', error);
+      setFeeEstimate(null);
+    }
     try {
       const estimate = await estimateDeploymentGas(
         bytecodeToUse,
@@ -269,8 +475,19 @@ const DeploymentPanel: React.FC<DeploymentPanelProps> = ({
       return;
     }
     
+    if (deployDeterministic && !salt.trim()) {
+      toast({
+        title: 'Missing Salt',
+        description: 'Please provide a salt for the CREATE2 deployment',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     // Check deployment method
-    if (usePrivateKey) {
+    if (isLocal) {
+      // Signed by the first devnet account
+    } else if (usePrivateKey) {
       // Private key deployment
       if (!privateKey) {
         toast({
@@ -338,29 +555,19 @@ const DeploymentPanel: React.FC<DeploymentPanelProps> = ({
       console.log('Bytecode starts with 0x:', bytecodeToValidate?.startsWith('0x'));
       console.log('Bytecode length:', bytecodeToValidate?.length);
       
-      // Deploy with either MetaMask signer or private key
-      let deploymentResult;
-      if (usePrivateKey) {
-        // Private key deployment
-        deploymentResult = await deployContract(
-          bytecodeToValidate,
-          compilationResult.abi,
-          privateKey,
-          network
-        );
-      } else {
-        // MetaMask deployment
-        if (!wallet.signer) {
-          throw new Error('MetaMask signer not available');
-        }
-        
-        deploymentResult = await deployContractWithSigner(
-          bytecodeToValidate,
-          compilationResult.abi,
-          wallet.signer,
-          network
-        );
-      }
+      // Deploy with the devnet, MetaMask signer or private key, behind a
+      // proxy when upgradeable or through the CREATE2 deployer
+      const build = upgradeable && isSolidity ? await compileUpgradeable() : undefined;
+      const deploymentResult: UpgradeableDeployResponse = build
+        ? await deployUpgradeable(deployer, network, build.bytecode, build.abi, {
+            kind: 'transparent',
+            initializer: 'initialize',
+            initializerArgs: parseArguments(initializerInputs, initializerArgs),
+            admin: proxyAdmin.trim() || defaultProxyAdmin(),
+          })
+        : deployDeterministic
+          ? await deployContractDeterministic(bytecodeToValidate, compilationResult.abi, salt.trim(), await deterministicSigner(), network)
+          : await deployer.deploy(bytecodeToValidate, compilationResult.abi);
 
       if (deploymentResult.success) {
         setDeployment({
@@ -378,8 +585,22 @@ const DeploymentPanel: React.FC<DeploymentPanelProps> = ({
           blockNumber: deploymentResult.blockNumber
         });
 
+        if (deploymentResult.contractAddress) {
+          addDeployment(network, {
+            address: deploymentResult.contractAddress,
+            txHash: deploymentResult.txHash,
+            target: compilationResult === rustCompilationResult ? 'rust' : 'solidity',
+            deployedAt: new Date().toISOString(),
+            file: compilationResult.file,
+            storageLayout: compilationResult.storageLayout,
+            ...(deploymentResult.implementation && {
+              proxy: { kind: 'transparent', implementation: deploymentResult.implementation, admin: deploymentResult.admin },
+            }),
+          });
+        }
+
         toast({
-          title: 'Deployment Successful!',
+          title: deploymentResult.alreadyDeployed ? 'Already Deployed' : 'Deployment Successful!',
           description: `Contract deployed at ${deploymentResult.contractAddress}`,
         });
 
@@ -408,6 +629,123 @@ const DeploymentPanel: React.FC<DeploymentPanelProps> = ({
     }
   };
 
+  // Deploy the compiled contract as the proxy's new implementation
+  const handleUpgrade = async () => {
+    if (!proxy?.proxy || !compilationResult?.bytecode || !compilationResult.abi) return;
+    setIsUpgrading(true);
+    try {
+      const build = await compileUpgradeable();
+      const { implementation } = await upgradeProxy(deployer, network, proxy.address, proxy.proxy.kind, {
+        bytecode: build.bytecode,
+        abi: build.abi,
+        previousLayout: proxy.storageLayout,
+        storageLayout: build.storageLayout,
+      });
+      updateDeployment(network, proxy.address, {
+        proxy: { ...proxy.proxy, implementation },
+        file: compilationResult.file,
+        storageLayout: build.storageLayout,
+      });
+      toast({
+        title: 'Proxy Upgraded',
+        description: `${shortAddress(proxy.address)} now uses ${shortAddress(implementation)}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Upgrade Failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpgrading(false);
+    }
+  };
+
+  const updateBatchRow = (name: string, changes: Partial<BatchRow>) =>
+    setBatchRows((rows) => ({ ...rows, [name]: { ...rows[name], ...changes } }));
+
+  // Deploy to the checked networks, or again to just the failed ones,
+  // filling the matrix in as each network progresses
+  const handleDeployMany = async (networks: string[], retry = false) => {
+    const bytecode = compilationResult?.bytecode;
+    if (!compilationResult?.success || typeof bytecode !== 'string' || !compilationResult.abi) {
+      toast({ title: 'No Compilation Result', description: 'Please compile your contract first', variant: 'destructive' });
+      return;
+    }
+    if (deployDeterministic && !salt.trim()) {
+      toast({ title: 'Missing Salt', description: 'Please provide a salt for the CREATE2 deployment', variant: 'destructive' });
+      return;
+    }
+
+    const previous = manifest;
+    const merge = (next: DeploymentManifest) => (retry && previous ? mergeManifests(previous, next) : next);
+    setIsBatchDeploying(true);
+    try {
+      const result = merge(
+        await runDeploymentPlan(
+          {
+            name: compilationResult.file,
+            bytecode,
+            abi: compilationResult.abi,
+            ...(deployDeterministic && { salt: salt.trim() }),
+            targets: networks.map((name) => toDeploymentTarget(name, batchRows[name])),
+          },
+          deployTarget,
+          {
+            onUpdate: (_, next) => setManifest(merge({ ...next, deployments: { ...next.deployments } })),
+            chainId: (name) => BATCH_NETWORKS.find((candidate) => candidate.network === name)?.chainId,
+          }
+        )
+      );
+      setManifest(result);
+
+      const entries = networks.map((name) => result.deployments[name]);
+      for (const entry of entries) {
+        if (entry.status !== 'deployed' || !entry.address) continue;
+        addDeployment(entry.network, {
+          address: entry.address,
+          txHash: entry.transactionHash,
+          target: 'solidity',
+          deployedAt: new Date().toISOString(),
+          file: compilationResult.file,
+          storageLayout: compilationResult.storageLayout,
+        });
+      }
+      const deployed = entries.filter((entry) => entry.status === 'deployed').length;
+      const failed = entries.filter((entry) => entry.status === 'failed').length;
+      toast({
+        title: failed ? 'Some Deployments Failed' : deployed < entries.length ? 'Some Deployments Pending' : 'Deployment Successful!',
+        description: `Deployed to ${deployed} of ${entries.length} networks`,
+        variant: failed ? 'destructive' : 'default',
+      });
+    } catch (error) {
+      toast({
+        title: 'Deployment Failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsBatchDeploying(false);
+    }
+  };
+
+  const downloadManifest = () => {
+    if (!manifest) return;
+    const url = URL.createObjectURL(new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${manifest.name?.split('/').pop()?.replace(/\.[^.]+$/, '') || 'deployments'}.manifest.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const batchNetworks = BATCH_NETWORKS.filter(
+    ({ network: name, create2Only }) => batchRows[name]?.enabled && (deployDeterministic || !create2Only)
+  ).map(({ network: name }) => name);
+  const failedNetworks = Object.values(manifest?.deployments ?? {})
+    .filter((entry) => entry.status === 'failed')
+    .map((entry) => entry.network);
+
   const monitorDeployment = async (sessionId: string) => {
     try {
       const status = await getDeploymentStatus(sessionId);
@@ -477,69 +815,73 @@ const DeploymentPanel: React.FC<DeploymentPanelProps> = ({
         {/* Deployment Form */}
         {deployment.status === 'idle' && (
           <div className="space-y-4">
+            {isLocal && <DevnetControls />}
+
             {/* Wallet Selection */}
-            <div className="space-y-3">
-              <label className="block text-sm font-medium mb-2">
-                Choose Deployment Method
-              </label>
-              
-              <div className="grid grid-cols-2 gap-3">
-                {/* MetaMask Option */}
-                <button
-                  onClick={() => setUsePrivateKey(false)}
-                  className={`p-4 border-2 rounded-lg text-left transition-all ${
-                    !usePrivateKey 
-                      ? 'border-blue-500 bg-blue-50 text-blue-900' 
-                      : 'border-gray-200 hover:border-gray-300'
-                  }`}
-                >
-                  <div className="flex items-center gap-2 mb-2">
-                    <Wallet className="w-5 h-5" />
-                    <span className="font-medium">MetaMask</span>
-                  </div>
-                  <p className="text-xs text-gray-600">
-                    Deploy using your connected MetaMask wallet
-                  </p>
-                  {!usePrivateKey && (
-                    <div className="mt-2 text-xs">
-                      {isWalletReady ? (
-                        <div className="space-y-1">
-                          <p className="text-green-600">✓ Wallet connected</p>
-                          <p className="text-gray-600">Address: {wallet.address?.slice(0, 6)}...{wallet.address?.slice(-4)}</p>
-                          <p className="text-gray-600">Balance: {parseFloat(wallet.balance || '0').toFixed(4)} ETH</p>
-                          {!isCorrectNetwork && (
-                            <p className="text-orange-600">⚠️ Switch to Arbitrum Sepolia</p>
-                          )}
-                        </div>
-                      ) : (
-                        <p className="text-orange-600">⚠️ Connect MetaMask first</p>
-                      )}
+            {!isLocal && (
+              <div className="space-y-3">
+                <label className="block text-sm font-medium mb-2">
+                  Choose Deployment Method
+                </label>
+                
+                <div className="grid grid-cols-2 gap-3">
+                  {/* MetaMask Option */}
+                  <button
+                    onClick={() => setUsePrivateKey(false)}
+                    className={`p-4 border-2 rounded-lg text-left transition-all ${
+                      !usePrivateKey 
+                        ? 'border-blue-500 bg-blue-50 text-blue-900' 
+                        : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <div className="flex items-center gap-2 mb-2">
+                      <Wallet className="w-5 h-5" />
+                      <span className="font-medium">MetaMask</span>
                     </div>
-                  )}
-                </button>
-
-                {/* Private Key Option */}
-                <button
-                  onClick={() => setUsePrivateKey(true)}
-                  className={`p-4 border-2 rounded-lg text-left transition-all ${
-                    usePrivateKey 
-                      ? 'border-blue-500 bg-blue-50 text-blue-900' 
-                      : 'border-gray-200 hover:border-gray-300'
-                  }`}
-                >
-                  <div className="flex items-center gap-2 mb-2">
-                    <AlertCircle className="w-5 h-5" />
-                    <span className="font-medium">Private Key</span>
-                  </div>
-                  <p className="text-xs text-gray-600">
-                    Deploy using a private key (testnet only)
-                  </p>
-                </button>
+                    <p className="text-xs text-gray-600">
+                      Deploy using your connected MetaMask wallet
+                    </p>
+                    {!usePrivateKey && (
+                      <div className="mt-2 text-xs">
+                        {isWalletReady ? (
+                          <div className="space-y-1">
+                            <p className="text-green-600">✓ Wallet connected</p>
+                            <p className="text-gray-600">Address: {wallet.address?.slice(0, 6)}...{wallet.address?.slice(-4)}</p>
+                            <p className="text-gray-600">Balance: {parseFloat(wallet.balance || '0').toFixed(4)} ETH</p>
+                            {!isCorrectNetwork && (
+                              <p className="text-orange-600">⚠️ Switch to Arbitrum Sepolia</p>
+                            )}
+                          </div>
+                        ) : (
+                          <p className="text-orange-600">⚠️ Connect MetaMask first</p>
+                        )}
+                      </div>
+                    )}
+                  </button>
+
+                  {/* Private Key Option */}
+                  <button
+                    onClick={() => setUsePrivateKey(true)}
+                    className={`p-4 border-2 rounded-lg text-left transition-all ${
+                      usePrivateKey 
+                        ? 'border-blue-500 bg-blue-50 text-blue-900' 
+                        : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <div className="flex items-center gap-2 mb-2">
+                      <AlertCircle className="w-5 h-5" />
+                      <span className="font-medium">Private Key</span>
+                    </div>
+                    <p className="text-xs text-gray-600">
+                      Deploy using a private key (testnet only)
+                    </p>
+                  </button>
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Private Key Input (only when selected) */}
-            {usePrivateKey && (
+            {usePrivateKey && !isLocal && (
               <div>
                 <label className="block text-sm font-medium mb-2">
                   Private Key (for deployment)
@@ -571,11 +913,141 @@ const DeploymentPanel: React.FC<DeploymentPanelProps> = ({
               </div>
             )}
 
+            {/* Upgradeable Deployment */}
+            {isSolidity && (
+              <div className="space-y-3 p-3 bg-gray-50 rounded-lg">
+                <label className="flex items-center gap-2 text-sm font-medium">
+                  <input type="checkbox" checked={upgradeable} onChange={(e) => setUpgradeable(e.target.checked)} />
+                  Upgradeable (ERC-1967 proxy)
+                </label>
+                {upgradeable && (
+                  <div className="space-y-3">
+                    <p className="text-xs text-gray-500">
+                      __init__ becomes initialize(), which runs once through the proxy. Contracts compiled from Python
+                      cannot write the ERC-1967 slot themselves, so they sit behind a transparent proxy.
+                    </p>
+                    {initializerInputs.map((input, index) => (
+                      <input
+                        key={index}
+                        value={initializerArgs[index] ?? ''}
+                        onChange={(e) => {
+                          const args = [...initializerArgs];
+                          args[index] = e.target.value;
+                          setInitializerArgs(args);
+                        }}
+                        placeholder={`${input.name || `arg${index}`} (${input.type})`}
+                        className="w-full p-2 border border-gray-300 rounded-md text-sm font-mono"
+                      />
+                    ))}
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Admin</label>
+                      <input
+                        value={proxyAdmin}
+                        onChange={(e) => setProxyAdmin(e.target.value)}
+                        placeholder={isLocal ? 'Last devnet account' : 'Deploying account'}
+                        className="w-full p-2 border border-gray-300 rounded-md text-sm font-mono"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Only the admin can upgrade, and its calls never reach the contract
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Deterministic Deployment */}
+            {isSolidity && !upgradeable && (
+              <div className="space-y-3 p-3 bg-gray-50 rounded-lg">
+                <label className="flex items-center gap-2 text-sm font-medium">
+                  <input type="checkbox" checked={deterministic} onChange={(e) => setDeterministic(e.target.checked)} />
+                  Deterministic address (CREATE2)
+                </label>
+                {deterministic && (
+                  <div className="space-y-2">
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Salt</label>
+                      <input
+                        value={salt}
+                        onChange={(e) => setSalt(e.target.value)}
+                        placeholder="token-v1 or 0x..."
+                        className="w-full p-2 border border-gray-300 rounded-md text-sm font-mono"
+                      />
+                    </div>
+                    {predictedAddress && (
+                      <div className="flex items-center justify-between text-sm">
+                        <span>
+                          Address: <span className="font-mono">{predictedAddress}</span>
+                        </span>
+                        <Button onClick={() => copyToClipboard(predictedAddress, 'Predicted address')} variant="ghost" size="sm">
+                          <Copy className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    )}
+                    {predictedInUse && (
+                      <Alert className="border-orange-200 bg-orange-50">
+                        <AlertCircle className="h-4 w-4 text-orange-600" />
+                        <AlertDescription className="text-orange-800">
+                          A contract is already deployed at this address on {network}. Deploying returns it; use another
+                          salt to deploy a new one.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    {deployerMissing && (
+                      <Alert className="border-red-200 bg-red-50">
+                        <AlertCircle className="h-4 w-4 text-red-600" />
+                        <AlertDescription className="text-red-800">
+                          The CREATE2 deployer is not deployed on {network}, so this address cannot be reached there.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      The same bytecode and salt give this address on every network with the CREATE2 deployer
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Gas Estimation */}
             <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
               <div>
                 <p className="font-medium">Gas Estimation for {network}</p>
-                {gasEstimate ? (
+                {feeEstimate ? (
+                  <div className="text-sm text-gray-600 space-y-2">
+                    <p>
+                      Gas: {feeEstimate.gasLimit.toString()} ({feeEstimate.l2Gas.toString()} L2 execution
+                      {feeEstimate.l1Gas > 0n && ` + ${feeEstimate.l1Gas.toString()} L1 data`})
+                    </p>
+                    <p>
+                      Base fee: {formatGwei(feeEstimate.presets.baseFeePerGas)} Gwei
+                      {feeEstimate.l1BaseFeeEstimate !== undefined &&
+                        ` · L1 base fee: ${formatGwei(feeEstimate.l1BaseFeeEstimate)} Gwei`}
+                    </p>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Speed</TableHead>
+                          <TableHead className="text-right">Priority fee</TableHead>
+                          <TableHead className="text-right">L2 execution</TableHead>
+                          <TableHead className="text-right">L1 data</TableHead>
+                          <TableHead className="text-right">Total</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {FEE_SPEEDS.map((speed) => (
+                          <TableRow key={speed}>
+                            <TableCell className="capitalize">{speed}</TableCell>
+                            <TableCell className="text-right">{formatGwei(feeEstimate.presets[speed].maxPriorityFeePerGas)} Gwei</TableCell>
+                            <TableCell className="text-right">{formatEth(feeEstimate.costs[speed].l2Cost)} ETH</TableCell>
+                            <TableCell className="text-right">{formatEth(feeEstimate.costs[speed].l1Cost)} ETH</TableCell>
+                            <TableCell className="text-right font-medium">{formatEth(feeEstimate.costs[speed].total)} ETH</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ) : gasEstimate ? (
                   <div className="text-sm text-gray-600 space-y-1">
                     <p>Gas Limit: {gasEstimate.gasEstimate || gasEstimate.gasLimit}</p>
                     <p>Gas Price: {gasEstimate.gasPriceGwei ? `${gasEstimate.gasPriceGwei} Gwei` : 'N/A'}</p>
@@ -607,12 +1079,200 @@ const DeploymentPanel: React.FC<DeploymentPanelProps> = ({
               onClick={handleDeploy}
               disabled={
                 !compilationResult || 
-                (usePrivateKey ? !privateKey : !isWalletReady || !isCorrectNetwork)
+                (!isLocal && (usePrivateKey ? !privateKey : !isWalletReady || !isCorrectNetwork)) ||
+                (deployDeterministic && (!salt.trim() || deployerMissing))
               }
               className="w-full"
             >
-              Deploy Contract {!usePrivateKey ? 'with MetaMask' : 'with Private Key'}
+              Deploy {upgradeable && isSolidity ? 'Upgradeable Contract' : 'Contract'}{' '}
+              {isLocal ? 'to Local Devnet' : !usePrivateKey ? 'with MetaMask' : 'with Private Key'}
             </Button>
+
+            {/* Upgrade a proxy deployed earlier */}
+            {isSolidity && proxy?.proxy && (
+              <div className="space-y-3 p-3 border border-gray-200 rounded-lg">
+                <div className="flex items-center gap-2">
+                  <ArrowUpCircle className="w-4 h-4" />
+                  <p className="font-medium">Upgrade Proxy</p>
+                </div>
+                <select
+                  value={proxy.address}
+                  onChange={(e) => setUpgradeTarget(e.target.value)}
+                  className="w-full p-2 border border-gray-300 rounded-md text-sm font-mono"
+                >
+                  {proxies.map((contract) => (
+                    <option key={contract.address} value={contract.address}>
+                      {shortAddress(contract.address)} · {contract.proxy?.kind === 'uups' ? 'UUPS' : 'Transparent'} · implementation{' '}
+                      {shortAddress(contract.proxy?.implementation ?? '')}
+                    </option>
+                  ))}
+                </select>
+                {storageCheck ? (
+                  <Alert className={storageCheck.compatible ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}>
+                    <AlertDescription className={storageCheck.compatible ? 'text-green-800' : 'text-red-800'}>
+                      <p className="font-medium">
+                        {storageCheck.compatible ? 'Storage layout is upgrade safe' : 'Storage layout is not upgrade safe'}
+                      </p>
+                      {storageCheck.changes.map((change, index) => (
+                        <p key={index} className="text-xs font-mono mt-1">
+                          {change.breaking ? '✗' : '✓'} {change.message}
+                        </p>
+                      ))}
+                    </AlertDescription>
+                  </Alert>
+                ) : (
+                  <p className="text-xs text-gray-500">
+                    {proxy.storageLayout ? 'The compiled contract has no storage layout' : 'No storage layout was recorded for this proxy'}, so the
+                    upgrade cannot be checked
+                  </p>
+                )}
+                <Button
+                  onClick={handleUpgrade}
+                  disabled={
+                    isUpgrading ||
+                    !storageCheck?.compatible ||
+                    (!isLocal && (usePrivateKey ? !privateKey : !isWalletReady || !isCorrectNetwork))
+                  }
+                  variant="outline"
+                  className="w-full"
+                >
+                  {isUpgrading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Upgrade to Compiled Contract
+                </Button>
+              </div>
+            )}
+
+            {/* Deploy to several networks at once */}
+            {isSolidity && !upgradeable && (
+              <div className="space-y-3 p-3 border border-gray-200 rounded-lg">
+                <div className="flex items-center gap-2">
+                  <Network className="w-4 h-4" />
+                  <p className="font-medium">Multi-Network Deployment</p>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Network</TableHead>
+                      <TableHead>Constructor args</TableHead>
+                      <TableHead>Gas limit</TableHead>
+                      <TableHead>Gas price (Gwei)</TableHead>
+                      <TableHead>Private key</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Deployment</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {BATCH_NETWORKS.map(({ network: name, label, chainId, create2Only }) => {
+                      const row = batchRows[name];
+                      const entry = manifest?.deployments[name];
+                      const input = 'w-full p-1 border border-gray-300 rounded-md text-xs font-mono';
+                      return (
+                        <TableRow key={name}>
+                          <TableCell>
+                            <label
+                              className="flex items-center gap-2 text-sm whitespace-nowrap"
+                              title={create2Only && !deployDeterministic ? 'Deployed through CREATE2 only; set a salt above' : undefined}
+                            >
+                              <input
+                                type="checkbox"
+                                checked={row.enabled && (deployDeterministic || !create2Only)}
+                                disabled={create2Only && !deployDeterministic}
+                                onChange={(e) => updateBatchRow(name, { enabled: e.target.checked })}
+                              />
+                              {label}
+                              <span className="text-xs text-gray-500">{chainId}</span>
+                            </label>
+                          </TableCell>
+                          <TableCell>
+                            <input
+                              value={row.constructorArgs}
+                              onChange={(e) => updateBatchRow(name, { constructorArgs: e.target.value })}
+                              placeholder="[]"
+                              className={input}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <input value={row.gasLimit} onChange={(e) => updateBatchRow(name, { gasLimit: e.target.value })} placeholder="Default" className={input} />
+                          </TableCell>
+                          <TableCell>
+                            <input value={row.gasPrice} onChange={(e) => updateBatchRow(name, { gasPrice: e.target.value })} placeholder="Default" className={input} />
+                          </TableCell>
+                          <TableCell>
+                            {name === LOCAL_NETWORK ? (
+                              <span className="text-xs text-gray-500">Devnet account</span>
+                            ) : (
+                              <input
+                                type="password"
+                                value={row.privateKey}
+                                onChange={(e) => updateBatchRow(name, { privateKey: e.target.value })}
+                                placeholder={usePrivateKey ? 'Deploy tab key' : 'MetaMask'}
+                                className={input}
+                              />
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {entry && (
+                              <span className={`px-2 py-0.5 rounded text-xs capitalize ${manifestStatusColor[entry.status]}`} title={entry.error}>
+                                {entry.alreadyDeployed ? 'already deployed' : entry.status}
+                                {entry.attempts > 1 && ` (${entry.attempts} tries)`}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-xs font-mono">
+                            {entry?.address ? (
+                              <div className="space-y-0.5">
+                                <p>{shortAddress(entry.address)}</p>
+                                {entry.transactionHash && <p className="text-gray-500">tx {shortAddress(entry.transactionHash)}</p>}
+                                {entry.blockNumber !== undefined && <p className="text-gray-500">block {entry.blockNumber}</p>}
+                              </div>
+                            ) : (
+                              entry && (
+                                <div className="space-y-0.5">
+                                  {entry.transactionHash && <p className="text-gray-500">tx {shortAddress(entry.transactionHash)}</p>}
+                                  {entry.error && (
+                                    <p className={`font-sans ${entry.status === 'failed' ? 'text-red-600' : 'text-gray-600'}`}>{entry.error}</p>
+                                  )}
+                                </div>
+                              )
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+                {deployDeterministic && (
+                  <p className="text-xs text-gray-500">Every network deploys through CREATE2 with the salt above</p>
+                )}
+                <div className="flex gap-2">
+                  <Button onClick={() => handleDeployMany(batchNetworks)} disabled={isBatchDeploying || batchNetworks.length === 0} className="flex-1">
+                    {isBatchDeploying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Deploy to {batchNetworks.length} {batchNetworks.length === 1 ? 'Network' : 'Networks'}
+                  </Button>
+                  {failedNetworks.length > 0 && (
+                    <Button onClick={() => handleDeployMany(failedNetworks, true)} disabled={isBatchDeploying} variant="outline">
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                      Retry Failed
+                    </Button>
+                  )}
+                  {manifest && (
+                    <>
+                      <Button onClick={downloadManifest} variant="outline" size="icon" title="Download manifest">
+                        <Download className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        onClick={() => copyToClipboard(JSON.stringify(manifest, null, 2), 'Deployment manifest')}
+                        variant="outline"
+                        size="icon"
+                        title="Copy manifest"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
         )}
 
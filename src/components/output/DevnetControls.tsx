@@ -0,0 +1,113 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { formatEther } from 'ethers';
+import { getDevnet } from '@arbitpy/sdk/devnet';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Camera, Clock, Hammer, RotateCcw } from 'lucide-react';
+import { useToast } from '../../hooks/use-toast';
+
+interface AccountBalance {
+  address: string;
+  balance: bigint;
+}
+
+const HOUR = 3600;
+const DAY = 24 * HOUR;
+
+/** Funded accounts, mining, snapshots and time travel of the local devnet */
+const DevnetControls: React.FC = () => {
+  const { toast } = useToast();
+  const [blockNumber, setBlockNumber] = useState<number>();
+  const [timestamp, setTimestamp] = useState<number>();
+  const [accounts, setAccounts] = useState<AccountBalance[]>([]);
+  const [snapshots, setSnapshots] = useState<string[]>([]);
+
+  const refresh = useCallback(async () => {
+    const devnet = getDevnet();
+    const provider = devnet.getProvider();
+    const block = await provider.getBlock('latest');
+    setBlockNumber(block?.number);
+    setTimestamp(block?.timestamp);
+    setAccounts(await Promise.all(
+      devnet.accounts.slice(0, 3).map(async ({ address }) => ({ address, balance: await provider.getBalance(address) }))
+    ));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = async (action: () => Promise<void>, title: string) => {
+    try {
+      await action();
+      await refresh();
+      toast({ title });
+    } catch (error) {
+      toast({
+        title: 'Devnet Error',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const snapshot = () => run(async () => {
+    const id = await getDevnet().snapshot();
+    setSnapshots((previous) => [...previous, id]);
+  }, 'Snapshot taken');
+
+  const revert = () => run(async () => {
+    const id = snapshots[snapshots.length - 1];
+    await getDevnet().revert(id);
+    setSnapshots((previous) => previous.slice(0, -1));
+  }, 'Reverted to the last snapshot');
+
+  const travel = (seconds: number) => run(async () => {
+    const devnet = getDevnet();
+    await devnet.increaseTime(seconds);
+    await devnet.mine();
+  }, `Moved forward ${seconds >= DAY ? `${seconds / DAY} day` : `${seconds / HOUR} hour`}`);
+
+  return (
+    <div className="p-3 bg-gray-50 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="font-medium">Local Devnet</p>
+        <div className="flex gap-2">
+          <Badge variant="outline">Block {blockNumber ?? '…'}</Badge>
+          {timestamp !== undefined && (
+            <Badge variant="outline">{new Date(timestamp * 1000).toLocaleString()}</Badge>
+          )}
+        </div>
+      </div>
+
+      <div className="text-xs text-gray-600 space-y-1">
+        {accounts.map(({ address, balance }, index) => (
+          <p key={address} className="font-mono">
+            #{index} {address.slice(0, 10)}...{address.slice(-6)} · {Number(formatEther(balance)).toFixed(4)} ETH
+          </p>
+        ))}
+        <p>Transactions are signed by account #0 and mined instantly.</p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" onClick={snapshot}>
+          <Camera className="w-4 h-4 mr-1" /> Snapshot
+        </Button>
+        <Button size="sm" variant="outline" onClick={revert} disabled={snapshots.length === 0}>
+          <RotateCcw className="w-4 h-4 mr-1" /> Revert{snapshots.length > 0 && ` (${snapshots.length})`}
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => travel(HOUR)}>
+          <Clock className="w-4 h-4 mr-1" /> +1 hour
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => travel(DAY)}>
+          <Clock className="w-4 h-4 mr-1" /> +1 day
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => run(() => getDevnet().mine(), 'Block mined')}>
+          <Hammer className="w-4 h-4 mr-1" /> Mine
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default DevnetControls;
@@ -8,10 +8,11 @@ import { Badge } from '../ui/badge';
 import { ScrollArea } from '../ui/scroll-area';
 import { Separator } from '../ui/separator';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
-import { Play, Eye, Loader2, ExternalLink, Copy, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Play, Eye, Loader2, ExternalLink, Copy, AlertTriangle, CheckCircle, Bug, X } from 'lucide-react';
 import { useToast } from '../../hooks/use-toast';
 import { executeFunction, simulateFunction } from '../../lib/api';
-import { useAppStore } from '../../stores/appStore';
+import { LOCAL_NETWORK } from '../../lib/devnet';
+import { useAppStore, type ReplayStep } from '../../stores/appStore';
 
 interface FunctionExecutionPanelProps {
   contractAddress?: string;
@@ -19,13 +20,18 @@ interface FunctionExecutionPanelProps {
   network?: string;
 }
 
+interface AbiFunction {
+  name: string;
+  inputs?: Array<{ type: string }>;
+}
+
 const FunctionExecutionPanel: React.FC<FunctionExecutionPanelProps> = ({
   contractAddress: initialAddress,
   abi: initialAbi,
   network = 'arbitrum_sepolia'
 }) => {
   const { toast } = useToast();
-  const { solidityCompilationResult, rustCompilationResult } = useAppStore();
+  const { solidityCompilationResult, rustCompilationResult, fuzzReplay, setFuzzReplay } = useAppStore();
   
   const [contractAddress, setContractAddress] = useState(initialAddress || '');
   const [abi, setAbi] = useState<any[]>(initialAbi || []);
@@ -38,30 +44,97 @@ const FunctionExecutionPanel: React.FC<FunctionExecutionPanelProps> = ({
   const [isExecuting, setIsExecuting] = useState(false);
   const [isSimulating, setIsSimulating] = useState(false);
   const [executionResults, setExecutionResults] = useState<any[]>([]);
+  const [isReplaying, setIsReplaying] = useState(false);
+  // A devnet account signs on the local network; the first one unless a
+  // replayed fuzz step was sent by another
+  const [sender, setSender] = useState('');
+  const isLocal = network === LOCAL_NETWORK;
 
-  // Load ABI from compilation results if available
+  // Follow the latest compilation so the functions match the current source
   useEffect(() => {
-    if (!abi.length) {
-      const compilationResult = solidityCompilationResult || rustCompilationResult;
-      if (compilationResult?.abi) {
-        setAbi(compilationResult.abi);
-      }
+    if (initialAbi?.length) return;
+    const compilationResult = solidityCompilationResult || rustCompilationResult;
+    if (compilationResult?.abi) {
+      setAbi(compilationResult.abi);
+      setSelectedFunction(null);
+      setParameters([]);
     }
-  }, [solidityCompilationResult, rustCompilationResult, abi.length]);
+  }, [solidityCompilationResult, rustCompilationResult, initialAbi]);
 
   // Filter functions from ABI
   const functions = abi.filter(item => item.type === 'function');
   const readFunctions = functions.filter(fn => fn.stateMutability === 'view' || fn.stateMutability === 'pure');
   const writeFunctions = functions.filter(fn => fn.stateMutability !== 'view' && fn.stateMutability !== 'pure');
 
-  const handleFunctionSelect = (functionName: string) => {
-    const func = functions.find(f => f.name === functionName);
+  // Functions with default arguments are overloaded, so pick them by signature
+  const signature = (func: AbiFunction) =>
+    `${func.name}(${(func.inputs || []).map(input => input.type).join(',')})`;
+  const isOverloaded = (func: AbiFunction) =>
+    functions.filter(f => f.name === func.name).length > 1;
+  const callName = (func: AbiFunction) => (isOverloaded(func) ? signature(func) : func.name);
+
+  const handleFunctionSelect = (functionSignature: string) => {
+    const func = functions.find(f => signature(f) === functionSignature);
     setSelectedFunction(func);
     if (func) {
       setParameters(new Array(func.inputs?.length || 0).fill(''));
     }
   };
 
+  const findFunction = (stepAbi: ReplayStep['abi'], functionSignature: string) =>
+    stepAbi.find(
+      (item): item is Extract<ReplayStep['abi'][number], { type: 'function' }> =>
+        item.type === 'function' && signature(item) === functionSignature
+    );
+
+  // Fill the form with one call of a fuzzed sequence
+  const loadReplayStep = (step: ReplayStep) => {
+    setContractAddress(step.contractAddress);
+    setAbi(step.abi);
+    setSelectedFunction(findFunction(step.abi, step.signature));
+    setParameters(step.parameters);
+    setValue(step.value);
+    setSender(step.sender);
+  };
+
+  // Send every call of the fuzzed sequence in order, from its senders
+  const handleReplayAll = async () => {
+    if (!fuzzReplay) return;
+    setIsReplaying(true);
+    const results: typeof executionResults = [];
+    try {
+      for (const step of fuzzReplay.steps) {
+        const func = findFunction(step.abi, step.signature);
+        const parsedParams = parseParameters(func, step.parameters);
+        const result = await executeFunction(step.contractAddress, step.abi, step.signature, parsedParams, LOCAL_NETWORK, undefined, {
+          value: step.value,
+          from: step.sender,
+        });
+        results.unshift({
+          id: Date.now() + results.length,
+          timestamp: new Date(),
+          functionName: func?.name ?? step.signature,
+          type: 'write',
+          parameters: parsedParams,
+          ...result
+        });
+        if (!result.success) break;
+      }
+      setExecutionResults([...results, ...executionResults]);
+
+      const failed = results.find(result => !result.success);
+      toast({
+        title: failed ? 'Replay Stopped' : 'Sequence Replayed',
+        description: failed
+          ? failed.error
+          : `Sent ${results.length} call${results.length === 1 ? '' : 's'}; ${fuzzReplay.invariant}() should now fail`,
+        ...(failed && { variant: 'destructive' as const }),
+      });
+    } finally {
+      setIsReplaying(false);
+    }
+  };
+
   const handleParameterChange = (index: number, value: string) => {
     const newParams = [...parameters];
     newParams[index] = value;
@@ -100,7 +173,7 @@ const FunctionExecutionPanel: React.FC<FunctionExecutionPanelProps> = ({
 
     const isReadOnly = selectedFunction.stateMutability === 'view' || selectedFunction.stateMutability === 'pure';
     
-    if (!isReadOnly && !privateKey) {
+    if (!isReadOnly && !privateKey && !isLocal) {
       toast({
         title: 'Private Key Required',
         description: 'Write operations require a private key',
@@ -117,14 +190,15 @@ const FunctionExecutionPanel: React.FC<FunctionExecutionPanelProps> = ({
       const result = await executeFunction(
         contractAddress,
         abi,
-        selectedFunction.name,
+        callName(selectedFunction),
         parsedParams,
         network,
         privateKey || undefined,
         {
           gasLimit: gasLimit || undefined,
           gasPrice: gasPrice || undefined,
-          value: value || '0'
+          value: value || '0',
+          from: sender || undefined
         }
       );
 
@@ -148,7 +222,7 @@ const FunctionExecutionPanel: React.FC<FunctionExecutionPanelProps> = ({
         });
       } else {
         toast({
-          title: 'Execution Failed',
+          title: result.revert ? 'Call Reverted' : 'Execution Failed',
           description: result.error,
           variant: 'destructive',
         });
@@ -183,7 +257,7 @@ const FunctionExecutionPanel: React.FC<FunctionExecutionPanelProps> = ({
       const result = await simulateFunction(
         contractAddress,
         abi,
-        selectedFunction.name,
+        callName(selectedFunction),
         parsedParams,
         network
       );
@@ -206,7 +280,7 @@ const FunctionExecutionPanel: React.FC<FunctionExecutionPanelProps> = ({
         });
       } else {
         toast({
-          title: 'Simulation Failed',
+          title: result.revert ? 'Call Reverted' : 'Simulation Failed',
           description: result.error,
           variant: 'destructive',
         });
@@ -244,6 +318,46 @@ const FunctionExecutionPanel: React.FC<FunctionExecutionPanelProps> = ({
       <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
         {/* Function Execution Form */}
         <div className="space-y-6">
+          {fuzzReplay && (
+            <div className="p-6 rounded-xl bg-gradient-to-br from-red-500/15 to-red-600/10 border border-red-500/30 backdrop-blur-sm">
+              <div className="flex items-center justify-between gap-2 mb-4">
+                <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                  <Bug className="w-4 h-4 text-red-400" />
+                  Fuzz Reproduction
+                </h3>
+                <button onClick={() => setFuzzReplay(null)} className="text-slate-400 hover:text-white" title="Dismiss">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <p className="text-sm text-slate-400 mb-3">
+                Calls breaking <span className="font-mono text-red-300">{fuzzReplay.invariant}()</span> in {fuzzReplay.file}. The fixtures are deployed on the local devnet; load each call or send them all.
+              </p>
+              <div className="space-y-2 mb-4">
+                {fuzzReplay.steps.map((step, index) => (
+                  <div key={index} className="flex items-center gap-3 text-xs font-mono rounded-md px-3 py-2 bg-slate-800/50">
+                    <span className="text-slate-500">{index + 1}.</span>
+                    <span className="flex-1 text-slate-200 break-all">
+                      {findFunction(step.abi, step.signature)?.name ?? step.signature}({step.parameters.join(', ')})
+                      {step.value !== '0' && <span className="text-orange-300"> value={step.value} ETH</span>}
+                      <span className="block text-slate-500">from {step.sender}</span>
+                    </span>
+                    <Button size="sm" variant="outline" onClick={() => loadReplayStep(step)} className="h-7 border-slate-600 text-slate-300">
+                      Load
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <Button
+                onClick={handleReplayAll}
+                disabled={!isLocal || isReplaying || isExecuting}
+                className="w-full bg-red-600 hover:bg-red-500 text-white"
+              >
+                {isReplaying ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+                {isLocal ? 'Replay Sequence' : 'Switch to the local devnet to replay'}
+              </Button>
+            </div>
+          )}
+
           <div className="p-6 rounded-xl bg-gradient-to-br from-slate-800/60 to-slate-700/40 border border-slate-700/50 backdrop-blur-sm">
             <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
               <div className="w-2 h-2 rounded-full bg-blue-400" />
@@ -291,7 +405,10 @@ const FunctionExecutionPanel: React.FC<FunctionExecutionPanelProps> = ({
               <div className="space-y-4">
                 <div className="space-y-2">
                   <Label className="text-slate-300 font-medium">Select Function</Label>
-                  <Select onValueChange={handleFunctionSelect}>
+                  <Select
+                    value={selectedFunction ? signature(selectedFunction) : ''}
+                    onValueChange={handleFunctionSelect}
+                  >
                     <SelectTrigger className="bg-slate-800/50 border-slate-600 text-white focus:border-purple-400 focus:ring-purple-400/20">
                       <SelectValue placeholder="Choose a function to execute" />
                     </SelectTrigger>
@@ -302,10 +419,10 @@ const FunctionExecutionPanel: React.FC<FunctionExecutionPanelProps> = ({
                             📖 Read Functions
                           </div>
                           {readFunctions.map((func) => (
-                            <SelectItem key={func.name} value={func.name} className="text-white hover:bg-slate-700">
+                            <SelectItem key={signature(func)} value={signature(func)} className="text-white hover:bg-slate-700">
                               <div className="flex items-center gap-2">
                                 <div className="w-2 h-2 rounded-full bg-emerald-400" />
-                                <span className="font-medium">{func.name}</span>
+                                <span className="font-medium">{callName(func)}</span>
                                 <Badge variant="outline" className="ml-auto text-xs text-emerald-400 border-emerald-400/30">
                                   view
                                 </Badge>
@@ -322,10 +439,10 @@ const FunctionExecutionPanel: React.FC<FunctionExecutionPanelProps> = ({
                             ✏️ Write Functions
                           </div>
                           {writeFunctions.map((func) => (
-                            <SelectItem key={func.name} value={func.name} className="text-white hover:bg-slate-700">
+                            <SelectItem key={signature(func)} value={signature(func)} className="text-white hover:bg-slate-700">
                               <div className="flex items-center gap-2">
                                 <div className="w-2 h-2 rounded-full bg-orange-400" />
-                                <span className="font-medium">{func.name}</span>
+                                <span className="font-medium">{callName(func)}</span>
                                 <Badge variant="outline" className="ml-auto text-xs text-orange-400 border-orange-400/30">
                                   write
                                 </Badge>
@@ -376,17 +493,27 @@ const FunctionExecutionPanel: React.FC<FunctionExecutionPanelProps> = ({
                 Transaction Settings
               </h3>
               <div className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="private-key" className="text-slate-300 font-medium">Private Key (for write operations)</Label>
-                  <Input
-                    id="private-key"
-                    type="password"
-                    placeholder="0x..."
-                    value={privateKey}
-                    onChange={(e) => setPrivateKey(e.target.value)}
-                    className="bg-slate-800/50 border-slate-600 text-white placeholder:text-slate-500 focus:border-orange-400 focus:ring-orange-400/20"
-                  />
-                </div>
+                {isLocal ? (
+                  <p className="text-sm text-slate-400">
+                    {sender ? (
+                      <>Write operations are signed by the local devnet account <span className="font-mono text-slate-300">{sender}</span>.</>
+                    ) : (
+                      'Write operations are signed by the first local devnet account.'
+                    )}
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    <Label htmlFor="private-key" className="text-slate-300 font-medium">Private Key (for write operations)</Label>
+                    <Input
+                      id="private-key"
+                      type="password"
+                      placeholder="0x..."
+                      value={privateKey}
+                      onChange={(e) => setPrivateKey(e.target.value)}
+                      className="bg-slate-800/50 border-slate-600 text-white placeholder:text-slate-500 focus:border-orange-400 focus:ring-orange-400/20"
+                    />
+                  </div>
+                )}
 
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
@@ -548,7 +675,7 @@ const FunctionExecutionPanel: React.FC<FunctionExecutionPanelProps> = ({
 
                       {result.error && (
                         <div className="mb-3">
-                          <Label className="text-xs text-red-400 font-medium mb-2 block">Error:</Label>
+                          <Label className="text-xs text-red-400 font-medium mb-2 block">{result.revert ? 'Revert:' : 'Error:'}</Label>
                           <div className="text-sm font-mono bg-red-900/20 border border-red-500/30 p-3 rounded-lg text-red-300">
                             {result.error}
                           </div>
@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ethers } from 'ethers';
+import { Bug, CheckCircle2, Loader2, Play, Shuffle, XCircle } from 'lucide-react';
+import { discoverTests, type InvariantViolation } from '@arbitpy/sdk/testing';
+import { cn } from '@/lib/utils';
+import { useAppStore } from '@/stores/appStore';
+import { deployTestFixtures, fuzzTestFile, isTestFile } from '@/lib/testing';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+
+type FuzzResult = Awaited<ReturnType<typeof fuzzTestFile>>;
+
+// Arguments as the Execute tab's parameter fields take them
+function formatArgument(arg: unknown): string {
+  if (typeof arg === 'string') return arg;
+  if (typeof arg === 'bigint' || typeof arg === 'boolean') return String(arg);
+  return JSON.stringify(arg, (_, value) => (typeof value === 'bigint' ? value.toString() : value));
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+/** Fuzzes the @invariant functions of the project's test files on the local devnet */
+const FuzzPanel: React.FC = () => {
+  const { files, activeFile, setActiveFile, setFuzzReplay, setSelectedNetwork, setActiveOutputTab } = useAppStore();
+  const fuzzFiles = useMemo(
+    () =>
+      Object.keys(files)
+        .filter((path) => isTestFile(path) && discoverTests(files[path]).invariants.length > 0)
+        .sort(),
+    [files]
+  );
+
+  const [selected, setSelected] = useState<string>();
+  const [runs, setRuns] = useState('50');
+  const [depth, setDepth] = useState('20');
+  const [fuzzing, setFuzzing] = useState(false);
+  const [replaying, setReplaying] = useState<string | null>(null);
+  const [result, setResult] = useState<FuzzResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow the editor when a file with invariants is opened
+  useEffect(() => {
+    if (fuzzFiles.includes(activeFile)) setSelected(activeFile);
+  }, [activeFile, fuzzFiles]);
+
+  const path = selected && fuzzFiles.includes(selected) ? selected : fuzzFiles[0];
+
+  const fuzz = async () => {
+    if (!path) return;
+    setFuzzing(true);
+    setResult(null);
+    setError(null);
+    try {
+      setResult(await fuzzTestFile(path, files, { runs: Number(runs) || undefined, depth: Number(depth) || undefined }));
+    } catch (fuzzError) {
+      setError(fuzzError instanceof Error ? fuzzError.message : 'Failed to fuzz the invariants');
+    } finally {
+      setFuzzing(false);
+    }
+  };
+
+  // Deploy the fixtures to the local devnet and hand the calls to the Execute tab
+  const replay = async (violation: InvariantViolation) => {
+    if (!result) return;
+    setReplaying(violation.invariant);
+    setError(null);
+    try {
+      const addresses = await deployTestFixtures(result.report.path, files, result.artifacts);
+      setFuzzReplay({
+        file: result.report.path,
+        invariant: violation.invariant,
+        steps: violation.sequence.map((call) => ({
+          contractAddress: addresses[call.target],
+          abi: result.artifacts[call.contract].abi,
+          signature: call.function,
+          parameters: call.args.map(formatArgument),
+          value: call.value === 0n ? '0' : ethers.formatEther(call.value),
+          sender: call.sender,
+        })),
+      });
+      setSelectedNetwork('local');
+      setActiveOutputTab('execute');
+    } catch (replayError) {
+      setError(replayError instanceof Error ? replayError.message : 'Failed to deploy the fixtures');
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  if (fuzzFiles.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-slate-400">
+        <div className="p-6 rounded-2xl bg-gradient-to-br from-slate-600/20 to-slate-500/10 backdrop-blur-sm border border-slate-500/20 mb-6">
+          <Shuffle className="w-16 h-16 text-slate-400 mx-auto drop-shadow-lg" />
+        </div>
+        <h3 className="text-lg font-semibold text-slate-300 mb-2">No Invariants Yet</h3>
+        <p className="text-sm text-slate-400 mb-1">Add @invariant functions to a test_*.py file</p>
+        <p className="text-xs text-slate-500">Random call sequences are checked against them on a local devnet</p>
+      </div>
+    );
+  }
+
+  const report = result?.report;
+
+  return (
+    <div className="p-6 space-y-4 overflow-auto scrollbar-thin h-full">
+      <div className="flex items-center justify-between gap-4 pb-3 border-b border-slate-700/50">
+        <div className="flex flex-wrap gap-2">
+          {fuzzFiles.map((file) => (
+            <button
+              key={file}
+              onClick={() => setSelected(file)}
+              className={cn(
+                'px-3 py-1.5 rounded-lg text-xs font-mono border transition-colors',
+                file === path
+                  ? 'bg-blue-600/30 border-blue-500/50 text-white'
+                  : 'bg-slate-800/50 border-slate-600/50 text-slate-300 hover:text-white'
+              )}
+            >
+              {file}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-slate-400">Runs</label>
+          <Input value={runs} onChange={(e) => setRuns(e.target.value)} className="w-16 h-8 bg-slate-800/50 border-slate-600 text-white" />
+          <label className="text-xs text-slate-400">Depth</label>
+          <Input value={depth} onChange={(e) => setDepth(e.target.value)} className="w-16 h-8 bg-slate-800/50 border-slate-600 text-white" />
+          <Button size="sm" onClick={fuzz} disabled={fuzzing}>
+            {fuzzing ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Play className="w-4 h-4 mr-1" />}
+            Fuzz
+          </Button>
+        </div>
+      </div>
+
+      {error && <div className="p-3 rounded-xl bg-red-500/15 border border-red-500/30 text-sm text-red-300">{error}</div>}
+
+      {report?.errors.map((reportError, index) => (
+        <div key={index} className="p-3 rounded-xl bg-red-500/15 border border-red-500/30 text-sm text-red-300">
+          <span className="font-mono text-xs text-slate-400 mr-2">
+            {reportError.file}:{reportError.line}
+          </span>
+          {reportError.message}
+        </div>
+      ))}
+
+      {report && (
+        <>
+          <p className="text-sm text-slate-400">
+            {report.runs} sequences, {report.calls} calls, seed <span className="font-mono text-slate-300">{report.seed}</span>
+          </p>
+
+          <div className="space-y-2">
+            {report.invariants.map((invariant) => {
+              const violation = report.violations.find((found) => found.invariant === invariant);
+              return (
+                <div
+                  key={invariant}
+                  className={cn(
+                    'p-3 rounded-xl border backdrop-blur-sm',
+                    violation
+                      ? 'bg-gradient-to-r from-red-500/15 to-red-600/10 border-red-500/30'
+                      : 'bg-gradient-to-r from-emerald-500/10 to-emerald-600/5 border-emerald-500/20'
+                  )}
+                >
+                  <div className="flex items-center gap-3">
+                    {violation ? (
+                      <XCircle className="w-4 h-4 text-red-400 flex-shrink-0" />
+                    ) : (
+                      <CheckCircle2 className="w-4 h-4 text-emerald-400 flex-shrink-0" />
+                    )}
+                    <span className="flex-1 text-sm font-mono text-white">{invariant}</span>
+                    {violation ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => replay(violation)}
+                        disabled={replaying !== null}
+                        className="h-7 border-red-500/40 text-red-200"
+                      >
+                        {replaying === invariant ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Bug className="w-3 h-3 mr-1" />}
+                        Replay in Execute
+                      </Button>
+                    ) : (
+                      <span className="text-xs text-emerald-400">held</span>
+                    )}
+                  </div>
+
+                  {violation && (
+                    <div className="mt-3 ml-7 space-y-3">
+                      <p className="text-sm text-red-300 font-mono">{violation.message}</p>
+                      <div className="space-y-1">
+                        {violation.trace.map((frame, index) => (
+                          <button
+                            key={index}
+                            onClick={() => setActiveFile(frame.file)}
+                            className="block w-full text-left text-xs font-mono rounded-md px-2 py-1 bg-slate-800/50 hover:bg-slate-700/60"
+                          >
+                            <span className="text-slate-400">
+                              {frame.file}:{frame.line} in {frame.function}
+                            </span>
+                            <span className="block text-slate-200 pl-4">{frame.source}</span>
+                          </button>
+                        ))}
+                      </div>
+                      <div className="space-y-1">
+                        <p className="text-xs text-slate-500">
+                          Shrunk from {violation.originalLength} to {violation.sequence.length} call
+                          {violation.sequence.length === 1 ? '' : 's'}
+                        </p>
+                        {violation.sequence.map((call, index) => (
+                          <div key={index} className="text-xs font-mono rounded-md px-2 py-1 bg-slate-800/50 text-slate-200 break-all">
+                            <span className="text-slate-500 mr-2">{index + 1}.</span>
+                            {call.target}.{call.function.slice(0, call.function.indexOf('('))}({call.args.map(formatArgument).join(', ')})
+                            {call.value > 0n && <span className="text-orange-300"> value={call.value.toString()}</span>}
+                            <span className="text-slate-500"> from {shortAddress(call.sender)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FuzzPanel;
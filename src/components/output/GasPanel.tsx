@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { Flame, Gauge, Loader2 } from 'lucide-react';
+import { diffGasReports, profileGas } from '@arbitpy/sdk/profiler';
+import { formatRevert } from '@arbitpy/sdk/contract/revert';
+import { cn } from '@/lib/utils';
+import { useAppStore } from '@/stores/appStore';
+import { Button } from '../ui/button';
+
+// Number of hottest lines listed under the table
+const HOT_LINES = 5;
+
+function Delta({ delta, before }: { delta: bigint; before?: bigint }) {
+  if (before === undefined) return <span className="text-slate-500">new</span>;
+  if (delta === 0n) return <span className="text-slate-500">±0</span>;
+  return (
+    <span className={delta < 0n ? 'text-emerald-400' : 'text-red-400'}>
+      {delta > 0n ? '+' : ''}
+      {delta.toLocaleString()}
+    </span>
+  );
+}
+
+/** Gas used by each function of the compiled contract, profiled on the devnet */
+const GasPanel: React.FC = () => {
+  const { solidityCompilationResult, activeFile, gasProfile, previousGasProfile, setGasProfile, setActiveFile } =
+    useAppStore();
+  const [profiling, setProfiling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const compiled = solidityCompilationResult;
+  const canProfile = Boolean(compiled?.abi && compiled.bytecode);
+
+  const profile = async () => {
+    if (!compiled?.abi || !compiled.bytecode) return;
+    setProfiling(true);
+    setError(null);
+    try {
+      const report = await profileGas(
+        { abi: compiled.abi, bytecode: compiled.bytecode },
+        { solidity: compiled.output, runtimeSourceMap: compiled.runtimeSourceMap, sourceMap: compiled.sourceMap }
+      );
+      setGasProfile({ file: compiled.file ?? activeFile, report, timestamp: new Date() });
+    } catch (profileError) {
+      setError(profileError instanceof Error ? profileError.message : 'Failed to profile the contract');
+    } finally {
+      setProfiling(false);
+    }
+  };
+
+  const report = gasProfile?.report;
+  const diff =
+    report && previousGasProfile && previousGasProfile.file === gasProfile.file
+      ? diffGasReports(previousGasProfile.report, report)
+      : undefined;
+  const changes = new Map(diff?.functions.map((change) => [change.signature, change]));
+  const hotLines = report ? [...report.lines].sort((a, b) => (b.gas > a.gas ? 1 : b.gas < a.gas ? -1 : 0)).slice(0, HOT_LINES) : [];
+
+  return (
+    <div className="p-6 space-y-4 overflow-auto scrollbar-thin h-full">
+      <div className="flex items-center justify-between gap-4 pb-3 border-b border-slate-700/50">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Gas Profile</h3>
+          <p className="text-sm text-slate-400">
+            {canProfile
+              ? 'Each function is called with sample inputs on a fresh devnet'
+              : 'Compile to Solidity first to profile the contract'}
+          </p>
+        </div>
+        <Button size="sm" onClick={profile} disabled={!canProfile || profiling}>
+          {profiling ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Gauge className="w-4 h-4 mr-1" />}
+          Profile Gas
+        </Button>
+      </div>
+
+      {error && <div className="p-3 rounded-xl bg-red-500/15 border border-red-500/30 text-sm text-red-300">{error}</div>}
+
+      {report && gasProfile && (
+        <>
+          <div className="flex flex-wrap gap-3 text-sm">
+            <span className="px-3 py-1.5 rounded-lg bg-slate-800/60 text-slate-300 font-mono">
+              {gasProfile.file}
+            </span>
+            <span className="px-3 py-1.5 rounded-lg bg-slate-800/60 text-slate-300">
+              Deployment: <span className="font-mono text-white">{report.deploymentGas.toLocaleString()}</span> gas
+              {diff && (
+                <span className="ml-2 font-mono">
+                  <Delta delta={diff.deployment.delta} before={diff.deployment.before} />
+                </span>
+              )}
+            </span>
+            <span className="px-3 py-1.5 rounded-lg bg-slate-800/60 text-slate-300">
+              Code size: <span className="font-mono text-white">{report.codeSize.toLocaleString()}</span> bytes
+            </span>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase text-slate-500 border-b border-slate-700/50">
+                <th className="py-2 font-semibold">Function</th>
+                <th className="py-2 font-semibold">Mutability</th>
+                <th className="py-2 font-semibold text-right">Gas</th>
+                {diff && <th className="py-2 font-semibold text-right">Δ Previous</th>}
+                <th className="py-2 font-semibold pl-4">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.functions.map((fn) => {
+                const change = changes.get(fn.signature);
+                return (
+                  <tr key={fn.signature} className="border-b border-slate-800/60">
+                    <td className="py-2 font-mono text-white">{fn.signature}</td>
+                    <td className="py-2 text-slate-400">{fn.stateMutability}</td>
+                    <td className="py-2 text-right font-mono text-slate-200">{fn.gasUsed.toLocaleString()}</td>
+                    {diff && (
+                      <td className="py-2 text-right font-mono">
+                        {change && <Delta delta={change.delta} before={change.before} />}
+                      </td>
+                    )}
+                    <td className={cn('py-2 pl-4 text-xs', fn.reverted ? 'text-orange-400' : 'text-emerald-400')}>
+                      {fn.reverted ? `Reverted${fn.revert ? `: ${formatRevert(fn.revert)}` : ''}` : 'OK'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {diff && diff.functions.some((change) => change.after === undefined) && (
+            <p className="text-xs text-slate-500">
+              Removed since the previous profile:{' '}
+              {diff.functions.filter((change) => change.after === undefined).map((change) => change.signature).join(', ')}
+            </p>
+          )}
+
+          {hotLines.length > 0 ? (
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold text-white flex items-center gap-2">
+                <Flame className="w-4 h-4 text-orange-400" /> Hottest Lines
+              </h4>
+              {hotLines.map(({ line, gas }) => (
+                <button
+                  key={line}
+                  onClick={() => setActiveFile(gasProfile.file)}
+                  className="flex w-full justify-between text-xs font-mono rounded-md px-3 py-1.5 bg-slate-800/50 hover:bg-slate-700/60 text-slate-300"
+                >
+                  <span>
+                    {gasProfile.file}:{line}
+                  </span>
+                  <span className="text-white">{gas.toLocaleString()} gas</span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500">
+              Per-line gas needs solc's source map of the deployed bytecode, which the compiler did not return.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GasPanel;
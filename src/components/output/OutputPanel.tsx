@@ -1,11 +1,18 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { cn } from '@/lib/utils';
 import { useAppStore } from '@/stores/appStore';
-import { Copy, Check, FileCode, Terminal, Braces, AlertTriangle, ScrollText, Rocket, Play } from 'lucide-react';
+import { Copy, Check, FileCode, Terminal, Braces, AlertTriangle, ScrollText, Rocket, Play, FlaskConical, Shuffle, Gauge, Database } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
-import Editor from '@monaco-editor/react';
+import Editor, { type OnMount } from '@monaco-editor/react';
+import { generatedLinesFor } from '@arbitpy/sdk/codegen';
 import DeploymentPanel from './DeploymentPanel';
 import FunctionExecutionPanel from './FunctionExecutionPanel';
+import TestsPanel from './TestsPanel';
+import GasPanel from './GasPanel';
+import FuzzPanel from './FuzzPanel';
+import StoragePanel from './StoragePanel';
+
+type CodeEditor = Parameters<OnMount>[0];
 
 const tabs = [
   { id: 'solidity', label: 'Solidity', icon: FileCode },
@@ -13,6 +20,10 @@ const tabs = [
   { id: 'abi', label: 'ABI', icon: Braces },
   { id: 'deploy', label: 'Deploy', icon: Rocket },
   { id: 'execute', label: 'Execute', icon: Play },
+  { id: 'tests', label: 'Tests', icon: FlaskConical },
+  { id: 'fuzz', label: 'Fuzz', icon: Shuffle },
+  { id: 'gas', label: 'Gas', icon: Gauge },
+  { id: 'storage', label: 'Storage', icon: Database },
   { id: 'linter', label: 'Linter', icon: AlertTriangle },
   { id: 'logs', label: 'Compile Log', icon: ScrollText },
 ];
@@ -26,9 +37,62 @@ export function OutputPanel() {
     abiOutput,
     linterWarnings,
     compileLogs,
+    editorCursorLine,
+    solidityCompilationResult,
+    rustCompilationResult,
+    selectedNetwork,
   } = useAppStore();
+  // The panels default to Arbitrum Sepolia unless the devnet is selected
+  const panelNetwork = selectedNetwork === 'local' ? 'local' : undefined;
 
   const [copied, setCopied] = useState(false);
+  const editorRef = useRef<CodeEditor | null>(null);
+  const decorationsRef = useRef<string[]>([]);
+  const [editorMounts, setEditorMounts] = useState(0);
+
+  // Highlight the generated lines for the Python line under the cursor
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || !['solidity', 'rust', 'abi'].includes(activeOutputTab)) return;
+
+    const sourceMap =
+      activeOutputTab === 'solidity'
+        ? solidityCompilationResult?.sourceMap
+        : activeOutputTab === 'rust'
+          ? rustCompilationResult?.sourceMap
+          : undefined;
+    const lines =
+      sourceMap && editorCursorLine ? generatedLinesFor(sourceMap, editorCursorLine) : [];
+
+    decorationsRef.current = editor.deltaDecorations(
+      decorationsRef.current,
+      lines.map((line) => ({
+        range: { startLineNumber: line, startColumn: 1, endLineNumber: line, endColumn: 1 },
+        options: {
+          isWholeLine: true,
+          className: 'source-map-line',
+          linesDecorationsClassName: 'source-map-gutter',
+        },
+      }))
+    );
+    if (lines.length > 0) {
+      editor.revealLinesInCenterIfOutsideViewport(lines[0], lines[lines.length - 1]);
+    }
+  }, [
+    activeOutputTab,
+    editorCursorLine,
+    solidityCompilationResult,
+    rustCompilationResult,
+    compiledSolidity,
+    compiledRust,
+    editorMounts,
+  ]);
+
+  const handleEditorMount: OnMount = (editor) => {
+    editorRef.current = editor;
+    decorationsRef.current = [];
+    setEditorMounts((count) => count + 1);
+  };
 
   const getContent = () => {
     switch (activeOutputTab) {
@@ -42,6 +106,10 @@ export function OutputPanel() {
         return null; // Special case for deployment panel
       case 'execute':
         return null; // Special case for function execution panel
+      case 'tests':
+        return null; // Special case for the test runner
+      case 'gas':
+        return null; // Special case for the gas profiler
       default:
         return '';
     }
@@ -138,15 +206,24 @@ export function OutputPanel() {
           ) : activeOutputTab === 'logs' ? (
             <LogsView logs={compileLogs} />
           ) : activeOutputTab === 'deploy' ? (
-            <DeploymentPanel />
+            <DeploymentPanel network={panelNetwork} />
           ) : activeOutputTab === 'execute' ? (
-            <FunctionExecutionPanel />
+            <FunctionExecutionPanel network={panelNetwork} />
+          ) : activeOutputTab === 'tests' ? (
+            <TestsPanel />
+          ) : activeOutputTab === 'fuzz' ? (
+            <FuzzPanel />
+          ) : activeOutputTab === 'gas' ? (
+            <GasPanel />
+          ) : activeOutputTab === 'storage' ? (
+            <StoragePanel />
           ) : (
             <div className="h-full rounded-lg overflow-hidden">
               <Editor
                 height="100%"
                 language={getLanguage()}
                 value={getContent()}
+                onMount={handleEditorMount}
                 theme="vs-dark"
                 options={{
                   readOnly: true,
@@ -229,7 +306,7 @@ function LinterView({ warnings }: { warnings: typeof useAppStore.prototype.linte
             <p className="text-sm font-medium text-white group-hover:text-slate-100 transition-colors">{warning.message}</p>
             <div className="flex items-center gap-2 mt-2">
               <span className="text-xs text-slate-400 bg-slate-800/50 px-2 py-1 rounded-md font-mono">
-                Line {warning.line}:{warning.column}
+                {warning.file ? `${warning.file} ` : ''}Line {warning.line}:{warning.column}
               </span>
               <span className={cn(
                 'text-xs px-2 py-1 rounded-md font-semibold',
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle2, Database, Pin } from 'lucide-react';
+import { diffStorageLayouts, type StorageEntry } from '@arbitpy/sdk/codegen';
+import { cn } from '@/lib/utils';
+import { useAppStore } from '@/stores/appStore';
+import { Button } from '../ui/button';
+
+interface Comparison {
+  id: string;
+  label: string;
+  layout: StorageEntry[];
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+// Slots taken up to and including the last variable
+function slotCount(layout: StorageEntry[]): number {
+  const last = layout[layout.length - 1];
+  return last ? last.slot + Math.ceil((last.offset + last.bytes) / 32) : 0;
+}
+
+/** Storage layout of the compiled contract, checked against pinned or deployed versions */
+const StoragePanel: React.FC = () => {
+  const { solidityCompilationResult, activeFile, deployments, storageBaseline, setStorageBaseline, setActiveFile } =
+    useAppStore();
+  const [compareWith, setCompareWith] = useState('baseline');
+
+  const compiled = solidityCompilationResult;
+  const layout = compiled?.storageLayout;
+  const file = compiled?.file ?? activeFile;
+
+  // Versions the compiled contract could replace behind a proxy
+  const comparisons: Comparison[] = [
+    ...(storageBaseline
+      ? [{ id: 'baseline', label: `Pinned baseline (${storageBaseline.file})`, layout: storageBaseline.layout }]
+      : []),
+    ...Object.keys(deployments).flatMap((network) =>
+      deployments[network]
+        .filter((contract) => contract.storageLayout && (!contract.file || contract.file === file))
+        .map((contract) => ({
+          id: `${network}:${contract.address}`,
+          label: `${network} ${shortAddress(contract.address)}`,
+          layout: contract.storageLayout as StorageEntry[],
+        }))
+    ),
+  ];
+  const comparison = comparisons.find(({ id }) => id === compareWith) ?? comparisons[0];
+  const diff = layout && comparison ? diffStorageLayouts(comparison.layout, layout) : undefined;
+
+  if (!layout) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-slate-400">
+        <div className="p-6 rounded-2xl bg-gradient-to-br from-slate-600/20 to-slate-500/10 backdrop-blur-sm border border-slate-500/20 mb-6">
+          <Database className="w-16 h-16 text-slate-400 mx-auto drop-shadow-lg" />
+        </div>
+        <h3 className="text-lg font-semibold text-slate-300 mb-2">No Storage Layout Yet</h3>
+        <p className="text-sm text-slate-400 mb-1">Compile to Solidity to see where each state variable is stored</p>
+        <p className="text-xs text-slate-500">Pin a layout to check later versions for upgrade safety</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-4 overflow-auto scrollbar-thin h-full">
+      <div className="flex items-center justify-between gap-4 pb-3 border-b border-slate-700/50">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Storage Layout</h3>
+          <p className="text-sm text-slate-400">
+            <span className="font-mono">{file}</span> uses {slotCount(layout)} storage slots
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            setStorageBaseline({ file, layout, timestamp: new Date() });
+            setCompareWith('baseline');
+          }}
+        >
+          <Pin className="w-4 h-4 mr-1" />
+          Pin as Baseline
+        </Button>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs uppercase text-slate-500 border-b border-slate-700/50">
+            <th className="py-2 font-semibold text-right pr-4">Slot</th>
+            <th className="py-2 font-semibold text-right pr-4">Offset</th>
+            <th className="py-2 font-semibold text-right pr-4">Bytes</th>
+            <th className="py-2 font-semibold">Name</th>
+            <th className="py-2 font-semibold">Type</th>
+          </tr>
+        </thead>
+        <tbody>
+          {layout.map((entry) => (
+            <tr
+              key={entry.name}
+              onClick={() => entry.line !== undefined && setActiveFile(entry.file ?? file)}
+              className={cn(
+                'border-b border-slate-800/60',
+                entry.generated && 'opacity-60',
+                entry.line !== undefined && 'cursor-pointer hover:bg-slate-800/40'
+              )}
+            >
+              <td className="py-2 pr-4 text-right font-mono text-slate-200">{entry.slot}</td>
+              <td className="py-2 pr-4 text-right font-mono text-slate-400">{entry.offset}</td>
+              <td className="py-2 pr-4 text-right font-mono text-slate-400">{entry.bytes}</td>
+              <td className="py-2 font-mono text-white">
+                {entry.name}
+                {entry.generated && <span className="ml-2 text-xs text-slate-500">generated</span>}
+                {entry.line !== undefined && <span className="ml-2 text-xs text-slate-500">line {entry.line}</span>}
+              </td>
+              <td className="py-2 font-mono text-blue-300">{entry.type}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {comparison && diff && (
+        <div className="space-y-3 pt-2">
+          <div className="flex items-center gap-3">
+            <label className="text-xs text-slate-400">Compare with</label>
+            <select
+              value={comparison.id}
+              onChange={(e) => setCompareWith(e.target.value)}
+              className="h-8 px-2 rounded-md bg-slate-800/50 border border-slate-600 text-sm text-white"
+            >
+              {comparisons.map(({ id, label }) => (
+                <option key={id} value={id}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div
+            className={cn(
+              'p-3 rounded-xl border backdrop-blur-sm flex items-center gap-3 text-sm',
+              diff.compatible
+                ? 'bg-gradient-to-r from-emerald-500/10 to-emerald-600/5 border-emerald-500/20 text-emerald-300'
+                : 'bg-gradient-to-r from-red-500/15 to-red-600/10 border-red-500/30 text-red-300'
+            )}
+          >
+            {diff.compatible ? <CheckCircle2 className="w-4 h-4 flex-shrink-0" /> : <AlertTriangle className="w-4 h-4 flex-shrink-0" />}
+            {diff.compatible
+              ? 'Upgrade safe: existing variables keep their slots and types'
+              : 'Layout breaking: an upgrade would read existing storage through the wrong variables'}
+          </div>
+
+          {diff.changes.length === 0 ? (
+            <p className="text-sm text-slate-500">The layouts are identical</p>
+          ) : (
+            <div className="space-y-1">
+              {diff.changes.map((change, index) => (
+                <div
+                  key={index}
+                  className="flex items-center gap-3 text-xs font-mono rounded-md px-2 py-1 bg-slate-800/50 text-slate-200"
+                >
+                  <span className={cn('w-20 flex-shrink-0 uppercase', change.breaking ? 'text-red-400' : 'text-emerald-400')}>
+                    {change.kind}
+                  </span>
+                  {change.message}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StoragePanel;
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle2, FlaskConical, Loader2, Play, XCircle } from 'lucide-react';
+import type { TestReport, TestResult } from '@arbitpy/sdk/testing';
+import { cn } from '@/lib/utils';
+import { useAppStore } from '@/stores/appStore';
+import { isTestFile, runTestFile } from '@/lib/testing';
+import { Button } from '../ui/button';
+
+/** Runs the project's test_*.py files on the local devnet */
+const TestsPanel: React.FC = () => {
+  const { files, activeFile, setActiveFile } = useAppStore();
+  const testFiles = Object.keys(files).filter(isTestFile).sort();
+
+  const [selected, setSelected] = useState<string>();
+  const [running, setRunning] = useState(false);
+  const [results, setResults] = useState<TestResult[]>([]);
+  const [errors, setErrors] = useState<TestReport['errors']>([]);
+  const [runError, setRunError] = useState<string | null>(null);
+
+  // Follow the editor when a test file is opened
+  useEffect(() => {
+    if (isTestFile(activeFile)) setSelected(activeFile);
+  }, [activeFile]);
+
+  const path = selected && selected in files ? selected : testFiles[0];
+
+  const run = async () => {
+    if (!path) return;
+    setRunning(true);
+    setResults([]);
+    setErrors([]);
+    setRunError(null);
+    try {
+      const report = await runTestFile(path, files, (result) =>
+        setResults((previous) => [...previous, result])
+      );
+      setErrors(report.errors);
+    } catch (error) {
+      setRunError(error instanceof Error ? error.message : 'Failed to run tests');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (testFiles.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-slate-400">
+        <div className="p-6 rounded-2xl bg-gradient-to-br from-slate-600/20 to-slate-500/10 backdrop-blur-sm border border-slate-500/20 mb-6">
+          <FlaskConical className="w-16 h-16 text-slate-400 mx-auto drop-shadow-lg" />
+        </div>
+        <h3 className="text-lg font-semibold text-slate-300 mb-2">No Tests Yet</h3>
+        <p className="text-sm text-slate-400 mb-1">Add a test_*.py file with test_ functions</p>
+        <p className="text-xs text-slate-500">Tests deploy your contracts to a local devnet</p>
+      </div>
+    );
+  }
+
+  const passed = results.filter((result) => result.passed).length;
+  const failed = results.length - passed;
+
+  return (
+    <div className="p-6 space-y-4 overflow-auto scrollbar-thin h-full">
+      <div className="flex items-center justify-between gap-4 pb-3 border-b border-slate-700/50">
+        <div className="flex flex-wrap gap-2">
+          {testFiles.map((file) => (
+            <button
+              key={file}
+              onClick={() => setSelected(file)}
+              className={cn(
+                'px-3 py-1.5 rounded-lg text-xs font-mono border transition-colors',
+                file === path
+                  ? 'bg-blue-600/30 border-blue-500/50 text-white'
+                  : 'bg-slate-800/50 border-slate-600/50 text-slate-300 hover:text-white'
+              )}
+            >
+              {file}
+            </button>
+          ))}
+        </div>
+        <Button size="sm" onClick={run} disabled={running}>
+          {running ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Play className="w-4 h-4 mr-1" />}
+          Run Tests
+        </Button>
+      </div>
+
+      {results.length > 0 && (
+        <p className="text-sm text-slate-400">
+          <span className="text-emerald-400 font-semibold">{passed} passed</span>
+          {failed > 0 && <span className="text-red-400 font-semibold">, {failed} failed</span>}
+        </p>
+      )}
+
+      {runError && (
+        <div className="p-3 rounded-xl bg-red-500/15 border border-red-500/30 text-sm text-red-300">{runError}</div>
+      )}
+
+      {errors.map((error, index) => (
+        <div key={index} className="p-3 rounded-xl bg-red-500/15 border border-red-500/30 text-sm text-red-300">
+          <span className="font-mono text-xs text-slate-400 mr-2">
+            {error.file}:{error.line}
+          </span>
+          {error.message}
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        {results.map((result) => (
+          <div
+            key={result.name}
+            className={cn(
+              'p-3 rounded-xl border backdrop-blur-sm',
+              result.passed
+                ? 'bg-gradient-to-r from-emerald-500/10 to-emerald-600/5 border-emerald-500/20'
+                : 'bg-gradient-to-r from-red-500/15 to-red-600/10 border-red-500/30'
+            )}
+          >
+            <div className="flex items-center gap-3">
+              {result.passed ? (
+                <CheckCircle2 className="w-4 h-4 text-emerald-400 flex-shrink-0" />
+              ) : (
+                <XCircle className="w-4 h-4 text-red-400 flex-shrink-0" />
+              )}
+              <span className="flex-1 text-sm font-mono text-white">{result.name}</span>
+              <span className="text-xs text-slate-400 bg-slate-800/50 px-2 py-1 rounded-md font-mono">
+                {result.gasUsed.toLocaleString()} gas
+              </span>
+              <span className="text-xs text-slate-500 font-mono">{result.duration} ms</span>
+            </div>
+
+            {result.failure && (
+              <div className="mt-3 ml-7 space-y-2">
+                <p className="text-sm text-red-300 font-mono">{result.failure.message}</p>
+                <div className="space-y-1">
+                  {result.failure.trace.map((frame, index) => (
+                    <button
+                      key={index}
+                      onClick={() => setActiveFile(frame.file)}
+                      className="block w-full text-left text-xs font-mono rounded-md px-2 py-1 bg-slate-800/50 hover:bg-slate-700/60"
+                    >
+                      <span className="text-slate-400">
+                        {frame.file}:{frame.line} in {frame.function}
+                      </span>
+                      <span className="block text-slate-200 pl-4">{frame.source}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TestsPanel;
@@ -1,8 +1,9 @@
 import { cn } from '@/lib/utils';
 import { useAppStore } from '@/stores/appStore';
-import { ChevronUp, ChevronDown, ExternalLink, Copy, Check, Trash2 } from 'lucide-react';
+import { ChevronUp, ChevronDown, ExternalLink, Copy, Check, Trash2, Zap, XCircle } from 'lucide-react';
 import { useState } from 'react';
 import { toast } from '@/hooks/use-toast';
+import { cancelTransaction, speedUpTransaction } from '@/lib/transactions';
 
 export function TransactionLog() {
   const { 
@@ -12,6 +13,7 @@ export function TransactionLog() {
     clearDeployLogs 
   } = useAppStore();
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+  const [replacing, setReplacing] = useState<string | null>(null);
 
   const copyToClipboard = async (text: string, index: number) => {
     await navigator.clipboard.writeText(text);
@@ -20,6 +22,27 @@ export function TransactionLog() {
     setTimeout(() => setCopiedIndex(null), 2000);
   };
 
+  const replaceTransaction = async (txHash: string, action: 'speedUp' | 'cancel') => {
+    setReplacing(txHash);
+    try {
+      if (action === 'speedUp') {
+        await speedUpTransaction(txHash);
+        toast({ title: 'Speed-up Sent', description: 'Resent with higher fees' });
+      } else {
+        await cancelTransaction(txHash);
+        toast({ title: 'Cancellation Sent', description: 'Replacing the transaction with an empty transfer' });
+      }
+    } catch (error) {
+      toast({
+        title: action === 'speedUp' ? 'Speed-up Failed' : 'Cancellation Failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setReplacing(null);
+    }
+  };
+
   return (
     <div
       className={cn(
@@ -78,6 +101,7 @@ export function TransactionLog() {
                     'p-3 rounded-lg border animate-slide-up',
                     log.status === 'success' ? 'bg-success/5 border-success/30' :
                     log.status === 'failed' ? 'bg-destructive/5 border-destructive/30' :
+                    log.status === 'replaced' || log.status === 'dropped' ? 'bg-muted/30 border-border' :
                     'bg-warning/5 border-warning/30'
                   )}
                   style={{ animationDelay: `${index * 50}ms` }}
@@ -89,12 +113,16 @@ export function TransactionLog() {
                           'w-2 h-2 rounded-full',
                           log.status === 'success' ? 'bg-success' :
                           log.status === 'failed' ? 'bg-destructive' :
+                          log.status === 'replaced' || log.status === 'dropped' ? 'bg-muted-foreground' :
                           'bg-warning animate-pulse'
                         )} />
                         <span className="text-sm font-medium capitalize">{log.status}</span>
                         <span className="text-xs text-muted-foreground">
                           {log.timestamp.toLocaleTimeString()}
                         </span>
+                        {log.nonce !== undefined && (
+                          <span className="text-xs text-muted-foreground">Nonce {log.nonce}</span>
+                        )}
                       </div>
                       <p className="text-sm text-muted-foreground">{log.message}</p>
                       
@@ -125,6 +153,15 @@ export function TransactionLog() {
                         </div>
                       )}
                       
+                      {log.replacedBy && (
+                        <div className="flex items-center gap-2 mt-1">
+                          <span className="text-xs text-muted-foreground">Replaced by:</span>
+                          <code className="text-xs font-mono text-primary truncate max-w-[200px]">
+                            {log.replacedBy}
+                          </code>
+                        </div>
+                      )}
+
                       {log.contractAddress && (
                         <div className="flex items-center gap-2 mt-1">
                           <span className="text-xs text-muted-foreground">Contract:</span>
@@ -142,6 +179,27 @@ export function TransactionLog() {
                         </div>
                       )}
                     </div>
+
+                    {log.status === 'pending' && log.txHash && log.nonce !== undefined && (
+                      <div className="flex items-center gap-2 shrink-0">
+                        <button
+                          onClick={() => replaceTransaction(log.txHash!, 'speedUp')}
+                          disabled={replacing !== null}
+                          className="flex items-center gap-1 px-2 py-1 text-xs rounded border border-border hover:bg-secondary transition-colors disabled:opacity-50"
+                        >
+                          <Zap className="w-3 h-3" />
+                          Speed up
+                        </button>
+                        <button
+                          onClick={() => replaceTransaction(log.txHash!, 'cancel')}
+                          disabled={replacing !== null}
+                          className="flex items-center gap-1 px-2 py-1 text-xs rounded border border-border hover:bg-destructive/20 hover:text-destructive transition-colors disabled:opacity-50"
+                        >
+                          <XCircle className="w-3 h-3" />
+                          Cancel
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
@@ -18,7 +18,7 @@ import {
 } from 'lucide-react';
 
 export function Settings() {
-  const { connectedWallet } = useAppStore();
+  const { connectedWallet, setAutoSave } = useAppStore();
   
   const [settings, setSettings] = useState({
     // Editor Settings
@@ -73,6 +73,7 @@ export function Settings() {
 
   const handleSave = () => {
     localStorage.setItem('arbitpy-settings', JSON.stringify(settings));
+    setAutoSave(settings.autoSave);
     toast({
       title: 'Settings Saved',
       description: 'Your preferences have been saved',
@@ -196,7 +197,7 @@ export function Settings() {
                 <div className="flex items-center justify-between">
                   <div>
                     <label className="text-sm font-medium">Auto Save</label>
-                    <p className="text-xs text-muted-foreground">Save changes automatically</p>
+                    <p className="text-xs text-muted-foreground">Save the workspace to this browser as you edit</p>
                   </div>
                   <ToggleSwitch 
                     checked={settings.autoSave} 
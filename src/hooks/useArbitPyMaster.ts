@@ -1,46 +1,86 @@
-import { useState, useEffect, useCallback } from 'react';
-import { useAccount, useContractRead, useContractWrite, usePrepareContractWrite } from 'wagmi';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAccount, useContractWrite, usePrepareContractWrite } from 'wagmi';
 import { parseEther, formatEther } from 'viem';
+import { ethers } from 'ethers';
+import { multicall, type MulticallCall } from '@arbitpy/sdk/contract/multicall';
+import { ARBITRUM_NETWORKS } from '../stores/appStore';
 import { ARBITPY_MASTER_ABI, ArbitrageParams, UserPosition, PoolInfo, PlatformStats } from '../contracts/ArbitPyMasterABI';
 
 // Deployed contract address on Arbitrum Sepolia
 const CONTRACT_ADDRESS = '0xD4fcbA9301d11DF04F5bA3361D5962b15D761705';
 
+const formatPoolInfo = (pool: ethers.Result): PoolInfo => ({
+  token: pool[0],
+  totalSupply: pool[1],
+  rewardRate: pool[2],
+  lastRewardBlock: pool[3],
+  accRewardPerShare: pool[4],
+  active: pool[5],
+});
+
 export const useArbitPyMaster = () => {
   const { address } = useAccount();
   const [contractAddress, setContractAddress] = useState<string>(CONTRACT_ADDRESS);
 
   // ======================== READ FUNCTIONS ========================
 
-  // Get platform statistics
-  const { data: platformStats, refetch: refetchPlatformStats } = useContractRead({
-    address: contractAddress as `0x${string}`,
-    abi: ARBITPY_MASTER_ABI,
-    functionName: 'getPlatformStats',
-  });
+  // Dashboard reads go through Multicall3, so they need no wallet
+  const provider = useMemo(
+    () => new ethers.JsonRpcProvider(ARBITRUM_NETWORKS.sepolia.rpcUrls[0]),
+    []
+  );
+  const [platformStats, setPlatformStats] = useState<ethers.Result | null>(null);
+  const [userPosition, setUserPosition] = useState<ethers.Result | null>(null);
+  const [pools, setPools] = useState<PoolInfo[]>([]);
+  const [isLoadingDashboard, setIsLoadingDashboard] = useState(false);
+
+  const read = useCallback(
+    <T = ethers.Result>(calls: MulticallCall[]) => multicall<T>(provider, contractAddress, ARBITPY_MASTER_ABI, calls),
+    [provider, contractAddress]
+  );
 
-  // Get user position
-  const { data: userPosition, refetch: refetchUserPosition } = useContractRead({
-    address: contractAddress as `0x${string}`,
-    abi: ARBITPY_MASTER_ABI,
-    functionName: 'getUserPosition',
-    args: address ? [address] : undefined,
-    enabled: !!address,
-  });
+  // Platform statistics and the user position in one batch, then every pool in the next
+  const refetchDashboard = useCallback(async () => {
+    setIsLoadingDashboard(true);
+    try {
+      const [stats, position] = await read([
+        { method: 'getPlatformStats' },
+        ...(address ? [{ method: 'getUserPosition', params: [address] }] : []),
+      ]);
+      setPlatformStats(stats.success ? stats.value : null);
+      setUserPosition(position?.success ? position.value : null);
+
+      const poolCount = stats.success ? Number(stats.value[3]) : 0;
+      const poolResults = await read(
+        Array.from({ length: poolCount }, (_, poolId) => ({ method: 'getPoolInfo', params: [poolId] }))
+      );
+      setPools(poolResults.filter((result) => result.success).map((result) => formatPoolInfo(result.value)));
+    } catch (error) {
+      console.error('Failed to load ArbitPy Master dashboard:', error);
+    } finally {
+      setIsLoadingDashboard(false);
+    }
+  }, [read, address]);
+
+  useEffect(() => {
+    refetchDashboard();
+  }, [refetchDashboard]);
+
+  const refetchPlatformStats = refetchDashboard;
+  const refetchUserPosition = refetchDashboard;
 
   // Get pool info
-  const getPoolInfo = useCallback(async (poolId: number) => {
-    // This would be implemented with dynamic contract reads
-    // For now, return a placeholder structure
-    return null;
-  }, [contractAddress]);
+  const getPoolInfo = useCallback(async (poolId: number): Promise<PoolInfo | null> => {
+    const [result] = await read([{ method: 'getPoolInfo', params: [poolId] }]);
+    return result.success ? formatPoolInfo(result.value) : null;
+  }, [read]);
 
   // Get user token balance
   const getUserTokenBalance = useCallback(async (token: string) => {
     if (!address) return BigInt(0);
-    // Implementation would go here
-    return BigInt(0);
-  }, [address, contractAddress]);
+    const [result] = await read<bigint>([{ method: 'getUserTokenBalance', params: [address, token] }]);
+    return result.success ? result.value : BigInt(0);
+  }, [address, read]);
 
   // ======================== WRITE FUNCTIONS ========================
 
@@ -274,6 +314,8 @@ export const useArbitPyMaster = () => {
     // Read Data
     platformStats: formatPlatformStats(platformStats),
     userPosition: formatUserPosition(userPosition),
+    pools,
+    isLoadingDashboard,
     getPoolInfo,
     getUserTokenBalance,
 
@@ -299,6 +341,7 @@ export const useArbitPyMaster = () => {
     parseTokenAmount,
     
     // Refetch Functions
+    refetchDashboard,
     refetchPlatformStats,
     refetchUserPosition,
   };
@@ -311,6 +354,9 @@ export interface ArbitPyMasterHook {
   updateContractAddress: (address: string) => void;
   platformStats: PlatformStats | null;
   userPosition: UserPosition | null;
+  pools: PoolInfo[];
+  isLoadingDashboard: boolean;
+  refetchDashboard: () => Promise<void>;
   executeArbitrageTransaction: (params: ArbitrageParams) => Promise<void>;
   addLiquidityTransaction: (poolId: number, amount: bigint, isETH?: boolean) => Promise<void>;
   removeLiquidityTransaction: (poolId: number, amount: bigint) => Promise<void>;
@@ -0,0 +1,61 @@
+import { useEffect } from 'react';
+import { DEFAULT_FILE, useAppStore } from '@/stores/appStore';
+import { toast } from '@/hooks/use-toast';
+import { createWorkspace, uniqueWorkspaceName } from '@/lib/workspace';
+import { decodeShareFragment, isShareFragment } from '@/lib/shareLink';
+import { listWorkspaces } from '@/lib/workspaceStorage';
+
+const SHARED_WORKSPACE = 'shared';
+
+/**
+ * Open a share link from the URL fragment in a new workspace, so autosave
+ * does not overwrite the workspace restored from the last session
+ */
+const openShareLink = async () => {
+  const { hash, pathname, search } = window.location;
+  if (!isShareFragment(hash)) return false;
+  // Drop the fragment so a reload does not open the link again
+  window.history.replaceState(null, '', pathname + search);
+
+  try {
+    const shared = decodeShareFragment(hash);
+    const taken = await listWorkspaces()
+      .then((workspaces) => workspaces.map(({ name }) => name))
+      .catch(() => []);
+    const workspace = createWorkspace(uniqueWorkspaceName(SHARED_WORKSPACE, taken));
+    workspace.project.files = { [DEFAULT_FILE]: shared.code };
+
+    const state = useAppStore.getState();
+    state.loadWorkspace(workspace);
+    state.setActiveOutputTab(shared.target);
+    state.setSelectedNetwork(shared.network);
+    state.setActivePage('playground');
+    return true;
+  } catch (error) {
+    toast({
+      title: 'Could Not Open Share Link',
+      description: error instanceof Error ? error.message : String(error),
+      variant: 'destructive',
+    });
+    return false;
+  }
+};
+
+/**
+ * Rehydrate the playground from a share link once the saved workspace has
+ * been restored, on page load and when the fragment changes
+ */
+export const useShareLink = (restored: boolean, onOpen: () => void) => {
+  useEffect(() => {
+    if (!restored) return;
+
+    const handleLink = () => {
+      openShareLink().then((opened) => {
+        if (opened) onOpen();
+      });
+    };
+    handleLink();
+    window.addEventListener('hashchange', handleLink);
+    return () => window.removeEventListener('hashchange', handleLink);
+  }, [restored, onOpen]);
+};
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { useAppStore } from '@/stores/appStore';
+import { snapshotWorkspace } from '@/lib/workspace';
+import {
+  loadCurrentWorkspaceName,
+  loadWorkspace,
+  saveCurrentWorkspaceName,
+  saveWorkspace,
+} from '@/lib/workspaceStorage';
+
+// Delay before writing the workspace after the last change
+const SAVE_DELAY_MS = 500;
+
+// State that belongs to a saved workspace
+const WORKSPACE_KEYS: (keyof ReturnType<typeof useAppStore.getState>)[] = [
+  'files',
+  'folders',
+  'activeFile',
+  'compiledSolidity',
+  'compiledRust',
+  'abiOutput',
+  'solidityCompilationResult',
+  'rustCompilationResult',
+  'deployments',
+];
+
+/** Save the open workspace to IndexedDB and remember it as the current one */
+export const persistWorkspace = async () => {
+  const workspace = snapshotWorkspace();
+  await saveWorkspace(workspace);
+  await saveCurrentWorkspaceName(workspace.name);
+};
+
+/**
+ * Restore the workspace open in the last session, then save it again
+ * whenever it changes while autosave is enabled
+ */
+export const useWorkspacePersistence = () => {
+  const [restored, setRestored] = useState(false);
+  const autoSave = useAppStore((state) => state.autoSave);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadCurrentWorkspaceName()
+      .then((name) => (name ? loadWorkspace(name) : undefined))
+      .then((workspace) => {
+        if (workspace && !cancelled) useAppStore.getState().loadWorkspace(workspace);
+      })
+      .catch((error) => console.error('Failed to restore workspace:', error))
+      .finally(() => {
+        if (!cancelled) setRestored(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    // Saving before the restore finishes would overwrite the stored workspace
+    if (!restored || !autoSave) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = useAppStore.subscribe((state, previous) => {
+      if (WORKSPACE_KEYS.every((key) => state[key] === previous[key])) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        persistWorkspace().catch((error) => console.error('Failed to save workspace:', error));
+      }, SAVE_DELAY_MS);
+    });
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [restored, autoSave]);
+
+  return { restored };
+};
@@ -1,20 +1,49 @@
 // API functions for backend communication
 // These simulate API calls - replace with actual backend endpoints
+import {
+  sourceLineFor,
+  typeCheck,
+  transpileToRust,
+  transpileToSolidity,
+  type AbiItem,
+  type ImportOptions,
+  type SourceMap,
+  type StorageEntry,
+  type TranspileOptions,
+} from '@arbitpy/sdk/codegen';
+import { decodeRevert, formatRevert, type DecodedRevert } from '@arbitpy/sdk/contract/revert';
+import { estimateFees, type FeeEstimate } from '@arbitpy/sdk/deployment/fees';
+import { deterministicDeployTransaction, predictAddress, DETERMINISTIC_DEPLOYER } from '@arbitpy/sdk/deployment/create2';
+import { getDevnet } from '@arbitpy/sdk/devnet';
+import { NETWORKS } from '@arbitpy/sdk/config';
+import { ArbitPyError, InsufficientFundsError, TransactionPendingError, UserRejectedError } from '@arbitpy/sdk/errors';
+import type { JsonRpcApiProvider, Signer } from 'ethers';
+import { sendTracked } from './transactions';
+import { deployToDevnet, executeOnDevnet, LOCAL_NETWORK, simulateOnDevnet } from './devnet';
 
 export interface CompileResponse {
   success: boolean;
   output: string;
-  abi?: string;
+  abi?: AbiItem[];
   bytecode?: string;
   errors?: string[];
   warnings?: string[];
   gasEstimate?: any;
+  /** Line mapping between contract.py and `output` */
+  sourceMap?: SourceMap;
+  /** solc's source map of the deployed bytecode */
+  runtimeSourceMap?: string;
+  /** Slot and offset of each state variable */
+  storageLayout?: StorageEntry[];
 }
 
 export interface LintResponse {
   warnings: Array<{
+    file?: string;
     line: number;
     column: number;
+    endLine?: number;
+    endColumn?: number;
     message: string;
     severity: 'error' | 'warning' | 'info';
   }>;
@@ -33,6 +62,16 @@ export interface DeployResponse {
   contractExplorerUrl?: string;
   sessionId?: string;
   message?: string;
+  /** The contract was already at its deterministic address, so nothing was sent */
+  alreadyDeployed?: boolean;
+  /** The SDK error behind `error`, which tells whether deploying again may succeed */
+  cause?: ArbitPyError;
+}
+
+/** Gas settings in place of the defaults; the gas price is in wei */
+export interface DeployOverrides {
+  gasLimit?: string;
+  gasPrice?: string;
 }
 
 export interface ExecuteResponse {
@@ -44,6 +83,8 @@ export interface ExecuteResponse {
   gasUsed?: string;
   explorerUrl?: string;
   error?: string;
+  /** Decoded reason, panic or custom error when the call reverted */
+  revert?: DecodedRevert;
   functionName?: string;
   parameters?: any[];
   contractAddress?: string;
@@ -54,16 +95,65 @@ export interface SimulateResponse {
   success: boolean;
   result?: any;
   error?: string;
+  revert?: DecodedRevert;
   functionName?: string;
   parameters?: any[];
   contractAddress?: string;
   network?: string;
 }
 
-// Simulate compilation delay
-const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+// Transpiling in the browser keeps the displayed code, ABI and source map in
+// step with the editor; the backend's output is only a fallback
+function transpileLocally(
+  pythonCode: string,
+  target: 'solidity' | 'rust',
+  project: TranspileOptions
+) {
+  try {
+    const result = target === 'solidity'
+      ? transpileToSolidity(pythonCode, project)
+      : transpileToRust(pythonCode, project);
+    return result.success ? result : undefined;
+  } catch (error) {
+    console.error('Local transpilation error:', error);
+    return undefined;
+  }
+}
+
+// Point `contract.sol:12` style references at the matching Python line
+function mapMessages(messages: string[], path: string, sourceMap?: SourceMap): string[] {
+  if (!sourceMap) return messages;
+  return messages.map((message) =>
+    message.replace(/\b[\w/.-]+\.(?:sol|rs):(\d+)(?::\d+)?/g, (reference, line) => {
+      const sourceLine = sourceLineFor(sourceMap, Number(line));
+      return sourceLine ? `${path}:${sourceLine}` : reference;
+    })
+  );
+}
+
+// Name the reason, panic or custom error behind a failed call using the ABI
+function describeFailure(
+  result: { revertData?: string; message?: string; error?: string },
+  abi: AbiItem[],
+  fallback: string
+) {
+  const revert = decodeRevert(result.revertData, abi);
+  return {
+    error: revert ? `Reverted: ${formatRevert(revert)}` : result.message || result.error || fallback,
+    revert,
+  };
+}
 
-export async function compileToSolidity(pythonCode: string): Promise<CompileResponse> {
+/**
+ * `project` holds the path of the compiled file and the other project files,
+ * which `from module import Name` statements resolve against. `upgradeable`
+ * builds the implementation of a proxy, with `initialize` in place of the
+ * constructor.
+ */
+export async function compileToSolidity(
+  pythonCode: string,
+  project: TranspileOptions = {}
+): Promise<CompileResponse> {
   try {
     const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:5000';
     
@@ -75,7 +165,8 @@ export async function compileToSolidity(pythonCode: string): Promise<CompileResp
       body: JSON.stringify({
         code: pythonCode,
         optimization: true,
-        version: '0.8.19'
+        version: '0.8.19',
+        upgradeable: Boolean(project.upgradeable)
       }),
     });
 
@@ -89,14 +180,20 @@ export async function compileToSolidity(pythonCode: string): Promise<CompileResp
       };
     }
 
+    const local = transpileLocally(pythonCode, 'solidity', project);
+    const path = project.path ?? 'contract.py';
+
     return {
       success: result.success,
-      output: result.output || result.solidityCode || '',
-      abi: result.abi,
+      output: local?.output ?? (result.output || result.solidityCode || ''),
+      abi: local?.abi ?? result.abi,
       bytecode: result.bytecode?.object || result.bytecode,
-      errors: result.errors || [],
-      warnings: result.warnings || [],
-      gasEstimate: result.gasEstimate
+      errors: mapMessages(result.errors || [], path, local?.sourceMap),
+      warnings: mapMessages(result.warnings || [], path, local?.sourceMap),
+      gasEstimate: result.gasEstimate,
+      sourceMap: local?.sourceMap,
+      runtimeSourceMap: result.deployedBytecode?.sourceMap || result.sourceMapRuntime,
+      storageLayout: local?.storageLayout
     };
   } catch (error) {
     console.error('Compilation API error:', error);
@@ -108,7 +205,10 @@ export async function compileToSolidity(pythonCode: string): Promise<CompileResp
   }
 }
 
-export async function compileToStylus(pythonCode: string): Promise<CompileResponse> {
+export async function compileToStylus(
+  pythonCode: string,
+  project: ImportOptions = {}
+): Promise<CompileResponse> {
   try {
     const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:5000';
     
@@ -134,14 +234,18 @@ export async function compileToStylus(pythonCode: string): Promise<CompileRespon
       };
     }
 
+    const local = transpileLocally(pythonCode, 'rust', project);
+    const path = project.path ?? 'contract.py';
+
     return {
       success: result.success,
-      output: result.output || result.rustCode || '',
-      abi: result.abi,
+      output: local?.output ?? (result.output || result.rustCode || ''),
+      abi: local?.abi ?? result.abi,
       bytecode: result.wasmBytecode || result.wasm || result.bytecode,
-      errors: result.errors || [],
-      warnings: result.warnings || [],
-      gasEstimate: result.gasEstimate
+      errors: mapMessages(result.errors || [], path, local?.sourceMap),
+      warnings: mapMessages(result.warnings || [], path, local?.sourceMap),
+      gasEstimate: result.gasEstimate,
+      sourceMap: local?.sourceMap
     };
   } catch (error) {
     console.error('Stylus compilation API error:', error);
@@ -153,31 +257,27 @@ export async function compileToStylus(pythonCode: string): Promise<CompileRespon
   }
 }
 
-export async function lintCode(pythonCode: string): Promise<LintResponse> {
-  await delay(800);
-  
-  // Simulated linting
-  const warnings = [];
-  
-  if (!pythonCode.includes('@contract')) {
-    warnings.push({
-      line: 1,
-      column: 1,
-      message: 'Missing @contract decorator on class',
-      severity: 'error' as const,
-    });
-  }
-  
-  if (pythonCode.includes('self.') && !pythonCode.includes('def __init__')) {
-    warnings.push({
-      line: 5,
-      column: 1,
-      message: 'State variables used without __init__ constructor',
-      severity: 'warning' as const,
-    });
-  }
-
-  return { warnings };
+export async function lintCode(
+  pythonCode: string,
+  project: ImportOptions = {}
+): Promise<LintResponse> {
+  // Type checking runs locally, so diagnostics need no backend round trip
+  const { errors, warnings } = typeCheck(pythonCode, project);
+
+  return {
+    warnings: [
+      ...errors.map((error) => ({ ...error, severity: 'error' as const })),
+      ...warnings,
+    ].map((diagnostic) => ({
+      file: diagnostic.file,
+      line: diagnostic.line ?? 1,
+      column: diagnostic.column ?? 1,
+      endLine: diagnostic.endLine,
+      endColumn: diagnostic.endColumn,
+      message: diagnostic.message,
+      severity: diagnostic.severity,
+    })),
+  };
 }
 
 export async function deployContract(
@@ -185,8 +285,11 @@ export async function deployContract(
   abi: any[],
   privateKey: string,
   network: string = 'arbitrum_sepolia',
-  constructorParams: any[] = []
+  constructorParams: any[] = [],
+  overrides: DeployOverrides = {}
 ): Promise<DeployResponse> {
+  if (network === LOCAL_NETWORK) return deployToDevnet(bytecode, abi, constructorParams, overrides);
+
   try {
     const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:5000';
     
@@ -219,6 +322,13 @@ export async function deployContract(
       network
     });
     
+    // Without an answer, or after a server error, the backend may have
+    // sent the deployment anyway
+    const unconfirmed = (cause: unknown) =>
+      new ArbitPyError('The deployment may have been sent; check for it before deploying again', {
+        code: 'DEPLOYMENT_UNCONFIRMED',
+        cause,
+      });
     const response = await fetch(`${apiUrl}/api/v1/deploy/contract`, {
       method: 'POST',
       headers: {
@@ -231,9 +341,13 @@ export async function deployContract(
         constructorParams,
         privateKey,
         // Add some default gas settings
-        gasLimit: '3000000'
+        gasLimit: overrides.gasLimit ?? '3000000',
+        ...(overrides.gasPrice && { gasPrice: overrides.gasPrice })
       }),
+    }).catch((error) => {
+      throw unconfirmed(error);
     });
+    if (response.status >= 500) throw unconfirmed(new Error(`The API answered ${response.status}`));
 
     const result = await response.json();
     
@@ -258,7 +372,8 @@ export async function deployContract(
     console.error('Deployment API error:', error);
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown deployment error'
+      error: error instanceof Error ? error.message : 'Unknown deployment error',
+      ...(error instanceof ArbitPyError && { cause: error })
     };
   }
 }
@@ -268,7 +383,8 @@ export async function deployContractWithSigner(
   abi: any[],
   signer: any,
   network: string = 'arbitrum_sepolia',
-  constructorParams: any[] = []
+  constructorParams: any[] = [],
+  overrides: DeployOverrides = {}
 ): Promise<DeployResponse> {
   try {
     // Validate bytecode before deployment
@@ -284,6 +400,7 @@ export async function deployContractWithSigner(
     if (!signer) {
       throw new Error('Signer is required for MetaMask deployment');
     }
+    await assertSignerNetwork(signer, network);
 
     // Import ethers here to avoid import issues
     const { ContractFactory } = await import('ethers');
@@ -299,17 +416,16 @@ export async function deployContractWithSigner(
       signerAddress: await signer.getAddress()
     });
 
-    // Deploy the contract
-    const contract = await contractFactory.deploy(...constructorParams, {
-      gasLimit: '3000000'
+    // Deploy through the transaction manager, so the transaction log can
+    // speed up or cancel it
+    const deployTransaction = await contractFactory.getDeployTransaction(...constructorParams, {
+      gasLimit: overrides.gasLimit ?? '3000000',
+      ...(overrides.gasPrice && { gasPrice: overrides.gasPrice })
     });
+    const txReceipt = await sendTracked(signer, deployTransaction, 'Deploying contract...');
 
-    // Wait for deployment
-    const deploymentTx = await contract.waitForDeployment();
-    const txReceipt = await contract.deploymentTransaction()?.wait();
-    
-    const contractAddress = await contract.getAddress();
-    const txHash = contract.deploymentTransaction()?.hash;
+    const contractAddress = txReceipt.contractAddress;
+    const txHash = txReceipt.hash;
 
     // Calculate deployment cost
     const gasUsed = txReceipt?.gasUsed?.toString() || '0';
@@ -339,9 +455,9 @@ export async function deployContractWithSigner(
     // Handle specific MetaMask errors
     let errorMessage = 'Deployment failed';
     if (error instanceof Error) {
-      if (error.message.includes('user rejected')) {
+      if (error instanceof UserRejectedError || error.message.includes('user rejected')) {
         errorMessage = 'User rejected the transaction in MetaMask';
-      } else if (error.message.includes('insufficient funds')) {
+      } else if (error instanceof InsufficientFundsError || error.message.includes('insufficient funds')) {
         errorMessage = 'Insufficient funds for gas fees';
       } else if (error.message.includes('network')) {
         errorMessage = 'Network error - please check your connection and try again';
@@ -352,7 +468,9 @@ export async function deployContractWithSigner(
     
     return {
       success: false,
-      error: errorMessage
+      ...(error instanceof TransactionPendingError && { txHash: error.transactionHash }),
+      error: errorMessage,
+      ...(error instanceof ArbitPyError && { cause: error })
     };
   }
 }
@@ -368,8 +486,13 @@ export async function executeFunction(
     gasLimit?: string;
     gasPrice?: string;
     value?: string;
+    /** Devnet account to send from; only used on the local network */
+    from?: string;
   } = {}
 ): Promise<ExecuteResponse> {
+  const { from, ...backendOptions } = options;
+  if (network === LOCAL_NETWORK) return executeOnDevnet(contractAddress, abi, functionName, parameters, { ...backendOptions, from });
+
   try {
     const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:5000';
     
@@ -385,7 +508,7 @@ export async function executeFunction(
         parameters,
         network,
         privateKey,
-        ...options
+        ...backendOptions
       }),
     });
 
@@ -394,7 +517,8 @@ export async function executeFunction(
     if (!response.ok) {
       return {
         success: false,
-        error: result.message || result.error || 'Function execution failed'
+        txHash: result.txHash || undefined,
+        ...describeFailure(result, abi, 'Function execution failed')
       };
     }
 
@@ -427,6 +551,8 @@ export async function simulateFunction(
   parameters: any[] = [],
   network: string = 'arbitrum_sepolia'
 ): Promise<SimulateResponse> {
+  if (network === LOCAL_NETWORK) return simulateOnDevnet(contractAddress, abi, functionName, parameters);
+
   try {
     const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:5000';
     
@@ -449,7 +575,7 @@ export async function simulateFunction(
     if (!response.ok) {
       return {
         success: false,
-        error: result.message || result.error || 'Function simulation failed'
+        ...describeFailure(result, abi, 'Function simulation failed')
       };
     }
 
@@ -516,6 +642,137 @@ export async function getTransactionDetails(txHash: string, network: string = 'a
   }
 }
 
+// The SDK names networks like 'arbitrum-sepolia', the backend like 'arbitrum_sepolia'.
+// Networks other than Arbitrum's are only reached from the browser, through their RPC endpoints.
+export const SDK_NETWORKS: Record<string, string> = {
+  arbitrum_sepolia: 'arbitrum-sepolia',
+  arbitrum: 'arbitrum-one',
+  base_sepolia: 'base-sepolia',
+  base: 'base',
+  optimism_sepolia: 'optimism-sepolia',
+  optimism: 'optimism',
+  ethereum_sepolia: 'sepolia',
+  ethereum: 'ethereum',
+  polygon: 'polygon',
+};
+
+/** Chain ID of a backend network, undefined when it has no RPC endpoint */
+export function networkChainId(network: string): number | undefined {
+  return NETWORKS[SDK_NETWORKS[network]]?.chainId;
+}
+
+/** Throws when a wallet's signer is on another chain than `network` */
+async function assertSignerNetwork(signer: Signer, network: string): Promise<void> {
+  const chainId = networkChainId(network);
+  const signerChainId = signer.provider && Number((await signer.provider.getNetwork()).chainId);
+  if (chainId !== undefined && signerChainId && signerChainId !== chainId) {
+    throw new Error(`The signer is on chain ${signerChainId}, not ${network} (${chainId})`);
+  }
+}
+
+// Shared by every caller, so transactions sent through a network's
+// provider are followed by one transaction manager
+const networkProviders = new Map<string, Promise<JsonRpcApiProvider>>();
+
+/** Provider for a backend network; the devnet's on the local network */
+export async function getNetworkProvider(network: string): Promise<JsonRpcApiProvider> {
+  if (network === LOCAL_NETWORK) return getDevnet().getProvider();
+  const config = NETWORKS[SDK_NETWORKS[network]];
+  if (!config) throw new Error(`No RPC endpoint for ${network}`);
+
+  let provider = networkProviders.get(network);
+  if (!provider) {
+    provider = import('ethers').then(
+      ({ JsonRpcProvider }) => new JsonRpcProvider(config.rpcUrl, config.chainId, { staticNetwork: true })
+    );
+    networkProviders.set(network, provider);
+  }
+  return provider;
+}
+
+/** Code at an address, '0x' when nothing is deployed there */
+export async function getDeployedCode(address: string, network: string = 'arbitrum_sepolia'): Promise<string> {
+  return (await getNetworkProvider(network)).getCode(address);
+}
+
+/** Whether the CREATE2 deployer is on a network, which deterministic deploys need */
+export async function hasDeterministicDeployer(network: string = 'arbitrum_sepolia'): Promise<boolean> {
+  return (await getDeployedCode(DETERMINISTIC_DEPLOYER, network)) !== '0x';
+}
+
+/**
+ * Deploy through the CREATE2 deployer, so the contract lands at
+ * `predictAddress(bytecode, salt, constructorParams, abi)` on every network.
+ * Returns the existing contract when one is already there.
+ */
+export async function deployContractDeterministic(
+  bytecode: string,
+  abi: AbiItem[],
+  salt: string,
+  signer: Signer,
+  network: string = 'arbitrum_sepolia',
+  constructorParams: unknown[] = [],
+  overrides: DeployOverrides = {}
+): Promise<DeployResponse> {
+  try {
+    const contractAddress = predictAddress(bytecode, salt, constructorParams, abi);
+    if (!(await hasDeterministicDeployer(network))) {
+      throw new Error(`The CREATE2 deployer ${DETERMINISTIC_DEPLOYER} is not deployed on ${network}`);
+    }
+    if ((await getDeployedCode(contractAddress, network)) !== '0x') {
+      return {
+        success: true,
+        contractAddress,
+        network,
+        alreadyDeployed: true,
+        message: `Contract already deployed at ${contractAddress}`,
+      };
+    }
+    await assertSignerNetwork(signer, network);
+
+    const request = { ...deterministicDeployTransaction(bytecode, salt, constructorParams, abi), ...overrides };
+    const receipt = await sendTracked(signer, request, 'Deploying contract with CREATE2...');
+    return {
+      success: true,
+      txHash: receipt.hash,
+      contractAddress,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      deploymentCost: (Number(receipt.fee) / 1e18).toFixed(6),
+      network,
+      message: `Contract deployed successfully to ${contractAddress}`,
+    };
+  } catch (error) {
+    console.error('Deterministic deployment error:', error);
+    const cause = error instanceof ArbitPyError ? { cause: error } : {};
+    if (error instanceof UserRejectedError) return { success: false, error: 'User rejected the transaction', ...cause };
+    if (error instanceof TransactionPendingError) {
+      return { success: false, txHash: error.transactionHash, network, error: error.message, ...cause };
+    }
+    return { success: false, error: error instanceof Error ? error.message : 'Deployment failed', ...cause };
+  }
+}
+
+/**
+ * Gas and cost of a deployment at the slow, normal and fast fee presets,
+ * with the L1 data cost split from L2 execution
+ */
+export async function estimateDeploymentFees(
+  bytecode: string,
+  abi: AbiItem[],
+  network: string = 'arbitrum_sepolia',
+  constructorParams: unknown[] = [],
+  from?: string
+): Promise<FeeEstimate> {
+  if (networkChainId(network) === undefined && network !== LOCAL_NETWORK) {
+    throw new Error(`Fee estimation is not available for ${network}`);
+  }
+
+  const { ContractFactory } = await import('ethers');
+  const transaction = await new ContractFactory(abi, bytecode).getDeployTransaction(...constructorParams);
+  return estimateFees(await getNetworkProvider(network), { ...transaction, from });
+}
+
 export async function estimateDeploymentGas(
   bytecode: string,
   abi: any[],
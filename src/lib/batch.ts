@@ -0,0 +1,85 @@
+// Deploying the compiled contract to several networks from the Deploy tab
+import { parseUnits } from 'ethers';
+import type { DeploymentTarget } from '@arbitpy/sdk/deployment/batch';
+import type { DeploymentResult } from '@arbitpy/sdk/types';
+import { LOCAL_CHAIN_ID, NETWORKS } from '@arbitpy/sdk/config';
+import { TransactionPendingError } from '@arbitpy/sdk/errors';
+import { SDK_NETWORKS, type DeployResponse } from './api';
+import { LOCAL_NETWORK } from './devnet';
+
+// The backend deploys to Arbitrum only; other networks are reached from the browser
+const BACKEND_NETWORKS = ['arbitrum_sepolia', 'arbitrum'];
+
+/** Networks a plan can target, by backend network name; `create2Only` ones need a salt */
+export const BATCH_NETWORKS = [
+  { network: LOCAL_NETWORK, label: 'Local Devnet', chainId: LOCAL_CHAIN_ID, create2Only: false },
+  ...Object.entries(SDK_NETWORKS).map(([network, name]) => ({
+    network,
+    label: NETWORKS[name].name,
+    chainId: NETWORKS[name].chainId,
+    create2Only: !BACKEND_NETWORKS.includes(network),
+  })),
+];
+
+/** A row of the matrix as typed in */
+export interface BatchRow {
+  enabled: boolean;
+  /** JSON array; the plan's arguments when empty */
+  constructorArgs: string;
+  gasLimit: string;
+  /** In gwei */
+  gasPrice: string;
+  /** Signs for this network instead of the Deploy tab's method */
+  privateKey: string;
+}
+
+export const emptyBatchRow = (enabled = false): BatchRow => ({
+  enabled,
+  constructorArgs: '',
+  gasLimit: '',
+  gasPrice: '',
+  privateKey: '',
+});
+
+/** The row's overrides as a plan target; throws on arguments that are not a JSON array */
+export function toDeploymentTarget(network: string, row: BatchRow): DeploymentTarget {
+  const constructorArgs = row.constructorArgs.trim();
+  const constructorParams = constructorArgs ? JSON.parse(constructorArgs) : undefined;
+  if (constructorParams !== undefined && !Array.isArray(constructorParams)) {
+    throw new Error(`Constructor arguments for ${network} must be a JSON array`);
+  }
+  return {
+    network,
+    ...(constructorParams && { constructorParams }),
+    ...(row.gasLimit.trim() && { gasLimit: row.gasLimit.trim() }),
+    ...(row.gasPrice.trim() && { gasPrice: parseUnits(row.gasPrice.trim(), 'gwei').toString() }),
+    ...(row.privateKey.trim() && { privateKey: row.privateKey.trim() }),
+  };
+}
+
+/**
+ * A backend response as the SDK's result; throws when it failed, so the plan
+ * can retry, unless the deployment was sent and may still be mined. SDK
+ * errors are rethrown as they are, so rejections and reverts are not retried.
+ */
+export function toDeploymentResult(response: DeployResponse): DeploymentResult {
+  if (!response.success && response.txHash) {
+    throw new TransactionPendingError(response.error || `Sent ${response.txHash}, but it is not confirmed yet`, {
+      transactionHash: response.txHash,
+    });
+  }
+  if (!response.success && response.cause) throw response.cause;
+  if (!response.success || !response.contractAddress) {
+    throw new Error(response.error || 'Deployment failed');
+  }
+  return {
+    success: true,
+    transactionHash: response.txHash ?? '',
+    contractAddress: response.contractAddress,
+    blockNumber: response.blockNumber ?? 0,
+    gasUsed: response.gasUsed ?? '0',
+    status: 'confirmed',
+    ...(response.alreadyDeployed && { alreadyDeployed: true }),
+    ...(response.contractExplorerUrl && { explorerUrl: response.contractExplorerUrl }),
+  };
+}
@@ -0,0 +1,103 @@
+// Deploying and executing contracts on the in-browser local devnet
+import { ethers } from 'ethers';
+import { getDevnet } from '@arbitpy/sdk/devnet';
+import { decodeRevert, findRevertData, formatRevert } from '@arbitpy/sdk/contract/revert';
+import type { DeployOverrides, DeployResponse, ExecuteResponse, SimulateResponse } from './api';
+
+export const LOCAL_NETWORK = 'local';
+
+// Results leave as JSON-friendly values, like the backend's responses
+function toPlain(value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value)) return value.map(toPlain);
+  return value;
+}
+
+function describeError(error: unknown, abi: ethers.InterfaceAbi) {
+  const revert = decodeRevert(findRevertData(error), abi);
+  const message = error instanceof Error ? (error as { shortMessage?: string }).shortMessage ?? error.message : String(error);
+  return { error: revert ? `Reverted: ${formatRevert(revert)}` : message, revert };
+}
+
+/** Deploy from the first devnet account; the transaction is mined at once */
+export async function deployToDevnet(
+  bytecode: string,
+  abi: ethers.InterfaceAbi,
+  constructorParams: unknown[] = [],
+  overrides: DeployOverrides = {}
+): Promise<DeployResponse> {
+  try {
+    const factory = new ethers.ContractFactory(abi, bytecode, getDevnet().getSigner());
+    const contract = await factory.deploy(...constructorParams, overrides);
+    const receipt = await contract.deploymentTransaction()!.wait();
+    const contractAddress = await contract.getAddress();
+    return {
+      success: true,
+      txHash: receipt?.hash,
+      contractAddress,
+      blockNumber: receipt?.blockNumber,
+      gasUsed: receipt?.gasUsed.toString(),
+      deploymentCost: receipt ? ethers.formatEther(receipt.fee) : undefined,
+      network: LOCAL_NETWORK,
+      message: `Contract deployed successfully to ${contractAddress}`,
+    };
+  } catch (error) {
+    return { success: false, error: describeError(error, abi).error };
+  }
+}
+
+/** Call a view function, or send a transaction from a devnet account (the first by default) */
+export async function executeOnDevnet(
+  contractAddress: string,
+  abi: ethers.InterfaceAbi,
+  functionName: string,
+  parameters: unknown[] = [],
+  options: { gasLimit?: string; value?: string; from?: string } = {}
+): Promise<ExecuteResponse> {
+  const devnet = getDevnet();
+  const account = options.from ? devnet.accounts.findIndex(({ address }) => address.toLowerCase() === options.from!.toLowerCase()) : 0;
+  if (account < 0) return { success: false, error: `${options.from} is not a devnet account` };
+  const contract = new ethers.Contract(contractAddress, abi, devnet.getSigner(account));
+  const fragment = contract.interface.getFunction(functionName);
+  const details = { functionName, parameters, contractAddress, network: LOCAL_NETWORK };
+  if (!fragment) return { success: false, error: `Function ${functionName} not found in contract ABI` };
+
+  try {
+    if (fragment.constant) {
+      const result = await contract[functionName](...parameters);
+      return { success: true, type: 'read', result: toPlain(result), ...details };
+    }
+
+    const tx = await contract[functionName](...parameters, {
+      ...(options.gasLimit && { gasLimit: options.gasLimit }),
+      ...(options.value && options.value !== '0' && { value: ethers.parseEther(options.value) }),
+    });
+    const receipt = await tx.wait();
+    return {
+      success: true,
+      type: 'write',
+      txHash: tx.hash,
+      blockNumber: receipt?.blockNumber,
+      gasUsed: receipt?.gasUsed.toString(),
+      ...details,
+    };
+  } catch (error) {
+    return { success: false, ...describeError(error, abi) };
+  }
+}
+
+/** Run a function as a call without changing the devnet */
+export async function simulateOnDevnet(
+  contractAddress: string,
+  abi: ethers.InterfaceAbi,
+  functionName: string,
+  parameters: unknown[] = []
+): Promise<SimulateResponse> {
+  try {
+    const contract = new ethers.Contract(contractAddress, abi, getDevnet().getSigner());
+    const result = await contract[functionName].staticCall(...parameters);
+    return { success: true, result: toPlain(result), functionName, parameters, contractAddress, network: LOCAL_NETWORK };
+  } catch (error) {
+    return { success: false, ...describeError(error, abi) };
+  }
+}
@@ -0,0 +1,75 @@
+// Playground state encoded in the URL fragment, so links work without a backend
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
+import type { PlaygroundNetwork } from '@/stores/appStore';
+
+const FRAGMENT_PREFIX = '#share=';
+const SHARE_VERSION = 1;
+
+export type ShareTarget = 'solidity' | 'rust';
+
+export interface SharedPlayground {
+  code: string;
+  target: ShareTarget;
+  network: PlaygroundNetwork;
+}
+
+const TARGETS: ShareTarget[] = ['solidity', 'rust'];
+const NETWORKS: PlaygroundNetwork[] = ['sepolia', 'mainnet', 'local'];
+
+// URL-safe base64 without padding
+function toBase64Url(data: Uint8Array): string {
+  return btoa(strFromU8(data, true)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return strToU8(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), true);
+}
+
+/** The URL fragment, including '#', that encodes `shared` */
+export function encodeShareFragment(shared: SharedPlayground): string {
+  const json = JSON.stringify({ v: SHARE_VERSION, ...shared });
+  return FRAGMENT_PREFIX + toBase64Url(deflateSync(strToU8(json), { level: 9 }));
+}
+
+/** A link to the current page that opens `shared` in the playground */
+export function buildShareUrl(shared: SharedPlayground): string {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${encodeShareFragment(shared)}`;
+}
+
+export function isShareFragment(hash: string): boolean {
+  return hash.startsWith(FRAGMENT_PREFIX);
+}
+
+/**
+ * Decode a fragment made by encodeShareFragment(). Throws an Error with a
+ * readable message when the link was truncated or edited.
+ */
+export function decodeShareFragment(hash: string): SharedPlayground {
+  const encoded = hash.slice(FRAGMENT_PREFIX.length);
+  if (!encoded) throw new Error('The share link is empty');
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(strFromU8(inflateSync(fromBase64Url(encoded))));
+  } catch {
+    throw new Error('The share link is corrupted or incomplete. Ask for the link to be copied again.');
+  }
+
+  if (!payload || typeof payload !== 'object') {
+    throw new Error('The share link does not contain a contract');
+  }
+  const { v, code, target, network } = payload as Record<string, unknown>;
+  if (typeof v !== 'number' || v > SHARE_VERSION) {
+    throw new Error('The share link was made by a newer version of ArbitPy');
+  }
+  if (typeof code !== 'string') {
+    throw new Error('The share link does not contain a contract');
+  }
+  return {
+    code,
+    target: TARGETS.includes(target as ShareTarget) ? (target as ShareTarget) : 'solidity',
+    network: NETWORKS.includes(network as PlaygroundNetwork) ? (network as PlaygroundNetwork) : 'sepolia',
+  };
+}
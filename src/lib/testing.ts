@@ -0,0 +1,96 @@
+// Running test_*.py files against contracts compiled from the project
+import type { AbiItem } from '@arbitpy/sdk/codegen';
+import { getDevnet } from '@arbitpy/sdk/devnet';
+import { parseModule } from '@arbitpy/sdk/parser';
+import {
+  deployFixtures,
+  discoverTests,
+  fuzzInvariants,
+  isTestFile,
+  runTests,
+  type ContractArtifact,
+  type FuzzOptions,
+  type FuzzReport,
+  type TestReport,
+  type TestResult,
+} from '@arbitpy/sdk/testing';
+import { compileToSolidity } from './api';
+
+export { isTestFile };
+
+export interface CompiledContract {
+  abi: AbiItem[];
+  bytecode: string;
+}
+
+function declaresContract(source: string, name: string): boolean {
+  try {
+    return parseModule(source).body.some((member) => member.kind === 'ContractDef' && member.name === name);
+  } catch {
+    return false;
+  }
+}
+
+/** The project file declaring the contract `name` */
+function findContract(files: Record<string, string>, name: string): string | undefined {
+  return Object.keys(files).find(
+    (path) => path.endsWith('.py') && !isTestFile(path) && declaresContract(files[path], name)
+  );
+}
+
+/** Compile the contracts a test file imports, skipping names with no matching contract */
+async function compileArtifacts(
+  path: string,
+  files: Record<string, string>
+): Promise<Record<string, CompiledContract>> {
+  const artifacts: Record<string, CompiledContract> = {};
+
+  for (const name of new Set(discoverTests(files[path]).contracts)) {
+    const contractPath = findContract(files, name);
+    if (!contractPath) continue;
+
+    const result = await compileToSolidity(files[contractPath], { path: contractPath, files });
+    if (!result.success || !result.abi || !result.bytecode) {
+      throw new Error(`Failed to compile ${name} (${contractPath}): ${result.errors?.join(', ') || 'no bytecode returned'}`);
+    }
+    const bytecode = result.bytecode.startsWith('0x') ? result.bytecode : `0x${result.bytecode}`;
+    artifacts[name] = { abi: result.abi, bytecode };
+  }
+  return artifacts;
+}
+
+/**
+ * Compile the contracts a test file imports and run its tests on a fresh
+ * devnet. Imports with no matching contract are reported by the runner.
+ */
+export async function runTestFile(
+  path: string,
+  files: Record<string, string>,
+  onResult?: (result: TestResult) => void
+): Promise<TestReport> {
+  const artifacts = await compileArtifacts(path, files);
+  return runTests(files[path], { path, artifacts, onResult });
+}
+
+/** Fuzz the @invariant functions of a test file on a fresh devnet */
+export async function fuzzTestFile(
+  path: string,
+  files: Record<string, string>,
+  options: Pick<FuzzOptions, 'runs' | 'depth' | 'seed'> = {}
+): Promise<{ report: FuzzReport; artifacts: Record<string, CompiledContract> }> {
+  const artifacts = await compileArtifacts(path, files);
+  const report = await fuzzInvariants(files[path], { path, artifacts, ...options });
+  return { report, artifacts };
+}
+
+/**
+ * Deploy a test file's invariant fixtures to the local devnet, where a
+ * fuzzed sequence can then be replayed; returns addresses by fixture name
+ */
+export function deployTestFixtures(
+  path: string,
+  files: Record<string, string>,
+  artifacts: Record<string, ContractArtifact>
+): Promise<Record<string, string>> {
+  return deployFixtures(files[path], { path, artifacts, devnet: getDevnet() });
+}
@@ -0,0 +1,89 @@
+// Wallet transactions tracked in the transaction log
+import type { ethers } from 'ethers';
+import { TransactionManager } from '@arbitpy/sdk/deployment/transactions';
+import { ArbitPyError, ContractRevertedError, TransactionPendingError } from '@arbitpy/sdk/errors';
+import { useAppStore } from '@/stores/appStore';
+
+// One manager per provider, so sending on another network or with another
+// key leaves the transactions already being followed alone
+const managers = new Map<ethers.Provider, TransactionManager>();
+
+/**
+ * The transaction manager of a provider. Its events keep the entries of
+ * the transaction log up to date.
+ */
+export function getTransactionManager(provider: ethers.Provider): TransactionManager {
+  const existing = managers.get(provider);
+  if (existing) return existing;
+
+  const created = new TransactionManager(provider);
+  const { updateDeployLog } = useAppStore.getState();
+
+  created.on('transaction:confirmed', ({ hash, blockNumber }) => {
+    const receipt = created.getTransaction(hash)?.receipt;
+    updateDeployLog(hash, {
+      status: 'success',
+      message: `Confirmed in block ${blockNumber}`,
+      ...(receipt?.contractAddress && { contractAddress: receipt.contractAddress }),
+    });
+  });
+  created.on('transaction:replaced', ({ hash, replacement, cancelled }) =>
+    updateDeployLog(hash, {
+      status: 'replaced',
+      replacedBy: replacement,
+      message: cancelled ? 'Cancelled' : replacement ? 'Replaced by a faster transaction' : 'Replaced by another transaction with the same nonce',
+    })
+  );
+  created.on('transaction:dropped', ({ hash }) =>
+    updateDeployLog(hash, { status: 'dropped', message: 'Dropped from the mempool' })
+  );
+  created.on('error', (error) => {
+    if (error instanceof ContractRevertedError && error.transactionHash) {
+      updateDeployLog(error.transactionHash, { status: 'failed', message: error.message });
+    }
+  });
+
+  managers.set(provider, created);
+  return created;
+}
+
+// The manager following a transaction
+function managerOf(hash: string): TransactionManager {
+  for (const manager of managers.values()) {
+    if (manager.getTransaction(hash)) return manager;
+  }
+  throw new Error('This transaction is not being tracked');
+}
+
+/** Send a transaction, log it as pending and wait until it or a speed-up is mined */
+export async function sendTracked(
+  signer: ethers.Signer,
+  request: ethers.TransactionRequest,
+  message: string
+): Promise<ethers.TransactionReceipt> {
+  if (!signer.provider) throw new Error('Signer is not connected to a provider');
+  const transactions = getTransactionManager(signer.provider);
+  const { hash, nonce } = await transactions.send(signer, request);
+  useAppStore.getState().addDeployLog({ status: 'pending', message, txHash: hash, nonce });
+  try {
+    return await transactions.wait(hash);
+  } catch (error) {
+    // Stopped tracking before the transaction was mined, so it may still be
+    if (error instanceof ArbitPyError && error.code === 'TRANSACTION_NOT_CONFIRMED') {
+      throw new TransactionPendingError(`Sent ${hash}, but it is not confirmed yet`, { transactionHash: hash, cause: error });
+    }
+    throw error;
+  }
+}
+
+/** Resend a pending transaction with bumped fees */
+export async function speedUpTransaction(hash: string): Promise<void> {
+  const { hash: replacement, nonce } = await managerOf(hash).speedUp(hash);
+  useAppStore.getState().addDeployLog({ status: 'pending', message: `Speed-up of ${hash.slice(0, 10)}...`, txHash: replacement, nonce });
+}
+
+/** Replace a pending transaction with a zero-value transfer to self */
+export async function cancelTransaction(hash: string): Promise<void> {
+  const { hash: replacement, nonce } = await managerOf(hash).cancel(hash);
+  useAppStore.getState().addDeployLog({ status: 'pending', message: `Cancellation of ${hash.slice(0, 10)}...`, txHash: replacement, nonce });
+}
@@ -0,0 +1,80 @@
+// Upgradeable deployments behind ERC-1967 proxies, through the SDK
+import type { Signer } from 'ethers';
+import type { AbiItem, StorageEntry } from '@arbitpy/sdk/codegen';
+import { ArbitPyDeployment, type ProxyDeploymentOptions } from '@arbitpy/sdk/deployment';
+import type { ProxyKind } from '@arbitpy/sdk/deployment/proxy';
+import { SDK_NETWORKS, type DeployResponse } from './api';
+import { toDeploymentResult } from './batch';
+
+/** The deployment method picked in the Deploy tab: devnet, private key or wallet */
+export interface ProxyDeployer {
+  deploy(bytecode: string, abi: unknown[], constructorParams?: unknown[]): Promise<DeployResponse>;
+  /** Sends upgrades and is the default admin; on the devnet the SDK picks the admin's account when there is none */
+  signer(): Promise<Signer | undefined>;
+}
+
+export interface UpgradeableDeployResponse extends DeployResponse {
+  implementation?: string;
+  admin?: string;
+}
+
+const deployment = new ArbitPyDeployment();
+
+// SDK options deploying through the Deploy tab's method; `responses` collects
+// what each deployment returned, in order
+async function deployThrough(deployer: ProxyDeployer, responses: DeployResponse[] = []): Promise<ProxyDeploymentOptions> {
+  return {
+    deploy: async ({ bytecode, abi, constructorParams }) => {
+      const response = await deployer.deploy(bytecode, abi, constructorParams);
+      responses.push(response);
+      return toDeploymentResult(response);
+    },
+    signer: await deployer.signer(),
+  };
+}
+
+/** Deploy the implementation, then a proxy to it that runs the initializer */
+export async function deployUpgradeable(
+  deployer: ProxyDeployer,
+  network: string,
+  bytecode: string,
+  abi: AbiItem[],
+  options: { kind: ProxyKind; initializer?: string; initializerArgs?: unknown[]; admin?: string }
+): Promise<UpgradeableDeployResponse> {
+  const responses: DeployResponse[] = [];
+  const result = await deployment.deployUpgradeable(
+    { network: SDK_NETWORKS[network] ?? network, bytecode, abi, ...options },
+    undefined,
+    await deployThrough(deployer, responses)
+  );
+  return { ...responses[responses.length - 1], implementation: result.implementationAddress, admin: result.admin };
+}
+
+/**
+ * Deploy a new implementation and point the proxy at it; throws before
+ * deploying when a storage layout is missing or not upgrade safe
+ */
+export async function upgradeProxy(
+  deployer: ProxyDeployer,
+  network: string,
+  proxy: string,
+  kind: ProxyKind,
+  contract: { bytecode: string; abi: AbiItem[]; previousLayout: StorageEntry[]; storageLayout: StorageEntry[] }
+): Promise<{ implementation: string; txHash: string }> {
+  const result = await deployment.upgrade(
+    { network: SDK_NETWORKS[network] ?? network, proxyAddress: proxy, kind, ...contract },
+    undefined,
+    await deployThrough(deployer)
+  );
+  return { implementation: result.implementationAddress, txHash: result.transactionHash };
+}
+
+/** Initializer arguments typed in as strings, converted like the Execute tab does */
+export function parseArguments(inputs: readonly { type: string }[], raw: string[]): unknown[] {
+  return inputs.map(({ type }, index) => {
+    const value = (raw[index] ?? '').trim();
+    if (type === 'bool') return value.toLowerCase() === 'true';
+    if (type.endsWith(']') || type.startsWith('tuple')) return JSON.parse(value);
+    return value;
+  });
+}
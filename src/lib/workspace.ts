@@ -0,0 +1,202 @@
+// Workspace snapshots and zip export/import
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import {
+  DEFAULT_CODE,
+  DEFAULT_FILE,
+  useAppStore,
+  type CompilationResult,
+  type DeployedContract,
+  type Workspace,
+  type WorkspaceOutputs,
+} from '@/stores/appStore';
+
+/** Manifest at the root of an exported workspace zip */
+export const MANIFEST_FILE = 'arbitpy.json';
+const MANIFEST_FORMAT = 'arbitpy-workspace';
+const MANIFEST_VERSION = 1;
+
+export interface WorkspaceManifest {
+  format: typeof MANIFEST_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;
+  activeFile: string;
+  /** Project files, stored in the zip under the same paths */
+  files: string[];
+  folders: string[];
+  deployments: Record<string, DeployedContract[]>;
+  outputs: WorkspaceOutputs;
+}
+
+export function emptyOutputs(): WorkspaceOutputs {
+  return {
+    compiledSolidity: '',
+    compiledRust: '',
+    abiOutput: '',
+    solidityCompilationResult: null,
+    rustCompilationResult: null,
+  };
+}
+
+/** A workspace holding only the starter contract */
+export function createWorkspace(name: string): Workspace {
+  return {
+    name,
+    project: { files: { [DEFAULT_FILE]: DEFAULT_CODE }, folders: [], activeFile: DEFAULT_FILE },
+    outputs: emptyOutputs(),
+    deployments: {},
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/** `name`, suffixed with " (2)", " (3)", ... until it is not in `taken` */
+export function uniqueWorkspaceName(name: string, taken: string[]): string {
+  let candidate = name;
+  for (let n = 2; taken.includes(candidate); n++) candidate = `${name} (${n})`;
+  return candidate;
+}
+
+/** The open project, its outputs and deployments as a workspace */
+export function snapshotWorkspace(name?: string): Workspace {
+  const state = useAppStore.getState();
+  return {
+    name: name ?? state.workspaceName,
+    project: { files: state.files, folders: state.folders, activeFile: state.activeFile },
+    outputs: {
+      compiledSolidity: state.compiledSolidity,
+      compiledRust: state.compiledRust,
+      abiOutput: state.abiOutput,
+      solidityCompilationResult: state.solidityCompilationResult,
+      rustCompilationResult: state.rustCompilationResult,
+    },
+    deployments: state.deployments,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function isWorkspace(value: unknown): value is Workspace {
+  if (!isRecord(value) || typeof value.name !== 'string') return false;
+  const { project } = value;
+  return (
+    isRecord(project) &&
+    isRecord(project.files) &&
+    Object.keys(project.files).length > 0 &&
+    Object.values(project.files).every((content) => typeof content === 'string') &&
+    Array.isArray(project.folders) &&
+    typeof project.activeFile === 'string' &&
+    isRecord(value.outputs) &&
+    isRecord(value.deployments) &&
+    typeof value.updatedAt === 'string'
+  );
+}
+
+/** Zip the project files next to a manifest describing the workspace */
+export function exportWorkspaceZip(workspace: Workspace): Uint8Array {
+  const { project } = workspace;
+  const manifest: WorkspaceManifest = {
+    format: MANIFEST_FORMAT,
+    version: MANIFEST_VERSION,
+    name: workspace.name,
+    exportedAt: new Date().toISOString(),
+    activeFile: project.activeFile,
+    files: Object.keys(project.files),
+    folders: project.folders,
+    deployments: workspace.deployments,
+    outputs: workspace.outputs,
+  };
+
+  const entries: Record<string, Uint8Array> = {
+    [MANIFEST_FILE]: strToU8(JSON.stringify(manifest, null, 2)),
+  };
+  for (const [path, content] of Object.entries(project.files)) {
+    entries[path] = strToU8(content);
+  }
+  return zipSync(entries);
+}
+
+// Zip entries must stay inside the project
+function isSafePath(path: unknown): path is string {
+  return (
+    typeof path === 'string' &&
+    path.length > 0 &&
+    !path.startsWith('/') &&
+    !path.split('/').some((part) => part === '' || part === '.' || part === '..')
+  );
+}
+
+// JSON turns compilation timestamps into strings
+function reviveResult(result: unknown): CompilationResult | null {
+  if (!isRecord(result)) return null;
+  const compiled = result as unknown as CompilationResult;
+  return {
+    ...compiled,
+    timestamp: compiled.timestamp ? new Date(compiled.timestamp) : undefined,
+  };
+}
+
+/**
+ * Read a zip made by exportWorkspaceZip(). Throws an Error with a readable
+ * message when the archive is not a valid workspace.
+ */
+export function importWorkspaceZip(data: Uint8Array): Workspace {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(data);
+  } catch {
+    throw new Error('The file is not a valid zip archive');
+  }
+
+  const manifestData = entries[MANIFEST_FILE];
+  if (!manifestData) {
+    throw new Error(`Not an ArbitPy workspace: ${MANIFEST_FILE} is missing`);
+  }
+  let manifest: Partial<WorkspaceManifest>;
+  try {
+    manifest = JSON.parse(strFromU8(manifestData));
+  } catch {
+    throw new Error(`${MANIFEST_FILE} is not valid JSON`);
+  }
+  if (!isRecord(manifest) || manifest.format !== MANIFEST_FORMAT) {
+    throw new Error(`${MANIFEST_FILE} does not describe an ArbitPy workspace`);
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > MANIFEST_VERSION) {
+    throw new Error(`Workspace format version ${manifest.version} is not supported`);
+  }
+  if (!Array.isArray(manifest.files) || manifest.files.length === 0) {
+    throw new Error('The workspace has no files');
+  }
+
+  const files: Record<string, string> = {};
+  for (const path of manifest.files) {
+    if (!isSafePath(path)) throw new Error(`Invalid file path in manifest: ${String(path)}`);
+    if (!entries[path]) throw new Error(`${path} is listed in the manifest but missing from the zip`);
+    files[path] = strFromU8(entries[path]);
+  }
+  const folders = Array.isArray(manifest.folders) ? manifest.folders.filter(isSafePath) : [];
+  const outputs = isRecord(manifest.outputs) ? manifest.outputs : emptyOutputs();
+
+  return {
+    name: typeof manifest.name === 'string' && manifest.name.trim() ? manifest.name.trim() : 'imported',
+    project: {
+      files,
+      folders,
+      activeFile:
+        typeof manifest.activeFile === 'string' && manifest.activeFile in files
+          ? manifest.activeFile
+          : Object.keys(files)[0],
+    },
+    outputs: {
+      compiledSolidity: typeof outputs.compiledSolidity === 'string' ? outputs.compiledSolidity : '',
+      compiledRust: typeof outputs.compiledRust === 'string' ? outputs.compiledRust : '',
+      abiOutput: typeof outputs.abiOutput === 'string' ? outputs.abiOutput : '',
+      solidityCompilationResult: reviveResult(outputs.solidityCompilationResult),
+      rustCompilationResult: reviveResult(outputs.rustCompilationResult),
+    },
+    deployments: isRecord(manifest.deployments) ? manifest.deployments : {},
+    updatedAt: new Date().toISOString(),
+  };
+}
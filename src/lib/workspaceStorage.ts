@@ -0,0 +1,97 @@
+// Workspace persistence in the browser's IndexedDB
+import { DEFAULT_WORKSPACE, type Workspace } from '@/stores/appStore';
+import { emptyOutputs, isWorkspace } from '@/lib/workspace';
+
+const DB_NAME = 'arbitpy';
+const DB_VERSION = 2;
+const WORKSPACES = 'workspaces';
+const META = 'meta';
+const CURRENT_WORKSPACE = 'currentWorkspace';
+
+// Version 1 kept a single unnamed project
+const LEGACY_PROJECTS = 'projects';
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const workspaces = db.createObjectStore(WORKSPACES, { keyPath: 'name' });
+      db.createObjectStore(META);
+      if (event.oldVersion === 1) {
+        const projects = request.transaction!.objectStore(LEGACY_PROJECTS);
+        const legacy = projects.get('current');
+        legacy.onsuccess = () => {
+          if (legacy.result) {
+            workspaces.put({
+              name: DEFAULT_WORKSPACE,
+              project: legacy.result,
+              outputs: emptyOutputs(),
+              deployments: {},
+              updatedAt: new Date().toISOString(),
+            });
+          }
+          db.deleteObjectStore(LEGACY_PROJECTS);
+        };
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = run(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export interface WorkspaceSummary {
+  name: string;
+  updatedAt: string;
+}
+
+/** Saved workspaces, most recently saved first */
+export async function listWorkspaces(): Promise<WorkspaceSummary[]> {
+  const stored = await withStore<unknown[]>(WORKSPACES, 'readonly', (store) => store.getAll());
+  return stored
+    .filter(isWorkspace)
+    .map(({ name, updatedAt }) => ({ name, updatedAt }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function loadWorkspace(name: string): Promise<Workspace | undefined> {
+  const stored = await withStore<unknown>(WORKSPACES, 'readonly', (store) => store.get(name));
+  return isWorkspace(stored) ? stored : undefined;
+}
+
+export async function saveWorkspace(workspace: Workspace): Promise<void> {
+  await withStore(WORKSPACES, 'readwrite', (store) => store.put(workspace));
+}
+
+export async function deleteWorkspace(name: string): Promise<void> {
+  await withStore(WORKSPACES, 'readwrite', (store) => store.delete(name));
+}
+
+/** Name of the workspace that was open in the last session */
+export async function loadCurrentWorkspaceName(): Promise<string | undefined> {
+  const name = await withStore<unknown>(META, 'readonly', (store) => store.get(CURRENT_WORKSPACE));
+  return typeof name === 'string' ? name : undefined;
+}
+
+export async function saveCurrentWorkspaceName(name: string): Promise<void> {
+  await withStore(META, 'readwrite', (store) => store.put(name, CURRENT_WORKSPACE));
+}
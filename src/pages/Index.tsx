@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
 import { LandingPage } from '@/components/landing/LandingPage';
 import { Sidebar } from '@/components/layout/Sidebar';
 import { Header } from '@/components/layout/Header';
@@ -9,10 +9,14 @@ import { About } from '@/components/pages/About';
 import { ArbitPyAI } from '@/components/pages/ArbitPyAI';
 import { TransactionLog } from '@/components/output/TransactionLog';
 import { useAppStore } from '@/stores/appStore';
+import { useWorkspacePersistence } from '@/hooks/useWorkspacePersistence';
+import { useShareLink } from '@/hooks/useShareLink';
 
 const Index = () => {
   const [showApp, setShowApp] = useState(false);
   const { activePage } = useAppStore();
+  const { restored } = useWorkspacePersistence();
+  useShareLink(restored, useCallback(() => setShowApp(true), []));
 
   const renderPage = () => {
     switch (activePage) {
@@ -1,9 +1,16 @@
 import { create } from 'zustand';
 import { ethers } from 'ethers';
+import type { AbiItem, SourceMap, StorageEntry } from '@arbitpy/sdk/codegen';
+import type { ProxyKind } from '@arbitpy/sdk/deployment/proxy';
+import type { GasReport } from '@arbitpy/sdk/profiler';
 
 export interface LinterWarning {
+  /** Project file the warning is in, when it is not the active file */
+  file?: string;
   line: number;
   column: number;
+  endLine?: number;
+  endColumn?: number;
   message: string;
   severity: 'error' | 'warning' | 'info';
 }
@@ -17,9 +24,13 @@ export interface CompileLog {
 export interface DeployLog {
   timestamp: Date;
   txHash?: string;
-  status: 'pending' | 'success' | 'failed';
+  status: 'pending' | 'success' | 'failed' | 'replaced' | 'dropped';
   message: string;
   contractAddress?: string;
+  /** Set for transactions sent through the transaction manager */
+  nonce?: number;
+  /** Hash of the transaction mined with this nonce instead */
+  replacedBy?: string;
 }
 
 export interface CompilationResult {
@@ -31,6 +42,107 @@ export interface CompilationResult {
   warnings?: string[];
   gasEstimate?: any;
   timestamp?: Date;
+  sourceMap?: SourceMap;
+  /** solc's source map of the deployed bytecode */
+  runtimeSourceMap?: string;
+  /** Slot and offset of each state variable */
+  storageLayout?: StorageEntry[];
+  /** Project file that was compiled */
+  file?: string;
+}
+
+// Gas used by a compiled contract's functions, profiled on the devnet
+export interface GasProfile {
+  /** Project file the contract was compiled from */
+  file: string;
+  report: GasReport;
+  timestamp: Date;
+}
+
+// One call of a shrunk fuzz sequence, as the Execute tab fills it in
+export interface ReplayStep {
+  contractAddress: string;
+  abi: AbiItem[];
+  /** Function signature, like `transfer(address,uint256)` */
+  signature: string;
+  parameters: string[];
+  /** Ether sent along */
+  value: string;
+  sender: string;
+}
+
+// A sequence breaking an invariant, queued for replay on the local devnet
+export interface FuzzReplay {
+  file: string;
+  invariant: string;
+  steps: ReplayStep[];
+}
+
+// A multi-file project; paths are relative to the project root
+export interface Project {
+  files: Record<string, string>;
+  folders: string[];
+  activeFile: string;
+}
+
+export const DEFAULT_FILE = 'contract.py';
+export const DEFAULT_WORKSPACE = 'default';
+
+// A contract deployed from the workspace
+export interface DeployedContract {
+  address: string;
+  txHash?: string;
+  target: 'solidity' | 'rust';
+  /** ISO timestamp of the deployment */
+  deployedAt: string;
+  /** Project file the contract was compiled from */
+  file?: string;
+  /** Storage layout of the deployed version, to check upgrades against */
+  storageLayout?: StorageEntry[];
+  /** Set when `address` is an ERC-1967 proxy */
+  proxy?: {
+    kind: ProxyKind;
+    implementation: string;
+    /** Admin of a transparent proxy */
+    admin?: string;
+  };
+}
+
+// A storage layout pinned to compare later versions against
+export interface StorageBaseline {
+  file: string;
+  layout: StorageEntry[];
+  timestamp: Date;
+}
+
+// Compiled code and artifacts of the last compilations
+export interface WorkspaceOutputs {
+  compiledSolidity: string;
+  compiledRust: string;
+  abiOutput: string;
+  solidityCompilationResult: CompilationResult | null;
+  rustCompilationResult: CompilationResult | null;
+}
+
+// A named project saved with its outputs and deployments
+export interface Workspace {
+  name: string;
+  project: Project;
+  outputs: WorkspaceOutputs;
+  /** Deployed contracts keyed by network */
+  deployments: Record<string, DeployedContract[]>;
+  /** ISO timestamp of the last save */
+  updatedAt: string;
+}
+
+// The Settings page keeps its preferences in localStorage
+function storedAutoSave(): boolean {
+  try {
+    const settings = JSON.parse(localStorage.getItem('arbitpy-settings') ?? '{}');
+    return typeof settings.autoSave === 'boolean' ? settings.autoSave : true;
+  } catch {
+    return true;
+  }
 }
 
 // Arbitrum network configurations
@@ -51,6 +163,11 @@ export const ARBITRUM_NETWORKS = {
   },
 };
 
+export type ArbitrumNetwork = keyof typeof ARBITRUM_NETWORKS;
+
+/** Networks the playground can target: Arbitrum, or the in-browser devnet */
+export type PlaygroundNetwork = ArbitrumNetwork | 'local';
+
 // Wallet state interfaces
 export interface WalletState {
   isConnected: boolean;
@@ -74,6 +191,28 @@ interface AppState {
   // Editor state
   editorCode: string;
   setEditorCode: (code: string) => void;
+  editorCursorLine: number | null;
+  setEditorCursorLine: (line: number | null) => void;
+
+  // Virtual file system; `editorCode` mirrors the active file
+  files: Record<string, string>;
+  folders: string[];
+  activeFile: string;
+  setActiveFile: (path: string) => void;
+  createFile: (path: string, content?: string) => void;
+  createFolder: (path: string) => void;
+  renameEntry: (from: string, to: string) => void;
+  deleteEntry: (path: string) => void;
+
+  // Workspace
+  workspaceName: string;
+  setWorkspaceName: (name: string) => void;
+  deployments: Record<string, DeployedContract[]>;
+  addDeployment: (network: string, contract: DeployedContract) => void;
+  updateDeployment: (network: string, address: string, changes: Partial<DeployedContract>) => void;
+  loadWorkspace: (workspace: Workspace) => void;
+  autoSave: boolean;
+  setAutoSave: (enabled: boolean) => void;
 
   // Compiled outputs
   compiledSolidity: string;
@@ -89,6 +228,19 @@ interface AppState {
   rustCompilationResult: CompilationResult | null;
   setRustCompilationResult: (result: CompilationResult | null) => void;
 
+  // Gas profiles; the previous one is kept to diff against
+  gasProfile: GasProfile | null;
+  previousGasProfile: GasProfile | null;
+  setGasProfile: (profile: GasProfile) => void;
+
+  // Storage layout pinned in the Storage tab
+  storageBaseline: StorageBaseline | null;
+  setStorageBaseline: (baseline: StorageBaseline | null) => void;
+
+  // Fuzz sequence to step through in the Execute tab
+  fuzzReplay: FuzzReplay | null;
+  setFuzzReplay: (replay: FuzzReplay | null) => void;
+
   // Linter
   linterWarnings: LinterWarning[];
   setLinterWarnings: (warnings: LinterWarning[]) => void;
@@ -100,6 +252,7 @@ interface AppState {
 
   deployLogs: DeployLog[];
   addDeployLog: (log: Omit<DeployLog, 'timestamp'>) => void;
+  updateDeployLog: (txHash: string, update: Partial<Omit<DeployLog, 'timestamp' | 'txHash'>>) => void;
   clearDeployLogs: () => void;
 
   // Wallet State
@@ -113,6 +266,9 @@ interface AppState {
   updateWalletBalance: (balance: string) => void;
   setWalletError: (error: string | null) => void;
   getNetworkInfo: () => NetworkInfo;
+  /** Network the playground targets when connecting or switching */
+  selectedNetwork: PlaygroundNetwork;
+  setSelectedNetwork: (network: PlaygroundNetwork) => void;
   
   // Legacy support (keeping for backward compatibility)
   connectedWallet: string | null;
@@ -139,7 +295,7 @@ interface AppState {
   setActivePage: (page: 'playground' | 'examples' | 'settings' | 'about' | 'arbitpy-ai') => void;
 }
 
-const DEFAULT_CODE = `# ArbitPy Smart Contract Example
+export const DEFAULT_CODE = `# ArbitPy Smart Contract Example
 # A simple ERC20 token written in Python
 
 @contract
@@ -186,9 +342,112 @@ class MyToken:
         return True
 `;
 
+// `path` itself or anything below it when it is a folder
+function isWithin(entry: string, path: string) {
+  return entry === path || entry.startsWith(`${path}/`);
+}
+
+function movePath(entry: string, from: string, to: string) {
+  return isWithin(entry, from) ? to + entry.slice(from.length) : entry;
+}
+
 export const useAppStore = create<AppState>((set) => ({
   editorCode: DEFAULT_CODE,
-  setEditorCode: (code) => set({ editorCode: code }),
+  setEditorCode: (code) =>
+    set((state) => ({
+      editorCode: code,
+      files: { ...state.files, [state.activeFile]: code },
+    })),
+  editorCursorLine: null,
+  setEditorCursorLine: (line) => set({ editorCursorLine: line }),
+
+  files: { [DEFAULT_FILE]: DEFAULT_CODE },
+  folders: [],
+  activeFile: DEFAULT_FILE,
+  setActiveFile: (path) =>
+    set((state) =>
+      path in state.files
+        ? { activeFile: path, editorCode: state.files[path], editorCursorLine: null }
+        : {}
+    ),
+  createFile: (path, content = '') =>
+    set((state) => ({
+      files: { ...state.files, [path]: content },
+      activeFile: path,
+      editorCode: content,
+      editorCursorLine: null,
+    })),
+  createFolder: (path) =>
+    set((state) => ({
+      folders: state.folders.includes(path) ? state.folders : [...state.folders, path],
+    })),
+  renameEntry: (from, to) =>
+    set((state) => {
+      const files = Object.fromEntries(
+        Object.entries(state.files).map(([path, content]) => [movePath(path, from, to), content])
+      );
+      return {
+        files,
+        folders: state.folders.map((folder) => movePath(folder, from, to)),
+        activeFile: movePath(state.activeFile, from, to),
+      };
+    }),
+  deleteEntry: (path) =>
+    set((state) => {
+      const remaining = Object.keys(state.files).filter((file) => !isWithin(file, path));
+      // A project always keeps at least one file
+      if (remaining.length === 0) return {};
+      const files = Object.fromEntries(remaining.map((file) => [file, state.files[file]]));
+      const activeFile = isWithin(state.activeFile, path) ? remaining[0] : state.activeFile;
+      return {
+        files,
+        folders: state.folders.filter((folder) => !isWithin(folder, path)),
+        activeFile,
+        editorCode: files[activeFile],
+      };
+    }),
+
+  workspaceName: DEFAULT_WORKSPACE,
+  setWorkspaceName: (name) => set({ workspaceName: name }),
+  deployments: {},
+  addDeployment: (network, contract) =>
+    set((state) => {
+      const recorded = state.deployments[network] ?? [];
+      // Deterministic deploys return the contract already at their address
+      if (recorded.some(({ address }) => address === contract.address)) return {};
+      return { deployments: { ...state.deployments, [network]: [...recorded, contract] } };
+    }),
+  updateDeployment: (network, address, changes) =>
+    set((state) => ({
+      deployments: {
+        ...state.deployments,
+        [network]: (state.deployments[network] ?? []).map((contract) =>
+          contract.address === address ? { ...contract, ...changes } : contract
+        ),
+      },
+    })),
+  loadWorkspace: ({ name, project, outputs, deployments }) =>
+    set(() => {
+      const activeFile =
+        project.activeFile in project.files ? project.activeFile : Object.keys(project.files)[0];
+      return {
+        workspaceName: name,
+        files: project.files,
+        folders: project.folders,
+        activeFile,
+        editorCode: project.files[activeFile] ?? '',
+        editorCursorLine: null,
+        ...outputs,
+        deployments,
+        linterWarnings: [],
+        gasProfile: null,
+        previousGasProfile: null,
+        storageBaseline: null,
+        fuzzReplay: null,
+      };
+    }),
+  autoSave: storedAutoSave(),
+  setAutoSave: (enabled) => set({ autoSave: enabled }),
 
   compiledSolidity: '',
   setCompiledSolidity: (code) => set({ compiledSolidity: code }),
@@ -203,6 +462,17 @@ export const useAppStore = create<AppState>((set) => ({
   rustCompilationResult: null,
   setRustCompilationResult: (result) => set({ rustCompilationResult: result }),
 
+  gasProfile: null,
+  previousGasProfile: null,
+  setGasProfile: (profile) =>
+    set((state) => ({ previousGasProfile: state.gasProfile, gasProfile: profile })),
+
+  storageBaseline: null,
+  setStorageBaseline: (baseline) => set({ storageBaseline: baseline }),
+
+  fuzzReplay: null,
+  setFuzzReplay: (replay) => set({ fuzzReplay: replay }),
+
   linterWarnings: [],
   setLinterWarnings: (warnings) => set({ linterWarnings: warnings }),
 
@@ -218,6 +488,10 @@ export const useAppStore = create<AppState>((set) => ({
     set((state) => ({
       deployLogs: [...state.deployLogs, { ...log, timestamp: new Date() }],
     })),
+  updateDeployLog: (txHash, update) =>
+    set((state) => ({
+      deployLogs: state.deployLogs.map((log) => (log.txHash === txHash ? { ...log, ...update } : log)),
+    })),
   clearDeployLogs: () => set({ deployLogs: [] }),
 
   // Initial wallet state
@@ -306,6 +580,9 @@ export const useAppStore = create<AppState>((set) => ({
       wallet: { ...state.wallet, connectedWallet: address }
     })),
 
+  selectedNetwork: 'sepolia',
+  setSelectedNetwork: (network) => set({ selectedNetwork: network }),
+
   activeOutputTab: 'solidity',
   setActiveOutputTab: (tab) => set({ activeOutputTab: tab }),
   sidebarOpen: true,
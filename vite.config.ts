@@ -13,6 +13,11 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      "@arbitpy/sdk": path.resolve(__dirname, "./packages/arbitpy-sdk/src"),
+      // The devnet's @ethereumjs packages import these Node built-ins, also
+      // through readable-stream; resolve them to the browser polyfills instead
+      buffer: "buffer/",
+      events: "events/",
     },
   },
 }));